@@ -0,0 +1,4 @@
+// The config module refuses to load without these; tests never reach a database or a real gateway
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test_jwt_secret';
+process.env.JWT_REFRESH_SECRET = process.env.JWT_REFRESH_SECRET || 'test_jwt_refresh_secret';
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'error';
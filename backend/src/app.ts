@@ -21,12 +21,17 @@ import courseRoutes from './routes/courseRoutes'; // MAKE SURE THIS IS IMPORTED
 import lectureRoutes from './routes/lectureRoutes';
 import enrollmentRoutes from './routes/enrollmentRoutes';
 import assignmentRoutes from './routes/assignmentRoutes';
+import quizRoutes from './routes/quizRoutes';
 import messageRoutes from './routes/messageRoutes';
 import aiRoutes from './routes/aiRoutes';
 import categoryRoutes from './routes/categoryRoutes';
 import uploadRoutes from './routes/uploadRoutes';
 import couponRoutes from './routes/couponRouters';
 import paymentRoutes from './routes/paymentRouters';
+import cartRoutes from './routes/cartRoutes';
+import orderRoutes from './routes/orderRoutes';
+import notificationRoutes from './routes/notificationRoutes';
+import earningRoutes from './routes/earningRoutes';
 
 // Initialize Express app
 const app: Application = express();
@@ -90,6 +95,11 @@ app.use(validateContentType);
 // Rate limiting (applied after security middleware)
 app.use(generalLimiter);
 
+// Invoices are private: they are downloaded through the payment and order invoice endpoints
+app.use('/uploads/invoices', (req, res) => {
+  res.status(404).json({ status: 'fail', message: 'Not found' });
+});
+
 // Serve static files from uploads directory
 app.use('/uploads', express.static(uploadsDir, {
   maxAge: '1d',
@@ -115,12 +125,17 @@ app.use('/api/courses', courseRoutes); // MAKE SURE THIS LINE EXISTS
 app.use('/api/lectures', lectureRoutes);
 app.use('/api/enrollments', enrollmentRoutes);
 app.use('/api/assignments', assignmentRoutes);
+app.use('/api/quizzes', quizRoutes);
 app.use('/api/messages', messageRoutes);
 app.use('/api/ai', aiChatLimiter, aiRoutes);
 app.use('/api/categories', categoryRoutes);
 app.use('/api/upload', uploadLimiter, uploadRoutes);
 app.use('/api/coupons', couponRoutes);
 app.use('/api/payments', paymentRoutes);
+app.use('/api/cart', cartRoutes);
+app.use('/api/orders', orderRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/earnings', earningRoutes);
 
 // Health check endpoint (excluded from rate limiting)
 app.get('/api/health', (req: Request, res: Response) => {
@@ -162,12 +177,12 @@ app.get('/api', (req: Request, res: Response) => {
       auth: {
         base: '/api/auth',
         description: 'Authentication and authorization',
-        routes: ['POST /register', 'POST /login', 'POST /logout', 'GET /me', 'PATCH /change-password']
+        routes: ['POST /register', 'POST /login', 'POST /logout', 'GET /me', 'PATCH /change-password', 'POST /forgot-password', 'GET /reset-password/:token', 'POST /reset-password', 'GET /verify-email/:token', 'POST /resend-verification', 'POST /2fa/verify', 'GET /2fa', 'POST /2fa/setup', 'POST /2fa/enable', 'POST /2fa/disable', 'POST /2fa/recovery-codes']
       },
       users: {
         base: '/api/users',
         description: 'User management',
-        routes: ['GET /', 'GET /:id', 'PATCH /profile', 'DELETE /:id', 'GET /stats']
+        routes: ['GET /', 'GET /:id', 'PATCH /profile', 'DELETE /:id', 'GET /stats', 'GET /two-factor-policies', 'PUT /two-factor-policies/:role']
       },
       courses: {
         base: '/api/courses',
@@ -205,6 +220,23 @@ app.get('/api', (req: Request, res: Response) => {
         description: 'Assignment management',
         routes: ['GET /:id', 'PATCH /:id', 'DELETE /:id', 'POST /:id/submit', 'PATCH /submissions/:id/grade']
       },
+      quizzes: {
+        base: '/api/quizzes',
+        description: 'Question banks and auto-graded quizzes',
+        routes: [
+          'GET /questions',
+          'POST /questions',
+          'PATCH /questions/:questionId',
+          'DELETE /questions/:questionId',
+          'GET /:targetType/:targetId',
+          'PUT /:targetType/:targetId',
+          'GET /:targetType/:targetId/analytics',
+          'POST /:targetType/:targetId/attempts',
+          'GET /attempts/:attemptId',
+          'PUT /attempts/:attemptId/answers',
+          'POST /attempts/:attemptId/submit'
+        ]
+      },
       messages: {
         base: '/api/messages',
         description: 'Internal messaging',
@@ -230,6 +262,22 @@ app.get('/api', (req: Request, res: Response) => {
         description: 'Payment processing and management',
         routes: ['POST /create', 'GET /', 'GET /:id', 'GET /vnpay-return', 'GET /stats', 'GET /methods']
       },
+      notifications: {
+        base: '/api/notifications',
+        description: 'In-app notifications',
+        routes: ['GET /', 'GET /unread-count', 'PATCH /read-all', 'PATCH /:id/read', 'DELETE /:id']
+      },
+      earnings: {
+        base: '/api/earnings',
+        description: 'Teacher revenue share and payouts',
+        routes: [
+          'GET /summary',
+          'GET /statements/:period',
+          'GET /statements/:period/download',
+          'GET /admin/statements',
+          'POST /admin/payouts'
+        ]
+      },
       upload: {
         base: '/api/upload',
         description: 'File upload services',
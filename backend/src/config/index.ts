@@ -26,6 +26,24 @@ interface Config {
   openaiApiKey: string;
   openaiModel: string;
   openaiMaxTokens: number;
+  llm: {
+    provider: string;
+    localBaseUrl: string;
+    localModel: string;
+    localApiKey: string;
+    localEmbeddingModel: string;
+    mockFixtures: string;
+  };
+  rag: {
+    embeddingModel: string;
+    topK: number;
+    chunkSize: number;
+    chunkOverlap: number;
+  };
+  aiChat: {
+    historyTurns: number;
+    historyTokenBudget: number;
+  };
   corsOrigin: string;
   uploadDir: string;
   maxFileSize: number;
@@ -35,6 +53,9 @@ interface Config {
   logLevel: string;
   cookieSecret: string;
   bcryptSaltRounds: number;
+  passwordResetTokenExpires: number;
+  emailVerificationTokenExpires: number;
+  clientUrl: string;
   rateLimit: {
     windowMs: number;
     max: number;
@@ -49,10 +70,68 @@ interface Config {
     returnUrl: string;
     apiUrl: string;
   };
+  momo: {
+    partnerCode: string;
+    accessKey: string;
+    secretKey: string;
+    endpoint: string;
+    returnUrl: string;
+    ipnUrl: string;
+  };
+  zalopay: {
+    appId: string;
+    key1: string;
+    key2: string;
+    endpoint: string;
+    returnUrl: string;
+    callbackUrl: string;
+  };
+  stripe: {
+    secretKey: string;
+    webhookSecret: string;
+    apiUrl: string;
+    returnUrl: string;
+  };
   payment: {
     enabled: boolean;
     currency: string;
     locale: string;
+    refundDowngradeDays: number;
+    expiryMinutes: number;
+    defaultGateway: string;
+    gateways: string[];
+    sandboxSecret: string;
+    reconciliation: {
+      enabled: boolean;
+      intervalMinutes: number;
+      graceMinutes: number;
+      batchSize: number;
+    };
+  };
+  invoice: {
+    enabled: boolean;
+    prefix: string;
+    vatRate: number;
+    fontPath: string;
+    seller: {
+      name: string;
+      taxCode: string;
+      address: string;
+      email: string;
+      phone: string;
+    };
+  };
+  earnings: {
+    commissionRate: number;
+  };
+  codeGrading: {
+    enabled: boolean;
+    concurrency: number;
+    timeLimitMs: number;
+    memoryLimitMb: number;
+    maxOutputBytes: number;
+    uid: number;
+    gid: number;
   };
   swagger: {
     title: string;
@@ -63,6 +142,8 @@ interface Config {
   email: {
     from: string;
     serviceApiKey: string;
+    transport: string;
+    outputDir: string;
   };
   storage: {
     type: string;
@@ -74,6 +155,10 @@ interface Config {
     ttl: number;
     maxItems: number;
   };
+  twoFactor: {
+    issuer: string;
+    challengeTokenExpires: number;
+  };
   features: {
     aiEnabled: boolean;
     paymentsEnabled: boolean;
@@ -117,6 +202,31 @@ const config: Config = {
   openaiModel: process.env.OPENAI_MODEL || 'gpt-4-turbo',
   openaiMaxTokens: parseInt(process.env.OPENAI_MAX_TOKENS || '1024', 10),
   
+  // LLM provider for the AI features: openai, local (OpenAI-compatible endpoint such as Ollama) or mock (offline fixtures)
+  llm: {
+    provider: process.env.LLM_PROVIDER || 'openai',
+    localBaseUrl: process.env.LLM_LOCAL_BASE_URL || 'http://localhost:11434/v1',
+    localModel: process.env.LLM_LOCAL_MODEL || 'llama3.1',
+    localApiKey: process.env.LLM_LOCAL_API_KEY || '',
+    // Embedding model served by the local endpoint (e.g. nomic-embed-text); empty uses keyword retrieval
+    localEmbeddingModel: process.env.LLM_LOCAL_EMBEDDING_MODEL || '',
+    mockFixtures: process.env.LLM_MOCK_FIXTURES || ''
+  },
+  
+  // Retrieval over lecture transcripts and resources (AI chat)
+  rag: {
+    embeddingModel: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
+    topK: parseInt(process.env.RAG_TOP_K || '5', 10),
+    chunkSize: parseInt(process.env.RAG_CHUNK_SIZE || '1000', 10),
+    chunkOverlap: parseInt(process.env.RAG_CHUNK_OVERLAP || '200', 10)
+  },
+  
+  // Multi-turn chat sessions: how many previous turns are replayed, and the token budget before older turns are summarized
+  aiChat: {
+    historyTurns: parseInt(process.env.AI_CHAT_HISTORY_TURNS || '10', 10),
+    historyTokenBudget: parseInt(process.env.AI_CHAT_HISTORY_TOKEN_BUDGET || '2000', 10)
+  },
+  
   // CORS
   corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:3000',
   
@@ -135,6 +245,11 @@ const config: Config = {
   // Security
   cookieSecret: process.env.COOKIE_SECRET || 'your_cookie_secret_change_this_in_production',
   bcryptSaltRounds: parseInt(process.env.BCRYPT_SALT_ROUNDS || '12', 10),
+  passwordResetTokenExpires: parseInt(process.env.PASSWORD_RESET_TOKEN_EXPIRES || '3600000', 10), // 1 hour
+  emailVerificationTokenExpires: parseInt(process.env.EMAIL_VERIFICATION_TOKEN_EXPIRES || '86400000', 10), // 24 hours
+
+  // Frontend URL used to build links in outgoing emails
+  clientUrl: process.env.CLIENT_URL || 'http://localhost:3000',
   
   // Rate Limiting
   rateLimit: {
@@ -154,11 +269,92 @@ const config: Config = {
     apiUrl: process.env.VNPAY_API_URL || 'https://sandbox.vnpayment.vn/merchant_webapi/api/transaction'
   },
 
+  // MoMo e-wallet (captureWallet)
+  momo: {
+    partnerCode: process.env.MOMO_PARTNER_CODE || '',
+    accessKey: process.env.MOMO_ACCESS_KEY || '',
+    secretKey: process.env.MOMO_SECRET_KEY || '',
+    endpoint: process.env.MOMO_ENDPOINT || 'https://test-payment.momo.vn',
+    returnUrl: process.env.MOMO_RETURN_URL || 'http://localhost:3000/payment/return/momo',
+    ipnUrl: process.env.MOMO_IPN_URL || 'http://localhost:4000/api/payments/webhook/momo'
+  },
+
+  // ZaloPay (v2 API)
+  zalopay: {
+    appId: process.env.ZALOPAY_APP_ID || '',
+    key1: process.env.ZALOPAY_KEY1 || '',
+    key2: process.env.ZALOPAY_KEY2 || '',
+    endpoint: process.env.ZALOPAY_ENDPOINT || 'https://sb-openapi.zalopay.vn/v2',
+    returnUrl: process.env.ZALOPAY_RETURN_URL || 'http://localhost:3000/payment/return/zalopay',
+    callbackUrl: process.env.ZALOPAY_CALLBACK_URL || 'http://localhost:4000/api/payments/webhook/zalopay'
+  },
+
+  // Stripe Checkout (international cards)
+  stripe: {
+    secretKey: process.env.STRIPE_SECRET_KEY || '',
+    webhookSecret: process.env.STRIPE_WEBHOOK_SECRET || '',
+    apiUrl: process.env.STRIPE_API_URL || 'https://api.stripe.com/v1',
+    returnUrl: process.env.STRIPE_RETURN_URL || 'http://localhost:3000/payment/return/stripe'
+  },
+
   // Payment Configuration
   payment: {
     enabled: process.env.PAYMENT_ENABLED === 'true',
     currency: process.env.PAYMENT_CURRENCY || 'VND',
-    locale: process.env.PAYMENT_LOCALE || 'vn'
+    locale: process.env.PAYMENT_LOCALE || 'vn',
+    // Access left on an enrollment downgraded by a partial refund
+    refundDowngradeDays: parseInt(process.env.REFUND_DOWNGRADE_DAYS || '7', 10),
+    // How long a VNPay payment URL stays valid (vnp_ExpireDate)
+    expiryMinutes: parseInt(process.env.PAYMENT_EXPIRY_MINUTES || '15', 10),
+    // Gateways offered at checkout: vnpay, momo, zalopay, stripe, sandbox (offline, never in production)
+    defaultGateway: process.env.PAYMENT_GATEWAY || 'vnpay',
+    gateways: (process.env.PAYMENT_GATEWAYS || process.env.PAYMENT_GATEWAY || 'vnpay')
+      .split(',')
+      .map((gateway) => gateway.trim())
+      .filter(Boolean),
+    // No default: without a secret of its own the sandbox gateway is not registered
+    sandboxSecret: process.env.PAYMENT_SANDBOX_SECRET || '',
+    // Worker that settles payments still pending after they expired, by querying their gateway
+    reconciliation: {
+      enabled: process.env.PAYMENT_RECONCILIATION_ENABLED !== 'false',
+      intervalMinutes: parseInt(process.env.PAYMENT_RECONCILIATION_INTERVAL_MINUTES || '10', 10),
+      graceMinutes: parseInt(process.env.PAYMENT_RECONCILIATION_GRACE_MINUTES || '5', 10),
+      batchSize: parseInt(process.env.PAYMENT_RECONCILIATION_BATCH_SIZE || '100', 10)
+    }
+  },
+
+  // Invoices issued for completed payments (course prices include VAT)
+  invoice: {
+    enabled: process.env.INVOICE_ENABLED !== 'false',
+    prefix: process.env.INVOICE_PREFIX || 'INV',
+    vatRate: parseFloat(process.env.INVOICE_VAT_RATE || '10'),
+    // TrueType font with Vietnamese glyphs; without it the PDF falls back to Helvetica without diacritics
+    fontPath: process.env.INVOICE_FONT_PATH || '',
+    seller: {
+      name: process.env.INVOICE_SELLER_NAME || 'E-Learning Platform',
+      taxCode: process.env.INVOICE_SELLER_TAX_CODE || '',
+      address: process.env.INVOICE_SELLER_ADDRESS || '',
+      email: process.env.INVOICE_SELLER_EMAIL || 'billing@elearning.com',
+      phone: process.env.INVOICE_SELLER_PHONE || ''
+    }
+  },
+
+  // Teacher revenue share: the platform keeps this percentage of every course sale
+  earnings: {
+    commissionRate: parseFloat(process.env.PLATFORM_COMMISSION_RATE || '30')
+  },
+
+  // Auto-grading of coding assignments: each test runs in its own Node.js child process with these limits
+  codeGrading: {
+    // Off unless turned on: the server must support the sandbox (Linux, Node.js 20+, user namespaces)
+    enabled: process.env.CODE_GRADING_ENABLED === 'true',
+    concurrency: parseInt(process.env.CODE_GRADING_CONCURRENCY || '2', 10),
+    timeLimitMs: parseInt(process.env.CODE_GRADING_TIME_LIMIT_MS || '5000', 10),
+    memoryLimitMb: parseInt(process.env.CODE_GRADING_MEMORY_LIMIT_MB || '128', 10),
+    maxOutputBytes: parseInt(process.env.CODE_GRADING_MAX_OUTPUT_BYTES || '65536', 10),
+    // User that runs submissions when the server itself runs as root (default: nobody)
+    uid: parseInt(process.env.CODE_GRADING_UID || '65534', 10),
+    gid: parseInt(process.env.CODE_GRADING_GID || '65534', 10)
   },
 
   // Swagger Configuration
@@ -172,7 +368,9 @@ const config: Config = {
   // Email Configuration
   email: {
     from: process.env.EMAIL_FROM || 'noreply@elearning.com',
-    serviceApiKey: process.env.EMAIL_SERVICE_API_KEY || ''
+    serviceApiKey: process.env.EMAIL_SERVICE_API_KEY || '',
+    transport: process.env.EMAIL_TRANSPORT || 'console', // console | file
+    outputDir: process.env.EMAIL_OUTPUT_DIR || 'logs/mail'
   },
 
   // Storage Configuration
@@ -189,6 +387,12 @@ const config: Config = {
     maxItems: parseInt(process.env.CACHE_MAX_ITEMS || '1000', 10)
   },
 
+  // Two-factor authentication (TOTP)
+  twoFactor: {
+    issuer: process.env.TWO_FACTOR_ISSUER || 'E-Learning Platform',
+    challengeTokenExpires: parseInt(process.env.TWO_FACTOR_CHALLENGE_EXPIRES || '300000', 10) // 5 minutes
+  },
+
   // Feature Flags
   features: {
     aiEnabled: process.env.ENABLE_AI_FEATURES !== 'false',
@@ -213,7 +417,7 @@ const validateConfig = (): void => {
   }
 
   // Warn about missing optional but important configs
-  if (!config.openaiApiKey && config.environment !== 'test') {
+  if (config.llm.provider === 'openai' && !config.openaiApiKey && config.environment !== 'test') {
     console.warn('⚠️  Warning: OPENAI_API_KEY is not set. AI features will not work.');
   }
 
@@ -262,7 +466,9 @@ if (config.environment === 'development') {
     database: config.databaseUrl ? 'URL provided' : 'Individual settings',
     redis: config.redisUrl ? 'Configured' : 'Not configured',
     openai: config.openaiApiKey ? 'Configured' : 'Not configured',
+    llmProvider: config.llm.provider,
     vnpay: (config.vnpay.tmnCode && config.vnpay.hashSecret) ? 'Configured' : 'Not configured',
+    paymentGateways: config.payment.gateways,
     features: config.features
   });
 }
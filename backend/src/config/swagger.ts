@@ -213,6 +213,14 @@ const swaggerDefinition = {
       name: 'Payments',
       description: 'Payment processing operations'
     },
+    {
+      name: 'Cart',
+      description: 'Shopping cart and multi-course checkout'
+    },
+    {
+      name: 'Orders',
+      description: 'Cart order history'
+    },
     {
       name: 'Messages',
       description: 'Internal messaging system'
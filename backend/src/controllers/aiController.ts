@@ -3,10 +3,23 @@ import { Request, Response, NextFunction } from 'express';
 import db from '../db';
 import { 
   generateChatResponse, 
+  streamChatResponse,
+  ChatResponse,
   extractKeyConcepts, 
   generateQuizQuestions, 
   generateAssignmentFeedback 
 } from '../services/openaiService';
+import { indexCourse } from '../services/ragService';
+import { isEnrolled } from '../services/enrollmentService';
+import {
+  toChatSession,
+  titleFromQuery,
+  findSession,
+  listSessions,
+  createSession,
+  buildConversationContext
+} from '../services/chatSessionService';
+import { AIChatSessionRow, ChatCitation } from '../types';
 import AppError from '../utils/appError';
 import logger from '../utils/logger';
 
@@ -15,6 +28,7 @@ interface AIChatRequest extends Request {
   body: {
     query: string;
     courseId?: string;
+    sessionId?: string;
   };
 }
 
@@ -43,15 +57,101 @@ interface FeedbackRequest extends Request {
 interface ChatHistoryQuery {
   limit?: string;
   offset?: string;
+  sessionId?: string;
 }
 
+interface ChatSessionQuery {
+  limit?: string;
+  offset?: string;
+  courseId?: string;
+}
+
+/**
+ * Parse the citations stored as JSON with a chat turn
+ */
+const parseCitations = (citations: unknown): ChatCitation[] => {
+  try {
+    return typeof citations === 'string' ? JSON.parse(citations) : (citations as ChatCitation[]) || [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Resolve the session and course of a chat turn: continue the given session (its course is the
+ * default context) or start a new one titled after the question
+ */
+const prepareChatTurn = async (
+  userId: string,
+  { query, courseId, sessionId }: AIChatRequest['body']
+): Promise<{ session: AIChatSessionRow; courseId?: string }> => {
+  let session: AIChatSessionRow | null = null;
+  if (sessionId) {
+    session = await findSession(sessionId, userId);
+
+    if (!session) {
+      throw new AppError('Chat session not found', 404);
+    }
+
+    courseId = courseId || session.course_id || undefined;
+  }
+
+  if (courseId) {
+    // Check if user is enrolled in the course
+    if (!(await isEnrolled(userId, courseId))) {
+      throw new AppError('You are not enrolled in this course', 403);
+    }
+  }
+
+  if (!session) {
+    session = await createSession(userId, { courseId, title: titleFromQuery(query) });
+  }
+
+  return { session, courseId };
+};
+
+/**
+ * Store a chat turn with its token usage and latency, and mark the session as recently active
+ */
+const recordChatTurn = async (
+  userId: string,
+  session: AIChatSessionRow,
+  courseId: string | undefined,
+  query: string,
+  result: ChatResponse & { responseTimeMs: number }
+): Promise<void> => {
+  await db.query(
+    `INSERT INTO ai_chat_history (user_id, course_id, session_id, query, response, citations, tokens_used, response_time_ms)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+    [
+      userId,
+      courseId || null,
+      session.id,
+      query,
+      result.response,
+      JSON.stringify(result.citations),
+      result.tokensUsed,
+      result.responseTimeMs
+    ]
+  );
+
+  await db.query('UPDATE ai_chat_sessions SET updated_at = NOW() WHERE id = $1', [session.id]);
+};
+
+/**
+ * Write one Server-Sent Event
+ */
+const sendEvent = (res: Response, event: string, data: unknown): void => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
 /**
  * AI chat interaction
  * @route POST /api/ai/chat
  */
 export const chatWithAI = async (req: AIChatRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { query, courseId } = req.body;
+    const { query } = req.body;
     const userId = req.user?.id;
 
     if (!userId) {
@@ -62,53 +162,117 @@ export const chatWithAI = async (req: AIChatRequest, res: Response, next: NextFu
       return next(new AppError('Query is required', 400));
     }
 
-    // Get relevant course materials for context if courseId is provided
-    let context: string[] = [];
-    if (courseId) {
-      // Check if user is enrolled in the course
-      const enrollmentResult = await db.query(
-        'SELECT * FROM enrollments WHERE user_id = $1 AND course_id = $2',
-        [userId, courseId]
-      );
-
-      if (enrollmentResult.rows.length === 0) {
-        return next(new AppError('You are not enrolled in this course', 403));
-      }
+    const { session, courseId } = await prepareChatTurn(userId, req.body);
+    const startedAt = Date.now();
 
-      // Get lecture content from the course
-      const lectureResult = await db.query(
-        `SELECT title, description, content_type, content_url 
-         FROM lectures 
-         WHERE course_id = $1 AND is_published = true
-         ORDER BY order_index`,
-        [courseId]
-      );
+    // Replay the previous turns of the session (older ones summarized when over the token budget)
+    const { conversation, tokensUsed: summaryTokens } = await buildConversationContext(session);
 
-      // Add relevant lecture content to context
-      context = (lectureResult.rows as { title: string; description: string }[]).map((lecture) => 
-        `Lecture: ${lecture.title}\nDescription: ${lecture.description}`
-      );
-    }
+    // Generate response from OpenAI, using the course's transcripts and resources as context
+    const result = await generateChatResponse(query, courseId, conversation);
 
-    // Generate response from OpenAI
-    const aiResponse = await generateChatResponse(query, context);
+    const tokensUsed = result.tokensUsed + summaryTokens;
+    const responseTimeMs = Date.now() - startedAt;
 
     // Store the chat interaction in database
-    await db.query(
-      'INSERT INTO ai_chat_history (user_id, query, response) VALUES ($1, $2, $3)',
-      [userId, query, aiResponse]
-    );
+    await recordChatTurn(userId, session, courseId, query, { ...result, tokensUsed, responseTimeMs });
 
     res.status(200).json({
       status: 'success',
       data: {
-        response: aiResponse
+        sessionId: session.id,
+        response: result.response,
+        citations: result.citations,
+        tokensUsed,
+        responseTimeMs
       }
     });
   } catch (error) {
     const err = error as Error;
     logger.error('AI chat error:', err);
-    next(new AppError('Failed to process AI chat request', 500));
+    next(err instanceof AppError ? err : new AppError('Failed to process AI chat request', 500));
+  }
+};
+
+/**
+ * AI chat interaction streamed as Server-Sent Events
+ * (`start` with the session, `token` per piece of text, then `done` or `error`)
+ * @route POST /api/ai/chat/stream
+ */
+export const streamChatWithAI = async (req: AIChatRequest, res: Response, next: NextFunction): Promise<void> => {
+  const abortController = new AbortController();
+
+  try {
+    const { query } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    if (!query) {
+      return next(new AppError('Query is required', 400));
+    }
+
+    const { session, courseId } = await prepareChatTurn(userId, req.body);
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+    res.flushHeaders();
+
+    // Stop generating (and paying for tokens) as soon as the client goes away
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+
+    sendEvent(res, 'start', { sessionId: session.id });
+    const startedAt = Date.now();
+
+    const { conversation, tokensUsed: summaryTokens } = await buildConversationContext(session);
+
+    const result = await streamChatResponse(
+      query,
+      courseId,
+      conversation,
+      (token) => sendEvent(res, 'token', { content: token }),
+      abortController.signal
+    );
+
+    const tokensUsed = result.tokensUsed + summaryTokens;
+    const responseTimeMs = Date.now() - startedAt;
+
+    // Only completed answers are stored
+    await recordChatTurn(userId, session, courseId, query, { ...result, tokensUsed, responseTimeMs });
+
+    sendEvent(res, 'done', {
+      sessionId: session.id,
+      response: result.response,
+      citations: result.citations,
+      tokensUsed,
+      responseTimeMs
+    });
+    res.end();
+  } catch (error) {
+    if (abortController.signal.aborted) {
+      logger.info('AI chat stream cancelled by client');
+      return;
+    }
+
+    const err = error as Error;
+    logger.error('AI chat stream error:', err);
+
+    if (!res.headersSent) {
+      return next(err instanceof AppError ? err : new AppError('Failed to process AI chat request', 500));
+    }
+
+    sendEvent(res, 'error', { message: 'Failed to process AI chat request' });
+    res.end();
   }
 };
 
@@ -207,12 +371,7 @@ export const extractConcepts = async (req: ConceptRequest, res: Response, next:
 
     // Check if user is enrolled in the course, is the teacher, or an admin
     if (req.user?.role === 'student') {
-      const enrollmentResult = await db.query(
-        'SELECT * FROM enrollments WHERE user_id = $1 AND course_id = $2',
-        [userId, lecture.course_id]
-      );
-
-      if (enrollmentResult.rows.length === 0) {
+      if (!(await isEnrolled(userId, lecture.course_id))) {
         return next(new AppError('You are not enrolled in this course', 403));
       }
     } else if (req.user?.role === 'teacher' && lecture.teacher_id !== userId) {
@@ -318,19 +477,30 @@ export const getChatHistory = async (req: Request & { user?: any }, res: Respons
       return next(new AppError('Authentication required', 401));
     }
 
-    const { limit = '20', offset = '0' } = req.query as ChatHistoryQuery;
+    const { limit = '20', offset = '0', sessionId } = req.query as ChatHistoryQuery;
+
+    const params: any[] = [userId];
+    let sessionFilter = '';
+    if (sessionId) {
+      params.push(sessionId);
+      sessionFilter = ` AND session_id = $${params.length}`;
+    }
 
     // Get chat history
     const result = await db.query(
-      'SELECT * FROM ai_chat_history WHERE user_id = $1 ORDER BY created_at DESC LIMIT $2 OFFSET $3',
-      [userId, parseInt(limit), parseInt(offset)]
+      `SELECT * FROM ai_chat_history WHERE user_id = $1${sessionFilter}
+       ORDER BY created_at DESC LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, parseInt(limit), parseInt(offset)]
     );
 
+    // Citations are stored as JSON
+    const chatHistory = result.rows.map((row) => ({ ...row, citations: parseCitations(row.citations) }));
+
     res.status(200).json({
       status: 'success',
       results: result.rows.length,
       data: {
-        chatHistory: result.rows
+        chatHistory
       }
     });
   } catch (error) {
@@ -338,10 +508,237 @@ export const getChatHistory = async (req: Request & { user?: any }, res: Respons
   }
 };
 
+/**
+ * Create an AI chat session
+ * @route POST /api/ai/sessions
+ */
+export const createChatSession = async (req: Request & { user?: any }, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { title, courseId } = req.body;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    if (courseId) {
+      if (!(await isEnrolled(userId, courseId))) {
+        return next(new AppError('You are not enrolled in this course', 403));
+      }
+    }
+
+    const session = await createSession(userId, { courseId, title });
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        session: toChatSession(session)
+      }
+    });
+  } catch (error) {
+    logger.error('Create chat session error:', error);
+    next(error);
+  }
+};
+
+/**
+ * List the user's AI chat sessions
+ * @route GET /api/ai/sessions
+ */
+export const getChatSessions = async (req: Request & { user?: any }, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const { limit = '20', offset = '0', courseId } = req.query as ChatSessionQuery;
+
+    const { sessions, total } = await listSessions(userId, {
+      courseId,
+      limit: parseInt(limit),
+      offset: parseInt(offset)
+    });
+
+    res.status(200).json({
+      status: 'success',
+      results: sessions.length,
+      data: {
+        sessions: sessions.map(toChatSession),
+        total
+      }
+    });
+  } catch (error) {
+    logger.error('Get chat sessions error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Get an AI chat session with its turns
+ * @route GET /api/ai/sessions/:id
+ */
+export const getChatSession = async (req: Request & { user?: any }, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const session = await findSession(req.params.id, userId);
+
+    if (!session) {
+      return next(new AppError('Chat session not found', 404));
+    }
+
+    const turnResult = await db.query(
+      `SELECT id, query, response, citations, tokens_used, response_time_ms, created_at
+       FROM ai_chat_history
+       WHERE session_id = $1
+       ORDER BY created_at, id`,
+      [session.id]
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        session: toChatSession(session),
+        turns: turnResult.rows.map((row) => ({
+          id: row.id,
+          query: row.query,
+          response: row.response,
+          citations: parseCitations(row.citations),
+          tokensUsed: row.tokens_used,
+          responseTimeMs: row.response_time_ms,
+          createdAt: row.created_at
+        }))
+      }
+    });
+  } catch (error) {
+    logger.error('Get chat session error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Rename an AI chat session
+ * @route PATCH /api/ai/sessions/:id
+ */
+export const updateChatSession = async (req: Request & { user?: any }, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { title } = req.body;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const existing = await findSession(req.params.id, userId);
+
+    if (!existing) {
+      return next(new AppError('Chat session not found', 404));
+    }
+
+    await db.query('UPDATE ai_chat_sessions SET title = $1 WHERE id = $2', [title, existing.id]);
+
+    const session = await findSession(existing.id, userId);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        session: toChatSession(session!)
+      }
+    });
+  } catch (error) {
+    logger.error('Update chat session error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Delete an AI chat session and its turns
+ * @route DELETE /api/ai/sessions/:id
+ */
+export const deleteChatSession = async (req: Request & { user?: any }, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const session = await findSession(req.params.id, userId);
+
+    if (!session) {
+      return next(new AppError('Chat session not found', 404));
+    }
+
+    // Turns are removed by the ON DELETE CASCADE on ai_chat_history.session_id
+    await db.query('DELETE FROM ai_chat_sessions WHERE id = $1', [session.id]);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Chat session deleted successfully'
+    });
+  } catch (error) {
+    logger.error('Delete chat session error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Rebuild the retrieval index (transcript and resource chunks) of a course
+ * @route POST /api/ai/courses/:courseId/index
+ */
+export const indexCourseMaterials = async (req: Request & { user?: any }, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { courseId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const courseResult = await db.query('SELECT id, teacher_id FROM courses WHERE id = $1', [courseId]);
+
+    if (courseResult.rows.length === 0) {
+      return next(new AppError('Course not found', 404));
+    }
+
+    // Check if user is the teacher of the course or an admin
+    if (req.user?.role === 'teacher' && courseResult.rows[0].teacher_id !== userId) {
+      return next(new AppError('You do not have permission to index this course', 403));
+    }
+
+    const { lectures, chunks } = await indexCourse(courseId);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        lectures,
+        chunks
+      }
+    });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('Index course materials error:', err);
+    next(new AppError('Failed to index course materials', 500));
+  }
+};
+
 export default {
   chatWithAI,
+  streamChatWithAI,
   generateQuiz,
   extractConcepts,
   generateFeedback,
-  getChatHistory
+  getChatHistory,
+  createChatSession,
+  getChatSessions,
+  getChatSession,
+  updateChatSession,
+  deleteChatSession,
+  indexCourseMaterials
 };
\ No newline at end of file
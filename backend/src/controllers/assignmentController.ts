@@ -1,8 +1,16 @@
 // src/controllers/assignmentController.ts - PERFECT VERSION
 import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import { PoolConnection, RowDataPacket } from 'mysql2/promise';
 import db from '../db';
 import AppError from '../utils/appError';
 import logger from '../utils/logger';
+import notificationService from '../services/notificationService';
+import { normalizeRubric, rubricMaxPoints, parseJsonColumn, scoreRubric } from '../services/rubricService';
+import codeGradingService from '../services/codeGradingService';
+import { activeEnrollmentCondition, isEnrolled } from '../services/enrollmentService';
+import { CodeLanguage, GradingPolicy } from '../types';
+import { GradingRubric, RubricCriterionScore } from '../types/models';
 
 // Simple, compatible interface
 interface AuthRequest extends Request {
@@ -28,6 +36,10 @@ interface AssignmentRow {
   description: string;
   due_date?: string;
   max_points: number;
+  allow_late_submission: number;
+  late_penalty_percent: number;
+  max_attempts: number | null;
+  grading_policy: GradingPolicy;
   teacher_id: string;
   course_title?: string;
   created_at: string;
@@ -43,8 +55,11 @@ interface SubmissionRow {
   submission_text?: string;
   submitted_at: string;
   grade?: number;
+  raw_grade?: number;
   feedback?: string;
   graded_at?: string;
+  is_late: number;
+  attempt_number: number;
   max_points: number;
   teacher_id: string;
   first_name?: string;
@@ -53,6 +68,69 @@ interface SubmissionRow {
   [key: string]: any;
 }
 
+/**
+ * A student's grade for an assignment under its grading policy. Ungraded attempts do not count,
+ * so "last" is the most recent graded attempt.
+ */
+const applyGradingPolicy = (
+  attempts: Pick<SubmissionRow, 'attempt_number' | 'grade'>[],
+  policy: GradingPolicy
+): number | null => {
+  const graded = attempts
+    .filter((attempt) => attempt.grade !== null && attempt.grade !== undefined)
+    .sort((a, b) => a.attempt_number - b.attempt_number);
+
+  if (graded.length === 0) {
+    return null;
+  }
+
+  const grades = graded.map((attempt) => Number(attempt.grade));
+  switch (policy) {
+    case 'best':
+      return Math.max(...grades);
+    case 'average':
+      return Math.round((grades.reduce((sum, grade) => sum + grade, 0) / grades.length) * 100) / 100;
+    default:
+      return grades[grades.length - 1];
+  }
+};
+
+/**
+ * Let every student enrolled in the course know about a newly published assignment.
+ * Never throws: the assignment is already saved, so a failure here is only logged.
+ */
+const notifyAssignmentPublished = async (assignment: AssignmentRow, courseTitle?: string): Promise<void> => {
+  try {
+    if (courseTitle === undefined) {
+      const courseResult = await db.query<CourseRow>('SELECT title FROM courses WHERE id = $1', [assignment.course_id]);
+      courseTitle = courseResult.rows[0]?.title ?? 'your course';
+    }
+
+    const enrollmentResult = await db.query(
+      'SELECT user_id FROM enrollments WHERE course_id = $1',
+      [assignment.course_id]
+    );
+
+    await notificationService.notifyMany(
+      enrollmentResult.rows.map((row: any) => row.user_id),
+      {
+        type: 'assignment',
+        title: 'New assignment',
+        message: `"${assignment.title}" has been published in ${courseTitle}.`,
+        referenceType: 'assignment',
+        referenceId: assignment.id,
+        link: '/dashboard/student/assignments'
+      }
+    );
+  } catch (error) {
+    logger.error('Failed to notify students about a published assignment', {
+      assignmentId: assignment.id,
+      courseId: assignment.course_id,
+      error: (error as Error).message
+    });
+  }
+};
+
 /**
  * Create a new assignment
  * @route POST /api/courses/:courseId/assignments
@@ -60,7 +138,18 @@ interface SubmissionRow {
 export const createAssignment = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { courseId } = req.params;
-    const { title, description, dueDate, maxPoints } = req.body;
+    const {
+      title,
+      description,
+      dueDate,
+      maxPoints,
+      isPublished = false,
+      allowLateSubmission = false,
+      latePenaltyPercent = 0,
+      maxAttempts = 1,
+      gradingPolicy = 'last',
+      gradingRubric
+    } = req.body;
     const userId = req.user?.id;
 
     if (!userId) {
@@ -83,14 +172,41 @@ export const createAssignment = async (req: AuthRequest, res: Response, next: Ne
       return next(new AppError('You do not have permission to create assignments', 403));
     }
 
-    const result = await db.query<AssignmentRow>(
-      `INSERT INTO assignments (course_id, title, description, due_date, max_points) 
-       VALUES ($1, $2, $3, $4, $5) 
-       RETURNING *`,
-      [courseId, title, description, dueDate || null, maxPoints]
+    // With a rubric the maximum points are whatever its best levels add up to
+    const rubric = gradingRubric ? normalizeRubric(gradingRubric) : null;
+    const points = rubric ? rubricMaxPoints(rubric) : maxPoints;
+    if (rubric && (points <= 0 || points > 1000)) {
+      return next(new AppError('The rubric must be worth between 1 and 1000 points', 400));
+    }
+
+    const assignmentId = uuidv4();
+    await db.query(
+      `INSERT INTO assignments (id, course_id, title, description, due_date, max_points, is_published,
+         allow_late_submission, late_penalty_percent, max_attempts, grading_policy, grading_rubric) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)`,
+      [
+        assignmentId,
+        courseId,
+        title,
+        description,
+        dueDate || null,
+        points,
+        isPublished,
+        allowLateSubmission,
+        latePenaltyPercent,
+        maxAttempts || null,
+        gradingPolicy,
+        rubric ? JSON.stringify(rubric) : null
+      ]
     );
 
+    const result = await db.query<AssignmentRow>('SELECT * FROM assignments WHERE id = $1', [assignmentId]);
     const assignment = result.rows[0];
+    assignment.grading_rubric = parseJsonColumn<GradingRubric>(assignment.grading_rubric);
+
+    if (isPublished) {
+      await notifyAssignmentPublished(assignment, course.title);
+    }
 
     res.status(201).json({
       status: 'success',
@@ -129,12 +245,7 @@ export const getAssignmentsByCourse = async (req: AuthRequest, res: Response, ne
     // Check permission
     if (req.user?.role === 'student') {
       // Check if enrolled
-      const enrollmentResult = await db.query(
-        'SELECT * FROM enrollments WHERE user_id = $1 AND course_id = $2',
-        [userId, courseId]
-      );
-
-      if (enrollmentResult.rows.length === 0) {
+      if (!(await isEnrolled(userId, courseId))) {
         return next(new AppError('You are not enrolled in this course', 403));
       }
     } else if (req.user?.role === 'teacher' && course.teacher_id !== userId) {
@@ -143,18 +254,18 @@ export const getAssignmentsByCourse = async (req: AuthRequest, res: Response, ne
       return next(new AppError('You do not have permission to access assignments', 403));
     }
 
-    // Get assignments with submission status for students
+    // Get assignments with submission status for students; drafts are not submissions yet
     let query = `
       SELECT a.*,
              COUNT(s.id) as submission_count
       FROM assignments a
-      LEFT JOIN assignment_submissions s ON a.id = s.assignment_id
+      LEFT JOIN assignment_submissions s ON a.id = s.assignment_id AND s.submission_status <> 'draft'
       WHERE a.course_id = $1
       GROUP BY a.id
       ORDER BY a.created_at DESC
     `;
 
-    // For students, also get their submission status
+    // For students, also get their latest attempt
     if (req.user?.role === 'student') {
       query = `
         SELECT a.*,
@@ -162,19 +273,46 @@ export const getAssignmentsByCourse = async (req: AuthRequest, res: Response, ne
                us.id as user_submission_id,
                us.submitted_at,
                us.grade,
-               us.feedback
+               us.feedback,
+               us.is_late,
+               us.attempt_number,
+               us.submission_status,
+               us.returned_at,
+               us.draft_saved_at
         FROM assignments a
-        LEFT JOIN assignment_submissions s ON a.id = s.assignment_id
-        LEFT JOIN assignment_submissions us ON a.id = us.assignment_id AND us.user_id = $2
-        WHERE a.course_id = $1
-        GROUP BY a.id, us.id, us.submitted_at, us.grade, us.feedback
+        LEFT JOIN assignment_submissions s ON a.id = s.assignment_id AND s.submission_status <> 'draft'
+        LEFT JOIN assignment_submissions us ON a.id = us.assignment_id AND us.user_id = $1
+          AND us.attempt_number = (
+            SELECT MAX(attempt_number) FROM assignment_submissions
+            WHERE assignment_id = a.id AND user_id = $2
+          )
+        WHERE a.course_id = $3
+        GROUP BY a.id, us.id, us.submitted_at, us.grade, us.feedback, us.is_late, us.attempt_number,
+                 us.submission_status, us.returned_at, us.draft_saved_at
         ORDER BY a.created_at DESC
       `;
     }
 
-    const params = req.user?.role === 'student' ? [courseId, userId] : [courseId];
+    const params = req.user?.role === 'student' ? [userId, userId, courseId] : [courseId];
     const result = await db.query<AssignmentRow>(query, params);
 
+    // Attach the grade that counts under each assignment's grading policy
+    if (req.user?.role === 'student' && result.rows.length > 0) {
+      const attemptResult = await db.query<SubmissionRow>(
+        `SELECT s.assignment_id, s.attempt_number, s.grade
+         FROM assignment_submissions s
+         JOIN assignments a ON s.assignment_id = a.id
+         WHERE a.course_id = $1 AND s.user_id = $2`,
+        [courseId, userId]
+      );
+
+      result.rows.forEach((assignment) => {
+        const attempts = attemptResult.rows.filter((attempt) => attempt.assignment_id === assignment.id);
+        assignment.attempts_used = attempts.length;
+        assignment.final_grade = applyGradingPolicy(attempts, assignment.grading_policy);
+      });
+    }
+
     res.status(200).json({
       status: 'success',
       results: result.rows.length,
@@ -188,6 +326,122 @@ export const getAssignmentsByCourse = async (req: AuthRequest, res: Response, ne
   }
 };
 
+/**
+ * Assignments across the user's courses: for students the published assignments of their enrolled
+ * courses with their latest attempt, for teachers their own courses with submission counts per status
+ * @route GET /api/assignments
+ */
+export const getMyAssignments = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const status = req.query.status as string | undefined;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    if (req.user?.role === 'student') {
+      // Assignments the student has not started yet are "pending"
+      const result = await db.query<AssignmentRow>(
+        `SELECT a.*,
+                c.title as course_title,
+                us.id as user_submission_id,
+                us.submission_text,
+                us.submission_url,
+                us.submitted_at,
+                us.draft_saved_at,
+                us.returned_at,
+                us.grade,
+                us.feedback,
+                us.is_late,
+                us.attempt_number,
+                us.auto_grade_status,
+                us.auto_score,
+                us.test_results,
+                COALESCE(us.submission_status, 'pending') as status
+         FROM enrollments e
+         JOIN courses c ON e.course_id = c.id
+         JOIN assignments a ON a.course_id = c.id AND a.is_published = true
+         LEFT JOIN assignment_submissions us ON us.assignment_id = a.id AND us.user_id = e.user_id
+           AND us.attempt_number = (
+             SELECT MAX(attempt_number) FROM assignment_submissions
+             WHERE assignment_id = a.id AND user_id = e.user_id
+           )
+         WHERE e.user_id = $1 AND ${activeEnrollmentCondition('e')}
+           ${status ? "AND COALESCE(us.submission_status, 'pending') = $2" : ''}
+         ORDER BY a.due_date IS NULL, a.due_date ASC`,
+        status ? [userId, status] : [userId]
+      );
+
+      const attemptResult = await db.query<SubmissionRow>(
+        `SELECT assignment_id, attempt_number, grade, rubric_scores, submission_status
+         FROM assignment_submissions WHERE user_id = $1 ORDER BY attempt_number DESC`,
+        [userId]
+      );
+
+      result.rows.forEach((assignment) => {
+        const attempts = attemptResult.rows.filter((attempt) => attempt.assignment_id === assignment.id);
+        assignment.attempts_used = attempts.length;
+        assignment.final_grade = applyGradingPolicy(attempts, assignment.grading_policy);
+        assignment.grading_rubric = parseJsonColumn<GradingRubric>(assignment.grading_rubric);
+        // The filled rubric of the most recently graded attempt
+        const lastGraded = attempts.find((attempt) => attempt.submission_status === 'graded');
+        assignment.rubric_scores = parseJsonColumn<RubricCriterionScore[]>(lastGraded?.rubric_scores);
+        assignment.test_results = codeGradingService.toStudentReport(codeGradingService.parseReport(assignment.test_results));
+      });
+
+      res.status(200).json({
+        status: 'success',
+        results: result.rows.length,
+        data: {
+          assignments: result.rows
+        }
+      });
+      return;
+    }
+
+    if (req.user?.role !== 'teacher' && req.user?.role !== 'admin') {
+      return next(new AppError('You do not have permission to access assignments', 403));
+    }
+
+    // Teachers see assignments with at least one submission in the requested status
+    const countColumns: Record<string, string> = {
+      submitted: 'submitted_count',
+      graded: 'graded_count',
+      returned: 'returned_count'
+    };
+    const having = status && countColumns[status] ? `HAVING ${countColumns[status]} > 0` : '';
+
+    const result = await db.query<AssignmentRow>(
+      `SELECT a.*,
+              c.title as course_title,
+              (SELECT COUNT(*) FROM enrollments e WHERE e.course_id = a.course_id) as student_count,
+              COUNT(CASE WHEN s.submission_status = 'submitted' THEN 1 END) as submitted_count,
+              COUNT(CASE WHEN s.submission_status = 'graded' THEN 1 END) as graded_count,
+              COUNT(CASE WHEN s.submission_status = 'returned' THEN 1 END) as returned_count
+       FROM assignments a
+       JOIN courses c ON a.course_id = c.id
+       LEFT JOIN assignment_submissions s ON s.assignment_id = a.id
+       ${req.user?.role === 'teacher' ? 'WHERE c.teacher_id = $1' : ''}
+       GROUP BY a.id
+       ${having}
+       ORDER BY a.created_at DESC`,
+      req.user?.role === 'teacher' ? [userId] : []
+    );
+
+    res.status(200).json({
+      status: 'success',
+      results: result.rows.length,
+      data: {
+        assignments: result.rows
+      }
+    });
+  } catch (error) {
+    logger.error('Get my assignments error:', error);
+    next(error);
+  }
+};
+
 /**
  * Get assignment by ID
  * @route GET /api/assignments/:id
@@ -214,44 +468,70 @@ export const getAssignmentById = async (req: AuthRequest, res: Response, next: N
     }
 
     const assignment = result.rows[0];
+    assignment.grading_rubric = parseJsonColumn<GradingRubric>(assignment.grading_rubric);
 
     // Check permission
     if (req.user?.role === 'student') {
       // Check if enrolled
-      const enrollmentResult = await db.query(
-        'SELECT * FROM enrollments WHERE user_id = $1 AND course_id = $2',
-        [userId, assignment.course_id]
-      );
-
-      if (enrollmentResult.rows.length === 0) {
+      if (!(await isEnrolled(userId, assignment.course_id))) {
         return next(new AppError('You are not enrolled in this course', 403));
       }
 
-      // Get user's submission
+      // Get every attempt of the user, latest first
       const submissionResult = await db.query<SubmissionRow>(
-        'SELECT * FROM assignment_submissions WHERE assignment_id = $1 AND user_id = $2',
+        'SELECT * FROM assignment_submissions WHERE assignment_id = $1 AND user_id = $2 ORDER BY attempt_number DESC',
         [id, userId]
       );
+      submissionResult.rows.forEach((submission) => {
+        submission.rubric_scores = parseJsonColumn<RubricCriterionScore[]>(submission.rubric_scores);
+        submission.test_results = codeGradingService.toStudentReport(codeGradingService.parseReport(submission.test_results));
+      });
+
+      // Test cases the teacher did not hide serve as examples
+      if (assignment.assignment_type === 'coding') {
+        const testCases = await codeGradingService.getTestCases(id);
+        (assignment as any).sample_tests = testCases.filter((testCase) => !testCase.isHidden);
+      }
 
       (assignment as any).user_submission = submissionResult.rows[0] || null;
+      (assignment as any).user_submissions = submissionResult.rows;
+      (assignment as any).final_grade = applyGradingPolicy(submissionResult.rows, assignment.grading_policy);
     } else if (req.user?.role === 'teacher' && assignment.teacher_id !== userId) {
       return next(new AppError('You do not have permission to access this assignment', 403));
     } else if (req.user?.role !== 'teacher' && req.user?.role !== 'admin') {
       return next(new AppError('You do not have permission to access assignments', 403));
     }
 
-    // For teachers and admins, get all submissions
+    // For teachers and admins, get all submissions; students' drafts stay private
     if (req.user?.role === 'teacher' || req.user?.role === 'admin') {
       const submissionsResult = await db.query<SubmissionRow>(
         `SELECT s.*, u.first_name, u.last_name, u.email
          FROM assignment_submissions s
          JOIN users u ON s.user_id = u.id
-         WHERE s.assignment_id = $1
+         WHERE s.assignment_id = $1 AND s.submission_status <> 'draft'
          ORDER BY s.submitted_at DESC`,
         [id]
       );
+      submissionsResult.rows.forEach((submission) => {
+        submission.rubric_scores = parseJsonColumn<RubricCriterionScore[]>(submission.rubric_scores);
+        submission.test_results = codeGradingService.parseReport(submission.test_results);
+      });
 
-      (assignment as any).submissions = submissionsResult.rows;
+      const { status } = req.query;
+      (assignment as any).submissions = status
+        ? submissionsResult.rows.filter((submission) => submission.submission_status === status)
+        : submissionsResult.rows;
+
+      // One row per student with the grade that counts under the grading policy
+      const studentIds = [...new Set(submissionsResult.rows.map((submission) => submission.user_id))];
+      (assignment as any).final_grades = studentIds.map((studentId) => {
+        const attempts = submissionsResult.rows.filter((submission) => submission.user_id === studentId);
+        return {
+          user_id: studentId,
+          attempts: attempts.length,
+          final_grade: applyGradingPolicy(attempts, assignment.grading_policy)
+        };
+      });
     }
 
     res.status(200).json({
@@ -298,24 +578,87 @@ export const updateAssignment = async (req: AuthRequest, res: Response, next: Ne
       return next(new AppError('You do not have permission to update assignments', 403));
     }
 
-    const { title, description, dueDate, maxPoints } = req.body;
+    const {
+      title,
+      description,
+      dueDate,
+      maxPoints,
+      isPublished,
+      allowLateSubmission,
+      latePenaltyPercent,
+      maxAttempts,
+      gradingPolicy,
+      gradingRubric
+    } = req.body;
+
+    // An empty list of criteria removes the rubric; a rubric also sets the maximum points
+    let rubric: GradingRubric | null = null;
+    let points = maxPoints;
+    if (gradingRubric !== undefined) {
+      const gradedResult = await db.query(
+        `SELECT COUNT(*) as count FROM assignment_submissions WHERE assignment_id = $1 AND submission_status = 'graded'`,
+        [id]
+      );
+      if (Number(gradedResult.rows[0].count) > 0) {
+        return next(new AppError('The rubric cannot change after submissions have been graded with it', 400));
+      }
 
-    const result = await db.query<AssignmentRow>(
+      if (Array.isArray(gradingRubric.criteria) && gradingRubric.criteria.length === 0) {
+        rubric = null;
+      } else {
+        rubric = normalizeRubric(gradingRubric);
+        points = rubricMaxPoints(rubric);
+        if (points <= 0 || points > 1000) {
+          return next(new AppError('The rubric must be worth between 1 and 1000 points', 400));
+        }
+      }
+    }
+
+    // maxAttempts 0 is stored as NULL (unlimited), so it cannot go through COALESCE; the same goes for removing a rubric
+    await db.query(
       `UPDATE assignments 
        SET title = COALESCE($1, title),
            description = COALESCE($2, description),
            due_date = COALESCE($3, due_date),
            max_points = COALESCE($4, max_points),
+           is_published = COALESCE($5, is_published),
+           allow_late_submission = COALESCE($6, allow_late_submission),
+           late_penalty_percent = COALESCE($7, late_penalty_percent),
+           max_attempts = CASE WHEN $8 THEN $9 ELSE max_attempts END,
+           grading_policy = COALESCE($10, grading_policy),
+           grading_rubric = CASE WHEN $11 THEN $12 ELSE grading_rubric END,
            updated_at = NOW()
-       WHERE id = $5
-       RETURNING *`,
-      [title, description, dueDate, maxPoints, id]
+       WHERE id = $13`,
+      [
+        title ?? null,
+        description ?? null,
+        dueDate ?? null,
+        points ?? null,
+        isPublished ?? null,
+        allowLateSubmission ?? null,
+        latePenaltyPercent ?? null,
+        maxAttempts !== undefined,
+        maxAttempts || null,
+        gradingPolicy ?? null,
+        gradingRubric !== undefined,
+        rubric ? JSON.stringify(rubric) : null,
+        id
+      ]
     );
 
+    const result = await db.query<AssignmentRow>('SELECT * FROM assignments WHERE id = $1', [id]);
+    const updatedAssignment = result.rows[0];
+    updatedAssignment.grading_rubric = parseJsonColumn<GradingRubric>(updatedAssignment.grading_rubric);
+
+    // Notify students only on the transition from draft to published
+    if (isPublished === true && !assignment.is_published) {
+      await notifyAssignmentPublished(updatedAssignment);
+    }
+
     res.status(200).json({
       status: 'success',
       data: {
-        assignment: result.rows[0]
+        assignment: updatedAssignment
       }
     });
   } catch (error) {
@@ -369,10 +712,118 @@ export const deleteAssignment = async (req: AuthRequest, res: Response, next: Ne
 };
 
 /**
- * Submit assignment
- * @route POST /api/assignments/:id/submit
+ * Load an assignment a student works on, checking that they are enrolled in its course
  */
-export const submitAssignment = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+const findStudentAssignment = async (assignmentId: string, userId: string): Promise<AssignmentRow> => {
+  const assignmentResult = await db.query<AssignmentRow>(
+    `SELECT a.*, c.id as course_id
+     FROM assignments a
+     JOIN courses c ON a.course_id = c.id
+     WHERE a.id = $1`,
+    [assignmentId]
+  );
+
+  if (assignmentResult.rows.length === 0) {
+    throw new AppError('Assignment not found', 404);
+  }
+
+  const assignment = assignmentResult.rows[0];
+
+  if (!(await isEnrolled(userId, assignment.course_id))) {
+    throw new AppError('You are not enrolled in this course', 403);
+  }
+
+  return assignment;
+};
+
+const isPastDue = (assignment: AssignmentRow): boolean =>
+  Boolean(assignment.due_date && new Date() > new Date(assignment.due_date));
+
+/**
+ * Multiple-choice assignments are taken as quiz attempts and scored by the quiz engine
+ */
+const assertNotQuiz = (assignment: AssignmentRow): void => {
+  if (assignment.assignment_type === 'multiple_choice') {
+    throw new AppError('This assignment is a quiz: start an attempt at /api/quizzes/assignments/:id/attempts', 400);
+  }
+};
+
+/**
+ * Past the due date only assignments that accept late work take new work
+ */
+const assertCanStartWork = (assignment: AssignmentRow): void => {
+  if (isPastDue(assignment) && !assignment.allow_late_submission) {
+    throw new AppError('Assignment submission deadline has passed', 400);
+  }
+};
+
+/**
+ * The student's draft or returned attempt, which is edited in place instead of starting a new attempt.
+ * Must run inside the transaction that holds the assignment lock.
+ */
+const findOpenAttempt = async (
+  connection: PoolConnection,
+  assignmentId: string,
+  userId: string
+): Promise<SubmissionRow | null> => {
+  const [rows] = await connection.execute<RowDataPacket[]>(
+    `SELECT * FROM assignment_submissions
+     WHERE assignment_id = ? AND user_id = ? AND submission_status IN ('draft', 'returned')
+     ORDER BY attempt_number DESC
+     LIMIT 1`,
+    [assignmentId, userId]
+  );
+  return (rows[0] as SubmissionRow) ?? null;
+};
+
+/**
+ * Start a new attempt as its own row, enforcing the assignment's attempt limit
+ */
+const insertAttempt = async (
+  connection: PoolConnection,
+  assignment: AssignmentRow,
+  userId: string,
+  status: 'draft' | 'submitted',
+  content: { submissionUrl?: string; submissionText?: string }
+): Promise<string> => {
+  const [attemptRows] = await connection.execute<RowDataPacket[]>(
+    'SELECT COUNT(*) as attempts, COALESCE(MAX(attempt_number), 0) as last_attempt FROM assignment_submissions WHERE assignment_id = ? AND user_id = ?',
+    [assignment.id, userId]
+  );
+  const attempts = Number(attemptRows[0].attempts);
+
+  if (assignment.max_attempts !== null && attempts >= assignment.max_attempts) {
+    throw new AppError(
+      `You have used all ${assignment.max_attempts} attempt${assignment.max_attempts === 1 ? '' : 's'} for this assignment`,
+      400
+    );
+  }
+
+  const submissionId = uuidv4();
+  await connection.execute(
+    `INSERT INTO assignment_submissions (id, assignment_id, user_id, submission_url, submission_text, submission_status,
+       is_late, attempt_number, draft_saved_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ${status === 'draft' ? 'NOW()' : 'NULL'})`,
+    [
+      submissionId,
+      assignment.id,
+      userId,
+      content.submissionUrl ?? null,
+      content.submissionText ?? null,
+      status,
+      status === 'submitted' && isPastDue(assignment),
+      Number(attemptRows[0].last_attempt) + 1
+    ]
+  );
+
+  return submissionId;
+};
+
+/**
+ * Save the student's work without submitting it; called repeatedly by autosave
+ * @route PUT /api/assignments/:id/draft
+ */
+export const saveDraft = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { id } = req.params;
     const { submissionUrl, submissionText } = req.body;
@@ -382,83 +833,143 @@ export const submitAssignment = async (req: AuthRequest, res: Response, next: Ne
       return next(new AppError('Authentication required', 401));
     }
 
-    // Only students can submit assignments
     if (req.user?.role !== 'student') {
-      return next(new AppError('Only students can submit assignments', 403));
+      return next(new AppError('Only students can save drafts', 403));
     }
 
-    // Check if assignment exists and user is enrolled
-    const assignmentResult = await db.query<AssignmentRow>(
-      `SELECT a.*, c.id as course_id
-       FROM assignments a
-       JOIN courses c ON a.course_id = c.id
-       WHERE a.id = $1`,
-      [id]
-    );
+    const assignment = await findStudentAssignment(id, userId);
+    assertNotQuiz(assignment);
+
+    const submission = await db.transaction(async (connection) => {
+      await connection.execute('SELECT id FROM assignments WHERE id = ? FOR UPDATE', [id]);
+
+      // A returned attempt stays returned while the student revises it
+      const openAttempt = await findOpenAttempt(connection, id, userId);
+      let submissionId = openAttempt?.id;
+
+      if (openAttempt) {
+        await connection.execute(
+          `UPDATE assignment_submissions
+           SET submission_url = ?, submission_text = ?, draft_saved_at = NOW()
+           WHERE id = ?`,
+          [submissionUrl ?? null, submissionText ?? null, openAttempt.id]
+        );
+      } else {
+        assertCanStartWork(assignment);
+        submissionId = await insertAttempt(connection, assignment, userId, 'draft', { submissionUrl, submissionText });
+      }
 
-    if (assignmentResult.rows.length === 0) {
-      return next(new AppError('Assignment not found', 404));
-    }
+      const [rows] = await connection.execute<RowDataPacket[]>('SELECT * FROM assignment_submissions WHERE id = ?', [submissionId]);
+      return rows[0] as SubmissionRow;
+    });
 
-    const assignment = assignmentResult.rows[0];
+    res.status(200).json({
+      status: 'success',
+      data: {
+        submission
+      }
+    });
+  } catch (error) {
+    logger.error('Save draft error:', error);
+    next(error);
+  }
+};
 
-    // Check enrollment
-    const enrollmentResult = await db.query(
-      'SELECT * FROM enrollments WHERE user_id = $1 AND course_id = $2',
-      [userId, assignment.course_id]
-    );
+/**
+ * Submit assignment. Submits the open draft or returned attempt when there is one, otherwise starts a new attempt.
+ * @route POST /api/assignments/:id/submit
+ */
+export const submitAssignment = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { submissionUrl, submissionText } = req.body;
+    const userId = req.user?.id;
 
-    if (enrollmentResult.rows.length === 0) {
-      return next(new AppError('You are not enrolled in this course', 403));
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
     }
 
-    // Check if assignment is past due date
-    if (assignment.due_date && new Date() > new Date(assignment.due_date)) {
-      return next(new AppError('Assignment submission deadline has passed', 400));
+    // Only students can submit assignments
+    if (req.user?.role !== 'student') {
+      return next(new AppError('Only students can submit assignments', 403));
     }
 
-    // Check if already submitted
-    const existingSubmission = await db.query<SubmissionRow>(
-      'SELECT * FROM assignment_submissions WHERE assignment_id = $1 AND user_id = $2',
-      [id, userId]
-    );
+    const assignment = await findStudentAssignment(id, userId);
+    assertNotQuiz(assignment);
 
-    if (existingSubmission.rows.length > 0) {
-      // Update existing submission
-      const result = await db.query<SubmissionRow>(
-        `UPDATE assignment_submissions 
-         SET submission_url = $1,
-             submission_text = $2,
-             submitted_at = NOW()
-         WHERE assignment_id = $3 AND user_id = $4
-         RETURNING *`,
-        [submissionUrl, submissionText, id, userId]
-      );
+    // Every attempt is kept as its own row; lock the assignment so two concurrent submits cannot share a number
+    const { submission, resubmitted } = await db.transaction(async (connection) => {
+      await connection.execute('SELECT id FROM assignments WHERE id = ? FOR UPDATE', [id]);
 
-      res.status(200).json({
-        status: 'success',
-        message: 'Assignment resubmitted successfully',
-        data: {
-          submission: result.rows[0]
+      const openAttempt = await findOpenAttempt(connection, id, userId);
+      let submissionId: string;
+
+      if (openAttempt) {
+        // Work the teacher returned for revision may be resubmitted after the due date
+        if (openAttempt.submission_status === 'draft') {
+          assertCanStartWork(assignment);
         }
-      });
-    } else {
-      // Create new submission
-      const result = await db.query<SubmissionRow>(
-        `INSERT INTO assignment_submissions (assignment_id, user_id, submission_url, submission_text) 
-         VALUES ($1, $2, $3, $4) 
-         RETURNING *`,
-        [id, userId, submissionUrl, submissionText]
-      );
 
-      res.status(201).json({
-        status: 'success',
-        message: 'Assignment submitted successfully',
-        data: {
-          submission: result.rows[0]
+        const url = submissionUrl ?? openAttempt.submission_url ?? null;
+        const text = submissionText ?? openAttempt.submission_text ?? null;
+        if (!url && !text) {
+          throw new AppError('Either submission URL or submission text is required', 400);
         }
-      });
+
+        await connection.execute(
+          `UPDATE assignment_submissions
+           SET submission_url = ?,
+               submission_text = ?,
+               submission_status = 'submitted',
+               submitted_at = NOW(),
+               is_late = ?
+           WHERE id = ?`,
+          [
+            url,
+            text,
+            openAttempt.submission_status === 'returned' ? openAttempt.is_late : isPastDue(assignment),
+            openAttempt.id
+          ]
+        );
+        submissionId = openAttempt.id;
+      } else {
+        if (!submissionUrl && !submissionText) {
+          throw new AppError('Either submission URL or submission text is required', 400);
+        }
+
+        assertCanStartWork(assignment);
+        submissionId = await insertAttempt(connection, assignment, userId, 'submitted', { submissionUrl, submissionText });
+      }
+
+      const [rows] = await connection.execute<RowDataPacket[]>('SELECT * FROM assignment_submissions WHERE id = ?', [submissionId]);
+      return { submission: rows[0] as SubmissionRow, resubmitted: openAttempt?.submission_status === 'returned' };
+    });
+
+    const penaltyPercent = Number(assignment.late_penalty_percent);
+    let message = resubmitted
+      ? `Attempt ${submission.attempt_number} resubmitted successfully`
+      : `Attempt ${submission.attempt_number} submitted successfully`;
+    if (submission.is_late && !resubmitted) {
+      message = penaltyPercent > 0
+        ? `Attempt ${submission.attempt_number} submitted late, a ${penaltyPercent}% penalty will be applied to its grade`
+        : `Attempt ${submission.attempt_number} submitted late`;
     }
+
+    // Coding assignments with test cases are graded in the background
+    if (assignment.assignment_type === 'coding' && await codeGradingService.hasTestCases(id)) {
+      if (await codeGradingService.enqueueSubmission(submission.id)) {
+        submission.auto_grade_status = 'pending';
+        message = `${message}; your code is being tested`;
+      }
+    }
+
+    res.status(201).json({
+      status: 'success',
+      message,
+      data: {
+        submission
+      }
+    });
   } catch (error) {
     logger.error('Submit assignment error:', error);
     next(error);
@@ -472,7 +983,7 @@ export const submitAssignment = async (req: AuthRequest, res: Response, next: Ne
 export const gradeSubmission = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { submissionId } = req.params;
-    const { grade, feedback } = req.body;
+    const { feedback, rubricScores } = req.body;
     const userId = req.user?.id;
 
     if (!userId) {
@@ -486,7 +997,8 @@ export const gradeSubmission = async (req: AuthRequest, res: Response, next: Nex
 
     // Check if submission exists and user has permission
     const submissionResult = await db.query<SubmissionRow>(
-      `SELECT s.*, a.max_points, c.teacher_id
+      `SELECT s.*, a.max_points, a.title as assignment_title, a.late_penalty_percent, a.grading_policy,
+              a.grading_rubric, c.teacher_id
        FROM assignment_submissions s
        JOIN assignments a ON s.assignment_id = a.id
        JOIN courses c ON a.course_id = c.id
@@ -505,25 +1017,74 @@ export const gradeSubmission = async (req: AuthRequest, res: Response, next: Nex
       return next(new AppError('You do not have permission to grade this submission', 403));
     }
 
+    if (submission.submission_status !== 'submitted' && submission.submission_status !== 'graded') {
+      return next(new AppError('Only submitted work can be graded', 400));
+    }
+
+    // With a rubric the teacher picks a level per criterion and the grade is their total
+    const rubric = parseJsonColumn<GradingRubric>(submission.grading_rubric);
+    let grade: number = req.body.grade;
+    let scores: RubricCriterionScore[] | null = null;
+    if (rubric) {
+      if (!Array.isArray(rubricScores)) {
+        return next(new AppError('This assignment is graded with a rubric: send a score for every criterion', 400));
+      }
+      const scored = scoreRubric(rubric, rubricScores);
+      grade = scored.total;
+      scores = scored.scores;
+    } else if (grade === undefined) {
+      return next(new AppError('Grade is required', 400));
+    }
+
     // Validate grade
     if (grade > submission.max_points) {
       return next(new AppError(`Grade cannot exceed maximum points (${submission.max_points})`, 400));
     }
 
-    const result = await db.query<SubmissionRow>(
+    // Late attempts keep the teacher's grade in raw_grade and are scored with the assignment's penalty
+    const penaltyPercent = submission.is_late ? Number(submission.late_penalty_percent) : 0;
+    const finalGrade = Math.round(grade * (100 - penaltyPercent)) / 100;
+
+    await db.query(
       `UPDATE assignment_submissions 
        SET grade = $1,
-           feedback = $2,
-           graded_at = NOW()
-       WHERE id = $3
-       RETURNING *`,
-      [grade, feedback, submissionId]
+           raw_grade = $2,
+           rubric_scores = $3,
+           feedback = $4,
+           graded_at = NOW(),
+           graded_by = $5,
+           submission_status = 'graded'
+       WHERE id = $6`,
+      [finalGrade, grade, scores ? JSON.stringify(scores) : null, feedback ?? null, userId, submissionId]
+    );
+
+    const result = await db.query<SubmissionRow>('SELECT * FROM assignment_submissions WHERE id = $1', [submissionId]);
+    result.rows[0].rubric_scores = parseJsonColumn<RubricCriterionScore[]>(result.rows[0].rubric_scores);
+    result.rows[0].test_results = codeGradingService.parseReport(result.rows[0].test_results);
+
+    await notificationService.notify({
+      userId: submission.user_id,
+      type: 'grade',
+      title: 'Assignment graded',
+      message: penaltyPercent > 0
+        ? `Your late submission for "${submission.assignment_title}" was graded: ${grade}/${submission.max_points}, ${finalGrade} after the ${penaltyPercent}% late penalty.`
+        : `Your submission for "${submission.assignment_title}" was graded: ${grade}/${submission.max_points}.`,
+      referenceType: 'submission',
+      referenceId: submissionId,
+      link: '/dashboard/student/grades'
+    });
+
+    const attemptResult = await db.query<SubmissionRow>(
+      'SELECT attempt_number, grade FROM assignment_submissions WHERE assignment_id = $1 AND user_id = $2',
+      [submission.assignment_id, submission.user_id]
     );
 
     res.status(200).json({
       status: 'success',
       data: {
-        submission: result.rows[0]
+        submission: result.rows[0],
+        // The student's grade for the assignment under its grading policy
+        assignmentGrade: applyGradingPolicy(attemptResult.rows, submission.grading_policy)
       }
     });
   } catch (error) {
@@ -532,12 +1093,266 @@ export const gradeSubmission = async (req: AuthRequest, res: Response, next: Nex
   }
 };
 
+/**
+ * Return a submission to the student for revision. The attempt reopens: the student edits and
+ * resubmits it without using another attempt.
+ * @route PATCH /api/assignments/submissions/:submissionId/return
+ */
+export const returnSubmission = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { submissionId } = req.params;
+    const { comments } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    if (req.user?.role !== 'teacher' && req.user?.role !== 'admin') {
+      return next(new AppError('You do not have permission to return submissions', 403));
+    }
+
+    const submissionResult = await db.query<SubmissionRow>(
+      `SELECT s.*, a.max_points, a.title as assignment_title, a.assignment_type, c.teacher_id
+       FROM assignment_submissions s
+       JOIN assignments a ON s.assignment_id = a.id
+       JOIN courses c ON a.course_id = c.id
+       WHERE s.id = $1`,
+      [submissionId]
+    );
+
+    if (submissionResult.rows.length === 0) {
+      return next(new AppError('Submission not found', 404));
+    }
+
+    const submission = submissionResult.rows[0];
+
+    if (req.user?.role === 'teacher' && submission.teacher_id !== userId) {
+      return next(new AppError('You do not have permission to return this submission', 403));
+    }
+
+    if (submission.submission_status !== 'submitted' && submission.submission_status !== 'graded') {
+      return next(new AppError('Only submitted work can be returned for revision', 400));
+    }
+
+    if (submission.assignment_type === 'multiple_choice') {
+      return next(new AppError('Quiz attempts are scored automatically and cannot be returned for revision', 400));
+    }
+
+    // A returned attempt has no grade until it is resubmitted and graded again
+    await db.query(
+      `UPDATE assignment_submissions
+       SET submission_status = 'returned',
+           feedback = $1,
+           returned_at = NOW(),
+           grade = NULL,
+           raw_grade = NULL,
+           rubric_scores = NULL,
+           graded_at = NULL,
+           graded_by = NULL
+       WHERE id = $2`,
+      [comments, submissionId]
+    );
+
+    const result = await db.query<SubmissionRow>('SELECT * FROM assignment_submissions WHERE id = $1', [submissionId]);
+
+    await notificationService.notify({
+      userId: submission.user_id,
+      type: 'assignment',
+      title: 'Submission returned for revision',
+      message: `Your submission for "${submission.assignment_title}" was returned for revision: ${comments}`,
+      referenceType: 'submission',
+      referenceId: submissionId,
+      link: '/dashboard/student/assignments'
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        submission: result.rows[0]
+      }
+    });
+  } catch (error) {
+    logger.error('Return submission error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Load an assignment for a teacher who owns its course, or an admin
+ */
+const findManagedAssignment = async (assignmentId: string, user: NonNullable<AuthRequest['user']>): Promise<AssignmentRow> => {
+  const assignmentResult = await db.query<AssignmentRow>(
+    'SELECT a.*, c.teacher_id FROM assignments a JOIN courses c ON a.course_id = c.id WHERE a.id = $1',
+    [assignmentId]
+  );
+
+  if (assignmentResult.rows.length === 0) {
+    throw new AppError('Assignment not found', 404);
+  }
+
+  const assignment = assignmentResult.rows[0];
+  if (user.role === 'teacher' && assignment.teacher_id !== user.id) {
+    throw new AppError('You do not have permission to manage this assignment', 403);
+  } else if (user.role !== 'teacher' && user.role !== 'admin') {
+    throw new AppError('You do not have permission to manage assignments', 403);
+  }
+
+  return assignment;
+};
+
+/**
+ * Get the test cases of a coding assignment, hidden ones included
+ * @route GET /api/assignments/:id/test-cases
+ */
+export const getTestCases = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const assignment = await findManagedAssignment(req.params.id, req.user);
+    const testCases = await codeGradingService.getTestCases(assignment.id);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        language: assignment.code_language ?? 'javascript',
+        testCases
+      }
+    });
+  } catch (error) {
+    logger.error('Get test cases error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Replace the test cases of an assignment; attaching tests makes it a coding assignment.
+ * Submissions already graded keep their results until they are re-run.
+ * @route PUT /api/assignments/:id/test-cases
+ */
+export const setTestCases = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { testCases } = req.body;
+
+    if (!req.user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const assignment = await findManagedAssignment(req.params.id, req.user);
+
+    if (assignment.assignment_type === 'multiple_choice') {
+      return next(new AppError('Quizzes are scored by their questions and cannot have test cases', 400));
+    }
+
+    const language: CodeLanguage = req.body.language ?? assignment.code_language ?? 'javascript';
+    const saved = await codeGradingService.setTestCases(assignment.id, language, testCases);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        language,
+        testCases: saved
+      }
+    });
+  } catch (error) {
+    logger.error('Set test cases error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Run code against the assignment's test cases without submitting it, to check the tests
+ * @route POST /api/assignments/:id/test-cases/run
+ */
+export const runTestCases = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { code } = req.body;
+
+    if (!req.user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const assignment = await findManagedAssignment(req.params.id, req.user);
+    const language: CodeLanguage = req.body.language ?? assignment.code_language ?? 'javascript';
+    const report = await codeGradingService.runAgainstTestCases(assignment.id, language, code);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        report
+      }
+    });
+  } catch (error) {
+    logger.error('Run test cases error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Run the tests on a submission again, e.g. after the test cases changed. A grade given by a teacher is kept.
+ * @route POST /api/assignments/submissions/:submissionId/autograde
+ */
+export const rerunAutoGrade = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { submissionId } = req.params;
+
+    if (!req.user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const submissionResult = await db.query<SubmissionRow>(
+      'SELECT * FROM assignment_submissions WHERE id = $1',
+      [submissionId]
+    );
+
+    if (submissionResult.rows.length === 0) {
+      return next(new AppError('Submission not found', 404));
+    }
+
+    const submission = submissionResult.rows[0];
+    await findManagedAssignment(submission.assignment_id, req.user);
+
+    if (submission.submission_status !== 'submitted' && submission.submission_status !== 'graded') {
+      return next(new AppError('Only submitted work can be auto-graded', 400));
+    }
+
+    if (!(await codeGradingService.hasTestCases(submission.assignment_id))) {
+      return next(new AppError('This assignment has no test cases', 400));
+    }
+
+    if (!(await codeGradingService.enqueueSubmission(submissionId))) {
+      return next(new AppError('Auto-grading is turned off or not available on this server', 503));
+    }
+
+    res.status(202).json({
+      status: 'success',
+      message: 'The submission is queued for auto-grading',
+      data: {
+        submissionId,
+        autoGradeStatus: 'pending'
+      }
+    });
+  } catch (error) {
+    logger.error('Rerun auto-grade error:', error);
+    next(error);
+  }
+};
+
 export default {
   createAssignment,
   getAssignmentsByCourse,
+  getMyAssignments,
   getAssignmentById,
   updateAssignment,
   deleteAssignment,
+  saveDraft,
   submitAssignment,
-  gradeSubmission
+  gradeSubmission,
+  returnSubmission,
+  getTestCases,
+  setTestCases,
+  runTestCases,
+  rerunAutoGrade
 };
\ No newline at end of file
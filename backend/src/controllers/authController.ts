@@ -1,11 +1,16 @@
 import { Request, Response, NextFunction } from 'express';
 import bcrypt from 'bcryptjs';
+import crypto from 'crypto';
 import jwt, { SignOptions } from 'jsonwebtoken';
 import { v4 as uuidv4 } from 'uuid';
 import db from '../db';
 import config from '../config';
 import AppError from '../utils/appError';
 import redisService from '../services/redisService';
+import mailService from '../services/mailService';
+import totpService from '../services/totpService';
+import twoFactorService from '../services/twoFactorService';
+import logger from '../utils/logger';
 import { UserRole } from '../types';
 
 interface RegisterRequest extends Request {
@@ -38,6 +43,70 @@ interface ChangePasswordRequest extends Request {
   };
 }
 
+interface TwoFactorLoginRequest extends Request {
+  body: {
+    challengeToken: string;
+    code: string;
+  };
+}
+
+interface TwoFactorCodeRequest extends Request {
+  body: {
+    code: string;
+  };
+}
+
+interface DisableTwoFactorRequest extends Request {
+  body: {
+    password: string;
+    code: string;
+  };
+}
+
+interface ForgotPasswordRequest extends Request {
+  body: {
+    email: string;
+  };
+}
+
+interface ResetPasswordRequest extends Request {
+  body: {
+    token: string;
+    password: string;
+  };
+}
+
+// Long enough to outlive any refresh token issued before the revocation
+const TOKEN_REVOCATION_TTL = 30 * 24 * 60 * 60;
+
+const hashResetToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
+/**
+ * Create a new email verification token for the user and mail the link.
+ * Any previously issued verification token stops working.
+ */
+const sendEmailVerification = async (userId: string, email: string, firstName: string): Promise<boolean> => {
+  const verificationToken = crypto.randomBytes(32).toString('hex');
+  const expiresInSeconds = Math.floor(config.emailVerificationTokenExpires / 1000);
+
+  const stored = await redisService.storeEmailVerificationToken(hashResetToken(verificationToken), userId, expiresInSeconds);
+  if (!stored) {
+    return false;
+  }
+
+  await mailService.sendVerificationEmail(
+    email,
+    firstName,
+    `${config.clientUrl}/verify-email/${verificationToken}`,
+    Math.round(expiresInSeconds / 3600)
+  );
+
+  logger.info('Email verification sent', { userId });
+  return true;
+};
+
 const generateToken = (id: string, role: UserRole): string => {
   const options: SignOptions = {
     expiresIn: config.jwtExpiresIn as jwt.SignOptions['expiresIn'],
@@ -71,12 +140,19 @@ export const register = async (req: RegisterRequest, res: Response, next: NextFu
     );
 
     const result = await db.query(
-      'SELECT id, email, role, first_name, last_name FROM users WHERE id = $1',
+      'SELECT id, email, role, first_name, last_name, email_verified FROM users WHERE id = $1',
       [userId]
     );
 
     const user = result.rows[0];
 
+    // Registration succeeds even if the mail cannot be sent; the user can request a new link
+    try {
+      await sendEmailVerification(user.id, user.email, user.first_name);
+    } catch (mailError) {
+      logger.error('Failed to send verification email', { userId: user.id, error: (mailError as Error).message });
+    }
+
     const token = generateToken(user.id, user.role);
     const refreshToken = generateRefreshToken(user.id);
 
@@ -89,6 +165,7 @@ export const register = async (req: RegisterRequest, res: Response, next: NextFu
           firstName: user.first_name,
           lastName: user.last_name,
           role: user.role,
+          isEmailVerified: Boolean(user.email_verified),
         },
         token,
         refreshToken,
@@ -104,7 +181,7 @@ export const login = async (req: LoginRequest, res: Response, next: NextFunction
     const { email, password } = req.body;
 
     const result = await db.query(
-      'SELECT id, email, password, role, first_name, last_name FROM users WHERE email = $1',
+      'SELECT id, email, password, role, first_name, last_name, email_verified, two_factor_enabled FROM users WHERE email = $1',
       [email]
     );
 
@@ -114,6 +191,30 @@ export const login = async (req: LoginRequest, res: Response, next: NextFunction
       return next(new AppError('Invalid email or password', 401));
     }
 
+    // With 2FA on, the password only earns a short-lived challenge; tokens are issued by /2fa/verify
+    if (config.features.twoFactorAuthEnabled && user.two_factor_enabled) {
+      const challengeToken = crypto.randomBytes(32).toString('hex');
+      const expiresInSeconds = Math.floor(config.twoFactor.challengeTokenExpires / 1000);
+
+      const stored = await redisService.storeTwoFactorChallenge(hashResetToken(challengeToken), user.id, expiresInSeconds);
+      if (!stored) {
+        return next(new AppError('Two-factor authentication is temporarily unavailable. Please try again later.', 503));
+      }
+
+      res.status(200).json({
+        status: 'success',
+        data: {
+          twoFactorRequired: true,
+          challengeToken,
+          expiresIn: expiresInSeconds,
+        },
+      });
+      return;
+    }
+
+    const twoFactorSetupRequired = config.features.twoFactorAuthEnabled
+      && await twoFactorService.isRequiredForRole(user.role);
+
     const token = generateToken(user.id, user.role);
     const refreshToken = generateRefreshToken(user.id);
 
@@ -126,6 +227,9 @@ export const login = async (req: LoginRequest, res: Response, next: NextFunction
           firstName: user.first_name,
           lastName: user.last_name,
           role: user.role,
+          isEmailVerified: Boolean(user.email_verified),
+          twoFactorEnabled: Boolean(user.two_factor_enabled),
+          twoFactorSetupRequired,
         },
         token,
         refreshToken,
@@ -136,6 +240,77 @@ export const login = async (req: LoginRequest, res: Response, next: NextFunction
   }
 };
 
+export const verifyTwoFactorLogin = async (req: TwoFactorLoginRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!config.features.twoFactorAuthEnabled) {
+      return next(new AppError('Two-factor authentication is not enabled', 404));
+    }
+
+    const { challengeToken, code } = req.body;
+    const challengeHash = hashResetToken(challengeToken);
+
+    const userId = await redisService.getTwoFactorChallenge(challengeHash);
+    if (!userId) {
+      return next(new AppError('Login challenge is invalid or has expired. Please log in again.', 401));
+    }
+
+    const result = await db.query(
+      'SELECT id, email, role, first_name, last_name, email_verified, two_factor_enabled, two_factor_secret FROM users WHERE id = $1',
+      [userId]
+    );
+
+    const user = result.rows[0];
+    if (!user || !user.two_factor_enabled || !user.two_factor_secret) {
+      return next(new AppError('Login challenge is invalid or has expired. Please log in again.', 401));
+    }
+
+    // A recovery code is only checked here; it is used up below, together with the challenge
+    const verification = await twoFactorService.verifyUserCode(user.id, user.two_factor_secret, code, { consume: false });
+    if (!verification.valid) {
+      return next(new AppError('Invalid authentication code', 401));
+    }
+
+    // A challenge can only be completed once
+    if (!(await redisService.consumeTwoFactorChallenge(challengeHash))) {
+      return next(new AppError('Login challenge is invalid or has expired. Please log in again.', 401));
+    }
+
+    if (verification.usedRecoveryCode) {
+      // Another login may have used the same code since it was checked
+      if (!(await twoFactorService.consumeRecoveryCode(user.id, code))) {
+        return next(new AppError('Invalid authentication code', 401));
+      }
+      logger.info('Recovery code used for login', { userId: user.id });
+    }
+
+    const token = generateToken(user.id, user.role);
+    const refreshToken = generateRefreshToken(user.id);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        user: {
+          id: user.id,
+          email: user.email,
+          firstName: user.first_name,
+          lastName: user.last_name,
+          role: user.role,
+          isEmailVerified: Boolean(user.email_verified),
+          twoFactorEnabled: true,
+          twoFactorSetupRequired: false,
+        },
+        token,
+        refreshToken,
+        recoveryCodesRemaining: verification.usedRecoveryCode
+          ? await twoFactorService.countRemainingRecoveryCodes(user.id)
+          : undefined,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export const refreshToken = async (req: RefreshTokenRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { refreshToken } = req.body;
@@ -146,6 +321,12 @@ export const refreshToken = async (req: RefreshTokenRequest, res: Response, next
       return next(new AppError('Invalid refresh token', 401));
     }
 
+    // Tokens issued before a password reset are no longer valid
+    const revokedAt = await redisService.getUserTokensRevokedAt(decoded.id);
+    if (revokedAt && decoded.iat < revokedAt) {
+      return next(new AppError('Invalid refresh token', 401));
+    }
+
     const result = await db.query('SELECT id, role FROM users WHERE id = $1', [decoded.id]);
     if (result.rows.length === 0) {
       return next(new AppError('User not found', 404));
@@ -205,7 +386,7 @@ export const getMe = async (req: Request, res: Response, next: NextFunction): Pr
 
     const userId = req.user.id;
     const result = await db.query(
-      'SELECT id, email, role, first_name, last_name, profile_picture, bio FROM users WHERE id = $1',
+      'SELECT id, email, role, first_name, last_name, profile_picture, bio, email_verified, two_factor_enabled FROM users WHERE id = $1',
       [userId]
     );
 
@@ -214,6 +395,9 @@ export const getMe = async (req: Request, res: Response, next: NextFunction): Pr
     }
 
     const user = result.rows[0];
+    const twoFactorSetupRequired = config.features.twoFactorAuthEnabled
+      && !user.two_factor_enabled
+      && await twoFactorService.isRequiredForRole(user.role);
 
     res.status(200).json({
       status: 'success',
@@ -226,6 +410,9 @@ export const getMe = async (req: Request, res: Response, next: NextFunction): Pr
           role: user.role,
           profilePicture: user.profile_picture,
           bio: user.bio,
+          isEmailVerified: Boolean(user.email_verified),
+          twoFactorEnabled: Boolean(user.two_factor_enabled),
+          twoFactorSetupRequired,
         },
       },
     });
@@ -266,11 +453,385 @@ export const changePassword = async (req: ChangePasswordRequest, res: Response,
   }
 };
 
+export const forgotPassword = async (req: ForgotPasswordRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    const result = await db.query(
+      'SELECT id, email, first_name, is_active FROM users WHERE email = $1',
+      [email]
+    );
+
+    const user = result.rows[0];
+
+    // Respond identically whether or not the account exists to avoid user enumeration
+    if (user && user.is_active) {
+      const resetToken = crypto.randomBytes(32).toString('hex');
+      const expiresInSeconds = Math.floor(config.passwordResetTokenExpires / 1000);
+
+      const stored = await redisService.storePasswordResetToken(hashResetToken(resetToken), user.id, expiresInSeconds);
+      if (!stored) {
+        return next(new AppError('Password reset is temporarily unavailable. Please try again later.', 503));
+      }
+
+      try {
+        await mailService.sendPasswordResetEmail(
+          user.email,
+          user.first_name,
+          `${config.clientUrl}/reset-password/${resetToken}`,
+          Math.round(expiresInSeconds / 60)
+        );
+      } catch (mailError) {
+        logger.error('Failed to send password reset email', { userId: user.id, error: (mailError as Error).message });
+      }
+
+      logger.info('Password reset requested', { userId: user.id });
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: 'If an account with that email exists, we have sent a password reset link.',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const verifyResetToken = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { token } = req.params;
+
+    const userId = await redisService.getPasswordResetToken(hashResetToken(token));
+    if (!userId) {
+      return next(new AppError('Password reset token is invalid or has expired', 400));
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: { valid: true },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resetPassword = async (req: ResetPasswordRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { token, password } = req.body;
+
+    // Consuming the token up front makes it single-use even under concurrent requests
+    const userId = await redisService.consumePasswordResetToken(hashResetToken(token));
+    if (!userId) {
+      return next(new AppError('Password reset token is invalid or has expired', 400));
+    }
+
+    const result = await db.query('SELECT id, email, first_name FROM users WHERE id = $1', [userId]);
+    if (result.rows.length === 0) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const user = result.rows[0];
+
+    const salt = await bcrypt.genSalt(10);
+    const hashedPassword = await bcrypt.hash(password, salt);
+    await db.query('UPDATE users SET password = $1, updated_at = NOW() WHERE id = $2', [hashedPassword, userId]);
+
+    await redisService.revokeUserTokens(userId, TOKEN_REVOCATION_TTL);
+
+    try {
+      await mailService.sendPasswordChangedEmail(user.email, user.first_name);
+    } catch (mailError) {
+      logger.error('Failed to send password changed email', { userId, error: (mailError as Error).message });
+    }
+
+    logger.info('Password reset completed', { userId });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Password has been reset successfully. Please log in with your new password.',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const verifyEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { token } = req.params;
+
+    const userId = await redisService.consumeEmailVerificationToken(hashResetToken(token));
+    if (!userId) {
+      return next(new AppError('Email verification token is invalid or has expired', 400));
+    }
+
+    const result = await db.query('SELECT id FROM users WHERE id = $1', [userId]);
+    if (result.rows.length === 0) {
+      return next(new AppError('User not found', 404));
+    }
+
+    await db.query('UPDATE users SET email_verified = true, updated_at = NOW() WHERE id = $1', [userId]);
+
+    logger.info('Email verified', { userId });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Email verified successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const resendVerificationEmail = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user || !req.user.id) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const result = await db.query(
+      'SELECT id, email, first_name, email_verified FROM users WHERE id = $1',
+      [req.user.id]
+    );
+
+    if (result.rows.length === 0) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const user = result.rows[0];
+    if (user.email_verified) {
+      return next(new AppError('Email is already verified', 400));
+    }
+
+    const sent = await sendEmailVerification(user.id, user.email, user.first_name);
+    if (!sent) {
+      return next(new AppError('Email verification is temporarily unavailable. Please try again later.', 503));
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Verification email sent',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const getTwoFactorStatus = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user || !req.user.id) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const result = await db.query('SELECT id, role, two_factor_enabled FROM users WHERE id = $1', [req.user.id]);
+    if (result.rows.length === 0) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const user = result.rows[0];
+    const enabled = Boolean(user.two_factor_enabled);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        available: config.features.twoFactorAuthEnabled,
+        enabled,
+        required: config.features.twoFactorAuthEnabled && await twoFactorService.isRequiredForRole(user.role),
+        recoveryCodesRemaining: enabled ? await twoFactorService.countRemainingRecoveryCodes(user.id) : 0,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const setupTwoFactor = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!config.features.twoFactorAuthEnabled) {
+      return next(new AppError('Two-factor authentication is not enabled', 404));
+    }
+
+    if (!req.user || !req.user.id) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const result = await db.query('SELECT id, email, two_factor_enabled FROM users WHERE id = $1', [req.user.id]);
+    if (result.rows.length === 0) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const user = result.rows[0];
+    if (user.two_factor_enabled) {
+      return next(new AppError('Two-factor authentication is already enabled', 400));
+    }
+
+    // The secret stays inactive until the user confirms a code from their app
+    const secret = totpService.generateSecret();
+    await db.query('UPDATE users SET two_factor_secret = $1, updated_at = NOW() WHERE id = $2', [secret, user.id]);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        secret,
+        otpauthUrl: totpService.buildOtpauthUri(secret, user.email, config.twoFactor.issuer),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const enableTwoFactor = async (req: TwoFactorCodeRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!config.features.twoFactorAuthEnabled) {
+      return next(new AppError('Two-factor authentication is not enabled', 404));
+    }
+
+    if (!req.user || !req.user.id) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const result = await db.query('SELECT id, two_factor_enabled, two_factor_secret FROM users WHERE id = $1', [req.user.id]);
+    if (result.rows.length === 0) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const user = result.rows[0];
+    if (user.two_factor_enabled) {
+      return next(new AppError('Two-factor authentication is already enabled', 400));
+    }
+
+    if (!user.two_factor_secret) {
+      return next(new AppError('Start two-factor setup before enabling it', 400));
+    }
+
+    if (!totpService.verifyCode(user.two_factor_secret, req.body.code)) {
+      return next(new AppError('Invalid authentication code', 400));
+    }
+
+    await db.query('UPDATE users SET two_factor_enabled = true, updated_at = NOW() WHERE id = $1', [user.id]);
+    const recoveryCodes = await twoFactorService.replaceRecoveryCodes(user.id);
+
+    logger.info('Two-factor authentication enabled', { userId: user.id });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Two-factor authentication enabled. Store your recovery codes in a safe place.',
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const disableTwoFactor = async (req: DisableTwoFactorRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!config.features.twoFactorAuthEnabled) {
+      return next(new AppError('Two-factor authentication is not enabled', 404));
+    }
+
+    if (!req.user || !req.user.id) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const { password, code } = req.body;
+
+    const result = await db.query(
+      'SELECT id, role, password, two_factor_enabled, two_factor_secret FROM users WHERE id = $1',
+      [req.user.id]
+    );
+    if (result.rows.length === 0) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const user = result.rows[0];
+    if (!user.two_factor_enabled) {
+      return next(new AppError('Two-factor authentication is not enabled for this account', 400));
+    }
+
+    if (await twoFactorService.isRequiredForRole(user.role)) {
+      return next(new AppError('Two-factor authentication is required for your role and cannot be disabled', 403));
+    }
+
+    if (!(await bcrypt.compare(password, user.password))) {
+      return next(new AppError('Password is incorrect', 401));
+    }
+
+    const verification = await twoFactorService.verifyUserCode(user.id, user.two_factor_secret, code);
+    if (!verification.valid) {
+      return next(new AppError('Invalid authentication code', 401));
+    }
+
+    await db.query(
+      'UPDATE users SET two_factor_enabled = false, two_factor_secret = NULL, updated_at = NOW() WHERE id = $1',
+      [user.id]
+    );
+    await twoFactorService.deleteRecoveryCodes(user.id);
+
+    logger.info('Two-factor authentication disabled', { userId: user.id });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Two-factor authentication disabled',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+export const regenerateRecoveryCodes = async (req: TwoFactorCodeRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!config.features.twoFactorAuthEnabled) {
+      return next(new AppError('Two-factor authentication is not enabled', 404));
+    }
+
+    if (!req.user || !req.user.id) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const result = await db.query('SELECT id, two_factor_enabled, two_factor_secret FROM users WHERE id = $1', [req.user.id]);
+    if (result.rows.length === 0) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const user = result.rows[0];
+    if (!user.two_factor_enabled) {
+      return next(new AppError('Two-factor authentication is not enabled for this account', 400));
+    }
+
+    // Only a fresh TOTP code is accepted here, not a recovery code
+    if (!totpService.verifyCode(user.two_factor_secret, req.body.code)) {
+      return next(new AppError('Invalid authentication code', 401));
+    }
+
+    const recoveryCodes = await twoFactorService.replaceRecoveryCodes(user.id);
+
+    logger.info('Recovery codes regenerated', { userId: user.id });
+
+    res.status(200).json({
+      status: 'success',
+      data: { recoveryCodes },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 export default {
   register,
   login,
+  verifyTwoFactorLogin,
   refreshToken,
   logout,
   getMe,
   changePassword,
+  forgotPassword,
+  verifyResetToken,
+  resetPassword,
+  verifyEmail,
+  resendVerificationEmail,
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
 };
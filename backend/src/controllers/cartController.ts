@@ -0,0 +1,280 @@
+import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import db from '../db';
+import AppError from '../utils/appError';
+import logger from '../utils/logger';
+import { getPaymentGateway } from '../services/paymentGateway';
+import orderService from '../services/orderService';
+import paymentSettlementService from '../services/paymentSettlementService';
+import { applyCoupons } from '../services/couponService';
+import { findOwnedCourseIds } from '../services/enrollmentService';
+import config from '../config';
+
+interface AuthRequest extends Request {
+  user?: {
+    id: string;
+    role: 'student' | 'teacher' | 'admin';
+  };
+}
+
+/**
+ * Get the current user's cart, priced with an optional coupon and the auto-apply coupons.
+ * Every coupon considered comes back with the rules that made it apply or not.
+ * @route GET /api/cart
+ */
+export const getCart = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const couponCode = req.query.couponCode as string | undefined;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const cartItems = await orderService.getCartItems(userId);
+    const courses = cartItems.map((item) => ({
+      id: item.course_id,
+      price: Number(item.price),
+      category: item.category,
+      category_id: item.category_id
+    }));
+    const { discounts, explanations, originalAmount: subtotal, discountAmount } = await applyCoupons(userId, courses, {
+      codes: couponCode && courses.length > 0 ? [couponCode] : []
+    });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        items: cartItems.map((item) => ({
+          id: item.id,
+          courseId: item.course_id,
+          title: item.course_title,
+          thumbnail: item.course_thumbnail,
+          price: Number(item.price),
+          discountAmount: discounts[item.course_id] ?? 0,
+          amount: Number(item.price) - (discounts[item.course_id] ?? 0),
+          available: item.status === 'published',
+          addedAt: item.added_at
+        })),
+        coupons: explanations,
+        subtotal,
+        discountAmount,
+        total: subtotal - discountAmount,
+        currency: config.payment.currency
+      }
+    });
+  } catch (error) {
+    logger.error('Get cart error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Add a course to the cart
+ * @route POST /api/cart/items
+ */
+export const addToCart = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { courseId } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const courseResult = await db.query(
+      'SELECT id FROM courses WHERE id = $1 AND status = $2',
+      [courseId, 'published']
+    );
+
+    if (courseResult.rows.length === 0) {
+      return next(new AppError('Course not found or not available for purchase', 404));
+    }
+
+    if ((await findOwnedCourseIds(userId, [courseId])).length > 0) {
+      return next(new AppError('You are already enrolled in this course', 400));
+    }
+
+    // Adding a course twice is a no-op
+    await db.query(
+      `INSERT INTO cart_items (id, user_id, course_id) VALUES ($1, $2, $3)
+       ON DUPLICATE KEY UPDATE added_at = added_at`,
+      [uuidv4(), userId, courseId]
+    );
+
+    const items = await orderService.getCartItems(userId);
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        itemCount: items.length
+      }
+    });
+  } catch (error) {
+    logger.error('Add to cart error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Remove a course from the cart
+ * @route DELETE /api/cart/items/:courseId
+ */
+export const removeFromCart = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { courseId } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const result = await db.query(
+      'DELETE FROM cart_items WHERE user_id = $1 AND course_id = $2',
+      [userId, courseId]
+    );
+
+    if (result.rowCount === 0) {
+      return next(new AppError('Course is not in your cart', 404));
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Course removed from cart'
+    });
+  } catch (error) {
+    logger.error('Remove from cart error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Empty the cart
+ * @route DELETE /api/cart
+ */
+export const clearCart = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    await db.query('DELETE FROM cart_items WHERE user_id = $1', [userId]);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Cart cleared'
+    });
+  } catch (error) {
+    logger.error('Clear cart error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Check out the whole cart as one order and one VNPay payment
+ * @route POST /api/cart/checkout
+ */
+export const checkout = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { paymentMethod, bankCode, couponCode } = req.body;
+    const userId = req.user?.id;
+    const ipAddress = req.ip || req.connection.remoteAddress || '127.0.0.1';
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    if (!config.payment.enabled) {
+      return next(new AppError('Payment service is currently disabled', 503));
+    }
+
+    // Checked before the order is created; a fully discounted order never reaches it
+    const gateway = getPaymentGateway(paymentMethod);
+
+    const { order, items } = await orderService.createOrderFromCart(userId, {
+      couponCode,
+      paymentMethod: gateway.id,
+      ipAddress,
+      userAgent: req.get('user-agent')
+    });
+
+    const orderSummary = {
+      id: order.id,
+      orderId: order.order_code,
+      subtotal: Number(order.subtotal),
+      discountAmount: Number(order.discount_amount),
+      amount: Number(order.total_amount),
+      currency: order.currency,
+      items: items.map((item) => ({
+        courseId: item.course_id,
+        title: item.course_title,
+        price: Number(item.price),
+        discountAmount: Number(item.discount_amount),
+        amount: Number(item.amount)
+      }))
+    };
+
+    // Fully discounted: nothing to charge, settle right away
+    if (Number(order.total_amount) <= 0) {
+      const settlement = await paymentSettlementService.settleTransaction(order.payment_method, {
+        txnRef: order.order_code,
+        amount: 0,
+        succeeded: true,
+        responseCode: '00'
+      });
+
+      res.status(201).json({
+        status: 'success',
+        data: {
+          order: {
+            ...orderSummary,
+            status: settlement?.status,
+            enrolledCourseIds: settlement?.enrolledCourseIds
+          }
+        }
+      });
+      return;
+    }
+
+    let paymentUrl: string;
+    try {
+      paymentUrl = await gateway.createPaymentUrl({
+        txnRef: order.order_code,
+        amount: Number(order.total_amount),
+        description: `Thanh toan ${items.length} khoa hoc`,
+        ipAddress,
+        bankCode,
+        locale: config.payment.locale
+      });
+    } catch (gatewayError) {
+      logger.error('Create payment URL error:', gatewayError);
+      await paymentSettlementService.cancelTransaction(order.order_code);
+      return next(new AppError(`Could not reach ${gateway.name}, please try again`, 502));
+    }
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        order: {
+          ...orderSummary,
+          status: order.status,
+          paymentMethod: gateway.id,
+          paymentUrl
+        }
+      }
+    });
+  } catch (error) {
+    logger.error('Cart checkout error:', error);
+    next(error);
+  }
+};
+
+export default {
+  getCart,
+  addToCart,
+  removeFromCart,
+  clearCart,
+  checkout
+};
@@ -4,6 +4,15 @@ import moment from 'moment';
 import db from '../db';
 import AppError from '../utils/appError';
 import logger from '../utils/logger';
+import { CouponRow } from '../types';
+import {
+  CouponCourse,
+  applyCoupons,
+  evaluateCoupon,
+  finalizeCouponUsage,
+  reserveCouponUsage
+} from '../services/couponService';
+import couponCampaignService from '../services/couponCampaignService';
 
 interface AuthRequest extends Request {
   user?: {
@@ -12,26 +21,6 @@ interface AuthRequest extends Request {
   };
 }
 
-interface CouponRow {
-  id: string;
-  code: string;
-  name: string;
-  description?: string;
-  discount_type: 'percentage' | 'fixed';
-  discount_value: number;
-  minimum_amount: number;
-  maximum_discount?: number;
-  usage_limit?: number;
-  used_count: number;
-  valid_from: string;
-  valid_until: string;
-  is_active: boolean;
-  created_by: string;
-  created_at: string;
-  updated_at: string;
-  [key: string]: any;
-}
-
 interface CouponUsageRow {
   id: string;
   coupon_id: string;
@@ -64,7 +53,13 @@ export const createCoupon = async (req: AuthRequest, res: Response, next: NextFu
       maximumDiscount,
       usageLimit,
       validFrom,
-      validUntil
+      validUntil,
+      buyQuantity,
+      getQuantity,
+      isPublic = true,
+      autoApply = false,
+      stackable = false,
+      priority = 0
     } = req.body;
     const userId = req.user?.id;
 
@@ -107,12 +102,22 @@ export const createCoupon = async (req: AuthRequest, res: Response, next: NextFu
       return next(new AppError('Fixed discount must be greater than 0', 400));
     }
 
+    if (discountType === 'bogo' && (!buyQuantity || !getQuantity)) {
+      return next(new AppError('Bogo coupons need a buy quantity and a get quantity', 400));
+    }
+
+    // Only public coupons can apply themselves, private ones need their code
+    if (autoApply && !isPublic) {
+      return next(new AppError('Only public coupons can be applied automatically', 400));
+    }
+
     const result = await db.query<CouponRow>(
       `INSERT INTO coupons (
         id, code, name, description, discount_type, discount_value, 
         minimum_amount, maximum_discount, usage_limit, valid_from, 
-        valid_until, created_by
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12) 
+        valid_until, created_by, buy_quantity, get_quantity,
+        is_public, auto_apply, stackable, priority
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18) 
       RETURNING *`,
       [
         uuidv4(),
@@ -126,7 +131,13 @@ export const createCoupon = async (req: AuthRequest, res: Response, next: NextFu
         usageLimit,
         validFrom,
         validUntil,
-        userId
+        userId,
+        discountType === 'bogo' ? buyQuantity : null,
+        discountType === 'bogo' ? getQuantity : null,
+        isPublic,
+        autoApply,
+        stackable,
+        priority
       ]
     );
 
@@ -156,7 +167,7 @@ export const createCoupon = async (req: AuthRequest, res: Response, next: NextFu
  */
 export const getAllCoupons = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { page = '1', limit = '10', status, search, sortBy = 'created_at', sortOrder = 'desc' } = req.query;
+    const { page = '1', limit = '10', status, search, campaignId, sortBy = 'created_at', sortOrder = 'desc' } = req.query;
 
     const pageNum = parseInt(page as string);
     const limitNum = parseInt(limit as string);
@@ -177,6 +188,15 @@ export const getAllCoupons = async (req: AuthRequest, res: Response, next: NextF
       whereClause += ' AND c.valid_from > NOW() AND c.is_active = true';
     }
 
+    // Campaign codes are listed per campaign, so they do not drown the hand-made coupons
+    if (campaignId) {
+      paramCount++;
+      whereClause += ` AND c.campaign_id = $${paramCount}`;
+      params.push(campaignId);
+    } else {
+      whereClause += ' AND c.campaign_id IS NULL';
+    }
+
     // Search filter
     if (search) {
       paramCount++;
@@ -231,103 +251,76 @@ export const getAllCoupons = async (req: AuthRequest, res: Response, next: NextF
 };
 
 /**
- * Validate and get coupon details
+ * Validate a coupon code and price it together with the auto-apply coupons. Without a code only the
+ * auto-apply coupons are priced. Every coupon considered is explained rule by rule.
  * @route POST /api/coupons/validate
  */
 export const validateCoupon = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { code, amount } = req.body;
+    const { code, courseId } = req.body;
     const userId = req.user?.id;
 
     if (!userId) {
       return next(new AppError('Authentication required', 401));
     }
 
-    if (!code || !amount) {
-      return next(new AppError('Coupon code and amount are required', 400));
-    }
-
-    // Find coupon
-    const couponResult = await db.query<CouponRow>(
-      'SELECT * FROM coupons WHERE UPPER(code) = UPPER($1) AND is_active = true',
-      [code]
-    );
-
-    if (couponResult.rows.length === 0) {
-      return next(new AppError('Invalid or inactive coupon code', 400));
-    }
-
-    const coupon = couponResult.rows[0];
-
-    // Check if coupon is still valid (time range)
-    const now = moment();
-    const validFrom = moment(coupon.valid_from);
-    const validUntil = moment(coupon.valid_until);
-
-    if (now.isBefore(validFrom)) {
-      return next(new AppError('Coupon is not yet valid', 400));
-    }
-
-    if (now.isAfter(validUntil)) {
-      return next(new AppError('Coupon has expired', 400));
-    }
-
-    // Check usage limit
-    if (coupon.usage_limit && coupon.used_count >= coupon.usage_limit) {
-      return next(new AppError('Coupon usage limit exceeded', 400));
-    }
-
-    // Check minimum amount requirement
-    if (amount < coupon.minimum_amount) {
-      return next(new AppError(`Minimum order amount is ${coupon.minimum_amount.toLocaleString()} VNĐ`, 400));
+    if (!courseId && req.body.amount === undefined) {
+      return next(new AppError('A course or amount is required', 400));
     }
 
-    // Check if user already used this coupon
-    const usageResult = await db.query<CouponUsageRow>(
-      'SELECT * FROM coupon_usage WHERE coupon_id = $1 AND user_id = $2',
-      [coupon.id, userId]
-    );
-
-    if (usageResult.rows.length > 0) {
-      return next(new AppError('You have already used this coupon', 400));
-    }
+    // Price the course when one is given, so its course/category restrictions are checked too
+    let courses: CouponCourse[] = [{ id: '', price: Number(req.body.amount) }];
+    if (courseId) {
+      const courseResult = await db.query<CouponCourse>(
+        'SELECT id, price, category, category_id FROM courses WHERE id = $1 AND status = $2',
+        [courseId, 'published']
+      );
 
-    // Calculate discount amount
-    let discountAmount = 0;
-    if (coupon.discount_type === 'percentage') {
-      discountAmount = Math.floor((amount * coupon.discount_value) / 100);
-      // Apply maximum discount limit if specified
-      if (coupon.maximum_discount && discountAmount > coupon.maximum_discount) {
-        discountAmount = coupon.maximum_discount;
+      if (courseResult.rows.length === 0) {
+        return next(new AppError('Course not found', 404));
       }
-    } else {
-      discountAmount = coupon.discount_value;
+
+      courses = courseResult.rows;
     }
 
-    // Ensure discount doesn't exceed order amount
-    if (discountAmount > amount) {
-      discountAmount = amount;
+    const application = await applyCoupons(userId, courses, { codes: code ? [code] : [] });
+    const { originalAmount, discountAmount, finalAmount, explanations } = application;
+
+    const entered = code ? explanations.find((explanation) => !explanation.autoApplied) : undefined;
+    if (entered && !entered.applied) {
+      // Not an AppError: the explanation says which rules failed
+      res.status(400).json({
+        status: 'fail',
+        message: entered.rules.find((result) => !result.passed)?.message ?? 'Coupon gives no discount on this order',
+        data: {
+          coupons: explanations
+        }
+      });
+      return;
     }
 
-    const finalAmount = amount - discountAmount;
+    const coupon = application.evaluations.find((evaluation) => evaluation.coupon.id === entered?.couponId)?.coupon;
 
     res.status(200).json({
       status: 'success',
       data: {
-        coupon: {
-          id: coupon.id,
-          code: coupon.code,
-          name: coupon.name,
-          description: coupon.description,
-          discountType: coupon.discount_type,
-          discountValue: coupon.discount_value
-        },
+        coupon: coupon
+          ? {
+            id: coupon.id,
+            code: coupon.code,
+            name: coupon.name,
+            description: coupon.description,
+            discountType: coupon.discount_type,
+            discountValue: coupon.discount_value
+          }
+          : null,
+        coupons: explanations,
         calculation: {
-          originalAmount: amount,
+          originalAmount,
           discountAmount,
           finalAmount,
           savings: discountAmount,
-          savingsPercentage: Math.round((discountAmount / amount) * 100)
+          savingsPercentage: originalAmount > 0 ? Math.round((discountAmount / originalAmount) * 100) : 0
         }
       }
     });
@@ -453,7 +446,13 @@ export const updateCoupon = async (req: AuthRequest, res: Response, next: NextFu
       usageLimit,
       validFrom,
       validUntil,
-      isActive
+      isActive,
+      buyQuantity,
+      getQuantity,
+      isPublic,
+      autoApply,
+      stackable,
+      priority
     } = req.body;
 
     // Check if coupon exists
@@ -473,6 +472,18 @@ export const updateCoupon = async (req: AuthRequest, res: Response, next: NextFu
       if (discountValue && discountValue !== existingCoupon.discount_value) {
         return next(new AppError('Cannot change discount value for a coupon that has been used', 400));
       }
+      if ((buyQuantity && buyQuantity !== existingCoupon.buy_quantity) || (getQuantity && getQuantity !== existingCoupon.get_quantity)) {
+        return next(new AppError('Cannot change the bogo quantities of a coupon that has been used', 400));
+      }
+    }
+
+    const bogo = (discountType ?? existingCoupon.discount_type) === 'bogo';
+    if (bogo && (!(buyQuantity ?? existingCoupon.buy_quantity) || !(getQuantity ?? existingCoupon.get_quantity))) {
+      return next(new AppError('Bogo coupons need a buy quantity and a get quantity', 400));
+    }
+
+    if ((autoApply ?? Boolean(existingCoupon.auto_apply)) && !(isPublic ?? Boolean(existingCoupon.is_public))) {
+      return next(new AppError('Only public coupons can be applied automatically', 400));
     }
 
     // Validate dates if provided
@@ -511,8 +522,14 @@ export const updateCoupon = async (req: AuthRequest, res: Response, next: NextFu
            valid_from = COALESCE($8, valid_from),
            valid_until = COALESCE($9, valid_until),
            is_active = COALESCE($10, is_active),
+           buy_quantity = COALESCE($11, buy_quantity),
+           get_quantity = COALESCE($12, get_quantity),
+           is_public = COALESCE($13, is_public),
+           auto_apply = COALESCE($14, auto_apply),
+           stackable = COALESCE($15, stackable),
+           priority = COALESCE($16, priority),
            updated_at = NOW()
-       WHERE id = $11
+       WHERE id = $17
        RETURNING *`,
       [
         name,
@@ -525,6 +542,12 @@ export const updateCoupon = async (req: AuthRequest, res: Response, next: NextFu
         validFrom,
         validUntil,
         isActive,
+        buyQuantity,
+        getQuantity,
+        isPublic,
+        autoApply,
+        stackable,
+        priority,
         id
       ]
     );
@@ -716,7 +739,7 @@ export const getCouponStats = async (req: AuthRequest, res: Response, next: Next
        FROM coupons`
     );
 
-    // Top performing coupons by usage
+    // Top performing coupons by usage (campaign codes are reported per campaign below)
     const topCouponsResult = await db.query<{
       coupon_id: string;
       code: string;
@@ -743,6 +766,7 @@ export const getCouponStats = async (req: AuthRequest, res: Response, next: Next
          END as conversion_rate
        FROM coupons c
        LEFT JOIN coupon_usage cu ON c.id = cu.coupon_id
+       WHERE c.campaign_id IS NULL
        GROUP BY c.id, c.code, c.name, c.discount_type, c.discount_value, c.usage_limit
        ORDER BY usage_count DESC
        LIMIT 10`
@@ -783,6 +807,8 @@ export const getCouponStats = async (req: AuthRequest, res: Response, next: Next
        GROUP BY c.discount_type`
     );
 
+    const campaigns = await couponCampaignService.listCampaigns();
+
     const stats = statsResult.rows[0];
 
     res.status(200).json({
@@ -822,6 +848,7 @@ export const getCouponStats = async (req: AuthRequest, res: Response, next: Next
           totalUsage: parseInt(row.total_usage || '0'),
           totalDiscount: parseFloat(row.total_discount || '0')
         })),
+        campaigns,
         period: `${periodDays} days`
       }
     });
@@ -832,7 +859,8 @@ export const getCouponStats = async (req: AuthRequest, res: Response, next: Next
 };
 
 /**
- * Apply coupon to payment (internal function used by payment controller)
+ * Apply coupon to payment (internal function used by payment controller).
+ * Checks the coupon against the payment's course and records the use as applied.
  */
 export const applyCouponToPayment = async (
   couponId: string,
@@ -843,83 +871,42 @@ export const applyCouponToPayment = async (
   try {
     // Get coupon details
     const couponResult = await db.query<CouponRow>(
-      'SELECT * FROM coupons WHERE id = $1 AND is_active = true',
+      'SELECT * FROM coupons WHERE id = $1 AND is_active = true AND deleted_at IS NULL',
       [couponId]
     );
 
     if (couponResult.rows.length === 0) {
-      throw new Error('Invalid coupon');
-    }
-
-    const coupon = couponResult.rows[0];
-
-    // Validate coupon is still usable
-    const now = moment();
-    if (now.isBefore(moment(coupon.valid_from)) || now.isAfter(moment(coupon.valid_until))) {
-      throw new Error('Coupon is not valid at this time');
-    }
-
-    if (coupon.usage_limit && coupon.used_count >= coupon.usage_limit) {
-      throw new Error('Coupon usage limit exceeded');
-    }
-
-    if (originalAmount < coupon.minimum_amount) {
-      throw new Error('Order amount does not meet coupon minimum requirement');
+      throw new AppError('Invalid coupon', 400);
     }
 
-    // Check if user already used this coupon
-    const usageCheck = await db.query(
-      'SELECT * FROM coupon_usage WHERE coupon_id = $1 AND user_id = $2',
-      [couponId, userId]
+    const paymentResult = await db.query<CouponCourse & { order_id: string }>(
+      `SELECT c.id, c.category, c.category_id, p.order_id
+       FROM payments p
+       JOIN courses c ON p.course_id = c.id
+       WHERE p.id = $1`,
+      [paymentId]
     );
 
-    if (usageCheck.rows.length > 0) {
-      throw new Error('User has already used this coupon');
-    }
-
-    // Calculate discount
-    let discountAmount = 0;
-    if (coupon.discount_type === 'percentage') {
-      discountAmount = Math.floor((originalAmount * coupon.discount_value) / 100);
-      if (coupon.maximum_discount && discountAmount > coupon.maximum_discount) {
-        discountAmount = coupon.maximum_discount;
-      }
-    } else {
-      discountAmount = coupon.discount_value;
-    }
-
-    // Ensure discount doesn't exceed order amount
-    if (discountAmount > originalAmount) {
-      discountAmount = originalAmount;
+    if (paymentResult.rows.length === 0) {
+      throw new AppError('Payment not found', 404);
     }
 
-    const finalAmount = originalAmount - discountAmount;
-
-    // Use transaction for atomic operations
-    await db.transaction(async (client) => {
-      // Record coupon usage
-      await client.query(
-        'INSERT INTO coupon_usage (id, coupon_id, user_id, payment_id, discount_amount) VALUES ($1, $2, $3, $4, $5)',
-        [uuidv4(), couponId, userId, paymentId, discountAmount]
-      );
+    const { order_id: orderId, ...course } = paymentResult.rows[0];
+    const evaluation = await evaluateCoupon(couponResult.rows[0], userId, [{ ...course, price: originalAmount }]);
 
-      // Update coupon used count
-      await client.query(
-        'UPDATE coupons SET used_count = used_count + 1 WHERE id = $1',
-        [couponId]
-      );
-    });
+    await reserveCouponUsage(evaluation, { userId, paymentId, orderId });
+    await finalizeCouponUsage(orderId);
 
     logger.info('Coupon applied to payment successfully', {
       couponId,
       paymentId,
       userId,
       originalAmount,
-      discountAmount,
-      finalAmount
+      discountAmount: evaluation.discountAmount,
+      finalAmount: evaluation.finalAmount
     });
 
-    return { discountAmount, finalAmount };
+    return { discountAmount: evaluation.discountAmount, finalAmount: evaluation.finalAmount };
   } catch (error) {
     logger.error('Apply coupon to payment error:', error);
     throw error;
@@ -993,6 +980,99 @@ export const bulkUpdateCoupons = async (req: AuthRequest, res: Response, next: N
   }
 };
 
+/**
+ * Generate a campaign of unique single-use codes (Admin only)
+ * @route POST /api/coupons/campaigns
+ */
+export const createCampaign = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const campaign = await couponCampaignService.createCampaign(req.body, userId);
+
+    res.status(201).json({
+      status: 'success',
+      message: `${campaign.code_count} codes generated`,
+      data: {
+        campaign
+      }
+    });
+  } catch (error) {
+    logger.error('Create coupon campaign error:', error);
+    next(error);
+  }
+};
+
+/**
+ * List campaigns with their redemption (Admin only)
+ * @route GET /api/coupons/campaigns
+ */
+export const getCampaigns = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const campaigns = await couponCampaignService.listCampaigns();
+
+    res.status(200).json({
+      status: 'success',
+      results: campaigns.length,
+      data: {
+        campaigns
+      }
+    });
+  } catch (error) {
+    logger.error('Get coupon campaigns error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Download a campaign's codes as CSV (Admin only)
+ * @route GET /api/coupons/campaigns/:id/export
+ */
+export const exportCampaign = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { campaign, csv } = await couponCampaignService.exportCampaignCsv(req.params.id);
+    const filename = `campaign-${(campaign.code_prefix || campaign.id.slice(0, 8)).toLowerCase()}-${moment().format('YYYYMMDD')}.csv`;
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.status(200).send(csv);
+  } catch (error) {
+    logger.error('Export coupon campaign error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Deactivate a campaign and all of its codes (Admin only)
+ * @route PATCH /api/coupons/campaigns/:id/deactivate
+ */
+export const deactivateCampaign = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const { deactivatedCodes } = await couponCampaignService.deactivateCampaign(req.params.id, userId);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Campaign deactivated',
+      data: {
+        deactivatedCodes
+      }
+    });
+  } catch (error) {
+    logger.error('Deactivate coupon campaign error:', error);
+    next(error);
+  }
+};
+
 export default {
   createCoupon,
   getAllCoupons,
@@ -1003,5 +1083,9 @@ export default {
   getCouponUsage,
   getCouponStats,
   applyCouponToPayment,
-  bulkUpdateCoupons
+  bulkUpdateCoupons,
+  createCampaign,
+  getCampaigns,
+  exportCampaign,
+  deactivateCampaign
 };
\ No newline at end of file
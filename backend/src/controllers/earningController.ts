@@ -0,0 +1,159 @@
+// src/controllers/earningController.ts
+import { Request, Response, NextFunction } from 'express';
+import moment from 'moment';
+import AppError from '../utils/appError';
+import logger from '../utils/logger';
+import earningService from '../services/earningService';
+import { UserRole } from '../types';
+
+interface AuthRequest extends Request {
+  user?: {
+    id: string;
+    role: UserRole;
+  };
+}
+
+/**
+ * Teachers see their own earnings; admins pick a teacher with ?teacherId=
+ */
+const resolveTeacherId = (req: AuthRequest): string | undefined =>
+  req.user?.role === 'admin' && req.query.teacherId ? String(req.query.teacherId) : req.user?.id;
+
+/**
+ * Get the earnings summary of the current teacher
+ * @route GET /api/earnings/summary
+ */
+export const getSummary = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const teacherId = resolveTeacherId(req);
+
+    if (!teacherId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const summary = await earningService.getSummary(teacherId);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        summary
+      }
+    });
+  } catch (error) {
+    logger.error('Get earnings summary error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Get the payout statement of the current teacher for a month
+ * @route GET /api/earnings/statements/:period
+ */
+export const getStatement = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const teacherId = resolveTeacherId(req);
+
+    if (!teacherId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const statement = await earningService.getStatement(teacherId, req.params.period);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        statement
+      }
+    });
+  } catch (error) {
+    logger.error('Get earnings statement error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Download the payout statement of the current teacher for a month as CSV
+ * @route GET /api/earnings/statements/:period/download
+ */
+export const downloadStatement = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const teacherId = resolveTeacherId(req);
+
+    if (!teacherId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const statement = await earningService.getStatement(teacherId, req.params.period);
+    const filename = `earnings-${moment(statement.period, 'YYYY-MM').format('YYYYMM')}.csv`;
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.status(200).send(earningService.statementToCsv(statement));
+  } catch (error) {
+    logger.error('Download earnings statement error:', error);
+    next(error);
+  }
+};
+
+/**
+ * List every teacher's statement totals for a month (Admin only)
+ * @route GET /api/earnings/admin/statements
+ */
+export const listStatements = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const period = (req.query.period as string) || moment().subtract(1, 'month').format('YYYY-MM');
+    const statements = await earningService.listStatements(period);
+
+    res.status(200).json({
+      status: 'success',
+      results: statements.length,
+      data: {
+        period,
+        statements
+      }
+    });
+  } catch (error) {
+    logger.error('List earnings statements error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Record the payout of a teacher's statement for a closed month (Admin only)
+ * @route POST /api/earnings/admin/payouts
+ */
+export const createPayout = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { teacherId, period, reference, note } = req.body;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const payout = await earningService.recordPayout(teacherId, period, {
+      reference,
+      note,
+      paidBy: userId
+    });
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Payout recorded',
+      data: {
+        payout
+      }
+    });
+  } catch (error) {
+    logger.error('Create payout error:', error);
+    next(error);
+  }
+};
+
+export default {
+  getSummary,
+  getStatement,
+  downloadStatement,
+  listStatements,
+  createPayout
+};
@@ -144,6 +144,7 @@ export const getUserEnrollments = async (req: AuthRequest, res: Response, next:
              c.thumbnail_url,
              c.level,
              c.category,
+             c.teacher_id,
              u.first_name as teacher_first_name,
              u.last_name as teacher_last_name
       FROM enrollments e
@@ -1,6 +1,9 @@
 // src/controllers/lectureController.ts - PERFECT VERSION
 import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
 import db from '../db';
+import { indexLecture } from '../services/ragService';
+import { isEnrolled } from '../services/enrollmentService';
 import AppError from '../utils/appError';
 import logger from '../utils/logger';
 
@@ -40,6 +43,22 @@ interface LectureRow {
   [key: string]: any;
 }
 
+/**
+ * Refresh the AI chat retrieval index of a lecture in the background.
+ * Indexing calls the embedding API, so the request does not wait for it.
+ */
+const reindexLecture = (lectureId: string): void => {
+  indexLecture(lectureId).catch((error) => {
+    logger.error('Lecture indexing error:', error);
+  });
+};
+
+/**
+ * Lecture resources are stored as a JSON array
+ */
+const serializeResources = (resources: unknown): string | null =>
+  resources === undefined || resources === null ? null : JSON.stringify(resources);
+
 interface ProgressRow {
   id: string;
   user_id: string;
@@ -57,7 +76,7 @@ interface ProgressRow {
 export const createLecture = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { courseId } = req.params;
-    const { title, description, contentType, contentUrl, orderIndex, duration } = req.body;
+    const { title, description, contentType, contentUrl, orderIndex, duration, transcript, resources } = req.body;
     const userId = req.user?.id;
 
     if (!userId) {
@@ -80,15 +99,29 @@ export const createLecture = async (req: AuthRequest, res: Response, next: NextF
       return next(new AppError('You do not have permission to create lectures', 403));
     }
 
-    const result = await db.query<LectureRow>(
-      `INSERT INTO lectures (course_id, title, description, content_type, content_url, order_index, duration) 
-       VALUES ($1, $2, $3, $4, $5, $6, $7) 
-       RETURNING *`,
-      [courseId, title, description, contentType, contentUrl, orderIndex, duration]
+    const lectureId = uuidv4();
+    await db.query(
+      `INSERT INTO lectures (id, course_id, title, description, content_type, content_url, order_index, duration, transcript, resources) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+      [
+        lectureId,
+        courseId,
+        title,
+        description ?? null,
+        contentType,
+        contentUrl ?? null,
+        orderIndex,
+        duration ?? 0,
+        transcript ?? null,
+        serializeResources(resources)
+      ]
     );
 
+    const result = await db.query<LectureRow>('SELECT * FROM lectures WHERE id = $1', [lectureId]);
     const lecture = result.rows[0];
 
+    reindexLecture(lectureId);
+
     res.status(201).json({
       status: 'success',
       data: {
@@ -121,12 +154,7 @@ export const getLecturesByCourse = async (req: AuthRequest, res: Response, next:
 
     // For published courses, check if user is enrolled (for students)
     if (course.status === 'published' && req.user?.role === 'student') {
-      const enrollmentResult = await db.query(
-        'SELECT * FROM enrollments WHERE user_id = $1 AND course_id = $2',
-        [userId, courseId]
-      );
-
-      if (enrollmentResult.rows.length === 0) {
+      if (!(await isEnrolled(req.user.id, courseId))) {
         return next(new AppError('You are not enrolled in this course', 403));
       }
     }
@@ -204,12 +232,7 @@ export const getLectureById = async (req: AuthRequest, res: Response, next: Next
     // Check access permissions
     if (req.user?.role === 'student') {
       // Check if enrolled and lecture is published
-      const enrollmentResult = await db.query(
-        'SELECT * FROM enrollments WHERE user_id = $1 AND course_id = $2',
-        [userId, lecture.course_id]
-      );
-
-      if (enrollmentResult.rows.length === 0) {
+      if (!(await isEnrolled(userId, lecture.course_id))) {
         return next(new AppError('You are not enrolled in this course', 403));
       }
 
@@ -264,9 +287,9 @@ export const updateLecture = async (req: AuthRequest, res: Response, next: NextF
       return next(new AppError('You do not have permission to update lectures', 403));
     }
 
-    const { title, description, contentType, contentUrl, orderIndex, duration } = req.body;
+    const { title, description, contentType, contentUrl, orderIndex, duration, transcript, resources } = req.body;
 
-    const result = await db.query<LectureRow>(
+    await db.query(
       `UPDATE lectures 
        SET title = COALESCE($1, title),
            description = COALESCE($2, description),
@@ -274,12 +297,27 @@ export const updateLecture = async (req: AuthRequest, res: Response, next: NextF
            content_url = COALESCE($4, content_url),
            order_index = COALESCE($5, order_index),
            duration = COALESCE($6, duration),
+           transcript = COALESCE($7, transcript),
+           resources = COALESCE($8, resources),
            updated_at = NOW()
-       WHERE id = $7
-       RETURNING *`,
-      [title, description, contentType, contentUrl, orderIndex, duration, id]
+       WHERE id = $9`,
+      [
+        title ?? null,
+        description ?? null,
+        contentType ?? null,
+        contentUrl ?? null,
+        orderIndex ?? null,
+        duration ?? null,
+        transcript ?? null,
+        serializeResources(resources),
+        id
+      ]
     );
 
+    const result = await db.query<LectureRow>('SELECT * FROM lectures WHERE id = $1', [id]);
+
+    reindexLecture(id);
+
     res.status(200).json({
       status: 'success',
       data: {
@@ -423,12 +461,7 @@ export const updateLectureProgress = async (req: AuthRequest, res: Response, nex
     const lecture = lectureResult.rows[0];
 
     // Check enrollment
-    const enrollmentResult = await db.query(
-      'SELECT * FROM enrollments WHERE user_id = $1 AND course_id = $2',
-      [userId, lecture.course_id]
-    );
-
-    if (enrollmentResult.rows.length === 0) {
+    if (!(await isEnrolled(userId, lecture.course_id))) {
       return next(new AppError('You are not enrolled in this course', 403));
     }
 
@@ -1,9 +1,12 @@
 // src/controllers/messageController.ts
 import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
 import db from '../db';
 import AppError from '../utils/appError';
 import logger from '../utils/logger';
-import { UserRole } from '@/types';
+import notificationService from '../services/notificationService';
+import socketService from '../services/socketService';
+import { UserRole, Message, MessageRow } from '@/types';
 
 export interface MessageRequest extends Request {
   body: {
@@ -11,16 +14,193 @@ export interface MessageRequest extends Request {
     courseId?: string;
     subject: string;
     content: string;
+    priority?: string;
+    messageType?: string;
+    attachments?: string[];
   };
 }
 
+interface AuthenticatedRequest extends Request {
+  user?: {
+    id: string;
+    role: UserRole;
+  };
+}
+
+// Columns selected together with a message so the sender/recipient names can be shown
+const MESSAGE_SELECT = `
+  SELECT m.*,
+         s.first_name as sender_first_name,
+         s.last_name as sender_last_name,
+         r.first_name as recipient_first_name,
+         r.last_name as recipient_last_name,
+         c.title as course_title
+  FROM messages m
+  JOIN users s ON m.sender_id = s.id
+  JOIN users r ON m.recipient_id = r.id
+  LEFT JOIN courses c ON m.course_id = c.id`;
+
+// A message is visible to a participant until that participant deletes it.
+// Takes two placeholders (both bound to the user id) starting at `first`.
+const visibleToUser = (first: number = 1): string => `((m.sender_id = $${first} AND m.deleted_by_sender = false)
+  OR (m.recipient_id = $${first + 1} AND m.deleted_by_recipient = false))`;
+
+const parseAttachments = (attachments: MessageRow['attachments']): string[] => {
+  if (!attachments) return [];
+  if (Array.isArray(attachments)) return attachments;
+
+  try {
+    const parsed = JSON.parse(attachments);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Map a database row to the API shape
+ */
+const toMessage = (row: MessageRow): Message => ({
+  id: row.id,
+  senderId: row.sender_id,
+  recipientId: row.recipient_id,
+  courseId: row.course_id ?? undefined,
+  subject: row.subject,
+  content: row.content,
+  messageType: row.message_type,
+  priority: row.priority,
+  parentMessageId: row.parent_message_id ?? undefined,
+  attachments: parseAttachments(row.attachments),
+  isRead: Boolean(row.is_read),
+  createdAt: new Date(row.created_at),
+  readAt: row.read_at ? new Date(row.read_at) : undefined,
+  senderName: row.sender_first_name ? `${row.sender_first_name} ${row.sender_last_name}` : undefined,
+  recipientName: row.recipient_first_name ? `${row.recipient_first_name} ${row.recipient_last_name}` : undefined,
+  courseTitle: row.course_title ?? undefined
+});
+
+/**
+ * Find a message the user is allowed to see (as sender or recipient)
+ */
+const findVisibleMessage = async (messageId: string, userId: string): Promise<MessageRow | null> => {
+  const result = await db.query<MessageRow>(
+    `${MESSAGE_SELECT}
+     WHERE ${visibleToUser()} AND m.id = $3`,
+    [userId, userId, messageId]
+  );
+
+  return result.rows[0] ?? null;
+};
+
+/**
+ * Insert a message and return the stored row
+ */
+const createMessage = async (data: {
+  senderId: string;
+  recipientId: string;
+  courseId?: string | null;
+  subject: string;
+  content: string;
+  messageType?: string;
+  priority?: string;
+  parentMessageId?: string | null;
+  attachments?: string[];
+}): Promise<MessageRow> => {
+  const messageId = uuidv4();
+
+  await db.query(
+    `INSERT INTO messages (id, sender_id, recipient_id, course_id, subject, content, message_type, priority, parent_message_id, attachments)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+    [
+      messageId,
+      data.senderId,
+      data.recipientId,
+      data.courseId || null,
+      data.subject,
+      data.content,
+      data.messageType || 'general',
+      data.priority || 'normal',
+      data.parentMessageId || null,
+      data.attachments && data.attachments.length > 0 ? JSON.stringify(data.attachments) : null
+    ]
+  );
+
+  const result = await db.query<MessageRow>(`${MESSAGE_SELECT} WHERE m.id = $1`, [messageId]);
+  return result.rows[0];
+};
+
+/**
+ * Push a new message to both participants over WebSocket and create the recipient's notification
+ */
+const deliverMessage = async (message: MessageRow): Promise<void> => {
+  const payload = toMessage(message);
+  socketService.emitToUser(message.recipient_id, 'message:new', payload);
+  // The sender's other open tabs show the message too
+  socketService.emitToUser(message.sender_id, 'message:new', payload);
+
+  const recipientResult = await db.query('SELECT role FROM users WHERE id = $1', [message.recipient_id]);
+  const recipientRole = recipientResult.rows[0]?.role;
+
+  await notificationService.notify({
+    userId: message.recipient_id,
+    type: 'message',
+    title: 'New message',
+    message: `${message.sender_first_name} ${message.sender_last_name} sent you a message: ${message.subject}`,
+    referenceType: 'message',
+    referenceId: message.id,
+    // Admins have no messages page in the dashboard
+    link: recipientRole && recipientRole !== 'admin' ? `/dashboard/${recipientRole}/messages` : undefined
+  });
+};
+
+/**
+ * Send read receipts to the senders of messages the reader just opened
+ */
+const sendReadReceipts = (readerId: string, messages: { id: string; sender_id: string }[]): void => {
+  const bySender = new Map<string, string[]>();
+  messages.forEach((message) => {
+    bySender.set(message.sender_id, [...(bySender.get(message.sender_id) || []), message.id]);
+  });
+
+  const readAt = new Date();
+  bySender.forEach((messageIds, senderId) => {
+    socketService.emitToUser(senderId, 'message:read', { messageIds, readerId, readAt });
+  });
+};
+
+/**
+ * Hide messages for the user; rows are removed once both participants deleted them
+ */
+const deleteMessagesForUser = async (userId: string, messageIds: string[]): Promise<number> => {
+  const idList = messageIds.map((_, index) => `$${index + 2}`).join(', ');
+
+  const sent = await db.query(
+    `UPDATE messages SET deleted_by_sender = true
+     WHERE sender_id = $1 AND deleted_by_sender = false AND id IN (${idList})`,
+    [userId, ...messageIds]
+  );
+  const received = await db.query(
+    `UPDATE messages SET deleted_by_recipient = true
+     WHERE recipient_id = $1 AND deleted_by_recipient = false AND id IN (${idList})`,
+    [userId, ...messageIds]
+  );
+  await db.query(
+    `DELETE FROM messages
+     WHERE deleted_by_sender = true AND deleted_by_recipient = true
+       AND id IN (${messageIds.map((_, index) => `$${index + 1}`).join(', ')})`,
+    messageIds
+  );
+
+  return sent.rowCount + received.rowCount;
+};
+
 /**
  * Send a message
  * @route POST /api/messages
  */
 export const sendMessage = async (req: MessageRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { recipientId, courseId, subject, content } = req.body;
+    const { recipientId, courseId, subject, content, priority, messageType, attachments } = req.body;
     const senderId = req.user?.id;
 
     if (!senderId) {
@@ -29,7 +209,7 @@ export const sendMessage = async (req: MessageRequest, res: Response, next: Next
 
     // Check if recipient exists
     const recipientResult = await db.query('SELECT * FROM users WHERE id = $1', [recipientId]);
-    
+
     if (recipientResult.rows.length === 0) {
       return next(new AppError('Recipient not found', 404));
     }
@@ -37,23 +217,29 @@ export const sendMessage = async (req: MessageRequest, res: Response, next: Next
     // If courseId is provided, check if both users have access to the course
     if (courseId) {
       const courseResult = await db.query('SELECT * FROM courses WHERE id = $1', [courseId]);
-      
+
       if (courseResult.rows.length === 0) {
         return next(new AppError('Course not found', 404));
       }
     }
 
-    const result = await db.query(
-      `INSERT INTO messages (sender_id, recipient_id, course_id, subject, content) 
-       VALUES ($1, $2, $3, $4, $5) 
-       RETURNING *`,
-      [senderId, recipientId, courseId, subject, content]
-    );
+    const message = await createMessage({
+      senderId,
+      recipientId,
+      courseId,
+      subject,
+      content,
+      priority,
+      messageType,
+      attachments
+    });
+
+    await deliverMessage(message);
 
     res.status(201).json({
       status: 'success',
       data: {
-        message: result.rows[0]
+        message: toMessage(message)
       }
     });
   } catch (error) {
@@ -66,13 +252,6 @@ export const sendMessage = async (req: MessageRequest, res: Response, next: Next
  * Get user's messages
  * @route GET /api/messages
  */
-interface AuthenticatedRequest extends Request {
-  user?: {
-    id: string;
-    role: UserRole;
-  };
-}
-
 export const getUserMessages = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const userId = req.user?.id;
@@ -84,32 +263,27 @@ export const getUserMessages = async (req: AuthenticatedRequest, res: Response,
 
     const offset = (parseInt(page) - 1) * parseInt(limit);
     let whereClause = '';
+    let params: any[] = [];
 
-    if (type === 'sent') {
-      whereClause = 'WHERE m.sender_id = $1';
-    } else if (type === 'received') {
-      whereClause = 'WHERE m.recipient_id = $1';
+    if (type === 'sent' || type === 'outbox') {
+      whereClause = 'WHERE m.sender_id = $1 AND m.deleted_by_sender = false';
+      params = [userId];
+    } else if (type === 'received' || type === 'inbox') {
+      whereClause = 'WHERE m.recipient_id = $1 AND m.deleted_by_recipient = false';
+      params = [userId];
     } else {
-      whereClause = 'WHERE (m.sender_id = $1 OR m.recipient_id = $1)';
+      whereClause = `WHERE ${visibleToUser()}`;
+      params = [userId, userId];
     }
 
     const query = `
-      SELECT m.*, 
-             s.first_name as sender_first_name,
-             s.last_name as sender_last_name,
-             r.first_name as recipient_first_name,
-             r.last_name as recipient_last_name,
-             c.title as course_title
-      FROM messages m
-      JOIN users s ON m.sender_id = s.id
-      JOIN users r ON m.recipient_id = r.id
-      LEFT JOIN courses c ON m.course_id = c.id
+      ${MESSAGE_SELECT}
       ${whereClause}
       ORDER BY m.created_at DESC
-      LIMIT $2 OFFSET $3
+      LIMIT $${params.length + 1} OFFSET $${params.length + 2}
     `;
 
-    const result = await db.query(query, [userId, parseInt(limit), offset]);
+    const result = await db.query(query, [...params, parseInt(limit), offset]);
 
     res.status(200).json({
       status: 'success',
@@ -124,6 +298,54 @@ export const getUserMessages = async (req: AuthenticatedRequest, res: Response,
   }
 };
 
+/**
+ * Get a message together with its thread (parent and replies)
+ * @route GET /api/messages/:id
+ */
+export const getMessageById = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const message = await findVisibleMessage(id, userId);
+
+    if (!message) {
+      return next(new AppError('Message not found', 404));
+    }
+
+    const parent = message.parent_message_id
+      ? await findVisibleMessage(message.parent_message_id, userId)
+      : null;
+
+    const repliesResult = await db.query<MessageRow>(
+      `${MESSAGE_SELECT}
+       WHERE ${visibleToUser()} AND m.parent_message_id = $3
+       ORDER BY m.created_at ASC`,
+      [userId, userId, id]
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        message: toMessage(message),
+        parent: parent ? toMessage(parent) : null,
+        replies: repliesResult.rows.map(toMessage)
+      }
+    });
+  } catch (error) {
+    logger.error('Get message error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Mark message as read
+ * @route PATCH /api/messages/:id/read
+ */
 export const markMessageAsRead = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     const { id } = req.params;
@@ -135,26 +357,32 @@ export const markMessageAsRead = async (req: AuthenticatedRequest, res: Response
 
     // Check if message exists and user is the recipient
     const messageResult = await db.query('SELECT * FROM messages WHERE id = $1', [id]);
-    
+
     if (messageResult.rows.length === 0) {
       return next(new AppError('Message not found', 404));
     }
 
-    const message = messageResult.rows[0] as { recipient_id: string };
+    const message = messageResult.rows[0] as { id: string; sender_id: string; recipient_id: string; is_read: number };
 
     if (message.recipient_id !== userId) {
       return next(new AppError('You can only mark your own messages as read', 403));
     }
 
-    const result = await db.query(
-      'UPDATE messages SET read_at = NOW() WHERE id = $1 RETURNING *',
+    await db.query(
+      'UPDATE messages SET is_read = true, read_at = COALESCE(read_at, NOW()) WHERE id = $1',
       [id]
     );
 
+    if (!message.is_read) {
+      sendReadReceipts(userId, [message]);
+    }
+
+    const result = await db.query<MessageRow>(`${MESSAGE_SELECT} WHERE m.id = $1`, [id]);
+
     res.status(200).json({
       status: 'success',
       data: {
-        message: result.rows[0]
+        message: toMessage(result.rows[0])
       }
     });
   } catch (error) {
@@ -163,8 +391,618 @@ export const markMessageAsRead = async (req: AuthenticatedRequest, res: Response
   }
 };
 
+/**
+ * Mark message as unread
+ * @route PATCH /api/messages/:id/unread
+ */
+export const markMessageAsUnread = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const messageResult = await db.query('SELECT recipient_id FROM messages WHERE id = $1', [id]);
+
+    if (messageResult.rows.length === 0) {
+      return next(new AppError('Message not found', 404));
+    }
+
+    if (messageResult.rows[0].recipient_id !== userId) {
+      return next(new AppError('You can only mark your own messages as unread', 403));
+    }
+
+    await db.query('UPDATE messages SET is_read = false, read_at = NULL WHERE id = $1', [id]);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Message marked as unread'
+    });
+  } catch (error) {
+    logger.error('Mark message as unread error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Delete message for the current user
+ * @route DELETE /api/messages/:id
+ */
+export const deleteMessage = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const deletedCount = await deleteMessagesForUser(userId, [id]);
+
+    if (deletedCount === 0) {
+      return next(new AppError('Message not found', 404));
+    }
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Message deleted successfully'
+    });
+  } catch (error) {
+    logger.error('Delete message error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Reply to a message
+ * @route POST /api/messages/:id/reply
+ */
+export const replyToMessage = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { content, includeOriginal = false } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const original = await findVisibleMessage(id, userId);
+
+    if (!original) {
+      return next(new AppError('Message not found', 404));
+    }
+
+    // Replying to your own message continues the thread with the same recipient
+    const recipientId = original.sender_id === userId ? original.recipient_id : original.sender_id;
+    const subject = /^re:/i.test(original.subject) ? original.subject : `Re: ${original.subject}`;
+    const replyContent = includeOriginal === true || includeOriginal === 'true'
+      ? `${content}\n\n--- Original message from ${original.sender_first_name} ${original.sender_last_name} ---\n${original.content}`
+      : content;
+
+    const reply = await createMessage({
+      senderId: userId,
+      recipientId,
+      courseId: original.course_id,
+      subject: subject.slice(0, 255),
+      content: replyContent,
+      messageType: original.message_type,
+      parentMessageId: original.id
+    });
+
+    await deliverMessage(reply);
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Reply sent successfully',
+      data: {
+        message: toMessage(reply),
+        originalMessageId: original.id
+      }
+    });
+  } catch (error) {
+    logger.error('Reply to message error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Forward a message to other users, keeping its attachments
+ * @route POST /api/messages/:id/forward
+ */
+export const forwardMessage = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { additionalMessage } = req.body;
+    const recipientIds: string[] = Array.from(new Set(req.body.recipientIds as string[]));
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    if (recipientIds.includes(userId)) {
+      return next(new AppError('Cannot forward a message to yourself', 400));
+    }
+
+    const original = await findVisibleMessage(id, userId);
+
+    if (!original) {
+      return next(new AppError('Message not found', 404));
+    }
+
+    const recipientsResult = await db.query(
+      `SELECT id FROM users WHERE id IN (${recipientIds.map((_, index) => `$${index + 1}`).join(', ')})`,
+      recipientIds
+    );
+
+    if (recipientsResult.rows.length !== recipientIds.length) {
+      return next(new AppError('One or more recipients were not found', 404));
+    }
+
+    const subject = /^fwd:/i.test(original.subject) ? original.subject : `Fwd: ${original.subject}`;
+    const forwardedContent = [
+      additionalMessage,
+      '---------- Forwarded message ----------',
+      `From: ${original.sender_first_name} ${original.sender_last_name}`,
+      `Date: ${new Date(original.created_at).toISOString()}`,
+      `Subject: ${original.subject}`,
+      '',
+      original.content
+    ].filter((line) => line !== undefined && line !== null).join('\n');
+
+    const forwarded: MessageRow[] = [];
+
+    for (const recipientId of recipientIds) {
+      const message = await createMessage({
+        senderId: userId,
+        recipientId,
+        courseId: original.course_id,
+        subject: subject.slice(0, 255),
+        content: forwardedContent,
+        messageType: original.message_type,
+        priority: original.priority,
+        attachments: parseAttachments(original.attachments)
+      });
+      forwarded.push(message);
+      await deliverMessage(message);
+    }
+
+    res.status(201).json({
+      status: 'success',
+      message: 'Message forwarded successfully',
+      data: {
+        forwardedTo: forwarded.length,
+        originalMessageId: original.id,
+        messages: forwarded.map(toMessage)
+      }
+    });
+  } catch (error) {
+    logger.error('Forward message error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Mark multiple messages as read
+ * @route PATCH /api/messages/bulk/mark-read
+ */
+export const bulkMarkAsRead = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const messageIds: string[] = req.body.messageIds;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    // Only messages received by the user can be marked as read
+    const idList = messageIds.map((_, index) => `$${index + 2}`).join(', ');
+    const unreadResult = await db.query(
+      `SELECT id, sender_id FROM messages WHERE recipient_id = $1 AND is_read = false AND id IN (${idList})`,
+      [userId, ...messageIds]
+    );
+
+    const result = await db.query(
+      `UPDATE messages SET is_read = true, read_at = NOW()
+       WHERE recipient_id = $1 AND is_read = false AND id IN (${idList})`,
+      [userId, ...messageIds]
+    );
+
+    sendReadReceipts(userId, unreadResult.rows as { id: string; sender_id: string }[]);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Messages marked as read',
+      data: {
+        updatedCount: result.rowCount
+      }
+    });
+  } catch (error) {
+    logger.error('Bulk mark messages as read error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Delete multiple messages for the current user
+ * @route DELETE /api/messages/bulk/delete
+ */
+export const bulkDeleteMessages = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const messageIds: string[] = req.body.messageIds;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const deletedCount = await deleteMessagesForUser(userId, messageIds);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Messages deleted successfully',
+      data: {
+        deletedCount
+      }
+    });
+  } catch (error) {
+    logger.error('Bulk delete messages error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Get the list of conversations (one per conversation partner)
+ * @route GET /api/messages/conversations
+ */
+export const getConversations = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const result = await db.query(
+      `SELECT conv.partner_id, conv.last_message_at, conv.unread_count,
+              u.first_name, u.last_name, u.role, u.profile_picture,
+              (SELECT lm.id FROM messages lm
+                WHERE (lm.sender_id = $1 AND lm.recipient_id = conv.partner_id AND lm.deleted_by_sender = false)
+                   OR (lm.recipient_id = $2 AND lm.sender_id = conv.partner_id AND lm.deleted_by_recipient = false)
+                ORDER BY lm.created_at DESC LIMIT 1) as last_message_id
+       FROM (
+         SELECT CASE WHEN m.sender_id = $3 THEN m.recipient_id ELSE m.sender_id END as partner_id,
+                MAX(m.created_at) as last_message_at,
+                SUM(CASE WHEN m.recipient_id = $4 AND m.is_read = false THEN 1 ELSE 0 END) as unread_count
+         FROM messages m
+         WHERE (m.sender_id = $5 AND m.deleted_by_sender = false)
+            OR (m.recipient_id = $6 AND m.deleted_by_recipient = false)
+         GROUP BY partner_id
+       ) conv
+       JOIN users u ON u.id = conv.partner_id
+       ORDER BY conv.last_message_at DESC`,
+      [userId, userId, userId, userId, userId, userId]
+    );
+
+    const lastMessageIds = result.rows.map((row: any) => row.last_message_id).filter(Boolean);
+    const lastMessages = new Map<string, MessageRow>();
+
+    if (lastMessageIds.length > 0) {
+      const lastMessagesResult = await db.query<MessageRow>(
+        `SELECT * FROM messages WHERE id IN (${lastMessageIds.map((_: string, index: number) => `$${index + 1}`).join(', ')})`,
+        lastMessageIds
+      );
+      lastMessagesResult.rows.forEach((row) => lastMessages.set(row.id, row));
+    }
+
+    const conversations = result.rows.map((row: any) => {
+      const lastMessage = lastMessages.get(row.last_message_id);
+
+      return {
+        id: row.partner_id,
+        userId: row.partner_id,
+        userName: `${row.first_name} ${row.last_name}`,
+        userRole: row.role,
+        profilePicture: row.profile_picture,
+        lastMessageId: lastMessage?.id,
+        lastMessage: lastMessage?.content ?? '',
+        lastMessageSubject: lastMessage?.subject ?? '',
+        lastMessageFromUser: lastMessage?.sender_id === userId,
+        lastMessageDate: row.last_message_at,
+        unreadCount: parseInt(row.unread_count, 10) || 0
+      };
+    });
+
+    res.status(200).json({
+      status: 'success',
+      results: conversations.length,
+      data: {
+        conversations
+      }
+    });
+  } catch (error) {
+    logger.error('Get conversations error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Get conversation with a specific user; received messages are marked as read
+ * @route GET /api/messages/conversations/:userId
+ */
+export const getConversation = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { userId: participantId } = req.params;
+    const { page = '1', limit = '50' } = req.query as any;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const participantResult = await db.query(
+      'SELECT id, first_name, last_name, role, profile_picture FROM users WHERE id = $1',
+      [participantId]
+    );
+
+    if (participantResult.rows.length === 0) {
+      return next(new AppError('User not found', 404));
+    }
+
+    const participant = participantResult.rows[0];
+    const pageNum = parseInt(page);
+    const limitNum = parseInt(limit);
+    const offset = (pageNum - 1) * limitNum;
+
+    const conversationWhere = `((m.sender_id = $1 AND m.recipient_id = $2 AND m.deleted_by_sender = false)
+      OR (m.sender_id = $3 AND m.recipient_id = $4 AND m.deleted_by_recipient = false))`;
+    const conversationParams = [userId, participantId, participantId, userId];
+
+    const countResult = await db.query(
+      `SELECT COUNT(*) as total FROM messages m WHERE ${conversationWhere}`,
+      conversationParams
+    );
+    const total = parseInt(countResult.rows[0].total);
+
+    // Page from the newest message backwards, then show each page oldest first
+    const result = await db.query<MessageRow>(
+      `${MESSAGE_SELECT}
+       WHERE ${conversationWhere}
+       ORDER BY m.created_at DESC
+       LIMIT $5 OFFSET $6`,
+      [...conversationParams, limitNum, offset]
+    );
+
+    const unreadResult = await db.query(
+      `SELECT id, sender_id FROM messages
+       WHERE sender_id = $1 AND recipient_id = $2 AND is_read = false AND deleted_by_recipient = false`,
+      [participantId, userId]
+    );
+
+    if (unreadResult.rows.length > 0) {
+      await db.query(
+        `UPDATE messages SET is_read = true, read_at = NOW()
+         WHERE sender_id = $1 AND recipient_id = $2 AND is_read = false AND deleted_by_recipient = false`,
+        [participantId, userId]
+      );
+      sendReadReceipts(userId, unreadResult.rows as { id: string; sender_id: string }[]);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        messages: result.rows.reverse().map(toMessage),
+        participant: {
+          id: participant.id,
+          name: `${participant.first_name} ${participant.last_name}`,
+          role: participant.role,
+          profilePicture: participant.profile_picture
+        },
+        totalMessages: total,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum)
+        }
+      }
+    });
+  } catch (error) {
+    logger.error('Get conversation error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Get message statistics for current user
+ * @route GET /api/messages/stats
+ */
+export const getMessageStats = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const countsResult = await db.query(
+      `SELECT
+         SUM(CASE WHEN m.sender_id = $1 THEN 1 ELSE 0 END) as sent_messages,
+         SUM(CASE WHEN m.recipient_id = $2 THEN 1 ELSE 0 END) as received_messages,
+         SUM(CASE WHEN m.recipient_id = $3 AND m.is_read = false THEN 1 ELSE 0 END) as unread_messages,
+         SUM(CASE WHEN m.created_at >= DATE_SUB(NOW(), INTERVAL 7 DAY) THEN 1 ELSE 0 END) as messages_this_week
+       FROM messages m
+       WHERE ${visibleToUser(4)}`,
+      [userId, userId, userId, userId, userId]
+    );
+
+    // Average minutes between receiving a message and replying to it
+    const responseTimeResult = await db.query(
+      `SELECT AVG(TIMESTAMPDIFF(MINUTE, original.created_at, reply.created_at)) as average_response_time
+       FROM messages reply
+       JOIN messages original ON reply.parent_message_id = original.id
+       WHERE reply.sender_id = $1 AND original.recipient_id = $2`,
+      [userId, userId]
+    );
+
+    const counts = countsResult.rows[0];
+    const sentMessages = parseInt(counts.sent_messages) || 0;
+    const receivedMessages = parseInt(counts.received_messages) || 0;
+    const averageResponseTime = responseTimeResult.rows[0].average_response_time;
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        totalMessages: sentMessages + receivedMessages,
+        unreadMessages: parseInt(counts.unread_messages) || 0,
+        sentMessages,
+        receivedMessages,
+        messagesThisWeek: parseInt(counts.messages_this_week) || 0,
+        averageResponseTime: averageResponseTime !== null ? Math.round(Number(averageResponseTime)) : 0
+      }
+    });
+  } catch (error) {
+    logger.error('Get message stats error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Full-text search over the subject and content of the user's messages
+ * @route GET /api/messages/search
+ */
+export const searchMessages = async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const startTime = Date.now();
+    const userId = req.user?.id;
+    const {
+      q,
+      in: searchIn = 'both',
+      from,
+      to,
+      dateRange,
+      startDate,
+      endDate,
+      page = '1',
+      limit = '20'
+    } = req.query as any;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const pageNum = parseInt(page);
+    const limitNum = parseInt(limit);
+    const offset = (pageNum - 1) * limitNum;
+
+    const params: any[] = [userId, userId];
+    const conditions: string[] = [visibleToUser()];
+
+    // Boolean mode: every word must match, each as a prefix; operators typed by the user are dropped
+    const booleanQuery = String(q)
+      .replace(/[+\-<>()~*"@]/g, ' ')
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((term) => `+${term}*`)
+      .join(' ');
+    const useFullText = searchIn === 'both' && booleanQuery.length > 0;
+
+    if (useFullText) {
+      params.push(booleanQuery);
+      conditions.push(`MATCH(m.subject, m.content) AGAINST ($${params.length} IN BOOLEAN MODE)`);
+    } else if (searchIn === 'subject' || searchIn === 'content') {
+      params.push(`%${q}%`);
+      conditions.push(`m.${searchIn} LIKE $${params.length}`);
+    } else {
+      params.push(`%${q}%`, `%${q}%`);
+      conditions.push(`(m.subject LIKE $${params.length - 1} OR m.content LIKE $${params.length})`);
+    }
+
+    if (from) {
+      params.push(from);
+      conditions.push(`m.sender_id = $${params.length}`);
+    }
+
+    if (to) {
+      params.push(to);
+      conditions.push(`m.recipient_id = $${params.length}`);
+    }
+
+    if (dateRange === 'today') {
+      conditions.push('m.created_at >= CURDATE()');
+    } else if (dateRange === 'week') {
+      conditions.push('m.created_at >= DATE_SUB(NOW(), INTERVAL 7 DAY)');
+    } else if (dateRange === 'month') {
+      conditions.push('m.created_at >= DATE_SUB(NOW(), INTERVAL 1 MONTH)');
+    } else if (dateRange === 'year') {
+      conditions.push('m.created_at >= DATE_SUB(NOW(), INTERVAL 1 YEAR)');
+    } else if (dateRange === 'custom') {
+      if (startDate) {
+        params.push(new Date(startDate));
+        conditions.push(`m.created_at >= $${params.length}`);
+      }
+      if (endDate) {
+        params.push(new Date(endDate));
+        conditions.push(`m.created_at <= $${params.length}`);
+      }
+    }
+
+    const whereClause = `WHERE ${conditions.join(' AND ')}`;
+
+    const countResult = await db.query(`SELECT COUNT(*) as total FROM messages m ${whereClause}`, params);
+    const totalResults = parseInt(countResult.rows[0].total);
+
+    const orderParams: any[] = useFullText ? [booleanQuery] : [];
+    const orderClause = useFullText
+      ? `ORDER BY MATCH(m.subject, m.content) AGAINST ($${params.length + 1} IN BOOLEAN MODE) DESC, m.created_at DESC`
+      : 'ORDER BY m.created_at DESC';
+    const paginationStart = params.length + orderParams.length;
+
+    const result = await db.query<MessageRow>(
+      `${MESSAGE_SELECT}
+       ${whereClause}
+       ${orderClause}
+       LIMIT $${paginationStart + 1} OFFSET $${paginationStart + 2}`,
+      [...params, ...orderParams, limitNum, offset]
+    );
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        results: result.rows.map(toMessage),
+        totalResults,
+        searchQuery: q,
+        searchTime: `${Date.now() - startTime}ms`,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total: totalResults,
+          totalPages: Math.ceil(totalResults / limitNum)
+        }
+      }
+    });
+  } catch (error) {
+    logger.error('Search messages error:', error);
+    next(error);
+  }
+};
+
 export default {
   sendMessage,
   getUserMessages,
-  markMessageAsRead
-};
\ No newline at end of file
+  getMessageById,
+  markMessageAsRead,
+  markMessageAsUnread,
+  deleteMessage,
+  replyToMessage,
+  forwardMessage,
+  bulkMarkAsRead,
+  bulkDeleteMessages,
+  getConversations,
+  getConversation,
+  getMessageStats,
+  searchMessages
+};
@@ -0,0 +1,230 @@
+// src/controllers/notificationController.ts
+import { Request, Response, NextFunction } from 'express';
+import db from '../db';
+import AppError from '../utils/appError';
+import logger from '../utils/logger';
+import notificationService from '../services/notificationService';
+import { NotificationModel } from '../types/models';
+import { UserRole } from '../types';
+
+interface AuthRequest extends Request {
+  user?: {
+    id: string;
+    role: UserRole;
+  };
+}
+
+/**
+ * Get notifications for the current user
+ * @route GET /api/notifications
+ */
+export const getNotifications = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { page = '1', limit = '20', unreadOnly = 'false', type } = req.query as any;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const pageNum = parseInt(page);
+    const limitNum = parseInt(limit);
+    const offset = (pageNum - 1) * limitNum;
+
+    let whereClause = 'WHERE user_id = $1';
+    const params: any[] = [userId];
+
+    if (unreadOnly === 'true') {
+      whereClause += ' AND is_read = false';
+    }
+
+    if (type) {
+      params.push(type);
+      whereClause += ` AND type = $${params.length}`;
+    }
+
+    const countResult = await db.query(
+      `SELECT COUNT(*) as total FROM notifications ${whereClause}`,
+      params
+    );
+    const total = parseInt(countResult.rows[0].total);
+
+    const result = await db.query<NotificationModel>(
+      `SELECT * FROM notifications ${whereClause}
+       ORDER BY created_at DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limitNum, offset]
+    );
+
+    const unreadCount = await notificationService.getUnreadCount(userId);
+
+    res.status(200).json({
+      status: 'success',
+      results: result.rows.length,
+      data: {
+        notifications: result.rows.map(notificationService.toNotification),
+        unreadCount,
+        pagination: {
+          page: pageNum,
+          limit: limitNum,
+          total,
+          totalPages: Math.ceil(total / limitNum)
+        }
+      }
+    });
+  } catch (error) {
+    logger.error('Get notifications error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Get unread notification count for the current user
+ * @route GET /api/notifications/unread-count
+ */
+export const getUnreadCount = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const unreadCount = await notificationService.getUnreadCount(userId);
+
+    res.status(200).json({
+      status: 'success',
+      data: { unreadCount }
+    });
+  } catch (error) {
+    logger.error('Get unread notification count error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Mark a notification as read
+ * @route PATCH /api/notifications/:id/read
+ */
+export const markAsRead = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const notificationResult = await db.query<NotificationModel>(
+      'SELECT * FROM notifications WHERE id = $1',
+      [id]
+    );
+
+    if (notificationResult.rows.length === 0) {
+      return next(new AppError('Notification not found', 404));
+    }
+
+    const notification = notificationResult.rows[0];
+
+    if (notification.user_id !== userId) {
+      return next(new AppError('You can only update your own notifications', 403));
+    }
+
+    if (!notification.is_read) {
+      await db.query(
+        'UPDATE notifications SET is_read = true, read_at = NOW() WHERE id = $1',
+        [id]
+      );
+    }
+
+    const updated = await db.query<NotificationModel>('SELECT * FROM notifications WHERE id = $1', [id]);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        notification: notificationService.toNotification(updated.rows[0]),
+        unreadCount: await notificationService.getUnreadCount(userId)
+      }
+    });
+  } catch (error) {
+    logger.error('Mark notification as read error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Mark all notifications of the current user as read
+ * @route PATCH /api/notifications/read-all
+ */
+export const markAllAsRead = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const result = await db.query(
+      'UPDATE notifications SET is_read = true, read_at = NOW() WHERE user_id = $1 AND is_read = false',
+      [userId]
+    );
+
+    res.status(200).json({
+      status: 'success',
+      message: 'All notifications marked as read',
+      data: {
+        updatedCount: result.rowCount,
+        unreadCount: 0
+      }
+    });
+  } catch (error) {
+    logger.error('Mark all notifications as read error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Delete a notification
+ * @route DELETE /api/notifications/:id
+ */
+export const deleteNotification = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const notificationResult = await db.query<NotificationModel>(
+      'SELECT user_id FROM notifications WHERE id = $1',
+      [id]
+    );
+
+    if (notificationResult.rows.length === 0) {
+      return next(new AppError('Notification not found', 404));
+    }
+
+    if (notificationResult.rows[0].user_id !== userId) {
+      return next(new AppError('You can only delete your own notifications', 403));
+    }
+
+    await db.query('DELETE FROM notifications WHERE id = $1', [id]);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Notification deleted successfully'
+    });
+  } catch (error) {
+    logger.error('Delete notification error:', error);
+    next(error);
+  }
+};
+
+export default {
+  getNotifications,
+  getUnreadCount,
+  markAsRead,
+  markAllAsRead,
+  deleteNotification
+};
@@ -0,0 +1,210 @@
+import { Request, Response, NextFunction } from 'express';
+import db from '../db';
+import AppError from '../utils/appError';
+import logger from '../utils/logger';
+import orderService from '../services/orderService';
+import refundService from '../services/refundService';
+import invoiceService from '../services/invoiceService';
+import config from '../config';
+import { OrderRow } from '../types';
+
+interface AuthRequest extends Request {
+  user?: {
+    id: string;
+    role: 'student' | 'teacher' | 'admin';
+  };
+}
+
+/**
+ * Get order history for user
+ * @route GET /api/orders
+ */
+export const getOrders = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 10;
+    const status = req.query.status as string;
+    const offset = (page - 1) * limit;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    let whereClause = 'WHERE o.user_id = $1';
+    const params: any[] = [userId];
+
+    if (status) {
+      whereClause += ' AND o.status = $2';
+      params.push(status);
+    }
+
+    const result = await db.query<OrderRow>(
+      `SELECT o.*, (SELECT COUNT(*) FROM order_items oi WHERE oi.order_id = o.id) as item_count
+       FROM orders o
+       ${whereClause}
+       ORDER BY o.created_at DESC
+       LIMIT ${limit} OFFSET ${offset}`,
+      params
+    );
+
+    const countResult = await db.query<{ total: number }>(
+      `SELECT COUNT(*) as total FROM orders o ${whereClause}`,
+      params
+    );
+
+    const total = Number(countResult.rows[0]?.total ?? 0);
+
+    res.status(200).json({
+      status: 'success',
+      results: result.rows.length,
+      totalPages: Math.ceil(total / limit),
+      currentPage: page,
+      data: {
+        orders: result.rows
+      }
+    });
+  } catch (error) {
+    logger.error('Get orders error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Get order details with its line items
+ * @route GET /api/orders/:id
+ */
+export const getOrderById = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const found = await orderService.findOrder({ id });
+
+    if (!found) {
+      return next(new AppError('Order not found', 404));
+    }
+
+    // Users can only view their own orders, admins can view all
+    if (req.user?.role !== 'admin' && found.order.user_id !== userId) {
+      return next(new AppError('You do not have permission to view this order', 403));
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        order: found.order,
+        items: found.items
+      }
+    });
+  } catch (error) {
+    logger.error('Get order by ID error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Refund a cart order through its gateway: the whole order, an amount, or selected courses (Admin only)
+ * @route POST /api/orders/:id/refund
+ */
+export const refundOrder = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { amount, courseIds, reason, enrollmentAction } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const refund = await refundService.refundOrder(id, {
+      amount,
+      courseIds,
+      reason,
+      enrollmentAction,
+      requestedBy: userId,
+      ipAddress: req.ip || req.connection.remoteAddress || '127.0.0.1'
+    });
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        refund
+      }
+    });
+  } catch (error) {
+    logger.error('Refund order error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Get the refunds of an order (Admin only)
+ * @route GET /api/orders/:id/refunds
+ */
+export const getOrderRefunds = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const refunds = await refundService.getRefunds({ orderId: req.params.id });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        refunds
+      }
+    });
+  } catch (error) {
+    logger.error('Get order refunds error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Download the invoice of a completed order as PDF, issuing it if it was not yet
+ * @route GET /api/orders/:id/invoice
+ */
+export const downloadOrderInvoice = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    if (!config.invoice.enabled) {
+      return next(new AppError('Invoices are not available', 404));
+    }
+
+    const orderResult = await db.query<OrderRow>('SELECT * FROM orders WHERE id = $1', [id]);
+
+    if (orderResult.rows.length === 0) {
+      return next(new AppError('Order not found', 404));
+    }
+
+    if (req.user?.role !== 'admin' && orderResult.rows[0].user_id !== userId) {
+      return next(new AppError('You do not have permission to view this invoice', 403));
+    }
+
+    const invoice = await invoiceService.issueInvoice('order', id);
+    const pdf = await invoiceService.getInvoicePdf(invoice);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoice_number}.pdf"`);
+    res.status(200).send(pdf);
+  } catch (error) {
+    logger.error('Download order invoice error:', error);
+    next(error);
+  }
+};
+
+export default {
+  getOrders,
+  getOrderById,
+  refundOrder,
+  getOrderRefunds,
+  downloadOrderInvoice
+};
@@ -4,8 +4,20 @@ import moment from 'moment';
 import db from '../db';
 import AppError from '../utils/appError';
 import logger from '../utils/logger';
-import vnpayService, { VNPayPaymentData, VNPayReturnData } from '../services/vnpayService';
+import { getPaymentGateway, listPaymentGateways, PaymentGateway, WebhookOutcome } from '../services/paymentGateway';
+import paymentSettlementService from '../services/paymentSettlementService';
+import refundService from '../services/refundService';
+import reconciliationService from '../services/reconciliationService';
+import invoiceService from '../services/invoiceService';
+import { findOwnedCourseIds, grantPaidEnrollment } from '../services/enrollmentService';
+import {
+  applyCoupons,
+  finalizeCouponUsage,
+  releaseCouponUsage,
+  reserveCouponUsages
+} from '../services/couponService';
 import config from '../config';
+import { PaymentRow } from '../types';
 
 interface AuthRequest extends Request {
   user?: {
@@ -14,28 +26,14 @@ interface AuthRequest extends Request {
   };
 }
 
-interface PaymentRow {
-  id: string;
-  user_id: string;
-  course_id: string;
-  order_id: string;
-  amount: number;
-  currency: string;
-  payment_method: string;
-  payment_status: string;
-  transaction_id?: string;
-  payment_date?: string;
-  created_at: string;
-  updated_at: string;
-  [key: string]: any;
-}
-
 interface CourseRow {
   id: string;
   title: string;
   price: number;
   status: string;
   teacher_id: string;
+  category?: string | null;
+  category_id?: string | null;
   [key: string]: any;
 }
 
@@ -45,7 +43,7 @@ interface CourseRow {
  */
 export const createPayment = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const { courseId, bankCode } = req.body;
+    const { courseId, paymentMethod, bankCode, couponCode } = req.body;
     const userId = req.user?.id;
     const ipAddress = req.ip || req.connection.remoteAddress || '127.0.0.1';
 
@@ -69,13 +67,8 @@ export const createPayment = async (req: AuthRequest, res: Response, next: NextF
 
     const course = courseResult.rows[0];
 
-    // Check if user is already enrolled
-    const enrollmentResult = await db.query(
-      'SELECT * FROM enrollments WHERE user_id = $1 AND course_id = $2',
-      [userId, courseId]
-    );
-
-    if (enrollmentResult.rows.length > 0) {
+    // Check if user already owns the course; a trial or expired enrollment can be bought again
+    if ((await findOwnedCourseIds(userId, [courseId])).length > 0) {
       return next(new AppError('You are already enrolled in this course', 400));
     }
 
@@ -89,48 +82,144 @@ export const createPayment = async (req: AuthRequest, res: Response, next: NextF
       return next(new AppError('There is already a pending payment for this course', 400));
     }
 
+    // A pending cart checkout may already cover it
+    const pendingOrderResult = await db.query(
+      `SELECT o.id FROM orders o JOIN order_items oi ON oi.order_id = o.id
+       WHERE o.user_id = $1 AND oi.course_id = $2 AND o.status = 'pending'`,
+      [userId, courseId]
+    );
+
+    if (pendingOrderResult.rows.length > 0) {
+      return next(new AppError('There is already a pending cart checkout for this course', 400));
+    }
+
+    // Evaluate the entered coupon and the auto-apply ones against this course and the user's purchase history
+    const couponApplication = await applyCoupons(userId, [course], {
+      codes: couponCode ? [couponCode] : [],
+      strict: true
+    });
+    const couponCodes = couponApplication.evaluations.map((evaluation) => evaluation.coupon.code);
+
+    const originalAmount = Number(course.price);
+    const { discountAmount } = couponApplication;
+    const amount = originalAmount - discountAmount;
+    const gateway = amount > 0 ? getPaymentGateway(paymentMethod) : null;
+
     // Generate unique order ID
     const orderId = `ORDER_${Date.now()}_${userId.slice(-8)}`;
+    const paymentId = uuidv4();
     
     // Create payment record
-    const paymentResult = await db.query<PaymentRow>(
-      `INSERT INTO payments (id, user_id, course_id, order_id, amount, currency, payment_method, payment_status) 
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8) 
-       RETURNING *`,
-      [uuidv4(), userId, courseId, orderId, course.price, config.payment.currency, 'vnpay', 'pending']
+    await db.query(
+      `INSERT INTO payments (id, user_id, course_id, order_id, amount, original_amount, discount_amount, coupon_id, currency, payment_method, payment_status) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        paymentId,
+        userId,
+        courseId,
+        orderId,
+        amount,
+        originalAmount,
+        discountAmount,
+        // The highest-priority coupon; every stacked one has its own coupon_usage row
+        couponApplication.evaluations[0]?.coupon.id ?? null,
+        config.payment.currency,
+        gateway?.id ?? 'coupon',
+        'pending'
+      ]
     );
 
-    const payment = paymentResult.rows[0];
+    // Hold the coupons until the gateway result settles the payment
+    if (couponApplication.evaluations.length > 0) {
+      try {
+        await reserveCouponUsages(couponApplication, {
+          userId,
+          paymentId,
+          orderId,
+          ipAddress,
+          userAgent: req.get('user-agent')
+        });
+      } catch (reservationError) {
+        await db.query('UPDATE payments SET payment_status = $1 WHERE id = $2', ['cancelled', paymentId]);
+        throw reservationError;
+      }
+    }
 
-    // Create VNPay payment URL
-    const paymentData: VNPayPaymentData = {
-      orderId,
-      amount: course.price,
-      orderDescription: `Thanh toan khoa hoc: ${course.title}`,
-      orderType: 'billpayment',
-      ipAddress,
-      bankCode,
-      locale: config.payment.locale
-    };
+    // Fully discounted: nothing to charge, enroll right away
+    if (amount <= 0) {
+      await db.transaction(async (connection) => {
+        await grantPaidEnrollment(userId, courseId, connection);
+        await connection.query(
+          'UPDATE payments SET payment_status = ?, payment_date = NOW(), updated_at = NOW() WHERE id = ?',
+          ['completed', paymentId]
+        );
+      });
+      await finalizeCouponUsage(orderId);
+
+      logger.info('Payment completed by coupon', { paymentId, orderId, courseId, userId, couponCodes });
+
+      res.status(201).json({
+        status: 'success',
+        data: {
+          payment: {
+            id: paymentId,
+            orderId,
+            amount: 0,
+            originalAmount,
+            discountAmount,
+            couponCode: couponCodes[0],
+            couponCodes,
+            currency: config.payment.currency,
+            status: 'completed',
+            enrollmentCreated: true
+          }
+        }
+      });
+      return;
+    }
 
-    const paymentUrl = vnpayService.createPaymentUrl(paymentData);
+    let paymentUrl: string;
+    try {
+      paymentUrl = await (gateway as PaymentGateway).createPaymentUrl({
+        txnRef: orderId,
+        amount,
+        description: `Thanh toan khoa hoc: ${course.title}`,
+        ipAddress,
+        bankCode,
+        locale: config.payment.locale
+      });
+    } catch (gatewayError) {
+      logger.error('Create payment URL error:', gatewayError);
+      await db.query('UPDATE payments SET payment_status = $1 WHERE id = $2', ['cancelled', paymentId]);
+      await releaseCouponUsage(orderId);
+      return next(new AppError(`Could not reach ${(gateway as PaymentGateway).name}, please try again`, 502));
+    }
 
     logger.info('Payment created', {
-      paymentId: payment.id,
+      paymentId,
       orderId,
       courseId,
       userId,
-      amount: course.price
+      gateway: gateway?.id,
+      amount,
+      originalAmount,
+      discountAmount,
+      couponCodes
     });
 
     res.status(201).json({
       status: 'success',
       data: {
         payment: {
-          id: payment.id,
+          id: paymentId,
           orderId,
-          amount: course.price,
+          amount,
+          originalAmount,
+          discountAmount,
+          couponCode: couponCodes[0],
+          couponCodes,
           currency: config.payment.currency,
+          paymentMethod: gateway?.id,
           paymentUrl
         }
       }
@@ -142,107 +231,143 @@ export const createPayment = async (req: AuthRequest, res: Response, next: NextF
 };
 
 /**
- * Handle VNPay return callback
+ * Resolve the gateway named in the callback URL; the legacy VNPay routes have none
+ */
+const findCallbackGateway = (req: Request): PaymentGateway | null => {
+  try {
+    return getPaymentGateway(req.params.gateway ?? 'vnpay');
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Handle the buyer's return from a payment gateway
+ * @route GET /api/payments/return/:gateway
  * @route GET /api/payments/vnpay-return
  */
-export const handleVNPayReturn = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const handleGatewayReturn = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const returnData = req.query as unknown as VNPayReturnData;
+    const gateway = findCallbackGateway(req);
 
-    // Verify the return data
-    const isValid = vnpayService.verifyReturnUrl(returnData);
+    if (!gateway) {
+      return next(new AppError('Payment gateway not found', 404));
+    }
+
+    const result = await gateway.verifyReturn({
+      query: req.query,
+      body: req.body,
+      headers: req.headers,
+      rawBody: (req as any).rawBody
+    });
 
-    if (!isValid) {
-      logger.error('Invalid VNPay return signature', { returnData });
+    if (!result) {
+      logger.error('Invalid payment return signature', { gateway: gateway.id, query: req.query });
       return next(new AppError('Invalid payment verification', 400));
     }
 
-    const orderId = returnData.vnp_TxnRef;
-    const responseCode = returnData.vnp_ResponseCode;
-    const transactionId = returnData.vnp_TransactionNo;
-    const amount = parseInt(returnData.vnp_Amount) / 100; // Convert from VND cents
-    const payDate = returnData.vnp_PayDate;
+    if (!result.succeeded) {
+      logger.info('Payment failed', {
+        gateway: gateway.id,
+        orderId: result.txnRef,
+        responseCode: result.responseCode,
+        message: result.message
+      });
+    }
 
-    // Find payment record
-    const paymentResult = await db.query<PaymentRow>(
-      'SELECT * FROM payments WHERE order_id = $1',
-      [orderId]
-    );
+    // The webhook may have settled it already; then this only reports the stored result
+    const settlement = await paymentSettlementService.settleTransaction(gateway.id, result);
 
-    if (paymentResult.rows.length === 0) {
+    if (!settlement) {
       return next(new AppError('Payment not found', 404));
     }
 
-    const payment = paymentResult.rows[0];
-    let paymentStatus = 'failed';
-    let enrollmentCreated = false;
+    if (settlement.outcome === 'amount_mismatch') {
+      return next(new AppError('Payment amount does not match the order', 400));
+    }
 
-    if (responseCode === '00') {
-      // Payment successful
-      paymentStatus = 'completed';
+    const details = {
+      id: settlement.id,
+      orderId: result.txnRef,
+      status: settlement.status,
+      amount: result.amount,
+      transactionId: result.transactionId,
+      paymentMethod: gateway.id,
+      enrollmentCreated: settlement.status === 'completed',
+      message: result.message
+    };
 
-      // Create enrollment
-      try {
-        await db.query(
-          'INSERT INTO enrollments (user_id, course_id) VALUES ($1, $2)',
-          [payment.user_id, payment.course_id]
-        );
-        enrollmentCreated = true;
+    res.status(200).json({
+      status: 'success',
+      data: settlement.type === 'payment'
+        ? { payment: details }
+        : {
+            order: {
+              ...details,
+              courseIds: settlement.courseIds,
+              enrolledCourseIds: settlement.enrolledCourseIds
+            }
+          }
+    });
+  } catch (error) {
+    logger.error('Payment return handler error:', error);
+    next(error);
+  }
+};
 
-        logger.info('Course enrollment created after successful payment', {
-          paymentId: payment.id,
-          userId: payment.user_id,
-          courseId: payment.course_id
-        });
-      } catch (enrollmentError) {
-        logger.error('Failed to create enrollment after payment:', enrollmentError);
-        // Payment was successful but enrollment failed - need manual intervention
-        paymentStatus = 'completed_enrollment_failed';
-      }
-    } else {
-      logger.info('Payment failed', {
-        orderId,
-        responseCode,
-        message: vnpayService.getResponseCodeMessage(responseCode)
-      });
-    }
+/**
+ * Handle a payment gateway webhook (server-to-server payment notification)
+ * Answers in the format the gateway expects, so it stops retrying once the result is recorded.
+ * @route GET|POST /api/payments/webhook/:gateway
+ * @route GET /api/payments/vnpay-ipn
+ */
+export const handleGatewayWebhook = async (req: Request, res: Response): Promise<void> => {
+  const gateway = findCallbackGateway(req);
 
-    // Update payment record
-    await db.query(
-      `UPDATE payments 
-       SET payment_status = $1, 
-           transaction_id = $2, 
-           payment_date = $3,
-           vnpay_response_code = $4,
-           updated_at = NOW()
-       WHERE id = $5`,
-      [paymentStatus, transactionId, payDate, responseCode, payment.id]
-    );
+  if (!gateway) {
+    res.status(404).json({ message: 'Payment gateway not found' });
+    return;
+  }
 
-    logger.info('Payment processed', {
-      paymentId: payment.id,
-      orderId,
-      status: paymentStatus,
-      enrollmentCreated
+  let outcome: WebhookOutcome;
+  try {
+    const verification = await gateway.verifyWebhook({
+      query: req.query,
+      body: req.body,
+      headers: req.headers,
+      rawBody: (req as any).rawBody
     });
 
-    res.status(200).json({
-      status: 'success',
-      data: {
-        payment: {
-          id: payment.id,
-          orderId,
-          status: paymentStatus,
-          amount,
-          transactionId,
-          enrollmentCreated,
-          message: vnpayService.getResponseCodeMessage(responseCode)
-        }
+    if (!verification.valid) {
+      logger.error('Invalid payment webhook signature', { gateway: gateway.id });
+      outcome = 'invalid_signature';
+    } else if (!verification.transaction) {
+      outcome = 'ignored';
+    } else {
+      const settlement = await paymentSettlementService.settleTransaction(gateway.id, verification.transaction);
+      outcome = settlement ? settlement.outcome : 'not_found';
+
+      if (settlement?.outcome === 'settled') {
+        logger.info('Payment webhook processed', {
+          gateway: gateway.id,
+          orderId: verification.transaction.txnRef,
+          type: settlement.type,
+          status: settlement.status
+        });
       }
-    });
+    }
   } catch (error) {
-    logger.error('VNPay return handler error:', error);
-    next(error);
+    logger.error('Payment webhook handler error:', error);
+    outcome = 'error';
+  }
+
+  const response = gateway.webhookResponse(outcome);
+  res.status(response.status);
+
+  if (response.body === undefined) {
+    res.end();
+  } else {
+    res.json(response.body);
   }
 };
 
@@ -359,7 +484,7 @@ export const getPaymentById = async (req: AuthRequest, res: Response, next: Next
 };
 
 /**
- * Query payment status from VNPay
+ * Query payment status from its gateway
  * @route POST /api/payments/:id/query
  */
 export const queryPaymentStatus = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
@@ -389,10 +514,10 @@ export const queryPaymentStatus = async (req: AuthRequest, res: Response, next:
       return next(new AppError('You do not have permission to query this payment', 403));
     }
 
-    // Query VNPay for payment status
-    const queryResult = await vnpayService.queryPayment({
-      orderId: payment.order_id,
-      transDate: moment(payment.created_at).format('YYYYMMDDHHmmss'),
+    const queryResult = await getPaymentGateway(payment.payment_method).queryTransaction({
+      txnRef: payment.order_id,
+      amount: Number(payment.amount),
+      createdAt: payment.created_at,
       ipAddress
     });
 
@@ -419,6 +544,155 @@ export const queryPaymentStatus = async (req: AuthRequest, res: Response, next:
   }
 };
 
+/**
+ * List single-course payments and cart orders together (Admin only)
+ * @route GET /api/payments/admin/transactions
+ */
+export const getAllTransactions = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const status = req.query.status as string;
+    const offset = (page - 1) * limit;
+
+    const transactions = `
+      SELECT 'payment' as type, p.id, p.order_id as reference, p.user_id, u.email,
+             c.title as description, p.amount, p.refunded_amount, p.payment_status as status,
+             p.transaction_id, p.payment_date, p.created_at
+      FROM payments p
+      JOIN users u ON p.user_id = u.id
+      JOIN courses c ON p.course_id = c.id
+      UNION ALL
+      SELECT 'order' as type, o.id, o.order_code as reference, o.user_id, u.email,
+             CONCAT((SELECT COUNT(*) FROM order_items oi WHERE oi.order_id = o.id), ' courses') as description,
+             o.total_amount as amount, o.refunded_amount, o.status,
+             o.transaction_id, o.payment_date, o.created_at
+      FROM orders o
+      JOIN users u ON o.user_id = u.id`;
+    const whereClause = status ? 'WHERE t.status = $1' : '';
+    const params = status ? [status] : [];
+
+    const result = await db.query(
+      `SELECT * FROM (${transactions}) t ${whereClause}
+       ORDER BY t.created_at DESC
+       LIMIT ${limit} OFFSET ${offset}`,
+      params
+    );
+
+    const countResult = await db.query<{ total: number }>(
+      `SELECT COUNT(*) as total FROM (${transactions}) t ${whereClause}`,
+      params
+    );
+    const total = Number(countResult.rows[0]?.total ?? 0);
+
+    res.status(200).json({
+      status: 'success',
+      results: result.rows.length,
+      totalPages: Math.ceil(total / limit),
+      currentPage: page,
+      data: {
+        transactions: result.rows
+      }
+    });
+  } catch (error) {
+    logger.error('Get all transactions error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Refund a payment through its gateway, fully or partially (Admin only)
+ * @route POST /api/payments/:id/refund
+ */
+export const refundPayment = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { amount, reason, enrollmentAction } = req.body;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const refund = await refundService.refundPayment(id, {
+      amount,
+      reason,
+      enrollmentAction,
+      requestedBy: userId,
+      ipAddress: req.ip || req.connection.remoteAddress || '127.0.0.1'
+    });
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        refund
+      }
+    });
+  } catch (error) {
+    logger.error('Refund payment error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Get the refunds of a payment (Admin only)
+ * @route GET /api/payments/:id/refunds
+ */
+export const getPaymentRefunds = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const refunds = await refundService.getRefunds({ paymentId: req.params.id });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        refunds
+      }
+    });
+  } catch (error) {
+    logger.error('Get payment refunds error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Download the invoice of a completed payment as PDF, issuing it if it was not yet
+ * @route GET /api/payments/:id/invoice
+ */
+export const downloadPaymentInvoice = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    if (!config.invoice.enabled) {
+      return next(new AppError('Invoices are not available', 404));
+    }
+
+    const paymentResult = await db.query<PaymentRow>('SELECT * FROM payments WHERE id = $1', [id]);
+
+    if (paymentResult.rows.length === 0) {
+      return next(new AppError('Payment not found', 404));
+    }
+
+    if (req.user?.role !== 'admin' && paymentResult.rows[0].user_id !== userId) {
+      return next(new AppError('You do not have permission to view this invoice', 403));
+    }
+
+    const invoice = await invoiceService.issueInvoice('payment', id);
+    const pdf = await invoiceService.getInvoicePdf(invoice);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${invoice.invoice_number}.pdf"`);
+    res.status(200).send(pdf);
+  } catch (error) {
+    logger.error('Download payment invoice error:', error);
+    next(error);
+  }
+};
+
 /**
  * Get payment statistics (Admin only)
  * @route GET /api/payments/stats
@@ -528,12 +802,19 @@ export const getPaymentStats = async (req: AuthRequest, res: Response, next: Nex
  */
 export const getPaymentMethods = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    const methods = vnpayService.getPaymentMethods();
+    const methods = listPaymentGateways().map((gateway) => ({
+      id: gateway.id,
+      name: gateway.name,
+      description: gateway.description,
+      enabled: true,
+      options: gateway.getPaymentMethods()
+    }));
 
     res.status(200).json({
       status: 'success',
       data: {
         methods,
+        defaultMethod: config.payment.defaultGateway,
         currency: config.payment.currency,
         enabled: config.payment.enabled
       }
@@ -544,12 +825,95 @@ export const getPaymentMethods = async (req: Request, res: Response, next: NextF
   }
 };
 
+/**
+ * Reconcile stale pending payments against their gateways now (Admin only)
+ * @route POST /api/payments/admin/reconciliation
+ */
+export const runReconciliation = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const report = await reconciliationService.runReconciliation({ triggeredBy: userId });
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        report
+      }
+    });
+  } catch (error) {
+    logger.error('Run reconciliation error:', error);
+    next(error);
+  }
+};
+
+/**
+ * List reconciliation reports (Admin only)
+ * @route GET /api/payments/admin/reconciliation
+ */
+export const getReconciliationReports = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const { reports, total } = await reconciliationService.listReports(page, limit);
+
+    res.status(200).json({
+      status: 'success',
+      results: reports.length,
+      totalPages: Math.ceil(total / limit),
+      currentPage: page,
+      data: {
+        reports
+      }
+    });
+  } catch (error) {
+    logger.error('Get reconciliation reports error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Download a reconciliation report as CSV (Admin only)
+ * @route GET /api/payments/admin/reconciliation/:id/download
+ */
+export const downloadReconciliationReport = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const report = await reconciliationService.getReport(req.params.id);
+
+    if (!report) {
+      return next(new AppError('Reconciliation report not found', 404));
+    }
+
+    const filename = `reconciliation-${moment(report.started_at).format('YYYYMMDD-HHmmss')}.csv`;
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.status(200).send(reconciliationService.reportToCsv(report));
+  } catch (error) {
+    logger.error('Download reconciliation report error:', error);
+    next(error);
+  }
+};
+
 export default {
   createPayment,
-  handleVNPayReturn,
+  handleGatewayReturn,
+  handleGatewayWebhook,
   getPaymentHistory,
   getPaymentById,
   queryPaymentStatus,
   getPaymentStats,
-  getPaymentMethods
+  getPaymentMethods,
+  getAllTransactions,
+  refundPayment,
+  getPaymentRefunds,
+  downloadPaymentInvoice,
+  runReconciliation,
+  getReconciliationReports,
+  downloadReconciliationReport
 };
\ No newline at end of file
@@ -0,0 +1,313 @@
+// src/controllers/quizController.ts
+import { Request, Response, NextFunction } from 'express';
+import AppError from '../utils/appError';
+import logger from '../utils/logger';
+import quizService, { QuizTargetType, QuizUser } from '../services/quizService';
+
+interface AuthRequest extends Request {
+  user?: QuizUser;
+}
+
+// URL segment to target type: /api/quizzes/assignments/:targetId and /api/quizzes/lectures/:targetId
+const targetTypeOf = (segment: string): QuizTargetType => (segment === 'assignments' ? 'assignment' : 'lecture');
+
+/**
+ * Get a course's question bank
+ * @route GET /api/quizzes/questions?courseId=
+ */
+export const getQuestions = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const courseId = req.query.courseId as string;
+
+    if (!req.user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    await quizService.findManagedCourse(courseId, req.user);
+    const questions = await quizService.listQuestions(courseId);
+
+    res.status(200).json({
+      status: 'success',
+      results: questions.length,
+      data: {
+        questions
+      }
+    });
+  } catch (error) {
+    logger.error('Get quiz questions error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Add hand-written or AI-generated questions to a course's question bank
+ * @route POST /api/quizzes/questions
+ */
+export const createQuestions = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { courseId, questions, source = 'manual', sourceLectureId } = req.body;
+
+    if (!req.user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    await quizService.findManagedCourse(courseId, req.user);
+    const created = await quizService.createQuestions(courseId, req.user.id, questions, source, sourceLectureId);
+
+    res.status(201).json({
+      status: 'success',
+      results: created.length,
+      data: {
+        questions: created
+      }
+    });
+  } catch (error) {
+    logger.error('Create quiz questions error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Update a bank question that no student has answered yet
+ * @route PATCH /api/quizzes/questions/:questionId
+ */
+export const updateQuestion = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const question = await quizService.updateQuestion(req.params.questionId, req.user, req.body);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        question
+      }
+    });
+  } catch (error) {
+    logger.error('Update quiz question error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Delete a bank question that no quiz uses
+ * @route DELETE /api/quizzes/questions/:questionId
+ */
+export const deleteQuestion = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    await quizService.deleteQuestion(req.params.questionId, req.user);
+
+    res.status(204).send();
+  } catch (error) {
+    logger.error('Delete quiz question error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Get the quiz of an assignment or quiz lecture. Teachers get the questions with answers,
+ * students get what to expect and their attempts.
+ * @route GET /api/quizzes/:targetType/:targetId
+ */
+export const getQuiz = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const target = await quizService.findTarget(targetTypeOf(req.params.targetType), req.params.targetId);
+
+    let quiz;
+    if (req.user.role === 'student') {
+      quiz = await quizService.getQuizForStudent(target, req.user.id);
+    } else {
+      quizService.assertCanManage(target.teacherId, req.user);
+      quiz = await quizService.getQuizForTeacher(target);
+    }
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        quiz
+      }
+    });
+  } catch (error) {
+    logger.error('Get quiz error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Attach bank questions to an assignment or quiz lecture, replacing its current questions
+ * @route PUT /api/quizzes/:targetType/:targetId
+ */
+export const setQuizQuestions = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { items, timeLimitMinutes, shuffleQuestions, shuffleOptions } = req.body;
+
+    if (!req.user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const target = await quizService.findTarget(targetTypeOf(req.params.targetType), req.params.targetId);
+    quizService.assertCanManage(target.teacherId, req.user);
+
+    const quiz = await quizService.setQuizItems(target, items, { timeLimitMinutes, shuffleQuestions, shuffleOptions });
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        quiz
+      }
+    });
+  } catch (error) {
+    logger.error('Set quiz questions error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Per-question analytics of a quiz
+ * @route GET /api/quizzes/:targetType/:targetId/analytics
+ */
+export const getQuizAnalytics = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const target = await quizService.findTarget(targetTypeOf(req.params.targetType), req.params.targetId);
+    quizService.assertCanManage(target.teacherId, req.user);
+
+    const analytics = await quizService.getQuizAnalytics(target);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        analytics
+      }
+    });
+  } catch (error) {
+    logger.error('Get quiz analytics error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Start an attempt, or resume the one in progress
+ * @route POST /api/quizzes/:targetType/:targetId/attempts
+ */
+export const startAttempt = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const target = await quizService.findTarget(targetTypeOf(req.params.targetType), req.params.targetId);
+    const attemptId = await quizService.startAttempt(target, req.user.id);
+    const attempt = await quizService.getAttempt(attemptId, req.user.id);
+
+    res.status(201).json({
+      status: 'success',
+      data: {
+        attempt
+      }
+    });
+  } catch (error) {
+    logger.error('Start quiz attempt error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Get one of the student's attempts
+ * @route GET /api/quizzes/attempts/:attemptId
+ */
+export const getAttempt = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const attempt = await quizService.getAttempt(req.params.attemptId, req.user.id);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        attempt
+      }
+    });
+  } catch (error) {
+    logger.error('Get quiz attempt error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Save answers of an attempt in progress (autosave)
+ * @route PUT /api/quizzes/attempts/:attemptId/answers
+ */
+export const saveAnswers = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    await quizService.saveAnswers(req.params.attemptId, req.user.id, req.body.answers);
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Answers saved'
+    });
+  } catch (error) {
+    logger.error('Save quiz answers error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Submit an attempt and get its score
+ * @route POST /api/quizzes/attempts/:attemptId/submit
+ */
+export const submitAttempt = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!req.user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const attempt = await quizService.submitAttempt(req.params.attemptId, req.user.id, req.body.answers);
+
+    res.status(200).json({
+      status: 'success',
+      message: attempt.status === 'expired'
+        ? `Time ran out: scored ${attempt.score}/${attempt.maxScore} with the answers saved in time`
+        : `Quiz submitted: ${attempt.score}/${attempt.maxScore}`,
+      data: {
+        attempt
+      }
+    });
+  } catch (error) {
+    logger.error('Submit quiz attempt error:', error);
+    next(error);
+  }
+};
+
+export default {
+  getQuestions,
+  createQuestions,
+  updateQuestion,
+  deleteQuestion,
+  getQuiz,
+  setQuizQuestions,
+  getQuizAnalytics,
+  startAttempt,
+  getAttempt,
+  saveAnswers,
+  submitAttempt
+};
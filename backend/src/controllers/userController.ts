@@ -5,6 +5,10 @@ import db from '../db';
 import AppError from '../utils/appError';
 import logger from '../utils/logger';
 import config from '../config';
+import twoFactorService from '../services/twoFactorService';
+import notificationService from '../services/notificationService';
+import invoiceService from '../services/invoiceService';
+import { UserRole } from '../types';
 
 // Types and Interfaces
 interface AuthRequest extends Request {
@@ -408,6 +412,67 @@ export const updateProfile = async (req: AuthRequest, res: Response, next: NextF
   }
 };
 
+/**
+ * Get the current user's company details for VAT invoices
+ * @route GET /api/users/profile/billing
+ */
+export const getBillingProfile = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const billingProfile = await invoiceService.getBillingProfile(userId);
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        billingProfile
+      }
+    });
+  } catch (error) {
+    logger.error('Get billing profile error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Save the current user's company details for VAT invoices
+ * @route PUT /api/users/profile/billing
+ */
+export const updateBillingProfile = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+    const { companyName, taxCode, address, invoiceEmail } = req.body;
+
+    if (!userId) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const billingProfile = await invoiceService.updateBillingProfile(userId, {
+      companyName,
+      taxCode,
+      address,
+      invoiceEmail
+    });
+
+    logger.info('Billing profile updated', { userId });
+
+    res.status(200).json({
+      status: 'success',
+      message: 'Billing details saved',
+      data: {
+        billingProfile
+      }
+    });
+  } catch (error) {
+    logger.error('Update billing profile error:', error);
+    next(error);
+  }
+};
+
 /**
  * Create new user (Admin only)
  * @route POST /api/users
@@ -620,6 +685,7 @@ export const deleteUser = async (req: AuthRequest, res: Response, next: NextFunc
       await connection.query('DELETE FROM enrollments WHERE user_id = ?', [id]);
       await connection.query('DELETE FROM messages WHERE sender_id = ? OR recipient_id = ?', [id, id]);
       await connection.query('DELETE FROM ai_chat_history WHERE user_id = ?', [id]);
+      await connection.query('DELETE FROM ai_chat_sessions WHERE user_id = ?', [id]);
       await connection.query('DELETE FROM coupon_usage WHERE user_id = ?', [id]);
       await connection.query('DELETE FROM payments WHERE user_id = ?', [id]);
       
@@ -1173,13 +1239,13 @@ export const sendNotificationToUser = async (req: AuthRequest, res: Response, ne
 
     const user = userResult.rows[0];
 
-    // Create notification record (assuming you have a notifications table)
-    const notificationId = uuidv4();
-    await db.query(
-      `INSERT INTO notifications (id, user_id, type, title, message, priority, created_at) 
-       VALUES (?, ?, ?, ?, ?, ?, NOW())`,
-      [notificationId, id, type, title, message, priority]
-    );
+    const notificationId = await notificationService.createNotification({
+      userId: id,
+      type,
+      title,
+      message,
+      priority
+    });
 
     logger.info('Notification sent to user', {
       notificationId,
@@ -1211,10 +1277,67 @@ export const sendNotificationToUser = async (req: AuthRequest, res: Response, ne
 };
 
 // Export all controller functions
+/**
+ * Get 2FA requirement per role (Admin only)
+ * @route GET /api/users/two-factor-policies
+ */
+export const getTwoFactorPolicies = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const policies = await twoFactorService.getPolicies();
+
+    res.status(200).json({
+      status: 'success',
+      data: {
+        twoFactorAvailable: config.features.twoFactorAuthEnabled,
+        policies
+      }
+    });
+  } catch (error) {
+    logger.error('Get two-factor policies error:', error);
+    next(error);
+  }
+};
+
+/**
+ * Require or stop requiring 2FA for a role (Admin only)
+ * @route PUT /api/users/two-factor-policies/:role
+ */
+export const updateTwoFactorPolicy = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { role } = req.params;
+    const { required } = req.body;
+
+    if (!req.user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    await twoFactorService.setPolicy(role as UserRole, required, req.user.id);
+
+    logger.info('Two-factor policy updated', {
+      role,
+      required,
+      updatedBy: req.user?.id
+    });
+
+    res.status(200).json({
+      status: 'success',
+      message: `Two-factor authentication is ${required ? 'now required' : 'no longer required'} for ${role}s`,
+      data: {
+        policies: await twoFactorService.getPolicies()
+      }
+    });
+  } catch (error) {
+    logger.error('Update two-factor policy error:', error);
+    next(error);
+  }
+};
+
 export default {
   getAllUsers,
   getUserById,
   updateProfile,
+  getBillingProfile,
+  updateBillingProfile,
   createUser,
   updateUser,
   deleteUser,
@@ -1224,5 +1347,7 @@ export default {
   bulkUpdateUsers,
   exportUsers,
   getUserActivity,
-  sendNotificationToUser
+  sendNotificationToUser,
+  getTwoFactorPolicies,
+  updateTwoFactorPolicy
 };
\ No newline at end of file
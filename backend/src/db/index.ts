@@ -110,6 +110,7 @@ export async function query<T extends QueryResult = QueryResult>(
     // Handle different types of results
     let resultRows: T[] = [];
     let insertId: number | undefined;
+    let affectedRows: number | undefined;
     
     if (Array.isArray(rows)) {
       resultRows = rows as T[];
@@ -117,6 +118,7 @@ export async function query<T extends QueryResult = QueryResult>(
       // Handle INSERT/UPDATE/DELETE results
       const resultSetHeader = rows as mysql.ResultSetHeader;
       insertId = resultSetHeader.insertId;
+      affectedRows = resultSetHeader.affectedRows;
       
       // For INSERT queries that need to return data, we need to fetch it
       if (mysqlQuery.toLowerCase().includes('insert') && text.toLowerCase().includes('returning')) {
@@ -143,7 +145,8 @@ export async function query<T extends QueryResult = QueryResult>(
     
     return {
       rows: resultRows,
-      rowCount: resultRows.length,
+      // UPDATE/DELETE report how many rows they changed
+      rowCount: affectedRows ?? resultRows.length,
       insertId
     };
   } catch (err) {
@@ -180,12 +183,14 @@ export async function transaction<T>(
       
       let resultRows: R[] = [];
       let insertId: number | undefined;
+      let affectedRows: number | undefined;
       
       if (Array.isArray(rows)) {
         resultRows = rows as R[];
       } else if (rows && typeof rows === 'object') {
         const resultSetHeader = rows as mysql.ResultSetHeader;
         insertId = resultSetHeader.insertId;
+        affectedRows = resultSetHeader.affectedRows;
         
         // Handle INSERT with RETURNING simulation
         if (mysqlQuery.toLowerCase().includes('insert') && text.toLowerCase().includes('returning')) {
@@ -200,7 +205,7 @@ export async function transaction<T>(
       
       return {
         rows: resultRows,
-        rowCount: resultRows.length,
+        rowCount: affectedRows ?? resultRows.length,
         insertId
       };
     };
@@ -4,6 +4,7 @@ import config from '../config';
 import AppError from '../utils/appError';
 import db from '../db';
 import redisService from '../services/redisService';
+import twoFactorService from '../services/twoFactorService';
 
 interface JwtPayload {
   id: string;
@@ -22,9 +23,74 @@ interface UserRow {
 }
 
 /**
- * Middleware to protect routes that require authentication
+ * Whether the user's role requires 2FA and they have not turned it on yet
+ */
+const mustSetUpTwoFactor = async (user: UserRow): Promise<boolean> => {
+  if (!config.features.twoFactorAuthEnabled || user.two_factor_enabled) {
+    return false;
+  }
+  return twoFactorService.isRequiredForRole(user.role as 'student' | 'teacher' | 'admin');
+};
+
+/**
+ * Resolve the user behind a JWT: rejects blacklisted (logged out) tokens,
+ * invalid signatures and deleted users. Shared by `protect` and the WebSocket server.
+ * Users whose role requires 2FA are rejected until they turn it on, unless `allowTwoFactorSetup` is set.
  */
-export const protect = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+export const authenticateToken = async (
+  token: string,
+  allowTwoFactorSetup: boolean = false
+): Promise<{ id: string; role: 'student' | 'teacher' | 'admin' }> => {
+  // 1) Check if token is blacklisted (logged out)
+  try {
+    const isBlacklisted = await redisService.getBlacklistedToken(token);
+    if (isBlacklisted) {
+      throw new AppError('Invalid token. Please log in again.', 401);
+    }
+  } catch (redisError) {
+    if (redisError instanceof AppError) {
+      throw redisError;
+    }
+    // If Redis is down, continue without blacklist check
+    console.warn('Redis unavailable for token blacklist check');
+  }
+
+  // 2) Verify token
+  let decoded: JwtPayload;
+  try {
+    decoded = jwt.verify(token, config.jwtSecret) as JwtPayload;
+  } catch (jwtError) {
+    throw new AppError('Invalid token. Please log in again.', 401);
+  }
+
+  // 3) Check if user still exists
+  const userResult = await db.query<UserRow>(
+    'SELECT id, role, email, first_name, last_name, two_factor_enabled FROM users WHERE id = $1', 
+    [decoded.id]
+  );
+  
+  if (userResult.rows.length === 0) {
+    throw new AppError('User no longer exists.', 401);
+  }
+
+  const user = userResult.rows[0];
+
+  // 4) Until 2FA is on, a role that requires it can only reach the enrollment endpoints
+  if (!allowTwoFactorSetup && await mustSetUpTwoFactor(user)) {
+    throw new AppError('Two-factor authentication must be set up before continuing.', 403);
+  }
+
+  return {
+    id: user.id,
+    role: user.role as 'student' | 'teacher' | 'admin'
+  };
+};
+
+const authenticateRequest = (allowTwoFactorSetup: boolean) => async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
   try {
     // 1) Get token from Authorization header
     let token: string | undefined;
@@ -37,50 +103,30 @@ export const protect = async (req: Request, res: Response, next: NextFunction):
       return next(new AppError('Authentication required. Please log in.', 401));
     }
 
-    // 3) Check if token is blacklisted (logged out)
-    try {
-      const isBlacklisted = await redisService.getBlacklistedToken(token);
-      if (isBlacklisted) {
-        return next(new AppError('Invalid token. Please log in again.', 401));
-      }
-    } catch (redisError) {
-      // If Redis is down, continue without blacklist check
-      console.warn('Redis unavailable for token blacklist check');
-    }
-
-    // 4) Verify token
-    let decoded: JwtPayload;
-    try {
-      decoded = jwt.verify(token, config.jwtSecret) as JwtPayload;
-    } catch (jwtError) {
-      return next(new AppError('Invalid token. Please log in again.', 401));
-    }
-
-    // 5) Check if user still exists
-    const userResult = await db.query<UserRow>(
-      'SELECT id, role, email, first_name, last_name FROM users WHERE id = $1', 
-      [decoded.id]
-    );
-    
-    if (userResult.rows.length === 0) {
-      return next(new AppError('User no longer exists.', 401));
-    }
-
-    const user = userResult.rows[0];
-
-    // 6) Set user on request object
-    req.user = {
-      id: user.id,
-      role: user.role as 'student' | 'teacher' | 'admin'
-    };
+    // 3) Verify token and set user on request object
+    req.user = await authenticateToken(token, allowTwoFactorSetup);
 
     next();
   } catch (error) {
+    if (error instanceof AppError) {
+      return next(error);
+    }
     console.error('Auth middleware error:', error);
     return next(new AppError('Authentication failed. Please log in again.', 401));
   }
 };
 
+/**
+ * Middleware to protect routes that require authentication
+ */
+export const protect = authenticateRequest(false);
+
+/**
+ * Like `protect`, but also lets in users who still have to set up a required 2FA:
+ * only for the endpoints they need to enroll (and to see who they are or log out)
+ */
+export const protectTwoFactorSetup = authenticateRequest(true);
+
 /**
  * Middleware to restrict access based on user roles
  * @param roles - Array of allowed roles
@@ -128,11 +174,12 @@ export const optionalAuth = async (req: Request, res: Response, next: NextFuncti
 
     // Check if user exists
     const userResult = await db.query<UserRow>(
-      'SELECT id, role FROM users WHERE id = $1', 
+      'SELECT id, role, two_factor_enabled FROM users WHERE id = $1', 
       [decoded.id]
     );
 
-    if (userResult.rows.length > 0) {
+    // A user who still has to set up a required 2FA is treated as signed out
+    if (userResult.rows.length > 0 && !(await mustSetUpTwoFactor(userResult.rows[0]))) {
       const user = userResult.rows[0];
       req.user = {
         id: user.id,
@@ -193,7 +240,9 @@ export const validateApiKey = (req: Request, res: Response, next: NextFunction):
 };
 
 export default {
+  authenticateToken,
   protect,
+  protectTwoFactorSetup,
   restrictTo,
   optionalAuth,
   checkOwnership,
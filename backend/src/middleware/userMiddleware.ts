@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import db from '../db';
+import config from '../config';
 import AppError from '../utils/appError';
 import logger from '../utils/logger';
 
@@ -52,16 +53,46 @@ export const checkUserActive = (req: AuthRequest, res: Response, next: NextFunct
 };
 
 /**
- * Check if user email is verified (for sensitive operations)
+ * Check if user email is verified (for sensitive operations).
+ * Uses the target user loaded by checkUserExists, otherwise the authenticated user.
+ * Skipped entirely unless the email verification feature is enabled.
  */
-export const checkEmailVerified = (req: AuthRequest, res: Response, next: NextFunction): void => {
-  const targetUser = (req as any).targetUser;
-  
-  if (targetUser && !targetUser.email_verified) {
-    return next(new AppError('Email verification required', 403));
+export const checkEmailVerified = async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    if (!config.features.emailVerificationEnabled) {
+      return next();
+    }
+
+    const targetUser = (req as any).targetUser;
+    if (targetUser) {
+      if (!targetUser.email_verified) {
+        return next(new AppError('Email verification required', 403));
+      }
+      return next();
+    }
+
+    if (!req.user) {
+      return next(new AppError('Authentication required', 401));
+    }
+
+    const result = await db.query(
+      'SELECT email_verified FROM users WHERE id = ?',
+      [req.user.id]
+    );
+
+    if (result.rows.length === 0) {
+      return next(new AppError('User not found', 404));
+    }
+
+    if (!result.rows[0].email_verified) {
+      return next(new AppError('Please verify your email address before continuing', 403));
+    }
+
+    next();
+  } catch (error) {
+    logger.error('Check email verified error:', error);
+    next(error);
   }
-  
-  next();
 };
 
 /**
@@ -1,6 +1,6 @@
 // src/routes/aiRoutes.ts - FIXED VERSION
 import express from 'express';
-import { body, query } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import aiController from '../controllers/aiController';
 import { protect, restrictTo } from '../middleware/authMiddleware';
 import validateRequest from '../middleware/validateRequest';
@@ -20,12 +20,29 @@ router.post(
   [
     body('query').notEmpty().withMessage('Query is required'),
     body('courseId').optional().isUUID().withMessage('Invalid course ID format'),
+    body('sessionId').optional().isUUID().withMessage('Invalid session ID format'),
     validateRequest
   ],
   // Type assertion to fix Express route handler typing
   aiController.chatWithAI as express.RequestHandler
 );
 
+/**
+ * @route POST /api/ai/chat/stream
+ * @desc Chat with AI assistant, streaming the answer as Server-Sent Events
+ * @access Private
+ */
+router.post(
+  '/chat/stream',
+  [
+    body('query').notEmpty().withMessage('Query is required'),
+    body('courseId').optional().isUUID().withMessage('Invalid course ID format'),
+    body('sessionId').optional().isUUID().withMessage('Invalid session ID format'),
+    validateRequest
+  ],
+  aiController.streamChatWithAI as express.RequestHandler
+);
+
 /**
  * @route POST /api/ai/generate-quiz
  * @desc Generate quiz questions for a lecture
@@ -71,6 +88,21 @@ router.post(
   aiController.generateFeedback as express.RequestHandler
 );
 
+/**
+ * @route POST /api/ai/courses/:courseId/index
+ * @desc Rebuild the retrieval index of a course's lecture transcripts and resources
+ * @access Private (Teacher, Admin)
+ */
+router.post(
+  '/courses/:courseId/index',
+  restrictTo('teacher', 'admin'),
+  [
+    param('courseId').isUUID().withMessage('Invalid course ID format'),
+    validateRequest
+  ],
+  aiController.indexCourseMaterials as express.RequestHandler
+);
+
 /**
  * @route GET /api/ai/chat-history
  * @desc Get chat history for a user
@@ -81,9 +113,84 @@ router.get(
   [
     query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
     query('offset').optional().isInt({ min: 0 }).withMessage('Offset must be a non-negative integer'),
+    query('sessionId').optional().isUUID().withMessage('Invalid session ID format'),
     validateRequest
   ],
   aiController.getChatHistory as express.RequestHandler
 );
 
+/**
+ * @route POST /api/ai/sessions
+ * @desc Create a chat session
+ * @access Private
+ */
+router.post(
+  '/sessions',
+  [
+    body('title').optional().isString().trim().isLength({ min: 1, max: 255 }).withMessage('Title must be between 1 and 255 characters'),
+    body('courseId').optional().isUUID().withMessage('Invalid course ID format'),
+    validateRequest
+  ],
+  aiController.createChatSession as express.RequestHandler
+);
+
+/**
+ * @route GET /api/ai/sessions
+ * @desc List chat sessions of the user
+ * @access Private
+ */
+router.get(
+  '/sessions',
+  [
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+    query('offset').optional().isInt({ min: 0 }).withMessage('Offset must be a non-negative integer'),
+    query('courseId').optional().isUUID().withMessage('Invalid course ID format'),
+    validateRequest
+  ],
+  aiController.getChatSessions as express.RequestHandler
+);
+
+/**
+ * @route GET /api/ai/sessions/:id
+ * @desc Get a chat session with its turns
+ * @access Private
+ */
+router.get(
+  '/sessions/:id',
+  [
+    param('id').isUUID().withMessage('Invalid session ID format'),
+    validateRequest
+  ],
+  aiController.getChatSession as express.RequestHandler
+);
+
+/**
+ * @route PATCH /api/ai/sessions/:id
+ * @desc Rename a chat session
+ * @access Private
+ */
+router.patch(
+  '/sessions/:id',
+  [
+    param('id').isUUID().withMessage('Invalid session ID format'),
+    body('title').isString().trim().isLength({ min: 1, max: 255 }).withMessage('Title must be between 1 and 255 characters'),
+    validateRequest
+  ],
+  aiController.updateChatSession as express.RequestHandler
+);
+
+/**
+ * @route DELETE /api/ai/sessions/:id
+ * @desc Delete a chat session and its turns
+ * @access Private
+ */
+router.delete(
+  '/sessions/:id',
+  [
+    param('id').isUUID().withMessage('Invalid session ID format'),
+    validateRequest
+  ],
+  aiController.deleteChatSession as express.RequestHandler
+);
+
 export default router;
\ No newline at end of file
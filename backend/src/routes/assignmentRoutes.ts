@@ -1,6 +1,6 @@
 // src/routes/assignmentRoutes.ts - FIXED VERSION
 import express from 'express';
-import { body, param } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import assignmentController from '../controllers/assignmentController';
 import { protect, restrictTo } from '../middleware/authMiddleware';
 import { validateRequest, sanitizeBody, parseNumbers } from '../middleware/validateRequest';
@@ -11,6 +11,20 @@ const router = express.Router();
 // All assignment routes require authentication
 router.use(protect);
 
+/**
+ * @route GET /api/assignments
+ * @desc Assignments across the current user's courses, optionally filtered by submission status
+ * @access Private
+ */
+router.get(
+  '/',
+  [
+    query('status').optional().isIn(['pending', 'draft', 'submitted', 'graded', 'returned']).withMessage('Status must be pending, draft, submitted, graded or returned'),
+    validateRequest
+  ],
+  assignmentController.getMyAssignments as express.RequestHandler
+);
+
 /**
  * @route GET /api/assignments/:id
  * @desc Get assignment by ID
@@ -20,6 +34,7 @@ router.get(
   '/:id',
   [
     param('id').isUUID().withMessage('Assignment ID must be a valid UUID'),
+    query('status').optional().isIn(['submitted', 'graded', 'returned']).withMessage('Status must be submitted, graded or returned'),
     validateRequest
   ],
   assignmentController.getAssignmentById as express.RequestHandler
@@ -34,13 +49,19 @@ router.patch(
   '/:id',
   restrictTo('teacher', 'admin'),
   sanitizeBody,
-  parseNumbers(['maxPoints']),
+  parseNumbers(['maxPoints', 'latePenaltyPercent']),
   [
     param('id').isUUID().withMessage('Assignment ID must be a valid UUID'),
     body('title').optional().isLength({ min: 3, max: 255 }).withMessage('Title must be between 3 and 255 characters').trim(),
     body('description').optional().isLength({ min: 10, max: 5000 }).withMessage('Description must be between 10 and 5000 characters').trim(),
     body('dueDate').optional().isISO8601().withMessage('Due date must be a valid ISO 8601 date'),
     body('maxPoints').optional().isInt({ min: 1, max: 1000 }).withMessage('Max points must be a positive integer between 1 and 1000'),
+    body('isPublished').optional().isBoolean().withMessage('isPublished must be a boolean').toBoolean(),
+    body('allowLateSubmission').optional().isBoolean().withMessage('allowLateSubmission must be a boolean').toBoolean(),
+    body('latePenaltyPercent').optional().isFloat({ min: 0, max: 100 }).withMessage('Late penalty must be between 0 and 100 percent'),
+    body('maxAttempts').optional().isInt({ min: 0, max: 100 }).withMessage('Max attempts must be between 0 (unlimited) and 100').toInt(),
+    body('gradingPolicy').optional().isIn(['best', 'last', 'average']).withMessage('Grading policy must be best, last or average'),
+    body('gradingRubric').optional().isObject().withMessage('Grading rubric must be an object with a list of criteria'),
     validateRequest
   ],
   assignmentController.updateAssignment as express.RequestHandler
@@ -61,9 +82,79 @@ router.delete(
   assignmentController.deleteAssignment as express.RequestHandler
 );
 
+/**
+ * @route GET /api/assignments/:id/test-cases
+ * @desc Test cases of a coding assignment, hidden ones included
+ * @access Private (Teacher - own courses, Admin - all)
+ */
+router.get(
+  '/:id/test-cases',
+  restrictTo('teacher', 'admin'),
+  [
+    param('id').isUUID().withMessage('Assignment ID must be a valid UUID'),
+    validateRequest
+  ],
+  assignmentController.getTestCases as express.RequestHandler
+);
+
+/**
+ * @route PUT /api/assignments/:id/test-cases
+ * @desc Replace the test cases submissions are auto-graded with (stdin/expected output or a JS/TS test file)
+ * @access Private (Teacher - own courses, Admin - all)
+ */
+router.put(
+  '/:id/test-cases',
+  restrictTo('teacher', 'admin'),
+  [
+    param('id').isUUID().withMessage('Assignment ID must be a valid UUID'),
+    body('language').optional().isIn(['javascript', 'typescript']).withMessage('Language must be javascript or typescript'),
+    body('testCases').isArray({ max: 50 }).withMessage('Test cases must be a list of at most 50 tests'),
+    body('testCases.*.kind').optional().isIn(['io', 'test_file']).withMessage('Test kind must be io or test_file'),
+    body('testCases.*.points').optional().isInt({ min: 1, max: 100 }).withMessage('Test points must be between 1 and 100').toInt(),
+    body('testCases.*.isHidden').optional().isBoolean().withMessage('isHidden must be a boolean').toBoolean(),
+    validateRequest
+  ],
+  assignmentController.setTestCases as express.RequestHandler
+);
+
+/**
+ * @route POST /api/assignments/:id/test-cases/run
+ * @desc Run code against the test cases without submitting it
+ * @access Private (Teacher - own courses, Admin - all)
+ */
+router.post(
+  '/:id/test-cases/run',
+  restrictTo('teacher', 'admin'),
+  [
+    param('id').isUUID().withMessage('Assignment ID must be a valid UUID'),
+    body('language').optional().isIn(['javascript', 'typescript']).withMessage('Language must be javascript or typescript'),
+    body('code').isString().withMessage('Code is required').isLength({ min: 1, max: 10000 }).withMessage('Code must be between 1 and 10000 characters'),
+    validateRequest
+  ],
+  assignmentController.runTestCases as express.RequestHandler
+);
+
+/**
+ * @route PUT /api/assignments/:id/draft
+ * @desc Save the student's work as a draft (autosave)
+ * @access Private (Student)
+ */
+router.put(
+  '/:id/draft',
+  restrictTo('student'),
+  sanitizeBody,
+  [
+    param('id').isUUID().withMessage('Assignment ID must be a valid UUID'),
+    body('submissionUrl').optional({ checkFalsy: true }).isURL().withMessage('Submission URL must be a valid URL').isLength({ max: 500 }).withMessage('Submission URL must be less than 500 characters'),
+    body('submissionText').optional().isString().withMessage('Submission text must be a string').isLength({ max: 10000 }).withMessage('Submission text must be less than 10000 characters'),
+    validateRequest
+  ],
+  assignmentController.saveDraft as express.RequestHandler
+);
+
 /**
  * @route POST /api/assignments/:id/submit
- * @desc Submit assignment
+ * @desc Submit assignment, or the open draft / returned attempt when there is one
  * @access Private (Student)
  */
 router.post(
@@ -75,12 +166,6 @@ router.post(
     param('id').isUUID().withMessage('Assignment ID must be a valid UUID'),
     body('submissionUrl').optional().isURL().withMessage('Submission URL must be a valid URL').isLength({ max: 500 }).withMessage('Submission URL must be less than 500 characters'),
     body('submissionText').optional().isString().withMessage('Submission text must be a string').isLength({ min: 1, max: 10000 }).withMessage('Submission text must be between 1 and 10000 characters').trim(),
-    body().custom((value, { req }) => {
-      if (!req.body.submissionUrl && !req.body.submissionText) {
-        throw new Error('Either submission URL or submission text is required');
-      }
-      return true;
-    }),
     validateRequest
   ],
   assignmentController.submitAssignment as express.RequestHandler
@@ -88,7 +173,7 @@ router.post(
 
 /**
  * @route PATCH /api/assignments/submissions/:submissionId/grade
- * @desc Grade assignment submission
+ * @desc Grade assignment submission, per criterion when the assignment has a rubric
  * @access Private (Teacher, Admin)
  */
 router.patch(
@@ -98,11 +183,47 @@ router.patch(
   parseNumbers(['grade']),
   [
     param('submissionId').isUUID().withMessage('Submission ID must be a valid UUID'),
-    body('grade').isInt({ min: 0 }).withMessage('Grade must be a non-negative integer'),
+    body('grade').optional().isInt({ min: 0 }).withMessage('Grade must be a non-negative integer'),
+    body('rubricScores').optional().isArray({ min: 1 }).withMessage('Rubric scores must be a non-empty array'),
+    body('rubricScores.*.criterionId').isString().withMessage('Each rubric score needs a criterion ID'),
+    body('rubricScores.*.levelId').isString().withMessage('Each rubric score needs a level ID'),
+    body('rubricScores.*.comment').optional().isString().isLength({ max: 1000 }).withMessage('Criterion comments must be less than 1000 characters'),
     body('feedback').optional().isString().withMessage('Feedback must be a string').isLength({ max: 2000 }).withMessage('Feedback must be less than 2000 characters').trim(),
     validateRequest
   ],
   assignmentController.gradeSubmission as express.RequestHandler
 );
 
+/**
+ * @route POST /api/assignments/submissions/:submissionId/autograde
+ * @desc Run the test cases on a submission again
+ * @access Private (Teacher, Admin)
+ */
+router.post(
+  '/submissions/:submissionId/autograde',
+  restrictTo('teacher', 'admin'),
+  [
+    param('submissionId').isUUID().withMessage('Submission ID must be a valid UUID'),
+    validateRequest
+  ],
+  assignmentController.rerunAutoGrade as express.RequestHandler
+);
+
+/**
+ * @route PATCH /api/assignments/submissions/:submissionId/return
+ * @desc Return a submission to the student for revision
+ * @access Private (Teacher, Admin)
+ */
+router.patch(
+  '/submissions/:submissionId/return',
+  restrictTo('teacher', 'admin'),
+  sanitizeBody,
+  [
+    param('submissionId').isUUID().withMessage('Submission ID must be a valid UUID'),
+    body('comments').notEmpty().withMessage('Comments are required').isString().withMessage('Comments must be a string').isLength({ max: 2000 }).withMessage('Comments must be less than 2000 characters').trim(),
+    validateRequest
+  ],
+  assignmentController.returnSubmission as express.RequestHandler
+);
+
 export default router;
\ No newline at end of file
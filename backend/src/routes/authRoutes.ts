@@ -1,9 +1,9 @@
-import express, { Request, Response } from 'express';
-import { body } from 'express-validator';
+import express from 'express';
+import { body, param } from 'express-validator';
 import authController from '../controllers/authController';
-import { protect } from '../middleware/authMiddleware';
+import { protect, protectTwoFactorSetup } from '../middleware/authMiddleware';
 import { validateRequest, sanitizeBody } from '../middleware/validateRequest';
-import { authLimiter, registrationLimiter, passwordResetLimiter } from '../middleware/rateLimitMiddleware';
+import { authLimiter, registrationLimiter, passwordResetLimiter, emailVerificationLimiter } from '../middleware/rateLimitMiddleware';
 
 const router = express.Router();
 
@@ -163,7 +163,11 @@ router.post(
  *                 example: false
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: >
+ *           Login successful. If the account has two-factor authentication enabled, the response
+ *           contains `twoFactorRequired: true` and a `challengeToken` for /api/auth/2fa/verify instead of tokens.
+ *           With `twoFactorSetupRequired: true` the tokens only reach /me, /logout and the 2FA enrollment
+ *           endpoints; everything else answers 403 until 2FA is enabled.
  *         content:
  *           application/json:
  *             schema:
@@ -275,7 +279,7 @@ router.post(
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  */
-router.post('/logout', protect, authController.logout);
+router.post('/logout', protectTwoFactorSetup, authController.logout);
 
 /**
  * @swagger
@@ -304,7 +308,7 @@ router.post('/logout', protect, authController.logout);
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  */
-router.get('/me', protect, authController.getMe);
+router.get('/me', protectTwoFactorSetup, authController.getMe);
 
 /**
  * @swagger
@@ -432,12 +436,375 @@ router.post(
       .normalizeEmail(),
     validateRequest
   ],
-  (req: Request, res: Response) => {
-    res.status(200).json({
-      status: 'success',
-      message: 'If an account with that email exists, we have sent a password reset link.'
-    });
-  }
+  authController.forgotPassword
+);
+
+/**
+ * @swagger
+ * /api/auth/reset-password/{token}:
+ *   get:
+ *     summary: Check whether a password reset token is still valid
+ *     tags: [Authentication]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Token is valid
+ *       400:
+ *         description: Token is invalid or has expired
+ */
+router.get(
+  '/reset-password/:token',
+  passwordResetLimiter,
+  [
+    param('token')
+      .isHexadecimal()
+      .isLength({ min: 64, max: 64 })
+      .withMessage('Invalid password reset token'),
+    validateRequest
+  ],
+  authController.verifyResetToken
+);
+
+/**
+ * @swagger
+ * /api/auth/reset-password:
+ *   post:
+ *     summary: Reset password using a token from the reset email
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *               - confirmPassword
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 minLength: 8
+ *                 example: "NewPassword123!"
+ *               confirmPassword:
+ *                 type: string
+ *                 example: "NewPassword123!"
+ *     responses:
+ *       200:
+ *         description: Password reset successfully. Existing refresh tokens are revoked.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 message:
+ *                   type: string
+ *                   example: "Password has been reset successfully. Please log in with your new password."
+ *       400:
+ *         description: Token is invalid or has expired
+ *       429:
+ *         description: Too many password reset attempts
+ */
+router.post(
+  '/reset-password',
+  passwordResetLimiter,
+  sanitizeBody,
+  [
+    body('token')
+      .isHexadecimal()
+      .isLength({ min: 64, max: 64 })
+      .withMessage('Invalid password reset token'),
+    body('password')
+      .isLength({ min: 8, max: 128 })
+      .withMessage('Password must be between 8 and 128 characters')
+      .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/)
+      .withMessage('Password must contain at least one lowercase letter, one uppercase letter, one number, and one special character'),
+    body('confirmPassword')
+      .custom((value, { req }) => {
+        if (value !== req.body.password) {
+          throw new Error('Password confirmation does not match password');
+        }
+        return true;
+      }),
+    validateRequest
+  ],
+  authController.resetPassword
+);
+
+/**
+ * @swagger
+ * /api/auth/verify-email/{token}:
+ *   get:
+ *     summary: Verify email address using the token from the verification email
+ *     tags: [Authentication]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Email verified successfully
+ *       400:
+ *         description: Token is invalid or has expired
+ */
+router.get(
+  '/verify-email/:token',
+  emailVerificationLimiter,
+  [
+    param('token')
+      .isHexadecimal()
+      .isLength({ min: 64, max: 64 })
+      .withMessage('Invalid email verification token'),
+    validateRequest
+  ],
+  authController.verifyEmail
+);
+
+/**
+ * @swagger
+ * /api/auth/resend-verification:
+ *   post:
+ *     summary: Send a new email verification link to the current user
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Verification email sent
+ *       400:
+ *         description: Email is already verified
+ *       401:
+ *         description: Not authenticated
+ *       429:
+ *         description: Too many email verification requests
+ */
+router.post('/resend-verification', protect, emailVerificationLimiter, authController.resendVerificationEmail);
+
+/**
+ * @swagger
+ * /api/auth/2fa/verify:
+ *   post:
+ *     summary: Complete a login that requires two-factor authentication
+ *     description: Exchanges the challenge token returned by /login plus an authenticator or recovery code for access tokens.
+ *     tags: [Authentication]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *               - code
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 description: 6-digit authenticator code or a recovery code (xxxxx-xxxxx)
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       401:
+ *         description: Invalid code or expired challenge
+ *       429:
+ *         description: Too many authentication attempts
+ */
+router.post(
+  '/2fa/verify',
+  authLimiter,
+  sanitizeBody,
+  [
+    body('challengeToken')
+      .isHexadecimal()
+      .isLength({ min: 64, max: 64 })
+      .withMessage('Invalid login challenge'),
+    body('code')
+      .isString()
+      .trim()
+      .isLength({ min: 6, max: 11 })
+      .withMessage('Please provide an authentication or recovery code'),
+    validateRequest
+  ],
+  authController.verifyTwoFactorLogin
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa:
+ *   get:
+ *     summary: Get two-factor authentication status for the current user
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Whether 2FA is available, enabled and required, plus remaining recovery codes
+ */
+router.get('/2fa', protectTwoFactorSetup, authController.getTwoFactorStatus);
+
+/**
+ * @swagger
+ * /api/auth/2fa/setup:
+ *   post:
+ *     summary: Start two-factor enrollment
+ *     description: Generates a new TOTP secret and otpauth URI. 2FA stays off until confirmed via /2fa/enable.
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Secret and otpauth URI for the authenticator app
+ *       400:
+ *         description: 2FA is already enabled
+ */
+router.post('/2fa/setup', protectTwoFactorSetup, authController.setupTwoFactor);
+
+/**
+ * @swagger
+ * /api/auth/2fa/enable:
+ *   post:
+ *     summary: Confirm enrollment with a code from the authenticator app
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: 2FA enabled; response contains one-time recovery codes
+ *       400:
+ *         description: Invalid code or setup not started
+ */
+router.post(
+  '/2fa/enable',
+  protectTwoFactorSetup,
+  authLimiter,
+  sanitizeBody,
+  [
+    body('code')
+      .isString()
+      .trim()
+      .matches(/^\d{6}$/)
+      .withMessage('Authentication code must be 6 digits'),
+    validateRequest
+  ],
+  authController.enableTwoFactor
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/disable:
+ *   post:
+ *     summary: Turn off two-factor authentication
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *               - code
+ *             properties:
+ *               password:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 description: Authenticator code or recovery code
+ *     responses:
+ *       200:
+ *         description: 2FA disabled
+ *       401:
+ *         description: Invalid password or code
+ *       403:
+ *         description: 2FA is required for the user's role
+ */
+router.post(
+  '/2fa/disable',
+  protect,
+  authLimiter,
+  sanitizeBody,
+  [
+    body('password')
+      .notEmpty()
+      .withMessage('Password is required'),
+    body('code')
+      .isString()
+      .trim()
+      .isLength({ min: 6, max: 11 })
+      .withMessage('Please provide an authentication or recovery code'),
+    validateRequest
+  ],
+  authController.disableTwoFactor
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa/recovery-codes:
+ *   post:
+ *     summary: Replace all recovery codes
+ *     tags: [Authentication]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: New recovery codes; previous codes no longer work
+ *       401:
+ *         description: Invalid code
+ */
+router.post(
+  '/2fa/recovery-codes',
+  protect,
+  authLimiter,
+  sanitizeBody,
+  [
+    body('code')
+      .isString()
+      .trim()
+      .matches(/^\d{6}$/)
+      .withMessage('Authentication code must be 6 digits'),
+    validateRequest
+  ],
+  authController.regenerateRecoveryCodes
 );
 
 export default router;
\ No newline at end of file
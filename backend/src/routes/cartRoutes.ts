@@ -0,0 +1,272 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import cartController from '../controllers/cartController';
+import { protect } from '../middleware/authMiddleware';
+import { validateRequest, sanitizeBody } from '../middleware/validateRequest';
+import { checkEmailVerified } from '../middleware/userMiddleware';
+
+const router = express.Router();
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     CartItem:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           format: uuid
+ *         courseId:
+ *           type: string
+ *           format: uuid
+ *         title:
+ *           type: string
+ *         thumbnail:
+ *           type: string
+ *         price:
+ *           type: number
+ *         discountAmount:
+ *           type: number
+ *           description: Share of the coupon discount allocated to this course
+ *         amount:
+ *           type: number
+ *         available:
+ *           type: boolean
+ *           description: False when the course was unpublished after being added
+ *         addedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+router.use(protect);
+
+/**
+ * @swagger
+ * /api/cart:
+ *   get:
+ *     summary: Get the current user's cart
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: couponCode
+ *         schema:
+ *           type: string
+ *         description: Price the cart with this coupon (the discount is split across eligible items)
+ *     responses:
+ *       200:
+ *         description: Cart retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/CartItem'
+ *                     subtotal:
+ *                       type: number
+ *                     discountAmount:
+ *                       type: number
+ *                     total:
+ *                       type: number
+ *                     currency:
+ *                       type: string
+ *       400:
+ *         description: Coupon not valid for this cart
+ */
+router.get(
+  '/',
+  [
+    query('couponCode')
+      .optional()
+      .isString()
+      .isLength({ min: 3, max: 50 })
+      .withMessage('Coupon code must be between 3 and 50 characters')
+      .trim()
+      .toUpperCase(),
+    validateRequest
+  ],
+  cartController.getCart
+);
+
+/**
+ * @swagger
+ * /api/cart:
+ *   delete:
+ *     summary: Remove every course from the cart
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Cart cleared
+ */
+router.delete('/', cartController.clearCart);
+
+/**
+ * @swagger
+ * /api/cart/items:
+ *   post:
+ *     summary: Add a course to the cart
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - courseId
+ *             properties:
+ *               courseId:
+ *                 type: string
+ *                 format: uuid
+ *     responses:
+ *       201:
+ *         description: Course added (adding a course already in the cart is a no-op)
+ *       400:
+ *         description: Already enrolled in this course
+ *       404:
+ *         description: Course not found
+ */
+router.post(
+  '/items',
+  sanitizeBody,
+  [
+    body('courseId')
+      .isUUID()
+      .withMessage('Course ID must be a valid UUID'),
+    validateRequest
+  ],
+  cartController.addToCart
+);
+
+/**
+ * @swagger
+ * /api/cart/items/{courseId}:
+ *   delete:
+ *     summary: Remove a course from the cart
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: courseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Course removed
+ *       404:
+ *         description: Course is not in the cart
+ */
+router.delete(
+  '/items/:courseId',
+  [
+    param('courseId').isUUID().withMessage('Course ID must be a valid UUID'),
+    validateRequest
+  ],
+  cartController.removeFromCart
+);
+
+/**
+ * @swagger
+ * /api/cart/checkout:
+ *   post:
+ *     summary: Check out the whole cart as a single gateway payment
+ *     tags: [Cart]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               paymentMethod:
+ *                 type: string
+ *                 description: Gateway id from /api/payments/methods; the default gateway when omitted
+ *               bankCode:
+ *                 type: string
+ *                 description: Optional bank or method code from the gateway's options
+ *               couponCode:
+ *                 type: string
+ *                 description: Optional coupon code, applied to the eligible courses of the cart
+ *     responses:
+ *       201:
+ *         description: Order created; redirect to paymentUrl, or already completed when fully discounted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     order:
+ *                       type: object
+ *                       properties:
+ *                         id:
+ *                           type: string
+ *                         orderId:
+ *                           type: string
+ *                         subtotal:
+ *                           type: number
+ *                         discountAmount:
+ *                           type: number
+ *                         amount:
+ *                           type: number
+ *                         status:
+ *                           type: string
+ *                         paymentMethod:
+ *                           type: string
+ *                         paymentUrl:
+ *                           type: string
+ *       400:
+ *         description: Cart empty, course unavailable, already enrolled or coupon not applicable
+ *       403:
+ *         description: Email verification required
+ */
+router.post(
+  '/checkout',
+  checkEmailVerified,
+  sanitizeBody,
+  [
+    body('paymentMethod')
+      .optional()
+      .isString()
+      .isLength({ min: 2, max: 50 })
+      .withMessage('Payment method must be between 2 and 50 characters'),
+    body('bankCode')
+      .optional()
+      .isString()
+      .isLength({ min: 2, max: 20 })
+      .withMessage('Bank code must be between 2 and 20 characters'),
+    body('couponCode')
+      .optional()
+      .isString()
+      .isLength({ min: 3, max: 50 })
+      .withMessage('Coupon code must be between 3 and 50 characters')
+      .trim()
+      .toUpperCase(),
+    validateRequest
+  ],
+  cartController.checkout
+);
+
+export default router;
@@ -27,11 +27,28 @@ const router = express.Router();
  *           description: Coupon description
  *         discountType:
  *           type: string
- *           enum: [percentage, fixed]
+ *           enum: [percentage, fixed, bogo]
  *           description: Type of discount
  *         discountValue:
  *           type: number
- *           description: Discount value (percentage or fixed amount)
+ *           description: Discount value (percentage, fixed amount, or percent off the free courses of a bogo coupon)
+ *         buyQuantity:
+ *           type: number
+ *           description: Courses to buy before the bogo offer kicks in (X)
+ *         getQuantity:
+ *           type: number
+ *           description: Courses discounted by the bogo offer (Y)
+ *         isPublic:
+ *           type: boolean
+ *         autoApply:
+ *           type: boolean
+ *           description: Public coupons that apply themselves at checkout without a code
+ *         stackable:
+ *           type: boolean
+ *           description: Whether the coupon can be combined with other stackable coupons
+ *         priority:
+ *           type: number
+ *           description: Coupons are applied from the highest priority down
  *         minimumAmount:
  *           type: number
  *           description: Minimum order amount required
@@ -91,6 +108,32 @@ const router = express.Router();
  *               type: number
  *             savingsPercentage:
  *               type: number
+ *         coupons:
+ *           type: array
+ *           description: Every coupon considered (the entered code and the auto-apply ones) with the rules that made it apply or not
+ *           items:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *               autoApplied:
+ *                 type: boolean
+ *               applied:
+ *                 type: boolean
+ *               discountAmount:
+ *                 type: number
+ *               rules:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     rule:
+ *                       type: string
+ *                       enum: [code, schedule, usage_limit, eligible_users, per_user_limit, first_purchase, courses, minimum_amount, stacking, discount]
+ *                     passed:
+ *                       type: boolean
+ *                     message:
+ *                       type: string
  * 
  *     CouponStats:
  *       type: object
@@ -119,7 +162,7 @@ router.use(protect);
  * @swagger
  * /api/coupons/validate:
  *   post:
- *     summary: Validate a coupon code and calculate discount
+ *     summary: Validate a coupon code and calculate the discount together with the auto-apply coupons
  *     tags: [Coupons]
  *     security:
  *       - bearerAuth: []
@@ -129,18 +172,19 @@ router.use(protect);
  *         application/json:
  *           schema:
  *             type: object
- *             required:
- *               - code
- *               - amount
  *             properties:
  *               code:
  *                 type: string
  *                 example: "SAVE20"
- *                 description: Coupon code to validate
+ *                 description: Coupon code to validate (without it only the auto-apply coupons are priced)
+ *               courseId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Course being purchased (its price is the order amount and its course/category restrictions are checked)
  *               amount:
  *                 type: number
  *                 example: 100000
- *                 description: Order amount in VND
+ *                 description: Order amount in VND (required without courseId)
  *     responses:
  *       200:
  *         description: Coupon validation successful
@@ -155,7 +199,7 @@ router.use(protect);
  *                 data:
  *                   $ref: '#/components/schemas/CouponValidation'
  *       400:
- *         description: Invalid coupon or validation failed
+ *         description: The coupon does not apply; data.coupons explains which rules failed
  *       401:
  *         $ref: '#/components/responses/UnauthorizedError'
  */
@@ -165,13 +209,17 @@ router.post(
   parseNumbers(['amount']),
   [
     body('code')
-      .notEmpty()
-      .withMessage('Coupon code is required')
+      .optional({ checkFalsy: true })
       .isLength({ min: 3, max: 50 })
       .withMessage('Coupon code must be between 3 and 50 characters')
       .trim()
       .toUpperCase(),
+    body('courseId')
+      .optional()
+      .isUUID()
+      .withMessage('Course ID must be a valid UUID'),
     body('amount')
+      .if(body('courseId').not().exists())
       .isFloat({ min: 0 })
       .withMessage('Amount must be a positive number'),
     validateRequest
@@ -281,6 +329,228 @@ router.patch(
   couponController.bulkUpdateCoupons
 );
 
+/**
+ * @swagger
+ * /api/coupons/campaigns:
+ *   get:
+ *     summary: List coupon campaigns with their redemption (Admin only)
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Campaigns with code, redeemed and pending counts, total discount and redemption rate
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ *   post:
+ *     summary: Generate a campaign of unique single-use coupon codes (Admin only)
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - count
+ *               - discountType
+ *               - discountValue
+ *               - validFrom
+ *               - validUntil
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Tet 2025 flyers"
+ *               description:
+ *                 type: string
+ *               prefix:
+ *                 type: string
+ *                 pattern: '^[A-Z0-9]*$'
+ *                 maxLength: 20
+ *                 example: "TET"
+ *               codeLength:
+ *                 type: integer
+ *                 minimum: 4
+ *                 maximum: 30
+ *                 default: 8
+ *                 description: Random characters after the prefix
+ *               alphabet:
+ *                 type: string
+ *                 pattern: '^[A-Z0-9]+$'
+ *                 description: Characters the codes are drawn from (defaults to letters and digits without 0/O/1/I/L)
+ *               count:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 10000
+ *                 example: 5000
+ *               discountType:
+ *                 type: string
+ *                 enum: [percentage, fixed, bogo]
+ *               discountValue:
+ *                 type: number
+ *               minimumAmount:
+ *                 type: number
+ *               maximumDiscount:
+ *                 type: number
+ *               buyQuantity:
+ *                 type: integer
+ *               getQuantity:
+ *                 type: integer
+ *               validFrom:
+ *                 type: string
+ *                 format: date-time
+ *               validUntil:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Campaign created and its codes generated
+ *       400:
+ *         description: Validation error or the code space is too small for the count
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get('/campaigns', restrictTo('admin'), couponController.getCampaigns);
+
+router.post(
+  '/campaigns',
+  restrictTo('admin'),
+  sanitizeBody,
+  parseNumbers(['codeLength', 'count', 'discountValue', 'minimumAmount', 'maximumDiscount', 'buyQuantity', 'getQuantity']),
+  [
+    body('name')
+      .notEmpty()
+      .withMessage('Campaign name is required')
+      .isLength({ min: 3, max: 100 })
+      .withMessage('Campaign name must be between 3 and 100 characters')
+      .trim(),
+    body('description')
+      .optional()
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Description must be less than 500 characters')
+      .trim(),
+    body('prefix')
+      .optional()
+      .trim()
+      .toUpperCase()
+      .matches(/^[A-Z0-9]{0,20}$/)
+      .withMessage('Prefix must be at most 20 uppercase letters and numbers'),
+    body('codeLength')
+      .optional()
+      .isInt({ min: 4, max: 30 })
+      .withMessage('Code length must be between 4 and 30'),
+    body('alphabet')
+      .optional()
+      .trim()
+      .toUpperCase()
+      .matches(/^[A-Z0-9]{2,36}$/)
+      .withMessage('Alphabet must be 2-36 uppercase letters and numbers'),
+    body('count')
+      .isInt({ min: 1, max: 10000 })
+      .withMessage('Count must be between 1 and 10000'),
+    body('discountType')
+      .isIn(['percentage', 'fixed', 'bogo'])
+      .withMessage('Discount type must be percentage, fixed or bogo'),
+    body('discountValue')
+      .isFloat({ min: 0.01 })
+      .withMessage('Discount value must be greater than 0')
+      .custom((value, { req }) => {
+        if (['percentage', 'bogo'].includes(req.body.discountType) && value > 100) {
+          throw new Error('Percentage discount must be between 0.01 and 100');
+        }
+        return true;
+      }),
+    body(['minimumAmount', 'maximumDiscount'])
+      .optional()
+      .isFloat({ min: 0 })
+      .withMessage('Amounts must be non-negative numbers'),
+    body(['buyQuantity', 'getQuantity'])
+      .if(body('discountType').equals('bogo'))
+      .isInt({ min: 1 })
+      .withMessage('Buy and get quantities must be positive integers for bogo coupons'),
+    body('validFrom')
+      .isISO8601()
+      .withMessage('Valid from must be a valid ISO 8601 date'),
+    body('validUntil')
+      .isISO8601()
+      .withMessage('Valid until must be a valid ISO 8601 date'),
+    validateRequest
+  ],
+  couponController.createCampaign
+);
+
+/**
+ * @swagger
+ * /api/coupons/campaigns/{id}/export:
+ *   get:
+ *     summary: Download a campaign's codes as CSV with the redemption of each (Admin only)
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: CSV file (code, status, redeemed_at, redeemed_by, discount_amount)
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.get(
+  '/campaigns/:id/export',
+  restrictTo('admin'),
+  [
+    param('id').isUUID().withMessage('Campaign ID must be a valid UUID'),
+    validateRequest
+  ],
+  couponController.exportCampaign
+);
+
+/**
+ * @swagger
+ * /api/coupons/campaigns/{id}/deactivate:
+ *   patch:
+ *     summary: Deactivate a campaign and every one of its codes (Admin only)
+ *     tags: [Coupons]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Campaign deactivated
+ *       400:
+ *         description: Campaign is already inactive
+ *       404:
+ *         $ref: '#/components/responses/NotFoundError'
+ */
+router.patch(
+  '/campaigns/:id/deactivate',
+  restrictTo('admin'),
+  [
+    param('id').isUUID().withMessage('Campaign ID must be a valid UUID'),
+    validateRequest
+  ],
+  couponController.deactivateCampaign
+);
+
 /**
  * @swagger
  * /api/coupons:
@@ -310,6 +580,12 @@ router.patch(
  *           enum: [active, expired, inactive, upcoming]
  *         description: Filter by coupon status
  *       - in: query
+ *         name: campaignId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: List the codes of a campaign (campaign codes are left out otherwise)
+ *       - in: query
  *         name: search
  *         schema:
  *           type: string
@@ -392,13 +668,37 @@ router.patch(
  *                 example: "Get 20% discount on all courses"
  *               discountType:
  *                 type: string
- *                 enum: [percentage, fixed]
+ *                 enum: [percentage, fixed, bogo]
  *                 example: "percentage"
  *               discountValue:
  *                 type: number
  *                 minimum: 0.01
  *                 example: 20
- *                 description: Percentage (1-100) or fixed amount in VND
+ *                 description: Percentage (1-100), fixed amount in VND, or percent off the free courses of a bogo coupon (100 = free)
+ *               buyQuantity:
+ *                 type: integer
+ *                 minimum: 1
+ *                 example: 2
+ *                 description: Required for bogo - courses to buy (X)
+ *               getQuantity:
+ *                 type: integer
+ *                 minimum: 1
+ *                 example: 1
+ *                 description: Required for bogo - courses discounted (Y)
+ *               isPublic:
+ *                 type: boolean
+ *                 default: true
+ *               autoApply:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Apply at checkout without a code (public coupons only)
+ *               stackable:
+ *                 type: boolean
+ *                 default: false
+ *               priority:
+ *                 type: integer
+ *                 default: 0
+ *                 description: Coupons are applied from the highest priority down
  *               minimumAmount:
  *                 type: number
  *                 minimum: 0
@@ -465,6 +765,10 @@ router.get(
       .isLength({ min: 2, max: 100 })
       .withMessage('Search query must be between 2 and 100 characters')
       .trim(),
+    query('campaignId')
+      .optional()
+      .isUUID()
+      .withMessage('Campaign ID must be a valid UUID'),
     query('sortBy')
       .optional()
       .isIn(['code', 'name', 'created_at', 'valid_from', 'valid_until', 'used_count'])
@@ -482,7 +786,8 @@ router.post(
   '/',
   restrictTo('admin'),
   sanitizeBody,
-  parseNumbers(['discountValue', 'minimumAmount', 'maximumDiscount', 'usageLimit']),
+  parseNumbers(['discountValue', 'minimumAmount', 'maximumDiscount', 'usageLimit', 'buyQuantity', 'getQuantity', 'priority']),
+  parseBooleans(['isPublic', 'autoApply', 'stackable']),
   [
     body('code')
       .notEmpty()
@@ -506,17 +811,33 @@ router.post(
       .withMessage('Description must be less than 500 characters')
       .trim(),
     body('discountType')
-      .isIn(['percentage', 'fixed'])
-      .withMessage('Discount type must be percentage or fixed'),
+      .isIn(['percentage', 'fixed', 'bogo'])
+      .withMessage('Discount type must be percentage, fixed or bogo'),
     body('discountValue')
       .isFloat({ min: 0.01 })
       .withMessage('Discount value must be greater than 0')
       .custom((value, { req }) => {
-        if (req.body.discountType === 'percentage' && (value <= 0 || value > 100)) {
+        if (['percentage', 'bogo'].includes(req.body.discountType) && (value <= 0 || value > 100)) {
           throw new Error('Percentage discount must be between 0.01 and 100');
         }
         return true;
       }),
+    body('buyQuantity')
+      .if(body('discountType').equals('bogo'))
+      .isInt({ min: 1 })
+      .withMessage('Buy quantity must be a positive integer for bogo coupons'),
+    body('getQuantity')
+      .if(body('discountType').equals('bogo'))
+      .isInt({ min: 1 })
+      .withMessage('Get quantity must be a positive integer for bogo coupons'),
+    body(['isPublic', 'autoApply', 'stackable'])
+      .optional()
+      .isBoolean()
+      .withMessage('isPublic, autoApply and stackable must be booleans'),
+    body('priority')
+      .optional()
+      .isInt({ min: 0, max: 1000 })
+      .withMessage('Priority must be an integer between 0 and 1000'),
     body('minimumAmount')
       .optional()
       .isFloat({ min: 0 })
@@ -643,10 +964,24 @@ router.post(
  *                 maxLength: 500
  *               discountType:
  *                 type: string
- *                 enum: [percentage, fixed]
+ *                 enum: [percentage, fixed, bogo]
  *               discountValue:
  *                 type: number
  *                 minimum: 0.01
+ *               buyQuantity:
+ *                 type: integer
+ *                 minimum: 1
+ *               getQuantity:
+ *                 type: integer
+ *                 minimum: 1
+ *               isPublic:
+ *                 type: boolean
+ *               autoApply:
+ *                 type: boolean
+ *               stackable:
+ *                 type: boolean
+ *               priority:
+ *                 type: integer
  *               minimumAmount:
  *                 type: number
  *                 minimum: 0
@@ -717,8 +1052,8 @@ router.patch(
   '/:id',
   restrictTo('admin'),
   sanitizeBody,
-  parseNumbers(['discountValue', 'minimumAmount', 'maximumDiscount', 'usageLimit']),
-  parseBooleans(['isActive']),
+  parseNumbers(['discountValue', 'minimumAmount', 'maximumDiscount', 'usageLimit', 'buyQuantity', 'getQuantity', 'priority']),
+  parseBooleans(['isActive', 'isPublic', 'autoApply', 'stackable']),
   [
     param('id').isUUID().withMessage('Coupon ID must be a valid UUID'),
     body('name')
@@ -735,18 +1070,30 @@ router.patch(
       .trim(),
     body('discountType')
       .optional()
-      .isIn(['percentage', 'fixed'])
-      .withMessage('Discount type must be percentage or fixed'),
+      .isIn(['percentage', 'fixed', 'bogo'])
+      .withMessage('Discount type must be percentage, fixed or bogo'),
     body('discountValue')
       .optional()
       .isFloat({ min: 0.01 })
       .withMessage('Discount value must be greater than 0')
       .custom((value, { req }) => {
-        if (req.body.discountType === 'percentage' && value && (value <= 0 || value > 100)) {
+        if (['percentage', 'bogo'].includes(req.body.discountType) && value && (value <= 0 || value > 100)) {
           throw new Error('Percentage discount must be between 0.01 and 100');
         }
         return true;
       }),
+    body(['buyQuantity', 'getQuantity'])
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Buy and get quantities must be positive integers'),
+    body(['isPublic', 'autoApply', 'stackable'])
+      .optional()
+      .isBoolean()
+      .withMessage('isPublic, autoApply and stackable must be booleans'),
+    body('priority')
+      .optional()
+      .isInt({ min: 0, max: 1000 })
+      .withMessage('Priority must be an integer between 0 and 1000'),
     body('minimumAmount')
       .optional()
       .isFloat({ min: 0 })
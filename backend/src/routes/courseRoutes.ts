@@ -334,6 +334,57 @@ router.get(
   courseController.getAllCourses
 );
 
+/**
+ * @swagger
+ * /api/courses/my-courses:
+ *   get:
+ *     summary: Get the courses the current teacher teaches
+ *     tags: [Courses]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [draft, published, archived]
+ *     responses:
+ *       200:
+ *         description: The teacher's courses with enrollment, lecture and assignment counts
+ *       401:
+ *         $ref: '#/components/responses/UnauthorizedError'
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get(
+  '/my-courses',
+  protect,
+  restrictTo('teacher'),
+  [
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Page must be a positive integer'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Limit must be between 1 and 100'),
+    validateRequest
+  ],
+  courseController.getMyCourses
+);
+
 router.post(
   '/',
   protect,
@@ -365,6 +416,14 @@ router.post(
       .optional()
       .isInt({ min: 0 })
       .withMessage('Duration must be a non-negative integer'),
+    body('transcript')
+      .optional()
+      .isString()
+      .withMessage('Transcript must be a string'),
+    body('resources')
+      .optional()
+      .isArray()
+      .withMessage('Resources must be an array'),
     validateRequest
   ],
   lectureController.createLecture
@@ -409,7 +468,6 @@ router.post(
  *             required:
  *               - title
  *               - description
- *               - maxPoints
  *             properties:
  *               title:
  *                 type: string
@@ -426,6 +484,56 @@ router.post(
  *                 type: integer
  *                 minimum: 1
  *                 maximum: 1000
+ *                 description: Required unless the assignment has a grading rubric
+ *               isPublished:
+ *                 type: boolean
+ *                 description: Publishing notifies every enrolled student
+ *               allowLateSubmission:
+ *                 type: boolean
+ *                 default: false
+ *               latePenaltyPercent:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 100
+ *                 description: Deducted from the grade of late attempts
+ *               maxAttempts:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 100
+ *                 default: 1
+ *                 description: 0 allows unlimited attempts
+ *               gradingPolicy:
+ *                 type: string
+ *                 enum: [best, last, average]
+ *                 default: last
+ *                 description: Which graded attempts make up the assignment grade
+ *               gradingRubric:
+ *                 type: object
+ *                 description: Criteria with scored levels; max points become the sum of each criterion's best level
+ *                 properties:
+ *                   criteria:
+ *                     type: array
+ *                     items:
+ *                       type: object
+ *                       required: [title, levels]
+ *                       properties:
+ *                         title:
+ *                           type: string
+ *                         description:
+ *                           type: string
+ *                         levels:
+ *                           type: array
+ *                           items:
+ *                             type: object
+ *                             required: [title, points]
+ *                             properties:
+ *                               title:
+ *                                 type: string
+ *                               points:
+ *                                 type: number
+ *                                 minimum: 0
+ *                               descriptor:
+ *                                 type: string
  *     responses:
  *       201:
  *         description: Assignment created successfully
@@ -464,8 +572,37 @@ router.post(
       .isISO8601()
       .withMessage('Due date must be a valid ISO 8601 date'),
     body('maxPoints')
+      .if((value, { req }) => !req.body.gradingRubric)
       .isInt({ min: 1, max: 1000 })
       .withMessage('Max points must be between 1 and 1000'),
+    body('isPublished')
+      .optional()
+      .isBoolean()
+      .withMessage('isPublished must be a boolean')
+      .toBoolean(),
+    body('allowLateSubmission')
+      .optional()
+      .isBoolean()
+      .withMessage('allowLateSubmission must be a boolean')
+      .toBoolean(),
+    body('latePenaltyPercent')
+      .optional()
+      .isFloat({ min: 0, max: 100 })
+      .withMessage('Late penalty must be between 0 and 100 percent')
+      .toFloat(),
+    body('maxAttempts')
+      .optional()
+      .isInt({ min: 0, max: 100 })
+      .withMessage('Max attempts must be between 0 (unlimited) and 100')
+      .toInt(),
+    body('gradingPolicy')
+      .optional()
+      .isIn(['best', 'last', 'average'])
+      .withMessage('Grading policy must be best, last or average'),
+    body('gradingRubric')
+      .optional()
+      .isObject()
+      .withMessage('Grading rubric must be an object with a list of criteria'),
     validateRequest
   ],
   assignmentController.createAssignment
@@ -0,0 +1,113 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import earningController from '../controllers/earningController';
+import { protect, restrictTo } from '../middleware/authMiddleware';
+import { validateRequest, sanitizeBody } from '../middleware/validateRequest';
+
+const router = express.Router();
+
+const PERIOD_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// All earnings routes require a teacher or admin account
+router.use(protect);
+router.use(restrictTo('teacher', 'admin'));
+
+const teacherIdValidator = query('teacherId')
+  .optional()
+  .isUUID()
+  .withMessage('Teacher ID must be a valid UUID');
+
+/**
+ * @route GET /api/earnings/summary
+ * @desc Get lifetime earnings, balance, the last 12 months and earnings per course
+ * @access Private (Teacher, Admin with ?teacherId=)
+ */
+router.get(
+  '/summary',
+  [
+    teacherIdValidator,
+    validateRequest
+  ],
+  earningController.getSummary
+);
+
+/**
+ * @route GET /api/earnings/statements/:period
+ * @desc Get the payout statement of a month (YYYY-MM)
+ * @access Private (Teacher, Admin with ?teacherId=)
+ */
+router.get(
+  '/statements/:period',
+  [
+    param('period').matches(PERIOD_PATTERN).withMessage('Period must be a month in YYYY-MM format'),
+    teacherIdValidator,
+    validateRequest
+  ],
+  earningController.getStatement
+);
+
+/**
+ * @route GET /api/earnings/statements/:period/download
+ * @desc Download the payout statement of a month as CSV
+ * @access Private (Teacher, Admin with ?teacherId=)
+ */
+router.get(
+  '/statements/:period/download',
+  [
+    param('period').matches(PERIOD_PATTERN).withMessage('Period must be a month in YYYY-MM format'),
+    teacherIdValidator,
+    validateRequest
+  ],
+  earningController.downloadStatement
+);
+
+/**
+ * @route GET /api/earnings/admin/statements
+ * @desc Every teacher's totals for a month (defaults to last month) with its payout
+ * @access Private (Admin)
+ */
+router.get(
+  '/admin/statements',
+  restrictTo('admin'),
+  [
+    query('period')
+      .optional()
+      .matches(PERIOD_PATTERN)
+      .withMessage('Period must be a month in YYYY-MM format'),
+    validateRequest
+  ],
+  earningController.listStatements
+);
+
+/**
+ * @route POST /api/earnings/admin/payouts
+ * @desc Record that a teacher's statement for a closed month was paid out
+ * @access Private (Admin)
+ */
+router.post(
+  '/admin/payouts',
+  restrictTo('admin'),
+  sanitizeBody,
+  [
+    body('teacherId')
+      .isUUID()
+      .withMessage('Teacher ID must be a valid UUID'),
+    body('period')
+      .matches(PERIOD_PATTERN)
+      .withMessage('Period must be a month in YYYY-MM format'),
+    body('reference')
+      .optional()
+      .isString()
+      .isLength({ max: 100 })
+      .withMessage('Reference must be at most 100 characters'),
+    body('note')
+      .optional()
+      .isString()
+      .isLength({ max: 1000 })
+      .withMessage('Note must be at most 1000 characters'),
+    validateRequest
+  ],
+  earningController.createPayout
+);
+
+export default router;
@@ -4,6 +4,7 @@ import { param, query } from 'express-validator';
 import enrollmentController from '../controllers/enrollmentController';
 import { protect, restrictTo } from '../middleware/authMiddleware';
 import validateRequest from '../middleware/validateRequest';
+import { checkEmailVerified } from '../middleware/userMiddleware';
 
 const router = express.Router();
 
@@ -46,6 +47,7 @@ router.get(
 router.post(
   '/:courseId',
   restrictTo('student'),
+  checkEmailVerified,
   [
     param('courseId').isUUID().withMessage('Course ID must be a valid UUID'),
     validateRequest
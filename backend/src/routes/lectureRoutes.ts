@@ -168,6 +168,22 @@ router.get(
  *               duration:
  *                 type: integer
  *                 minimum: 0
+ *               transcript:
+ *                 type: string
+ *                 description: Lecture transcript, optionally with "[mm:ss]" timestamps per line
+ *               resources:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     title:
+ *                       type: string
+ *                     url:
+ *                       type: string
+ *                     description:
+ *                       type: string
+ *                     content:
+ *                       type: string
  *     responses:
  *       200:
  *         description: Lecture updated successfully
@@ -203,6 +219,8 @@ router.patch(
     body('contentUrl').optional().isURL().withMessage('Content URL must be a valid URL'),
     body('orderIndex').optional().isInt({ min: 1 }).withMessage('Order index must be a positive integer'),
     body('duration').optional().isInt({ min: 0 }).withMessage('Duration must be a non-negative integer'),
+    body('transcript').optional().isString().withMessage('Transcript must be a string'),
+    body('resources').optional().isArray().withMessage('Resources must be an array'),
     validateRequest
   ],
   lectureController.updateLecture as express.RequestHandler
@@ -1,4 +1,4 @@
-import express, { Request, Response } from 'express';
+import express from 'express';
 import { body, param, query } from 'express-validator';
 import messageController from '../controllers/messageController';
 import { protect, restrictTo } from '../middleware/authMiddleware';
@@ -130,6 +130,137 @@ router.get(
   messageController.getUserMessages
 );
 
+// Static paths must be registered before /:id so they are not captured by it
+
+/**
+ * @route GET /api/messages/stats
+ * @desc Get message statistics for current user
+ * @access Private
+ */
+router.get(
+  '/stats',
+  messageController.getMessageStats
+);
+
+/**
+ * @route GET /api/messages/search
+ * @desc Advanced message search
+ * @access Private
+ */
+router.get(
+  '/search',
+  [
+    query('q')
+      .notEmpty()
+      .withMessage('Search query is required')
+      .isLength({ min: 2, max: 100 })
+      .withMessage('Search query must be between 2 and 100 characters'),
+    query('in')
+      .optional()
+      .isIn(['subject', 'content', 'both'])
+      .withMessage('Search in must be one of: subject, content, both'),
+    query('from')
+      .optional()
+      .isUUID()
+      .withMessage('From must be a valid user UUID'),
+    query('to')
+      .optional()
+      .isUUID()
+      .withMessage('To must be a valid user UUID'),
+    query('dateRange')
+      .optional()
+      .isIn(['today', 'week', 'month', 'year', 'custom'])
+      .withMessage('Date range must be one of: today, week, month, year, custom'),
+    query('startDate')
+      .optional()
+      .isISO8601()
+      .withMessage('Start date must be a valid ISO 8601 date'),
+    query('endDate')
+      .optional()
+      .isISO8601()
+      .withMessage('End date must be a valid ISO 8601 date'),
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Page must be a positive integer'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 50 })
+      .withMessage('Limit must be between 1 and 50'),
+    validateRequest
+  ],
+  messageController.searchMessages
+);
+
+/**
+ * @route GET /api/messages/conversations
+ * @desc Get conversations of the current user, one per conversation partner
+ * @access Private
+ */
+router.get('/conversations', messageController.getConversations);
+
+/**
+ * @route GET /api/messages/conversations/:userId
+ * @desc Get conversation with a specific user
+ * @access Private
+ */
+router.get(
+  '/conversations/:userId',
+  [
+    param('userId').isUUID().withMessage('User ID must be a valid UUID'),
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Page must be a positive integer'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 50 })
+      .withMessage('Limit must be between 1 and 50'),
+    validateRequest
+  ],
+  messageController.getConversation
+);
+
+/**
+ * @route PATCH /api/messages/bulk/mark-read
+ * @desc Mark multiple messages as read
+ * @access Private
+ */
+router.patch(
+  '/bulk/mark-read',
+  sanitizeBody,
+  [
+    body('messageIds')
+      .isArray({ min: 1, max: 50 })
+      .withMessage('Message IDs must be an array with 1-50 items'),
+    body('messageIds.*')
+      .isUUID()
+      .withMessage('Each message ID must be a valid UUID'),
+    validateRequest
+  ],
+  messageController.bulkMarkAsRead
+);
+
+/**
+ * @route DELETE /api/messages/bulk/delete
+ * @desc Delete multiple messages
+ * @access Private
+ */
+router.delete(
+  '/bulk/delete',
+  sanitizeBody,
+  [
+    body('messageIds')
+      .isArray({ min: 1, max: 50 })
+      .withMessage('Message IDs must be an array with 1-50 items'),
+    body('messageIds.*')
+      .isUUID()
+      .withMessage('Each message ID must be a valid UUID'),
+    validateRequest
+  ],
+  messageController.bulkDeleteMessages
+);
+
 /**
  * @route GET /api/messages/:id
  * @desc Get specific message
@@ -141,22 +272,7 @@ router.get(
     param('id').isUUID().withMessage('Message ID must be a valid UUID'),
     validateRequest
   ],
-  (req: Request, res: Response) => {
-    res.status(200).json({
-      status: 'success',
-      data: {
-        message: {
-          id: req.params.id,
-          subject: 'Sample Message',
-          content: 'Sample content',
-          sender: 'John Doe',
-          recipient: 'Jane Doe',
-          createdAt: new Date(),
-          readAt: null
-        }
-      }
-    });
-  }
+  messageController.getMessageById
 );
 
 /**
@@ -184,12 +300,7 @@ router.patch(
     param('id').isUUID().withMessage('Message ID must be a valid UUID'),
     validateRequest
   ],
-  (req: Request, res: Response) => {
-    res.status(200).json({
-      status: 'success',
-      message: 'Message marked as unread'
-    });
-  }
+  messageController.markMessageAsUnread
 );
 
 /**
@@ -203,12 +314,7 @@ router.delete(
     param('id').isUUID().withMessage('Message ID must be a valid UUID'),
     validateRequest
   ],
-  (req: Request, res: Response) => {
-    res.status(200).json({
-      status: 'success',
-      message: 'Message deleted successfully'
-    });
-  }
+  messageController.deleteMessage
 );
 
 /**
@@ -234,16 +340,7 @@ router.post(
       .withMessage('Include original must be a boolean'),
     validateRequest
   ],
-  (req: Request, res: Response) => {
-    res.status(200).json({
-      status: 'success',
-      message: 'Reply sent successfully',
-      data: {
-        messageId: 'new-message-id',
-        originalMessageId: req.params.id
-      }
-    });
-  }
+  messageController.replyToMessage
 );
 
 /**
@@ -270,173 +367,7 @@ router.post(
       .trim(),
     validateRequest
   ],
-  (req: Request, res: Response) => {
-    res.status(200).json({
-      status: 'success',
-      message: 'Message forwarded successfully',
-      data: {
-        forwardedTo: req.body.recipientIds.length,
-        originalMessageId: req.params.id
-      }
-    });
-  }
-);
-
-/**
- * @route PATCH /api/messages/bulk/mark-read
- * @desc Mark multiple messages as read
- * @access Private
- */
-router.patch(
-  '/bulk/mark-read',
-  sanitizeBody,
-  [
-    body('messageIds')
-      .isArray({ min: 1, max: 50 })
-      .withMessage('Message IDs must be an array with 1-50 items'),
-    body('messageIds.*')
-      .isUUID()
-      .withMessage('Each message ID must be a valid UUID'),
-    validateRequest
-  ],
-  (req: Request, res: Response) => {
-    res.status(200).json({
-      status: 'success',
-      message: 'Messages marked as read',
-      data: {
-        updatedCount: req.body.messageIds.length
-      }
-    });
-  }
-);
-
-/**
- * @route DELETE /api/messages/bulk/delete
- * @desc Delete multiple messages
- * @access Private
- */
-router.delete(
-  '/bulk/delete',
-  sanitizeBody,
-  [
-    body('messageIds')
-      .isArray({ min: 1, max: 50 })
-      .withMessage('Message IDs must be an array with 1-50 items'),
-    body('messageIds.*')
-      .isUUID()
-      .withMessage('Each message ID must be a valid UUID'),
-    validateRequest
-  ],
-  (req: Request, res: Response) => {
-    res.status(200).json({
-      status: 'success',
-      message: 'Messages deleted successfully',
-      data: {
-        deletedCount: req.body.messageIds.length
-      }
-    });
-  }
-);
-
-/**
- * @route GET /api/messages/conversations/:userId
- * @desc Get conversation with a specific user
- * @access Private
- */
-router.get(
-  '/conversations/:userId',
-  [
-    param('userId').isUUID().withMessage('User ID must be a valid UUID'),
-    query('page')
-      .optional()
-      .isInt({ min: 1 })
-      .withMessage('Page must be a positive integer'),
-    query('limit')
-      .optional()
-      .isInt({ min: 1, max: 50 })
-      .withMessage('Limit must be between 1 and 50'),
-    validateRequest
-  ],
-  (req: Request, res: Response) => {
-    res.status(200).json({
-      status: 'success',
-      data: {
-        conversation: [],
-        participant: {
-          id: req.params.userId,
-          name: 'User Name'
-        },
-        totalMessages: 0
-      }
-    });
-  }
-);
-
-/**
- * @route GET /api/messages/stats
- * @desc Get message statistics for current user
- * @access Private
- */
-router.get(
-  '/stats',
-  (req, res) => {
-    // This would need implementation in messageController
-    res.status(200).json({
-      status: 'success',
-      data: {
-        totalMessages: 0,
-        unreadMessages: 0,
-        sentMessages: 0,
-        receivedMessages: 0,
-        messagesThisWeek: 0,
-        averageResponseTime: 0
-      }
-    });
-  }
-);
-
-/**
- * @route GET /api/messages/search
- * @desc Advanced message search
- * @access Private
- */
-router.get(
-  '/search',
-  [
-    query('q')
-      .notEmpty()
-      .withMessage('Search query is required')
-      .isLength({ min: 2, max: 100 })
-      .withMessage('Search query must be between 2 and 100 characters'),
-    query('in')
-      .optional()
-      .isIn(['subject', 'content', 'both'])
-      .withMessage('Search in must be one of: subject, content, both'),
-    query('from')
-      .optional()
-      .isUUID()
-      .withMessage('From must be a valid user UUID'),
-    query('to')
-      .optional()
-      .isUUID()
-      .withMessage('To must be a valid user UUID'),
-    query('dateRange')
-      .optional()
-      .isIn(['today', 'week', 'month', 'year', 'custom'])
-      .withMessage('Date range must be one of: today, week, month, year, custom'),
-    validateRequest
-  ],
-  (req: Request, res: Response) => {
-    res.status(200).json({
-      status: 'success',
-      data: {
-        results: [],
-        totalResults: 0,
-        searchQuery: req.query.q,
-        searchTime: '0.1ms'
-      }
-    });
-  }
+  messageController.forwardMessage
 );
 
-export default router;
\ No newline at end of file
+export default router;
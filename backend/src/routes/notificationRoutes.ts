@@ -0,0 +1,84 @@
+import express from 'express';
+import { param, query } from 'express-validator';
+import notificationController from '../controllers/notificationController';
+import { protect } from '../middleware/authMiddleware';
+import { validateRequest } from '../middleware/validateRequest';
+
+const router = express.Router();
+
+// All notification routes require authentication
+router.use(protect);
+
+/**
+ * @route GET /api/notifications
+ * @desc Get current user's notifications
+ * @access Private
+ */
+router.get(
+  '/',
+  [
+    query('page')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Page must be a positive integer'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Limit must be between 1 and 100'),
+    query('unreadOnly')
+      .optional()
+      .isBoolean()
+      .withMessage('Unread only must be a boolean'),
+    query('type')
+      .optional()
+      .isString()
+      .isLength({ max: 50 })
+      .withMessage('Type must be a string of at most 50 characters'),
+    validateRequest
+  ],
+  notificationController.getNotifications
+);
+
+/**
+ * @route GET /api/notifications/unread-count
+ * @desc Get number of unread notifications
+ * @access Private
+ */
+router.get('/unread-count', notificationController.getUnreadCount);
+
+/**
+ * @route PATCH /api/notifications/read-all
+ * @desc Mark all notifications as read
+ * @access Private
+ */
+router.patch('/read-all', notificationController.markAllAsRead);
+
+/**
+ * @route PATCH /api/notifications/:id/read
+ * @desc Mark notification as read
+ * @access Private
+ */
+router.patch(
+  '/:id/read',
+  [
+    param('id').isUUID().withMessage('Notification ID must be a valid UUID'),
+    validateRequest
+  ],
+  notificationController.markAsRead
+);
+
+/**
+ * @route DELETE /api/notifications/:id
+ * @desc Delete notification
+ * @access Private
+ */
+router.delete(
+  '/:id',
+  [
+    param('id').isUUID().withMessage('Notification ID must be a valid UUID'),
+    validateRequest
+  ],
+  notificationController.deleteNotification
+);
+
+export default router;
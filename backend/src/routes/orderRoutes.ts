@@ -0,0 +1,230 @@
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import orderController from '../controllers/orderController';
+import { protect, restrictTo } from '../middleware/authMiddleware';
+import { validateRequest, sanitizeBody } from '../middleware/validateRequest';
+
+const router = express.Router();
+
+router.use(protect);
+
+/**
+ * @swagger
+ * /api/orders:
+ *   get:
+ *     summary: Get the current user's cart orders
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, completed, failed, cancelled, refunded, completed_enrollment_failed]
+ *     responses:
+ *       200:
+ *         description: Orders retrieved successfully
+ */
+router.get(
+  '/',
+  [
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+    query('status')
+      .optional()
+      .isIn(['pending', 'completed', 'failed', 'cancelled', 'refunded', 'completed_enrollment_failed'])
+      .withMessage('Invalid order status'),
+    validateRequest
+  ],
+  orderController.getOrders
+);
+
+/**
+ * @swagger
+ * /api/orders/{id}:
+ *   get:
+ *     summary: Get an order with its line items
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Order retrieved successfully
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Order not found
+ */
+router.get(
+  '/:id',
+  [
+    param('id').isUUID().withMessage('Order ID must be a valid UUID'),
+    validateRequest
+  ],
+  orderController.getOrderById
+);
+
+/**
+ * @swagger
+ * /api/orders/{id}/refund:
+ *   post:
+ *     summary: Refund a cart order through its gateway (Admin only)
+ *     description: |
+ *       Refund the whole order, an amount, or selected courses (the amount then defaults to what was
+ *       paid for them). Enrollments of the refunded courses are revoked unless another action is given.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: integer
+ *               courseIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uuid
+ *               reason:
+ *                 type: string
+ *               enrollmentAction:
+ *                 type: string
+ *                 enum: [revoke, downgrade, keep]
+ *     responses:
+ *       201:
+ *         description: Refund completed
+ *       400:
+ *         description: Order not refundable, unknown course or amount too high
+ *       502:
+ *         description: The gateway refused the refund or could not be reached (recorded as failed)
+ */
+router.post(
+  '/:id/refund',
+  restrictTo('admin'),
+  sanitizeBody,
+  [
+    param('id').isUUID().withMessage('Order ID must be a valid UUID'),
+    body('courseIds')
+      .optional()
+      .isArray({ min: 1 })
+      .withMessage('Course IDs must be a non-empty array'),
+    body('courseIds.*')
+      .isUUID()
+      .withMessage('Course ID must be a valid UUID'),
+    body('amount')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Refund amount must be a positive whole number of VND')
+      .toInt(),
+    body('reason')
+      .optional()
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Reason must be at most 500 characters'),
+    body('enrollmentAction')
+      .optional()
+      .isIn(['revoke', 'downgrade', 'keep'])
+      .withMessage('Enrollment action must be revoke, downgrade or keep'),
+    validateRequest
+  ],
+  orderController.refundOrder
+);
+
+/**
+ * @swagger
+ * /api/orders/{id}/refunds:
+ *   get:
+ *     summary: Get the refunds of an order (Admin only)
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Refunds, newest first
+ */
+router.get(
+  '/:id/refunds',
+  restrictTo('admin'),
+  [
+    param('id').isUUID().withMessage('Order ID must be a valid UUID'),
+    validateRequest
+  ],
+  orderController.getOrderRefunds
+);
+
+/**
+ * @swagger
+ * /api/orders/{id}/invoice:
+ *   get:
+ *     summary: Download the invoice of a completed cart order (PDF)
+ *     description: One invoice lists every course of the order; one missing is issued on first download.
+ *     tags: [Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Invoice PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Order not completed or nothing was charged
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Order not found
+ */
+router.get(
+  '/:id/invoice',
+  [
+    param('id').isUUID().withMessage('Order ID must be a valid UUID'),
+    validateRequest
+  ],
+  orderController.downloadOrderInvoice
+);
+
+export default router;
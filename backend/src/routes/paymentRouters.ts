@@ -3,6 +3,7 @@ import { body, param, query } from 'express-validator';
 import paymentController from '../controllers/paymentController';
 import { protect, restrictTo } from '../middleware/authMiddleware';
 import { validateRequest, sanitizeBody } from '../middleware/validateRequest';
+import { checkEmailVerified } from '../middleware/userMiddleware';
 
 const router = express.Router();
 
@@ -48,10 +49,25 @@ const router = express.Router();
  *     PaymentMethods:
  *       type: object
  *       properties:
- *         code:
+ *         id:
  *           type: string
+ *           description: Gateway id, sent as paymentMethod when creating a payment
  *         name:
  *           type: string
+ *         description:
+ *           type: string
+ *         enabled:
+ *           type: boolean
+ *         options:
+ *           type: array
+ *           description: Banks or methods the gateway can preselect, sent as bankCode
+ *           items:
+ *             type: object
+ *             properties:
+ *               code:
+ *                 type: string
+ *               name:
+ *                 type: string
  * 
  *     PaymentStats:
  *       type: object
@@ -99,6 +115,8 @@ const router = express.Router();
  *                       type: array
  *                       items:
  *                         $ref: '#/components/schemas/PaymentMethods'
+ *                     defaultMethod:
+ *                       type: string
  *                     currency:
  *                       type: string
  *                     enabled:
@@ -161,7 +179,121 @@ router.get(
  */
 router.get(
   '/vnpay-return',
-  paymentController.handleVNPayReturn
+  paymentController.handleGatewayReturn
+);
+
+/**
+ * @swagger
+ * /api/payments/return/{gateway}:
+ *   get:
+ *     summary: Handle the return callback of any enabled payment gateway
+ *     description: |
+ *       The frontend forwards the query string the gateway appended to its return URL.
+ *       The result is verified by the gateway (signature, or a lookup with the gateway) and settled once.
+ *     tags: [Payments]
+ *     parameters:
+ *       - in: path
+ *         name: gateway
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [vnpay, momo, zalopay, stripe, sandbox]
+ *     responses:
+ *       200:
+ *         description: Payment processing result, in the same shape as /api/payments/vnpay-return
+ *       400:
+ *         description: Invalid signature or amount mismatch
+ *       404:
+ *         description: Unknown gateway or payment not found
+ */
+router.get(
+  '/return/:gateway',
+  paymentController.handleGatewayReturn
+);
+
+/**
+ * @swagger
+ * /api/payments/vnpay-ipn:
+ *   get:
+ *     summary: VNPay IPN (server-to-server payment notification)
+ *     description: |
+ *       Called by VNPay independently of the browser redirect. Verifies vnp_SecureHash and settles the
+ *       payment or cart order once; the return URL and the IPN may arrive in any order.
+ *     tags: [Payments]
+ *     parameters:
+ *       - in: query
+ *         name: vnp_Amount
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: vnp_ResponseCode
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: vnp_TransactionStatus
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: vnp_TxnRef
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: vnp_SecureHash
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: |
+ *           Acknowledgement in VNPay format. RspCode 00 confirmed, 01 order not found,
+ *           02 already confirmed, 04 invalid amount, 97 invalid signature, 99 unknown error.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 RspCode:
+ *                   type: string
+ *                 Message:
+ *                   type: string
+ */
+router.get(
+  '/vnpay-ipn',
+  paymentController.handleGatewayWebhook
+);
+
+/**
+ * @swagger
+ * /api/payments/webhook/{gateway}:
+ *   post:
+ *     summary: Payment gateway webhook (server-to-server payment notification)
+ *     description: |
+ *       Register this URL with the gateway: /webhook/momo (IPN), /webhook/zalopay (callback),
+ *       /webhook/stripe (checkout.session.* events) or /webhook/vnpay (GET).
+ *       The answer follows each gateway's own acknowledgement format.
+ *     tags: [Payments]
+ *     parameters:
+ *       - in: path
+ *         name: gateway
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [vnpay, momo, zalopay, stripe, sandbox]
+ *     responses:
+ *       200:
+ *         description: Acknowledgement in the gateway's format
+ *       204:
+ *         description: Acknowledgement (MoMo)
+ *       404:
+ *         description: Unknown gateway
+ */
+router.get(
+  '/webhook/:gateway',
+  paymentController.handleGatewayWebhook
+);
+
+router.post(
+  '/webhook/:gateway',
+  paymentController.handleGatewayWebhook
 );
 
 // Protected routes - require authentication
@@ -187,9 +319,15 @@ router.use(protect);
  *               courseId:
  *                 type: string
  *                 format: uuid
+ *               paymentMethod:
+ *                 type: string
+ *                 description: Gateway id from /api/payments/methods; the default gateway when omitted
  *               bankCode:
  *                 type: string
- *                 description: Optional bank code for direct bank payment
+ *                 description: Optional bank or method code from the gateway's options
+ *               couponCode:
+ *                 type: string
+ *                 description: Optional coupon code; a fully discounted course is enrolled without redirecting to a gateway
  *     responses:
  *       201:
  *         description: Payment created successfully
@@ -212,27 +350,50 @@ router.use(protect);
  *                           type: string
  *                         amount:
  *                           type: number
+ *                         originalAmount:
+ *                           type: number
+ *                         discountAmount:
+ *                           type: number
+ *                         couponCode:
+ *                           type: string
  *                         currency:
  *                           type: string
+ *                         paymentMethod:
+ *                           type: string
  *                         paymentUrl:
  *                           type: string
  *       400:
- *         description: Bad request (already enrolled, pending payment exists)
+ *         description: Bad request (already enrolled, pending payment exists, coupon not applicable, gateway not available)
+ *       403:
+ *         description: Email verification required
  *       404:
  *         description: Course not found
  */
 router.post(
   '/create',
+  checkEmailVerified,
   sanitizeBody,
   [
     body('courseId')
       .isUUID()
       .withMessage('Course ID must be a valid UUID'),
+    body('paymentMethod')
+      .optional()
+      .isString()
+      .isLength({ min: 2, max: 50 })
+      .withMessage('Payment method must be between 2 and 50 characters'),
     body('bankCode')
       .optional()
       .isString()
       .isLength({ min: 2, max: 20 })
       .withMessage('Bank code must be between 2 and 20 characters'),
+    body('couponCode')
+      .optional()
+      .isString()
+      .isLength({ min: 3, max: 50 })
+      .withMessage('Coupon code must be between 3 and 50 characters')
+      .trim()
+      .toUpperCase(),
     validateRequest
   ],
   paymentController.createPayment
@@ -365,6 +526,138 @@ router.get(
   paymentController.getPaymentStats
 );
 
+/**
+ * @swagger
+ * /api/payments/admin/transactions:
+ *   get:
+ *     summary: List single-course payments and cart orders (Admin only)
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Transactions with their type (payment or order), amount and refunded amount
+ *       403:
+ *         description: Access denied - Admin only
+ */
+router.get(
+  '/admin/transactions',
+  restrictTo('admin'),
+  [
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+    validateRequest
+  ],
+  paymentController.getAllTransactions
+);
+
+/**
+ * @swagger
+ * /api/payments/admin/reconciliation:
+ *   post:
+ *     summary: Reconcile stale pending payments against their gateways now (Admin only)
+ *     description: |
+ *       Queries the gateway of every payment and cart order still pending after its payment URL expired,
+ *       then marks it completed (and enrolls), failed or cancelled. The same job runs on a schedule.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Reconciliation report with one entry per checked transaction
+ *       403:
+ *         description: Access denied - Admin only
+ *       409:
+ *         description: A reconciliation run is already in progress
+ *   get:
+ *     summary: List reconciliation reports (Admin only)
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Reports with their counts, newest first
+ *       403:
+ *         description: Access denied - Admin only
+ */
+router.post(
+  '/admin/reconciliation',
+  restrictTo('admin'),
+  paymentController.runReconciliation
+);
+
+router.get(
+  '/admin/reconciliation',
+  restrictTo('admin'),
+  [
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+    validateRequest
+  ],
+  paymentController.getReconciliationReports
+);
+
+/**
+ * @swagger
+ * /api/payments/admin/reconciliation/{id}/download:
+ *   get:
+ *     summary: Download a reconciliation report as CSV (Admin only)
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: CSV file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Report not found
+ */
+router.get(
+  '/admin/reconciliation/:id/download',
+  restrictTo('admin'),
+  [
+    param('id').isUUID().withMessage('Report ID must be a valid UUID'),
+    validateRequest
+  ],
+  paymentController.downloadReconciliationReport
+);
+
 /**
  * @swagger
  * /api/payments/{id}:
@@ -409,11 +702,145 @@ router.get(
   paymentController.getPaymentById
 );
 
+/**
+ * @swagger
+ * /api/payments/{id}/refund:
+ *   post:
+ *     summary: Refund a payment through its gateway (Admin only)
+ *     description: |
+ *       Without an amount, everything still refundable is returned (a full refund). The enrollment is
+ *       revoked by default for a full refund and downgraded (temporary access) for a partial one.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               amount:
+ *                 type: integer
+ *                 description: Amount to refund in VND (partial refund)
+ *               reason:
+ *                 type: string
+ *               enrollmentAction:
+ *                 type: string
+ *                 enum: [revoke, downgrade, keep]
+ *     responses:
+ *       201:
+ *         description: Refund completed; the refund record includes the gateway response
+ *       400:
+ *         description: Payment not refundable or amount too high
+ *       502:
+ *         description: The gateway refused the refund or could not be reached (recorded as failed)
+ */
+router.post(
+  '/:id/refund',
+  restrictTo('admin'),
+  sanitizeBody,
+  [
+    param('id').isUUID().withMessage('Payment ID must be a valid UUID'),
+    body('amount')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Refund amount must be a positive whole number of VND')
+      .toInt(),
+    body('reason')
+      .optional()
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Reason must be at most 500 characters'),
+    body('enrollmentAction')
+      .optional()
+      .isIn(['revoke', 'downgrade', 'keep'])
+      .withMessage('Enrollment action must be revoke, downgrade or keep'),
+    validateRequest
+  ],
+  paymentController.refundPayment
+);
+
+/**
+ * @swagger
+ * /api/payments/{id}/refunds:
+ *   get:
+ *     summary: Get the refunds of a payment (Admin only)
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Refunds, newest first
+ */
+router.get(
+  '/:id/refunds',
+  restrictTo('admin'),
+  [
+    param('id').isUUID().withMessage('Payment ID must be a valid UUID'),
+    validateRequest
+  ],
+  paymentController.getPaymentRefunds
+);
+
+/**
+ * @swagger
+ * /api/payments/{id}/invoice:
+ *   get:
+ *     summary: Download the invoice of a completed payment (PDF)
+ *     description: Invoices are issued when the payment completes; one missing is issued on first download.
+ *     tags: [Payments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Invoice PDF
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Payment not completed or nothing was charged
+ *       403:
+ *         description: Access denied
+ *       404:
+ *         description: Payment not found
+ */
+router.get(
+  '/:id/invoice',
+  [
+    param('id').isUUID().withMessage('Payment ID must be a valid UUID'),
+    validateRequest
+  ],
+  paymentController.downloadPaymentInvoice
+);
+
 /**
  * @swagger
  * /api/payments/{id}/query:
  *   post:
- *     summary: Query payment status from VNPay
+ *     summary: Query payment status from its gateway
  *     tags: [Payments]
  *     security:
  *       - bearerAuth: []
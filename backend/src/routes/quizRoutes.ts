@@ -0,0 +1,213 @@
+// src/routes/quizRoutes.ts
+import express from 'express';
+import { body, param, query } from 'express-validator';
+import quizController from '../controllers/quizController';
+import { protect, restrictTo } from '../middleware/authMiddleware';
+import { validateRequest, sanitizeBody } from '../middleware/validateRequest';
+
+const router = express.Router();
+
+// All quiz routes require authentication
+router.use(protect);
+
+const targetValidators = [
+  param('targetType').isIn(['assignments', 'lectures']).withMessage('Quizzes belong to assignments or lectures'),
+  param('targetId').isUUID().withMessage('Target ID must be a valid UUID')
+];
+
+const answerValidators = [
+  body('answers.*.itemId').isUUID().withMessage('Each answer needs the question item ID'),
+  body('answers.*.optionIndex').optional({ nullable: true }).isInt({ min: 0 }).withMessage('Option index must be a non-negative integer').toInt()
+];
+
+/**
+ * @route GET /api/quizzes/questions
+ * @desc Get a course's question bank
+ * @access Private (Teacher - own courses, Admin - all)
+ */
+router.get(
+  '/questions',
+  restrictTo('teacher', 'admin'),
+  [
+    query('courseId').isUUID().withMessage('Course ID must be a valid UUID'),
+    validateRequest
+  ],
+  quizController.getQuestions as express.RequestHandler
+);
+
+/**
+ * @route POST /api/quizzes/questions
+ * @desc Add hand-written or AI-generated questions (as returned by /api/ai/generate-quiz) to the bank
+ * @access Private (Teacher - own courses, Admin - all)
+ */
+router.post(
+  '/questions',
+  restrictTo('teacher', 'admin'),
+  sanitizeBody,
+  [
+    body('courseId').isUUID().withMessage('Course ID must be a valid UUID'),
+    body('questions').isArray({ min: 1, max: 50 }).withMessage('Send between 1 and 50 questions'),
+    body('questions.*.question').isString().isLength({ min: 1, max: 2000 }).withMessage('Question text must be between 1 and 2000 characters'),
+    body('questions.*.options').isArray({ min: 2, max: 6 }).withMessage('Each question needs between 2 and 6 options'),
+    body('questions.*.options.*').isString().isLength({ min: 1, max: 500 }).withMessage('Options must be between 1 and 500 characters'),
+    body('questions.*.correctAnswerIndex').isInt({ min: 0 }).withMessage('Correct answer index must be a non-negative integer').toInt(),
+    body('questions.*.explanation').optional().isString().isLength({ max: 2000 }).withMessage('Explanation must be less than 2000 characters'),
+    body('source').optional().isIn(['manual', 'ai']).withMessage('Source must be manual or ai'),
+    body('sourceLectureId').optional().isUUID().withMessage('Source lecture ID must be a valid UUID'),
+    validateRequest
+  ],
+  quizController.createQuestions as express.RequestHandler
+);
+
+/**
+ * @route PATCH /api/quizzes/questions/:questionId
+ * @desc Update a bank question no student has answered yet
+ * @access Private (Teacher - own courses, Admin - all)
+ */
+router.patch(
+  '/questions/:questionId',
+  restrictTo('teacher', 'admin'),
+  sanitizeBody,
+  [
+    param('questionId').isUUID().withMessage('Question ID must be a valid UUID'),
+    body('question').optional().isString().isLength({ min: 1, max: 2000 }).withMessage('Question text must be between 1 and 2000 characters'),
+    body('options').optional().isArray({ min: 2, max: 6 }).withMessage('A question needs between 2 and 6 options'),
+    body('options.*').isString().isLength({ min: 1, max: 500 }).withMessage('Options must be between 1 and 500 characters'),
+    body('correctAnswerIndex').optional().isInt({ min: 0 }).withMessage('Correct answer index must be a non-negative integer').toInt(),
+    body('explanation').optional().isString().isLength({ max: 2000 }).withMessage('Explanation must be less than 2000 characters'),
+    validateRequest
+  ],
+  quizController.updateQuestion as express.RequestHandler
+);
+
+/**
+ * @route DELETE /api/quizzes/questions/:questionId
+ * @desc Delete a bank question no quiz uses
+ * @access Private (Teacher - own courses, Admin - all)
+ */
+router.delete(
+  '/questions/:questionId',
+  restrictTo('teacher', 'admin'),
+  [
+    param('questionId').isUUID().withMessage('Question ID must be a valid UUID'),
+    validateRequest
+  ],
+  quizController.deleteQuestion as express.RequestHandler
+);
+
+/**
+ * @route GET /api/quizzes/attempts/:attemptId
+ * @desc Get an attempt: shuffled questions while in progress, results once scored
+ * @access Private (Student - own attempts)
+ */
+router.get(
+  '/attempts/:attemptId',
+  restrictTo('student'),
+  [
+    param('attemptId').isUUID().withMessage('Attempt ID must be a valid UUID'),
+    validateRequest
+  ],
+  quizController.getAttempt as express.RequestHandler
+);
+
+/**
+ * @route PUT /api/quizzes/attempts/:attemptId/answers
+ * @desc Save answers while the attempt is open (autosave)
+ * @access Private (Student - own attempts)
+ */
+router.put(
+  '/attempts/:attemptId/answers',
+  restrictTo('student'),
+  [
+    param('attemptId').isUUID().withMessage('Attempt ID must be a valid UUID'),
+    body('answers').isArray({ min: 1 }).withMessage('Answers must be a non-empty array'),
+    ...answerValidators,
+    validateRequest
+  ],
+  quizController.saveAnswers as express.RequestHandler
+);
+
+/**
+ * @route POST /api/quizzes/attempts/:attemptId/submit
+ * @desc Submit an attempt and score it on the server
+ * @access Private (Student - own attempts)
+ */
+router.post(
+  '/attempts/:attemptId/submit',
+  restrictTo('student'),
+  [
+    param('attemptId').isUUID().withMessage('Attempt ID must be a valid UUID'),
+    body('answers').optional().isArray().withMessage('Answers must be an array'),
+    ...answerValidators,
+    validateRequest
+  ],
+  quizController.submitAttempt as express.RequestHandler
+);
+
+/**
+ * @route GET /api/quizzes/:targetType/:targetId
+ * @desc Get the quiz of an assignment or quiz lecture
+ * @access Private (Student - enrolled, Teacher - own courses, Admin - all)
+ */
+router.get(
+  '/:targetType/:targetId',
+  [
+    ...targetValidators,
+    validateRequest
+  ],
+  quizController.getQuiz as express.RequestHandler
+);
+
+/**
+ * @route PUT /api/quizzes/:targetType/:targetId
+ * @desc Attach bank questions to an assignment or quiz lecture and set its time limit and shuffling
+ * @access Private (Teacher - own courses, Admin - all)
+ */
+router.put(
+  '/:targetType/:targetId',
+  restrictTo('teacher', 'admin'),
+  sanitizeBody,
+  [
+    ...targetValidators,
+    body('items').isArray({ min: 1, max: 100 }).withMessage('A quiz needs between 1 and 100 questions'),
+    body('items.*.questionId').isUUID().withMessage('Each item needs a question ID'),
+    body('items.*.points').optional().isInt({ min: 1, max: 100 }).withMessage('Points must be between 1 and 100').toInt(),
+    body('timeLimitMinutes').optional().isInt({ min: 0, max: 600 }).withMessage('Time limit must be between 0 (none) and 600 minutes').toInt(),
+    body('shuffleQuestions').optional().isBoolean().withMessage('shuffleQuestions must be a boolean').toBoolean(),
+    body('shuffleOptions').optional().isBoolean().withMessage('shuffleOptions must be a boolean').toBoolean(),
+    validateRequest
+  ],
+  quizController.setQuizQuestions as express.RequestHandler
+);
+
+/**
+ * @route GET /api/quizzes/:targetType/:targetId/analytics
+ * @desc Per-question analytics of the scored attempts
+ * @access Private (Teacher - own courses, Admin - all)
+ */
+router.get(
+  '/:targetType/:targetId/analytics',
+  restrictTo('teacher', 'admin'),
+  [
+    ...targetValidators,
+    validateRequest
+  ],
+  quizController.getQuizAnalytics as express.RequestHandler
+);
+
+/**
+ * @route POST /api/quizzes/:targetType/:targetId/attempts
+ * @desc Start an attempt, or resume the one in progress
+ * @access Private (Student - enrolled)
+ */
+router.post(
+  '/:targetType/:targetId/attempts',
+  restrictTo('student'),
+  [
+    ...targetValidators,
+    validateRequest
+  ],
+  quizController.startAttempt as express.RequestHandler
+);
+
+export default router;
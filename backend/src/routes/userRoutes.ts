@@ -601,6 +601,80 @@ router.post(
   }
 );
 
+/**
+ * @swagger
+ * /api/users/profile/billing:
+ *   get:
+ *     summary: Get the current user's company details for VAT invoices
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Billing profile, or null when none was saved
+ *   put:
+ *     summary: Save the current user's company details for VAT invoices
+ *     description: Used for invoices issued from now on; issued invoices keep the details they were issued with.
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               companyName:
+ *                 type: string
+ *                 maxLength: 255
+ *               taxCode:
+ *                 type: string
+ *                 description: Vietnamese tax code, 10 digits or 10 digits and a 3-digit branch suffix
+ *               address:
+ *                 type: string
+ *                 maxLength: 500
+ *               invoiceEmail:
+ *                 type: string
+ *                 format: email
+ *     responses:
+ *       200:
+ *         description: Billing profile saved
+ *       400:
+ *         $ref: '#/components/responses/ValidationError'
+ */
+router.get('/profile/billing', userController.getBillingProfile);
+
+router.put(
+  '/profile/billing',
+  sanitizeBody,
+  [
+    body('companyName')
+      .optional({ nullable: true })
+      .isString()
+      .isLength({ max: 255 })
+      .withMessage('Company name must be less than 255 characters')
+      .trim(),
+    body('taxCode')
+      .optional({ nullable: true, checkFalsy: true })
+      .matches(/^\d{10}(-\d{3})?$/)
+      .withMessage('Tax code must be 10 digits, optionally followed by a 3-digit branch suffix'),
+    body('address')
+      .optional({ nullable: true })
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Address must be less than 500 characters')
+      .trim(),
+    body('invoiceEmail')
+      .optional({ nullable: true, checkFalsy: true })
+      .isEmail()
+      .withMessage('Invoice email must be a valid email address')
+      .normalizeEmail(),
+    validateRequest
+  ],
+  userController.updateBillingProfile
+);
+
 /**
  * @swagger
  * /api/users/stats:
@@ -828,6 +902,75 @@ router.patch(
   userController.bulkUpdateUsers
 );
 
+/**
+ * @swagger
+ * /api/users/two-factor-policies:
+ *   get:
+ *     summary: Get which roles are required to use two-factor authentication (Admin only)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: 2FA requirement per role
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.get(
+  '/two-factor-policies',
+  restrictTo('admin'),
+  userController.getTwoFactorPolicies
+);
+
+/**
+ * @swagger
+ * /api/users/two-factor-policies/{role}:
+ *   put:
+ *     summary: Require or stop requiring two-factor authentication for a role (Admin only)
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: role
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [student, teacher, admin]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - required
+ *             properties:
+ *               required:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Policy updated
+ *       403:
+ *         $ref: '#/components/responses/ForbiddenError'
+ */
+router.put(
+  '/two-factor-policies/:role',
+  restrictTo('admin'),
+  sanitizeBody,
+  parseBooleans(['required']),
+  [
+    param('role')
+      .isIn(['student', 'teacher', 'admin'])
+      .withMessage('Role must be student, teacher, or admin'),
+    body('required')
+      .isBoolean()
+      .withMessage('Required must be a boolean'),
+    validateRequest
+  ],
+  userController.updateTwoFactorPolicy
+);
+
 /**
  * @swagger
  * /api/users/{id}:
@@ -0,0 +1,175 @@
+// src/scripts/vnpay-sandbox.ts
+import express from 'express';
+import moment from 'moment';
+import vnpayService from '../services/vnpayService';
+import logger from '../utils/logger';
+
+/**
+ * Local stand-in for VNPay, for developing and testing payments without the VNPay sandbox.
+ *
+ * - GET  /paymentv2/vpcpay.html           payment page: approve or cancel, then redirect to vnp_ReturnUrl
+ *                                          (and send the IPN to VNPAY_SANDBOX_IPN_URL)
+ * - POST /merchant_webapi/api/transaction querydr and refund, answering from the transactions paid here
+ *
+ * Point the backend at it with:
+ *   VNPAY_URL=http://localhost:8888/paymentv2/vpcpay.html
+ *   VNPAY_API_URL=http://localhost:8888/merchant_webapi/api/transaction
+ * VNPAY_SANDBOX_REFUND_CODE forces the response code of every refund (e.g. 94) to test failures.
+ */
+
+interface SandboxTransaction {
+  txnRef: string;
+  amount: number;
+  orderInfo: string;
+  transactionNo: string;
+  payDate: string;
+  // '00' paid, '02' failed/cancelled
+  status: string;
+  refunded: number;
+}
+
+const port = parseInt(process.env.VNPAY_SANDBOX_PORT || '8888', 10);
+const ipnUrl = process.env.VNPAY_SANDBOX_IPN_URL || 'http://localhost:4000/api/payments/vnpay-ipn';
+const forcedRefundCode = process.env.VNPAY_SANDBOX_REFUND_CODE;
+
+const transactions = new Map<string, SandboxTransaction>();
+let sequence = Number(moment().format('HHmmss')) * 100;
+
+const nextTransactionNo = (): string => String(++sequence);
+
+const escapeHtml = (value: string): string =>
+  value.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const app = express();
+app.use(express.json());
+app.use(express.urlencoded({ extended: false }));
+
+app.get('/paymentv2/vpcpay.html', (req, res) => {
+  const params = { ...req.query } as Record<string, string>;
+
+  if (!vnpayService.verifyReturnUrl({ ...params } as any)) {
+    res.status(400).send('Invalid vnp_SecureHash');
+    return;
+  }
+
+  const hidden = ['vnp_TxnRef', 'vnp_Amount', 'vnp_OrderInfo', 'vnp_ReturnUrl', 'vnp_TmnCode', 'vnp_BankCode']
+    .map((key) => `<input type="hidden" name="${key}" value="${escapeHtml(params[key] ?? '')}">`)
+    .join('');
+
+  res.send(`<!doctype html>
+<html><body style="font-family: sans-serif; max-width: 420px; margin: 40px auto">
+  <h2>VNPay sandbox</h2>
+  <p>Order <b>${escapeHtml(params.vnp_TxnRef)}</b><br>${escapeHtml(params.vnp_OrderInfo ?? '')}</p>
+  <p>Amount: <b>${(Number(params.vnp_Amount) / 100).toLocaleString()} VND</b></p>
+  <form method="post" action="/paymentv2/complete">
+    ${hidden}
+    <button name="vnp_ResponseCode" value="00">Pay</button>
+    <button name="vnp_ResponseCode" value="24">Cancel</button>
+    <button name="vnp_ResponseCode" value="51">Insufficient balance</button>
+  </form>
+</body></html>`);
+});
+
+app.post('/paymentv2/complete', async (req, res) => {
+  const { vnp_TxnRef, vnp_Amount, vnp_OrderInfo, vnp_ReturnUrl, vnp_TmnCode, vnp_BankCode, vnp_ResponseCode } = req.body;
+  const transaction: SandboxTransaction = {
+    txnRef: vnp_TxnRef,
+    amount: Number(vnp_Amount) / 100,
+    orderInfo: vnp_OrderInfo,
+    transactionNo: nextTransactionNo(),
+    payDate: moment().format('YYYYMMDDHHmmss'),
+    status: vnp_ResponseCode === '00' ? '00' : '02',
+    refunded: 0
+  };
+  transactions.set(vnp_TxnRef, transaction);
+
+  const { queryString, secureHash } = vnpayService.signParams({
+    vnp_Amount,
+    vnp_BankCode: vnp_BankCode || 'NCB',
+    vnp_BankTranNo: `VNP${transaction.transactionNo}`,
+    vnp_CardType: 'ATM',
+    vnp_OrderInfo,
+    vnp_PayDate: transaction.payDate,
+    vnp_ResponseCode,
+    vnp_TmnCode,
+    vnp_TransactionNo: transaction.transactionNo,
+    vnp_TransactionStatus: transaction.status,
+    vnp_TxnRef
+  });
+  const signedQuery = `${queryString}&vnp_SecureHash=${secureHash}`;
+
+  // VNPay notifies the merchant server independently of the browser redirect
+  try {
+    const ipnResponse = await fetch(`${ipnUrl}?${signedQuery}`);
+    logger.info('VNPay sandbox IPN sent', { txnRef: vnp_TxnRef, response: await ipnResponse.json() });
+  } catch (error) {
+    logger.warn(`VNPay sandbox could not send IPN to ${ipnUrl}: ${(error as Error).message}`);
+  }
+
+  res.redirect(`${vnp_ReturnUrl}?${signedQuery}`);
+});
+
+app.post('/merchant_webapi/api/transaction', (req, res) => {
+  const { vnp_Command, vnp_TxnRef, vnp_RequestId, vnp_TmnCode } = req.body;
+  const transaction = transactions.get(vnp_TxnRef);
+  const base = {
+    vnp_ResponseId: nextTransactionNo(),
+    vnp_Command,
+    vnp_TmnCode,
+    vnp_TxnRef,
+    vnp_RequestId
+  };
+
+  if (!transaction) {
+    res.json({ ...base, vnp_ResponseCode: '91', vnp_Message: 'Transaction not found' });
+    return;
+  }
+
+  if (vnp_Command === 'querydr') {
+    res.json({
+      ...base,
+      vnp_ResponseCode: '00',
+      vnp_Message: 'QueryDR Success',
+      vnp_Amount: transaction.amount * 100,
+      vnp_OrderInfo: transaction.orderInfo,
+      vnp_PayDate: transaction.payDate,
+      vnp_TransactionNo: transaction.transactionNo,
+      vnp_TransactionType: '01',
+      vnp_TransactionStatus: transaction.status
+    });
+    return;
+  }
+
+  if (vnp_Command === 'refund') {
+    const amount = Number(req.body.vnp_Amount) / 100;
+
+    if (forcedRefundCode) {
+      res.json({ ...base, vnp_ResponseCode: forcedRefundCode, vnp_Message: 'Refund failed (forced by sandbox)' });
+      return;
+    }
+
+    if (transaction.status !== '00' || amount <= 0 || amount > transaction.amount - transaction.refunded) {
+      res.json({ ...base, vnp_ResponseCode: '93', vnp_Message: 'Invalid refund amount' });
+      return;
+    }
+
+    transaction.refunded += amount;
+
+    res.json({
+      ...base,
+      vnp_ResponseCode: '00',
+      vnp_Message: 'Refund success',
+      vnp_Amount: amount * 100,
+      vnp_TransactionNo: nextTransactionNo(),
+      vnp_TransactionType: req.body.vnp_TransactionType,
+      vnp_TransactionStatus: '05'
+    });
+    return;
+  }
+
+  res.json({ ...base, vnp_ResponseCode: '99', vnp_Message: `Unsupported command ${vnp_Command}` });
+});
+
+app.listen(port, () => {
+  logger.info(`VNPay sandbox listening on http://localhost:${port}`);
+});
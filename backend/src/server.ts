@@ -2,6 +2,9 @@
 import app from './app';
 import config from './config';
 import logger from './utils/logger';
+import socketService from './services/socketService';
+import reconciliationService from './services/reconciliationService';
+import codeGradingService from './services/codeGradingService';
 
 // Start the server
 const server = app.listen(config.port, () => {
@@ -9,6 +12,15 @@ const server = app.listen(config.port, () => {
   logger.info(`Environment: ${config.environment}`);
 });
 
+// Real-time messaging shares the HTTP server (and port) with the REST API
+socketService.initSocketServer(server);
+
+// Settle payments left pending by abandoned checkouts or missed IPNs
+reconciliationService.startReconciliationWorker();
+
+// Finish auto-grading coding submissions interrupted by a restart
+codeGradingService.startCodeGradingWorker();
+
 // Handle unhandled rejections
 process.on('unhandledRejection', (err: Error) => {
   logger.error('UNHANDLED REJECTION! Shutting down...');
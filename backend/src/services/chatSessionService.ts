@@ -0,0 +1,167 @@
+import { v4 as uuidv4 } from 'uuid';
+import db from '../db';
+import config from '../config';
+import { AIChatSession, AIChatSessionRow, ChatTurn } from '../types';
+import { ConversationContext, estimateTokens, summarizeConversation } from './openaiService';
+
+// Longest title derived from the first question of a session
+const MAX_TITLE_LENGTH = 60;
+
+const SESSION_SELECT = `
+  SELECT s.*, c.title as course_title,
+         (SELECT COUNT(*) FROM ai_chat_history h WHERE h.session_id = s.id) as turn_count,
+         (SELECT MAX(h.created_at) FROM ai_chat_history h WHERE h.session_id = s.id) as last_message_at
+  FROM ai_chat_sessions s
+  LEFT JOIN courses c ON s.course_id = c.id`;
+
+export const toChatSession = (row: AIChatSessionRow): AIChatSession => ({
+  id: row.id,
+  userId: row.user_id,
+  courseId: row.course_id ?? undefined,
+  courseTitle: row.course_title ?? undefined,
+  title: row.title,
+  turnCount: Number(row.turn_count ?? 0),
+  lastMessageAt: row.last_message_at ? new Date(row.last_message_at) : undefined,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at)
+});
+
+/**
+ * Title a new session after its first question
+ */
+export const titleFromQuery = (query: string): string => {
+  const title = query.replace(/\s+/g, ' ').trim();
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title;
+};
+
+/**
+ * Find a chat session owned by the user
+ */
+export const findSession = async (sessionId: string, userId: string): Promise<AIChatSessionRow | null> => {
+  const result = await db.query<AIChatSessionRow>(
+    `${SESSION_SELECT}
+     WHERE s.id = $1 AND s.user_id = $2`,
+    [sessionId, userId]
+  );
+
+  return result.rows[0] ?? null;
+};
+
+/**
+ * List the user's chat sessions, most recently active first
+ */
+export const listSessions = async (
+  userId: string,
+  options: { courseId?: string; limit: number; offset: number }
+): Promise<{ sessions: AIChatSessionRow[]; total: number }> => {
+  const params: any[] = [userId];
+  let where = 'WHERE s.user_id = $1';
+
+  if (options.courseId) {
+    params.push(options.courseId);
+    where += ` AND s.course_id = $${params.length}`;
+  }
+
+  const countResult = await db.query<{ total: number }>(
+    `SELECT COUNT(*) as total FROM ai_chat_sessions s ${where}`,
+    params
+  );
+
+  const result = await db.query<AIChatSessionRow>(
+    `${SESSION_SELECT}
+     ${where}
+     ORDER BY s.updated_at DESC
+     LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+    [...params, options.limit, options.offset]
+  );
+
+  return { sessions: result.rows, total: Number(countResult.rows[0]?.total ?? 0) };
+};
+
+/**
+ * Create a chat session
+ */
+export const createSession = async (
+  userId: string,
+  data: { courseId?: string | null; title?: string }
+): Promise<AIChatSessionRow> => {
+  const sessionId = uuidv4();
+
+  await db.query(
+    'INSERT INTO ai_chat_sessions (id, user_id, course_id, title) VALUES ($1, $2, $3, $4)',
+    [sessionId, userId, data.courseId || null, data.title || 'New chat']
+  );
+
+  return (await findSession(sessionId, userId)) as AIChatSessionRow;
+};
+
+/**
+ * Build the conversation replayed to the model for the next turn of a session.
+ *
+ * The last `historyTurns` turns are replayed verbatim. Once a session has more turns than that,
+ * or they no longer fit in `historyTokenBudget`, the oldest ones are folded into the session's
+ * running summary and only the newest half is kept, so summarization does not run on every turn.
+ *
+ * @returns The conversation context and the tokens spent on summarizing
+ */
+export const buildConversationContext = async (
+  session: AIChatSessionRow
+): Promise<{ conversation: ConversationContext; tokensUsed: number }> => {
+  const { historyTurns, historyTokenBudget } = config.aiChat;
+
+  const countResult = await db.query<{ total: number }>(
+    'SELECT COUNT(*) as total FROM ai_chat_history WHERE session_id = $1',
+    [session.id]
+  );
+  const totalTurns = Number(countResult.rows[0]?.total ?? 0);
+  const unsummarizedCount = totalTurns - session.summarized_turns;
+
+  if (unsummarizedCount <= 0 || historyTurns <= 0) {
+    return { conversation: { summary: session.summary, turns: [] }, tokensUsed: 0 };
+  }
+
+  const turnResult = await db.query<ChatTurn>(
+    `SELECT query, response FROM ai_chat_history
+     WHERE session_id = $1
+     ORDER BY created_at DESC, id DESC
+     LIMIT $2`,
+    [session.id, unsummarizedCount]
+  );
+  const turns = turnResult.rows.reverse();
+
+  const turnTokens = (turn: ChatTurn): number => estimateTokens(turn.query) + estimateTokens(turn.response);
+  const totalTokens = turns.reduce((total, turn) => total + turnTokens(turn), estimateTokens(session.summary ?? ''));
+
+  if (turns.length <= historyTurns && totalTokens <= historyTokenBudget) {
+    return { conversation: { summary: session.summary, turns }, tokensUsed: 0 };
+  }
+
+  // Keep the newest turns within half of both limits, summarize everything older
+  const kept: ChatTurn[] = [];
+  let keptTokens = 0;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const tokens = turnTokens(turns[i]);
+    if (kept.length >= Math.ceil(historyTurns / 2) || keptTokens + tokens > historyTokenBudget / 2) break;
+    kept.unshift(turns[i]);
+    keptTokens += tokens;
+  }
+
+  const folded = turns.slice(0, turns.length - kept.length);
+  const { summary, tokensUsed } = await summarizeConversation(session.summary, folded);
+
+  await db.query(
+    'UPDATE ai_chat_sessions SET summary = $1, summarized_turns = $2 WHERE id = $3',
+    [summary, session.summarized_turns + folded.length, session.id]
+  );
+
+  return { conversation: { summary, turns: kept }, tokensUsed };
+};
+
+export default {
+  toChatSession,
+  titleFromQuery,
+  findSession,
+  listSessions,
+  createSession,
+  buildConversationContext
+};
@@ -0,0 +1,142 @@
+jest.mock('../db', () => ({ __esModule: true, default: { query: jest.fn(), transaction: jest.fn() } }));
+
+import { readHarnessReport } from './codeGradingService';
+
+const TOKEN = 'token-123';
+
+const signed = (...fields: string[]): string => [TOKEN, ...fields].join('\t');
+const channelOf = (...lines: string[]): string => `${lines.join('\n')}\n`;
+
+const passed = (index: number, name: string): string => signed('result', String(index), 'pass', JSON.stringify(name), 'null');
+const failed = (index: number, name: string, message: string): string =>
+  signed('result', String(index), 'fail', JSON.stringify(name), JSON.stringify(message));
+
+describe('readHarnessReport', () => {
+  it('reads every declared result once the harness is done', () => {
+    const report = readHarnessReport(
+      channelOf(signed('declared', '2'), passed(0, 'adds'), failed(1, 'subtracts', 'expected 1, got 2'), signed('done')),
+      TOKEN
+    );
+
+    expect(report).toEqual({
+      loadError: null,
+      checks: [
+        { name: 'adds', passed: true },
+        { name: 'subtracts', passed: false, message: 'expected 1, got 2' }
+      ]
+    });
+  });
+
+  it('reports a test file that failed to load', () => {
+    const report = readHarnessReport(channelOf(signed('load', JSON.stringify('SyntaxError: Unexpected token'))), TOKEN);
+
+    expect(report).toEqual({ loadError: 'SyntaxError: Unexpected token', checks: [] });
+  });
+
+  describe('forged lines', () => {
+    it('ignores lines that are not signed with the token', () => {
+      const report = readHarnessReport(
+        channelOf(
+          signed('declared', '1'),
+          ['forged', 'result', '0', 'pass', JSON.stringify('adds'), 'null'].join('\t'),
+          failed(0, 'adds', 'wrong answer'),
+          'console output\tdone',
+          signed('done')
+        ),
+        TOKEN
+      );
+
+      expect(report?.checks).toEqual([{ name: 'adds', passed: false, message: 'wrong answer' }]);
+    });
+
+    it('cannot complete a run with unsigned results and an unsigned done', () => {
+      const report = readHarnessReport(
+        channelOf(
+          signed('declared', '1'),
+          ['', 'result', '0', 'pass', JSON.stringify('adds'), 'null'].join('\t'),
+          ['', 'done'].join('\t')
+        ),
+        TOKEN
+      );
+
+      expect(report).toBeNull();
+    });
+
+    it('rejects a signed line of an unknown kind', () => {
+      const report = readHarnessReport(channelOf(signed('declared', '1'), signed('score', '100'), passed(0, 'adds'), signed('done')), TOKEN);
+
+      expect(report).toBeNull();
+    });
+
+    it('rejects a result that is not valid JSON', () => {
+      const report = readHarnessReport(
+        channelOf(signed('declared', '1'), signed('result', '0', 'pass', 'adds', 'null'), signed('done')),
+        TOKEN
+      );
+
+      expect(report).toBeNull();
+    });
+  });
+
+  describe('missing lines', () => {
+    it('rejects a run that reported fewer results than it declared', () => {
+      const report = readHarnessReport(channelOf(signed('declared', '2'), passed(0, 'adds'), signed('done')), TOKEN);
+
+      expect(report).toBeNull();
+    });
+
+    it('rejects a run that never finished', () => {
+      const report = readHarnessReport(channelOf(signed('declared', '1'), passed(0, 'adds')), TOKEN);
+
+      expect(report).toBeNull();
+    });
+
+    it('rejects results reported before the tests were declared', () => {
+      const report = readHarnessReport(channelOf(passed(0, 'adds'), signed('declared', '1'), signed('done')), TOKEN);
+
+      expect(report).toBeNull();
+    });
+
+    it('rejects an empty channel', () => {
+      expect(readHarnessReport('', TOKEN)).toBeNull();
+    });
+  });
+
+  describe('duplicate lines', () => {
+    it('rejects a result reported twice', () => {
+      const report = readHarnessReport(
+        channelOf(signed('declared', '2'), passed(0, 'adds'), passed(0, 'adds'), passed(1, 'subtracts'), signed('done')),
+        TOKEN
+      );
+
+      expect(report).toBeNull();
+    });
+
+    it('rejects a second declaration', () => {
+      const report = readHarnessReport(
+        channelOf(signed('declared', '1'), signed('declared', '0'), passed(0, 'adds'), signed('done')),
+        TOKEN
+      );
+
+      expect(report).toBeNull();
+    });
+
+    it('rejects more results than were declared', () => {
+      const report = readHarnessReport(
+        channelOf(signed('declared', '1'), passed(0, 'adds'), passed(1, 'extra'), signed('done')),
+        TOKEN
+      );
+
+      expect(report).toBeNull();
+    });
+
+    it('rejects results after the harness finished', () => {
+      const report = readHarnessReport(
+        channelOf(signed('declared', '1'), passed(0, 'adds'), signed('done'), passed(0, 'adds')),
+        TOKEN
+      );
+
+      expect(report).toBeNull();
+    });
+  });
+});
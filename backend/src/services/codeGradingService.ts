@@ -0,0 +1,719 @@
+import crypto from 'crypto';
+import ts from 'typescript';
+import { v4 as uuidv4 } from 'uuid';
+import db from '../db';
+import config from '../config';
+import AppError from '../utils/appError';
+import logger from '../utils/logger';
+import notificationService from './notificationService';
+import { runInSandbox, SandboxRun, sandboxUnavailableReason } from './codeSandbox';
+import { parseJsonColumn } from './rubricService';
+import { CodeLanguage, SubmissionRow, TestCaseRow } from '../types';
+import { CodeGradingReport, CodeTestCase, TestCaseResult } from '../types/models';
+
+const MAX_TEST_CASES = 50;
+const MAX_TEST_POINTS = 100;
+// Longest stdin, expected output or test file a teacher can save
+const MAX_TEST_TEXT_LENGTH = 200000;
+// How much of the submission's output and errors is kept in the report
+const MAX_REPORTED_OUTPUT = 2000;
+
+/**
+ * Entry point of test_file tests. It runs before the submission is loaded and keeps its own copies of the
+ * built-ins it reports with, since the submission shares its realm and can replace any global. Each event is
+ * its own line signed with a token the submission cannot read, and the server checks the lines add up.
+ */
+const HARNESS_SOURCE = `'use strict';
+const writeSync = require('fs').writeSync;
+const isPromise = require('util').types.isPromise;
+const stringify = JSON.stringify;
+const toText = String;
+const slice = Function.prototype.call.bind(String.prototype.slice);
+const promiseThen = Function.prototype.call.bind(Promise.prototype.then);
+const exit = process.exit.bind(process);
+const assert = require('assert');
+Object.freeze(assert.strict);
+Object.freeze(assert);
+const token = process.env.GRADER_TOKEN;
+delete process.env.GRADER_TOKEN;
+const tests = Object.create(null);
+let count = 0;
+const register = (name, fn) => {
+  tests[count] = { name: typeof name === 'string' ? name : 'test', fn };
+  count += 1;
+};
+for (const [name, value] of [['test', register], ['it', register], ['assert', assert]]) {
+  Object.defineProperty(globalThis, name, { value, writable: false, configurable: false });
+}
+const send = (line) => {
+  writeSync(3, token + '\\t' + line + '\\n');
+};
+const messageOf = (error) => {
+  try {
+    const message = error !== null && typeof error === 'object' ? error.message : undefined;
+    const text = typeof message === 'string' ? message : toText(error);
+    return typeof text === 'string' ? slice(text, 0, 1000) : 'failed';
+  } catch {
+    return 'failed';
+  }
+};
+const report = (index, passed, error) => {
+  send('result\\t' + index + '\\t' + (passed ? 'pass' : 'fail') + '\\t' + stringify(tests[index].name) +
+    '\\t' + (passed ? 'null' : stringify(messageOf(error))));
+};
+let declared = 0;
+const runFrom = (start) => {
+  for (let index = start; index < declared; index++) {
+    const fn = tests[index].fn;
+    let returned;
+    try {
+      returned = fn();
+    } catch (error) {
+      report(index, false, error);
+      continue;
+    }
+    if (isPromise(returned)) {
+      promiseThen(
+        returned,
+        () => { report(index, true); runFrom(index + 1); },
+        (error) => { report(index, false, error); runFrom(index + 1); }
+      );
+      return;
+    }
+    report(index, true);
+  }
+  send('done');
+  exit(0);
+};
+let loadError = null;
+try {
+  require('./tests.js');
+} catch (error) {
+  loadError = messageOf(error);
+}
+if (loadError !== null) {
+  send('load\\t' + stringify(loadError));
+  exit(0);
+} else {
+  declared = count;
+  send('declared\\t' + declared);
+  runFrom(0);
+}
+`;
+
+interface HarnessReport {
+  loadError: string | null;
+  checks: { name: string; passed: boolean; message?: string }[];
+}
+
+/**
+ * Read the harness lines signed with the token. Null unless the file loaded and every declared test
+ * reported exactly once before the harness finished; anything else means the run was cut short or tampered with.
+ */
+export const readHarnessReport = (channel: string, token: string): HarnessReport | null => {
+  let declared: number | null = null;
+  let done = false;
+  const checks: HarnessReport['checks'] = [];
+
+  try {
+    for (const line of channel.split('\n')) {
+      const [lineToken, kind, ...fields] = line.split('\t');
+      if (lineToken !== token) {
+        continue;
+      }
+
+      if (kind === 'load') {
+        return { loadError: String(JSON.parse(fields[0])), checks: [] };
+      }
+      if (kind === 'declared' && declared === null) {
+        declared = Number(fields[0]);
+      } else if (kind === 'result' && declared !== null && !done) {
+        const [index, outcome, name, message] = fields;
+        if (Number(index) !== checks.length || checks.length >= declared) {
+          return null;
+        }
+        const reportedMessage = JSON.parse(message) as string | null;
+        checks.push({
+          name: String(JSON.parse(name)),
+          passed: outcome === 'pass',
+          ...(outcome === 'pass' ? {} : { message: reportedMessage ?? 'failed' })
+        });
+      } else if (kind === 'done' && declared !== null) {
+        done = true;
+      } else {
+        return null;
+      }
+    }
+  } catch {
+    return null;
+  }
+
+  if (!done || declared === null || !Number.isInteger(declared) || checks.length !== declared) {
+    return null;
+  }
+  return { loadError: null, checks };
+};
+
+// Submissions waiting for a slot or being graded; a submission queued again while it runs is graded once more
+const queued = new Set<string>();
+const requeued = new Set<string>();
+const waiting: (() => void)[] = [];
+let activeSlots = 0;
+
+/**
+ * Wait for one of the `CODE_GRADING_CONCURRENCY` slots, so a burst of submissions cannot start
+ * more child processes than the server can take
+ */
+const acquireSlot = async (): Promise<void> => {
+  if (activeSlots >= Math.max(1, config.codeGrading.concurrency)) {
+    // The releasing run hands its slot over directly
+    await new Promise<void>((resolve) => waiting.push(resolve));
+    return;
+  }
+  activeSlots++;
+};
+
+const releaseSlot = (): void => {
+  const next = waiting.shift();
+  if (next) {
+    next();
+  } else {
+    activeSlots--;
+  }
+};
+
+const withSlot = async <T>(work: () => Promise<T>): Promise<T> => {
+  await acquireSlot();
+  try {
+    return await work();
+  } finally {
+    releaseSlot();
+  }
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalText = (value: unknown, label: string): string | null => {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    throw new AppError(`${label} must be text`, 400);
+  }
+  if (value.length > MAX_TEST_TEXT_LENGTH) {
+    throw new AppError(`${label} must be at most ${MAX_TEST_TEXT_LENGTH} characters`, 400);
+  }
+  return value;
+};
+
+/**
+ * Validate the test cases sent by a teacher
+ */
+export const normalizeTestCases = (input: unknown): CodeTestCase[] => {
+  if (!Array.isArray(input)) {
+    throw new AppError('Test cases must be a list', 400);
+  }
+
+  if (input.length > MAX_TEST_CASES) {
+    throw new AppError(`An assignment can have at most ${MAX_TEST_CASES} test cases`, 400);
+  }
+
+  return input.map((testCase: unknown, index: number): CodeTestCase => {
+    const position = index + 1;
+    if (!isRecord(testCase)) {
+      throw new AppError(`Test case ${position} is invalid`, 400);
+    }
+
+    const name = typeof testCase.name === 'string' && testCase.name.trim()
+      ? testCase.name.trim().slice(0, 255)
+      : `Test ${position}`;
+
+    const kind = testCase.kind ?? 'io';
+    if (kind !== 'io' && kind !== 'test_file') {
+      throw new AppError(`Test case "${name}" must be an io or test_file test`, 400);
+    }
+
+    const points = testCase.points === undefined ? 1 : Number(testCase.points);
+    if (!Number.isInteger(points) || points < 1 || points > MAX_TEST_POINTS) {
+      throw new AppError(`Test case "${name}" needs a whole number of points between 1 and ${MAX_TEST_POINTS}`, 400);
+    }
+
+    const stdin = optionalText(testCase.stdin, `The input of "${name}"`);
+    const expectedOutput = optionalText(testCase.expectedOutput, `The expected output of "${name}"`);
+    const testCode = optionalText(testCase.testCode, `The test file of "${name}"`);
+
+    if (kind === 'io' && expectedOutput === null) {
+      throw new AppError(`Test case "${name}" needs the expected output`, 400);
+    }
+    if (kind === 'test_file' && (testCode === null || testCode.trim() === '')) {
+      throw new AppError(`Test case "${name}" needs a test file`, 400);
+    }
+
+    return {
+      name,
+      kind,
+      stdin: kind === 'io' ? stdin : null,
+      expectedOutput: kind === 'io' ? expectedOutput : null,
+      testCode: kind === 'test_file' ? testCode : null,
+      points,
+      // Test cases are hidden unless the teacher shows them as examples
+      isHidden: testCase.isHidden !== false
+    };
+  });
+};
+
+const toTestCase = (row: TestCaseRow): CodeTestCase => ({
+  id: row.id,
+  name: row.name,
+  kind: row.kind,
+  stdin: row.stdin,
+  expectedOutput: row.expected_output,
+  testCode: row.test_code,
+  points: Number(row.points),
+  isHidden: Boolean(row.is_hidden)
+});
+
+export const getTestCases = async (assignmentId: string): Promise<CodeTestCase[]> => {
+  const result = await db.query<TestCaseRow>(
+    'SELECT * FROM assignment_test_cases WHERE assignment_id = $1 ORDER BY position ASC',
+    [assignmentId]
+  );
+  return result.rows.map(toTestCase);
+};
+
+export const hasTestCases = async (assignmentId: string): Promise<boolean> => {
+  const result = await db.query('SELECT COUNT(*) as count FROM assignment_test_cases WHERE assignment_id = $1', [assignmentId]);
+  return Number(result.rows[0].count) > 0;
+};
+
+/**
+ * Replace the assignment's test cases. Attaching tests makes it a coding assignment in the given language;
+ * an empty list turns auto-grading off.
+ */
+export const setTestCases = async (
+  assignmentId: string,
+  language: CodeLanguage,
+  input: unknown
+): Promise<CodeTestCase[]> => {
+  const testCases = normalizeTestCases(input);
+
+  await db.transaction(async (connection) => {
+    await connection.execute('DELETE FROM assignment_test_cases WHERE assignment_id = ?', [assignmentId]);
+
+    for (const [index, testCase] of testCases.entries()) {
+      await connection.execute(
+        `INSERT INTO assignment_test_cases
+           (id, assignment_id, name, kind, stdin, expected_output, test_code, points, is_hidden, position)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          uuidv4(),
+          assignmentId,
+          testCase.name,
+          testCase.kind,
+          testCase.stdin,
+          testCase.expectedOutput,
+          testCase.testCode,
+          testCase.points,
+          testCase.isHidden,
+          index + 1
+        ]
+      );
+    }
+
+    await connection.execute(
+      `UPDATE assignments SET assignment_type = 'coding', code_language = ?, updated_at = NOW() WHERE id = ?`,
+      [language, assignmentId]
+    );
+  });
+
+  return getTestCases(assignmentId);
+};
+
+/**
+ * Turn JavaScript or TypeScript into CommonJS for Node. Types are stripped, not checked;
+ * `import()` becomes `require()`, so it goes through the sandbox's module filter.
+ */
+const compileSource = (source: string, fileName: string): { code: string; error: string | null } => {
+  const output = ts.transpileModule(source, {
+    fileName,
+    reportDiagnostics: true,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true
+    }
+  });
+
+  const diagnostics = output.diagnostics ?? [];
+  if (diagnostics.length === 0) {
+    return { code: output.outputText, error: null };
+  }
+
+  const error = diagnostics
+    .slice(0, 10)
+    .map((diagnostic) => {
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+      if (!diagnostic.file || diagnostic.start === undefined) {
+        return message;
+      }
+      const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+      return `${fileName}:${line + 1}:${character + 1} - ${message}`;
+    })
+    .join('\n');
+  return { code: '', error };
+};
+
+const sourceFileName = (name: string, language: CodeLanguage): string =>
+  `${name}.${language === 'typescript' ? 'ts' : 'js'}`;
+
+const tail = (text: string): string =>
+  text.length > MAX_REPORTED_OUTPUT ? `...${text.slice(-MAX_REPORTED_OUTPUT)}` : text;
+
+// Line endings and trailing whitespace do not count when comparing output
+const normalizeOutput = (text: string): string =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/\n+$/, '');
+
+const limitMessage = (run: SandboxRun): string => {
+  const { timeLimitMs, memoryLimitMb, maxOutputBytes } = config.codeGrading;
+  switch (run.limit) {
+    case 'memory_limit':
+      return `Ran out of memory (${memoryLimitMb} MB)`;
+    case 'output_limit':
+      return `Printed more than ${maxOutputBytes} bytes`;
+    default:
+      return `Did not finish within ${timeLimitMs} ms`;
+  }
+};
+
+const runOptions = () => ({
+  timeLimitMs: config.codeGrading.timeLimitMs,
+  memoryLimitMb: config.codeGrading.memoryLimitMb,
+  maxOutputBytes: config.codeGrading.maxOutputBytes
+});
+
+/**
+ * io test: the submission reads the input on stdin and must print the expected output
+ */
+const runIoTest = async (solution: string, testCase: CodeTestCase): Promise<Omit<TestCaseResult, 'testCaseId' | 'name' | 'kind' | 'isHidden' | 'points' | 'pointsAwarded'>> => {
+  const run = await runInSandbox({ 'solution.js': solution }, 'solution.js', { ...runOptions(), stdin: testCase.stdin ?? '' });
+  const actualOutput = tail(run.stdout);
+
+  if (run.limit) {
+    return { outcome: run.limit, durationMs: run.durationMs, message: limitMessage(run), actualOutput };
+  }
+  if (run.exitCode !== 0) {
+    return {
+      outcome: 'error',
+      durationMs: run.durationMs,
+      message: tail(run.stderr.trim()) || `Exited with code ${run.exitCode}`,
+      actualOutput
+    };
+  }
+
+  const passed = normalizeOutput(run.stdout) === normalizeOutput(testCase.expectedOutput ?? '');
+  return {
+    outcome: passed ? 'passed' : 'failed',
+    durationMs: run.durationMs,
+    message: passed ? undefined : 'The output does not match the expected output',
+    actualOutput
+  };
+};
+
+/**
+ * test_file test: the teacher's file requires ./solution and calls test(name, fn) with the global assert.
+ * It passes when it declares at least one test and every test passes.
+ */
+const runFileTest = async (
+  solution: string,
+  testCase: CodeTestCase,
+  language: CodeLanguage
+): Promise<Omit<TestCaseResult, 'testCaseId' | 'name' | 'kind' | 'isHidden' | 'points' | 'pointsAwarded'>> => {
+  const compiledTests = compileSource(testCase.testCode ?? '', sourceFileName('tests', language));
+  if (compiledTests.error) {
+    return { outcome: 'error', durationMs: 0, message: `The test file does not compile:\n${compiledTests.error}` };
+  }
+
+  const token = crypto.randomBytes(16).toString('hex');
+  const run = await runInSandbox(
+    { 'solution.js': solution, 'tests.js': compiledTests.code, 'harness.js': HARNESS_SOURCE },
+    'harness.js',
+    { ...runOptions(), env: { GRADER_TOKEN: token } }
+  );
+
+  if (run.limit) {
+    return { outcome: run.limit, durationMs: run.durationMs, message: limitMessage(run) };
+  }
+
+  const report = readHarnessReport(run.channel, token);
+  if (!report) {
+    return {
+      outcome: 'error',
+      durationMs: run.durationMs,
+      message: tail(run.stderr.trim()) || 'The program exited before the tests finished'
+    };
+  }
+
+  if (report.loadError !== null) {
+    return { outcome: 'error', durationMs: run.durationMs, message: report.loadError, checks: [] };
+  }
+
+  const failed = report.checks.find((check) => !check.passed);
+  const passed = report.checks.length > 0 && !failed;
+  return {
+    outcome: passed ? 'passed' : 'failed',
+    durationMs: run.durationMs,
+    message: failed
+      ? `${failed.name}: ${failed.message ?? 'failed'}`
+      : report.checks.length === 0 ? 'The test file does not declare any test' : undefined,
+    checks: report.checks
+  };
+};
+
+/**
+ * Compile the code and run it against every test case, one child process per test
+ */
+export const runTests = async (
+  language: CodeLanguage,
+  code: string,
+  testCases: CodeTestCase[]
+): Promise<CodeGradingReport> => {
+  const maxScore = testCases.reduce((sum, testCase) => sum + testCase.points, 0);
+  const report: CodeGradingReport = { language, compileError: null, score: 0, maxScore, tests: [] };
+
+  if (!code.trim()) {
+    report.compileError = 'The submission has no code';
+    return report;
+  }
+
+  const solution = compileSource(code, sourceFileName('solution', language));
+  if (solution.error) {
+    report.compileError = solution.error;
+    return report;
+  }
+
+  for (const testCase of testCases) {
+    const result = testCase.kind === 'io'
+      ? await runIoTest(solution.code, testCase)
+      : await runFileTest(solution.code, testCase, language);
+    const pointsAwarded = result.outcome === 'passed' ? testCase.points : 0;
+
+    report.tests.push({
+      testCaseId: testCase.id ?? '',
+      name: testCase.name,
+      kind: testCase.kind,
+      isHidden: testCase.isHidden,
+      points: testCase.points,
+      pointsAwarded,
+      ...result
+    });
+    report.score += pointsAwarded;
+  }
+
+  return report;
+};
+
+/**
+ * Run code a teacher is trying out against the assignment's test cases, without saving anything
+ */
+export const runAgainstTestCases = async (
+  assignmentId: string,
+  language: CodeLanguage,
+  code: string
+): Promise<CodeGradingReport> => {
+  const testCases = await getTestCases(assignmentId);
+  if (testCases.length === 0) {
+    throw new AppError('This assignment has no test cases yet', 400);
+  }
+  return withSlot(() => runTests(language, code, testCases));
+};
+
+/**
+ * What a student sees of a report: hidden tests keep their outcome and points but not the output,
+ * error messages or assertion details that would give their content away
+ */
+export const toStudentReport = (report: CodeGradingReport | null): CodeGradingReport | null => {
+  if (!report) {
+    return null;
+  }
+
+  return {
+    ...report,
+    tests: report.tests.map((test) => {
+      if (!test.isHidden) {
+        return test;
+      }
+      const { message, actualOutput, checks, ...rest } = test;
+      return checks ? { ...rest, checks: checks.map((check) => ({ name: check.name, passed: check.passed })) } : rest;
+    })
+  };
+};
+
+export const parseReport = (value: unknown): CodeGradingReport | null => parseJsonColumn<CodeGradingReport>(value);
+
+/**
+ * Grade a submission with the assignment's test cases. The score is scaled to the assignment's points and stored
+ * as auto_score; it also becomes the grade, with the late penalty, unless the assignment uses a rubric or a teacher
+ * has already graded the attempt.
+ */
+const gradeSubmission = async (submissionId: string): Promise<void> => {
+  const submissionResult = await db.query<SubmissionRow>(
+    `SELECT s.*, a.title as assignment_title, a.max_points, a.late_penalty_percent, a.code_language, a.grading_rubric
+     FROM assignment_submissions s
+     JOIN assignments a ON s.assignment_id = a.id
+     WHERE s.id = $1`,
+    [submissionId]
+  );
+  const submission = submissionResult.rows[0];
+  if (!submission) {
+    return;
+  }
+
+  const testCases = await getTestCases(submission.assignment_id);
+  if (testCases.length === 0) {
+    await db.query('UPDATE assignment_submissions SET auto_grade_status = NULL WHERE id = $1', [submissionId]);
+    return;
+  }
+
+  await db.query(`UPDATE assignment_submissions SET auto_grade_status = 'running' WHERE id = $1`, [submissionId]);
+
+  const report = await runTests(submission.code_language ?? 'javascript', submission.submission_text ?? '', testCases);
+  const maxPoints = Number(submission.max_points);
+  const autoScore = report.maxScore > 0 ? Math.round((report.score / report.maxScore) * maxPoints * 100) / 100 : 0;
+
+  await db.query(
+    `UPDATE assignment_submissions
+     SET auto_grade_status = 'completed', auto_score = $1, test_results = $2, auto_graded_at = NOW()
+     WHERE id = $3`,
+    [autoScore, JSON.stringify(report), submissionId]
+  );
+
+  const passedCount = report.tests.filter((test) => test.outcome === 'passed').length;
+  logger.info('Submission auto-graded', { submissionId, score: report.score, maxScore: report.maxScore });
+
+  // A rubric is filled in by the teacher, who sees the test results while grading
+  if (submission.grading_rubric) {
+    return;
+  }
+
+  const penaltyPercent = submission.is_late ? Number(submission.late_penalty_percent) : 0;
+  const grade = Math.round(autoScore * (100 - penaltyPercent)) / 100;
+
+  // Only attempts waiting for a grade or graded automatically before; a teacher's grade stays
+  const updateResult = await db.query(
+    `UPDATE assignment_submissions
+     SET grade = $1, raw_grade = $2, graded_at = NOW(), graded_by = NULL, submission_status = 'graded'
+     WHERE id = $3 AND (submission_status = 'submitted' OR (submission_status = 'graded' AND graded_by IS NULL))`,
+    [grade, autoScore, submissionId]
+  );
+
+  if (updateResult.rowCount === 0) {
+    return;
+  }
+
+  const summary = report.compileError
+    ? 'your code does not compile'
+    : `${passedCount} of ${report.tests.length} tests passed`;
+  await notificationService.notify({
+    userId: submission.user_id,
+    type: 'grade',
+    title: 'Assignment graded',
+    message: penaltyPercent > 0
+      ? `Your late submission for "${submission.assignment_title}" was graded automatically (${summary}): ${autoScore}/${maxPoints}, ${grade} after the ${penaltyPercent}% late penalty.`
+      : `Your submission for "${submission.assignment_title}" was graded automatically (${summary}): ${autoScore}/${maxPoints}.`,
+    referenceType: 'submission',
+    referenceId: submissionId,
+    link: '/dashboard/student/grades'
+  });
+};
+
+const processSubmission = async (submissionId: string): Promise<void> => {
+  try {
+    await withSlot(() => gradeSubmission(submissionId));
+  } catch (error) {
+    logger.error('Auto-grading failed:', error);
+    await db.query(`UPDATE assignment_submissions SET auto_grade_status = 'failed' WHERE id = $1`, [submissionId])
+      .catch(() => undefined);
+  }
+
+  if (requeued.delete(submissionId)) {
+    await processSubmission(submissionId);
+    return;
+  }
+  queued.delete(submissionId);
+};
+
+/**
+ * Queue a submission for auto-grading in this process. Returns once it is marked pending, or false when
+ * auto-grading is turned off or the sandbox is not available on this server; grading runs in the background,
+ * `CODE_GRADING_CONCURRENCY` submissions at a time.
+ */
+export const enqueueSubmission = async (submissionId: string): Promise<boolean> => {
+  if (!config.codeGrading.enabled) {
+    return false;
+  }
+
+  const unavailable = await sandboxUnavailableReason();
+  if (unavailable) {
+    logger.error(`Not auto-grading submission ${submissionId}: ${unavailable}`);
+    return false;
+  }
+
+  await db.query(`UPDATE assignment_submissions SET auto_grade_status = 'pending' WHERE id = $1`, [submissionId]);
+
+  // Resubmitted while being graded: grade the new code once this run finishes
+  if (queued.has(submissionId)) {
+    requeued.add(submissionId);
+    return true;
+  }
+
+  queued.add(submissionId);
+  void processSubmission(submissionId);
+  return true;
+};
+
+/**
+ * Check the sandbox works on this server, then pick up submissions left pending or running when the server stopped
+ */
+export const startCodeGradingWorker = (): void => {
+  if (!config.codeGrading.enabled) {
+    return;
+  }
+
+  sandboxUnavailableReason()
+    .then((unavailable) => {
+      if (unavailable) {
+        throw new Error(`CODE_GRADING_ENABLED is set but submissions cannot be run safely: ${unavailable}`);
+      }
+      return db.query<SubmissionRow>(
+        `SELECT id FROM assignment_submissions WHERE auto_grade_status IN ('pending', 'running') ORDER BY submitted_at ASC`
+      );
+    })
+    .then(async (result) => {
+      for (const submission of result.rows) {
+        await enqueueSubmission(submission.id);
+      }
+      if (result.rows.length > 0) {
+        logger.info(`Resumed auto-grading of ${result.rows.length} submissions`);
+      }
+    })
+    .catch((error) => logger.error('Could not resume auto-grading:', error));
+};
+
+export default {
+  normalizeTestCases,
+  getTestCases,
+  hasTestCases,
+  setTestCases,
+  runTests,
+  runAgainstTestCases,
+  toStudentReport,
+  parseReport,
+  enqueueSubmission,
+  startCodeGradingWorker
+};
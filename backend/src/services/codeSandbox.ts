@@ -0,0 +1,306 @@
+import { spawn } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import config from '../config';
+import AppError from '../utils/appError';
+
+export type SandboxLimit = 'timeout' | 'memory_limit' | 'output_limit';
+
+export interface SandboxOptions {
+  stdin?: string;
+  env?: Record<string, string>;
+  timeLimitMs: number;
+  memoryLimitMb: number;
+  // Cap on stdout + stderr together
+  maxOutputBytes: number;
+}
+
+export interface SandboxRun {
+  stdout: string;
+  stderr: string;
+  // What the program wrote to fd 3; the test harness reports through it so student output cannot mix in
+  channel: string;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  durationMs: number;
+  // The limit that stopped the program, if any
+  limit: SandboxLimit | null;
+}
+
+// Modules that reach the network, start processes or compile code from strings
+const BLOCKED_MODULES = [
+  'net', 'tls', 'http', 'https', 'http2', 'dgram', 'dns', 'child_process', 'cluster', 'worker_threads',
+  'inspector', 'vm', 'module', 'repl', 'v8', 'wasi'
+];
+
+/**
+ * Loaded with --require before the submission. Node has no switch to turn the network off, so the
+ * modules and globals that reach it are removed here.
+ */
+const PRELOAD_SOURCE = `'use strict';
+const Module = require('module');
+const blocked = new Set(${JSON.stringify(BLOCKED_MODULES)});
+const load = Module._load;
+Module._load = function (request) {
+  const name = String(request).replace(/^node:/, '').split('/')[0];
+  if (blocked.has(name)) {
+    throw new Error('Module "' + request + '" is not available when grading');
+  }
+  return load.apply(this, arguments);
+};
+for (const name of ['fetch', 'WebSocket', 'EventSource', 'Request', 'Response', 'Headers', 'FormData']) {
+  delete globalThis[name];
+}
+const denied = () => {
+  throw new Error('Native bindings are not available when grading');
+};
+for (const name of ['binding', '_linkedBinding', 'dlopen', 'getBuiltinModule']) {
+  Object.defineProperty(process, name, { value: denied, configurable: false, writable: false });
+}
+`;
+
+const nodeMajorVersion = Number(process.versions.node.split('.')[0]);
+
+// V8 reserves about 750 MB of address space at startup; the memory limit comes on top of it
+const ADDRESS_SPACE_OVERHEAD_MB = 768;
+
+const UNSHARE_PATHS = ['/usr/bin/unshare', '/bin/unshare'];
+
+/**
+ * The permission model denies file system access outside the sandbox directory,
+ * child processes, worker threads and native addons
+ */
+const permissionArgs = (dir: string): string[] => [
+  nodeMajorVersion >= 22 ? '--permission' : '--experimental-permission',
+  `--allow-fs-read=${dir}${path.sep}`
+];
+
+/**
+ * A server running as root hands the submission to the unprivileged `CODE_GRADING_UID`;
+ * otherwise it already runs as the server's own unprivileged user
+ */
+const childIdentity = (): { uid: number; gid: number } | null =>
+  process.getuid?.() === 0 ? { uid: config.codeGrading.uid, gid: config.codeGrading.gid } : null;
+
+const runNode = (dir: string, entry: string, options: SandboxOptions, unshare: string): Promise<SandboxRun> => {
+  const nodeArgs = [
+    '--no-warnings',
+    `--max-old-space-size=${options.memoryLimitMb}`,
+    '--disallow-code-generation-from-strings',
+    ...permissionArgs(dir),
+    '--require', path.join(dir, 'preload.js'),
+    path.join(dir, entry)
+  ];
+  const spawnOptions = {
+    cwd: dir,
+    // Nothing from the server's environment (secrets, database URL) reaches the submission
+    env: options.env ?? {},
+    stdio: ['pipe', 'pipe', 'pipe', 'pipe'] as ('pipe')[],
+    ...childIdentity()
+  };
+
+  // CPU time and address space are capped as well as wall clock time and the JS heap, so a busy loop cannot
+  // outlive a stalled timer and buffers allocated outside the heap cannot take the server's memory
+  const cpuSeconds = Math.max(1, Math.ceil(options.timeLimitMs / 1000));
+  const addressSpaceKb = (options.memoryLimitMb + ADDRESS_SPACE_OVERHEAD_MB) * 1024;
+  // A new user and network namespace: the submission has no network interface at all
+  const child = spawn(
+    unshare,
+    [
+      '--user', '--net', '--',
+      '/bin/sh', '-c', `ulimit -t ${cpuSeconds} && ulimit -v ${addressSpaceKb} && exec "$0" "$@"`,
+      process.execPath, ...nodeArgs
+    ],
+    spawnOptions
+  );
+
+  return new Promise((resolve) => {
+    const started = Date.now();
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    const channel: Buffer[] = [];
+    let outputBytes = 0;
+    let limit: SandboxLimit | null = null;
+
+    const stop = (reason: SandboxLimit) => {
+      limit = limit ?? reason;
+      child.kill('SIGKILL');
+    };
+    const timer = setTimeout(() => stop('timeout'), options.timeLimitMs);
+
+    const collect = (stream: Readable, chunks: Buffer[], counted: boolean) => {
+      stream.on('data', (chunk: Buffer) => {
+        if (counted) {
+          outputBytes += chunk.length;
+          if (outputBytes > options.maxOutputBytes) {
+            stop('output_limit');
+            return;
+          }
+        }
+        chunks.push(chunk);
+      });
+    };
+    collect(child.stdout as Readable, stdout, true);
+    collect(child.stderr as Readable, stderr, true);
+    collect(child.stdio[3] as Readable, channel, false);
+
+    // The program may exit without reading its input
+    child.stdin?.on('error', () => undefined);
+    child.stdin?.end(options.stdin ?? '');
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      resolve({
+        stdout: '',
+        stderr: `Could not start the sandbox: ${error.message}`,
+        channel: '',
+        exitCode: null,
+        signal: null,
+        durationMs: Date.now() - started,
+        limit: null
+      });
+    });
+
+    child.on('close', (exitCode, signal) => {
+      clearTimeout(timer);
+      const errorOutput = Buffer.concat(stderr).toString('utf8');
+
+      if (!limit && /heap out of memory|Reached heap limit|Array buffer allocation failed/i.test(errorOutput)) {
+        limit = 'memory_limit';
+      }
+      // ulimit -t sends SIGXCPU, then SIGKILL
+      if (!limit && (signal === 'SIGXCPU' || signal === 'SIGKILL')) {
+        limit = 'timeout';
+      }
+
+      resolve({
+        stdout: Buffer.concat(stdout).toString('utf8'),
+        stderr: errorOutput,
+        channel: Buffer.concat(channel).toString('utf8'),
+        exitCode,
+        signal,
+        durationMs: Date.now() - started,
+        limit
+      });
+    });
+  });
+};
+
+const runInDirectory = async (
+  files: Record<string, string>,
+  entry: string,
+  options: SandboxOptions,
+  unshare: string
+): Promise<SandboxRun> => {
+  // The permission model compares real paths, and the temp directory may sit behind a symlink
+  const dir = await fs.promises.realpath(await fs.promises.mkdtemp(path.join(os.tmpdir(), 'grader-')));
+  const identity = childIdentity();
+
+  try {
+    const allFiles: Record<string, string> = { ...files, 'preload.js': PRELOAD_SOURCE };
+    await Promise.all(
+      Object.entries(allFiles).map(([name, source]) => fs.promises.writeFile(path.join(dir, name), source))
+    );
+    // Only the submission's user can read the directory, which holds the hidden tests
+    if (identity) {
+      await Promise.all(
+        [dir, ...Object.keys(allFiles).map((name) => path.join(dir, name))]
+          .map((file) => fs.promises.chown(file, identity.uid, identity.gid))
+      );
+    }
+    return await runNode(dir, entry, options, unshare);
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+};
+
+// Prints what the program can reach, to check the isolation really holds on this server
+const PROBE_SOURCE = `const reads = process.permission ? process.permission.has('fs.read', '/') : true;
+console.log(JSON.stringify({ reads, interfaces: Object.keys(require('os').networkInterfaces()) }));
+`;
+
+interface SandboxCheck {
+  unshare: string;
+  // Why submissions cannot be run safely on this server, null when they can
+  reason: string | null;
+}
+
+/**
+ * Submissions are only run on Linux with user and network namespaces, and a Node.js with the permission model
+ */
+const probeSandbox = async (): Promise<SandboxCheck> => {
+  const unavailable = (reason: string): SandboxCheck => ({ unshare: '', reason });
+
+  if (process.platform !== 'linux') {
+    return unavailable(`Auto-grading needs Linux namespaces to isolate submissions, this server runs on ${process.platform}`);
+  }
+  if (nodeMajorVersion < 20) {
+    return unavailable(`Auto-grading needs the Node.js permission model (Node.js 20 or later), this server runs ${process.version}`);
+  }
+
+  const unshare = UNSHARE_PATHS.find((candidate) => fs.existsSync(candidate));
+  if (!unshare) {
+    return unavailable('Auto-grading needs unshare (util-linux) to isolate submissions from the network');
+  }
+
+  const run = await runInDirectory(
+    { 'probe.js': PROBE_SOURCE },
+    'probe.js',
+    { timeLimitMs: 10000, memoryLimitMb: 64, maxOutputBytes: 4096 },
+    unshare
+  );
+  if (run.exitCode !== 0) {
+    return unavailable(`Could not start an isolated process: ${run.stderr.trim() || run.limit || `exit code ${run.exitCode}`}`);
+  }
+
+  const probe = JSON.parse(run.stdout) as { reads: boolean; interfaces: string[] };
+  if (probe.reads) {
+    return unavailable('The permission model did not restrict file system access');
+  }
+  if (probe.interfaces.some((name) => name !== 'lo')) {
+    return unavailable(`Submissions can still see network interfaces: ${probe.interfaces.join(', ')}`);
+  }
+  return { unshare, reason: null };
+};
+
+let sandboxCheck: Promise<SandboxCheck> | null = null;
+
+const checkSandbox = (): Promise<SandboxCheck> => {
+  if (!sandboxCheck) {
+    sandboxCheck = probeSandbox().catch((error: Error) => ({
+      unshare: '',
+      reason: `Could not check the sandbox: ${error.message}`
+    }));
+  }
+  return sandboxCheck;
+};
+
+/**
+ * Why submissions cannot be run on this server, or null when the sandbox works. Checked once per process.
+ */
+export const sandboxUnavailableReason = async (): Promise<string | null> => (await checkSandbox()).reason;
+
+/**
+ * Run a Node.js program in a child process: a temporary directory with the given files is the only
+ * readable path, it runs as an unprivileged user with an empty environment and no network, and time,
+ * CPU, memory and output are capped. `entry` is the file to run. Refuses to run anything when the
+ * isolation is not available.
+ */
+export const runInSandbox = async (
+  files: Record<string, string>,
+  entry: string,
+  options: SandboxOptions
+): Promise<SandboxRun> => {
+  const { unshare, reason } = await checkSandbox();
+  if (reason) {
+    throw new AppError(reason, 503);
+  }
+  return runInDirectory(files, entry, options, unshare);
+};
+
+export default {
+  runInSandbox,
+  sandboxUnavailableReason
+};
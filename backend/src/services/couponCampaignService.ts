@@ -0,0 +1,308 @@
+import crypto from 'crypto';
+import { ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+import moment from 'moment';
+import db from '../db';
+import AppError from '../utils/appError';
+import logger from '../utils/logger';
+import { CouponCampaignRow } from '../types';
+
+// Uppercase letters and digits without the look-alikes 0/O and 1/I/L
+export const DEFAULT_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+export const DEFAULT_CODE_LENGTH = 8;
+
+// The code space must be this many times larger than the campaign so guessing a valid code stays impractical
+const CODE_SPACE_FACTOR = 1000;
+// Coupons per multi-row INSERT
+const INSERT_BATCH_SIZE = 500;
+
+export interface CampaignData {
+  name: string;
+  description?: string;
+  prefix?: string;
+  codeLength?: number;
+  alphabet?: string;
+  count: number;
+  discountType: 'percentage' | 'fixed' | 'bogo';
+  discountValue: number;
+  minimumAmount?: number;
+  maximumDiscount?: number | null;
+  buyQuantity?: number | null;
+  getQuantity?: number | null;
+  validFrom: string;
+  validUntil: string;
+}
+
+export interface CampaignSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  prefix: string;
+  codeLength: number;
+  codeCount: number;
+  isActive: boolean;
+  createdAt: string;
+  deactivatedAt: string | null;
+  // Codes whose single use was paid for, and codes held by a checkout in progress
+  redeemedCodes: number;
+  pendingCodes: number;
+  totalDiscount: number;
+  redemptionRate: number;
+}
+
+interface CampaignCodeRow extends RowDataPacket {
+  code: string;
+  is_active: number;
+  valid_until: string;
+  usage_status: string | null;
+  discount_amount: number | null;
+  used_at: string | null;
+  email: string | null;
+}
+
+/**
+ * Keep each character once, so a repeated one does not skew the distribution
+ */
+const normalizeAlphabet = (alphabet: string): string => [...new Set(alphabet.toUpperCase().split(''))].join('');
+
+const randomCode = (prefix: string, length: number, alphabet: string): string => {
+  let code = prefix;
+  for (let i = 0; i < length; i++) {
+    code += alphabet[crypto.randomInt(alphabet.length)];
+  }
+  return code;
+};
+
+/**
+ * Generate a campaign's codes and store them as single-use private coupons, all in one transaction
+ */
+export const createCampaign = async (
+  data: CampaignData,
+  userId: string
+): Promise<CouponCampaignRow> => {
+  const prefix = (data.prefix ?? '').toUpperCase();
+  const alphabet = normalizeAlphabet(data.alphabet || DEFAULT_ALPHABET);
+  const codeLength = data.codeLength || DEFAULT_CODE_LENGTH;
+
+  if (alphabet.length < 2) {
+    throw new AppError('The alphabet needs at least 2 different characters', 400);
+  }
+
+  if (prefix.length + codeLength > 50) {
+    throw new AppError('Prefix and code length together cannot exceed 50 characters', 400);
+  }
+
+  if (Math.pow(alphabet.length, codeLength) < data.count * CODE_SPACE_FACTOR) {
+    throw new AppError(
+      `Too few possible codes for ${data.count} coupons: use a longer code or a larger alphabet`,
+      400
+    );
+  }
+
+  const validFrom = moment(data.validFrom);
+  const validUntil = moment(data.validUntil);
+  if (!validFrom.isValid() || !validUntil.isValid() || !validUntil.isAfter(validFrom)) {
+    throw new AppError('Valid until date must be after valid from date', 400);
+  }
+
+  if (data.discountType === 'bogo' && (!data.buyQuantity || !data.getQuantity)) {
+    throw new AppError('Bogo coupons need a buy quantity and a get quantity', 400);
+  }
+
+  const campaignId = uuidv4();
+  const codes = new Set<string>();
+
+  await db.transaction(async (connection) => {
+    await connection.execute(
+      `INSERT INTO coupon_campaigns (id, name, description, code_prefix, code_length, alphabet, code_count, created_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [campaignId, data.name, data.description ?? null, prefix, codeLength, alphabet, data.count, userId]
+    );
+
+    while (codes.size < data.count) {
+      const batch = new Set<string>();
+      while (batch.size < Math.min(INSERT_BATCH_SIZE, data.count - codes.size)) {
+        const code = randomCode(prefix, codeLength, alphabet);
+        if (!codes.has(code)) {
+          batch.add(code);
+        }
+      }
+
+      // Drop codes another coupon already uses; the loop generates replacements
+      const [taken] = await connection.execute<RowDataPacket[]>(
+        `SELECT code FROM coupons WHERE code IN (${[...batch].map(() => '?').join(', ')})`,
+        [...batch]
+      );
+      taken.forEach((row) => batch.delete(row.code));
+
+      if (batch.size === 0) {
+        continue;
+      }
+
+      const values: unknown[] = [];
+      for (const code of batch) {
+        values.push(
+          uuidv4(),
+          code,
+          data.name,
+          data.description ?? null,
+          data.discountType,
+          data.discountValue,
+          data.minimumAmount ?? 0,
+          data.maximumDiscount ?? null,
+          data.discountType === 'bogo' ? data.buyQuantity : null,
+          data.discountType === 'bogo' ? data.getQuantity : null,
+          validFrom.toDate(),
+          validUntil.toDate(),
+          campaignId,
+          userId
+        );
+        codes.add(code);
+      }
+
+      // Single use, and private so they never show up as auto-apply offers
+      await connection.execute(
+        `INSERT INTO coupons (id, code, name, description, discount_type, discount_value, minimum_amount, maximum_discount,
+           buy_quantity, get_quantity, valid_from, valid_until, campaign_id, created_by,
+           usage_limit, usage_limit_per_user, is_public, auto_apply, stackable)
+         VALUES ${[...batch].map(() => '(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 1, 1, 0, 0, 0)').join(', ')}`,
+        values
+      );
+    }
+  });
+
+  const campaignResult = await db.query<CouponCampaignRow>('SELECT * FROM coupon_campaigns WHERE id = $1', [campaignId]);
+
+  logger.info('Coupon campaign created', { campaignId, name: data.name, codeCount: codes.size, createdBy: userId });
+
+  return campaignResult.rows[0];
+};
+
+/**
+ * Every campaign with its redemption counts, newest first
+ */
+export const listCampaigns = async (): Promise<CampaignSummary[]> => {
+  const result = await db.query<CouponCampaignRow & {
+    redeemed_codes: number;
+    pending_codes: number;
+    total_discount: number;
+  }>(
+    `SELECT cc.*,
+            COUNT(DISTINCT CASE WHEN cu.status = 'applied' THEN cu.coupon_id END) as redeemed_codes,
+            COUNT(DISTINCT CASE WHEN cu.status = 'pending' THEN cu.coupon_id END) as pending_codes,
+            COALESCE(SUM(CASE WHEN cu.status = 'applied' THEN cu.discount_amount END), 0) as total_discount
+     FROM coupon_campaigns cc
+     LEFT JOIN coupons c ON c.campaign_id = cc.id
+     LEFT JOIN coupon_usage cu ON cu.coupon_id = c.id
+     GROUP BY cc.id
+     ORDER BY cc.created_at DESC`
+  );
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    description: row.description ?? null,
+    prefix: row.code_prefix,
+    codeLength: Number(row.code_length),
+    codeCount: Number(row.code_count),
+    isActive: Boolean(row.is_active),
+    createdAt: row.created_at,
+    deactivatedAt: row.deactivated_at ?? null,
+    redeemedCodes: Number(row.redeemed_codes),
+    pendingCodes: Number(row.pending_codes),
+    totalDiscount: Number(row.total_discount),
+    redemptionRate: Number(row.code_count) > 0
+      ? Math.round((Number(row.redeemed_codes) / Number(row.code_count)) * 10000) / 100
+      : 0
+  }));
+};
+
+const findCampaign = async (campaignId: string): Promise<CouponCampaignRow> => {
+  const result = await db.query<CouponCampaignRow>('SELECT * FROM coupon_campaigns WHERE id = $1', [campaignId]);
+
+  if (result.rows.length === 0) {
+    throw new AppError('Campaign not found', 404);
+  }
+
+  return result.rows[0];
+};
+
+/**
+ * Deactivate a campaign and every one of its codes. Uses already reserved by a checkout still settle.
+ */
+export const deactivateCampaign = async (campaignId: string, userId: string): Promise<{ deactivatedCodes: number }> => {
+  const campaign = await findCampaign(campaignId);
+
+  if (!campaign.is_active) {
+    throw new AppError('Campaign is already inactive', 400);
+  }
+
+  const deactivatedCodes = await db.transaction(async (connection) => {
+    await connection.execute(
+      'UPDATE coupon_campaigns SET is_active = false, deactivated_at = NOW() WHERE id = ?',
+      [campaignId]
+    );
+    const [result] = await connection.execute<ResultSetHeader>(
+      'UPDATE coupons SET is_active = false, updated_at = NOW() WHERE campaign_id = ? AND is_active = true',
+      [campaignId]
+    );
+    return result.affectedRows;
+  });
+
+  logger.info('Coupon campaign deactivated', { campaignId, deactivatedCodes, deactivatedBy: userId });
+
+  return { deactivatedCodes };
+};
+
+const csvValue = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Export a campaign's codes as CSV with the redemption of each one
+ */
+export const exportCampaignCsv = async (campaignId: string): Promise<{ campaign: CouponCampaignRow; csv: string }> => {
+  const campaign = await findCampaign(campaignId);
+
+  // A single-use code has at most one usage that is still pending or applied
+  const result = await db.query<CampaignCodeRow>(
+    `SELECT c.code, c.is_active, c.valid_until, cu.status as usage_status, cu.discount_amount, cu.used_at, u.email
+     FROM coupons c
+     LEFT JOIN coupon_usage cu ON cu.coupon_id = c.id AND cu.status IN ('pending', 'applied')
+     LEFT JOIN users u ON cu.user_id = u.id
+     WHERE c.campaign_id = $1
+     ORDER BY c.code`,
+    [campaignId]
+  );
+
+  const now = moment();
+  const statusOf = (row: CampaignCodeRow): string => {
+    if (row.usage_status === 'applied') return 'redeemed';
+    if (row.usage_status === 'pending') return 'reserved';
+    if (!row.is_active) return 'inactive';
+    if (now.isAfter(moment(row.valid_until))) return 'expired';
+    return 'available';
+  };
+
+  const header = ['code', 'status', 'redeemed_at', 'redeemed_by', 'discount_amount'];
+  const lines = result.rows.map((row) => [
+    row.code,
+    statusOf(row),
+    row.usage_status === 'applied' && row.used_at ? moment(row.used_at).format('YYYY-MM-DD HH:mm:ss') : '',
+    row.usage_status === 'applied' ? row.email : '',
+    row.usage_status === 'applied' ? Number(row.discount_amount) : ''
+  ]);
+
+  return {
+    campaign,
+    csv: [header.join(','), ...lines.map((line) => line.map(csvValue).join(','))].join('\r\n')
+  };
+};
+
+export default {
+  createCampaign,
+  listCampaigns,
+  deactivateCampaign,
+  exportCampaignCsv
+};
@@ -0,0 +1,178 @@
+jest.mock('../db', () => ({ __esModule: true, default: { query: jest.fn(), transaction: jest.fn() } }));
+
+import db from '../db';
+import AppError from '../utils/appError';
+import { applyCoupons, CouponCourse } from './couponService';
+import { CouponRow } from '../types';
+
+const coupon = (code: string, overrides: Partial<CouponRow> = {}): CouponRow => ({
+  id: `coupon-${code}`,
+  code,
+  name: code,
+  discount_type: 'percentage',
+  discount_value: 10,
+  minimum_amount: 0,
+  maximum_discount: null,
+  usage_limit: null,
+  usage_limit_per_user: 1,
+  used_count: 0,
+  valid_from: '2000-01-01 00:00:00',
+  valid_until: '2999-12-31 23:59:59',
+  is_active: true,
+  is_public: true,
+  auto_apply: false,
+  stackable: true,
+  priority: 0,
+  created_by: 'admin-1',
+  created_at: '2026-01-01 00:00:00',
+  updated_at: '2026-01-01 00:00:00',
+  ...overrides
+});
+
+/**
+ * Answer the coupon lookups from a list of coupons; nobody has used any coupon or bought anything yet
+ */
+const useCoupons = (coupons: CouponRow[]) => {
+  (db.query as jest.Mock).mockImplementation(async (sql: string, params: unknown[] = []) => {
+    if (sql.includes('UPPER(code)')) {
+      return { rows: coupons.filter((row) => row.code === String(params[0]).toUpperCase()), rowCount: 1 };
+    }
+    if (sql.includes('auto_apply = true')) {
+      const rows = coupons
+        .filter((row) => row.auto_apply)
+        .sort((a, b) => Number(b.priority ?? 0) - Number(a.priority ?? 0));
+      return { rows, rowCount: rows.length };
+    }
+    return { rows: [{ count: 0 }], rowCount: 1 };
+  });
+};
+
+const courses: CouponCourse[] = [{ id: 'course-1', price: 1000000 }];
+
+const appliedCodes = (application: Awaited<ReturnType<typeof applyCoupons>>): string[] =>
+  application.evaluations.map((evaluation) => evaluation.coupon.code);
+
+const stackingRule = (application: Awaited<ReturnType<typeof applyCoupons>>, code: string) =>
+  application.explanations.find((explanation) => explanation.code === code)?.rules.find((rule) => rule.rule === 'stacking');
+
+describe('applyCoupons', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('applies the highest priority coupon first and the next one on what is left', async () => {
+    useCoupons([
+      coupon('FIXED50K', { discount_type: 'fixed', discount_value: 50000, priority: 5 }),
+      coupon('TEN', { priority: 10 })
+    ]);
+
+    const application = await applyCoupons('user-1', courses, { codes: ['fixed50k', 'ten'] });
+
+    expect(appliedCodes(application)).toEqual(['TEN', 'FIXED50K']);
+    expect(application.evaluations[1]).toMatchObject({ originalAmount: 900000, discountAmount: 50000 });
+    expect(application).toMatchObject({ originalAmount: 1000000, discountAmount: 150000, finalAmount: 850000 });
+    expect(application.discounts).toEqual({ 'course-1': 150000 });
+  });
+
+  it('puts an entered code before an automatic coupon of the same priority', async () => {
+    useCoupons([
+      coupon('AUTO', { discount_type: 'fixed', discount_value: 100000, auto_apply: true, priority: 5 }),
+      coupon('CODE', { priority: 5 })
+    ]);
+
+    const application = await applyCoupons('user-1', courses, { codes: ['CODE'] });
+
+    expect(appliedCodes(application)).toEqual(['CODE', 'AUTO']);
+    expect(application.explanations.map((explanation) => [explanation.code, explanation.autoApplied])).toEqual([
+      ['CODE', false],
+      ['AUTO', true]
+    ]);
+  });
+
+  it('applies nothing else after a coupon that does not stack', async () => {
+    useCoupons([
+      coupon('EXCLUSIVE', { stackable: false, priority: 10 }),
+      coupon('AUTO', { discount_type: 'fixed', discount_value: 100000, auto_apply: true, priority: 1 })
+    ]);
+
+    const application = await applyCoupons('user-1', courses, { codes: ['EXCLUSIVE'] });
+
+    expect(appliedCodes(application)).toEqual(['EXCLUSIVE']);
+    expect(stackingRule(application, 'AUTO')).toEqual({
+      rule: 'stacking',
+      passed: false,
+      message: 'EXCLUSIVE has a higher priority and cannot be combined with other coupons'
+    });
+    expect(application.finalAmount).toBe(900000);
+  });
+
+  it('does not add a coupon that does not stack after a higher priority one', async () => {
+    useCoupons([
+      coupon('AUTO', { auto_apply: true, priority: 10 }),
+      coupon('EXCLUSIVE', { discount_type: 'fixed', discount_value: 300000, stackable: false, priority: 1 })
+    ]);
+
+    const application = await applyCoupons('user-1', courses, { codes: ['EXCLUSIVE'] });
+
+    expect(appliedCodes(application)).toEqual(['AUTO']);
+    expect(stackingRule(application, 'EXCLUSIVE')).toMatchObject({
+      passed: false,
+      message: 'This coupon cannot be combined with AUTO'
+    });
+  });
+
+  it('fails a strict checkout when an entered code cannot be stacked', async () => {
+    useCoupons([
+      coupon('AUTO', { auto_apply: true, priority: 10 }),
+      coupon('EXCLUSIVE', { stackable: false, priority: 1 })
+    ]);
+
+    const error = await applyCoupons('user-1', courses, { codes: ['EXCLUSIVE'], strict: true }).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error).toMatchObject({ statusCode: 400, message: 'This coupon cannot be combined with AUTO' });
+  });
+
+  it('lets an automatic coupon that does not apply pass silently on a strict checkout', async () => {
+    useCoupons([
+      coupon('CODE', { stackable: false, priority: 10 }),
+      coupon('AUTO', { auto_apply: true, priority: 1 })
+    ]);
+
+    const application = await applyCoupons('user-1', courses, { codes: ['CODE'], strict: true });
+
+    expect(appliedCodes(application)).toEqual(['CODE']);
+  });
+
+  it('leaves automatic coupons out when asked to', async () => {
+    useCoupons([coupon('AUTO', { auto_apply: true, priority: 10 })]);
+
+    const application = await applyCoupons('user-1', courses, { autoApply: false });
+
+    expect(application.evaluations).toHaveLength(0);
+    expect(application.finalAmount).toBe(1000000);
+  });
+
+  it('explains an unknown code on a preview and rejects it on a checkout', async () => {
+    useCoupons([]);
+
+    const preview = await applyCoupons('user-1', courses, { codes: ['NOPE'] });
+    expect(preview.explanations).toEqual([
+      expect.objectContaining({ code: 'NOPE', applied: false, rules: [{ rule: 'code', passed: false, message: 'Invalid or inactive coupon code' }] })
+    ]);
+
+    await expect(applyCoupons('user-1', courses, { codes: ['NOPE'], strict: true })).rejects.toThrow('Invalid or inactive coupon code');
+  });
+
+  it('never discounts more than the price', async () => {
+    useCoupons([
+      coupon('BIG', { discount_type: 'fixed', discount_value: 800000, priority: 10 }),
+      coupon('BIGGER', { discount_type: 'fixed', discount_value: 800000, priority: 5 })
+    ]);
+
+    const application = await applyCoupons('user-1', courses, { codes: ['BIG', 'BIGGER'] });
+
+    expect(application.evaluations[1].discountAmount).toBe(200000);
+    expect(application.finalAmount).toBe(0);
+  });
+});
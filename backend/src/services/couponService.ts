@@ -0,0 +1,743 @@
+import { v4 as uuidv4 } from 'uuid';
+import moment from 'moment';
+import db from '../db';
+import AppError from '../utils/appError';
+import logger from '../utils/logger';
+import { CouponRow } from '../types';
+
+// Reservations not settled within the VNPay payment window are stale
+const RESERVATION_MINUTES = 15;
+
+// A course being purchased, as seen by coupon rules
+export interface CouponCourse {
+  id: string;
+  price: number;
+  category?: string | null;
+  category_id?: string | null;
+}
+
+// The checks a coupon goes through, in the order they are explained
+export type CouponRule =
+  | 'code'
+  | 'schedule'
+  | 'usage_limit'
+  | 'eligible_users'
+  | 'per_user_limit'
+  | 'first_purchase'
+  | 'courses'
+  | 'minimum_amount'
+  | 'stacking'
+  | 'discount';
+
+export interface CouponRuleResult {
+  rule: CouponRule;
+  passed: boolean;
+  message: string;
+}
+
+export interface CouponEvaluation {
+  coupon: CouponRow;
+  // Courses the coupon applies to (the discount is computed on their total)
+  eligibleCourseIds: string[];
+  // What was left to pay when the coupon was applied (after higher-priority coupons)
+  originalAmount: number;
+  discountAmount: number;
+  finalAmount: number;
+  // Discount per course ID (0 for courses the coupon does not apply to)
+  discounts: Record<string, number>;
+  rules: CouponRuleResult[];
+}
+
+// Why a coupon did or didn't apply to a checkout
+export interface CouponExplanation {
+  code: string;
+  couponId: string | null;
+  name: string | null;
+  discountType: CouponRow['discount_type'] | null;
+  autoApplied: boolean;
+  applied: boolean;
+  discountAmount: number;
+  rules: CouponRuleResult[];
+}
+
+// Every coupon considered for a checkout and the combined discount of the ones that applied
+export interface CouponApplication {
+  evaluations: CouponEvaluation[];
+  explanations: CouponExplanation[];
+  // Total discount per course ID
+  discounts: Record<string, number>;
+  originalAmount: number;
+  discountAmount: number;
+  finalAmount: number;
+}
+
+/**
+ * JSON list columns come back as strings (MariaDB JSON is longtext) or already parsed
+ */
+const parseIdList = (value: unknown): string[] => {
+  if (!value) return [];
+  if (Array.isArray(value)) return value.map(String);
+
+  try {
+    const parsed = JSON.parse(String(value));
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+};
+
+const matchesCategory = (course: CouponCourse, categories: string[]): boolean =>
+  categories.some((category) => category === course.category_id || category === course.category);
+
+const formatAmount = (amount: number): string => `${amount.toLocaleString()} VNĐ`;
+
+const sumPrices = (courses: CouponCourse[]): number =>
+  courses.reduce((total, course) => total + Number(course.price), 0);
+
+/**
+ * Find an active coupon by code (case-insensitive)
+ */
+export const findCouponByCode = async (code: string): Promise<CouponRow | null> => {
+  const result = await db.query<CouponRow>(
+    'SELECT * FROM coupons WHERE UPPER(code) = UPPER($1) AND is_active = true AND deleted_at IS NULL',
+    [code]
+  );
+
+  return result.rows[0] ?? null;
+};
+
+/**
+ * Public coupons that apply themselves at checkout without a code, highest priority first
+ */
+export const findAutoApplyCoupons = async (): Promise<CouponRow[]> => {
+  const result = await db.query<CouponRow>(
+    `SELECT * FROM coupons
+     WHERE auto_apply = true AND is_public = true AND is_active = true AND deleted_at IS NULL
+       AND valid_from <= NOW() AND valid_until >= NOW()
+     ORDER BY priority DESC, created_at ASC`
+  );
+
+  return result.rows;
+};
+
+/**
+ * Discount of a coupon on an amount, capped by `maximum_discount` and the amount itself
+ */
+export const calculateDiscount = (coupon: CouponRow, amount: number): number => {
+  let discountAmount = 0;
+  if (coupon.discount_type === 'percentage') {
+    discountAmount = Math.floor((amount * Number(coupon.discount_value)) / 100);
+    if (coupon.maximum_discount && discountAmount > Number(coupon.maximum_discount)) {
+      discountAmount = Number(coupon.maximum_discount);
+    }
+  } else {
+    discountAmount = Number(coupon.discount_value);
+  }
+
+  return Math.min(discountAmount, amount);
+};
+
+/**
+ * Run the eligibility rules of a coupon against the courses being bought. Every rule is checked,
+ * not only up to the first failure, so the explanation lists everything that stands in the way.
+ */
+const checkEligibility = async (
+  coupon: CouponRow,
+  userId: string,
+  courses: CouponCourse[]
+): Promise<{ rules: CouponRuleResult[]; eligibleCourses: CouponCourse[] }> => {
+  const rules: CouponRuleResult[] = [];
+  const now = moment();
+
+  if (now.isBefore(moment(coupon.valid_from))) {
+    rules.push({ rule: 'schedule', passed: false, message: 'Coupon is not yet valid' });
+  } else if (now.isAfter(moment(coupon.valid_until))) {
+    rules.push({ rule: 'schedule', passed: false, message: 'Coupon has expired' });
+  } else {
+    rules.push({
+      rule: 'schedule',
+      passed: true,
+      message: `Valid until ${moment(coupon.valid_until).format('YYYY-MM-DD HH:mm')}`
+    });
+  }
+
+  if (coupon.usage_limit) {
+    const usesLeft = Number(coupon.usage_limit) - Number(coupon.used_count);
+    rules.push({
+      rule: 'usage_limit',
+      passed: usesLeft > 0,
+      message: usesLeft > 0 ? `${usesLeft} of ${coupon.usage_limit} uses left` : 'Coupon usage limit exceeded'
+    });
+  }
+
+  const eligibleUserIds = parseIdList(coupon.eligible_user_ids);
+  if (eligibleUserIds.length > 0) {
+    const eligible = eligibleUserIds.includes(userId);
+    rules.push({
+      rule: 'eligible_users',
+      passed: eligible,
+      message: eligible ? 'Your account is eligible for this coupon' : 'This coupon is not available for your account'
+    });
+  }
+
+  // Reserved (pending) uses count too, so a code cannot be stacked on parallel checkouts
+  const usageResult = await db.query<{ count: number }>(
+    `SELECT COUNT(*) as count FROM coupon_usage
+     WHERE coupon_id = $1 AND user_id = $2 AND status IN ('pending', 'applied')`,
+    [coupon.id, userId]
+  );
+  const usedByUser = Number(usageResult.rows[0]?.count ?? 0);
+  const perUserLimit = coupon.usage_limit_per_user ?? 1;
+
+  rules.push({
+    rule: 'per_user_limit',
+    passed: usedByUser < perUserLimit,
+    message: usedByUser < perUserLimit ? `Used ${usedByUser} of ${perUserLimit} times` : 'You have already used this coupon'
+  });
+
+  if (coupon.first_purchase_only) {
+    const purchaseResult = await db.query<{ count: number }>(
+      `SELECT (SELECT COUNT(*) FROM payments WHERE user_id = $1 AND payment_status = 'completed')
+            + (SELECT COUNT(*) FROM orders WHERE user_id = $2 AND status = 'completed') as count`,
+      [userId, userId]
+    );
+    const firstPurchase = Number(purchaseResult.rows[0]?.count ?? 0) === 0;
+
+    rules.push({
+      rule: 'first_purchase',
+      passed: firstPurchase,
+      message: firstPurchase ? 'This is your first purchase' : 'This coupon is only valid for your first purchase'
+    });
+  }
+
+  const applicableCourses = parseIdList(coupon.applicable_courses);
+  const applicableCategories = parseIdList(coupon.applicable_categories);
+  const excludedCourses = parseIdList(coupon.excluded_courses);
+  const excludedCategories = parseIdList(coupon.excluded_categories);
+
+  const eligibleCourses = courses.filter((course) => {
+    if (excludedCourses.includes(course.id) || matchesCategory(course, excludedCategories)) {
+      return false;
+    }
+
+    // Without an allow-list every course qualifies; with both lists, matching either one is enough
+    if (applicableCourses.length === 0 && applicableCategories.length === 0) {
+      return true;
+    }
+
+    return applicableCourses.includes(course.id) || matchesCategory(course, applicableCategories);
+  });
+
+  if (eligibleCourses.length === 0) {
+    rules.push({
+      rule: 'courses',
+      passed: false,
+      message: courses.length > 1 ? 'Coupon is not applicable to any course in your cart' : 'Coupon is not applicable to the selected course'
+    });
+  } else {
+    rules.push({
+      rule: 'courses',
+      passed: true,
+      message: eligibleCourses.length === courses.length
+        ? 'Applies to every course'
+        : `Applies to ${eligibleCourses.length} of ${courses.length} courses`
+    });
+  }
+
+  const minimumAmount = Number(coupon.minimum_amount);
+  if (minimumAmount > 0) {
+    const eligibleAmount = sumPrices(eligibleCourses);
+    rules.push({
+      rule: 'minimum_amount',
+      passed: eligibleAmount >= minimumAmount,
+      message: eligibleAmount >= minimumAmount
+        ? `Eligible amount ${formatAmount(eligibleAmount)} reaches the minimum of ${formatAmount(minimumAmount)}`
+        : `Minimum order amount is ${formatAmount(minimumAmount)}`
+    });
+  }
+
+  return { rules, eligibleCourses };
+};
+
+/**
+ * Buy X get Y: eligible courses are grouped from the most expensive down and in every full group
+ * of X + Y courses the Y cheapest get `discount_value` percent off (100 makes them free)
+ */
+const calculateBundleDiscounts = (
+  coupon: CouponRow,
+  courses: CouponCourse[]
+): { discounts: Record<string, number>; rule: CouponRuleResult } => {
+  const buyQuantity = Number(coupon.buy_quantity) || 1;
+  const getQuantity = Number(coupon.get_quantity) || 1;
+  const percent = Math.min(Number(coupon.discount_value), 100);
+  const offer = `Buy ${buyQuantity} get ${getQuantity} ${percent >= 100 ? 'free' : `${percent}% off`}`;
+
+  const groupSize = buyQuantity + getQuantity;
+  const groups = Math.floor(courses.length / groupSize);
+
+  if (groups === 0) {
+    const missing = groupSize - courses.length;
+    return {
+      discounts: {},
+      rule: {
+        rule: 'discount',
+        passed: false,
+        message: `${offer}: add ${missing} more eligible course${missing > 1 ? 's' : ''} to unlock the offer`
+      }
+    };
+  }
+
+  const sorted = [...courses].sort((a, b) => Number(b.price) - Number(a.price) || a.id.localeCompare(b.id));
+  const discounted: CouponCourse[] = [];
+  for (let group = 0; group < groups; group++) {
+    sorted.slice(group * groupSize + buyQuantity, (group + 1) * groupSize).forEach((course) => {
+      discounted.push({ id: course.id, price: Math.floor((Number(course.price) * percent) / 100) });
+    });
+  }
+
+  let discounts: Record<string, number> = Object.fromEntries(discounted.map((course) => [course.id, course.price]));
+  const total = sumPrices(discounted);
+  const cap = Number(coupon.maximum_discount) || 0;
+
+  if (cap > 0 && total > cap) {
+    discounts = distributeDiscount(discounted, discounted.map((course) => course.id), cap);
+  }
+
+  return {
+    discounts,
+    rule: {
+      rule: 'discount',
+      passed: total > 0,
+      message: total > 0
+        ? `${offer}: ${discounted.length} course${discounted.length > 1 ? 's' : ''} discounted${cap > 0 && total > cap ? ` (capped at ${formatAmount(cap)})` : ''}`
+        : 'Nothing left to discount on these courses'
+    }
+  };
+};
+
+/**
+ * Discount per eligible course for the coupon's discount type. Course prices are what is still
+ * left to pay for them after higher-priority coupons.
+ */
+const calculateCourseDiscounts = (
+  coupon: CouponRow,
+  courses: CouponCourse[]
+): { discounts: Record<string, number>; rule: CouponRuleResult } => {
+  if (coupon.discount_type === 'bogo') {
+    return calculateBundleDiscounts(coupon, courses);
+  }
+
+  if (coupon.discount_type === 'free_shipping') {
+    return {
+      discounts: {},
+      rule: { rule: 'discount', passed: false, message: 'Courses are delivered online, so there is no shipping to discount' }
+    };
+  }
+
+  const eligibleAmount = sumPrices(courses);
+  const discountAmount = calculateDiscount(coupon, eligibleAmount);
+
+  const capped = coupon.discount_type === 'percentage'
+    && Boolean(coupon.maximum_discount)
+    && Math.floor((eligibleAmount * Number(coupon.discount_value)) / 100) > Number(coupon.maximum_discount);
+
+  let message = 'Nothing left to discount on these courses';
+  if (discountAmount > 0) {
+    message = coupon.discount_type === 'percentage'
+      ? `${Number(coupon.discount_value)}% off ${formatAmount(eligibleAmount)}${capped ? ` (capped at ${formatAmount(discountAmount)})` : ''}`
+      : `${formatAmount(discountAmount)} off`;
+  }
+
+  return {
+    discounts: distributeDiscount(courses, courses.map((course) => course.id), discountAmount),
+    rule: { rule: 'discount', passed: discountAmount > 0, message }
+  };
+};
+
+/**
+ * Run every rule of a coupon and, when they all pass, price its discount.
+ * @param prices - What is left to pay per course ID, when earlier coupons already discounted it
+ * @param stacking - Result of the stacking rule against the coupons applied before this one
+ */
+const runCouponRules = async (
+  coupon: CouponRow,
+  userId: string,
+  courses: CouponCourse[],
+  prices: Record<string, number> = {},
+  stacking?: CouponRuleResult
+): Promise<CouponEvaluation> => {
+  const { rules, eligibleCourses } = await checkEligibility(coupon, userId, courses);
+  if (stacking) {
+    rules.push(stacking);
+  }
+
+  const priced = courses.map((course) => ({ ...course, price: prices[course.id] ?? Number(course.price) }));
+  const discounts: Record<string, number> = Object.fromEntries(courses.map((course) => [course.id, 0]));
+
+  if (rules.every((result) => result.passed)) {
+    const eligibleIds = eligibleCourses.map((course) => course.id);
+    const result = calculateCourseDiscounts(coupon, priced.filter((course) => eligibleIds.includes(course.id)));
+
+    Object.entries(result.discounts).forEach(([courseId, amount]) => {
+      discounts[courseId] = amount;
+    });
+    rules.push(result.rule);
+  }
+
+  const originalAmount = sumPrices(priced);
+  const discountAmount = Object.values(discounts).reduce((total, amount) => total + amount, 0);
+
+  return {
+    coupon,
+    eligibleCourseIds: eligibleCourses.map((course) => course.id),
+    originalAmount,
+    discountAmount,
+    finalAmount: originalAmount - discountAmount,
+    discounts,
+    rules
+  };
+};
+
+/**
+ * Check that the user may use the coupon on these courses and compute the discount.
+ * Throws a 400 AppError describing the first rule that fails.
+ */
+export const evaluateCoupon = async (
+  coupon: CouponRow,
+  userId: string,
+  courses: CouponCourse[]
+): Promise<CouponEvaluation> => {
+  const evaluation = await runCouponRules(coupon, userId, courses);
+  const failed = evaluation.rules.find((result) => !result.passed);
+
+  if (failed) {
+    throw new AppError(failed.message, 400);
+  }
+
+  return evaluation;
+};
+
+/**
+ * A coupon only joins the ones already applied when it and every one of them are stackable
+ */
+const checkStacking = (coupon: CouponRow, applied: CouponEvaluation[]): CouponRuleResult => {
+  if (applied.length === 0) {
+    return { rule: 'stacking', passed: true, message: 'No other coupon applied before this one' };
+  }
+
+  const codes = applied.map((evaluation) => evaluation.coupon.code).join(', ');
+  const exclusive = applied.find((evaluation) => !evaluation.coupon.stackable);
+
+  if (exclusive) {
+    return {
+      rule: 'stacking',
+      passed: false,
+      message: `${exclusive.coupon.code} has a higher priority and cannot be combined with other coupons`
+    };
+  }
+
+  if (!coupon.stackable) {
+    return { rule: 'stacking', passed: false, message: `This coupon cannot be combined with ${codes}` };
+  }
+
+  return { rule: 'stacking', passed: true, message: `Stacks with ${codes}` };
+};
+
+/**
+ * Coupon rule engine for a checkout: evaluate the entered codes together with the public
+ * auto-apply coupons, highest `priority` first, and stack the ones that apply. Each coupon
+ * discounts what is left after the coupons before it.
+ * @param options.strict - Fail with the reason when an entered code does not apply (checkout);
+ * otherwise it is only explained (cart preview)
+ */
+export const applyCoupons = async (
+  userId: string,
+  courses: CouponCourse[],
+  options: { codes?: string[]; autoApply?: boolean; strict?: boolean } = {}
+): Promise<CouponApplication> => {
+  const explanations: CouponExplanation[] = [];
+  const candidates: { coupon: CouponRow; autoApplied: boolean }[] = [];
+
+  const codes = [...new Set((options.codes ?? []).map((code) => code.trim().toUpperCase()).filter(Boolean))];
+  for (const code of codes) {
+    const coupon = await findCouponByCode(code);
+
+    if (!coupon) {
+      if (options.strict) {
+        throw new AppError('Invalid or inactive coupon code', 400);
+      }
+
+      explanations.push({
+        code,
+        couponId: null,
+        name: null,
+        discountType: null,
+        autoApplied: false,
+        applied: false,
+        discountAmount: 0,
+        rules: [{ rule: 'code', passed: false, message: 'Invalid or inactive coupon code' }]
+      });
+      continue;
+    }
+
+    if (!candidates.some((candidate) => candidate.coupon.id === coupon.id)) {
+      candidates.push({ coupon, autoApplied: false });
+    }
+  }
+
+  if (options.autoApply !== false && courses.length > 0) {
+    for (const coupon of await findAutoApplyCoupons()) {
+      if (!candidates.some((candidate) => candidate.coupon.id === coupon.id)) {
+        candidates.push({ coupon, autoApplied: true });
+      }
+    }
+  }
+
+  // Highest priority first; on a tie the code the user entered goes before an automatic one
+  candidates.sort(
+    (a, b) => Number(b.coupon.priority ?? 0) - Number(a.coupon.priority ?? 0) || Number(a.autoApplied) - Number(b.autoApplied)
+  );
+
+  const prices: Record<string, number> = Object.fromEntries(courses.map((course) => [course.id, Number(course.price)]));
+  const evaluations: CouponEvaluation[] = [];
+
+  for (const { coupon, autoApplied } of candidates) {
+    const evaluation = await runCouponRules(coupon, userId, courses, prices, checkStacking(coupon, evaluations));
+    const applied = evaluation.rules.every((result) => result.passed) && evaluation.discountAmount > 0;
+
+    if (!applied && !autoApplied && options.strict) {
+      const failed = evaluation.rules.find((result) => !result.passed);
+      throw new AppError(failed?.message ?? 'Coupon gives no discount on these courses', 400);
+    }
+
+    if (applied) {
+      evaluations.push(evaluation);
+      Object.entries(evaluation.discounts).forEach(([courseId, amount]) => {
+        prices[courseId] -= amount;
+      });
+    }
+
+    explanations.push({
+      code: coupon.code,
+      couponId: coupon.id,
+      name: coupon.name,
+      discountType: coupon.discount_type,
+      autoApplied,
+      applied,
+      discountAmount: applied ? evaluation.discountAmount : 0,
+      rules: evaluation.rules
+    });
+  }
+
+  const originalAmount = sumPrices(courses);
+  const discounts = Object.fromEntries(courses.map((course) => [course.id, Number(course.price) - prices[course.id]]));
+  const discountAmount = Object.values(discounts).reduce((total, amount) => total + amount, 0);
+
+  return {
+    evaluations,
+    explanations,
+    discounts,
+    originalAmount,
+    discountAmount,
+    finalAmount: originalAmount - discountAmount
+  };
+};
+
+/**
+ * Split an order-level discount across the eligible line items in proportion to their price.
+ * Amounts are whole VND; the rounding remainder goes to the largest fractional shares so the parts add up exactly.
+ * @returns Discount per course ID (0 for items the coupon does not apply to)
+ */
+export const distributeDiscount = (
+  items: CouponCourse[],
+  eligibleCourseIds: string[],
+  discountAmount: number
+): Record<string, number> => {
+  const shares: Record<string, number> = Object.fromEntries(items.map((item) => [item.id, 0]));
+  const eligible = items.filter((item) => eligibleCourseIds.includes(item.id));
+  const eligibleTotal = eligible.reduce((total, item) => total + Number(item.price), 0);
+
+  if (eligibleTotal <= 0 || discountAmount <= 0) {
+    return shares;
+  }
+
+  const exact = eligible.map((item) => ({ id: item.id, value: (discountAmount * Number(item.price)) / eligibleTotal }));
+  exact.forEach(({ id, value }) => {
+    shares[id] = Math.floor(value);
+  });
+
+  let remainder = Math.round(discountAmount - exact.reduce((total, { id }) => total + shares[id], 0));
+  const byFraction = [...exact].sort((a, b) => (b.value % 1) - (a.value % 1));
+  for (let i = 0; remainder > 0; i = (i + 1) % byFraction.length, remainder--) {
+    shares[byFraction[i].id] += 1;
+  }
+
+  return shares;
+};
+
+/**
+ * Hold one use of the coupon for a payment or cart order until it is settled.
+ * The used count is incremented atomically against the usage limit, so concurrent checkouts cannot overshoot it.
+ */
+export const reserveCouponUsage = async (
+  evaluation: CouponEvaluation,
+  data: { userId: string; paymentId?: string | null; orderId: string; ipAddress?: string; userAgent?: string }
+): Promise<void> => {
+  const { coupon } = evaluation;
+
+  const reserved = await db.query(
+    `UPDATE coupons SET used_count = used_count + 1
+     WHERE id = $1 AND (usage_limit IS NULL OR used_count < usage_limit)`,
+    [coupon.id]
+  );
+
+  if (reserved.rowCount === 0) {
+    throw new AppError('Coupon usage limit exceeded', 400);
+  }
+
+  try {
+    await db.query(
+      `INSERT INTO coupon_usage
+       (id, coupon_id, user_id, payment_id, order_id, discount_amount, original_amount, final_amount,
+        status, course_ids, ip_address, user_agent, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'pending', $9, $10, $11, $12)`,
+      [
+        uuidv4(),
+        coupon.id,
+        data.userId,
+        data.paymentId ?? null,
+        data.orderId,
+        evaluation.discountAmount,
+        evaluation.originalAmount,
+        evaluation.finalAmount,
+        JSON.stringify(evaluation.eligibleCourseIds),
+        data.ipAddress ?? null,
+        data.userAgent ?? null,
+        moment().add(RESERVATION_MINUTES, 'minutes').toDate()
+      ]
+    );
+  } catch (error) {
+    await db.query('UPDATE coupons SET used_count = used_count - 1 WHERE id = $1', [coupon.id]);
+    throw error;
+  }
+};
+
+/**
+ * Hold one use of every coupon applied to a checkout. When one of them cannot be reserved,
+ * the uses already held for the order are given back.
+ */
+export const reserveCouponUsages = async (
+  application: CouponApplication,
+  data: { userId: string; paymentId?: string | null; orderId: string; ipAddress?: string; userAgent?: string }
+): Promise<void> => {
+  try {
+    for (const evaluation of application.evaluations) {
+      await reserveCouponUsage(evaluation, data);
+    }
+  } catch (error) {
+    await releaseCouponUsage(data.orderId);
+    throw error;
+  }
+};
+
+/**
+ * Turn the coupon use reserved for an order into a final one (payment succeeded). A transaction that was
+ * cancelled (expired or replaced by a newer checkout) can still be paid late; its use was given back, so it
+ * is taken again here since the customer paid the discounted price.
+ * @param orderId - VNPay order reference of the payment or cart order
+ */
+export const finalizeCouponUsage = async (orderId: string): Promise<void> => {
+  const result = await db.query(
+    "UPDATE coupon_usage SET status = 'applied', used_at = NOW() WHERE order_id = $1 AND status = 'pending'",
+    [orderId]
+  );
+
+  if (result.rowCount > 0) {
+    logger.info('Coupon usage finalized', { orderId });
+  }
+
+  const releasedResult = await db.query<{ id: string; coupon_id: string; status: string }>(
+    "SELECT id, coupon_id, status FROM coupon_usage WHERE order_id = $1 AND status IN ('expired', 'cancelled')",
+    [orderId]
+  );
+
+  for (const usage of releasedResult.rows) {
+    // Only the request that flips the status takes the use again
+    const reapplied = await db.query(
+      "UPDATE coupon_usage SET status = 'applied', used_at = NOW() WHERE id = $1 AND status = $2",
+      [usage.id, usage.status]
+    );
+
+    if (reapplied.rowCount > 0) {
+      await db.query('UPDATE coupons SET used_count = used_count + 1 WHERE id = $1', [usage.coupon_id]);
+      logger.info('Coupon usage re-applied after a late payment', { orderId, couponId: usage.coupon_id, from: usage.status });
+    }
+  }
+};
+
+/**
+ * Give back the coupon use reserved for an order (payment failed or was abandoned)
+ * @param orderId - VNPay order reference of the payment or cart order
+ */
+export const releaseCouponUsage = async (orderId: string, status: 'cancelled' | 'expired' = 'cancelled'): Promise<void> => {
+  const usageResult = await db.query<{ id: string; coupon_id: string }>(
+    "SELECT id, coupon_id FROM coupon_usage WHERE order_id = $1 AND status = 'pending'",
+    [orderId]
+  );
+
+  for (const usage of usageResult.rows) {
+    // Only the request that flips the status gives the use back
+    const released = await db.query(
+      "UPDATE coupon_usage SET status = $1 WHERE id = $2 AND status = 'pending'",
+      [status, usage.id]
+    );
+
+    if (released.rowCount > 0) {
+      await db.query(
+        'UPDATE coupons SET used_count = GREATEST(used_count - 1, 0) WHERE id = $1',
+        [usage.coupon_id]
+      );
+      logger.info('Coupon usage released', { orderId, couponId: usage.coupon_id, status });
+    }
+  }
+};
+
+/**
+ * Undo an applied coupon use after its payment was refunded in full, giving the use back
+ * @param orderId - VNPay order reference of the payment or cart order
+ */
+export const reverseCouponUsage = async (orderId: string): Promise<void> => {
+  const usageResult = await db.query<{ id: string; coupon_id: string }>(
+    "SELECT id, coupon_id FROM coupon_usage WHERE order_id = $1 AND status = 'applied'",
+    [orderId]
+  );
+
+  for (const usage of usageResult.rows) {
+    const reversed = await db.query(
+      "UPDATE coupon_usage SET status = 'refunded' WHERE id = $1 AND status = 'applied'",
+      [usage.id]
+    );
+
+    if (reversed.rowCount > 0) {
+      await db.query(
+        'UPDATE coupons SET used_count = GREATEST(used_count - 1, 0) WHERE id = $1',
+        [usage.coupon_id]
+      );
+      logger.info('Coupon usage reversed after refund', { orderId, couponId: usage.coupon_id });
+    }
+  }
+};
+
+export default {
+  findCouponByCode,
+  findAutoApplyCoupons,
+  calculateDiscount,
+  evaluateCoupon,
+  applyCoupons,
+  distributeDiscount,
+  reserveCouponUsage,
+  reserveCouponUsages,
+  finalizeCouponUsage,
+  releaseCouponUsage,
+  reverseCouponUsage
+};
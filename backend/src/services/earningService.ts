@@ -0,0 +1,452 @@
+import { v4 as uuidv4 } from 'uuid';
+import moment from 'moment';
+import db from '../db';
+import config from '../config';
+import AppError from '../utils/appError';
+import logger from '../utils/logger';
+import notificationService from './notificationService';
+import { RefundRow, TeacherEarningRow, TeacherPayoutRow } from '../types';
+
+export interface EarningTotals {
+  grossAmount: number;
+  commissionAmount: number;
+  netAmount: number;
+  sales: number;
+  refunds: number;
+}
+
+export interface PeriodEarnings extends EarningTotals {
+  period: string;
+  payout: TeacherPayoutRow | null;
+}
+
+export interface CourseEarnings extends EarningTotals {
+  courseId: string;
+  title: string;
+}
+
+export interface EarningsSummary {
+  commissionRate: number;
+  totals: EarningTotals;
+  paidOut: number;
+  // Earned but not paid out yet; refunds after a payout are taken from it
+  balance: number;
+  periods: PeriodEarnings[];
+  courses: CourseEarnings[];
+}
+
+export interface StatementEntry extends TeacherEarningRow {
+  course_title: string;
+  txn_ref: string | null;
+}
+
+export interface PayoutStatement {
+  teacherId: string;
+  teacherName: string;
+  teacherEmail: string;
+  period: string;
+  // A statement can only be paid out once its month is over
+  closed: boolean;
+  totals: EarningTotals;
+  entries: StatementEntry[];
+  payout: TeacherPayoutRow | null;
+}
+
+export interface TeacherStatementSummary extends EarningTotals {
+  teacherId: string;
+  teacherName: string;
+  teacherEmail: string;
+  payout: TeacherPayoutRow | null;
+}
+
+interface SaleLine {
+  course_id: string;
+  teacher_id: string;
+  amount: number;
+  currency: string;
+}
+
+const TOTALS_SELECT = `COALESCE(SUM(te.gross_amount), 0) as gross_amount,
+  COALESCE(SUM(te.commission_amount), 0) as commission_amount,
+  COALESCE(SUM(te.net_amount), 0) as net_amount,
+  COALESCE(SUM(te.entry_type = 'sale'), 0) as sales,
+  COALESCE(SUM(te.entry_type = 'refund'), 0) as refunds`;
+
+const toTotals = (row: Record<string, any> | undefined): EarningTotals => ({
+  grossAmount: Number(row?.gross_amount ?? 0),
+  commissionAmount: Number(row?.commission_amount ?? 0),
+  netAmount: Number(row?.net_amount ?? 0),
+  sales: Number(row?.sales ?? 0),
+  refunds: Number(row?.refunds ?? 0)
+});
+
+/**
+ * Split a course sale into the platform commission and the teacher's share, in whole dong
+ */
+export const splitCommission = (grossAmount: number, commissionRate: number): { commissionAmount: number; netAmount: number } => {
+  const commissionAmount = Math.round(grossAmount * commissionRate / 100);
+  return { commissionAmount, netAmount: grossAmount - commissionAmount };
+};
+
+/**
+ * First and last instant of a `YYYY-MM` statement period
+ */
+const periodRange = (period: string): { start: string; end: string; closed: boolean } => {
+  const start = moment(period, 'YYYY-MM', true);
+
+  if (!start.isValid()) {
+    throw new AppError('Period must be a month in YYYY-MM format', 400);
+  }
+
+  const end = start.clone().add(1, 'month');
+
+  return {
+    start: start.format('YYYY-MM-DD HH:mm:ss'),
+    end: end.format('YYYY-MM-DD HH:mm:ss'),
+    closed: !end.isAfter(moment())
+  };
+};
+
+/**
+ * Credit the teachers of a completed payment or cart order with their share of each course.
+ * Each course of a transaction is credited once, so settling again does not double the ledger.
+ */
+export const recordSale = async (type: 'payment' | 'order', id: string): Promise<void> => {
+  const result = type === 'payment'
+    ? await db.query<SaleLine>(
+      `SELECT p.course_id, c.teacher_id, p.amount, p.currency
+       FROM payments p
+       JOIN courses c ON p.course_id = c.id
+       WHERE p.id = $1`,
+      [id]
+    )
+    : await db.query<SaleLine>(
+      `SELECT oi.course_id, c.teacher_id, oi.amount, o.currency
+       FROM order_items oi
+       JOIN orders o ON oi.order_id = o.id
+       JOIN courses c ON oi.course_id = c.id
+       WHERE oi.order_id = $1`,
+      [id]
+    );
+
+  const commissionRate = config.earnings.commissionRate;
+
+  for (const line of result.rows) {
+    const grossAmount = Math.round(Number(line.amount));
+
+    if (grossAmount <= 0) {
+      continue;
+    }
+
+    const { commissionAmount, netAmount } = splitCommission(grossAmount, commissionRate);
+
+    await db.query(
+      `INSERT IGNORE INTO teacher_earnings (id, teacher_id, course_id, entry_type, reference_id, payment_id, order_id,
+         gross_amount, commission_rate, commission_amount, net_amount, currency)
+       VALUES ($1, $2, $3, 'sale', $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        uuidv4(),
+        line.teacher_id,
+        line.course_id,
+        id,
+        type === 'payment' ? id : null,
+        type === 'order' ? id : null,
+        grossAmount,
+        commissionRate,
+        commissionAmount,
+        netAmount,
+        line.currency
+      ]
+    );
+  }
+
+  logger.info('Teacher earnings recorded', { type, id, courses: result.rows.length });
+};
+
+/**
+ * Reverse the teachers' share of a completed refund. The refunded amount is spread over the
+ * refunded courses in proportion to what was paid for them, at the commission rate of the sale.
+ */
+export const recordRefund = async (refund: RefundRow, courseIds: string[]): Promise<void> => {
+  const referenceId = refund.payment_id ?? refund.order_id;
+  const sales = await db.query<TeacherEarningRow>(
+    "SELECT * FROM teacher_earnings WHERE entry_type = 'sale' AND reference_id = $1 ORDER BY course_id",
+    [referenceId]
+  );
+
+  const refunded = sales.rows.filter((sale) => courseIds.length === 0 || courseIds.includes(sale.course_id));
+  const paidTotal = refunded.reduce((total, sale) => total + Number(sale.gross_amount), 0);
+
+  // Sold before the ledger existed, or nothing was paid for these courses
+  if (paidTotal <= 0) {
+    return;
+  }
+
+  const refundAmount = Math.round(Number(refund.amount));
+  let remaining = refundAmount;
+
+  for (const [index, sale] of refunded.entries()) {
+    const share = index === refunded.length - 1
+      ? remaining
+      : Math.round(refundAmount * Number(sale.gross_amount) / paidTotal);
+    remaining -= share;
+
+    const { commissionAmount, netAmount } = splitCommission(share, Number(sale.commission_rate));
+
+    await db.query(
+      `INSERT IGNORE INTO teacher_earnings (id, teacher_id, course_id, entry_type, reference_id, payment_id, order_id,
+         gross_amount, commission_rate, commission_amount, net_amount, currency)
+       VALUES ($1, $2, $3, 'refund', $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        uuidv4(),
+        sale.teacher_id,
+        sale.course_id,
+        refund.id,
+        sale.payment_id,
+        sale.order_id,
+        -share,
+        sale.commission_rate,
+        -commissionAmount,
+        -netAmount,
+        sale.currency
+      ]
+    );
+  }
+
+  logger.info('Teacher earnings reversed after refund', { refundId: refund.id, referenceId, amount: refundAmount });
+};
+
+const getPayouts = async (teacherId: string): Promise<TeacherPayoutRow[]> => {
+  const result = await db.query<TeacherPayoutRow>(
+    'SELECT * FROM teacher_payouts WHERE teacher_id = $1 ORDER BY period DESC',
+    [teacherId]
+  );
+  return result.rows;
+};
+
+/**
+ * A teacher's lifetime totals, balance, the last 12 months and the earnings per course
+ */
+export const getSummary = async (teacherId: string): Promise<EarningsSummary> => {
+  const totalsResult = await db.query(
+    `SELECT ${TOTALS_SELECT} FROM teacher_earnings te WHERE te.teacher_id = $1`,
+    [teacherId]
+  );
+
+  const periodsResult = await db.query(
+    `SELECT DATE_FORMAT(te.created_at, '%Y-%m') as period, ${TOTALS_SELECT}
+     FROM teacher_earnings te
+     WHERE te.teacher_id = $1
+     GROUP BY period
+     ORDER BY period DESC
+     LIMIT 12`,
+    [teacherId]
+  );
+
+  const coursesResult = await db.query(
+    `SELECT te.course_id, c.title, ${TOTALS_SELECT}
+     FROM teacher_earnings te
+     JOIN courses c ON te.course_id = c.id
+     WHERE te.teacher_id = $1
+     GROUP BY te.course_id, c.title
+     ORDER BY net_amount DESC`,
+    [teacherId]
+  );
+
+  const payouts = await getPayouts(teacherId);
+  const totals = toTotals(totalsResult.rows[0]);
+  const paidOut = payouts.reduce((total, payout) => total + Number(payout.amount), 0);
+
+  return {
+    commissionRate: config.earnings.commissionRate,
+    totals,
+    paidOut,
+    balance: totals.netAmount - paidOut,
+    periods: periodsResult.rows.map((row: any) => ({
+      period: row.period,
+      ...toTotals(row),
+      payout: payouts.find((payout) => payout.period === row.period) ?? null
+    })),
+    courses: coursesResult.rows.map((row: any) => ({
+      courseId: row.course_id,
+      title: row.title,
+      ...toTotals(row)
+    }))
+  };
+};
+
+/**
+ * A teacher's payout statement for one month: every sale and refund with its commission
+ */
+export const getStatement = async (teacherId: string, period: string): Promise<PayoutStatement> => {
+  const { start, end, closed } = periodRange(period);
+
+  const teacherResult = await db.query<{ first_name: string; last_name: string; email: string }>(
+    "SELECT first_name, last_name, email FROM users WHERE id = $1 AND role = 'teacher'",
+    [teacherId]
+  );
+  const teacher = teacherResult.rows[0];
+
+  if (!teacher) {
+    throw new AppError('Teacher not found', 404);
+  }
+
+  const entriesResult = await db.query<StatementEntry>(
+    `SELECT te.*, c.title as course_title, COALESCE(p.order_id, o.order_code) as txn_ref
+     FROM teacher_earnings te
+     JOIN courses c ON te.course_id = c.id
+     LEFT JOIN payments p ON te.payment_id = p.id
+     LEFT JOIN orders o ON te.order_id = o.id
+     WHERE te.teacher_id = $1 AND te.created_at >= $2 AND te.created_at < $3
+     ORDER BY te.created_at ASC`,
+    [teacherId, start, end]
+  );
+
+  const totalsResult = await db.query(
+    `SELECT ${TOTALS_SELECT} FROM teacher_earnings te
+     WHERE te.teacher_id = $1 AND te.created_at >= $2 AND te.created_at < $3`,
+    [teacherId, start, end]
+  );
+
+  const payoutResult = await db.query<TeacherPayoutRow>(
+    'SELECT * FROM teacher_payouts WHERE teacher_id = $1 AND period = $2',
+    [teacherId, period]
+  );
+
+  return {
+    teacherId,
+    teacherName: `${teacher.first_name} ${teacher.last_name}`,
+    teacherEmail: teacher.email,
+    period,
+    closed,
+    totals: toTotals(totalsResult.rows[0]),
+    entries: entriesResult.rows,
+    payout: payoutResult.rows[0] ?? null
+  };
+};
+
+const csvValue = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Render a payout statement as CSV, one ledger entry per line followed by the totals
+ */
+export const statementToCsv = (statement: PayoutStatement): string => {
+  const header = ['date', 'type', 'course', 'reference', 'gross_amount', 'commission_rate', 'commission_amount', 'net_amount', 'currency'];
+  const lines = statement.entries.map((entry) => [
+    moment(entry.created_at).format('YYYY-MM-DD HH:mm:ss'),
+    entry.entry_type,
+    entry.course_title,
+    entry.txn_ref,
+    Number(entry.gross_amount),
+    Number(entry.commission_rate),
+    Number(entry.commission_amount),
+    Number(entry.net_amount),
+    entry.currency
+  ]);
+  const { totals } = statement;
+
+  return [
+    header.join(','),
+    ...lines.map((line) => line.map(csvValue).join(',')),
+    ['total', '', '', '', totals.grossAmount, '', totals.commissionAmount, totals.netAmount, config.payment.currency]
+      .map(csvValue)
+      .join(',')
+  ].join('\r\n');
+};
+
+/**
+ * Every teacher's totals for one month, with the payout recorded for it (Admin)
+ */
+export const listStatements = async (period: string): Promise<TeacherStatementSummary[]> => {
+  const { start, end } = periodRange(period);
+
+  const result = await db.query(
+    `SELECT te.teacher_id, u.first_name, u.last_name, u.email, ${TOTALS_SELECT}
+     FROM teacher_earnings te
+     JOIN users u ON te.teacher_id = u.id
+     WHERE te.created_at >= $1 AND te.created_at < $2
+     GROUP BY te.teacher_id, u.first_name, u.last_name, u.email
+     ORDER BY net_amount DESC`,
+    [start, end]
+  );
+
+  const payouts = await db.query<TeacherPayoutRow>('SELECT * FROM teacher_payouts WHERE period = $1', [period]);
+
+  return result.rows.map((row: any) => ({
+    teacherId: row.teacher_id,
+    teacherName: `${row.first_name} ${row.last_name}`,
+    teacherEmail: row.email,
+    ...toTotals(row),
+    payout: payouts.rows.find((payout) => payout.teacher_id === row.teacher_id) ?? null
+  }));
+};
+
+/**
+ * Record that a teacher's statement for a closed month was paid out, for its net amount
+ */
+export const recordPayout = async (
+  teacherId: string,
+  period: string,
+  details: { reference?: string; note?: string; paidBy: string }
+): Promise<TeacherPayoutRow> => {
+  const statement = await getStatement(teacherId, period);
+
+  if (!statement.closed) {
+    throw new AppError('The statement for this month is still open', 400);
+  }
+
+  if (statement.payout) {
+    throw new AppError('This statement has already been paid out', 409);
+  }
+
+  const amount = statement.totals.netAmount;
+
+  if (amount <= 0) {
+    throw new AppError('Nothing to pay out for this month', 400);
+  }
+
+  const payoutId = uuidv4();
+
+  try {
+    await db.query(
+      `INSERT INTO teacher_payouts (id, teacher_id, period, amount, currency, reference, note, paid_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [payoutId, teacherId, period, amount, config.payment.currency, details.reference ?? null, details.note ?? null, details.paidBy]
+    );
+  } catch (error) {
+    // Recorded concurrently by another admin (unique teacher and period)
+    if ((error as { code?: string }).code === 'ER_DUP_ENTRY') {
+      throw new AppError('This statement has already been paid out', 409);
+    }
+    throw error;
+  }
+
+  logger.info('Teacher payout recorded', { teacherId, period, amount, paidBy: details.paidBy });
+
+  await notificationService.notify({
+    userId: teacherId,
+    type: 'payment',
+    title: 'Earnings paid out',
+    message: `Your earnings of ${amount.toLocaleString()} VNĐ for ${period} have been paid out.`,
+    referenceType: 'payout',
+    referenceId: payoutId,
+    link: '/dashboard/teacher/earnings'
+  });
+
+  const result = await db.query<TeacherPayoutRow>('SELECT * FROM teacher_payouts WHERE id = $1', [payoutId]);
+  return result.rows[0];
+};
+
+export default {
+  splitCommission,
+  recordSale,
+  recordRefund,
+  getSummary,
+  getStatement,
+  statementToCsv,
+  listStatements,
+  recordPayout
+};
@@ -0,0 +1,75 @@
+import { PoolConnection } from 'mysql2/promise';
+import db from '../db';
+import { EnrollmentRow } from '../types';
+
+/**
+ * SQL condition for an enrollment that still grants access. An enrollment downgraded after a refund
+ * becomes a trial that keeps working until its `expires_at`.
+ * @param alias - Table alias of `enrollments` in the query, if any
+ */
+export const activeEnrollmentCondition = (alias?: string): string => {
+  const column = alias ? `${alias}.expires_at` : 'expires_at';
+  return `(${column} IS NULL OR ${column} > NOW())`;
+};
+
+/**
+ * The user's enrollment in the course, if it still grants access
+ */
+export const findActiveEnrollment = async (userId: string, courseId: string): Promise<EnrollmentRow | null> => {
+  const result = await db.query<EnrollmentRow>(
+    `SELECT * FROM enrollments WHERE user_id = $1 AND course_id = $2 AND ${activeEnrollmentCondition()}`,
+    [userId, courseId]
+  );
+  return result.rows[0] ?? null;
+};
+
+/**
+ * Whether the user currently has access to the course through an enrollment
+ */
+export const isEnrolled = async (userId: string, courseId: string): Promise<boolean> =>
+  (await findActiveEnrollment(userId, courseId)) !== null;
+
+/**
+ * The courses the user already owns for good, so buying them again makes no sense. Trial and
+ * expiring enrollments (downgraded after a refund) do not count: the course can be bought again.
+ */
+export const findOwnedCourseIds = async (userId: string, courseIds: string[]): Promise<string[]> => {
+  if (courseIds.length === 0) {
+    return [];
+  }
+
+  const placeholders = courseIds.map(() => '?').join(', ');
+  const result = await db.query<{ course_id: string }>(
+    `SELECT course_id FROM enrollments
+     WHERE user_id = ? AND course_id IN (${placeholders}) AND expires_at IS NULL AND enrollment_type <> 'trial'`,
+    [userId, ...courseIds]
+  );
+  return result.rows.map((row) => row.course_id);
+};
+
+/**
+ * Enroll a buyer in a purchased course, turning an existing trial or expired enrollment into a paid one
+ * @param connection - Run inside this transaction instead of on the pool
+ */
+export const grantPaidEnrollment = async (
+  userId: string,
+  courseId: string,
+  connection?: PoolConnection
+): Promise<void> => {
+  const sql = `INSERT INTO enrollments (user_id, course_id, enrollment_type) VALUES (?, ?, 'paid')
+     ON DUPLICATE KEY UPDATE enrollment_type = 'paid', expires_at = NULL`;
+
+  if (connection) {
+    await connection.query(sql, [userId, courseId]);
+  } else {
+    await db.query(sql, [userId, courseId]);
+  }
+};
+
+export default {
+  activeEnrollmentCondition,
+  findActiveEnrollment,
+  isEnrolled,
+  findOwnedCourseIds,
+  grantPaidEnrollment
+};
@@ -0,0 +1,422 @@
+import fs from 'fs';
+import path from 'path';
+import { RowDataPacket } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+import moment from 'moment';
+import PDFDocument from 'pdfkit';
+import db from '../db';
+import config from '../config';
+import AppError from '../utils/appError';
+import logger from '../utils/logger';
+import orderService from './orderService';
+import { BillingProfileRow, InvoiceLine, InvoiceRow, PaymentRow } from '../types';
+
+export interface BillingProfileData {
+  companyName?: string | null;
+  taxCode?: string | null;
+  address?: string | null;
+  invoiceEmail?: string | null;
+}
+
+interface InvoiceSource {
+  userId: string;
+  status: string;
+  couponCode: string | null;
+  currency: string;
+  paidAt: string | null;
+  lines: InvoiceLine[];
+}
+
+// Files live under the uploads directory but are only served through the invoice endpoints
+const INVOICE_DIR = path.join(__dirname, '..', '..', config.uploadDir, 'invoices');
+
+const INVOICEABLE_STATUSES = ['completed', 'completed_enrollment_failed', 'refunded'];
+
+/**
+ * Split a VAT-inclusive amount into its taxable part and the VAT, in whole dong
+ */
+export const splitVat = (total: number, vatRate: number): { taxableAmount: number; vatAmount: number } => {
+  const taxableAmount = Math.round(total / (1 + vatRate / 100));
+  return { taxableAmount, vatAmount: Math.round(total) - taxableAmount };
+};
+
+/**
+ * The user's company details for VAT invoices, or null when none were saved
+ */
+export const getBillingProfile = async (userId: string): Promise<BillingProfileRow | null> => {
+  const result = await db.query<BillingProfileRow>('SELECT * FROM billing_profiles WHERE user_id = $1', [userId]);
+  return result.rows[0] ?? null;
+};
+
+/**
+ * Save the user's company details; used for invoices issued from now on
+ */
+export const updateBillingProfile = async (userId: string, data: BillingProfileData): Promise<BillingProfileRow> => {
+  const current = await getBillingProfile(userId);
+  const merged = {
+    companyName: data.companyName !== undefined ? data.companyName : current?.company_name ?? null,
+    taxCode: data.taxCode !== undefined ? data.taxCode : current?.tax_code ?? null,
+    address: data.address !== undefined ? data.address : current?.address ?? null,
+    invoiceEmail: data.invoiceEmail !== undefined ? data.invoiceEmail : current?.invoice_email ?? null
+  };
+
+  if (merged.taxCode && !merged.companyName) {
+    throw new AppError('A company name is required with a tax code', 400);
+  }
+
+  await db.query(
+    `INSERT INTO billing_profiles (user_id, company_name, tax_code, address, invoice_email)
+     VALUES ($1, $2, $3, $4, $5)
+     ON DUPLICATE KEY UPDATE company_name = VALUES(company_name), tax_code = VALUES(tax_code),
+       address = VALUES(address), invoice_email = VALUES(invoice_email), updated_at = NOW()`,
+    [userId, merged.companyName || null, merged.taxCode || null, merged.address || null, merged.invoiceEmail || null]
+  );
+
+  return (await getBillingProfile(userId)) as BillingProfileRow;
+};
+
+const loadSource = async (type: 'payment' | 'order', id: string): Promise<InvoiceSource | null> => {
+  if (type === 'payment') {
+    const result = await db.query<PaymentRow & { course_title: string; coupon_code: string | null }>(
+      `SELECT p.*, c.title as course_title, cp.code as coupon_code
+       FROM payments p
+       JOIN courses c ON p.course_id = c.id
+       LEFT JOIN coupons cp ON p.coupon_id = cp.id
+       WHERE p.id = $1`,
+      [id]
+    );
+    const payment = result.rows[0];
+
+    if (!payment) {
+      return null;
+    }
+
+    const amount = Number(payment.amount);
+
+    return {
+      userId: payment.user_id,
+      status: payment.payment_status,
+      couponCode: payment.coupon_code,
+      currency: payment.currency,
+      paidAt: payment.payment_date ?? null,
+      lines: [{
+        courseId: payment.course_id,
+        description: payment.course_title,
+        price: Number(payment.original_amount ?? amount),
+        discountAmount: Number(payment.discount_amount ?? 0),
+        amount
+      }]
+    };
+  }
+
+  const found = await orderService.findOrder({ id });
+
+  if (!found) {
+    return null;
+  }
+
+  const couponResult = found.order.coupon_id
+    ? await db.query<{ code: string }>('SELECT code FROM coupons WHERE id = $1', [found.order.coupon_id])
+    : null;
+
+  return {
+    userId: found.order.user_id,
+    status: found.order.status,
+    couponCode: couponResult?.rows[0]?.code ?? null,
+    currency: found.order.currency,
+    paidAt: found.order.payment_date ?? null,
+    lines: found.items.map((item) => ({
+      courseId: item.course_id,
+      description: item.course_title ?? item.course_id,
+      price: Number(item.price),
+      discountAmount: Number(item.discount_amount),
+      amount: Number(item.amount)
+    }))
+  };
+};
+
+const parseInvoice = (invoice: InvoiceRow): InvoiceRow => {
+  if (typeof invoice.items === 'string') {
+    try {
+      invoice.items = JSON.parse(invoice.items);
+    } catch {
+      invoice.items = [];
+    }
+  }
+  return invoice;
+};
+
+/**
+ * The invoice of a payment or cart order, if one was issued
+ */
+export const findInvoice = async (type: 'payment' | 'order', id: string): Promise<InvoiceRow | null> => {
+  const result = await db.query<InvoiceRow>(
+    `SELECT * FROM invoices WHERE ${type === 'payment' ? 'payment_id' : 'order_id'} = $1`,
+    [id]
+  );
+  return result.rows[0] ? parseInvoice(result.rows[0]) : null;
+};
+
+// Helvetica only covers Latin-1, so Vietnamese diacritics are dropped unless a TrueType font is configured
+const hasInvoiceFont = (): boolean => Boolean(config.invoice.fontPath) && fs.existsSync(config.invoice.fontPath);
+
+const printable = (text: string): string => hasInvoiceFont()
+  ? text
+  : text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/\u0111/g, 'd').replace(/\u0110/g, 'D');
+
+const formatMoney = (amount: number, currency: string): string =>
+  `${Math.round(amount).toLocaleString('vi-VN')} ${currency}`;
+
+/**
+ * Render an invoice as an A4 PDF
+ */
+export const renderInvoicePdf = (invoice: InvoiceRow): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: 50,
+      info: { Title: `Invoice ${invoice.invoice_number}`, Author: config.invoice.seller.name }
+    });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const regular = hasInvoiceFont() ? 'InvoiceFont' : 'Helvetica';
+    const bold = hasInvoiceFont() ? 'InvoiceFont' : 'Helvetica-Bold';
+    if (hasInvoiceFont()) {
+      doc.registerFont('InvoiceFont', config.invoice.fontPath);
+    }
+
+    const { seller } = config.invoice;
+    const items = invoice.items as InvoiceLine[];
+    const left = doc.page.margins.left;
+    const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const money = (amount: number): string => formatMoney(amount, invoice.currency);
+    const line = (y: number): void => {
+      doc.moveTo(left, y).lineTo(left + width, y).strokeColor('#cccccc').stroke();
+    };
+
+    doc.font(bold).fontSize(18).text(printable('HÓA ĐƠN GIÁ TRỊ GIA TĂNG / VAT INVOICE'), { align: 'center' });
+    doc.moveDown(0.3);
+    doc.font(regular).fontSize(10)
+      .text(printable(`Số / No.: ${invoice.invoice_number}`), { align: 'center' })
+      .text(printable(`Ngày / Date: ${moment(invoice.issued_at).format('DD/MM/YYYY')}`), { align: 'center' });
+    doc.moveDown();
+
+    doc.font(bold).fontSize(11).text(printable('Đơn vị bán / Seller'));
+    doc.font(regular).fontSize(10).text(printable(seller.name));
+    if (seller.taxCode) doc.text(printable(`Mã số thuế / Tax code: ${seller.taxCode}`));
+    if (seller.address) doc.text(printable(`Địa chỉ / Address: ${seller.address}`));
+    doc.text(printable([seller.email, seller.phone].filter(Boolean).join(' - ')));
+    doc.moveDown();
+
+    doc.font(bold).fontSize(11).text(printable('Người mua / Buyer'));
+    doc.font(regular).fontSize(10).text(printable(invoice.buyer_name));
+    if (invoice.buyer_company) doc.text(printable(`Đơn vị / Company: ${invoice.buyer_company}`));
+    if (invoice.buyer_tax_code) doc.text(printable(`Mã số thuế / Tax code: ${invoice.buyer_tax_code}`));
+    if (invoice.buyer_address) doc.text(printable(`Địa chỉ / Address: ${invoice.buyer_address}`));
+    doc.text(invoice.buyer_email);
+    doc.moveDown();
+
+    // Line items: description, price, discount, amount
+    const columns = [
+      { label: 'Khóa học / Course', x: left, width: width * 0.46, align: 'left' as const },
+      { label: 'Đơn giá / Price', x: left + width * 0.46, width: width * 0.18, align: 'right' as const },
+      { label: 'Giảm giá / Discount', x: left + width * 0.64, width: width * 0.18, align: 'right' as const },
+      { label: 'Thành tiền / Amount', x: left + width * 0.82, width: width * 0.18, align: 'right' as const }
+    ];
+    const row = (values: string[], font: string): void => {
+      const y = doc.y;
+      let bottom = y;
+      doc.font(font).fontSize(9);
+      values.forEach((value, index) => {
+        const column = columns[index];
+        doc.text(printable(value), column.x, y, { width: column.width, align: column.align });
+        bottom = Math.max(bottom, doc.y);
+      });
+      doc.x = left;
+      doc.y = bottom + 4;
+    };
+
+    line(doc.y);
+    doc.y += 4;
+    row(columns.map((column) => column.label), bold);
+    line(doc.y);
+    doc.y += 4;
+    for (const item of items) {
+      row([item.description, money(item.price), money(item.discountAmount), money(item.amount)], regular);
+    }
+    line(doc.y);
+    doc.moveDown();
+
+    // Totals, right-aligned under the amount column
+    const totals: Array<[string, string]> = [
+      ['Cộng tiền hàng / Subtotal', money(invoice.subtotal)],
+      [
+        invoice.coupon_code ? `Giảm giá / Discount (${invoice.coupon_code})` : 'Giảm giá / Discount',
+        `-${money(invoice.discount_amount)}`
+      ],
+      ['Thành tiền chưa thuế / Amount before VAT', money(invoice.taxable_amount)],
+      [`Thuế GTGT / VAT (${Number(invoice.vat_rate)}%)`, money(invoice.vat_amount)],
+      ['Tổng thanh toán / Total', money(invoice.total_amount)]
+    ];
+    totals.forEach(([label, value], index) => {
+      const y = doc.y;
+      const font = index === totals.length - 1 ? bold : regular;
+      doc.font(font).fontSize(10)
+        .text(printable(label), left, y, { width: width * 0.7, align: 'right' })
+        .text(value, left + width * 0.7, y, { width: width * 0.3, align: 'right' });
+      doc.x = left;
+    });
+
+    doc.moveDown(2);
+    doc.font(regular).fontSize(8).fillColor('#666666')
+      .text(printable('Giá khóa học đã bao gồm thuế GTGT. / Course prices include VAT.'), left, doc.y, { width, align: 'center' });
+
+    doc.end();
+  });
+
+const writeInvoiceFile = async (invoice: InvoiceRow): Promise<string> => {
+  const pdf = await renderInvoicePdf(invoice);
+  const fileName = `${invoice.invoice_number}.pdf`;
+
+  await fs.promises.mkdir(INVOICE_DIR, { recursive: true });
+  await fs.promises.writeFile(path.join(INVOICE_DIR, fileName), pdf);
+
+  const filePath = `invoices/${fileName}`;
+  await db.query('UPDATE invoices SET file_path = $1 WHERE id = $2', [filePath, invoice.id]);
+
+  return filePath;
+};
+
+/**
+ * Issue the invoice of a completed payment or cart order: the next number of the year, buyer details
+ * from the user and their billing profile, the VAT split out of the VAT-inclusive total, and the PDF.
+ * Issuing again returns the existing invoice, so the number is never reused or skipped.
+ */
+export const issueInvoice = async (type: 'payment' | 'order', id: string): Promise<InvoiceRow> => {
+  const existing = await findInvoice(type, id);
+  if (existing) {
+    return existing;
+  }
+
+  const source = await loadSource(type, id);
+
+  if (!source) {
+    throw new AppError(type === 'payment' ? 'Payment not found' : 'Order not found', 404);
+  }
+
+  if (!INVOICEABLE_STATUSES.includes(source.status)) {
+    throw new AppError('An invoice is only issued for a completed payment', 400);
+  }
+
+  const totalAmount = source.lines.reduce((total, item) => total + item.amount, 0);
+
+  if (totalAmount <= 0) {
+    throw new AppError('Nothing was charged for this transaction', 400);
+  }
+
+  const userResult = await db.query<{ email: string; first_name: string; last_name: string }>(
+    'SELECT email, first_name, last_name FROM users WHERE id = $1',
+    [source.userId]
+  );
+  const user = userResult.rows[0];
+  const profile = await getBillingProfile(source.userId);
+
+  const subtotal = source.lines.reduce((total, item) => total + item.price, 0);
+  const discountAmount = source.lines.reduce((total, item) => total + item.discountAmount, 0);
+  const { taxableAmount, vatAmount } = splitVat(totalAmount, config.invoice.vatRate);
+  const issuedAt = moment(source.paidAt ?? undefined);
+  const invoiceId = uuidv4();
+
+  try {
+    await db.transaction(async (connection) => {
+      // Gapless numbering per year: the sequence row stays locked until the invoice is stored
+      await connection.execute('INSERT IGNORE INTO invoice_sequences (year, last_number) VALUES (?, 0)', [issuedAt.year()]);
+      const [sequences] = await connection.execute<RowDataPacket[]>(
+        'SELECT last_number FROM invoice_sequences WHERE year = ? FOR UPDATE',
+        [issuedAt.year()]
+      );
+      const number = Number(sequences[0].last_number) + 1;
+      await connection.execute('UPDATE invoice_sequences SET last_number = ? WHERE year = ?', [number, issuedAt.year()]);
+
+      await connection.execute(
+        `INSERT INTO invoices (id, invoice_number, payment_id, order_id, user_id, buyer_name, buyer_email, buyer_company,
+           buyer_tax_code, buyer_address, items, coupon_code, subtotal, discount_amount, taxable_amount, vat_rate,
+           vat_amount, total_amount, currency, issued_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          invoiceId,
+          `${config.invoice.prefix}-${issuedAt.year()}-${String(number).padStart(6, '0')}`,
+          type === 'payment' ? id : null,
+          type === 'order' ? id : null,
+          source.userId,
+          user ? `${user.first_name} ${user.last_name}` : source.userId,
+          profile?.invoice_email || user?.email || '',
+          profile?.company_name ?? null,
+          profile?.tax_code ?? null,
+          profile?.address ?? null,
+          JSON.stringify(source.lines),
+          source.couponCode,
+          subtotal,
+          discountAmount,
+          taxableAmount,
+          config.invoice.vatRate,
+          vatAmount,
+          totalAmount,
+          source.currency,
+          issuedAt.format('YYYY-MM-DD HH:mm:ss')
+        ]
+      );
+    });
+  } catch (error) {
+    // Issued concurrently by another request (the unique key on payment_id / order_id)
+    if ((error as { code?: string }).code === 'ER_DUP_ENTRY') {
+      const concurrent = await findInvoice(type, id);
+      if (concurrent) {
+        return concurrent;
+      }
+    }
+    throw error;
+  }
+
+  const invoice = (await findInvoice(type, id)) as InvoiceRow;
+
+  try {
+    invoice.file_path = await writeInvoiceFile(invoice);
+  } catch (error) {
+    // The number is taken either way; the PDF is rendered again on download
+    logger.error('Failed to write invoice PDF:', error);
+  }
+
+  logger.info('Invoice issued', { invoiceNumber: invoice.invoice_number, type, id, totalAmount });
+
+  return invoice;
+};
+
+/**
+ * The PDF of an invoice, rendered again when the stored file is missing
+ */
+export const getInvoicePdf = async (invoice: InvoiceRow): Promise<Buffer> => {
+  if (invoice.file_path) {
+    try {
+      return await fs.promises.readFile(path.join(INVOICE_DIR, path.basename(invoice.file_path)));
+    } catch {
+      logger.warn('Invoice PDF missing, rendering it again', { invoiceNumber: invoice.invoice_number });
+    }
+  }
+
+  await writeInvoiceFile(invoice);
+  return fs.promises.readFile(path.join(INVOICE_DIR, `${invoice.invoice_number}.pdf`));
+};
+
+export default {
+  splitVat,
+  getBillingProfile,
+  updateBillingProfile,
+  findInvoice,
+  issueInvoice,
+  renderInvoicePdf,
+  getInvoicePdf
+};
@@ -0,0 +1,312 @@
+import fs from 'fs';
+import path from 'path';
+import { OpenAI } from 'openai';
+import config from '../config';
+import logger from '../utils/logger';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// What a completion is for; the mock provider picks its fixture by purpose
+export type LLMPurpose = 'chat' | 'summary' | 'concepts' | 'quiz' | 'feedback';
+
+export interface LLMCompletionOptions {
+  purpose: LLMPurpose;
+  maxTokens: number;
+  temperature: number;
+  // Ask for a JSON object as the response
+  json?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface LLMCompletion {
+  content: string;
+  tokensUsed: number;
+}
+
+/**
+ * An LLM provider turns a list of chat messages into a completion, and texts into embedding vectors.
+ * Implement this interface to plug in another backend (hosted API, local model, test double, ...).
+ */
+export interface LLMProvider {
+  name: string;
+  // Model used by embed(), null when the provider has none (retrieval then falls back to keyword scoring)
+  embeddingModel: string | null;
+  complete(messages: LLMMessage[], options: LLMCompletionOptions): Promise<LLMCompletion>;
+  stream(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions,
+    onToken: (token: string) => void
+  ): Promise<LLMCompletion>;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Embedding requests are sent in batches to stay under the API input limits
+const EMBEDDING_BATCH_SIZE = 100;
+
+/**
+ * Chat completions through the OpenAI API, or any server implementing it (with a custom base URL)
+ */
+export class OpenAIProvider implements LLMProvider {
+  name: string;
+  embeddingModel: string | null;
+  private client: OpenAI;
+  private model: string;
+
+  constructor(options: { apiKey: string; model: string; embeddingModel?: string; baseURL?: string; name?: string }) {
+    this.name = options.name ?? 'openai';
+    this.model = options.model;
+    this.embeddingModel = options.apiKey && options.embeddingModel ? options.embeddingModel : null;
+    this.client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+  }
+
+  async complete(messages: LLMMessage[], options: LLMCompletionOptions): Promise<LLMCompletion> {
+    const response = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        messages,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        ...(options.json ? { response_format: { type: 'json_object' as const } } : {})
+      },
+      { signal: options.signal }
+    );
+
+    return {
+      content: response.choices[0]?.message.content ?? '',
+      tokensUsed: response.usage?.total_tokens ?? 0
+    };
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions,
+    onToken: (token: string) => void
+  ): Promise<LLMCompletion> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        messages,
+        max_tokens: options.maxTokens,
+        temperature: options.temperature,
+        stream: true,
+        stream_options: { include_usage: true }
+      },
+      { signal: options.signal }
+    );
+
+    let content = '';
+    let tokensUsed = 0;
+
+    for await (const chunk of stream) {
+      const token = chunk.choices[0]?.delta?.content;
+      if (token) {
+        content += token;
+        onToken(token);
+      }
+      // The last chunk carries the usage of the whole completion
+      if (chunk.usage) {
+        tokensUsed = chunk.usage.total_tokens;
+      }
+    }
+
+    return { content, tokensUsed };
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.embeddingModel) {
+      throw new Error(`The ${this.name} provider has no embedding model configured`);
+    }
+
+    const vectors: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      const response = await this.client.embeddings.create({
+        model: this.embeddingModel,
+        input: texts.slice(i, i + EMBEDDING_BATCH_SIZE)
+      });
+      vectors.push(...response.data.map((item) => item.embedding));
+    }
+    return vectors;
+  }
+}
+
+/**
+ * A model served locally behind an OpenAI-compatible endpoint (Ollama, llama.cpp server, vLLM, ...)
+ */
+export class LocalProvider extends OpenAIProvider {
+  constructor(options: { baseURL: string; model: string; embeddingModel?: string; apiKey?: string }) {
+    // Local servers ignore the key, but the client requires one
+    super({
+      apiKey: options.apiKey || 'local',
+      model: options.model,
+      embeddingModel: options.embeddingModel,
+      baseURL: options.baseURL,
+      name: 'local'
+    });
+  }
+}
+
+interface MockFixture {
+  // Regular expression tested against the last user message; fixtures without one always match
+  match?: string;
+  // Returned as is, or serialized when it is an object (JSON responses)
+  response: string | Record<string, unknown>;
+}
+
+export type MockFixtures = Partial<Record<LLMPurpose, MockFixture[]>>;
+
+const lastUserMessage = (messages: LLMMessage[]): string =>
+  [...messages].reverse().find((message) => message.role === 'user')?.content ?? '';
+
+// Same rough estimate as the chat history budget: about 4 characters per token
+const countTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/**
+ * Deterministic responses for running the AI features offline (development, tests, CI).
+ * Responses come from fixtures keyed by purpose, then from built-in defaults derived from the input.
+ */
+export class MockProvider implements LLMProvider {
+  name = 'mock';
+  // Retrieval stays offline on keyword scoring
+  embeddingModel = null;
+  private fixtures: MockFixtures;
+
+  constructor(fixtures: MockFixtures = {}) {
+    this.fixtures = fixtures;
+  }
+
+  /**
+   * Load fixtures from a JSON file of the form { "<purpose>": [{ "match": "...", "response": ... }] }
+   */
+  static fromFile(filePath: string): MockProvider {
+    try {
+      return new MockProvider(JSON.parse(fs.readFileSync(filePath, 'utf8')) as MockFixtures);
+    } catch (error) {
+      logger.warn(`Could not load LLM mock fixtures from ${filePath}: ${(error as Error).message}`);
+      return new MockProvider();
+    }
+  }
+
+  async complete(messages: LLMMessage[], options: LLMCompletionOptions): Promise<LLMCompletion> {
+    const content = this.respond(messages, options.purpose);
+    const prompt = messages.map((message) => message.content).join('\n');
+
+    return { content, tokensUsed: countTokens(prompt) + countTokens(content) };
+  }
+
+  async stream(
+    messages: LLMMessage[],
+    options: LLMCompletionOptions,
+    onToken: (token: string) => void
+  ): Promise<LLMCompletion> {
+    const completion = await this.complete(messages, options);
+
+    // Emit word by word (keeping the whitespace) so clients see incremental output
+    for (const token of completion.content.match(/\S+\s*/g) ?? []) {
+      if (options.signal?.aborted) {
+        throw new Error('Request was aborted');
+      }
+      onToken(token);
+    }
+
+    return completion;
+  }
+
+  async embed(): Promise<number[][]> {
+    throw new Error('The mock provider does not embed texts');
+  }
+
+  private respond(messages: LLMMessage[], purpose: LLMPurpose): string {
+    const input = lastUserMessage(messages);
+    const fixture = (this.fixtures[purpose] ?? []).find(
+      (candidate) => !candidate.match || new RegExp(candidate.match, 'i').test(input)
+    );
+
+    if (fixture) {
+      return typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response);
+    }
+
+    return this.defaultResponse(input, purpose);
+  }
+
+  private defaultResponse(input: string, purpose: LLMPurpose): string {
+    const excerpt = input.replace(/\s+/g, ' ').trim().slice(0, 200);
+
+    switch (purpose) {
+      case 'concepts': {
+        // The first distinct longer words of the content
+        const words = Array.from(new Set(input.toLowerCase().match(/[a-z][a-z-]{5,}/g) ?? []));
+        return JSON.stringify({ concepts: words.slice(0, 5) });
+      }
+      case 'quiz':
+        return JSON.stringify({
+          questions: [
+            {
+              question: `Which statement is covered by this content: "${excerpt.slice(0, 80)}"?`,
+              options: ['The statement above', 'None of the content', 'An unrelated topic', 'All of the above'],
+              correctAnswerIndex: 0,
+              explanation: 'The statement is quoted from the content.'
+            }
+          ]
+        });
+      case 'feedback':
+        return 'Mock feedback: the submission addresses the assignment. Strengths: clear structure. '
+          + 'To improve: add more detail and examples.';
+      case 'summary':
+        return `Summary: ${excerpt}`;
+      case 'chat':
+      default:
+        return `Mock response to: ${excerpt}`;
+    }
+  }
+}
+
+const createProvider = (type: string): LLMProvider => {
+  switch (type) {
+    case 'mock':
+      return config.llm.mockFixtures
+        ? MockProvider.fromFile(path.resolve(config.llm.mockFixtures))
+        : new MockProvider();
+    case 'local':
+      return new LocalProvider({
+        baseURL: config.llm.localBaseUrl,
+        model: config.llm.localModel,
+        embeddingModel: config.llm.localEmbeddingModel,
+        apiKey: config.llm.localApiKey
+      });
+    case 'openai':
+      return new OpenAIProvider({
+        apiKey: config.openaiApiKey,
+        model: config.openaiModel,
+        embeddingModel: config.rag.embeddingModel
+      });
+    default:
+      logger.warn(`Unknown LLM_PROVIDER "${type}", falling back to openai provider`);
+      return new OpenAIProvider({
+        apiKey: config.openaiApiKey,
+        model: config.openaiModel,
+        embeddingModel: config.rag.embeddingModel
+      });
+  }
+};
+
+let provider: LLMProvider = createProvider(config.llm.provider);
+
+/**
+ * The provider used by the AI features
+ */
+export const getLLMProvider = (): LLMProvider => provider;
+
+/**
+ * Replace the active provider (e.g. with a stub in tests)
+ */
+export const setLLMProvider = (next: LLMProvider): void => {
+  provider = next;
+};
+
+export default {
+  getLLMProvider,
+  setLLMProvider
+};
@@ -0,0 +1,172 @@
+import fs from 'fs';
+import path from 'path';
+import config from '../config';
+import logger from '../utils/logger';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * A mail transport delivers a fully composed message.
+ * Implement this interface to plug in a real provider (SMTP, SES, SendGrid, ...).
+ */
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Logs outgoing mail instead of delivering it (local development)
+ */
+export class ConsoleTransport implements MailTransport {
+  name = 'console';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    logger.info('Outgoing email (console transport)', {
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text
+    });
+  }
+}
+
+/**
+ * Writes every outgoing message as an .eml file (local testing)
+ */
+export class FileTransport implements MailTransport {
+  name = 'file';
+  private outputDir: string;
+
+  constructor(outputDir: string) {
+    this.outputDir = outputDir;
+  }
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.promises.mkdir(this.outputDir, { recursive: true });
+
+    const safeRecipient = message.to.replace(/[^a-zA-Z0-9@._-]/g, '_');
+    const fileName = `${Date.now()}_${safeRecipient}.eml`;
+    const filePath = path.join(this.outputDir, fileName);
+
+    const headers = [
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8'
+    ];
+
+    await fs.promises.writeFile(filePath, `${headers.join('\r\n')}\r\n\r\n${message.text}\r\n`, 'utf8');
+
+    logger.info('Outgoing email written to file', { to: message.to, subject: message.subject, filePath });
+  }
+}
+
+const createTransport = (type: string): MailTransport => {
+  switch (type) {
+    case 'file':
+      return new FileTransport(path.resolve(config.email.outputDir));
+    case 'console':
+      return new ConsoleTransport();
+    default:
+      logger.warn(`Unknown EMAIL_TRANSPORT "${type}", falling back to console transport`);
+      return new ConsoleTransport();
+  }
+};
+
+class MailService {
+  private transport: MailTransport;
+  private from: string;
+
+  constructor() {
+    this.transport = createTransport(config.email.transport);
+    this.from = config.email.from;
+  }
+
+  /**
+   * Replace the active transport (e.g. with a provider-backed one, or a stub in tests)
+   */
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  getTransportName(): string {
+    return this.transport.name;
+  }
+
+  /**
+   * Send a message through the active transport
+   */
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transport.send({ ...message, from: this.from });
+    } catch (error) {
+      logger.error('Error sending email:', error);
+      throw new Error('Failed to send email');
+    }
+  }
+
+  /**
+   * Send the password reset link
+   */
+  async sendPasswordResetEmail(to: string, firstName: string, resetUrl: string, expiresInMinutes: number): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Reset your password',
+      text: [
+        `Hi ${firstName},`,
+        '',
+        'We received a request to reset the password for your account.',
+        `Use the link below to choose a new password. The link expires in ${expiresInMinutes} minutes and can only be used once.`,
+        '',
+        resetUrl,
+        '',
+        'If you did not request a password reset, you can safely ignore this email.'
+      ].join('\n')
+    });
+  }
+
+  /**
+   * Send the email address verification link
+   */
+  async sendVerificationEmail(to: string, firstName: string, verifyUrl: string, expiresInHours: number): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Verify your email address',
+      text: [
+        `Hi ${firstName},`,
+        '',
+        'Thanks for signing up! Please confirm your email address by opening the link below.',
+        `The link expires in ${expiresInHours} hours.`,
+        '',
+        verifyUrl,
+        '',
+        'If you did not create an account, you can safely ignore this email.'
+      ].join('\n')
+    });
+  }
+
+  /**
+   * Confirm that the password was changed through the reset flow
+   */
+  async sendPasswordChangedEmail(to: string, firstName: string): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Your password has been changed',
+      text: [
+        `Hi ${firstName},`,
+        '',
+        'The password for your account was just reset and all existing sessions have been signed out.',
+        'If you did not do this, please contact support immediately.'
+      ].join('\n')
+    });
+  }
+}
+
+export default new MailService();
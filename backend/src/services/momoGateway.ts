@@ -0,0 +1,236 @@
+import crypto from 'crypto';
+import moment from 'moment';
+import logger from '../utils/logger';
+import {
+  GatewayPaymentRequest,
+  GatewayQueryRequest,
+  GatewayQueryResult,
+  GatewayRefundRequest,
+  GatewayRefundResult,
+  GatewayRequest,
+  GatewayResponse,
+  GatewayTransactionResult,
+  PaymentGateway,
+  PaymentMethodOption,
+  WebhookOutcome,
+  WebhookVerification
+} from './paymentGateway';
+
+export interface MoMoOptions {
+  partnerCode: string;
+  accessKey: string;
+  secretKey: string;
+  endpoint: string;
+  returnUrl: string;
+  ipnUrl: string;
+}
+
+const REQUEST_TYPES: PaymentMethodOption[] = [
+  { code: 'captureWallet', name: 'MoMo e-wallet' },
+  { code: 'payWithATM', name: 'Domestic ATM card' },
+  { code: 'payWithCC', name: 'International card' }
+];
+
+// Fields of the redirect and IPN, in the order MoMo signs them
+const RESULT_SIGNATURE_FIELDS = [
+  'accessKey', 'amount', 'extraData', 'message', 'orderId', 'orderInfo', 'orderType',
+  'partnerCode', 'payType', 'requestId', 'responseTime', 'resultCode', 'transId'
+];
+
+/**
+ * MoMo e-wallet: the create API returns a payUrl; results arrive on the redirect and as a POSTed IPN,
+ * both signed with HMAC-SHA256 over `key=value&...` in a fixed field order
+ */
+export class MoMoGateway implements PaymentGateway {
+  id = 'momo';
+  name = 'MoMo';
+  description = 'MoMo e-wallet, ATM and international cards';
+  private options: MoMoOptions;
+
+  constructor(options: MoMoOptions) {
+    this.options = options;
+  }
+
+  async createPaymentUrl(request: GatewayPaymentRequest): Promise<string> {
+    const requestType = REQUEST_TYPES.some((type) => type.code === request.bankCode)
+      ? request.bankCode as string
+      : 'captureWallet';
+    const payload = {
+      partnerCode: this.options.partnerCode,
+      requestId: `${request.txnRef}_${Date.now()}`,
+      amount: Math.round(request.amount),
+      orderId: request.txnRef,
+      orderInfo: request.description,
+      redirectUrl: this.options.returnUrl,
+      ipnUrl: this.options.ipnUrl,
+      requestType,
+      extraData: '',
+      lang: request.locale === 'en' ? 'en' : 'vi'
+    };
+
+    const response = await this.post('/v2/gateway/api/create', {
+      ...payload,
+      signature: this.sign({ ...payload, accessKey: this.options.accessKey }, [
+        'accessKey', 'amount', 'extraData', 'ipnUrl', 'orderId', 'orderInfo',
+        'partnerCode', 'redirectUrl', 'requestId', 'requestType'
+      ])
+    });
+
+    if (response.resultCode !== 0 || !response.payUrl) {
+      logger.error('MoMo create payment failed', { orderId: request.txnRef, resultCode: response.resultCode, message: response.message });
+      throw new Error(`MoMo could not create the payment: ${response.message || response.resultCode}`);
+    }
+
+    logger.info('MoMo payment URL created', { orderId: request.txnRef, amount: request.amount });
+
+    return response.payUrl;
+  }
+
+  async verifyReturn(request: GatewayRequest): Promise<GatewayTransactionResult | null> {
+    return this.verifyResult(request.query);
+  }
+
+  async verifyWebhook(request: GatewayRequest): Promise<WebhookVerification> {
+    const transaction = this.verifyResult(request.body ?? {});
+    return transaction ? { valid: true, transaction } : { valid: false };
+  }
+
+  webhookResponse(outcome: WebhookOutcome): GatewayResponse {
+    // MoMo expects 204 No Content once the IPN is handled and retries otherwise
+    switch (outcome) {
+      case 'settled':
+      case 'already_settled':
+      case 'ignored':
+        return { status: 204 };
+      case 'error':
+        return { status: 500, body: { message: 'Unknown error' } };
+      default:
+        return { status: 400, body: { message: outcome } };
+    }
+  }
+
+  async queryTransaction(request: GatewayQueryRequest): Promise<GatewayQueryResult> {
+    const payload = {
+      partnerCode: this.options.partnerCode,
+      requestId: `${request.txnRef}_${Date.now()}`,
+      orderId: request.txnRef,
+      lang: 'vi'
+    };
+
+    const response = await this.post('/v2/gateway/api/query', {
+      ...payload,
+      signature: this.sign({ ...payload, accessKey: this.options.accessKey }, ['accessKey', 'orderId', 'partnerCode', 'requestId'])
+    });
+
+    const resultCode = Number(response.resultCode);
+    const responseCode = response.resultCode !== undefined ? String(response.resultCode) : null;
+    const message: string | null = response.message ?? null;
+
+    // 42: no transaction with this orderId
+    if (resultCode === 42) {
+      return { state: 'not_found', transaction: null, responseCode, message };
+    }
+
+    // 1000: waiting for the user, 7000/7002: being processed
+    if ([1000, 7000, 7002].includes(resultCode)) {
+      return { state: 'pending', transaction: null, responseCode, message };
+    }
+
+    if (Number.isNaN(resultCode) || (resultCode >= 10 && resultCode < 100)) {
+      // Request-level errors (signature, parameters, system)
+      return { state: 'error', transaction: null, responseCode, message };
+    }
+
+    return {
+      state: resultCode === 0 ? 'paid' : 'failed',
+      transaction: {
+        txnRef: request.txnRef,
+        amount: Number(response.amount ?? request.amount),
+        succeeded: resultCode === 0,
+        responseCode: String(resultCode),
+        transactionId: response.transId ? String(response.transId) : null,
+        payDate: response.responseTime ? moment(Number(response.responseTime)).format('YYYY-MM-DD HH:mm:ss') : null,
+        message: message ?? undefined
+      },
+      responseCode,
+      message
+    };
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    const payload = {
+      partnerCode: this.options.partnerCode,
+      // Each refund is a new MoMo order referencing the original transId
+      orderId: `${request.txnRef}_R${Date.now()}`,
+      requestId: `${request.txnRef}_${Date.now()}`,
+      amount: Math.round(request.amount),
+      transId: Number(request.transactionId),
+      lang: 'vi',
+      description: `Refund for order ${request.txnRef}`
+    };
+
+    const response = await this.post('/v2/gateway/api/refund', {
+      ...payload,
+      signature: this.sign({ ...payload, accessKey: this.options.accessKey }, [
+        'accessKey', 'amount', 'description', 'orderId', 'partnerCode', 'requestId', 'transId'
+      ])
+    });
+
+    logger.info('MoMo refund result', { orderId: request.txnRef, resultCode: response.resultCode });
+
+    return {
+      succeeded: Number(response.resultCode) === 0,
+      responseCode: response.resultCode !== undefined ? String(response.resultCode) : null,
+      message: response.message ?? null,
+      refundTransactionId: response.transId ? String(response.transId) : null,
+      raw: response
+    };
+  }
+
+  getPaymentMethods(): PaymentMethodOption[] {
+    return REQUEST_TYPES;
+  }
+
+  private verifyResult(params: Record<string, any>): GatewayTransactionResult | null {
+    if (typeof params.signature !== 'string' || params.partnerCode !== this.options.partnerCode) {
+      return null;
+    }
+
+    const expected = this.sign({ ...params, accessKey: this.options.accessKey }, RESULT_SIGNATURE_FIELDS);
+    const given = Buffer.from(params.signature);
+
+    if (given.length !== expected.length || !crypto.timingSafeEqual(given, Buffer.from(expected))) {
+      logger.warn('Invalid MoMo signature', { orderId: params.orderId });
+      return null;
+    }
+
+    const resultCode = String(params.resultCode);
+
+    return {
+      txnRef: String(params.orderId),
+      amount: Number(params.amount),
+      succeeded: resultCode === '0',
+      responseCode: resultCode,
+      transactionId: params.transId ? String(params.transId) : null,
+      payDate: params.responseTime ? moment(Number(params.responseTime)).format('YYYY-MM-DD HH:mm:ss') : null,
+      message: params.message
+    };
+  }
+
+  private sign(params: Record<string, any>, fields: string[]): string {
+    const raw = fields.map((field) => `${field}=${params[field] ?? ''}`).join('&');
+    return crypto.createHmac('sha256', this.options.secretKey).update(raw).digest('hex');
+  }
+
+  private async post(path: string, payload: Record<string, unknown>): Promise<Record<string, any>> {
+    const response = await fetch(`${this.options.endpoint}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(payload)
+    });
+
+    return await response.json() as Record<string, any>;
+  }
+}
@@ -0,0 +1,105 @@
+import { v4 as uuidv4 } from 'uuid';
+import db from '../db';
+import config from '../config';
+import logger from '../utils/logger';
+import { NotificationModel } from '../types/models';
+import { Notification, NotificationPriority } from '../types';
+
+export interface CreateNotificationInput {
+  userId: string;
+  type: string;
+  title: string;
+  message: string;
+  priority?: NotificationPriority;
+  referenceType?: string;
+  referenceId?: string;
+  link?: string;
+}
+
+/**
+ * Map a database row to the API shape
+ */
+export const toNotification = (row: NotificationModel): Notification => ({
+  id: row.id,
+  userId: row.user_id,
+  type: row.type,
+  title: row.title,
+  message: row.message,
+  priority: row.priority,
+  isRead: Boolean(row.is_read),
+  referenceType: row.reference_type ?? undefined,
+  referenceId: row.reference_id ?? undefined,
+  link: row.link ?? undefined,
+  readAt: row.read_at ? new Date(row.read_at) : undefined,
+  createdAt: new Date(row.created_at)
+});
+
+/**
+ * Store a notification for a single user
+ */
+export const createNotification = async (input: CreateNotificationInput): Promise<string> => {
+  const notificationId = uuidv4();
+
+  await db.query(
+    `INSERT INTO notifications (id, user_id, type, title, message, priority, reference_type, reference_id, link)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+    [
+      notificationId,
+      input.userId,
+      input.type,
+      input.title,
+      input.message,
+      input.priority || 'normal',
+      input.referenceType || null,
+      input.referenceId || null,
+      input.link || null
+    ]
+  );
+
+  return notificationId;
+};
+
+/**
+ * Emit a notification as a side effect of another action.
+ * Never throws: a failed notification must not fail grading, payments, etc.
+ */
+export const notify = async (input: CreateNotificationInput): Promise<void> => {
+  if (!config.features.notificationsEnabled) {
+    return;
+  }
+
+  try {
+    await createNotification(input);
+  } catch (error) {
+    logger.error('Failed to create notification', {
+      userId: input.userId,
+      type: input.type,
+      error: (error as Error).message
+    });
+  }
+};
+
+/**
+ * Emit the same notification to several users
+ */
+export const notifyMany = async (userIds: string[], input: Omit<CreateNotificationInput, 'userId'>): Promise<void> => {
+  for (const userId of userIds) {
+    await notify({ ...input, userId });
+  }
+};
+
+export const getUnreadCount = async (userId: string): Promise<number> => {
+  const result = await db.query(
+    'SELECT COUNT(*) as unread FROM notifications WHERE user_id = $1 AND is_read = false',
+    [userId]
+  );
+  return parseInt(result.rows[0].unread, 10);
+};
+
+export default {
+  toNotification,
+  createNotification,
+  notify,
+  notifyMany,
+  getUnreadCount
+};
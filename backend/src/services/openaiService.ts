@@ -1,13 +1,9 @@
-import { OpenAI } from 'openai';
-import config from '../config';
 import logger from '../utils/logger';
+import { retrieveRelevantChunks, toCitation } from './ragService';
+import { getLLMProvider, LLMMessage } from './llmProvider';
+import { ChatCitation, ChatTurn } from '../types';
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: config.openaiApiKey
-});
-
-interface QuizQuestion {
+export interface QuizQuestion {
   question: string;
   options: string[];
   correctAnswerIndex: number;
@@ -18,47 +14,201 @@ interface ConceptsResponse {
   concepts: string[];
 }
 
+export interface ChatResponse {
+  response: string;
+  citations: ChatCitation[];
+  tokensUsed: number;
+}
+
+// Earlier turns of a chat session: a running summary of the oldest ones plus the most recent turns verbatim
+export interface ConversationContext {
+  summary?: string | null;
+  turns: ChatTurn[];
+}
+
+export interface ConversationSummary {
+  summary: string;
+  tokensUsed: number;
+}
+
+/**
+ * Rough token estimate (about 4 characters per token for English text)
+ * @param text - Text to measure
+ * @returns number - Estimated token count
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/**
+ * Build the chat prompt: retrieved course excerpts and the session summary in the system message,
+ * then the replayed turns and the new question
+ */
+const buildChatPrompt = async (
+  query: string,
+  courseId: string | undefined,
+  conversation: ConversationContext
+): Promise<{ messages: LLMMessage[]; citations: ChatCitation[] }> => {
+  // Top-k lecture chunks for this query, numbered so the model can cite them
+  const chunks = courseId ? await retrieveRelevantChunks(courseId, query) : [];
+  const citations = chunks.map((chunk, i) => toCitation(chunk, i + 1));
+  const context = citations.map((citation, i) => {
+    const location = citation.timestamp
+      ? ` at ${citation.timestamp}`
+      : citation.resourceTitle ? ` (resource: ${citation.resourceTitle})` : '';
+    return `[${citation.index}] Lecture "${citation.lectureTitle}"${location}:\n${chunks[i].content}`;
+  });
+
+  // Prepare system message with instructions
+  const systemMessage = {
+    role: 'system' as const,
+    content: `You are an educational assistant for an e-learning platform. 
+    Your goal is to help students understand course materials and answer their questions accurately and clearly.
+    Keep responses concise but informative. If you don't know the answer, admit it rather than making something up.
+    ${context.length > 0 ? 'Use the following numbered course material excerpts to inform your answers when relevant. Cite the excerpts you use with their number in square brackets, e.g. [1].' : ''}
+    ${context.join('\n\n')}
+    ${conversation.summary ? `Summary of the earlier conversation with this student:\n${conversation.summary}` : ''}`
+  };
+
+  // Replay previous turns so follow-up questions keep their meaning
+  const historyMessages = conversation.turns.flatMap((turn) => [
+    { role: 'user' as const, content: turn.query },
+    { role: 'assistant' as const, content: turn.response }
+  ]);
+
+  // Prepare user message
+  const userMessage = {
+    role: 'user' as const,
+    content: query
+  };
+
+  return { messages: [systemMessage, ...historyMessages, userMessage], citations };
+};
+
+/**
+ * Only return the sources the answer refers to; if it cites none, list everything that was retrieved
+ */
+const selectCitations = (answer: string, citations: ChatCitation[]): ChatCitation[] => {
+  const cited = citations.filter((citation) => answer.includes(`[${citation.index}]`));
+  return cited.length > 0 ? cited : citations;
+};
+
 /**
- * Generate a chat completion using OpenAI API
+ * Generate a chat completion with the configured LLM provider, grounded in the course's lectures when a course is given
  * @param query - User's question or prompt
- * @param context - Optional context from course materials
- * @returns Promise<string> - AI response
+ * @param courseId - Optional course whose transcripts and resources are searched for context
+ * @param conversation - Optional earlier turns of the chat session
+ * @returns Promise<ChatResponse> - AI response, the lecture sources it cites and the tokens used
  */
-export const generateChatResponse = async (query: string, context: string[] = []): Promise<string> => {
+export const generateChatResponse = async (
+  query: string,
+  courseId?: string,
+  conversation: ConversationContext = { turns: [] }
+): Promise<ChatResponse> => {
   try {
-    // Prepare system message with instructions
-    const systemMessage = {
-      role: 'system' as const,
-      content: `You are an educational assistant for an e-learning platform. 
-      Your goal is to help students understand course materials and answer their questions accurately and clearly.
-      Keep responses concise but informative. If you don't know the answer, admit it rather than making something up.
-      ${context.length > 0 ? 'Use the following course material context to inform your answers when relevant:' : ''}
-      ${context.join('\n\n')}`
-    };
+    const { messages, citations } = await buildChatPrompt(query, courseId, conversation);
 
-    // Prepare user message
-    const userMessage = {
-      role: 'user' as const,
-      content: query
-    };
-
-    // Make API call to OpenAI
-    const response = await openai.chat.completions.create({
-      model: config.openaiModel,
-      messages: [systemMessage, userMessage],
-      max_tokens: 1024,
+    const completion = await getLLMProvider().complete(messages, {
+      purpose: 'chat',
+      maxTokens: 1024,
       temperature: 0.7
     });
 
-    // Return the generated response
-    return response.choices[0].message.content?.trim() ?? '';
+    const answer = completion.content.trim();
+
+    return {
+      response: answer,
+      citations: selectCitations(answer, citations),
+      tokensUsed: completion.tokensUsed
+    };
   } catch (error) {
     const err = error as Error;
-    logger.error('OpenAI API error:', err.message);
+    logger.error('LLM chat error:', err.message);
     throw new Error(`Failed to generate AI response: ${err.message}`);
   }
 };
 
+/**
+ * Stream a chat completion token by token. Same prompt as generateChatResponse.
+ * @param query - User's question or prompt
+ * @param courseId - Optional course whose transcripts and resources are searched for context
+ * @param conversation - Earlier turns of the chat session
+ * @param onToken - Called with each piece of text as it is generated
+ * @param signal - Aborts the LLM request (e.g. when the client disconnects)
+ * @returns Promise<ChatResponse> - Full AI response, the lecture sources it cites and the tokens used
+ */
+export const streamChatResponse = async (
+  query: string,
+  courseId: string | undefined,
+  conversation: ConversationContext,
+  onToken: (token: string) => void,
+  signal?: AbortSignal
+): Promise<ChatResponse> => {
+  try {
+    const { messages, citations } = await buildChatPrompt(query, courseId, conversation);
+
+    const completion = await getLLMProvider().stream(
+      messages,
+      { purpose: 'chat', maxTokens: 1024, temperature: 0.7, signal },
+      onToken
+    );
+
+    const answer = completion.content.trim();
+
+    return {
+      response: answer,
+      citations: selectCitations(answer, citations),
+      tokensUsed: completion.tokensUsed
+    };
+  } catch (error) {
+    const err = error as Error;
+    logger.error('LLM streaming error:', err.message);
+    throw new Error(`Failed to stream AI response: ${err.message}`);
+  }
+};
+
+/**
+ * Fold older chat turns into a running summary, so long sessions stay within the token budget
+ * @param previousSummary - Summary of even older turns, if any
+ * @param turns - Turns to add to the summary
+ * @returns Promise<ConversationSummary> - Updated summary and the tokens used
+ */
+export const summarizeConversation = async (
+  previousSummary: string | null | undefined,
+  turns: ChatTurn[]
+): Promise<ConversationSummary> => {
+  try {
+    const transcript = turns
+      .map((turn) => `Student: ${turn.query}\nAssistant: ${turn.response}`)
+      .join('\n\n');
+
+    const completion = await getLLMProvider().complete(
+      [
+        {
+          role: 'system',
+          content: `Summarize the following conversation between a student and an educational assistant.
+          Keep the topics discussed, the facts and explanations given, and any open questions, in at most 200 words.
+          ${previousSummary ? 'Merge it with the summary of the earlier conversation.' : ''}`
+        },
+        {
+          role: 'user',
+          content: previousSummary
+            ? `Earlier summary:\n${previousSummary}\n\nConversation:\n${transcript}`
+            : transcript
+        }
+      ],
+      { purpose: 'summary', maxTokens: 400, temperature: 0.3 }
+    );
+
+    return {
+      summary: completion.content.trim() || previousSummary || '',
+      tokensUsed: completion.tokensUsed
+    };
+  } catch (error) {
+    const err = error as Error;
+    logger.error('LLM conversation summary error:', err.message);
+    throw new Error(`Failed to summarize conversation: ${err.message}`);
+  }
+};
+
 /**
  * Extract key concepts from lecture content
  * @param content - Lecture content
@@ -66,29 +216,25 @@ export const generateChatResponse = async (query: string, context: string[] = []
  */
 export const extractKeyConcepts = async (content: string): Promise<string[]> => {
   try {
-    const response = await openai.chat.completions.create({
-      model: config.openaiModel,
-      messages: [
+    const completion = await getLLMProvider().complete(
+      [
         {
-          role: 'system' as const,
+          role: 'system',
           content: 'Extract the 5-7 most important concepts or terms from the following educational content. Return them as a JSON array of strings.'
         },
         {
-          role: 'user' as const,
+          role: 'user',
           content
         }
       ],
-      max_tokens: 512,
-      temperature: 0.3,
-      response_format: { type: 'json_object' }
-    });
+      { purpose: 'concepts', maxTokens: 512, temperature: 0.3, json: true }
+    );
 
-    const responseContent = response.choices[0].message.content ?? '{}';
-    const result = JSON.parse(responseContent) as ConceptsResponse;
+    const result = JSON.parse(completion.content || '{}') as ConceptsResponse;
     return result.concepts || [];
   } catch (error) {
     const err = error as Error;
-    logger.error('OpenAI concept extraction error:', err.message);
+    logger.error('LLM concept extraction error:', err.message);
     return [];
   }
 };
@@ -101,11 +247,10 @@ export const extractKeyConcepts = async (content: string): Promise<string[]> =>
  */
 export const generateQuizQuestions = async (content: string, numQuestions: number = 5): Promise<QuizQuestion[]> => {
   try {
-    const response = await openai.chat.completions.create({
-      model: config.openaiModel,
-      messages: [
+    const completion = await getLLMProvider().complete(
+      [
         {
-          role: 'system' as const,
+          role: 'system',
           content: `Generate ${numQuestions} multiple-choice quiz questions based on the following educational content. 
           Each question should have 4 options with only one correct answer.
           Return the result as a JSON array where each item has the format:
@@ -117,21 +262,18 @@ export const generateQuizQuestions = async (content: string, numQuestions: numbe
           }`
         },
         {
-          role: 'user' as const,
+          role: 'user',
           content
         }
       ],
-      max_tokens: 1024,
-      temperature: 0.7,
-      response_format: { type: 'json_object' }
-    });
+      { purpose: 'quiz', maxTokens: 1024, temperature: 0.7, json: true }
+    );
 
-    const responseContent = response.choices[0].message.content ?? '{"questions":[]}';
-    const result = JSON.parse(responseContent) as { questions: QuizQuestion[] };
+    const result = JSON.parse(completion.content || '{"questions":[]}') as { questions: QuizQuestion[] };
     return result.questions || [];
   } catch (error) {
     const err = error as Error;
-    logger.error('OpenAI quiz generation error:', err.message);
+    logger.error('LLM quiz generation error:', err.message);
     return [];
   }
 };
@@ -144,35 +286,36 @@ export const generateQuizQuestions = async (content: string, numQuestions: numbe
  */
 export const generateAssignmentFeedback = async (assignmentDescription: string, submission: string): Promise<string> => {
   try {
-    const response = await openai.chat.completions.create({
-      model: config.openaiModel,
-      messages: [
+    const completion = await getLLMProvider().complete(
+      [
         {
-          role: 'system' as const,
+          role: 'system',
           content: `You are an educational assistant helping teachers provide feedback on student assignments.
           You will be given an assignment description and a student's submission.
           Provide constructive, helpful feedback that identifies strengths and areas for improvement.
           Be specific, supportive, and offer actionable suggestions for improvement.`
         },
         {
-          role: 'user' as const,
+          role: 'user',
           content: `Assignment: ${assignmentDescription}\n\nStudent Submission: ${submission}`
         }
       ],
-      max_tokens: 1024,
-      temperature: 0.7
-    });
+      { purpose: 'feedback', maxTokens: 1024, temperature: 0.7 }
+    );
 
-    return response.choices[0].message.content?.trim() ?? '';
+    return completion.content.trim();
   } catch (error) {
     const err = error as Error;
-    logger.error('OpenAI feedback generation error:', err.message);
+    logger.error('LLM feedback generation error:', err.message);
     throw new Error(`Failed to generate feedback: ${err.message}`);
   }
 };
 
 export default {
   generateChatResponse,
+  streamChatResponse,
+  summarizeConversation,
+  estimateTokens,
   extractKeyConcepts,
   generateQuizQuestions,
   generateAssignmentFeedback
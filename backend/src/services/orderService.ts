@@ -0,0 +1,335 @@
+import { PoolConnection, RowDataPacket } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+import db from '../db';
+import config from '../config';
+import AppError from '../utils/appError';
+import logger from '../utils/logger';
+import notificationService from './notificationService';
+import { findOwnedCourseIds, grantPaidEnrollment } from './enrollmentService';
+import {
+  applyCoupons,
+  finalizeCouponUsage,
+  releaseCouponUsage,
+  reserveCouponUsages
+} from './couponService';
+import { CartItemRow, OrderItemRow, OrderRow } from '../types';
+
+const CART_SELECT = `
+  SELECT ci.*, c.title as course_title, c.thumbnail_url as course_thumbnail,
+         c.price, c.status, c.category, c.category_id
+  FROM cart_items ci
+  JOIN courses c ON ci.course_id = c.id`;
+
+export interface OrderFulfilment {
+  status: OrderRow['status'];
+  enrolledCourseIds: string[];
+}
+
+/**
+ * The user's cart with current course prices, oldest item first
+ */
+export const getCartItems = async (userId: string): Promise<CartItemRow[]> => {
+  const result = await db.query<CartItemRow>(
+    `${CART_SELECT}
+     WHERE ci.user_id = $1
+     ORDER BY ci.added_at ASC`,
+    [userId]
+  );
+
+  return result.rows;
+};
+
+/**
+ * Find an order with its line items
+ */
+export const findOrder = async (
+  where: { id?: string; orderCode?: string }
+): Promise<{ order: OrderRow; items: OrderItemRow[] } | null> => {
+  const result = await db.query<OrderRow>(
+    where.id ? 'SELECT * FROM orders WHERE id = $1' : 'SELECT * FROM orders WHERE order_code = $1',
+    [where.id ?? where.orderCode]
+  );
+
+  const order = result.rows[0];
+  if (!order) {
+    return null;
+  }
+
+  const itemResult = await db.query<OrderItemRow>(
+    `SELECT oi.*, c.title as course_title, c.thumbnail_url as course_thumbnail
+     FROM order_items oi
+     JOIN courses c ON oi.course_id = c.id
+     WHERE oi.order_id = $1
+     ORDER BY oi.created_at ASC`,
+    [order.id]
+  );
+
+  return { order, items: itemResult.rows };
+};
+
+/**
+ * Deal with the user's open checkouts before a new one: an identical pending order (same courses and
+ * gateway, and the entered coupon among its coupons) is returned to be reused, e.g. after a double click
+ * or from a second tab. Any other pending order or single-course payment covering one of the courses is
+ * cancelled, so the student is never asked to pay twice for a course. Runs with the user's row locked.
+ * @returns The order to reuse, and the references of the cancelled checkouts whose coupon use is given back
+ */
+const settleOpenCheckouts = async (
+  connection: PoolConnection,
+  userId: string,
+  courseIds: string[],
+  options: { couponCode?: string; paymentMethod: string }
+): Promise<{ reusable: OrderRow | null; cancelledRefs: string[] }> => {
+  const placeholders = courseIds.map(() => '?').join(', ');
+  const cancelledRefs: string[] = [];
+
+  const [orders] = await connection.execute<RowDataPacket[]>(
+    `SELECT o.*, GROUP_CONCAT(oi.course_id) AS course_ids
+     FROM orders o
+     JOIN order_items oi ON oi.order_id = o.id
+     WHERE o.user_id = ? AND o.status = 'pending'
+     GROUP BY o.id
+     HAVING SUM(oi.course_id IN (${placeholders})) > 0
+     ORDER BY o.created_at DESC`,
+    [userId, ...courseIds]
+  );
+
+  let reusable: OrderRow | null = null;
+
+  for (const row of orders) {
+    const order = row as OrderRow & { course_ids: string };
+    const orderCourseIds = order.course_ids.split(',');
+
+    if (!reusable && order.payment_method === options.paymentMethod && orderCourseIds.length === courseIds.length
+      && orderCourseIds.every((courseId) => courseIds.includes(courseId))) {
+      const [usages] = await connection.execute<RowDataPacket[]>(
+        `SELECT c.code FROM coupon_usage cu JOIN coupons c ON c.id = cu.coupon_id
+         WHERE cu.order_id = ? AND cu.status = 'pending'`,
+        [order.order_code]
+      );
+      const codes = usages.map((usage) => String(usage.code).toUpperCase());
+
+      if (!options.couponCode || codes.includes(options.couponCode.toUpperCase())) {
+        reusable = order;
+        continue;
+      }
+    }
+
+    await connection.execute(
+      "UPDATE orders SET status = 'cancelled', updated_at = NOW() WHERE id = ? AND status = 'pending'",
+      [order.id]
+    );
+    cancelledRefs.push(order.order_code);
+  }
+
+  const [payments] = await connection.execute<RowDataPacket[]>(
+    `SELECT id, order_id FROM payments
+     WHERE user_id = ? AND payment_status = 'pending' AND course_id IN (${placeholders}) FOR UPDATE`,
+    [userId, ...courseIds]
+  );
+
+  for (const payment of payments) {
+    await connection.execute(
+      "UPDATE payments SET payment_status = 'cancelled', updated_at = NOW() WHERE id = ? AND payment_status = 'pending'",
+      [payment.id]
+    );
+    cancelledRefs.push(payment.order_id);
+  }
+
+  return { reusable, cancelledRefs };
+};
+
+/**
+ * Turn the user's cart into a pending order: validate every course, apply the entered coupon and the
+ * auto-apply coupons across the eligible items and reserve their use. An identical open checkout is
+ * reused and overlapping ones are cancelled. The cart itself is emptied once the order is paid.
+ */
+export const createOrderFromCart = async (
+  userId: string,
+  options: { couponCode?: string; paymentMethod?: string; ipAddress?: string; userAgent?: string }
+): Promise<{ order: OrderRow; items: OrderItemRow[] }> => {
+  const cartItems = await getCartItems(userId);
+
+  if (cartItems.length === 0) {
+    throw new AppError('Your cart is empty', 400);
+  }
+
+  const unavailable = cartItems.filter((item) => item.status !== 'published');
+  if (unavailable.length > 0) {
+    throw new AppError(
+      `Some courses are no longer available: ${unavailable.map((item) => item.course_title).join(', ')}`,
+      400
+    );
+  }
+
+  const enrolledIds = await findOwnedCourseIds(userId, cartItems.map((item) => item.course_id));
+
+  if (enrolledIds.length > 0) {
+    const titles = cartItems.filter((item) => enrolledIds.includes(item.course_id)).map((item) => item.course_title);
+    throw new AppError(`You are already enrolled in: ${titles.join(', ')}`, 400);
+  }
+
+  const courses = cartItems.map((item) => ({
+    id: item.course_id,
+    price: Number(item.price),
+    category: item.category,
+    category_id: item.category_id
+  }));
+
+  const paymentMethod = options.paymentMethod ?? config.payment.defaultGateway;
+  const orderId = uuidv4();
+  const orderCode = `CART_${Date.now()}_${userId.slice(-8)}`;
+
+  const { reusable, cancelledRefs } = await db.transaction(async (connection) => {
+    // Locking the cart serializes checkouts of the same user (double click, second tab)
+    await connection.execute('SELECT id FROM cart_items WHERE user_id = ? FOR UPDATE', [userId]);
+
+    const openCheckouts = await settleOpenCheckouts(connection, userId, courses.map((course) => course.id), {
+      couponCode: options.couponCode,
+      paymentMethod
+    });
+    if (openCheckouts.reusable) {
+      return openCheckouts;
+    }
+
+    const couponApplication = await applyCoupons(userId, courses, {
+      codes: options.couponCode ? [options.couponCode] : [],
+      strict: true
+    });
+
+    const { discounts, discountAmount } = couponApplication;
+    const subtotal = couponApplication.originalAmount;
+    const totalAmount = couponApplication.finalAmount;
+
+    await connection.query(
+      `INSERT INTO orders (id, user_id, order_code, subtotal, discount_amount, total_amount, coupon_id, currency, payment_method, status)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, 'pending')`,
+      [
+        orderId,
+        userId,
+        orderCode,
+        subtotal,
+        discountAmount,
+        totalAmount,
+        // The highest-priority coupon; every stacked one has its own coupon_usage row
+        couponApplication.evaluations[0]?.coupon.id ?? null,
+        config.payment.currency,
+        totalAmount > 0 ? paymentMethod : 'coupon'
+      ]
+    );
+
+    for (const course of courses) {
+      const itemDiscount = discounts[course.id] ?? 0;
+      await connection.query(
+        `INSERT INTO order_items (id, order_id, course_id, price, discount_amount, amount)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [uuidv4(), orderId, course.id, course.price, itemDiscount, course.price - itemDiscount]
+      );
+    }
+
+    // Hold the coupons until the order is settled; a failed reservation rolls the order back
+    if (couponApplication.evaluations.length > 0) {
+      await reserveCouponUsages(couponApplication, {
+        userId,
+        orderId: orderCode,
+        ipAddress: options.ipAddress,
+        userAgent: options.userAgent
+      });
+    }
+
+    logger.info('Order created from cart', {
+      orderId,
+      orderCode,
+      userId,
+      courseCount: courses.length,
+      subtotal,
+      discountAmount,
+      totalAmount,
+      coupons: couponApplication.evaluations.map((evaluation) => evaluation.coupon.code)
+    });
+
+    return openCheckouts;
+  });
+
+  for (const txnRef of cancelledRefs) {
+    await releaseCouponUsage(txnRef);
+    logger.info('Open checkout cancelled by a new checkout', { txnRef, userId });
+  }
+
+  if (reusable) {
+    logger.info('Reusing open order for checkout', { orderId: reusable.id, orderCode: reusable.order_code, userId });
+  }
+
+  return (await findOrder({ id: reusable?.id ?? orderId })) as { order: OrderRow; items: OrderItemRow[] };
+};
+
+/**
+ * Apply a settled payment result to an order. On success every course is enrolled (a trial or
+ * expired enrollment becomes a paid one), the coupon use is kept and the purchased courses leave the cart;
+ * otherwise the coupon use is given back. Called once per order by the payment settlement.
+ */
+export const fulfilOrder = async (order: OrderRow, succeeded: boolean): Promise<OrderFulfilment> => {
+  if (!succeeded) {
+    await releaseCouponUsage(order.order_code);
+    return { status: 'failed', enrolledCourseIds: [] };
+  }
+
+  const enrolledCourseIds: string[] = [];
+  let status: OrderRow['status'] = 'completed';
+
+  const itemResult = await db.query<OrderItemRow>(
+    'SELECT * FROM order_items WHERE order_id = $1',
+    [order.id]
+  );
+
+  for (const item of itemResult.rows) {
+    try {
+      await grantPaidEnrollment(order.user_id, item.course_id);
+      await db.query('UPDATE order_items SET enrolled = true WHERE id = $1', [item.id]);
+      enrolledCourseIds.push(item.course_id);
+    } catch (enrollmentError) {
+      logger.error('Failed to create enrollment after order payment:', enrollmentError);
+      // Paid but not every course could be enrolled - needs manual intervention
+      status = 'completed_enrollment_failed';
+    }
+  }
+
+  if (status !== 'completed') {
+    await db.query('UPDATE orders SET status = $1, updated_at = NOW() WHERE id = $2', [status, order.id]);
+  }
+
+  await db.query(
+    `DELETE FROM cart_items WHERE user_id = $1 AND course_id IN (SELECT course_id FROM order_items WHERE order_id = $2)`,
+    [order.user_id, order.id]
+  );
+  await finalizeCouponUsage(order.order_code);
+
+  logger.info('Order processed', {
+    orderId: order.id,
+    orderCode: order.order_code,
+    status,
+    enrolledCourseIds
+  });
+
+  await notificationService.notify({
+    userId: order.user_id,
+    type: 'payment',
+    title: 'Payment completed',
+    message: status === 'completed'
+      ? `Your payment for ${itemResult.rows.length} courses was successful. You are now enrolled.`
+      : `Your payment for ${itemResult.rows.length} courses was successful. Enrollment is being processed.`,
+    priority: status === 'completed' ? 'normal' : 'high',
+    referenceType: 'order',
+    referenceId: order.id,
+    link: '/dashboard/student/courses'
+  });
+
+  return { status, enrolledCourseIds };
+};
+
+export default {
+  getCartItems,
+  findOrder,
+  createOrderFromCart,
+  fulfilOrder
+};
@@ -0,0 +1,190 @@
+import { IncomingHttpHeaders } from 'http';
+import config from '../config';
+import AppError from '../utils/appError';
+import logger from '../utils/logger';
+import { VNPayGateway } from './vnpayGateway';
+import { MoMoGateway } from './momoGateway';
+import { ZaloPayGateway } from './zalopayGateway';
+import { StripeGateway } from './stripeGateway';
+import { SandboxGateway } from './sandboxGateway';
+
+export interface GatewayPaymentRequest {
+  // Our reference for the transaction (payments.order_id or orders.order_code)
+  txnRef: string;
+  amount: number;
+  description: string;
+  ipAddress: string;
+  // Preselected bank or method, where the gateway supports it
+  bankCode?: string;
+  locale?: string;
+}
+
+// Result of a transaction as reported by the gateway (return URL, webhook or query)
+export interface GatewayTransactionResult {
+  txnRef: string;
+  amount: number;
+  succeeded: boolean;
+  // Gateway result code, stored with the payment
+  responseCode: string;
+  // VNPay reports the bank-side status separately
+  transactionStatus?: string;
+  transactionId?: string | null;
+  payDate?: string | null;
+  message?: string;
+}
+
+// What a gateway callback (return URL or webhook) delivered
+export interface GatewayRequest {
+  query: Record<string, unknown>;
+  body: any;
+  headers: IncomingHttpHeaders;
+  rawBody?: Buffer;
+}
+
+// A webhook with a valid signature may still be an event we do not act on (transaction null)
+export type WebhookVerification =
+  | { valid: false }
+  | { valid: true; transaction: GatewayTransactionResult | null };
+
+export type WebhookOutcome =
+  | 'settled'
+  | 'already_settled'
+  | 'ignored'
+  | 'not_found'
+  | 'amount_mismatch'
+  | 'invalid_signature'
+  | 'error';
+
+export interface GatewayResponse {
+  status: number;
+  body?: unknown;
+}
+
+export interface GatewayQueryRequest {
+  txnRef: string;
+  amount: number;
+  createdAt: string;
+  ipAddress: string;
+}
+
+export interface GatewayQueryResult {
+  // not_found: the buyer never reached the gateway; error: the gateway could not answer
+  state: 'paid' | 'failed' | 'pending' | 'not_found' | 'error';
+  transaction: GatewayTransactionResult | null;
+  responseCode: string | null;
+  message: string | null;
+}
+
+export interface GatewayRefundRequest {
+  txnRef: string;
+  amount: number;
+  paidAmount: number;
+  transactionId: string;
+  paidAt: string | null;
+  refundType: 'full' | 'partial';
+  requestedBy: string;
+  ipAddress: string;
+}
+
+export interface GatewayRefundResult {
+  succeeded: boolean;
+  responseCode: string | null;
+  message: string | null;
+  refundTransactionId: string | null;
+  raw: Record<string, unknown>;
+}
+
+export interface PaymentMethodOption {
+  code: string;
+  name: string;
+}
+
+/**
+ * A payment gateway takes the buyer to a hosted payment page and reports the result back
+ * through the return URL and a server-to-server webhook.
+ * Implement this interface to plug in another gateway; network or gateway failures throw.
+ */
+export interface PaymentGateway {
+  id: string;
+  name: string;
+  description: string;
+  createPaymentUrl(request: GatewayPaymentRequest): Promise<string>;
+  // null when the signature is invalid
+  verifyReturn(request: GatewayRequest): Promise<GatewayTransactionResult | null>;
+  verifyWebhook(request: GatewayRequest): Promise<WebhookVerification>;
+  // The acknowledgement the gateway expects, so it stops (or keeps) retrying
+  webhookResponse(outcome: WebhookOutcome): GatewayResponse;
+  queryTransaction(request: GatewayQueryRequest): Promise<GatewayQueryResult>;
+  refund(request: GatewayRefundRequest): Promise<GatewayRefundResult>;
+  getPaymentMethods(): PaymentMethodOption[];
+}
+
+const createGateway = (id: string): PaymentGateway | null => {
+  switch (id) {
+    case 'vnpay':
+      return new VNPayGateway();
+    case 'momo':
+      return new MoMoGateway(config.momo);
+    case 'zalopay':
+      return new ZaloPayGateway(config.zalopay);
+    case 'stripe':
+      return new StripeGateway(config.stripe);
+    case 'sandbox':
+      if (config.environment === 'production') {
+        logger.warn('The sandbox payment gateway is not available in production');
+        return null;
+      }
+      if (!config.payment.sandboxSecret) {
+        logger.warn('PAYMENT_SANDBOX_SECRET is not set, the sandbox payment gateway is disabled');
+        return null;
+      }
+      return new SandboxGateway(config.payment.sandboxSecret);
+    default:
+      logger.warn(`Unknown payment gateway "${id}" in PAYMENT_GATEWAYS, ignoring it`);
+      return null;
+  }
+};
+
+const gateways = new Map<string, PaymentGateway>();
+
+for (const id of new Set([config.payment.defaultGateway, ...config.payment.gateways])) {
+  const gateway = createGateway(id);
+  if (gateway) {
+    gateways.set(gateway.id, gateway);
+  }
+}
+
+/**
+ * The gateway with this id, or the default gateway
+ * @throws AppError 400 when the gateway is unknown or not enabled
+ */
+export const getPaymentGateway = (id?: string | null): PaymentGateway => {
+  const gateway = gateways.get(id || config.payment.defaultGateway);
+
+  if (!gateway) {
+    throw new AppError(`Payment gateway "${id || config.payment.defaultGateway}" is not available`, 400);
+  }
+
+  return gateway;
+};
+
+/**
+ * Enabled gateways, the default first
+ */
+export const listPaymentGateways = (): PaymentGateway[] =>
+  [...gateways.values()].sort((a, b) =>
+    Number(b.id === config.payment.defaultGateway) - Number(a.id === config.payment.defaultGateway)
+  );
+
+/**
+ * Add or replace a gateway (e.g. with a stub in tests)
+ */
+export const registerPaymentGateway = (gateway: PaymentGateway): void => {
+  gateways.set(gateway.id, gateway);
+};
+
+export default {
+  getPaymentGateway,
+  listPaymentGateways,
+  registerPaymentGateway
+};
@@ -0,0 +1,155 @@
+jest.mock('../db', () => ({ __esModule: true, default: { query: jest.fn(), transaction: jest.fn() } }));
+
+import db from '../db';
+import { claimTransaction } from './paymentSettlementService';
+import { GatewayTransactionResult } from './paymentGateway';
+
+type Row = Record<string, unknown>;
+
+/**
+ * A connection over one payments row and one orders row that records the updates it receives
+ */
+const useTables = (tables: { payment?: Row; order?: Row }) => {
+  const updates: { sql: string; params: unknown[] }[] = [];
+  const connection = {
+    execute: jest.fn(async (sql: string, params: unknown[]) => {
+      if (sql.startsWith('SELECT * FROM payments')) {
+        return [tables.payment && tables.payment.order_id === params[0] ? [tables.payment] : []];
+      }
+      if (sql.startsWith('SELECT * FROM orders')) {
+        return [tables.order && tables.order.order_code === params[0] ? [tables.order] : []];
+      }
+      updates.push({ sql, params });
+      return [{ affectedRows: 1 }];
+    })
+  };
+
+  (db.transaction as jest.Mock).mockImplementation((callback: (connection: unknown) => Promise<unknown>) => callback(connection));
+  return updates;
+};
+
+const payment = (overrides: Row = {}): Row => ({
+  id: 'payment-1',
+  order_id: 'TXN1',
+  user_id: 'user-1',
+  course_id: 'course-1',
+  amount: '150000.00',
+  payment_method: 'vnpay',
+  payment_status: 'pending',
+  ...overrides
+});
+
+const order = (overrides: Row = {}): Row => ({
+  id: 'order-1',
+  order_code: 'ORD1',
+  user_id: 'user-1',
+  total_amount: '300000.00',
+  payment_method: 'vnpay',
+  status: 'pending',
+  ...overrides
+});
+
+const result = (overrides: Partial<GatewayTransactionResult> = {}): GatewayTransactionResult => ({
+  txnRef: 'TXN1',
+  amount: 150000,
+  succeeded: true,
+  responseCode: '00',
+  transactionId: 'GW-1',
+  payDate: '2026-10-18 10:00:00',
+  ...overrides
+});
+
+describe('claimTransaction', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('settles a pending payment as completed when the gateway reports success', async () => {
+    const updates = useTables({ payment: payment() });
+
+    const claim = await claimTransaction('vnpay', result());
+
+    expect(claim).toMatchObject({ type: 'payment', outcome: 'settled', status: 'completed' });
+    expect(updates).toHaveLength(1);
+    expect(updates[0].sql).toContain('UPDATE payments');
+    expect(updates[0].params).toEqual(['completed', 'GW-1', '2026-10-18 10:00:00', '00', 'payment-1']);
+  });
+
+  it('settles a pending payment as failed when the gateway reports a failure', async () => {
+    const updates = useTables({ payment: payment() });
+
+    const claim = await claimTransaction('vnpay', result({ succeeded: false, responseCode: '24' }));
+
+    expect(claim).toMatchObject({ outcome: 'settled', status: 'failed' });
+    expect(updates[0].params[0]).toBe('failed');
+  });
+
+  it.each(['completed', 'failed', 'refunded'])('leaves a %s payment as it is', async (status) => {
+    const updates = useTables({ payment: payment({ payment_status: status }) });
+
+    const claim = await claimTransaction('vnpay', result());
+
+    expect(claim).toMatchObject({ outcome: 'already_settled', status });
+    expect(updates).toHaveLength(0);
+  });
+
+  it('completes a cancelled payment when a late success arrives', async () => {
+    const updates = useTables({ payment: payment({ payment_status: 'cancelled' }) });
+
+    const claim = await claimTransaction('vnpay', result());
+
+    expect(claim).toMatchObject({ outcome: 'settled', status: 'completed' });
+    expect(updates).toHaveLength(1);
+  });
+
+  it('does not turn a cancelled payment into a failed one', async () => {
+    const updates = useTables({ payment: payment({ payment_status: 'cancelled' }) });
+
+    const claim = await claimTransaction('vnpay', result({ succeeded: false }));
+
+    expect(claim).toMatchObject({ outcome: 'already_settled', status: 'cancelled' });
+    expect(updates).toHaveLength(0);
+  });
+
+  it('refuses an amount that differs from the payment', async () => {
+    const updates = useTables({ payment: payment() });
+
+    const claim = await claimTransaction('vnpay', result({ amount: 1000 }));
+
+    expect(claim).toMatchObject({ outcome: 'amount_mismatch', status: 'pending' });
+    expect(updates).toHaveLength(0);
+  });
+
+  it('ignores a result reported by another gateway', async () => {
+    const updates = useTables({ payment: payment({ payment_method: 'momo' }) });
+
+    expect(await claimTransaction('vnpay', result())).toBeNull();
+    expect(updates).toHaveLength(0);
+  });
+
+  it('settles a pending cart order', async () => {
+    const updates = useTables({ order: order() });
+
+    const claim = await claimTransaction('vnpay', result({ txnRef: 'ORD1', amount: 300000 }));
+
+    expect(claim).toMatchObject({ type: 'order', outcome: 'settled', status: 'completed' });
+    expect(updates[0].sql).toContain('UPDATE orders');
+    expect(updates[0].params).toEqual(['completed', 'GW-1', '2026-10-18 10:00:00', '00', 'order-1']);
+  });
+
+  it('leaves a completed cart order as it is', async () => {
+    const updates = useTables({ order: order({ status: 'completed' }) });
+
+    const claim = await claimTransaction('vnpay', result({ txnRef: 'ORD1', amount: 300000 }));
+
+    expect(claim).toMatchObject({ type: 'order', outcome: 'already_settled', status: 'completed' });
+    expect(updates).toHaveLength(0);
+  });
+
+  it('returns null for an unknown transaction reference', async () => {
+    const updates = useTables({ payment: payment(), order: order() });
+
+    expect(await claimTransaction('vnpay', result({ txnRef: 'UNKNOWN' }))).toBeNull();
+    expect(updates).toHaveLength(0);
+  });
+});
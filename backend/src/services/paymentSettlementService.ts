@@ -0,0 +1,306 @@
+import { RowDataPacket } from 'mysql2/promise';
+import db from '../db';
+import config from '../config';
+import logger from '../utils/logger';
+import notificationService from './notificationService';
+import orderService from './orderService';
+import { issueInvoice } from './invoiceService';
+import { recordSale } from './earningService';
+import { finalizeCouponUsage, releaseCouponUsage } from './couponService';
+import { grantPaidEnrollment } from './enrollmentService';
+import { OrderRow, PaymentRow } from '../types';
+import { GatewayTransactionResult } from './paymentGateway';
+
+export interface SettlementResult {
+  outcome: 'settled' | 'already_settled' | 'amount_mismatch';
+  type: 'payment' | 'order';
+  id: string;
+  userId: string;
+  txnRef: string;
+  status: string;
+  courseIds: string[];
+  enrolledCourseIds: string[];
+}
+
+type Claim =
+  | { type: 'payment'; row: PaymentRow; outcome: SettlementResult['outcome']; status: string }
+  | { type: 'order'; row: OrderRow; outcome: SettlementResult['outcome']; status: string };
+
+// Expired checkouts are cancelled by the reconciliation job; a success the gateway reports later still settles them
+const isClaimable = (currentStatus: string, status: string): boolean =>
+  currentStatus === 'pending' || (currentStatus === 'cancelled' && status === 'completed');
+
+/**
+ * A result reported by one gateway never settles a transaction that was created with another
+ */
+const isFromGateway = (gatewayId: string, paymentMethod: string, txnRef: string): boolean => {
+  if (paymentMethod === gatewayId) {
+    return true;
+  }
+
+  logger.warn('Payment result reported by a different gateway than the transaction was created with', {
+    txnRef,
+    gateway: gatewayId,
+    paymentMethod
+  });
+  return false;
+};
+
+/**
+ * Lock the payment (or cart order) row and record the gateway result if it is still pending.
+ * Only the caller that moves it out of `pending` gets outcome 'settled'; every other caller
+ * (a reloaded return URL, a retried IPN, the other of return/IPN) sees 'already_settled'.
+ */
+export const claimTransaction = async (gatewayId: string, result: GatewayTransactionResult): Promise<Claim | null> =>
+  db.transaction(async (connection) => {
+    const status = result.succeeded ? 'completed' : 'failed';
+
+    const [payments] = await connection.execute<RowDataPacket[]>(
+      'SELECT * FROM payments WHERE order_id = ? FOR UPDATE',
+      [result.txnRef]
+    );
+    const payment = payments[0] as PaymentRow | undefined;
+
+    if (payment) {
+      if (!isFromGateway(gatewayId, payment.payment_method, result.txnRef)) {
+        return null;
+      }
+
+      if (Math.round(Number(payment.amount)) !== Math.round(result.amount)) {
+        return { type: 'payment' as const, row: payment, outcome: 'amount_mismatch' as const, status: payment.payment_status };
+      }
+
+      if (!isClaimable(payment.payment_status, status)) {
+        return { type: 'payment' as const, row: payment, outcome: 'already_settled' as const, status: payment.payment_status };
+      }
+
+      await connection.execute(
+        `UPDATE payments
+         SET payment_status = ?, transaction_id = ?, payment_date = ?, vnpay_response_code = ?, updated_at = NOW()
+         WHERE id = ?`,
+        [status, result.transactionId ?? null, result.payDate ?? null, result.responseCode, payment.id]
+      );
+
+      return { type: 'payment' as const, row: payment, outcome: 'settled' as const, status };
+    }
+
+    const [orders] = await connection.execute<RowDataPacket[]>(
+      'SELECT * FROM orders WHERE order_code = ? FOR UPDATE',
+      [result.txnRef]
+    );
+    const order = orders[0] as OrderRow | undefined;
+
+    if (!order || !isFromGateway(gatewayId, order.payment_method, result.txnRef)) {
+      return null;
+    }
+
+    if (Math.round(Number(order.total_amount)) !== Math.round(result.amount)) {
+      return { type: 'order' as const, row: order, outcome: 'amount_mismatch' as const, status: order.status };
+    }
+
+    if (!isClaimable(order.status, status)) {
+      return { type: 'order' as const, row: order, outcome: 'already_settled' as const, status: order.status };
+    }
+
+    await connection.execute(
+      `UPDATE orders
+       SET status = ?, transaction_id = ?, payment_date = ?, vnpay_response_code = ?, updated_at = NOW()
+       WHERE id = ?`,
+      [status, result.transactionId ?? null, result.payDate ?? null, result.responseCode, order.id]
+    );
+
+    return { type: 'order' as const, row: order, outcome: 'settled' as const, status };
+  });
+
+/**
+ * Enroll the buyer of a single-course payment and settle its coupon
+ * @returns Final payment status
+ */
+const fulfilPayment = async (payment: PaymentRow, succeeded: boolean): Promise<string> => {
+  if (!succeeded) {
+    await releaseCouponUsage(payment.order_id);
+    return 'failed';
+  }
+
+  let status = 'completed';
+  try {
+    await grantPaidEnrollment(payment.user_id, payment.course_id);
+
+    logger.info('Course enrollment created after successful payment', {
+      paymentId: payment.id,
+      userId: payment.user_id,
+      courseId: payment.course_id
+    });
+  } catch (enrollmentError) {
+    logger.error('Failed to create enrollment after payment:', enrollmentError);
+    // Payment was successful but enrollment failed - need manual intervention
+    status = 'completed_enrollment_failed';
+    await db.query(
+      'UPDATE payments SET payment_status = $1, updated_at = NOW() WHERE id = $2',
+      [status, payment.id]
+    );
+  }
+
+  await finalizeCouponUsage(payment.order_id);
+
+  const courseResult = await db.query<{ title: string }>('SELECT title FROM courses WHERE id = $1', [payment.course_id]);
+  const courseTitle = courseResult.rows[0]?.title ?? 'your course';
+
+  await notificationService.notify({
+    userId: payment.user_id,
+    type: 'payment',
+    title: 'Payment completed',
+    message: status === 'completed'
+      ? `Your payment for ${courseTitle} was successful. You are now enrolled.`
+      : `Your payment for ${courseTitle} was successful. Enrollment is being processed.`,
+    priority: status === 'completed' ? 'normal' : 'high',
+    referenceType: 'payment',
+    referenceId: payment.id,
+    link: '/dashboard/student/courses'
+  });
+
+  return status;
+};
+
+/**
+ * Issue the invoice of a newly paid transaction; a failure only delays it until the buyer downloads it
+ */
+const issueSettlementInvoice = async (type: 'payment' | 'order', id: string, amount: number): Promise<void> => {
+  if (!config.invoice.enabled || amount <= 0) {
+    return;
+  }
+
+  try {
+    await issueInvoice(type, id);
+  } catch (error) {
+    logger.error('Failed to issue invoice after payment:', error);
+  }
+};
+
+/**
+ * Credit the course teachers with their share of a newly paid transaction
+ */
+const recordSettlementEarnings = async (type: 'payment' | 'order', id: string): Promise<void> => {
+  try {
+    await recordSale(type, id);
+  } catch (error) {
+    logger.error('Failed to record teacher earnings after payment:', error);
+  }
+};
+
+/**
+ * Settle a gateway transaction exactly once, whichever of the return URL and the IPN arrives first.
+ * The row is locked while its status is checked and updated; enrollment, coupon, invoice, earnings
+ * and notification side effects then run only for the caller that settled it.
+ * @param gatewayId - The gateway reporting the result; it must be the one the transaction was created with
+ * @returns null when no payment or order of this gateway has this reference
+ */
+export const settleTransaction = async (
+  gatewayId: string,
+  result: GatewayTransactionResult
+): Promise<SettlementResult | null> => {
+  const claim = await claimTransaction(gatewayId, result);
+
+  if (!claim) {
+    return null;
+  }
+
+  if (claim.outcome === 'amount_mismatch') {
+    logger.warn('Gateway amount does not match the payment', {
+      txnRef: result.txnRef,
+      type: claim.type,
+      reportedAmount: result.amount
+    });
+  }
+
+  if (claim.type === 'payment') {
+    const payment = claim.row;
+    let status = claim.status;
+
+    if (claim.outcome === 'settled') {
+      status = await fulfilPayment(payment, status === 'completed');
+      logger.info('Payment processed', { paymentId: payment.id, orderId: payment.order_id, status });
+
+      if (status.startsWith('completed')) {
+        await issueSettlementInvoice('payment', payment.id, Number(payment.amount));
+        await recordSettlementEarnings('payment', payment.id);
+      }
+    }
+
+    return {
+      outcome: claim.outcome,
+      type: 'payment',
+      id: payment.id,
+      userId: payment.user_id,
+      txnRef: payment.order_id,
+      status,
+      courseIds: [payment.course_id],
+      enrolledCourseIds: status === 'completed' ? [payment.course_id] : []
+    };
+  }
+
+  const order = claim.row;
+  let status = claim.status;
+  let enrolledCourseIds: string[] = [];
+
+  if (claim.outcome === 'settled') {
+    const fulfilment = await orderService.fulfilOrder(order, status === 'completed');
+    status = fulfilment.status;
+    enrolledCourseIds = fulfilment.enrolledCourseIds;
+
+    if (status.startsWith('completed')) {
+      await issueSettlementInvoice('order', order.id, Number(order.total_amount));
+      await recordSettlementEarnings('order', order.id);
+    }
+  }
+
+  const found = await orderService.findOrder({ id: order.id });
+  const items = found?.items ?? [];
+
+  return {
+    outcome: claim.outcome,
+    type: 'order',
+    id: order.id,
+    userId: order.user_id,
+    txnRef: order.order_code,
+    status,
+    courseIds: items.map((item) => item.course_id),
+    enrolledCourseIds: claim.outcome === 'settled'
+      ? enrolledCourseIds
+      : items.filter((item) => item.enrolled).map((item) => item.course_id)
+  };
+};
+
+/**
+ * Cancel a payment or cart order that was never paid before its payment URL expired,
+ * giving its reserved coupon use back
+ * @returns Whether this call moved it out of `pending`
+ */
+export const cancelTransaction = async (txnRef: string): Promise<boolean> => {
+  const paymentResult = await db.query(
+    "UPDATE payments SET payment_status = 'cancelled', updated_at = NOW() WHERE order_id = $1 AND payment_status = 'pending'",
+    [txnRef]
+  );
+
+  let cancelled = paymentResult.rowCount > 0;
+
+  if (!cancelled) {
+    const orderResult = await db.query(
+      "UPDATE orders SET status = 'cancelled', updated_at = NOW() WHERE order_code = $1 AND status = 'pending'",
+      [txnRef]
+    );
+    cancelled = orderResult.rowCount > 0;
+  }
+
+  if (cancelled) {
+    await releaseCouponUsage(txnRef, 'expired');
+    logger.info('Expired transaction cancelled', { txnRef });
+  }
+
+  return cancelled;
+};
+
+export default {
+  settleTransaction,
+  cancelTransaction
+};
@@ -0,0 +1,953 @@
+import crypto from 'crypto';
+import { PoolConnection, RowDataPacket } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+import db from '../db';
+import AppError from '../utils/appError';
+import logger from '../utils/logger';
+import { isEnrolled } from './enrollmentService';
+import {
+  DatabaseRow,
+  QuizAnswerRow,
+  QuizAttemptRow,
+  QuizAttemptStatus,
+  QuizItemRow,
+  QuizQuestionRow,
+  UserRole
+} from '../types';
+import { QuizLayoutEntry } from '../types/models';
+
+export type QuizTargetType = 'assignment' | 'lecture';
+
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 6;
+const MAX_QUESTIONS_PER_QUIZ = 100;
+// Answers still count this long after the time limit, to absorb network latency
+const SUBMIT_GRACE_SECONDS = 30;
+
+// An assignment or quiz lecture with the settings the engine needs
+export interface QuizTarget {
+  type: QuizTargetType;
+  id: string;
+  courseId: string;
+  teacherId: string;
+  title: string;
+  isPublished: boolean;
+  timeLimitMinutes: number | null;
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+  // Only assignments have a due date and an attempt limit; lecture quizzes can be retaken freely
+  dueDate: string | null;
+  allowLateSubmission: boolean;
+  latePenaltyPercent: number;
+  maxAttempts: number | null;
+}
+
+export interface QuizUser {
+  id: string;
+  role: UserRole;
+}
+
+// The shape generateQuizQuestions emits, so AI output can be saved as is
+export interface QuizQuestionInput {
+  question: string;
+  options: string[];
+  correctAnswerIndex: number;
+  explanation?: string;
+}
+
+export interface QuizSettings {
+  timeLimitMinutes?: number;
+  shuffleQuestions?: boolean;
+  shuffleOptions?: boolean;
+}
+
+export interface QuizAnswerInput {
+  itemId: string;
+  // Index in the order the student was shown; null clears the answer
+  optionIndex: number | null;
+}
+
+// A quiz item joined with its bank question
+interface QuizItemDetailRow extends QuizItemRow {
+  question: string;
+  options: string | string[];
+  correct_option_index: number;
+  explanation: string | null;
+  source: 'manual' | 'ai';
+}
+
+interface AttemptItemRow extends DatabaseRow {
+  item_id: string;
+  question_id: string;
+  points: number;
+  question: string;
+  options: string | string[];
+  correct_option_index: number;
+  explanation: string | null;
+}
+
+interface AnswerCountRow extends DatabaseRow {
+  item_id: string;
+  selected_option_index: number | null;
+  count: number;
+}
+
+const parseOptions = (options: string | string[]): string[] =>
+  typeof options === 'string' ? JSON.parse(options) : options;
+
+const parseLayout = (layout: string | QuizLayoutEntry[]): QuizLayoutEntry[] =>
+  typeof layout === 'string' ? JSON.parse(layout) : layout;
+
+const formatQuestion = (row: QuizQuestionRow) => ({
+  ...row,
+  options: parseOptions(row.options)
+});
+
+const targetColumn = (type: QuizTargetType): 'assignment_id' | 'lecture_id' =>
+  type === 'assignment' ? 'assignment_id' : 'lecture_id';
+
+/**
+ * Fisher-Yates with a cryptographic source, so the order cannot be predicted from earlier attempts
+ */
+const shuffle = <T>(values: T[]): T[] => {
+  const result = [...values];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Validate a question for the bank
+ */
+const normalizeQuestion = (input: unknown, position: number): QuizQuestionInput => {
+  const question = input as Partial<QuizQuestionInput> | null;
+  const label = `Question ${position}`;
+
+  if (!question || typeof question.question !== 'string' || question.question.trim() === '') {
+    throw new AppError(`${label} needs a question text`, 400);
+  }
+
+  if (
+    !Array.isArray(question.options) ||
+    question.options.length < MIN_OPTIONS ||
+    question.options.length > MAX_OPTIONS ||
+    question.options.some((option) => typeof option !== 'string' || option.trim() === '')
+  ) {
+    throw new AppError(`${label} needs between ${MIN_OPTIONS} and ${MAX_OPTIONS} non-empty options`, 400);
+  }
+
+  const correctAnswerIndex = Number(question.correctAnswerIndex);
+  if (!Number.isInteger(correctAnswerIndex) || correctAnswerIndex < 0 || correctAnswerIndex >= question.options.length) {
+    throw new AppError(`${label} needs the index of its correct option`, 400);
+  }
+
+  return {
+    question: question.question.trim(),
+    options: question.options.map((option) => option.trim()),
+    correctAnswerIndex,
+    explanation: typeof question.explanation === 'string' ? question.explanation.trim() : undefined
+  };
+};
+
+/**
+ * Load an assignment or a quiz lecture with its course's teacher
+ */
+export const findTarget = async (type: QuizTargetType, id: string): Promise<QuizTarget> => {
+  if (type === 'assignment') {
+    const result = await db.query(
+      `SELECT a.*, c.teacher_id
+       FROM assignments a
+       JOIN courses c ON a.course_id = c.id
+       WHERE a.id = $1`,
+      [id]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Assignment not found', 404);
+    }
+
+    const row = result.rows[0];
+    return {
+      type,
+      id: row.id,
+      courseId: row.course_id,
+      teacherId: row.teacher_id,
+      title: row.title,
+      isPublished: Boolean(row.is_published),
+      timeLimitMinutes: row.time_limit_minutes ?? null,
+      shuffleQuestions: Boolean(row.shuffle_questions),
+      shuffleOptions: Boolean(row.shuffle_options),
+      dueDate: row.due_date ?? null,
+      allowLateSubmission: Boolean(row.allow_late_submission),
+      latePenaltyPercent: Number(row.late_penalty_percent ?? 0),
+      maxAttempts: row.max_attempts ?? null
+    };
+  }
+
+  const result = await db.query(
+    `SELECT l.*, c.teacher_id
+     FROM lectures l
+     JOIN courses c ON l.course_id = c.id
+     WHERE l.id = $1`,
+    [id]
+  );
+
+  if (result.rows.length === 0) {
+    throw new AppError('Lecture not found', 404);
+  }
+
+  const row = result.rows[0];
+  if (row.content_type !== 'quiz') {
+    throw new AppError('Only quiz lectures have questions', 400);
+  }
+
+  return {
+    type,
+    id: row.id,
+    courseId: row.course_id,
+    teacherId: row.teacher_id,
+    title: row.title,
+    isPublished: Boolean(row.is_published),
+    timeLimitMinutes: row.time_limit_minutes ?? null,
+    shuffleQuestions: Boolean(row.shuffle_questions),
+    shuffleOptions: Boolean(row.shuffle_options),
+    dueDate: null,
+    allowLateSubmission: true,
+    latePenaltyPercent: 0,
+    maxAttempts: null
+  };
+};
+
+/**
+ * Teachers manage quizzes of their own courses, admins of every course
+ */
+export const assertCanManage = (teacherId: string, user: QuizUser): void => {
+  if (user.role === 'admin') {
+    return;
+  }
+  if (user.role !== 'teacher' || teacherId !== user.id) {
+    throw new AppError('You do not have permission to manage quizzes for this course', 403);
+  }
+};
+
+/**
+ * Load a course and check the user may manage its question bank
+ */
+export const findManagedCourse = async (courseId: string, user: QuizUser): Promise<{ id: string; teacher_id: string }> => {
+  const result = await db.query('SELECT id, teacher_id FROM courses WHERE id = $1', [courseId]);
+
+  if (result.rows.length === 0) {
+    throw new AppError('Course not found', 404);
+  }
+
+  const course = result.rows[0] as { id: string; teacher_id: string };
+  assertCanManage(course.teacher_id, user);
+  return course;
+};
+
+const assertCanTake = async (target: QuizTarget, userId: string): Promise<void> => {
+  if (!(await isEnrolled(userId, target.courseId))) {
+    throw new AppError('You are not enrolled in this course', 403);
+  }
+
+  if (!target.isPublished) {
+    throw new AppError(`This ${target.type} is not published yet`, 403);
+  }
+};
+
+const findQuestion = async (questionId: string, user: QuizUser): Promise<QuizQuestionRow> => {
+  const result = await db.query<QuizQuestionRow>(
+    `SELECT q.*, c.teacher_id
+     FROM quiz_questions q
+     JOIN courses c ON q.course_id = c.id
+     WHERE q.id = $1`,
+    [questionId]
+  );
+
+  if (result.rows.length === 0) {
+    throw new AppError('Question not found', 404);
+  }
+
+  assertCanManage(result.rows[0].teacher_id, user);
+  return result.rows[0];
+};
+
+/**
+ * A course's question bank with how many quizzes use each question
+ */
+export const listQuestions = async (courseId: string) => {
+  const result = await db.query<QuizQuestionRow>(
+    `SELECT q.*, COUNT(qi.id) as usage_count
+     FROM quiz_questions q
+     LEFT JOIN quiz_items qi ON qi.question_id = q.id
+     WHERE q.course_id = $1
+     GROUP BY q.id
+     ORDER BY q.created_at DESC`,
+    [courseId]
+  );
+
+  return result.rows.map((row) => ({ ...formatQuestion(row), usage_count: Number(row.usage_count) }));
+};
+
+/**
+ * Add hand-written or AI-generated questions to a course's bank
+ */
+export const createQuestions = async (
+  courseId: string,
+  userId: string,
+  input: unknown[],
+  source: 'manual' | 'ai',
+  sourceLectureId?: string
+) => {
+  const questions = input.map((question, index) => normalizeQuestion(question, index + 1));
+
+  if (sourceLectureId) {
+    const lectureResult = await db.query('SELECT id FROM lectures WHERE id = $1 AND course_id = $2', [sourceLectureId, courseId]);
+    if (lectureResult.rows.length === 0) {
+      throw new AppError('The source lecture is not part of this course', 400);
+    }
+  }
+
+  const ids = questions.map(() => uuidv4());
+  await db.transaction(async (connection) => {
+    for (let i = 0; i < questions.length; i++) {
+      await connection.execute(
+        `INSERT INTO quiz_questions (id, course_id, question, options, correct_option_index, explanation, source,
+           source_lecture_id, created_by)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          ids[i],
+          courseId,
+          questions[i].question,
+          JSON.stringify(questions[i].options),
+          questions[i].correctAnswerIndex,
+          questions[i].explanation || null,
+          source,
+          sourceLectureId ?? null,
+          userId
+        ]
+      );
+    }
+  });
+
+  const result = await db.query<QuizQuestionRow>(
+    `SELECT * FROM quiz_questions WHERE id IN (${ids.map((_, i) => `$${i + 1}`).join(', ')}) ORDER BY created_at`,
+    ids
+  );
+
+  logger.info('Quiz questions added to bank', { courseId, count: ids.length, source, createdBy: userId });
+
+  return result.rows.map(formatQuestion);
+};
+
+/**
+ * Answers are scored against the question as it was, so a question cannot change once a quiz using it was attempted
+ */
+const assertQuestionUnattempted = async (questionId: string, action: string): Promise<void> => {
+  const result = await db.query(
+    `SELECT COUNT(*) as count
+     FROM quiz_items qi
+     JOIN quiz_attempts qa ON qa.assignment_id = qi.assignment_id OR qa.lecture_id = qi.lecture_id
+     WHERE qi.question_id = $1`,
+    [questionId]
+  );
+
+  if (Number(result.rows[0].count) > 0) {
+    throw new AppError(`This question cannot be ${action}: students have already attempted a quiz that uses it`, 400);
+  }
+};
+
+export const updateQuestion = async (questionId: string, user: QuizUser, input: Partial<QuizQuestionInput>) => {
+  const existing = formatQuestion(await findQuestion(questionId, user));
+  await assertQuestionUnattempted(questionId, 'edited');
+
+  const question = normalizeQuestion(
+    {
+      question: input.question ?? existing.question,
+      options: input.options ?? existing.options,
+      correctAnswerIndex: input.correctAnswerIndex ?? existing.correct_option_index,
+      explanation: input.explanation ?? existing.explanation ?? undefined
+    },
+    1
+  );
+
+  await db.query(
+    `UPDATE quiz_questions
+     SET question = $1, options = $2, correct_option_index = $3, explanation = $4, updated_at = NOW()
+     WHERE id = $5`,
+    [question.question, JSON.stringify(question.options), question.correctAnswerIndex, question.explanation || null, questionId]
+  );
+
+  const result = await db.query<QuizQuestionRow>('SELECT * FROM quiz_questions WHERE id = $1', [questionId]);
+  return formatQuestion(result.rows[0]);
+};
+
+export const deleteQuestion = async (questionId: string, user: QuizUser): Promise<void> => {
+  await findQuestion(questionId, user);
+
+  const usageResult = await db.query('SELECT COUNT(*) as count FROM quiz_items WHERE question_id = $1', [questionId]);
+  if (Number(usageResult.rows[0].count) > 0) {
+    throw new AppError('Remove this question from its quizzes before deleting it', 400);
+  }
+
+  await db.query('DELETE FROM quiz_questions WHERE id = $1', [questionId]);
+};
+
+const loadItems = async (target: QuizTarget) => {
+  const result = await db.query<QuizItemDetailRow>(
+    `SELECT qi.*, q.question, q.options, q.correct_option_index, q.explanation, q.source
+     FROM quiz_items qi
+     JOIN quiz_questions q ON qi.question_id = q.id
+     WHERE qi.${targetColumn(target.type)} = $1
+     ORDER BY qi.position`,
+    [target.id]
+  );
+
+  return result.rows.map((row) => ({ ...row, options: parseOptions(row.options) }));
+};
+
+const countAttempts = async (target: QuizTarget, userId?: string): Promise<number> => {
+  const result = await db.query(
+    `SELECT COUNT(*) as count FROM quiz_attempts WHERE ${targetColumn(target.type)} = $1 ${userId ? 'AND user_id = $2' : ''}`,
+    userId ? [target.id, userId] : [target.id]
+  );
+  return Number(result.rows[0].count);
+};
+
+/**
+ * The quiz as the teacher sees it: settings and questions with their answers
+ */
+export const getQuizForTeacher = async (target: QuizTarget) => {
+  const items = await loadItems(target);
+
+  return {
+    target: { type: target.type, id: target.id, title: target.title },
+    timeLimitMinutes: target.timeLimitMinutes,
+    shuffleQuestions: target.shuffleQuestions,
+    shuffleOptions: target.shuffleOptions,
+    maxScore: items.reduce((sum, item) => sum + Number(item.points), 0),
+    attemptCount: await countAttempts(target),
+    items
+  };
+};
+
+/**
+ * The quiz as a student sees it before starting: no questions, only what to expect and their attempts
+ */
+export const getQuizForStudent = async (target: QuizTarget, userId: string) => {
+  await assertCanTake(target, userId);
+  const items = await loadItems(target);
+
+  const attemptResult = await db.query<QuizAttemptRow>(
+    `SELECT id, status, score, max_score, started_at, expires_at, submitted_at
+     FROM quiz_attempts
+     WHERE ${targetColumn(target.type)} = $1 AND user_id = $2
+     ORDER BY started_at DESC`,
+    [target.id, userId]
+  );
+
+  return {
+    target: { type: target.type, id: target.id, title: target.title },
+    timeLimitMinutes: target.timeLimitMinutes,
+    questionCount: items.length,
+    maxScore: items.reduce((sum, item) => sum + Number(item.points), 0),
+    maxAttempts: target.maxAttempts,
+    dueDate: target.dueDate,
+    attempts: attemptResult.rows
+  };
+};
+
+/**
+ * Replace the questions of a quiz and its settings. An assignment becomes a multiple-choice assignment
+ * worth the total of its questions' points.
+ */
+export const setQuizItems = async (
+  target: QuizTarget,
+  items: { questionId: string; points?: number }[],
+  settings: QuizSettings
+) => {
+  if (items.length === 0 || items.length > MAX_QUESTIONS_PER_QUIZ) {
+    throw new AppError(`A quiz needs between 1 and ${MAX_QUESTIONS_PER_QUIZ} questions`, 400);
+  }
+
+  const questionIds = items.map((item) => item.questionId);
+  if (new Set(questionIds).size !== questionIds.length) {
+    throw new AppError('A question can only be added to a quiz once', 400);
+  }
+
+  const questionResult = await db.query(
+    `SELECT id FROM quiz_questions WHERE course_id = $1 AND id IN (${questionIds.map((_, i) => `$${i + 2}`).join(', ')})`,
+    [target.courseId, ...questionIds]
+  );
+  if (questionResult.rows.length !== questionIds.length) {
+    throw new AppError('Every question must come from this course\'s question bank', 400);
+  }
+
+  if (await countAttempts(target) > 0) {
+    throw new AppError('The questions cannot change after students have attempted the quiz', 400);
+  }
+
+  const totalPoints = items.reduce((sum, item) => sum + (item.points ?? 1), 0);
+  if (target.type === 'assignment' && totalPoints > 1000) {
+    throw new AppError('A quiz assignment can be worth at most 1000 points', 400);
+  }
+
+  const column = targetColumn(target.type);
+  await db.transaction(async (connection) => {
+    await connection.execute(`DELETE FROM quiz_items WHERE ${column} = ?`, [target.id]);
+
+    for (let i = 0; i < items.length; i++) {
+      await connection.execute(
+        `INSERT INTO quiz_items (id, question_id, ${column}, points, position) VALUES (?, ?, ?, ?, ?)`,
+        [uuidv4(), items[i].questionId, target.id, items[i].points ?? 1, i + 1]
+      );
+    }
+
+    // time_limit_minutes 0 removes the limit
+    const table = target.type === 'assignment' ? 'assignments' : 'lectures';
+    await connection.execute(
+      `UPDATE ${table}
+       SET time_limit_minutes = CASE WHEN ? THEN ? ELSE time_limit_minutes END,
+           shuffle_questions = COALESCE(?, shuffle_questions),
+           shuffle_options = COALESCE(?, shuffle_options)
+           ${target.type === 'assignment' ? ", assignment_type = 'multiple_choice', max_points = ?" : ''}
+       WHERE id = ?`,
+      [
+        settings.timeLimitMinutes !== undefined,
+        settings.timeLimitMinutes || null,
+        settings.shuffleQuestions ?? null,
+        settings.shuffleOptions ?? null,
+        ...(target.type === 'assignment' ? [totalPoints] : []),
+        target.id
+      ]
+    );
+  });
+
+  return getQuizForTeacher(await findTarget(target.type, target.id));
+};
+
+const findOwnAttempt = async (attemptId: string, userId: string): Promise<QuizAttemptRow> => {
+  const result = await db.query<QuizAttemptRow>('SELECT * FROM quiz_attempts WHERE id = $1 AND user_id = $2', [attemptId, userId]);
+
+  if (result.rows.length === 0) {
+    throw new AppError('Quiz attempt not found', 404);
+  }
+
+  return result.rows[0];
+};
+
+const attemptTarget = (attempt: QuizAttemptRow): Promise<QuizTarget> =>
+  attempt.assignment_id ? findTarget('assignment', attempt.assignment_id) : findTarget('lecture', attempt.lecture_id as string);
+
+// Answers are no longer accepted after this moment
+const answerDeadline = (attempt: QuizAttemptRow): Date | null =>
+  attempt.expires_at ? new Date(new Date(attempt.expires_at).getTime() + SUBMIT_GRACE_SECONDS * 1000) : null;
+
+const isExpired = (attempt: QuizAttemptRow): boolean => {
+  const deadline = answerDeadline(attempt);
+  return Boolean(deadline && new Date() > deadline);
+};
+
+/**
+ * Score an attempt from its saved answers and close it. For assignment quizzes the score becomes the grade
+ * of the attempt's submission, with the late penalty applied like a teacher's grade.
+ */
+const finalizeAttempt = async (
+  connection: PoolConnection,
+  attemptId: string,
+  status: Exclude<QuizAttemptStatus, 'in_progress'>,
+  target: QuizTarget
+): Promise<void> => {
+  const [attemptRows] = await connection.execute<RowDataPacket[]>(
+    'SELECT * FROM quiz_attempts WHERE id = ? FOR UPDATE',
+    [attemptId]
+  );
+  const attempt = attemptRows[0] as QuizAttemptRow;
+
+  // Another request closed it first
+  if (attempt.status !== 'in_progress') {
+    return;
+  }
+
+  const layout = parseLayout(attempt.layout);
+  const [itemRows] = await connection.execute<RowDataPacket[]>(
+    `SELECT qi.id as item_id, qi.question_id, qi.points, q.correct_option_index
+     FROM quiz_items qi
+     JOIN quiz_questions q ON qi.question_id = q.id
+     WHERE qi.id IN (${layout.map(() => '?').join(', ')})`,
+    layout.map((entry) => entry.itemId)
+  );
+  const [answerRows] = await connection.execute<RowDataPacket[]>(
+    'SELECT * FROM quiz_answers WHERE attempt_id = ?',
+    [attemptId]
+  );
+  const answers = answerRows as QuizAnswerRow[];
+
+  let score = 0;
+  for (const item of itemRows as AttemptItemRow[]) {
+    const answer = answers.find((candidate) => candidate.item_id === item.item_id);
+    const selected = answer?.selected_option_index ?? null;
+    const isCorrect = selected !== null && Number(selected) === Number(item.correct_option_index);
+    const points = isCorrect ? Number(item.points) : 0;
+    score += points;
+
+    // Unanswered questions get a row too, so analytics count them as skipped
+    await connection.execute(
+      `INSERT INTO quiz_answers (id, attempt_id, item_id, question_id, selected_option_index, is_correct, points_awarded)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON DUPLICATE KEY UPDATE is_correct = VALUES(is_correct), points_awarded = VALUES(points_awarded)`,
+      [uuidv4(), attemptId, item.item_id, item.question_id, selected, isCorrect, points]
+    );
+  }
+
+  // An expired attempt counts as handed in when its time ran out
+  const submittedAt = status === 'expired' && attempt.expires_at ? new Date(attempt.expires_at) : new Date();
+
+  await connection.execute(
+    'UPDATE quiz_attempts SET status = ?, score = ?, submitted_at = ? WHERE id = ?',
+    [status, score, submittedAt, attemptId]
+  );
+
+  if (attempt.submission_id) {
+    const isLate = Boolean(target.dueDate && submittedAt > new Date(target.dueDate));
+    const penaltyPercent = isLate ? target.latePenaltyPercent : 0;
+    const grade = Math.round(score * (100 - penaltyPercent)) / 100;
+
+    await connection.execute(
+      `UPDATE assignment_submissions
+       SET submission_status = 'graded', submitted_at = ?, is_late = ?, grade = ?, raw_grade = ?,
+           graded_at = NOW(), graded_by = NULL
+       WHERE id = ?`,
+      [submittedAt, isLate, grade, score, attempt.submission_id]
+    );
+  }
+
+  logger.info('Quiz attempt scored', { attemptId, status, score, maxScore: attempt.max_score });
+};
+
+/**
+ * Close every attempt of the user on this quiz whose time ran out
+ */
+const finalizeExpiredAttempts = async (target: QuizTarget, userId: string): Promise<void> => {
+  const result = await db.query<QuizAttemptRow>(
+    `SELECT * FROM quiz_attempts WHERE ${targetColumn(target.type)} = $1 AND user_id = $2 AND status = 'in_progress'`,
+    [target.id, userId]
+  );
+
+  for (const attempt of result.rows.filter(isExpired)) {
+    await db.transaction((connection) => finalizeAttempt(connection, attempt.id, 'expired', target));
+  }
+};
+
+/**
+ * Start an attempt, or resume the one in progress. The question and option order is drawn once here.
+ * Assignment quizzes use one of the assignment's attempts, as a draft submission until they are scored.
+ */
+export const startAttempt = async (target: QuizTarget, userId: string): Promise<string> => {
+  await assertCanTake(target, userId);
+  await finalizeExpiredAttempts(target, userId);
+
+  const items = await loadItems(target);
+  if (items.length === 0) {
+    throw new AppError('This quiz has no questions yet', 400);
+  }
+
+  if (target.dueDate && new Date() > new Date(target.dueDate) && !target.allowLateSubmission) {
+    throw new AppError('Assignment submission deadline has passed', 400);
+  }
+
+  const column = targetColumn(target.type);
+
+  return db.transaction(async (connection) => {
+    // Serializes starts, so double clicks cannot open two attempts or exceed the attempt limit
+    await connection.execute(
+      `SELECT id FROM ${target.type === 'assignment' ? 'assignments' : 'lectures'} WHERE id = ? FOR UPDATE`,
+      [target.id]
+    );
+
+    const [openRows] = await connection.execute<RowDataPacket[]>(
+      `SELECT id FROM quiz_attempts WHERE ${column} = ? AND user_id = ? AND status = 'in_progress'`,
+      [target.id, userId]
+    );
+    if (openRows.length > 0) {
+      return openRows[0].id as string;
+    }
+
+    let submissionId: string | null = null;
+    if (target.type === 'assignment') {
+      const [submissionRows] = await connection.execute<RowDataPacket[]>(
+        'SELECT COUNT(*) as attempts, COALESCE(MAX(attempt_number), 0) as last_attempt FROM assignment_submissions WHERE assignment_id = ? AND user_id = ?',
+        [target.id, userId]
+      );
+
+      if (target.maxAttempts !== null && Number(submissionRows[0].attempts) >= target.maxAttempts) {
+        throw new AppError(
+          `You have used all ${target.maxAttempts} attempt${target.maxAttempts === 1 ? '' : 's'} for this assignment`,
+          400
+        );
+      }
+
+      submissionId = uuidv4();
+      await connection.execute(
+        `INSERT INTO assignment_submissions (id, assignment_id, user_id, submission_status, attempt_number, draft_saved_at)
+         VALUES (?, ?, ?, 'draft', ?, NOW())`,
+        [submissionId, target.id, userId, Number(submissionRows[0].last_attempt) + 1]
+      );
+    }
+
+    const layout: QuizLayoutEntry[] = (target.shuffleQuestions ? shuffle(items) : items).map((item) => {
+      const optionOrder = item.options.map((_: string, index: number) => index);
+      return {
+        itemId: item.id,
+        questionId: item.question_id,
+        optionOrder: target.shuffleOptions ? shuffle(optionOrder) : optionOrder
+      };
+    });
+
+    const startedAt = new Date();
+    const expiresAt = target.timeLimitMinutes
+      ? new Date(startedAt.getTime() + target.timeLimitMinutes * 60 * 1000)
+      : null;
+
+    const attemptId = uuidv4();
+    await connection.execute(
+      `INSERT INTO quiz_attempts (id, user_id, ${column}, submission_id, layout, max_score, started_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        attemptId,
+        userId,
+        target.id,
+        submissionId,
+        JSON.stringify(layout),
+        items.reduce((sum, item) => sum + Number(item.points), 0),
+        startedAt,
+        expiresAt
+      ]
+    );
+
+    logger.info('Quiz attempt started', { attemptId, target: target.type, targetId: target.id, userId });
+
+    return attemptId;
+  });
+};
+
+/**
+ * An attempt as the student sees it: questions in their shuffled order and, once scored, the results.
+ * Correct answers are only revealed when the student cannot try again.
+ */
+export const getAttempt = async (attemptId: string, userId: string) => {
+  let attempt = await findOwnAttempt(attemptId, userId);
+  const target = await attemptTarget(attempt);
+
+  if (attempt.status === 'in_progress' && isExpired(attempt)) {
+    await db.transaction((connection) => finalizeAttempt(connection, attempt.id, 'expired', target));
+    attempt = await findOwnAttempt(attemptId, userId);
+  }
+
+  const layout = parseLayout(attempt.layout);
+  const itemResult = await db.query<AttemptItemRow>(
+    `SELECT qi.id as item_id, qi.points, q.question, q.options, q.correct_option_index, q.explanation
+     FROM quiz_items qi
+     JOIN quiz_questions q ON qi.question_id = q.id
+     WHERE qi.id IN (${layout.map((_, i) => `$${i + 1}`).join(', ')})`,
+    layout.map((entry) => entry.itemId)
+  );
+  const answerResult = await db.query<QuizAnswerRow>('SELECT * FROM quiz_answers WHERE attempt_id = $1', [attemptId]);
+
+  const isScored = attempt.status !== 'in_progress';
+  let revealAnswers = false;
+  if (isScored) {
+    const attemptsLeft = target.maxAttempts === null || await countAttempts(target, userId) < target.maxAttempts;
+    const pastDue = Boolean(target.dueDate && new Date() > new Date(target.dueDate));
+    revealAnswers = target.type === 'lecture' || !attemptsLeft || pastDue;
+  }
+
+  const questions = layout.map((entry, position) => {
+    const item = itemResult.rows.find((row) => row.item_id === entry.itemId) as AttemptItemRow;
+    const options = parseOptions(item.options);
+    const answer = answerResult.rows.find((row) => row.item_id === entry.itemId);
+    const selected = answer?.selected_option_index ?? null;
+
+    return {
+      itemId: entry.itemId,
+      position: position + 1,
+      question: item.question,
+      options: entry.optionOrder.map((index) => options[index]),
+      points: Number(item.points),
+      // Indexes are in display order
+      selectedOptionIndex: selected === null ? null : entry.optionOrder.indexOf(Number(selected)),
+      ...(isScored && {
+        isCorrect: Boolean(answer?.is_correct),
+        pointsAwarded: Number(answer?.points_awarded ?? 0)
+      }),
+      ...(revealAnswers && {
+        correctOptionIndex: entry.optionOrder.indexOf(Number(item.correct_option_index)),
+        explanation: item.explanation
+      })
+    };
+  });
+
+  return {
+    id: attempt.id,
+    target: { type: target.type, id: target.id, title: target.title },
+    status: attempt.status,
+    score: attempt.score === null || attempt.score === undefined ? null : Number(attempt.score),
+    maxScore: Number(attempt.max_score),
+    startedAt: attempt.started_at,
+    expiresAt: attempt.expires_at ?? null,
+    submittedAt: attempt.submitted_at ?? null,
+    remainingSeconds: attempt.status === 'in_progress' && attempt.expires_at
+      ? Math.max(0, Math.floor((new Date(attempt.expires_at).getTime() - Date.now()) / 1000))
+      : null,
+    answersRevealed: revealAnswers,
+    questions
+  };
+};
+
+/**
+ * Save answers while the attempt is open; called by autosave and before submitting
+ */
+export const saveAnswers = async (attemptId: string, userId: string, answers: QuizAnswerInput[]): Promise<void> => {
+  const attempt = await findOwnAttempt(attemptId, userId);
+
+  if (attempt.status !== 'in_progress') {
+    throw new AppError('This attempt has already been submitted', 400);
+  }
+  if (isExpired(attempt)) {
+    throw new AppError('Time is up for this attempt', 400);
+  }
+
+  const layout = parseLayout(attempt.layout);
+
+  await db.transaction(async (connection) => {
+    for (const answer of answers) {
+      const entry = layout.find((candidate) => candidate.itemId === answer.itemId);
+      if (!entry) {
+        throw new AppError('The answers include a question that is not in this attempt', 400);
+      }
+
+      if (answer.optionIndex !== null && (answer.optionIndex < 0 || answer.optionIndex >= entry.optionOrder.length)) {
+        throw new AppError('The answers include an option that does not exist', 400);
+      }
+
+      // Stored as the original option index, so scoring and analytics ignore the shuffle
+      const original = answer.optionIndex === null ? null : entry.optionOrder[answer.optionIndex];
+      await connection.execute(
+        `INSERT INTO quiz_answers (id, attempt_id, item_id, question_id, selected_option_index, answered_at)
+         VALUES (?, ?, ?, ?, ?, NOW())
+         ON DUPLICATE KEY UPDATE selected_option_index = VALUES(selected_option_index), answered_at = NOW()`,
+        [uuidv4(), attemptId, entry.itemId, entry.questionId, original]
+      );
+    }
+  });
+};
+
+/**
+ * Hand in an attempt and score it. Answers sent after the time limit are ignored and the attempt is
+ * scored with what was saved in time.
+ */
+export const submitAttempt = async (attemptId: string, userId: string, answers?: QuizAnswerInput[]) => {
+  const attempt = await findOwnAttempt(attemptId, userId);
+  const target = await attemptTarget(attempt);
+
+  if (attempt.status !== 'in_progress') {
+    throw new AppError('This attempt has already been submitted', 400);
+  }
+
+  const expired = isExpired(attempt);
+  if (answers && answers.length > 0 && !expired) {
+    await saveAnswers(attemptId, userId, answers);
+  }
+
+  await db.transaction((connection) => finalizeAttempt(connection, attemptId, expired ? 'expired' : 'submitted', target));
+
+  return getAttempt(attemptId, userId);
+};
+
+/**
+ * Per-question results of the scored attempts: how often each question was answered correctly,
+ * skipped, and which options were picked
+ */
+export const getQuizAnalytics = async (target: QuizTarget) => {
+  const column = targetColumn(target.type);
+  const items = await loadItems(target);
+
+  const summaryResult = await db.query(
+    `SELECT COUNT(*) as attempts,
+            COUNT(DISTINCT user_id) as students,
+            AVG(score) as average_score,
+            MAX(score) as highest_score,
+            MIN(score) as lowest_score,
+            AVG(TIMESTAMPDIFF(SECOND, started_at, submitted_at)) as average_seconds
+     FROM quiz_attempts
+     WHERE ${column} = $1 AND status <> 'in_progress'`,
+    [target.id]
+  );
+
+  const answerResult = await db.query<AnswerCountRow>(
+    `SELECT qa.item_id, qa.selected_option_index, COUNT(*) as count
+     FROM quiz_answers qa
+     JOIN quiz_attempts a ON qa.attempt_id = a.id
+     WHERE a.${column} = $1 AND a.status <> 'in_progress'
+     GROUP BY qa.item_id, qa.selected_option_index`,
+    [target.id]
+  );
+
+  const summary = summaryResult.rows[0];
+  const round = (value: unknown) => (value === null || value === undefined ? null : Math.round(Number(value) * 100) / 100);
+
+  return {
+    target: { type: target.type, id: target.id, title: target.title },
+    attempts: Number(summary.attempts),
+    students: Number(summary.students),
+    maxScore: items.reduce((sum, item) => sum + Number(item.points), 0),
+    averageScore: round(summary.average_score),
+    highestScore: round(summary.highest_score),
+    lowestScore: round(summary.lowest_score),
+    averageSeconds: summary.average_seconds === null ? null : Math.round(Number(summary.average_seconds)),
+    questions: items.map((item) => {
+      const rows = answerResult.rows.filter((row) => row.item_id === item.id);
+      const countFor = (index: number | null) => Number(rows.find((row) => row.selected_option_index === index)?.count ?? 0);
+      const optionCounts = item.options.map((_: string, index: number) => countFor(index));
+      const answered = optionCounts.reduce((sum: number, count: number) => sum + count, 0);
+      const correct = optionCounts[item.correct_option_index] ?? 0;
+      const total = answered + countFor(null);
+
+      return {
+        itemId: item.id,
+        questionId: item.question_id,
+        position: item.position,
+        question: item.question,
+        options: item.options,
+        correctOptionIndex: item.correct_option_index,
+        points: Number(item.points),
+        answered,
+        skipped: countFor(null),
+        correct,
+        // Share of scored attempts that got it right, skips included
+        correctRate: total > 0 ? Math.round((correct / total) * 10000) / 100 : null,
+        optionCounts
+      };
+    })
+  };
+};
+
+export default {
+  findTarget,
+  findManagedCourse,
+  assertCanManage,
+  listQuestions,
+  createQuestions,
+  updateQuestion,
+  deleteQuestion,
+  getQuizForTeacher,
+  getQuizForStudent,
+  setQuizItems,
+  startAttempt,
+  getAttempt,
+  saveAnswers,
+  submitAttempt,
+  getQuizAnalytics
+};
@@ -0,0 +1,419 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import db from '../db';
+import config from '../config';
+import logger from '../utils/logger';
+import { getLLMProvider } from './llmProvider';
+import { ChatCitation, LectureChunk, LectureChunkRow, LectureRow } from '../types';
+
+// Matches "[00:01:23]", "00:01:23", "1:23" and SRT/WebVTT cue lines ("00:00:01,000 --> 00:00:04,000")
+const TIMESTAMP_PATTERN = /^\[?((?:\d{1,2}:)?\d{1,2}:\d{2})(?:[.,]\d{1,3})?\]?(?:\s*-->\s*[\d:.,]+)?\s*(.*)$/;
+
+interface TranscriptSegment {
+  startSeconds?: number;
+  text: string;
+}
+
+interface LectureResource {
+  title?: string;
+  name?: string;
+  url?: string;
+  description?: string;
+  content?: string;
+}
+
+export interface RetrievedChunk extends LectureChunk {
+  lectureTitle: string;
+  score: number;
+}
+
+const parseTimestamp = (value: string): number =>
+  value.split(':').reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+
+/**
+ * Format seconds as m:ss or h:mm:ss, the way video players show them
+ */
+export const formatTimestamp = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = String(seconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+/**
+ * Split a transcript into segments, keeping the start time of each timestamped line.
+ * Transcripts without timestamps become a single untimed segment.
+ */
+const parseTranscript = (transcript: string): TranscriptSegment[] => {
+  const segments: TranscriptSegment[] = [];
+
+  transcript.split(/\r?\n/).forEach((rawLine) => {
+    const line = rawLine.trim();
+    // Skip blank lines, SRT cue numbers and the WebVTT header
+    if (!line || /^\d+$/.test(line) || line === 'WEBVTT') return;
+
+    const match = line.match(TIMESTAMP_PATTERN);
+    if (match) {
+      segments.push({ startSeconds: parseTimestamp(match[1]), text: match[2] });
+    } else if (segments.length > 0) {
+      const last = segments[segments.length - 1];
+      last.text = last.text ? `${last.text} ${line}` : line;
+    } else {
+      segments.push({ text: line });
+    }
+  });
+
+  return segments.filter((segment) => segment.text.length > 0);
+};
+
+/**
+ * Split plain text into overlapping chunks, breaking on whitespace
+ */
+const splitText = (text: string): string[] => {
+  const { chunkSize, chunkOverlap } = config.rag;
+  const normalized = text.replace(/\s+/g, ' ').trim();
+  const chunks: string[] = [];
+
+  let start = 0;
+  while (start < normalized.length) {
+    let end = Math.min(start + chunkSize, normalized.length);
+    if (end < normalized.length) {
+      const lastSpace = normalized.lastIndexOf(' ', end);
+      if (lastSpace > start) end = lastSpace;
+    }
+
+    chunks.push(normalized.slice(start, end).trim());
+    if (end >= normalized.length) break;
+    start = Math.max(end - chunkOverlap, start + 1);
+  }
+
+  return chunks.filter(Boolean);
+};
+
+/**
+ * Group transcript segments into chunks of about `chunkSize` characters.
+ * The last segments of a chunk are repeated at the start of the next one for overlap.
+ */
+const chunkTranscript = (lectureId: string, transcript: string): LectureChunk[] => {
+  const { chunkSize, chunkOverlap } = config.rag;
+  const segments = parseTranscript(transcript);
+
+  // Untimed transcripts are chunked like any other text
+  if (segments.every((segment) => segment.startSeconds === undefined)) {
+    return splitText(segments.map((segment) => segment.text).join(' ')).map((content, chunkIndex) => ({
+      lectureId,
+      sourceType: 'transcript',
+      chunkIndex,
+      content
+    }));
+  }
+
+  const chunks: LectureChunk[] = [];
+  let current: TranscriptSegment[] = [];
+  let currentLength = 0;
+
+  const flush = () => {
+    chunks.push({
+      lectureId,
+      sourceType: 'transcript',
+      chunkIndex: chunks.length,
+      content: current.map((segment) => segment.text).join(' '),
+      startSeconds: current[0].startSeconds,
+      endSeconds: current[current.length - 1].startSeconds
+    });
+  };
+
+  segments.forEach((segment) => {
+    if (currentLength + segment.text.length > chunkSize && current.length > 0) {
+      flush();
+
+      const overlap: TranscriptSegment[] = [];
+      let overlapLength = 0;
+      for (let i = current.length - 1; i >= 0 && overlapLength + current[i].text.length <= chunkOverlap; i--) {
+        overlap.unshift(current[i]);
+        overlapLength += current[i].text.length;
+      }
+      current = overlap;
+      currentLength = overlapLength;
+    }
+
+    current.push(segment);
+    currentLength += segment.text.length;
+  });
+
+  if (current.length > 0) flush();
+  return chunks;
+};
+
+const parseResources = (resources: LectureRow['resources']): LectureResource[] => {
+  if (!resources) return [];
+
+  try {
+    const parsed = typeof resources === 'string' ? JSON.parse(resources) : resources;
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map((item) => (typeof item === 'string' ? { url: item } : item));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Build every searchable chunk of a lecture: its description, transcript and text resources
+ */
+const buildLectureChunks = (lecture: LectureRow): LectureChunk[] => {
+  const chunks: LectureChunk[] = [];
+
+  chunks.push({
+    lectureId: lecture.id,
+    sourceType: 'description',
+    chunkIndex: 0,
+    content: `Lecture: ${lecture.title}${lecture.description ? `\nDescription: ${lecture.description}` : ''}`
+  });
+
+  if (lecture.transcript) {
+    chunks.push(...chunkTranscript(lecture.id, lecture.transcript));
+  }
+
+  parseResources(lecture.resources).forEach((resource) => {
+    const title = resource.title || resource.name || resource.url || 'Resource';
+    const text = [resource.description, resource.content].filter(Boolean).join('\n');
+    if (!text) return;
+
+    splitText(`${title}\n${text}`).forEach((content) => {
+      chunks.push({
+        lectureId: lecture.id,
+        sourceType: 'resource',
+        chunkIndex: chunks.length,
+        content,
+        resourceTitle: title,
+        resourceUrl: resource.url
+      });
+    });
+  });
+
+  // Number chunks across all sources of the lecture
+  return chunks.map((chunk, chunkIndex) => ({ ...chunk, chunkIndex }));
+};
+
+/**
+ * Embed texts with the active LLM provider.
+ * Returns null when embeddings are unavailable, in which case retrieval falls back to keyword scoring.
+ */
+const embedTexts = async (texts: string[]): Promise<number[][] | null> => {
+  const provider = getLLMProvider();
+  if (!provider.embeddingModel || texts.length === 0) return null;
+
+  try {
+    return await provider.embed(texts);
+  } catch (error) {
+    const err = error as Error;
+    logger.error(`${provider.name} embedding error:`, err.message);
+    return null;
+  }
+};
+
+const cosineSimilarity = (a: number[], b: number[]): number => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+};
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((token) => token.length > 2);
+
+/**
+ * Keyword overlap score, normalised by chunk length
+ */
+const keywordScore = (queryTokens: string[], content: string): number => {
+  const tokens = tokenize(content);
+  if (tokens.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  tokens.forEach((token) => counts.set(token, (counts.get(token) ?? 0) + 1));
+
+  const matches = queryTokens.reduce((total, token) => total + (counts.get(token) ?? 0), 0);
+  return matches / Math.sqrt(tokens.length);
+};
+
+const parseEmbedding = (embedding: LectureChunkRow['embedding']): number[] | null => {
+  if (!embedding) return null;
+  try {
+    return typeof embedding === 'string' ? JSON.parse(embedding) : embedding;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * (Re)build the chunk index of one lecture. Skipped when its content did not change.
+ * @returns Number of chunks stored for the lecture
+ */
+export const indexLecture = async (lectureId: string): Promise<number> => {
+  const lectureResult = await db.query<LectureRow>('SELECT * FROM lectures WHERE id = $1', [lectureId]);
+  const lecture = lectureResult.rows[0];
+  if (!lecture) return 0;
+
+  const chunks = buildLectureChunks(lecture);
+  const { embeddingModel } = getLLMProvider();
+  // Vectors of another model cannot be compared, so switching models re-indexes the lecture
+  const contentHash = crypto
+    .createHash('sha256')
+    .update(`${embeddingModel ?? ''}\n`)
+    .update(chunks.map((chunk) => chunk.content).join('\n'))
+    .digest('hex');
+
+  const existing = await db.query<{ content_hash: string; missing_embeddings: number; total: number }>(
+    `SELECT MAX(content_hash) as content_hash,
+            SUM(embedding IS NULL) as missing_embeddings,
+            COUNT(*) as total
+     FROM lecture_chunks WHERE lecture_id = $1`,
+    [lectureId]
+  );
+  const current = existing.rows[0];
+  const upToDate = Number(current?.total) > 0
+    && current.content_hash === contentHash
+    && (Number(current.missing_embeddings) === 0 || !embeddingModel);
+
+  if (upToDate) {
+    return Number(current.total);
+  }
+
+  const embeddings = await embedTexts(chunks.map((chunk) => chunk.content));
+
+  await db.transaction(async (connection) => {
+    await connection.query('DELETE FROM lecture_chunks WHERE lecture_id = ?', [lectureId]);
+
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i];
+      await connection.query(
+        `INSERT INTO lecture_chunks
+         (id, course_id, lecture_id, source_type, chunk_index, content, start_seconds, end_seconds,
+          resource_title, resource_url, embedding, content_hash)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          uuidv4(),
+          lecture.course_id,
+          lectureId,
+          chunk.sourceType,
+          chunk.chunkIndex,
+          chunk.content,
+          chunk.startSeconds ?? null,
+          chunk.endSeconds ?? null,
+          chunk.resourceTitle ?? null,
+          chunk.resourceUrl ?? null,
+          embeddings ? JSON.stringify(embeddings[i]) : null,
+          contentHash
+        ]
+      );
+    }
+  });
+
+  logger.info(`Indexed lecture ${lectureId} (${chunks.length} chunks)`);
+  return chunks.length;
+};
+
+/**
+ * (Re)build the chunk index of every lecture of a course
+ */
+export const indexCourse = async (courseId: string): Promise<{ lectures: number; chunks: number }> => {
+  const lectureResult = await db.query<{ id: string }>(
+    'SELECT id FROM lectures WHERE course_id = $1 ORDER BY order_index',
+    [courseId]
+  );
+
+  let chunks = 0;
+  for (const lecture of lectureResult.rows) {
+    chunks += await indexLecture(lecture.id);
+  }
+
+  return { lectures: lectureResult.rows.length, chunks };
+};
+
+/**
+ * Find the top-k chunks of a course's published lectures most relevant to the query.
+ * Courses that were never indexed are indexed on first use.
+ */
+export const retrieveRelevantChunks = async (
+  courseId: string,
+  query: string,
+  topK: number = config.rag.topK
+): Promise<RetrievedChunk[]> => {
+  const countResult = await db.query<{ total: number }>(
+    'SELECT COUNT(*) as total FROM lecture_chunks WHERE course_id = $1',
+    [courseId]
+  );
+  if (Number(countResult.rows[0]?.total) === 0) {
+    await indexCourse(courseId);
+  }
+
+  const chunkResult = await db.query<LectureChunkRow>(
+    `SELECT lc.*, l.title as lecture_title
+     FROM lecture_chunks lc
+     JOIN lectures l ON lc.lecture_id = l.id
+     WHERE lc.course_id = $1 AND l.is_published = true
+     ORDER BY l.order_index, lc.chunk_index`,
+    [courseId]
+  );
+  const rows = chunkResult.rows;
+  if (rows.length === 0) return [];
+
+  const hasEmbeddings = rows.some((row) => row.embedding);
+  const queryEmbedding = hasEmbeddings ? (await embedTexts([query]))?.[0] : undefined;
+  const queryTokens = tokenize(query);
+
+  const scored = rows.map((row) => {
+    const embedding = queryEmbedding ? parseEmbedding(row.embedding) : null;
+    const score = queryEmbedding && embedding
+      ? cosineSimilarity(queryEmbedding, embedding)
+      : keywordScore(queryTokens, row.content);
+
+    return {
+      lectureId: row.lecture_id,
+      lectureTitle: row.lecture_title ?? '',
+      sourceType: row.source_type,
+      chunkIndex: row.chunk_index,
+      content: row.content,
+      startSeconds: row.start_seconds ?? undefined,
+      endSeconds: row.end_seconds ?? undefined,
+      resourceTitle: row.resource_title ?? undefined,
+      resourceUrl: row.resource_url ?? undefined,
+      score
+    };
+  });
+
+  return scored
+    .filter((chunk) => chunk.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+};
+
+/**
+ * Turn a retrieved chunk into the citation shown next to the AI answer
+ * @param chunk - Retrieved chunk
+ * @param index - 1-based source number used in the prompt ("[1]")
+ */
+export const toCitation = (chunk: RetrievedChunk, index: number): ChatCitation => ({
+  index,
+  lectureId: chunk.lectureId,
+  lectureTitle: chunk.lectureTitle,
+  sourceType: chunk.sourceType,
+  startSeconds: chunk.startSeconds,
+  timestamp: chunk.startSeconds !== undefined ? formatTimestamp(chunk.startSeconds) : undefined,
+  resourceTitle: chunk.resourceTitle,
+  resourceUrl: chunk.resourceUrl,
+  excerpt: chunk.content.length > 200 ? `${chunk.content.slice(0, 200)}…` : chunk.content
+});
+
+export default {
+  indexLecture,
+  indexCourse,
+  retrieveRelevantChunks,
+  toCitation,
+  formatTimestamp
+};
@@ -0,0 +1,312 @@
+import { v4 as uuidv4 } from 'uuid';
+import moment from 'moment';
+import db from '../db';
+import config from '../config';
+import AppError from '../utils/appError';
+import logger from '../utils/logger';
+import { getPaymentGateway, GatewayQueryResult } from './paymentGateway';
+import { settleTransaction, cancelTransaction } from './paymentSettlementService';
+import { ReconciliationEntry, ReconciliationReportRow } from '../types';
+
+interface StaleTransaction {
+  type: 'payment' | 'order';
+  id: string;
+  txn_ref: string;
+  gateway: string;
+  user_id: string;
+  amount: number;
+  status: string;
+  created_at: string;
+  reconcile_attempts: number;
+}
+
+// Longest wait between two checks of a transaction its gateway keeps failing to answer
+const MAX_RETRY_DELAY_MINUTES = 24 * 60;
+
+const REPORT_SUMMARY_COLUMNS = `id, trigger_type, triggered_by, started_at, finished_at, checked_count, completed_count,
+  failed_count, cancelled_count, unchanged_count, error_count, created_at`;
+
+let running = false;
+let timer: NodeJS.Timeout | null = null;
+
+/**
+ * Payments and cart orders still pending after their payment URL expired (plus a grace period
+ * for a late return URL or IPN). Ones whose gateway failed to answer wait out their backoff and come
+ * after the rest, so they cannot fill every batch; otherwise oldest first.
+ */
+const findStaleTransactions = async (): Promise<StaleTransaction[]> => {
+  const { expiryMinutes, reconciliation } = config.payment;
+  const minutes = expiryMinutes + reconciliation.graceMinutes;
+
+  const result = await db.query<StaleTransaction>(
+    `SELECT * FROM (
+       SELECT 'payment' as type, id, order_id as txn_ref, payment_method as gateway, user_id, amount, payment_status as status,
+              created_at, reconcile_attempts
+       FROM payments
+       WHERE payment_status = 'pending' AND created_at < DATE_SUB(NOW(), INTERVAL $1 MINUTE)
+         AND (next_reconcile_at IS NULL OR next_reconcile_at <= NOW())
+       UNION ALL
+       SELECT 'order' as type, id, order_code as txn_ref, payment_method as gateway, user_id, total_amount as amount, status,
+              created_at, reconcile_attempts
+       FROM orders
+       WHERE status = 'pending' AND created_at < DATE_SUB(NOW(), INTERVAL $2 MINUTE)
+         AND (next_reconcile_at IS NULL OR next_reconcile_at <= NOW())
+     ) t
+     ORDER BY t.reconcile_attempts ASC, t.created_at ASC
+     LIMIT ${reconciliation.batchSize}`,
+    [minutes, minutes]
+  );
+
+  return result.rows;
+};
+
+/**
+ * Put off the next check of a transaction its gateway could not answer, doubling the wait each time
+ */
+const recordFailedAttempt = async (transaction: StaleTransaction): Promise<void> => {
+  const delayMinutes = Math.min(
+    config.payment.reconciliation.intervalMinutes * 2 ** Number(transaction.reconcile_attempts),
+    MAX_RETRY_DELAY_MINUTES
+  );
+
+  await db.query(
+    transaction.type === 'payment'
+      ? `UPDATE payments SET reconcile_attempts = reconcile_attempts + 1, next_reconcile_at = DATE_ADD(NOW(), INTERVAL $1 MINUTE)
+         WHERE id = $2 AND payment_status = 'pending'`
+      : `UPDATE orders SET reconcile_attempts = reconcile_attempts + 1, next_reconcile_at = DATE_ADD(NOW(), INTERVAL $1 MINUTE)
+         WHERE id = $2 AND status = 'pending'`,
+    [delayMinutes, transaction.id]
+  );
+};
+
+/**
+ * Ask the transaction's gateway what happened to it and settle it accordingly:
+ * paid → completed and enrolled, failed at the gateway → failed, never paid → cancelled.
+ * Anything the gateway cannot answer is left pending for the next run.
+ */
+const reconcileTransaction = async (transaction: StaleTransaction): Promise<ReconciliationEntry> => {
+  const entry: ReconciliationEntry = {
+    type: transaction.type,
+    id: transaction.id,
+    txnRef: transaction.txn_ref,
+    gateway: transaction.gateway,
+    userId: transaction.user_id,
+    amount: Number(transaction.amount),
+    createdAt: moment(transaction.created_at).format('YYYY-MM-DD HH:mm:ss'),
+    previousStatus: transaction.status,
+    newStatus: transaction.status,
+    outcome: 'unchanged',
+    responseCode: null,
+    transactionStatus: null,
+    message: null
+  };
+
+  let response: GatewayQueryResult;
+  try {
+    response = await getPaymentGateway(transaction.gateway).queryTransaction({
+      txnRef: transaction.txn_ref,
+      amount: Number(transaction.amount),
+      createdAt: transaction.created_at,
+      ipAddress: '127.0.0.1'
+    });
+  } catch (error) {
+    return { ...entry, outcome: 'error', message: (error as Error).message };
+  }
+
+  entry.responseCode = response.responseCode;
+  entry.transactionStatus = response.transaction?.transactionStatus ?? null;
+  entry.message = response.message;
+
+  // The payment URL has expired, so a transaction the buyer never paid can no longer be paid
+  if (response.state === 'not_found' || response.state === 'pending') {
+    const cancelled = await cancelTransaction(transaction.txn_ref);
+    return cancelled
+      ? { ...entry, newStatus: 'cancelled', outcome: 'cancelled' }
+      : { ...entry, message: 'Settled by another request during reconciliation' };
+  }
+
+  if (response.state === 'error' || !response.transaction) {
+    return { ...entry, outcome: 'error' };
+  }
+
+  const settlement = await settleTransaction(transaction.gateway, response.transaction);
+
+  if (!settlement) {
+    return { ...entry, outcome: 'error', message: 'Transaction disappeared during reconciliation' };
+  }
+
+  if (settlement.outcome === 'amount_mismatch') {
+    return { ...entry, outcome: 'error', message: `The gateway reported amount ${response.transaction.amount}` };
+  }
+
+  if (settlement.outcome === 'already_settled') {
+    return { ...entry, newStatus: settlement.status, message: 'Settled by another request during reconciliation' };
+  }
+
+  return {
+    ...entry,
+    newStatus: settlement.status,
+    outcome: settlement.status.startsWith('completed') ? 'completed' : 'failed'
+  };
+};
+
+/**
+ * Reconcile stale pending payments and cart orders against their gateways and store a report.
+ * Scheduled runs that find nothing to check are not stored.
+ * @returns The stored report, or null for an empty scheduled run
+ */
+export const runReconciliation = async (
+  options: { triggeredBy?: string } = {}
+): Promise<ReconciliationReportRow | null> => {
+  if (running) {
+    throw new AppError('A reconciliation run is already in progress', 409);
+  }
+
+  running = true;
+  try {
+    const startedAt = moment().format('YYYY-MM-DD HH:mm:ss');
+    const transactions = await findStaleTransactions();
+
+    if (transactions.length === 0 && !options.triggeredBy) {
+      return null;
+    }
+
+    // One at a time, so a large backlog does not flood the gateway APIs
+    const entries: ReconciliationEntry[] = [];
+    for (const transaction of transactions) {
+      const entry = await reconcileTransaction(transaction);
+      if (entry.outcome === 'error') {
+        await recordFailedAttempt(transaction);
+      }
+      entries.push(entry);
+    }
+
+    const count = (outcome: ReconciliationEntry['outcome']) =>
+      entries.filter((entry) => entry.outcome === outcome).length;
+
+    const reportId = uuidv4();
+    await db.query(
+      `INSERT INTO reconciliation_reports (id, trigger_type, triggered_by, started_at, finished_at, checked_count,
+         completed_count, failed_count, cancelled_count, unchanged_count, error_count, entries)
+       VALUES ($1, $2, $3, $4, NOW(), $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        reportId,
+        options.triggeredBy ? 'manual' : 'scheduled',
+        options.triggeredBy ?? null,
+        startedAt,
+        entries.length,
+        count('completed'),
+        count('failed'),
+        count('cancelled'),
+        count('unchanged'),
+        count('error'),
+        JSON.stringify(entries)
+      ]
+    );
+
+    logger.info('Payment reconciliation finished', {
+      reportId,
+      checked: entries.length,
+      completed: count('completed'),
+      failed: count('failed'),
+      cancelled: count('cancelled'),
+      errors: count('error')
+    });
+
+    return getReport(reportId);
+  } finally {
+    running = false;
+  }
+};
+
+/**
+ * Reconciliation reports without their entries, newest first
+ */
+export const listReports = async (page: number, limit: number): Promise<{ reports: ReconciliationReportRow[]; total: number }> => {
+  const offset = (page - 1) * limit;
+
+  const result = await db.query<ReconciliationReportRow>(
+    `SELECT ${REPORT_SUMMARY_COLUMNS} FROM reconciliation_reports
+     ORDER BY started_at DESC
+     LIMIT ${limit} OFFSET ${offset}`
+  );
+  const countResult = await db.query<{ total: number }>('SELECT COUNT(*) as total FROM reconciliation_reports');
+
+  return { reports: result.rows, total: Number(countResult.rows[0]?.total ?? 0) };
+};
+
+/**
+ * A reconciliation report with its parsed entries
+ */
+export const getReport = async (id: string): Promise<ReconciliationReportRow | null> => {
+  const result = await db.query<ReconciliationReportRow>('SELECT * FROM reconciliation_reports WHERE id = $1', [id]);
+  const report = result.rows[0];
+
+  if (!report) {
+    return null;
+  }
+
+  if (typeof report.entries === 'string') {
+    try {
+      report.entries = JSON.parse(report.entries);
+    } catch {
+      report.entries = [];
+    }
+  }
+
+  return report;
+};
+
+const csvValue = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Render a report's entries as CSV, one transaction per line
+ */
+export const reportToCsv = (report: ReconciliationReportRow): string => {
+  const columns: Array<keyof ReconciliationEntry> = [
+    'type', 'id', 'txnRef', 'gateway', 'userId', 'amount', 'createdAt', 'previousStatus', 'newStatus',
+    'outcome', 'responseCode', 'transactionStatus', 'message'
+  ];
+  const entries = Array.isArray(report.entries) ? report.entries : [];
+
+  return [
+    columns.join(','),
+    ...entries.map((entry) => columns.map((column) => csvValue(entry[column])).join(','))
+  ].join('\r\n');
+};
+
+/**
+ * Run the reconciliation every `PAYMENT_RECONCILIATION_INTERVAL_MINUTES` in this process
+ */
+export const startReconciliationWorker = (): void => {
+  const { enabled, intervalMinutes } = config.payment.reconciliation;
+
+  if (!enabled || timer) {
+    return;
+  }
+
+  timer = setInterval(() => {
+    runReconciliation().catch((error) => {
+      // A manual run still in progress just skips this tick
+      if (!(error instanceof AppError && error.statusCode === 409)) {
+        logger.error('Scheduled payment reconciliation failed:', error);
+      }
+    });
+  }, intervalMinutes * 60 * 1000);
+
+  // Do not keep the process alive just for the worker
+  timer.unref();
+
+  logger.info(`Payment reconciliation scheduled every ${intervalMinutes} minutes`);
+};
+
+export default {
+  runReconciliation,
+  listReports,
+  getReport,
+  reportToCsv,
+  startReconciliationWorker
+};
@@ -50,6 +50,15 @@ const del = async (key: string): Promise<boolean> => {
   }
 };
 
+const getAndDelete = async (key: string): Promise<string | null> => {
+  try {
+    return await client.getDel(key);
+  } catch (error) {
+    logger.error(`Redis getAndDelete error: ${(error as Error).message}`);
+    return null;
+  }
+};
+
 const blacklistToken = async (token: string, expiryInSeconds: number): Promise<boolean> => {
   return await setWithExpiry(`bl_${token}`, 'true', expiryInSeconds);
 };
@@ -58,6 +67,121 @@ const getBlacklistedToken = async (token: string): Promise<string | null> => {
   return await get(`bl_${token}`);
 };
 
+// Single-use tokens are stored by hash and mapped back to the owning user.
+// Only the most recent token per user and purpose stays valid.
+const storeUserToken = async (purpose: string, tokenHash: string, userId: string, expiryInSeconds: number): Promise<boolean> => {
+  const previousHash = await get(`${purpose}_user_${userId}`);
+  if (previousHash) {
+    await del(`${purpose}_${previousHash}`);
+  }
+
+  const stored = await setWithExpiry(`${purpose}_${tokenHash}`, userId, expiryInSeconds);
+  return stored && await setWithExpiry(`${purpose}_user_${userId}`, tokenHash, expiryInSeconds);
+};
+
+const consumeUserToken = async (purpose: string, tokenHash: string): Promise<string | null> => {
+  const userId = await getAndDelete(`${purpose}_${tokenHash}`);
+  if (userId) {
+    await del(`${purpose}_user_${userId}`);
+  }
+  return userId;
+};
+
+const storePasswordResetToken = async (tokenHash: string, userId: string, expiryInSeconds: number): Promise<boolean> => {
+  return await storeUserToken('pwreset', tokenHash, userId, expiryInSeconds);
+};
+
+const consumePasswordResetToken = async (tokenHash: string): Promise<string | null> => {
+  return await consumeUserToken('pwreset', tokenHash);
+};
+
+const getPasswordResetToken = async (tokenHash: string): Promise<string | null> => {
+  return await get(`pwreset_${tokenHash}`);
+};
+
+const storeEmailVerificationToken = async (tokenHash: string, userId: string, expiryInSeconds: number): Promise<boolean> => {
+  return await storeUserToken('emailverify', tokenHash, userId, expiryInSeconds);
+};
+
+const consumeEmailVerificationToken = async (tokenHash: string): Promise<string | null> => {
+  return await consumeUserToken('emailverify', tokenHash);
+};
+
+const storeTwoFactorChallenge = async (tokenHash: string, userId: string, expiryInSeconds: number): Promise<boolean> => {
+  return await storeUserToken('2fa_challenge', tokenHash, userId, expiryInSeconds);
+};
+
+const getTwoFactorChallenge = async (tokenHash: string): Promise<string | null> => {
+  return await get(`2fa_challenge_${tokenHash}`);
+};
+
+const consumeTwoFactorChallenge = async (tokenHash: string): Promise<string | null> => {
+  return await consumeUserToken('2fa_challenge', tokenHash);
+};
+
+const revokeUserTokens = async (userId: string, expiryInSeconds: number): Promise<boolean> => {
+  return await setWithExpiry(`revoked_${userId}`, Math.floor(Date.now() / 1000).toString(), expiryInSeconds);
+};
+
+const getUserTokensRevokedAt = async (userId: string): Promise<number | null> => {
+  const value = await get(`revoked_${userId}`);
+  return value ? parseInt(value, 10) : null;
+};
+
+// Presence: one sorted set per user of socket ids scored by when each socket was last seen, so a user
+// stays online until their last tab disconnects. Connected sockets refresh their entry well within the TTL;
+// entries of sockets lost without a disconnect handler (server crash) stop counting once the TTL passes.
+const PRESENCE_TTL_SECONDS = 90;
+const PRESENCE_REFRESH_SECONDS = 30;
+
+const presenceKey = (userId: string): string => `presence_sockets_${userId}`;
+
+const presenceCutoff = (): number => Date.now() - PRESENCE_TTL_SECONDS * 1000;
+
+/**
+ * Record (or refresh) a connected socket of the user
+ * @returns Number of the user's live sockets
+ */
+const addPresence = async (userId: string, socketId: string): Promise<number> => {
+  const key = presenceKey(userId);
+  try {
+    await client.zAdd(key, { score: Date.now(), value: socketId });
+    await client.zRemRangeByScore(key, '-inf', presenceCutoff());
+    await client.expire(key, PRESENCE_TTL_SECONDS);
+    return await client.zCard(key);
+  } catch (error) {
+    logger.error(`Redis addPresence error: ${(error as Error).message}`);
+    return 0;
+  }
+};
+
+const removePresence = async (userId: string, socketId: string): Promise<number> => {
+  const key = presenceKey(userId);
+  try {
+    await client.zRem(key, socketId);
+    await client.zRemRangeByScore(key, '-inf', presenceCutoff());
+    return await client.zCard(key);
+  } catch (error) {
+    logger.error(`Redis removePresence error: ${(error as Error).message}`);
+    return 0;
+  }
+};
+
+const getOnlineUsers = async (userIds: string[]): Promise<Record<string, boolean>> => {
+  const presence: Record<string, boolean> = {};
+
+  for (const userId of userIds) {
+    try {
+      presence[userId] = (await client.zCount(presenceKey(userId), presenceCutoff(), '+inf')) > 0;
+    } catch (error) {
+      logger.error(`Redis getOnlineUsers error: ${(error as Error).message}`);
+      presence[userId] = false;
+    }
+  }
+
+  return presence;
+};
+
 const cacheCoursesData = async (courses: any): Promise<boolean> => {
   try {
     await client.set('courses', JSON.stringify(courses), { EX: 3600 });
@@ -97,8 +221,23 @@ export default {
   setWithExpiry,
   get,
   del,
+  getAndDelete,
   blacklistToken,
   getBlacklistedToken,
+  storePasswordResetToken,
+  consumePasswordResetToken,
+  getPasswordResetToken,
+  storeEmailVerificationToken,
+  consumeEmailVerificationToken,
+  storeTwoFactorChallenge,
+  getTwoFactorChallenge,
+  consumeTwoFactorChallenge,
+  revokeUserTokens,
+  getUserTokensRevokedAt,
+  PRESENCE_REFRESH_SECONDS,
+  addPresence,
+  removePresence,
+  getOnlineUsers,
   cacheCoursesData,
   getCachedCoursesData,
   clearCache,
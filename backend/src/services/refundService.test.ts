@@ -0,0 +1,213 @@
+jest.mock('../db', () => ({ __esModule: true, default: { query: jest.fn(), transaction: jest.fn() } }));
+jest.mock('./paymentGateway', () => ({ getPaymentGateway: jest.fn() }));
+
+import db from '../db';
+import AppError from '../utils/appError';
+import { getPaymentGateway } from './paymentGateway';
+import { RefundRequest, reserveRefund } from './refundService';
+
+type Row = Record<string, unknown>;
+
+const gateway = { id: 'vnpay', name: 'VNPay' };
+
+/**
+ * A connection over one payment or cart order, its items and the refunds already pending for it.
+ * Inserted refunds are kept so the reserved row can be read back.
+ */
+const useTables = (tables: { payment?: Row; order?: Row; items?: Row[]; pendingTotal?: number }) => {
+  const inserted: Row[] = [];
+  const connection = {
+    execute: jest.fn(async (sql: string, params: unknown[]) => {
+      if (sql.startsWith('SELECT * FROM payments')) {
+        return [tables.payment ? [tables.payment] : []];
+      }
+      if (sql.startsWith('SELECT * FROM orders')) {
+        return [tables.order ? [tables.order] : []];
+      }
+      if (sql.startsWith('SELECT * FROM order_items')) {
+        return [tables.items ?? []];
+      }
+      if (sql.includes('SUM(amount)')) {
+        return [[{ total: String(tables.pendingTotal ?? 0) }]];
+      }
+      if (sql.startsWith('INSERT INTO refunds')) {
+        const [id, paymentId, orderId, courseIds, amount, refundType, enrollmentAction, reason, requestedBy] = params;
+        inserted.push({
+          id,
+          payment_id: paymentId,
+          order_id: orderId,
+          course_ids: courseIds,
+          amount,
+          refund_type: refundType,
+          enrollment_action: enrollmentAction,
+          reason,
+          status: 'pending',
+          requested_by: requestedBy
+        });
+        return [{ affectedRows: 1 }];
+      }
+      if (sql.startsWith('SELECT * FROM refunds')) {
+        return [inserted.filter((refund) => refund.id === params[0])];
+      }
+      throw new Error(`Unexpected query: ${sql}`);
+    })
+  };
+
+  (db.transaction as jest.Mock).mockImplementation((callback: (connection: unknown) => Promise<unknown>) => callback(connection));
+  return inserted;
+};
+
+const payment = (overrides: Row = {}): Row => ({
+  id: 'payment-1',
+  order_id: 'TXN1',
+  user_id: 'user-1',
+  course_id: 'course-1',
+  amount: '200000.00',
+  refunded_amount: '0.00',
+  payment_method: 'vnpay',
+  payment_status: 'completed',
+  transaction_id: 'GW-1',
+  payment_date: '2026-10-01 10:00:00',
+  ...overrides
+});
+
+const order = (overrides: Row = {}): Row => ({
+  id: 'order-1',
+  order_code: 'ORD1',
+  user_id: 'user-1',
+  total_amount: '300000.00',
+  refunded_amount: '0.00',
+  payment_method: 'vnpay',
+  status: 'completed',
+  transaction_id: 'GW-2',
+  payment_date: '2026-10-01 10:00:00',
+  ...overrides
+});
+
+const items: Row[] = [
+  { order_id: 'order-1', course_id: 'course-1', amount: '100000.00' },
+  { order_id: 'order-1', course_id: 'course-2', amount: '200000.00' }
+];
+
+const request = (overrides: Partial<RefundRequest> = {}): RefundRequest => ({
+  requestedBy: 'admin-1',
+  ipAddress: '127.0.0.1',
+  ...overrides
+});
+
+const expectRejection = async (promise: Promise<unknown>, statusCode: number, message: string | RegExp) => {
+  const error = await promise.catch((caught: unknown) => caught);
+  expect(error).toBeInstanceOf(AppError);
+  expect(error).toMatchObject({ statusCode });
+  expect((error as AppError).message).toMatch(message);
+};
+
+describe('reserveRefund', () => {
+  beforeEach(() => {
+    (getPaymentGateway as jest.Mock).mockReturnValue(gateway);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('reserves everything still refundable by default, as a full refund', async () => {
+    const inserted = useTables({ payment: payment() });
+
+    const { refund, target, gateway: resolved } = await reserveRefund('payment', 'payment-1', request());
+
+    expect(refund).toMatchObject({ amount: 200000, refund_type: 'full', enrollment_action: 'revoke', status: 'pending' });
+    expect(target).toMatchObject({ paidAmount: 200000, refundedAmount: 0, txnRef: 'TXN1' });
+    expect(resolved).toBe(gateway);
+    expect(inserted).toHaveLength(1);
+  });
+
+  it('reserves a partial refund that downgrades the enrollment', async () => {
+    useTables({ payment: payment() });
+
+    const { refund } = await reserveRefund('payment', 'payment-1', request({ amount: 50000 }));
+
+    expect(refund).toMatchObject({ amount: 50000, refund_type: 'partial', enrollment_action: 'downgrade' });
+  });
+
+  it('counts pending and completed refunds against what can still be refunded', async () => {
+    useTables({ payment: payment({ refunded_amount: '50000.00' }), pendingTotal: 100000 });
+
+    const { refund } = await reserveRefund('payment', 'payment-1', request());
+
+    expect(refund).toMatchObject({ amount: 50000, refund_type: 'partial' });
+  });
+
+  it('refuses more than is left to refund', async () => {
+    const inserted = useTables({ payment: payment({ refunded_amount: '50000.00' }), pendingTotal: 100000 });
+
+    await expectRejection(reserveRefund('payment', 'payment-1', request({ amount: 60000 })), 400, /between 1 and/);
+    expect(inserted).toHaveLength(0);
+  });
+
+  it('refuses a refund when everything is already reserved', async () => {
+    const inserted = useTables({ payment: payment(), pendingTotal: 200000 });
+
+    await expectRejection(reserveRefund('payment', 'payment-1', request()), 400, /between 1 and/);
+    expect(inserted).toHaveLength(0);
+  });
+
+  it('refuses a payment that is not completed', async () => {
+    useTables({ payment: payment({ payment_status: 'pending' }) });
+
+    await expectRejection(reserveRefund('payment', 'payment-1', request()), 400, 'A pending payment cannot be refunded');
+  });
+
+  it('refuses a transaction that was never charged through a gateway', async () => {
+    useTables({ payment: payment({ transaction_id: null }) });
+
+    await expectRejection(reserveRefund('payment', 'payment-1', request()), 400, /Nothing was charged/);
+  });
+
+  it('reserves nothing when the gateway that took the payment is not available', async () => {
+    (getPaymentGateway as jest.Mock).mockImplementation(() => {
+      throw new AppError('Payment gateway "momo" is not available', 400);
+    });
+    const inserted = useTables({ payment: payment({ payment_method: 'momo' }) });
+
+    await expectRejection(reserveRefund('payment', 'payment-1', request()), 400, /not available/);
+    expect(inserted).toHaveLength(0);
+  });
+
+  it('defaults a per-course order refund to what was paid for those courses', async () => {
+    useTables({ order: order(), items });
+
+    const { refund } = await reserveRefund('order', 'order-1', request({ courseIds: ['course-2'] }));
+
+    expect(refund).toMatchObject({ amount: 200000, refund_type: 'partial', enrollment_action: 'revoke' });
+    expect(JSON.parse(String(refund.course_ids))).toEqual(['course-2']);
+  });
+
+  it('caps a per-course order refund at what is left to refund', async () => {
+    useTables({ order: order({ refunded_amount: '150000.00' }), items });
+
+    const { refund } = await reserveRefund('order', 'order-1', request({ courseIds: ['course-2'] }));
+
+    expect(refund).toMatchObject({ amount: 150000 });
+  });
+
+  it('refuses courses that are not part of the order', async () => {
+    useTables({ order: order(), items });
+
+    await expectRejection(
+      reserveRefund('order', 'order-1', request({ courseIds: ['course-9'] })),
+      400,
+      'Some of the selected courses are not part of this order'
+    );
+  });
+
+  it('refuses to select courses on a single payment', async () => {
+    useTables({ payment: payment() });
+
+    await expectRejection(
+      reserveRefund('payment', 'payment-1', request({ courseIds: ['course-1'] })),
+      400,
+      'Courses can only be selected when refunding a cart order'
+    );
+  });
+});
@@ -0,0 +1,372 @@
+import { RowDataPacket } from 'mysql2/promise';
+import { v4 as uuidv4 } from 'uuid';
+import db from '../db';
+import config from '../config';
+import AppError from '../utils/appError';
+import logger from '../utils/logger';
+import { getPaymentGateway, GatewayRefundResult, PaymentGateway } from './paymentGateway';
+import notificationService from './notificationService';
+import { reverseCouponUsage } from './couponService';
+import { recordRefund } from './earningService';
+import { OrderItemRow, OrderRow, PaymentRow, RefundRow } from '../types';
+
+export type EnrollmentAction = RefundRow['enrollment_action'];
+
+export interface RefundRequest {
+  // Defaults to everything still refundable (for the selected courses of an order)
+  amount?: number;
+  // Cart orders only: refund these courses instead of the whole order
+  courseIds?: string[];
+  reason?: string;
+  // Defaults to 'revoke' for a full refund or a per-course order refund, 'downgrade' otherwise
+  enrollmentAction?: EnrollmentAction;
+  requestedBy: string;
+  ipAddress: string;
+}
+
+// A paid transaction as seen by the refund workflow
+interface RefundTarget {
+  type: 'payment' | 'order';
+  id: string;
+  userId: string;
+  txnRef: string;
+  // Gateway that took the payment, which must also return it
+  gateway: string;
+  paidAmount: number;
+  refundedAmount: number;
+  transactionId: string | null;
+  paymentDate: string | null;
+  // Amount paid per course
+  courses: Array<{ courseId: string; amount: number }>;
+}
+
+const REFUNDABLE_STATUSES = ['completed', 'completed_enrollment_failed'];
+
+const parseCourseIds = (value: RefundRow['course_ids']): string[] => {
+  if (!value) return [];
+  if (Array.isArray(value)) return value;
+
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Check the request against the locked payment/order and record a pending refund.
+ * Pending refunds count as refunded, so two admins cannot refund the same money twice.
+ * The gateway is resolved first, so a refund that cannot reach one is never reserved.
+ */
+export const reserveRefund = async (
+  type: RefundTarget['type'],
+  id: string,
+  request: RefundRequest
+): Promise<{ target: RefundTarget; refund: RefundRow; gateway: PaymentGateway }> =>
+  db.transaction(async (connection) => {
+    let target: RefundTarget;
+
+    if (type === 'payment') {
+      const [rows] = await connection.execute<RowDataPacket[]>('SELECT * FROM payments WHERE id = ? FOR UPDATE', [id]);
+      const payment = rows[0] as PaymentRow | undefined;
+
+      if (!payment) {
+        throw new AppError('Payment not found', 404);
+      }
+
+      if (!REFUNDABLE_STATUSES.includes(payment.payment_status)) {
+        throw new AppError(`A ${payment.payment_status} payment cannot be refunded`, 400);
+      }
+
+      target = {
+        type,
+        id: payment.id,
+        userId: payment.user_id,
+        txnRef: payment.order_id,
+        gateway: payment.payment_method,
+        paidAmount: Number(payment.amount),
+        refundedAmount: Number(payment.refunded_amount ?? 0),
+        transactionId: payment.transaction_id ?? null,
+        paymentDate: payment.payment_date ?? null,
+        courses: [{ courseId: payment.course_id, amount: Number(payment.amount) }]
+      };
+    } else {
+      const [rows] = await connection.execute<RowDataPacket[]>('SELECT * FROM orders WHERE id = ? FOR UPDATE', [id]);
+      const order = rows[0] as OrderRow | undefined;
+
+      if (!order) {
+        throw new AppError('Order not found', 404);
+      }
+
+      if (!REFUNDABLE_STATUSES.includes(order.status)) {
+        throw new AppError(`A ${order.status} order cannot be refunded`, 400);
+      }
+
+      const [items] = await connection.execute<RowDataPacket[]>('SELECT * FROM order_items WHERE order_id = ?', [order.id]);
+
+      target = {
+        type,
+        id: order.id,
+        userId: order.user_id,
+        txnRef: order.order_code,
+        gateway: order.payment_method,
+        paidAmount: Number(order.total_amount),
+        refundedAmount: Number(order.refunded_amount ?? 0),
+        transactionId: order.transaction_id,
+        paymentDate: order.payment_date,
+        courses: (items as OrderItemRow[]).map((item) => ({ courseId: item.course_id, amount: Number(item.amount) }))
+      };
+    }
+
+    if (target.paidAmount <= 0 || !target.transactionId) {
+      throw new AppError('Nothing was charged through a payment gateway for this transaction', 400);
+    }
+
+    const gateway = getPaymentGateway(target.gateway);
+
+    const [pendingRows] = await connection.execute<RowDataPacket[]>(
+      `SELECT COALESCE(SUM(amount), 0) as total FROM refunds
+       WHERE ${type === 'payment' ? 'payment_id' : 'order_id'} = ? AND status = 'pending'`,
+      [target.id]
+    );
+    const refundable = target.paidAmount - target.refundedAmount - Number(pendingRows[0]?.total ?? 0);
+
+    let courseIds = target.courses.map((course) => course.courseId);
+    let defaultAmount = refundable;
+
+    if (request.courseIds && request.courseIds.length > 0) {
+      if (type !== 'order') {
+        throw new AppError('Courses can only be selected when refunding a cart order', 400);
+      }
+
+      const unknown = request.courseIds.filter((courseId) => !courseIds.includes(courseId));
+      if (unknown.length > 0) {
+        throw new AppError('Some of the selected courses are not part of this order', 400);
+      }
+
+      courseIds = request.courseIds;
+      defaultAmount = Math.min(
+        refundable,
+        target.courses
+          .filter((course) => courseIds.includes(course.courseId))
+          .reduce((total, course) => total + course.amount, 0)
+      );
+    }
+
+    const amount = request.amount ?? defaultAmount;
+
+    if (amount <= 0 || amount > refundable) {
+      throw new AppError(`Refund amount must be between 1 and ${refundable.toLocaleString()} VNĐ`, 400);
+    }
+
+    // VNPay, for one, only accepts a full refund for the whole original amount
+    const refundType: RefundRow['refund_type'] = amount === target.paidAmount ? 'full' : 'partial';
+    const enrollmentAction: EnrollmentAction = request.enrollmentAction
+      ?? (refundType === 'full' || request.courseIds?.length ? 'revoke' : 'downgrade');
+
+    const refundId = uuidv4();
+    await connection.execute(
+      `INSERT INTO refunds (id, payment_id, order_id, course_ids, amount, refund_type, enrollment_action, reason, status, requested_by)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', ?)`,
+      [
+        refundId,
+        type === 'payment' ? target.id : null,
+        type === 'order' ? target.id : null,
+        JSON.stringify(courseIds),
+        amount,
+        refundType,
+        enrollmentAction,
+        request.reason ?? null,
+        request.requestedBy
+      ]
+    );
+
+    const [refundRows] = await connection.execute<RowDataPacket[]>('SELECT * FROM refunds WHERE id = ?', [refundId]);
+
+    return { target, refund: refundRows[0] as RefundRow, gateway };
+  });
+
+/**
+ * Revoke or downgrade the enrollments covered by a completed refund
+ */
+const applyEnrollmentAction = async (target: RefundTarget, courseIds: string[], action: EnrollmentAction): Promise<void> => {
+  if (action === 'keep' || courseIds.length === 0) {
+    return;
+  }
+
+  const placeholders = courseIds.map(() => '?').join(', ');
+
+  if (action === 'revoke') {
+    await db.query(
+      `DELETE FROM enrollments WHERE user_id = ? AND course_id IN (${placeholders})`,
+      [target.userId, ...courseIds]
+    );
+
+    if (target.type === 'order') {
+      await db.query(
+        `UPDATE order_items SET enrolled = false WHERE order_id = ? AND course_id IN (${placeholders})`,
+        [target.id, ...courseIds]
+      );
+    }
+  } else {
+    // Downgraded enrollments keep working for a grace period, then lose access
+    await db.query(
+      `UPDATE enrollments SET enrollment_type = 'trial', expires_at = DATE_ADD(NOW(), INTERVAL ? DAY)
+       WHERE user_id = ? AND course_id IN (${placeholders})`,
+      [config.payment.refundDowngradeDays, target.userId, ...courseIds]
+    );
+  }
+
+  logger.info('Enrollments updated after refund', { type: target.type, id: target.id, courseIds, action });
+};
+
+/**
+ * Refund a payment or cart order through the gateway that took it and record the gateway response.
+ * On success the refunded amount is added up (the status becomes `refunded` once everything is
+ * returned), the enrollments are revoked or downgraded, the teachers' earnings are reversed, and a
+ * fully refunded coupon use is reversed.
+ * A refused or failed gateway call leaves the refund as `failed` and throws a 502 AppError.
+ */
+const refund = async (type: RefundTarget['type'], id: string, request: RefundRequest): Promise<RefundRow> => {
+  const { target, refund: pendingRefund, gateway } = await reserveRefund(type, id, request);
+  const amount = Number(pendingRefund.amount);
+
+  let response: GatewayRefundResult;
+  try {
+    response = await gateway.refund({
+      txnRef: target.txnRef,
+      amount,
+      paidAmount: target.paidAmount,
+      transactionId: target.transactionId as string,
+      paidAt: target.paymentDate,
+      refundType: pendingRefund.refund_type,
+      requestedBy: request.requestedBy,
+      ipAddress: request.ipAddress
+    });
+  } catch (error) {
+    await db.query(
+      "UPDATE refunds SET status = 'failed', gateway_message = $1, updated_at = NOW() WHERE id = $2",
+      [(error as Error).message, pendingRefund.id]
+    );
+    throw new AppError(`Could not reach ${gateway.name} to process the refund`, 502);
+  }
+
+  await db.query(
+    `UPDATE refunds
+     SET status = $1, gateway_response_code = $2, gateway_message = $3, gateway_transaction_no = $4,
+         gateway_response = $5, updated_at = NOW()
+     WHERE id = $6`,
+    [
+      response.succeeded ? 'completed' : 'failed',
+      response.responseCode,
+      response.message,
+      response.refundTransactionId,
+      JSON.stringify(response.raw),
+      pendingRefund.id
+    ]
+  );
+
+  if (!response.succeeded) {
+    logger.warn('Gateway refused refund', {
+      refundId: pendingRefund.id,
+      gateway: gateway.id,
+      txnRef: target.txnRef,
+      responseCode: response.responseCode,
+      message: response.message
+    });
+    throw new AppError(`${gateway.name} refused the refund: ${response.message || response.responseCode}`, 502);
+  }
+
+  // Added to the stored total rather than to the snapshot taken before the gateway call, since other
+  // partial refunds of the same transaction may have completed in the meantime
+  const fullyRefunded = await db.transaction(async (connection) => {
+    const table = type === 'payment' ? 'payments' : 'orders';
+    const statusColumn = type === 'payment' ? 'payment_status' : 'status';
+    const totalColumn = type === 'payment' ? 'amount' : 'total_amount';
+
+    await connection.execute(
+      `UPDATE ${table} SET refunded_amount = COALESCE(refunded_amount, 0) + ?, updated_at = NOW() WHERE id = ?`,
+      [amount, target.id]
+    );
+    const [rows] = await connection.execute<RowDataPacket[]>(
+      `SELECT refunded_amount, ${totalColumn} AS paid_amount FROM ${table} WHERE id = ? FOR UPDATE`,
+      [target.id]
+    );
+    const refunded = Number(rows[0]?.refunded_amount ?? 0) >= Number(rows[0]?.paid_amount ?? 0);
+
+    if (refunded) {
+      await connection.execute(`UPDATE ${table} SET ${statusColumn} = 'refunded' WHERE id = ?`, [target.id]);
+    }
+    return refunded;
+  });
+
+  await applyEnrollmentAction(target, parseCourseIds(pendingRefund.course_ids), pendingRefund.enrollment_action);
+
+  try {
+    await recordRefund(pendingRefund, parseCourseIds(pendingRefund.course_ids));
+  } catch (error) {
+    // The money is already returned; the ledger can be corrected from the refund row
+    logger.error('Failed to reverse teacher earnings after refund:', error);
+  }
+
+  if (fullyRefunded) {
+    await reverseCouponUsage(target.txnRef);
+  }
+
+  logger.info('Refund completed', {
+    refundId: pendingRefund.id,
+    type,
+    id: target.id,
+    amount,
+    refundType: pendingRefund.refund_type,
+    fullyRefunded
+  });
+
+  await notificationService.notify({
+    userId: target.userId,
+    type: 'payment',
+    title: 'Refund processed',
+    message: `A refund of ${amount.toLocaleString()} VNĐ has been issued to your original payment method.`,
+    referenceType: type,
+    referenceId: target.id,
+    link: '/dashboard/student/courses'
+  });
+
+  const result = await db.query<RefundRow>('SELECT * FROM refunds WHERE id = $1', [pendingRefund.id]);
+  return result.rows[0];
+};
+
+/**
+ * Refund a single-course payment, fully or partially
+ */
+export const refundPayment = (paymentId: string, request: RefundRequest): Promise<RefundRow> =>
+  refund('payment', paymentId, request);
+
+/**
+ * Refund a cart order, fully, partially or for selected courses
+ */
+export const refundOrder = (orderId: string, request: RefundRequest): Promise<RefundRow> =>
+  refund('order', orderId, request);
+
+/**
+ * Refunds of a payment or order, newest first
+ */
+export const getRefunds = async (where: { paymentId?: string; orderId?: string }): Promise<RefundRow[]> => {
+  const result = await db.query<RefundRow>(
+    `SELECT r.*, u.email as requested_by_email
+     FROM refunds r
+     LEFT JOIN users u ON r.requested_by = u.id
+     WHERE ${where.paymentId ? 'r.payment_id' : 'r.order_id'} = $1
+     ORDER BY r.created_at DESC`,
+    [where.paymentId ?? where.orderId]
+  );
+
+  return result.rows;
+};
+
+export default {
+  refundPayment,
+  refundOrder,
+  getRefunds
+};
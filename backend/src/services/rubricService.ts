@@ -0,0 +1,136 @@
+import { v4 as uuidv4 } from 'uuid';
+import AppError from '../utils/appError';
+import { GradingRubric, RubricCriterion, RubricCriterionScore } from '../types/models';
+
+const MAX_CRITERIA = 20;
+const MAX_LEVELS = 10;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const requireText = (value: unknown, message: string, maxLength: number): string => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new AppError(message, 400);
+  }
+  if (value.trim().length > maxLength) {
+    throw new AppError(`${message.replace(' is required', '')} must be at most ${maxLength} characters`, 400);
+  }
+  return value.trim();
+};
+
+/**
+ * Validate a rubric sent by a teacher and give every criterion and level an id.
+ * Levels are ordered best first.
+ */
+export const normalizeRubric = (input: unknown): GradingRubric => {
+  if (!isRecord(input) || !Array.isArray(input.criteria)) {
+    throw new AppError('A rubric needs a list of criteria', 400);
+  }
+
+  if (input.criteria.length === 0 || input.criteria.length > MAX_CRITERIA) {
+    throw new AppError(`A rubric needs between 1 and ${MAX_CRITERIA} criteria`, 400);
+  }
+
+  const criteria = input.criteria.map((criterion: unknown, index: number): RubricCriterion => {
+    const position = index + 1;
+    if (!isRecord(criterion)) {
+      throw new AppError(`Criterion ${position} is invalid`, 400);
+    }
+
+    const title = requireText(criterion.title, `Criterion ${position} title is required`, 255);
+
+    if (!Array.isArray(criterion.levels) || criterion.levels.length === 0 || criterion.levels.length > MAX_LEVELS) {
+      throw new AppError(`Criterion "${title}" needs between 1 and ${MAX_LEVELS} levels`, 400);
+    }
+
+    const levels = criterion.levels.map((level: unknown, levelIndex: number) => {
+      if (!isRecord(level)) {
+        throw new AppError(`Level ${levelIndex + 1} of "${title}" is invalid`, 400);
+      }
+
+      // Whole points, like the assignment's max_points
+      const points = Number(level.points);
+      if (!Number.isInteger(points) || points < 0) {
+        throw new AppError(`Every level of "${title}" needs a whole number of points, zero or more`, 400);
+      }
+
+      return {
+        id: typeof level.id === 'string' && level.id ? level.id : uuidv4(),
+        title: requireText(level.title, `Level ${levelIndex + 1} of "${title}" needs a title`, 100),
+        points,
+        descriptor: typeof level.descriptor === 'string' ? level.descriptor.trim() : ''
+      };
+    });
+
+    return {
+      id: typeof criterion.id === 'string' && criterion.id ? criterion.id : uuidv4(),
+      title,
+      description: typeof criterion.description === 'string' && criterion.description.trim()
+        ? criterion.description.trim()
+        : undefined,
+      levels: levels.sort((a, b) => b.points - a.points)
+    };
+  });
+
+  return { criteria };
+};
+
+/**
+ * The most a submission can score: the best level of every criterion
+ */
+export const rubricMaxPoints = (rubric: GradingRubric): number =>
+  rubric.criteria.reduce((sum, criterion) => sum + Math.max(...criterion.levels.map((level) => level.points)), 0);
+
+/**
+ * Read a JSON column, which MariaDB hands back as a string
+ */
+export const parseJsonColumn = <T>(value: unknown): T | null => {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  return (typeof value === 'string' ? JSON.parse(value) : value) as T;
+};
+
+/**
+ * Score a submission against a rubric: one level per criterion, with the total computed from the levels' points
+ */
+export const scoreRubric = (
+  rubric: GradingRubric,
+  input: { criterionId: string; levelId: string; comment?: string }[]
+): { scores: RubricCriterionScore[]; total: number } => {
+  const scores = rubric.criteria.map((criterion): RubricCriterionScore => {
+    const picked = input.filter((score) => score.criterionId === criterion.id);
+    if (picked.length !== 1) {
+      throw new AppError(`Pick exactly one level for "${criterion.title}"`, 400);
+    }
+
+    const level = criterion.levels.find((candidate) => candidate.id === picked[0].levelId);
+    if (!level) {
+      throw new AppError(`Unknown level for "${criterion.title}"`, 400);
+    }
+
+    return {
+      criterionId: criterion.id,
+      levelId: level.id,
+      points: level.points,
+      comment: picked[0].comment?.trim() || undefined
+    };
+  });
+
+  const unknown = input.find((score) => !rubric.criteria.some((criterion) => criterion.id === score.criterionId));
+  if (unknown) {
+    throw new AppError('The scores include a criterion that is not in the rubric', 400);
+  }
+
+  return {
+    scores,
+    total: scores.reduce((sum, score) => sum + score.points, 0)
+  };
+};
+
+export default {
+  normalizeRubric,
+  rubricMaxPoints,
+  parseJsonColumn,
+  scoreRubric
+};
@@ -0,0 +1,196 @@
+import crypto from 'crypto';
+import moment from 'moment';
+import config from '../config';
+import logger from '../utils/logger';
+import {
+  GatewayPaymentRequest,
+  GatewayQueryRequest,
+  GatewayQueryResult,
+  GatewayRefundRequest,
+  GatewayRefundResult,
+  GatewayRequest,
+  GatewayResponse,
+  GatewayTransactionResult,
+  PaymentGateway,
+  PaymentMethodOption,
+  WebhookOutcome,
+  WebhookVerification
+} from './paymentGateway';
+
+interface SandboxTransaction {
+  amount: number;
+  // Outcome chosen at checkout, applied when the buyer follows the payment URL
+  responseCode: string;
+  transactionId: string;
+  status: 'pending' | 'paid' | 'failed';
+  refunded: number;
+}
+
+// The method picked at checkout decides the outcome, like test card numbers
+const OUTCOMES: Record<string, { code: string; name: string }> = {
+  SUCCESS: { code: '00', name: 'Approve payment' },
+  DECLINED: { code: '51', name: 'Declined: insufficient balance' },
+  CANCELLED: { code: '24', name: 'Cancelled by the buyer' }
+};
+
+const MESSAGES: Record<string, string> = {
+  '00': 'Sandbox payment approved',
+  '51': 'Sandbox payment declined',
+  '24': 'Sandbox payment cancelled'
+};
+
+/**
+ * Offline gateway for development and tests: no network and no hosted page. The payment URL is
+ * the frontend return URL carrying a signed result; the outcome is picked with the method code.
+ * Transactions live in memory, so queries after a restart report them as not found.
+ */
+export class SandboxGateway implements PaymentGateway {
+  id = 'sandbox';
+  name = 'Sandbox';
+  description = 'Offline test payments, never charged';
+  private secret: string;
+  private transactions = new Map<string, SandboxTransaction>();
+  private sequence = 0;
+
+  constructor(secret: string) {
+    this.secret = secret;
+  }
+
+  async createPaymentUrl(request: GatewayPaymentRequest): Promise<string> {
+    const outcome = OUTCOMES[request.bankCode ?? ''] ?? OUTCOMES.SUCCESS;
+    const transaction: SandboxTransaction = {
+      amount: Math.round(request.amount),
+      responseCode: outcome.code,
+      transactionId: `SBX${moment().format('YYMMDDHHmmss')}${++this.sequence}`,
+      status: 'pending',
+      refunded: 0
+    };
+    this.transactions.set(request.txnRef, transaction);
+
+    const params = new URLSearchParams({
+      txnRef: request.txnRef,
+      amount: String(transaction.amount),
+      responseCode: transaction.responseCode,
+      transactionId: transaction.transactionId
+    });
+    params.set('signature', this.sign(params));
+
+    logger.info('Sandbox payment created', { txnRef: request.txnRef, amount: transaction.amount, responseCode: outcome.code });
+
+    return `${config.clientUrl}/payment/return/sandbox?${params.toString()}`;
+  }
+
+  async verifyReturn(request: GatewayRequest): Promise<GatewayTransactionResult | null> {
+    return this.verifyResult(request.query);
+  }
+
+  async verifyWebhook(request: GatewayRequest): Promise<WebhookVerification> {
+    const transaction = this.verifyResult({ ...request.query, ...(request.body ?? {}) });
+    return transaction ? { valid: true, transaction } : { valid: false };
+  }
+
+  webhookResponse(outcome: WebhookOutcome): GatewayResponse {
+    return { status: outcome === 'invalid_signature' ? 400 : 200, body: { outcome } };
+  }
+
+  async queryTransaction(request: GatewayQueryRequest): Promise<GatewayQueryResult> {
+    const transaction = this.transactions.get(request.txnRef);
+
+    if (!transaction) {
+      return { state: 'not_found', transaction: null, responseCode: null, message: 'Unknown sandbox transaction' };
+    }
+
+    if (transaction.status === 'pending') {
+      return { state: 'pending', transaction: null, responseCode: null, message: 'The buyer never opened the payment URL' };
+    }
+
+    return {
+      state: transaction.status,
+      transaction: this.toResult(request.txnRef, transaction),
+      responseCode: transaction.responseCode,
+      message: MESSAGES[transaction.responseCode]
+    };
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    const transaction = this.transactions.get(request.txnRef);
+    const refundable = transaction && transaction.status === 'paid' ? transaction.amount - transaction.refunded : 0;
+
+    if (!transaction || request.amount <= 0 || request.amount > refundable) {
+      return {
+        succeeded: false,
+        responseCode: '93',
+        message: transaction ? 'Invalid refund amount' : 'Unknown sandbox transaction',
+        refundTransactionId: null,
+        raw: { txnRef: request.txnRef, amount: request.amount, refundable }
+      };
+    }
+
+    transaction.refunded += request.amount;
+    const refundTransactionId = `SBXR${moment().format('YYMMDDHHmmss')}${++this.sequence}`;
+
+    return {
+      succeeded: true,
+      responseCode: '00',
+      message: 'Sandbox refund approved',
+      refundTransactionId,
+      raw: { txnRef: request.txnRef, amount: request.amount, refundTransactionId }
+    };
+  }
+
+  getPaymentMethods(): PaymentMethodOption[] {
+    return Object.entries(OUTCOMES).map(([code, outcome]) => ({ code, name: outcome.name }));
+  }
+
+  private verifyResult(params: Record<string, unknown>): GatewayTransactionResult | null {
+    const { txnRef, amount, responseCode, transactionId, signature } = params;
+
+    if ([txnRef, amount, responseCode, transactionId, signature].some((value) => typeof value !== 'string')) {
+      return null;
+    }
+
+    const expected = this.sign(new URLSearchParams({
+      txnRef: txnRef as string,
+      amount: amount as string,
+      responseCode: responseCode as string,
+      transactionId: transactionId as string
+    }));
+
+    if ((signature as string).length !== expected.length
+      || !crypto.timingSafeEqual(Buffer.from(signature as string), Buffer.from(expected))) {
+      logger.warn('Invalid sandbox payment signature', { txnRef });
+      return null;
+    }
+
+    // Following the payment URL is what "pays" a sandbox transaction
+    const transaction = this.transactions.get(txnRef as string);
+    if (transaction && transaction.status === 'pending') {
+      transaction.status = responseCode === '00' ? 'paid' : 'failed';
+    }
+
+    return this.toResult(txnRef as string, {
+      amount: Number(amount),
+      responseCode: responseCode as string,
+      transactionId: transactionId as string,
+      status: responseCode === '00' ? 'paid' : 'failed',
+      refunded: 0
+    });
+  }
+
+  private toResult(txnRef: string, transaction: SandboxTransaction): GatewayTransactionResult {
+    return {
+      txnRef,
+      amount: transaction.amount,
+      succeeded: transaction.responseCode === '00',
+      responseCode: transaction.responseCode,
+      transactionId: transaction.transactionId,
+      payDate: moment().format('YYYY-MM-DD HH:mm:ss'),
+      message: MESSAGES[transaction.responseCode]
+    };
+  }
+
+  private sign(params: URLSearchParams): string {
+    const data = ['txnRef', 'amount', 'responseCode', 'transactionId'].map((key) => params.get(key)).join('|');
+    return crypto.createHmac('sha256', this.secret).update(data).digest('hex');
+  }
+}
@@ -0,0 +1,152 @@
+import { Server as HttpServer } from 'http';
+import { Server, Socket } from 'socket.io';
+import db from '../db';
+import config from '../config';
+import logger from '../utils/logger';
+import redisService from './redisService';
+import { authenticateToken } from '../middleware/authMiddleware';
+import { UserRole } from '../types';
+
+interface SocketUser {
+  id: string;
+  role: UserRole;
+}
+
+let io: Server | null = null;
+
+const userRoom = (userId: string): string => `user:${userId}`;
+
+const getSocketUser = (socket: Socket): SocketUser => socket.data.user as SocketUser;
+
+/**
+ * Whether the two users have exchanged a message, so typing indicators only reach conversation partners
+ */
+const hasConversation = async (userId: string, otherUserId: string): Promise<boolean> => {
+  const result = await db.query(
+    `SELECT id FROM messages
+     WHERE (sender_id = $1 AND recipient_id = $2) OR (sender_id = $3 AND recipient_id = $4)
+     LIMIT 1`,
+    [userId, otherUserId, otherUserId, userId]
+  );
+  return result.rows.length > 0;
+};
+
+/**
+ * Accept the same JWT as `protect`, sent either in the handshake auth payload
+ * (`io(url, { auth: { token } })`) or as a Bearer Authorization header
+ */
+const authenticateSocket = async (socket: Socket, next: (err?: Error) => void): Promise<void> => {
+  try {
+    const header = socket.handshake.headers.authorization;
+    const token = socket.handshake.auth?.token
+      || (header && header.startsWith('Bearer') ? header.split(' ')[1] : undefined);
+
+    if (!token) {
+      return next(new Error('Authentication required. Please log in.'));
+    }
+
+    socket.data.user = await authenticateToken(token);
+    next();
+  } catch (error) {
+    next(new Error((error as Error).message || 'Authentication failed. Please log in again.'));
+  }
+};
+
+const handleConnection = async (socket: Socket): Promise<void> => {
+  const user = getSocketUser(socket);
+
+  // Every tab of the user joins the same room, so events reach all of them
+  socket.join(userRoom(user.id));
+
+  // Handlers are attached before anything is awaited, so no event (or disconnect) arrives unheard
+  let presenceAdded: Promise<boolean> = Promise.resolve(false);
+
+  // Ask for the online status of a list of users (e.g. conversation partners)
+  socket.on('presence:query', async (userIds: unknown, ack?: (presence: Record<string, boolean>) => void) => {
+    if (!Array.isArray(userIds) || typeof ack !== 'function') return;
+    ack(await redisService.getOnlineUsers(userIds.filter((id) => typeof id === 'string').slice(0, 100)));
+  });
+
+  // Partners already checked on this socket; a conversation is never taken back, so only found ones are kept
+  const partners = new Set<string>();
+
+  const emitTyping = async (payload: { recipientId?: unknown }, isTyping: boolean): Promise<void> => {
+    const recipientId = payload?.recipientId;
+    if (typeof recipientId !== 'string' || !recipientId || recipientId === user.id) return;
+
+    if (!partners.has(recipientId)) {
+      try {
+        if (!(await hasConversation(user.id, recipientId))) return;
+      } catch (error) {
+        logger.error('Socket typing check error:', error);
+        return;
+      }
+      partners.add(recipientId);
+    }
+
+    io?.to(userRoom(recipientId)).emit('typing', { userId: user.id, isTyping });
+  };
+
+  socket.on('typing:start', (payload: { recipientId?: unknown }) => emitTyping(payload, true));
+
+  socket.on('typing:stop', (payload: { recipientId?: unknown }) => emitTyping(payload, false));
+
+  // Keep this socket's presence entry alive while it stays connected
+  const presenceRefresh = setInterval(() => {
+    redisService.addPresence(user.id, socket.id);
+  }, redisService.PRESENCE_REFRESH_SECONDS * 1000);
+
+  socket.on('disconnect', async () => {
+    clearInterval(presenceRefresh);
+
+    // Presence may still be being recorded; only take back what was actually added
+    if (!(await presenceAdded)) return;
+
+    const remaining = await redisService.removePresence(user.id, socket.id);
+    if (remaining === 0) {
+      io?.emit('presence:update', { userId: user.id, online: false });
+    }
+  });
+
+  presenceAdded = redisService.addPresence(user.id, socket.id).then((connections) => {
+    if (connections === 1) {
+      socket.broadcast.emit('presence:update', { userId: user.id, online: true });
+    }
+    return connections > 0;
+  });
+  await presenceAdded;
+};
+
+/**
+ * Attach the Socket.IO server to the HTTP server
+ */
+export const initSocketServer = (httpServer: HttpServer): Server => {
+  io = new Server(httpServer, {
+    cors: {
+      origin: config.corsOrigin,
+      credentials: true
+    }
+  });
+
+  io.use(authenticateSocket);
+  io.on('connection', (socket) => {
+    handleConnection(socket).catch((error) => {
+      logger.error('Socket connection handler error:', error);
+    });
+  });
+
+  logger.info('WebSocket server attached');
+  return io;
+};
+
+/**
+ * Push an event to every connected tab of a user. No-op when the socket server is not running.
+ */
+export const emitToUser = (userId: string, event: string, payload: unknown): void => {
+  io?.to(userRoom(userId)).emit(event, payload);
+};
+
+export default {
+  initSocketServer,
+  emitToUser
+};
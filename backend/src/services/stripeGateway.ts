@@ -0,0 +1,259 @@
+import crypto from 'crypto';
+import moment from 'moment';
+import config from '../config';
+import logger from '../utils/logger';
+import {
+  GatewayPaymentRequest,
+  GatewayQueryRequest,
+  GatewayQueryResult,
+  GatewayRefundRequest,
+  GatewayRefundResult,
+  GatewayRequest,
+  GatewayResponse,
+  GatewayTransactionResult,
+  PaymentGateway,
+  PaymentMethodOption,
+  WebhookOutcome,
+  WebhookVerification
+} from './paymentGateway';
+
+export interface StripeOptions {
+  secretKey: string;
+  webhookSecret: string;
+  apiUrl: string;
+  returnUrl: string;
+}
+
+// Stripe rejects webhook signatures older than this
+const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// Checkout Sessions must stay open for at least 30 minutes
+const MIN_SESSION_MINUTES = 30;
+
+const formatTimestamp = (seconds?: number): string | null =>
+  seconds ? moment.unix(seconds).format('YYYY-MM-DD HH:mm:ss') : null;
+
+/**
+ * Stripe Checkout: a hosted Checkout Session per payment, confirmed by retrieving the session on return
+ * and by signed `checkout.session.*` webhook events. Talks to the REST API directly (form-encoded).
+ * VND is a zero-decimal currency for Stripe, so amounts are sent as they are.
+ */
+export class StripeGateway implements PaymentGateway {
+  id = 'stripe';
+  name = 'Stripe';
+  description = 'International credit and debit cards';
+  private options: StripeOptions;
+
+  constructor(options: StripeOptions) {
+    this.options = options;
+  }
+
+  async createPaymentUrl(request: GatewayPaymentRequest): Promise<string> {
+    const expiresAt = moment().add(Math.max(config.payment.expiryMinutes, MIN_SESSION_MINUTES), 'minutes').unix();
+
+    const session = await this.request('POST', '/checkout/sessions', {
+      mode: 'payment',
+      client_reference_id: request.txnRef,
+      success_url: `${this.options.returnUrl}?session_id={CHECKOUT_SESSION_ID}`,
+      cancel_url: `${this.options.returnUrl}?session_id={CHECKOUT_SESSION_ID}&cancelled=true`,
+      'payment_method_types[0]': 'card',
+      'line_items[0][quantity]': 1,
+      'line_items[0][price_data][currency]': config.payment.currency.toLowerCase(),
+      'line_items[0][price_data][unit_amount]': Math.round(request.amount),
+      'line_items[0][price_data][product_data][name]': request.description,
+      'metadata[txn_ref]': request.txnRef,
+      // Lets the reconciliation job find the payment by our reference
+      'payment_intent_data[metadata][txn_ref]': request.txnRef,
+      expires_at: expiresAt
+    });
+
+    if (session.error || !session.url) {
+      logger.error('Stripe create session failed', { txnRef: request.txnRef, error: session.error?.message });
+      throw new Error(`Stripe could not create the checkout session: ${session.error?.message || 'no URL returned'}`);
+    }
+
+    logger.info('Stripe checkout session created', { txnRef: request.txnRef, sessionId: session.id, amount: request.amount });
+
+    return session.url;
+  }
+
+  async verifyReturn(request: GatewayRequest): Promise<GatewayTransactionResult | null> {
+    const sessionId = request.query.session_id;
+
+    if (typeof sessionId !== 'string' || !/^cs_[A-Za-z0-9_]+$/.test(sessionId)) {
+      return null;
+    }
+
+    // The redirect is unsigned; the session fetched with our secret key is the proof
+    const session = await this.request('GET', `/checkout/sessions/${sessionId}`);
+
+    if (session.error || !session.client_reference_id) {
+      return null;
+    }
+
+    // Expire a session the buyer walked away from, so it cannot be paid after we mark it failed
+    if (request.query.cancelled === 'true' && session.status === 'open') {
+      const expired = await this.request('POST', `/checkout/sessions/${sessionId}/expire`);
+      // Paid in the meantime: the session can no longer be expired
+      if (!expired.error) {
+        return this.sessionResult(expired);
+      }
+      return this.sessionResult(await this.request('GET', `/checkout/sessions/${sessionId}`));
+    }
+
+    return this.sessionResult(session);
+  }
+
+  async verifyWebhook(request: GatewayRequest): Promise<WebhookVerification> {
+    const header = request.headers['stripe-signature'];
+
+    if (typeof header !== 'string' || !request.rawBody || !this.verifySignature(header, request.rawBody)) {
+      logger.warn('Invalid Stripe webhook signature');
+      return { valid: false };
+    }
+
+    const event = JSON.parse(request.rawBody.toString('utf8'));
+
+    switch (event.type) {
+      case 'checkout.session.completed':
+      case 'checkout.session.async_payment_succeeded':
+      case 'checkout.session.async_payment_failed':
+      case 'checkout.session.expired':
+        return { valid: true, transaction: this.sessionResult(event.data.object) };
+      default:
+        return { valid: true, transaction: null };
+    }
+  }
+
+  webhookResponse(outcome: WebhookOutcome): GatewayResponse {
+    // Stripe retries any non-2xx answer for days, so only ask for a retry when it can help
+    switch (outcome) {
+      case 'invalid_signature':
+        return { status: 400, body: { error: 'Invalid signature' } };
+      case 'error':
+        return { status: 500, body: { error: 'Unknown error' } };
+      default:
+        return { status: 200, body: { received: true, outcome } };
+    }
+  }
+
+  async queryTransaction(request: GatewayQueryRequest): Promise<GatewayQueryResult> {
+    const result = await this.request(
+      'GET',
+      `/payment_intents/search?query=${encodeURIComponent(`metadata['txn_ref']:'${request.txnRef}'`)}`
+    );
+
+    if (result.error) {
+      return { state: 'error', transaction: null, responseCode: result.error.code ?? null, message: result.error.message ?? null };
+    }
+
+    const intents: Array<Record<string, any>> = result.data ?? [];
+    const intent = intents.find((item) => item.status === 'succeeded')
+      ?? intents.find((item) => item.status === 'processing')
+      ?? intents[0];
+
+    // No PaymentIntent: the buyer never submitted a card
+    if (!intent) {
+      return { state: 'not_found', transaction: null, responseCode: null, message: null };
+    }
+
+    const state: GatewayQueryResult['state'] = intent.status === 'succeeded'
+      ? 'paid'
+      : intent.status === 'canceled' ? 'failed' : 'pending';
+
+    return {
+      state,
+      transaction: {
+        txnRef: request.txnRef,
+        amount: Number(intent.amount_received || intent.amount),
+        succeeded: state === 'paid',
+        responseCode: String(intent.status).slice(0, 10),
+        transactionId: intent.id,
+        payDate: formatTimestamp(intent.created)
+      },
+      responseCode: intent.status,
+      message: intent.last_payment_error?.message ?? null
+    };
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    const response = await this.request('POST', '/refunds', {
+      payment_intent: request.transactionId,
+      amount: Math.round(request.amount),
+      'metadata[txn_ref]': request.txnRef,
+      'metadata[requested_by]': request.requestedBy
+    });
+
+    logger.info('Stripe refund result', { txnRef: request.txnRef, status: response.status, error: response.error?.code });
+
+    if (response.error) {
+      return {
+        succeeded: false,
+        responseCode: response.error.code ?? null,
+        message: response.error.message ?? null,
+        refundTransactionId: null,
+        raw: response
+      };
+    }
+
+    return {
+      // pending: accepted, the money is on its way back
+      succeeded: response.status === 'succeeded' || response.status === 'pending',
+      responseCode: response.status ?? null,
+      message: response.failure_reason ?? null,
+      refundTransactionId: response.id ?? null,
+      raw: response
+    };
+  }
+
+  getPaymentMethods(): PaymentMethodOption[] {
+    return [{ code: 'card', name: 'Credit or debit card' }];
+  }
+
+  private sessionResult(session: Record<string, any>): GatewayTransactionResult {
+    const paid = session.payment_status === 'paid';
+
+    return {
+      txnRef: session.client_reference_id,
+      amount: Number(session.amount_total),
+      succeeded: paid,
+      responseCode: paid ? 'paid' : session.status === 'expired' ? 'expired' : 'unpaid',
+      transactionId: typeof session.payment_intent === 'string' ? session.payment_intent : session.payment_intent?.id ?? null,
+      payDate: paid ? moment().format('YYYY-MM-DD HH:mm:ss') : null,
+      message: paid ? 'Payment succeeded' : 'Payment was not completed'
+    };
+  }
+
+  private verifySignature(header: string, rawBody: Buffer): boolean {
+    const parts = header.split(',').map((part) => part.split('='));
+    const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+    const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+    if (!timestamp || Math.abs(moment().unix() - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+      return false;
+    }
+
+    const expected = Buffer.from(
+      crypto.createHmac('sha256', this.options.webhookSecret).update(`${timestamp}.${rawBody.toString('utf8')}`).digest('hex')
+    );
+
+    return signatures.some((signature) =>
+      signature.length === expected.length && crypto.timingSafeEqual(Buffer.from(signature), expected)
+    );
+  }
+
+  private async request(method: 'GET' | 'POST', path: string, params?: Record<string, string | number>): Promise<Record<string, any>> {
+    const response = await fetch(`${this.options.apiUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${this.options.secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded'
+      },
+      body: params
+        ? new URLSearchParams(Object.entries(params).map(([key, value]): [string, string] => [key, String(value)])).toString()
+        : undefined
+    });
+
+    return await response.json() as Record<string, any>;
+  }
+}
@@ -0,0 +1,129 @@
+import { v4 as uuidv4 } from 'uuid';
+import db from '../db';
+import totpService from './totpService';
+import { UserRole } from '../types';
+
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Whether an admin has made 2FA mandatory for the given role
+ */
+export const isRequiredForRole = async (role: UserRole): Promise<boolean> => {
+  const result = await db.query('SELECT is_required FROM two_factor_policies WHERE role = $1', [role]);
+  return result.rows.length > 0 && Boolean(result.rows[0].is_required);
+};
+
+/**
+ * Get the 2FA requirement for every role
+ */
+export const getPolicies = async (): Promise<Record<UserRole, boolean>> => {
+  const policies: Record<UserRole, boolean> = { student: false, teacher: false, admin: false };
+  const result = await db.query('SELECT role, is_required FROM two_factor_policies');
+
+  for (const row of result.rows) {
+    policies[row.role as UserRole] = Boolean(row.is_required);
+  }
+
+  return policies;
+};
+
+/**
+ * Require (or stop requiring) 2FA for a role
+ */
+export const setPolicy = async (role: UserRole, isRequired: boolean, updatedBy: string): Promise<void> => {
+  await db.query(
+    `INSERT INTO two_factor_policies (role, is_required, updated_by) VALUES ($1, $2, $3)
+     ON DUPLICATE KEY UPDATE is_required = VALUES(is_required), updated_by = VALUES(updated_by), updated_at = NOW()`,
+    [role, isRequired, updatedBy]
+  );
+};
+
+/**
+ * Replace all recovery codes of a user and return the new plain-text codes.
+ * The codes are only stored hashed, so this is the only time they can be shown.
+ */
+export const replaceRecoveryCodes = async (userId: string): Promise<string[]> => {
+  const codes = totpService.generateRecoveryCodes(RECOVERY_CODE_COUNT);
+
+  await db.transaction(async (connection) => {
+    await connection.query('DELETE FROM user_recovery_codes WHERE user_id = ?', [userId]);
+    for (const code of codes) {
+      await connection.query(
+        'INSERT INTO user_recovery_codes (id, user_id, code_hash) VALUES (?, ?, ?)',
+        [uuidv4(), userId, totpService.hashRecoveryCode(code)]
+      );
+    }
+  });
+
+  return codes;
+};
+
+export const deleteRecoveryCodes = async (userId: string): Promise<void> => {
+  await db.query('DELETE FROM user_recovery_codes WHERE user_id = $1', [userId]);
+};
+
+export const countRemainingRecoveryCodes = async (userId: string): Promise<number> => {
+  const result = await db.query(
+    'SELECT COUNT(*) as remaining FROM user_recovery_codes WHERE user_id = $1 AND used_at IS NULL',
+    [userId]
+  );
+  return parseInt(result.rows[0].remaining, 10);
+};
+
+/**
+ * Mark an unused recovery code as used. Returns false if the code does not match or was used meanwhile.
+ */
+export const consumeRecoveryCode = async (userId: string, code: string): Promise<boolean> => {
+  const result = await db.query(
+    'UPDATE user_recovery_codes SET used_at = NOW() WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL',
+    [userId, totpService.hashRecoveryCode(code.trim())]
+  );
+  return result.rowCount > 0;
+};
+
+const hasRecoveryCode = async (userId: string, code: string): Promise<boolean> => {
+  const result = await db.query(
+    'SELECT id FROM user_recovery_codes WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL',
+    [userId, totpService.hashRecoveryCode(code)]
+  );
+  return result.rows.length > 0;
+};
+
+/**
+ * Verify either a current TOTP code or one of the user's recovery codes
+ * @param options.consume - Mark a matching recovery code as used (default). Without it the caller
+ * consumes the code with `consumeRecoveryCode` once the rest of its checks passed.
+ */
+export const verifyUserCode = async (
+  userId: string,
+  secret: string,
+  code: string,
+  options: { consume?: boolean } = {}
+): Promise<{ valid: boolean; usedRecoveryCode: boolean }> => {
+  const trimmed = code.trim();
+
+  if (totpService.verifyCode(secret, trimmed)) {
+    return { valid: true, usedRecoveryCode: false };
+  }
+
+  const matched = options.consume === false
+    ? await hasRecoveryCode(userId, trimmed)
+    : await consumeRecoveryCode(userId, trimmed);
+
+  if (matched) {
+    return { valid: true, usedRecoveryCode: true };
+  }
+
+  return { valid: false, usedRecoveryCode: false };
+};
+
+export default {
+  isRequiredForRole,
+  getPolicies,
+  setPolicy,
+  replaceRecoveryCodes,
+  deleteRecoveryCodes,
+  countRemainingRecoveryCodes,
+  consumeRecoveryCode,
+  verifyUserCode
+};
@@ -0,0 +1,148 @@
+import moment from 'moment';
+import config from '../config';
+import vnpayService, { VNPayReturnData } from './vnpayService';
+import {
+  GatewayPaymentRequest,
+  GatewayQueryRequest,
+  GatewayQueryResult,
+  GatewayRefundRequest,
+  GatewayRefundResult,
+  GatewayRequest,
+  GatewayResponse,
+  GatewayTransactionResult,
+  PaymentGateway,
+  PaymentMethodOption,
+  WebhookOutcome,
+  WebhookVerification
+} from './paymentGateway';
+
+// RspCode answers VNPay expects from the IPN endpoint
+const IPN_RESPONSES: Record<WebhookOutcome, { RspCode: string; Message: string }> = {
+  settled: { RspCode: '00', Message: 'Confirm Success' },
+  ignored: { RspCode: '00', Message: 'Confirm Success' },
+  already_settled: { RspCode: '02', Message: 'Order already confirmed' },
+  not_found: { RspCode: '01', Message: 'Order not found' },
+  amount_mismatch: { RspCode: '04', Message: 'Invalid amount' },
+  invalid_signature: { RspCode: '97', Message: 'Invalid signature' },
+  error: { RspCode: '99', Message: 'Unknown error' }
+};
+
+const formatPayDate = (value?: string): string | null =>
+  value ? moment(value, 'YYYYMMDDHHmmss').format('YYYY-MM-DD HH:mm:ss') : null;
+
+/**
+ * VNPay through the existing VNPayService; return URL and IPN carry the same signed parameters
+ */
+export class VNPayGateway implements PaymentGateway {
+  id = 'vnpay';
+  name = 'VNPay';
+  description = 'QR code, domestic ATM/Internet Banking and international cards';
+
+  async createPaymentUrl(request: GatewayPaymentRequest): Promise<string> {
+    return vnpayService.createPaymentUrl({
+      orderId: request.txnRef,
+      amount: request.amount,
+      orderDescription: request.description,
+      orderType: 'billpayment',
+      ipAddress: request.ipAddress,
+      bankCode: request.bankCode,
+      locale: request.locale || config.payment.locale
+    });
+  }
+
+  async verifyReturn(request: GatewayRequest): Promise<GatewayTransactionResult | null> {
+    // verifyReturnUrl removes the hash fields from what it is given
+    const data = { ...request.query } as unknown as VNPayReturnData;
+
+    if (!vnpayService.verifyReturnUrl(data)) {
+      return null;
+    }
+
+    return {
+      txnRef: data.vnp_TxnRef,
+      amount: parseInt(data.vnp_Amount) / 100, // Convert from VND cents
+      // The bank-side status must be a success too when VNPay sends it
+      succeeded: data.vnp_ResponseCode === '00'
+        && (data.vnp_TransactionStatus === undefined || data.vnp_TransactionStatus === '00'),
+      responseCode: data.vnp_ResponseCode,
+      transactionStatus: data.vnp_TransactionStatus,
+      transactionId: data.vnp_TransactionNo,
+      payDate: formatPayDate(data.vnp_PayDate),
+      message: vnpayService.getResponseCodeMessage(data.vnp_ResponseCode)
+    };
+  }
+
+  async verifyWebhook(request: GatewayRequest): Promise<WebhookVerification> {
+    const transaction = await this.verifyReturn(request);
+    return transaction ? { valid: true, transaction } : { valid: false };
+  }
+
+  webhookResponse(outcome: WebhookOutcome): GatewayResponse {
+    // VNPay reads the RspCode; any non-200 answer makes it retry
+    return { status: 200, body: IPN_RESPONSES[outcome] };
+  }
+
+  async queryTransaction(request: GatewayQueryRequest): Promise<GatewayQueryResult> {
+    const response = await vnpayService.queryPayment({
+      orderId: request.txnRef,
+      transDate: moment(request.createdAt).format('YYYYMMDDHHmmss'),
+      ipAddress: request.ipAddress
+    });
+
+    const responseCode: string | null = response.vnp_ResponseCode ?? null;
+    const message: string | null = response.vnp_Message ?? null;
+
+    // 91: VNPay has no transaction with this reference
+    if (responseCode === '91') {
+      return { state: 'not_found', transaction: null, responseCode, message };
+    }
+
+    if (responseCode !== '00') {
+      return { state: 'error', transaction: null, responseCode, message };
+    }
+
+    const transactionStatus: string = response.vnp_TransactionStatus;
+    const transaction: GatewayTransactionResult = {
+      txnRef: request.txnRef,
+      amount: response.vnp_Amount !== undefined ? Number(response.vnp_Amount) / 100 : request.amount,
+      succeeded: transactionStatus === '00',
+      responseCode,
+      transactionStatus,
+      transactionId: response.vnp_TransactionNo ?? null,
+      payDate: formatPayDate(response.vnp_PayDate),
+      message: message ?? undefined
+    };
+
+    return {
+      // 01: the payment was never completed
+      state: transactionStatus === '00' ? 'paid' : transactionStatus === '01' ? 'pending' : 'failed',
+      transaction,
+      responseCode,
+      message
+    };
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    const response = await vnpayService.processRefund({
+      orderId: request.txnRef,
+      amount: request.amount,
+      transactionNo: request.transactionId,
+      transDate: moment(request.paidAt ?? undefined).format('YYYYMMDDHHmmss'),
+      createBy: request.requestedBy,
+      ipAddress: request.ipAddress,
+      refundType: request.refundType
+    });
+
+    return {
+      succeeded: response.vnp_ResponseCode === '00',
+      responseCode: response.vnp_ResponseCode ?? null,
+      message: response.vnp_Message ?? null,
+      refundTransactionId: response.vnp_TransactionNo ?? null,
+      raw: response
+    };
+  }
+
+  getPaymentMethods(): PaymentMethodOption[] {
+    return vnpayService.getPaymentMethods();
+  }
+}
@@ -57,7 +57,7 @@ class VNPayService {
   createPaymentUrl(paymentData: VNPayPaymentData): string {
     try {
       const createDate = moment().format('YYYYMMDDHHmmss');
-      const expireDate = moment().add(15, 'minutes').format('YYYYMMDDHHmmss');
+      const expireDate = moment().add(config.payment.expiryMinutes, 'minutes').format('YYYYMMDDHHmmss');
 
       const vnpParams: any = {
         vnp_Version: '2.1.0',
@@ -201,6 +201,8 @@ class VNPayService {
     transDate: string;
     createBy: string;
     ipAddress: string;
+    // VNPay distinguishes refunding the whole transaction from refunding part of it
+    refundType?: 'full' | 'partial';
   }): Promise<any> {
     try {
       const requestId = moment().format('YYYYMMDDHHmmss');
@@ -210,7 +212,7 @@ class VNPayService {
         vnp_Version: '2.1.0',
         vnp_Command: 'refund',
         vnp_TmnCode: this.tmnCode,
-        vnp_TransactionType: '02', // Partial refund
+        vnp_TransactionType: refundData.refundType === 'partial' ? '03' : '02', // 02: full refund, 03: partial refund
         vnp_TxnRef: refundData.orderId,
         vnp_Amount: refundData.amount * 100,
         vnp_OrderInfo: `Refund for order ${refundData.orderId}`,
@@ -254,6 +256,20 @@ class VNPayService {
     }
   }
 
+  /**
+   * Sign parameters the way VNPay does (sorted, encoded, HMAC-SHA512 with the hash secret).
+   * Used by the local VNPay stand-in to produce return/IPN data this service accepts.
+   */
+  signParams(params: Record<string, string | number>): { queryString: string; secureHash: string } {
+    const queryString = qs.stringify(this.sortObject(params), { encode: false });
+    const secureHash = crypto
+      .createHmac('sha512', this.hashSecret)
+      .update(queryString)
+      .digest('hex');
+
+    return { queryString, secureHash };
+  }
+
   /**
    * Get payment method list
    */
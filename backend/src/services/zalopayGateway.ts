@@ -0,0 +1,239 @@
+import crypto from 'crypto';
+import moment from 'moment';
+import config from '../config';
+import logger from '../utils/logger';
+import {
+  GatewayPaymentRequest,
+  GatewayQueryRequest,
+  GatewayQueryResult,
+  GatewayRefundRequest,
+  GatewayRefundResult,
+  GatewayRequest,
+  GatewayResponse,
+  GatewayTransactionResult,
+  PaymentGateway,
+  PaymentMethodOption,
+  WebhookOutcome,
+  WebhookVerification
+} from './paymentGateway';
+
+export interface ZaloPayOptions {
+  appId: string;
+  key1: string;
+  key2: string;
+  endpoint: string;
+  returnUrl: string;
+  callbackUrl: string;
+}
+
+// ZaloPay works on Vietnam time and requires app_trans_id to start with the order date
+const vietnamDate = (value?: string | number | Date): string => moment(value).utcOffset(7 * 60).format('YYMMDD');
+
+const toAppTransId = (txnRef: string, createdAt?: string): string => `${vietnamDate(createdAt)}_${txnRef}`;
+
+const toTxnRef = (appTransId: string): string => appTransId.replace(/^\d{6}_/, '');
+
+const CALLBACK_RESPONSES: Record<WebhookOutcome, { return_code: number; return_message: string }> = {
+  settled: { return_code: 1, return_message: 'success' },
+  ignored: { return_code: 1, return_message: 'success' },
+  already_settled: { return_code: 2, return_message: 'already processed' },
+  not_found: { return_code: -1, return_message: 'order not found' },
+  amount_mismatch: { return_code: -1, return_message: 'invalid amount' },
+  invalid_signature: { return_code: -1, return_message: 'mac not equal' },
+  // 0 makes ZaloPay retry the callback
+  error: { return_code: 0, return_message: 'unknown error' }
+};
+
+/**
+ * ZaloPay v2: orders are created with a MAC over key1; the redirect checksum and the callback MAC
+ * use key2. The callback is only sent for successful payments.
+ */
+export class ZaloPayGateway implements PaymentGateway {
+  id = 'zalopay';
+  name = 'ZaloPay';
+  description = 'ZaloPay app, ATM and international cards';
+  private options: ZaloPayOptions;
+
+  constructor(options: ZaloPayOptions) {
+    this.options = options;
+  }
+
+  async createPaymentUrl(request: GatewayPaymentRequest): Promise<string> {
+    const order = {
+      app_id: Number(this.options.appId),
+      app_trans_id: toAppTransId(request.txnRef),
+      app_user: 'e-learning',
+      app_time: Date.now(),
+      amount: Math.round(request.amount),
+      item: '[]',
+      embed_data: JSON.stringify({ redirecturl: this.options.returnUrl }),
+      description: request.description,
+      bank_code: request.bankCode ?? '',
+      callback_url: this.options.callbackUrl,
+      expire_duration_seconds: config.payment.expiryMinutes * 60
+    };
+    const mac = this.hmac(
+      this.options.key1,
+      [order.app_id, order.app_trans_id, order.app_user, order.amount, order.app_time, order.embed_data, order.item].join('|')
+    );
+
+    const response = await this.post('/create', { ...order, mac });
+
+    if (response.return_code !== 1 || !response.order_url) {
+      logger.error('ZaloPay create order failed', { appTransId: order.app_trans_id, returnCode: response.return_code, message: response.return_message });
+      throw new Error(`ZaloPay could not create the order: ${response.return_message || response.return_code}`);
+    }
+
+    logger.info('ZaloPay payment URL created', { appTransId: order.app_trans_id, amount: request.amount });
+
+    return response.order_url;
+  }
+
+  async verifyReturn(request: GatewayRequest): Promise<GatewayTransactionResult | null> {
+    const params = request.query as Record<string, string>;
+    const expected = this.hmac(
+      this.options.key2,
+      [params.appid, params.apptransid, params.pmcid, params.bankcode, params.amount, params.discountamount, params.status].join('|')
+    );
+
+    if (!params.checksum || !this.safeEqual(params.checksum, expected)) {
+      logger.warn('Invalid ZaloPay redirect checksum', { appTransId: params.apptransid });
+      return null;
+    }
+
+    const result: GatewayTransactionResult = {
+      txnRef: toTxnRef(params.apptransid),
+      amount: Number(params.amount),
+      succeeded: params.status === '1',
+      responseCode: params.status
+    };
+
+    // The redirect has no zp_trans_id, which refunds need
+    if (result.succeeded) {
+      const query = await this.query(params.apptransid);
+      result.transactionId = query.zp_trans_id ? String(query.zp_trans_id) : null;
+      result.payDate = query.server_time ? moment(Number(query.server_time)).format('YYYY-MM-DD HH:mm:ss') : null;
+    }
+
+    return result;
+  }
+
+  async verifyWebhook(request: GatewayRequest): Promise<WebhookVerification> {
+    const { data, mac } = request.body ?? {};
+
+    if (typeof data !== 'string' || typeof mac !== 'string' || !this.safeEqual(mac, this.hmac(this.options.key2, data))) {
+      logger.warn('Invalid ZaloPay callback MAC');
+      return { valid: false };
+    }
+
+    const payload = JSON.parse(data);
+
+    return {
+      valid: true,
+      transaction: {
+        txnRef: toTxnRef(payload.app_trans_id),
+        amount: Number(payload.amount),
+        succeeded: true,
+        responseCode: '1',
+        transactionId: String(payload.zp_trans_id),
+        payDate: moment(Number(payload.server_time)).format('YYYY-MM-DD HH:mm:ss')
+      }
+    };
+  }
+
+  webhookResponse(outcome: WebhookOutcome): GatewayResponse {
+    return { status: 200, body: CALLBACK_RESPONSES[outcome] };
+  }
+
+  async queryTransaction(request: GatewayQueryRequest): Promise<GatewayQueryResult> {
+    const response = await this.query(toAppTransId(request.txnRef, request.createdAt));
+    const responseCode = response.return_code !== undefined ? String(response.return_code) : null;
+    const message: string | null = response.return_message ?? null;
+
+    // 1: paid, 2: failed, 3: not paid yet or still processing
+    if (response.return_code === 3) {
+      return { state: 'pending', transaction: null, responseCode, message };
+    }
+
+    if (response.return_code !== 1 && response.return_code !== 2) {
+      return { state: 'error', transaction: null, responseCode, message };
+    }
+
+    return {
+      state: response.return_code === 1 ? 'paid' : 'failed',
+      transaction: {
+        txnRef: request.txnRef,
+        amount: Number(response.amount ?? request.amount),
+        succeeded: response.return_code === 1,
+        responseCode: String(response.return_code),
+        transactionId: response.zp_trans_id ? String(response.zp_trans_id) : null,
+        payDate: response.server_time ? moment(Number(response.server_time)).format('YYYY-MM-DD HH:mm:ss') : null,
+        message: message ?? undefined
+      },
+      responseCode,
+      message
+    };
+  }
+
+  async refund(request: GatewayRefundRequest): Promise<GatewayRefundResult> {
+    const timestamp = Date.now();
+    const description = `Refund for order ${request.txnRef}`;
+    const payload = {
+      m_refund_id: `${vietnamDate()}_${this.options.appId}_${timestamp}`,
+      app_id: Number(this.options.appId),
+      zp_trans_id: request.transactionId,
+      amount: Math.round(request.amount),
+      timestamp,
+      description
+    };
+    const mac = this.hmac(
+      this.options.key1,
+      [payload.app_id, payload.zp_trans_id, payload.amount, payload.description, payload.timestamp].join('|')
+    );
+
+    const response = await this.post('/refund', { ...payload, mac });
+
+    logger.info('ZaloPay refund result', { appTransId: request.txnRef, returnCode: response.return_code });
+
+    return {
+      // 3: accepted and being processed by ZaloPay
+      succeeded: response.return_code === 1 || response.return_code === 3,
+      responseCode: response.return_code !== undefined ? String(response.return_code) : null,
+      message: response.return_message ?? null,
+      refundTransactionId: response.refund_id ? String(response.refund_id) : null,
+      raw: response
+    };
+  }
+
+  getPaymentMethods(): PaymentMethodOption[] {
+    return [
+      { code: 'zalopayapp', name: 'ZaloPay app' },
+      { code: 'CC', name: 'International card' }
+    ];
+  }
+
+  private async query(appTransId: string): Promise<Record<string, any>> {
+    const mac = this.hmac(this.options.key1, [this.options.appId, appTransId, this.options.key1].join('|'));
+    return this.post('/query', { app_id: Number(this.options.appId), app_trans_id: appTransId, mac });
+  }
+
+  private hmac(key: string, data: string): string {
+    return crypto.createHmac('sha256', key).update(data).digest('hex');
+  }
+
+  private safeEqual(given: string, expected: string): boolean {
+    return given.length === expected.length && crypto.timingSafeEqual(Buffer.from(given), Buffer.from(expected));
+  }
+
+  private async post(path: string, payload: Record<string, unknown>): Promise<Record<string, any>> {
+    const response = await fetch(`${this.options.endpoint}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(payload)
+    });
+
+    return await response.json() as Record<string, any>;
+  }
+}
@@ -99,6 +99,11 @@ export interface LectureProgress {
 }
 
 // Assignment related types
+export type GradingPolicy = 'best' | 'last' | 'average';
+export type SubmissionStatus = 'draft' | 'submitted' | 'graded' | 'returned';
+export type CodeLanguage = 'javascript' | 'typescript';
+export type AutoGradeStatus = 'pending' | 'running' | 'completed' | 'failed';
+
 export interface Assignment {
   id: string;
   courseId: string;
@@ -123,6 +128,9 @@ export interface AssignmentSubmission {
 }
 
 // Message related types
+export type MessageType = 'general' | 'assignment' | 'announcement' | 'question' | 'feedback';
+export type MessagePriority = 'low' | 'normal' | 'high' | 'urgent';
+
 export interface Message {
   id: string;
   senderId: string;
@@ -130,19 +138,76 @@ export interface Message {
   courseId?: string;
   subject: string;
   content: string;
+  messageType: MessageType;
+  priority: MessagePriority;
+  parentMessageId?: string;
+  attachments: string[];
+  isRead: boolean;
   createdAt: Date;
   readAt?: Date;
+  senderName?: string;
+  recipientName?: string;
+  courseTitle?: string;
 }
 
 // AI Chat related types
 export interface AIChatHistory {
   id: string;
   userId: string;
+  courseId?: string;
+  sessionId?: string;
   query: string;
   response: string;
+  citations?: ChatCitation[];
+  tokensUsed: number;
+  responseTimeMs: number;
   createdAt: Date;
 }
 
+export interface AIChatSession {
+  id: string;
+  userId: string;
+  courseId?: string;
+  courseTitle?: string;
+  title: string;
+  turnCount: number;
+  lastMessageAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A previous question/answer pair replayed to the model
+export interface ChatTurn {
+  query: string;
+  response: string;
+}
+
+// Retrieval (RAG) related types
+export type ChunkSourceType = 'description' | 'transcript' | 'resource';
+
+export interface LectureChunk {
+  lectureId: string;
+  sourceType: ChunkSourceType;
+  chunkIndex: number;
+  content: string;
+  startSeconds?: number;
+  endSeconds?: number;
+  resourceTitle?: string;
+  resourceUrl?: string;
+}
+
+export interface ChatCitation {
+  index: number;
+  lectureId: string;
+  lectureTitle: string;
+  sourceType: ChunkSourceType;
+  startSeconds?: number;
+  timestamp?: string;
+  resourceTitle?: string;
+  resourceUrl?: string;
+  excerpt: string;
+}
+
 // Review related types
 export interface Review {
   id: string;
@@ -163,13 +228,20 @@ export interface Category {
 }
 
 // Notification related types
+export type NotificationPriority = 'low' | 'normal' | 'high' | 'urgent';
+
 export interface Notification {
   id: string;
   userId: string;
   type: string;
+  title: string;
   message: string;
+  priority: NotificationPriority;
   isRead: boolean;
+  referenceType?: string;
   referenceId?: string;
+  link?: string;
+  readAt?: Date;
   createdAt: Date;
 }
 
@@ -231,6 +303,8 @@ export interface LectureRow extends DatabaseRow {
   order_index: number;
   duration?: number;
   is_published: boolean;
+  transcript?: string | null;
+  resources?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -242,6 +316,14 @@ export interface AssignmentRow extends DatabaseRow {
   description: string;
   due_date?: string;
   max_points: number;
+  allow_late_submission: boolean;
+  late_penalty_percent: number;
+  max_attempts: number | null;
+  grading_policy: GradingPolicy;
+  time_limit_minutes?: number | null;
+  shuffle_questions?: boolean | number;
+  shuffle_options?: boolean | number;
+  code_language?: CodeLanguage;
   created_at: string;
   updated_at: string;
 }
@@ -254,8 +336,34 @@ export interface SubmissionRow extends DatabaseRow {
   submission_text?: string;
   submitted_at: string;
   grade?: number;
+  raw_grade?: number;
   feedback?: string;
   graded_at?: string;
+  returned_at?: string | null;
+  draft_saved_at?: string | null;
+  submission_status: SubmissionStatus;
+  is_late: boolean;
+  attempt_number: number;
+  auto_grade_status?: AutoGradeStatus | null;
+  auto_score?: number | null;
+  test_results?: string | null;
+  auto_graded_at?: string | null;
+}
+
+// Hidden test of a coding assignment: stdin/expected output, or a JS/TS test file run against the submission
+export interface TestCaseRow extends DatabaseRow {
+  id: string;
+  assignment_id: string;
+  name: string;
+  kind: 'io' | 'test_file';
+  stdin: string | null;
+  expected_output: string | null;
+  test_code: string | null;
+  points: number;
+  is_hidden: boolean | number;
+  position: number;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface EnrollmentRow extends DatabaseRow {
@@ -266,6 +374,9 @@ export interface EnrollmentRow extends DatabaseRow {
   enrolled_at: string;
   completed_at?: string;
   last_accessed_at: string;
+  enrollment_type?: 'free' | 'paid' | 'trial';
+  // Set on enrollments downgraded after a refund; access ends at this time
+  expires_at?: string | null;
 }
 
 export interface MessageRow extends DatabaseRow {
@@ -275,10 +386,353 @@ export interface MessageRow extends DatabaseRow {
   course_id?: string;
   subject: string;
   content: string;
+  message_type: MessageType;
+  priority: MessagePriority;
+  parent_message_id?: string | null;
+  attachments?: string | string[] | null;
+  is_read: boolean | number;
+  deleted_by_sender: boolean | number;
+  deleted_by_recipient: boolean | number;
   created_at: string;
   read_at?: string;
 }
 
+export interface AIChatSessionRow extends DatabaseRow {
+  id: string;
+  user_id: string;
+  course_id: string | null;
+  title: string;
+  summary: string | null;
+  summarized_turns: number;
+  course_title?: string | null;
+  turn_count?: number;
+  last_message_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AIChatHistoryRow extends DatabaseRow {
+  id: string;
+  user_id: string;
+  course_id: string | null;
+  session_id: string | null;
+  query: string;
+  response: string;
+  citations: string | ChatCitation[] | null;
+  tokens_used: number;
+  response_time_ms: number;
+  created_at: string;
+}
+
+export interface LectureChunkRow extends DatabaseRow {
+  id: string;
+  course_id: string;
+  lecture_id: string;
+  source_type: ChunkSourceType;
+  chunk_index: number;
+  content: string;
+  start_seconds: number | null;
+  end_seconds: number | null;
+  resource_title: string | null;
+  resource_url: string | null;
+  embedding: string | number[] | null;
+  content_hash: string;
+  lecture_title?: string;
+}
+
+export interface CouponRow extends DatabaseRow {
+  id: string;
+  code: string;
+  name: string;
+  description?: string;
+  discount_type: 'percentage' | 'fixed' | 'bogo' | 'free_shipping';
+  discount_value: number;
+  minimum_amount: number;
+  maximum_discount?: number | null;
+  // bogo: every `buy_quantity` courses bought discount `get_quantity` more by `discount_value` percent
+  buy_quantity?: number | null;
+  get_quantity?: number | null;
+  usage_limit?: number | null;
+  usage_limit_per_user?: number | null;
+  used_count: number;
+  valid_from: string;
+  valid_until: string;
+  is_active: boolean;
+  is_public?: boolean | number;
+  auto_apply?: boolean | number;
+  stackable?: boolean | number;
+  priority?: number;
+  applicable_courses?: string | string[] | null;
+  applicable_categories?: string | string[] | null;
+  excluded_courses?: string | string[] | null;
+  excluded_categories?: string | string[] | null;
+  eligible_user_ids?: string | string[] | null;
+  first_purchase_only?: boolean | number;
+  campaign_id?: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string | null;
+}
+
+// A batch of single-use coupon codes generated together
+export interface CouponCampaignRow extends DatabaseRow {
+  id: string;
+  name: string;
+  description?: string | null;
+  code_prefix: string;
+  code_length: number;
+  alphabet: string;
+  code_count: number;
+  is_active: boolean | number;
+  deactivated_at?: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Question bank entry of a course; options is a JSON array of strings
+export interface QuizQuestionRow extends DatabaseRow {
+  id: string;
+  course_id: string;
+  question: string;
+  options: string | string[];
+  correct_option_index: number;
+  explanation?: string | null;
+  source: 'manual' | 'ai';
+  source_lecture_id?: string | null;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// A bank question attached to an assignment or to a quiz lecture
+export interface QuizItemRow extends DatabaseRow {
+  id: string;
+  question_id: string;
+  assignment_id?: string | null;
+  lecture_id?: string | null;
+  points: number;
+  position: number;
+  created_at: string;
+}
+
+export type QuizAttemptStatus = 'in_progress' | 'submitted' | 'expired';
+
+export interface QuizAttemptRow extends DatabaseRow {
+  id: string;
+  user_id: string;
+  assignment_id?: string | null;
+  lecture_id?: string | null;
+  submission_id?: string | null;
+  layout: string;
+  status: QuizAttemptStatus;
+  score?: number | null;
+  max_score: number;
+  started_at: string;
+  expires_at?: string | null;
+  submitted_at?: string | null;
+}
+
+export interface QuizAnswerRow extends DatabaseRow {
+  id: string;
+  attempt_id: string;
+  item_id: string;
+  question_id: string;
+  selected_option_index: number | null;
+  is_correct?: boolean | number | null;
+  points_awarded?: number | null;
+  answered_at?: string | null;
+}
+
+export interface PaymentRow extends DatabaseRow {
+  id: string;
+  user_id: string;
+  course_id: string;
+  order_id: string;
+  amount: number;
+  original_amount?: number | null;
+  discount_amount?: number;
+  coupon_id?: string | null;
+  currency: string;
+  payment_method: string;
+  payment_status: string;
+  transaction_id?: string;
+  payment_date?: string;
+  refunded_amount?: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RefundRow extends DatabaseRow {
+  id: string;
+  payment_id: string | null;
+  order_id: string | null;
+  course_ids: string | string[] | null;
+  amount: number;
+  refund_type: 'full' | 'partial';
+  enrollment_action: 'revoke' | 'downgrade' | 'keep';
+  reason: string | null;
+  status: 'pending' | 'completed' | 'failed';
+  gateway_response_code: string | null;
+  gateway_message: string | null;
+  gateway_transaction_no: string | null;
+  gateway_response: string | Record<string, unknown> | null;
+  requested_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReconciliationReportRow extends DatabaseRow {
+  id: string;
+  trigger_type: 'scheduled' | 'manual';
+  triggered_by: string | null;
+  started_at: string;
+  finished_at: string | null;
+  checked_count: number;
+  completed_count: number;
+  failed_count: number;
+  cancelled_count: number;
+  unchanged_count: number;
+  error_count: number;
+  entries: string | ReconciliationEntry[] | null;
+  created_at: string;
+}
+
+export interface ReconciliationEntry {
+  type: 'payment' | 'order';
+  id: string;
+  txnRef: string;
+  gateway: string;
+  userId: string;
+  amount: number;
+  createdAt: string;
+  previousStatus: string;
+  newStatus: string;
+  outcome: 'completed' | 'failed' | 'cancelled' | 'unchanged' | 'error';
+  responseCode: string | null;
+  transactionStatus: string | null;
+  message: string | null;
+}
+
+export interface BillingProfileRow extends DatabaseRow {
+  user_id: string;
+  company_name: string | null;
+  tax_code: string | null;
+  address: string | null;
+  invoice_email: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// One line of an invoice; amounts include VAT
+export interface InvoiceLine {
+  courseId: string;
+  description: string;
+  price: number;
+  discountAmount: number;
+  amount: number;
+}
+
+export interface InvoiceRow extends DatabaseRow {
+  id: string;
+  invoice_number: string;
+  payment_id: string | null;
+  order_id: string | null;
+  user_id: string;
+  buyer_name: string;
+  buyer_email: string;
+  buyer_company: string | null;
+  buyer_tax_code: string | null;
+  buyer_address: string | null;
+  items: string | InvoiceLine[];
+  coupon_code: string | null;
+  subtotal: number;
+  discount_amount: number;
+  taxable_amount: number;
+  vat_rate: number;
+  vat_amount: number;
+  total_amount: number;
+  currency: string;
+  file_path: string | null;
+  issued_at: string;
+  created_at: string;
+}
+
+// Ledger entry of a teacher's share of a sale, or its reversal by a refund (negative amounts)
+export interface TeacherEarningRow extends DatabaseRow {
+  id: string;
+  teacher_id: string;
+  course_id: string;
+  entry_type: 'sale' | 'refund';
+  reference_id: string;
+  payment_id: string | null;
+  order_id: string | null;
+  gross_amount: number;
+  commission_rate: number;
+  commission_amount: number;
+  net_amount: number;
+  currency: string;
+  created_at: string;
+}
+
+export interface TeacherPayoutRow extends DatabaseRow {
+  id: string;
+  teacher_id: string;
+  period: string;
+  amount: number;
+  currency: string;
+  reference: string | null;
+  note: string | null;
+  paid_by: string | null;
+  paid_at: string;
+}
+
+export interface CartItemRow extends DatabaseRow {
+  id: string;
+  user_id: string;
+  course_id: string;
+  added_at: string;
+  course_title?: string;
+  course_thumbnail?: string | null;
+  price?: number;
+  status?: string;
+  category?: string | null;
+  category_id?: string | null;
+}
+
+export interface OrderRow extends DatabaseRow {
+  id: string;
+  user_id: string;
+  order_code: string;
+  subtotal: number;
+  discount_amount: number;
+  total_amount: number;
+  coupon_id: string | null;
+  currency: string;
+  payment_method: string;
+  status: 'pending' | 'completed' | 'failed' | 'cancelled' | 'refunded' | 'completed_enrollment_failed';
+  transaction_id: string | null;
+  payment_date: string | null;
+  vnpay_response_code: string | null;
+  refunded_amount: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OrderItemRow extends DatabaseRow {
+  id: string;
+  order_id: string;
+  course_id: string;
+  price: number;
+  discount_amount: number;
+  amount: number;
+  enrolled: boolean | number;
+  created_at: string;
+  course_title?: string;
+  course_thumbnail?: string | null;
+}
+
 export interface CategoryRow extends DatabaseRow {
   id: string;
   name: string;
@@ -20,10 +20,89 @@ export interface AssignmentModel {
   description: string;
   due_date?: string;
   max_points: number;
+  grading_rubric?: GradingRubric | null;
   created_at: string;
   updated_at: string;
 }
 
+// Stored as JSON in assignments.grading_rubric
+export interface RubricLevel {
+  id: string;
+  title: string;
+  points: number;
+  descriptor: string;
+}
+
+export interface RubricCriterion {
+  id: string;
+  title: string;
+  description?: string;
+  // Best level first
+  levels: RubricLevel[];
+}
+
+export interface GradingRubric {
+  criteria: RubricCriterion[];
+}
+
+// Stored as JSON in assignment_submissions.rubric_scores, one entry per criterion
+export interface RubricCriterionScore {
+  criterionId: string;
+  levelId: string;
+  points: number;
+  comment?: string;
+}
+
+// Stored as JSON in quiz_attempts.layout: the order the student sees, fixed when the attempt starts
+export interface QuizLayoutEntry {
+  itemId: string;
+  questionId: string;
+  // Original option indexes in display order
+  optionOrder: number[];
+}
+
+// A test case as teachers edit it; stdin/expectedOutput for io tests, testCode for test_file tests
+export interface CodeTestCase {
+  id?: string;
+  name: string;
+  kind: 'io' | 'test_file';
+  stdin: string | null;
+  expectedOutput: string | null;
+  testCode: string | null;
+  points: number;
+  isHidden: boolean;
+}
+
+// Outcome of one test case in the sandbox
+export type TestOutcome = 'passed' | 'failed' | 'error' | 'timeout' | 'memory_limit' | 'output_limit';
+
+export interface TestCaseResult {
+  testCaseId: string;
+  name: string;
+  kind: 'io' | 'test_file';
+  isHidden: boolean;
+  outcome: TestOutcome;
+  points: number;
+  pointsAwarded: number;
+  durationMs: number;
+  // stderr, assertion or runtime error; withheld from students on hidden tests
+  message?: string;
+  // io tests: what the submission printed
+  actualOutput?: string;
+  // test_file tests: every test() in the file
+  checks?: { name: string; passed: boolean; message?: string }[];
+}
+
+// Stored as JSON in assignment_submissions.test_results
+export interface CodeGradingReport {
+  language: 'javascript' | 'typescript';
+  // The submission did not compile, so no test ran
+  compileError: string | null;
+  score: number;
+  maxScore: number;
+  tests: TestCaseResult[];
+}
+
 export interface UserModel {
   id: string;
   email: string;
@@ -35,4 +114,19 @@ export interface UserModel {
   bio?: string;
   created_at: string;
   updated_at: string;
-}
\ No newline at end of file
+}
+
+export interface NotificationModel {
+  id: string;
+  user_id: string;
+  type: string;
+  title: string;
+  message: string;
+  priority: 'low' | 'normal' | 'high' | 'urgent';
+  reference_type?: string | null;
+  reference_id?: string | null;
+  link?: string | null;
+  is_read: boolean;
+  read_at?: string | null;
+  created_at: string;
+}
@@ -36,11 +36,29 @@ CREATE TABLE `ai_chat_history` (
   `session_id` varchar(36) DEFAULT NULL,
   `tokens_used` int(11) DEFAULT 0,
   `response_time_ms` int(11) DEFAULT 0,
+  `citations` longtext CHARACTER SET utf8mb4 COLLATE utf8mb4_bin DEFAULT NULL CHECK (json_valid(`citations`)),
   `created_at` timestamp NOT NULL DEFAULT current_timestamp()
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
 
 -- --------------------------------------------------------
 
+--
+-- Cấu trúc bảng cho bảng `ai_chat_sessions`
+--
+
+CREATE TABLE `ai_chat_sessions` (
+  `id` varchar(36) NOT NULL DEFAULT uuid(),
+  `user_id` varchar(36) NOT NULL,
+  `course_id` varchar(36) DEFAULT NULL,
+  `title` varchar(255) NOT NULL DEFAULT 'New chat',
+  `summary` text DEFAULT NULL,
+  `summarized_turns` int(11) NOT NULL DEFAULT 0,
+  `created_at` timestamp NOT NULL DEFAULT current_timestamp(),
+  `updated_at` timestamp NOT NULL DEFAULT current_timestamp() ON UPDATE current_timestamp()
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- --------------------------------------------------------
+
 --
 -- Cấu trúc bảng cho bảng `assignments`
 --
@@ -57,6 +75,12 @@ CREATE TABLE `assignments` (
   `grading_rubric` longtext CHARACTER SET utf8mb4 COLLATE utf8mb4_bin DEFAULT NULL CHECK (json_valid(`grading_rubric`)),
   `allow_late_submission` tinyint(1) DEFAULT 0,
   `late_penalty_percent` decimal(5,2) DEFAULT 0.00,
+  `max_attempts` int(11) DEFAULT 1 COMMENT 'Số lần nộp tối đa, NULL là không giới hạn',
+  `grading_policy` enum('best','last','average') DEFAULT 'last' COMMENT 'Cách tính điểm cuối từ các lần nộp đã chấm',
+  `time_limit_minutes` int(11) DEFAULT NULL COMMENT 'Thời gian làm bài trắc nghiệm, NULL là không giới hạn',
+  `shuffle_questions` tinyint(1) DEFAULT 1,
+  `shuffle_options` tinyint(1) DEFAULT 1,
+  `code_language` enum('javascript','typescript') DEFAULT 'javascript' COMMENT 'Ngôn ngữ của bài lập trình được chấm tự động',
   `is_published` tinyint(1) DEFAULT 0,
   `created_at` timestamp NOT NULL DEFAULT current_timestamp(),
   `updated_at` timestamp NOT NULL DEFAULT current_timestamp() ON UPDATE current_timestamp()
@@ -76,12 +100,70 @@ CREATE TABLE `assignment_submissions` (
   `submission_text` text DEFAULT NULL,
   `submitted_at` timestamp NOT NULL DEFAULT current_timestamp(),
   `grade` decimal(5,2) DEFAULT NULL,
+  `raw_grade` decimal(5,2) DEFAULT NULL COMMENT 'Điểm giáo viên chấm, trước khi trừ phạt nộp muộn',
+  `rubric_scores` longtext CHARACTER SET utf8mb4 COLLATE utf8mb4_bin DEFAULT NULL COMMENT 'Mức đạt của từng tiêu chí khi chấm theo rubric' CHECK (json_valid(`rubric_scores`)),
   `feedback` text DEFAULT NULL,
   `graded_at` timestamp NULL DEFAULT NULL,
   `graded_by` varchar(36) DEFAULT NULL,
+  `returned_at` timestamp NULL DEFAULT NULL COMMENT 'Thời điểm giáo viên trả bài để học viên sửa lại',
+  `draft_saved_at` timestamp NULL DEFAULT NULL COMMENT 'Lần lưu nháp gần nhất',
   `is_late` tinyint(1) DEFAULT 0,
   `submission_status` enum('draft','submitted','graded','returned') DEFAULT 'submitted',
-  `attempt_number` int(11) DEFAULT 1
+  `attempt_number` int(11) DEFAULT 1,
+  `auto_grade_status` enum('pending','running','completed','failed') DEFAULT NULL COMMENT 'Trạng thái chấm tự động bài lập trình, NULL nếu không chấm tự động',
+  `auto_score` decimal(6,2) DEFAULT NULL COMMENT 'Điểm chấm tự động theo thang max_points của bài, trước khi trừ phạt nộp muộn',
+  `test_results` longtext CHARACTER SET utf8mb4 COLLATE utf8mb4_bin DEFAULT NULL COMMENT 'Kết quả từng test của lần chấm tự động gần nhất' CHECK (json_valid(`test_results`)),
+  `auto_graded_at` timestamp NULL DEFAULT NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- --------------------------------------------------------
+
+--
+-- Cấu trúc bảng cho bảng `assignment_test_cases`
+--
+
+CREATE TABLE `assignment_test_cases` (
+  `id` varchar(36) NOT NULL DEFAULT uuid(),
+  `assignment_id` varchar(36) NOT NULL,
+  `name` varchar(255) NOT NULL,
+  `kind` enum('io','test_file') NOT NULL DEFAULT 'io' COMMENT 'io: so sánh stdout với kết quả mong đợi; test_file: chạy file test JS/TS của giáo viên',
+  `stdin` mediumtext DEFAULT NULL,
+  `expected_output` mediumtext DEFAULT NULL,
+  `test_code` mediumtext DEFAULT NULL,
+  `points` int(11) NOT NULL DEFAULT 1,
+  `is_hidden` tinyint(1) DEFAULT 1 COMMENT 'Học viên không thấy input, output và chi tiết lỗi của test ẩn',
+  `position` int(11) NOT NULL,
+  `created_at` timestamp NOT NULL DEFAULT current_timestamp(),
+  `updated_at` timestamp NOT NULL DEFAULT current_timestamp() ON UPDATE current_timestamp()
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- --------------------------------------------------------
+
+--
+-- Cấu trúc bảng cho bảng `billing_profiles`
+--
+
+CREATE TABLE `billing_profiles` (
+  `user_id` varchar(36) NOT NULL,
+  `company_name` varchar(255) DEFAULT NULL COMMENT 'Tên đơn vị mua hàng trên hóa đơn VAT',
+  `tax_code` varchar(20) DEFAULT NULL COMMENT 'Mã số thuế',
+  `address` text DEFAULT NULL,
+  `invoice_email` varchar(255) DEFAULT NULL COMMENT 'Email nhận hóa đơn, mặc định là email tài khoản',
+  `created_at` datetime DEFAULT current_timestamp(),
+  `updated_at` datetime DEFAULT current_timestamp() ON UPDATE current_timestamp()
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- --------------------------------------------------------
+
+--
+-- Cấu trúc bảng cho bảng `cart_items`
+--
+
+CREATE TABLE `cart_items` (
+  `id` varchar(36) NOT NULL DEFAULT uuid(),
+  `user_id` varchar(36) NOT NULL,
+  `course_id` varchar(36) NOT NULL,
+  `added_at` timestamp NOT NULL DEFAULT current_timestamp()
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
 
 -- --------------------------------------------------------
@@ -105,6 +187,27 @@ CREATE TABLE `categories` (
 
 -- --------------------------------------------------------
 
+--
+-- Cấu trúc bảng cho bảng `coupon_campaigns`
+--
+
+CREATE TABLE `coupon_campaigns` (
+  `id` varchar(36) NOT NULL DEFAULT uuid(),
+  `name` varchar(100) NOT NULL,
+  `description` text DEFAULT NULL,
+  `code_prefix` varchar(20) NOT NULL DEFAULT '',
+  `code_length` int(11) NOT NULL COMMENT 'Số ký tự ngẫu nhiên sau tiền tố',
+  `alphabet` varchar(36) NOT NULL COMMENT 'Các ký tự dùng để sinh mã',
+  `code_count` int(11) NOT NULL,
+  `is_active` tinyint(1) DEFAULT 1,
+  `deactivated_at` datetime DEFAULT NULL,
+  `created_by` varchar(36) NOT NULL,
+  `created_at` datetime DEFAULT current_timestamp(),
+  `updated_at` datetime DEFAULT current_timestamp() ON UPDATE current_timestamp()
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- --------------------------------------------------------
+
 --
 -- Cấu trúc bảng cho bảng `coupons`
 --
@@ -118,6 +221,8 @@ CREATE TABLE `coupons` (
   `discount_value` decimal(10,2) NOT NULL,
   `minimum_amount` decimal(10,2) DEFAULT 0.00,
   `maximum_discount` decimal(10,2) DEFAULT NULL,
+  `buy_quantity` int(11) DEFAULT NULL COMMENT 'bogo: số khóa học phải mua (X)',
+  `get_quantity` int(11) DEFAULT NULL COMMENT 'bogo: số khóa học được giảm discount_value % (Y)',
   `usage_limit` int(11) DEFAULT NULL,
   `usage_limit_per_user` int(11) DEFAULT 1,
   `used_count` int(11) DEFAULT 0,
@@ -136,6 +241,7 @@ CREATE TABLE `coupons` (
   `stackable` tinyint(1) DEFAULT 0,
   `priority` int(11) DEFAULT 0,
   `first_purchase_only` tinyint(1) DEFAULT 0,
+  `campaign_id` varchar(36) DEFAULT NULL COMMENT 'Chiến dịch sinh mã hàng loạt',
   `tags` longtext CHARACTER SET utf8mb4 COLLATE utf8mb4_bin DEFAULT NULL CHECK (json_valid(`tags`)),
   `internal_notes` text DEFAULT NULL,
   `created_by` varchar(36) NOT NULL,
@@ -166,7 +272,7 @@ CREATE TABLE `coupon_usage` (
   `discount_amount` decimal(10,2) NOT NULL,
   `original_amount` decimal(10,2) NOT NULL,
   `final_amount` decimal(10,2) NOT NULL,
-  `status` enum('pending','applied','expired','cancelled') DEFAULT 'applied',
+  `status` enum('pending','applied','expired','cancelled','refunded') DEFAULT 'applied',
   `course_ids` longtext CHARACTER SET utf8mb4 COLLATE utf8mb4_bin DEFAULT NULL CHECK (json_valid(`course_ids`)),
   `ip_address` varchar(45) DEFAULT NULL,
   `user_agent` text DEFAULT NULL,
@@ -230,6 +336,48 @@ CREATE TABLE `enrollments` (
 
 -- --------------------------------------------------------
 
+--
+-- Cấu trúc bảng cho bảng `invoice_sequences`
+--
+
+CREATE TABLE `invoice_sequences` (
+  `year` int(11) NOT NULL,
+  `last_number` int(11) NOT NULL DEFAULT 0 COMMENT 'Số hóa đơn cuối cùng đã cấp trong năm'
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- --------------------------------------------------------
+
+--
+-- Cấu trúc bảng cho bảng `invoices`
+--
+
+CREATE TABLE `invoices` (
+  `id` varchar(36) NOT NULL,
+  `invoice_number` varchar(30) NOT NULL,
+  `payment_id` varchar(36) DEFAULT NULL,
+  `order_id` varchar(36) DEFAULT NULL,
+  `user_id` varchar(36) NOT NULL,
+  `buyer_name` varchar(255) NOT NULL,
+  `buyer_email` varchar(255) NOT NULL,
+  `buyer_company` varchar(255) DEFAULT NULL,
+  `buyer_tax_code` varchar(20) DEFAULT NULL,
+  `buyer_address` text DEFAULT NULL,
+  `items` longtext CHARACTER SET utf8mb4 COLLATE utf8mb4_bin NOT NULL CHECK (json_valid(`items`)) COMMENT 'Các dòng hóa đơn: khóa học, giá, giảm giá',
+  `coupon_code` varchar(50) DEFAULT NULL,
+  `subtotal` decimal(10,2) NOT NULL COMMENT 'Tổng giá trước giảm giá, đã gồm VAT',
+  `discount_amount` decimal(10,2) DEFAULT 0.00,
+  `taxable_amount` decimal(10,2) NOT NULL COMMENT 'Thành tiền chưa VAT',
+  `vat_rate` decimal(5,2) NOT NULL,
+  `vat_amount` decimal(10,2) NOT NULL,
+  `total_amount` decimal(10,2) NOT NULL,
+  `currency` varchar(3) DEFAULT 'VND',
+  `file_path` varchar(255) DEFAULT NULL COMMENT 'Đường dẫn PDF trong thư mục uploads',
+  `issued_at` datetime NOT NULL,
+  `created_at` datetime DEFAULT current_timestamp()
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- --------------------------------------------------------
+
 --
 -- Cấu trúc bảng cho bảng `lectures`
 --
@@ -247,12 +395,37 @@ CREATE TABLE `lectures` (
   `is_free` tinyint(1) DEFAULT 0,
   `transcript` text DEFAULT NULL,
   `resources` longtext CHARACTER SET utf8mb4 COLLATE utf8mb4_bin DEFAULT NULL CHECK (json_valid(`resources`)),
+  `time_limit_minutes` int(11) DEFAULT NULL COMMENT 'Thời gian làm bài với bài giảng dạng quiz, NULL là không giới hạn',
+  `shuffle_questions` tinyint(1) DEFAULT 1,
+  `shuffle_options` tinyint(1) DEFAULT 1,
   `created_at` timestamp NOT NULL DEFAULT current_timestamp(),
   `updated_at` timestamp NOT NULL DEFAULT current_timestamp() ON UPDATE current_timestamp()
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
 
 -- --------------------------------------------------------
 
+--
+-- Cấu trúc bảng cho bảng `lecture_chunks`
+--
+
+CREATE TABLE `lecture_chunks` (
+  `id` varchar(36) NOT NULL DEFAULT uuid(),
+  `course_id` varchar(36) NOT NULL,
+  `lecture_id` varchar(36) NOT NULL,
+  `source_type` enum('description','transcript','resource') NOT NULL DEFAULT 'transcript',
+  `chunk_index` int(11) NOT NULL,
+  `content` text NOT NULL,
+  `start_seconds` int(11) DEFAULT NULL,
+  `end_seconds` int(11) DEFAULT NULL,
+  `resource_title` varchar(255) DEFAULT NULL,
+  `resource_url` text DEFAULT NULL,
+  `embedding` longtext CHARACTER SET utf8mb4 COLLATE utf8mb4_bin DEFAULT NULL CHECK (json_valid(`embedding`)),
+  `content_hash` varchar(64) NOT NULL,
+  `created_at` timestamp NOT NULL DEFAULT current_timestamp()
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- --------------------------------------------------------
+
 --
 -- Cấu trúc bảng cho bảng `lecture_progress`
 --
@@ -286,12 +459,80 @@ CREATE TABLE `messages` (
   `parent_message_id` varchar(36) DEFAULT NULL,
   `attachments` longtext CHARACTER SET utf8mb4 COLLATE utf8mb4_bin DEFAULT NULL CHECK (json_valid(`attachments`)),
   `is_read` tinyint(1) DEFAULT 0,
+  `deleted_by_sender` tinyint(1) DEFAULT 0,
+  `deleted_by_recipient` tinyint(1) DEFAULT 0,
   `created_at` timestamp NOT NULL DEFAULT current_timestamp(),
   `read_at` timestamp NULL DEFAULT NULL
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
 
 -- --------------------------------------------------------
 
+--
+-- Cấu trúc bảng cho bảng `notifications`
+--
+
+CREATE TABLE `notifications` (
+  `id` varchar(36) NOT NULL DEFAULT uuid(),
+  `user_id` varchar(36) NOT NULL,
+  `type` varchar(50) NOT NULL DEFAULT 'info',
+  `title` varchar(255) NOT NULL,
+  `message` text NOT NULL,
+  `priority` enum('low','normal','high','urgent') DEFAULT 'normal',
+  `reference_type` varchar(50) DEFAULT NULL,
+  `reference_id` varchar(36) DEFAULT NULL,
+  `link` varchar(500) DEFAULT NULL,
+  `is_read` tinyint(1) DEFAULT 0,
+  `read_at` timestamp NULL DEFAULT NULL,
+  `created_at` timestamp NOT NULL DEFAULT current_timestamp()
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- --------------------------------------------------------
+
+--
+-- Cấu trúc bảng cho bảng `orders`
+-- Một đơn hàng (một giao dịch VNPay) cho nhiều khóa học trong giỏ hàng
+--
+
+CREATE TABLE `orders` (
+  `id` varchar(36) NOT NULL DEFAULT uuid(),
+  `user_id` varchar(36) NOT NULL,
+  `order_code` varchar(100) NOT NULL COMMENT 'Mã giao dịch gửi sang VNPay (vnp_TxnRef)',
+  `subtotal` decimal(10,2) NOT NULL,
+  `discount_amount` decimal(10,2) DEFAULT 0.00,
+  `total_amount` decimal(10,2) NOT NULL,
+  `coupon_id` varchar(36) DEFAULT NULL,
+  `currency` varchar(3) DEFAULT 'VND',
+  `payment_method` varchar(50) DEFAULT 'vnpay',
+  `status` enum('pending','completed','failed','cancelled','refunded','completed_enrollment_failed') DEFAULT 'pending',
+  `transaction_id` varchar(100) DEFAULT NULL,
+  `payment_date` datetime DEFAULT NULL,
+  `vnpay_response_code` varchar(10) DEFAULT NULL,
+  `refunded_amount` decimal(10,2) DEFAULT 0.00,
+  `reconcile_attempts` int(11) NOT NULL DEFAULT 0 COMMENT 'Số lần đối soát mà cổng thanh toán không trả lời được',
+  `next_reconcile_at` datetime DEFAULT NULL COMMENT 'Không đối soát lại trước thời điểm này (lùi dần sau mỗi lần lỗi)',
+  `created_at` datetime DEFAULT current_timestamp(),
+  `updated_at` datetime DEFAULT current_timestamp() ON UPDATE current_timestamp()
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- --------------------------------------------------------
+
+--
+-- Cấu trúc bảng cho bảng `order_items`
+--
+
+CREATE TABLE `order_items` (
+  `id` varchar(36) NOT NULL DEFAULT uuid(),
+  `order_id` varchar(36) NOT NULL,
+  `course_id` varchar(36) NOT NULL,
+  `price` decimal(10,2) NOT NULL COMMENT 'Giá khóa học tại thời điểm đặt hàng',
+  `discount_amount` decimal(10,2) DEFAULT 0.00 COMMENT 'Phần giảm giá của coupon được phân bổ cho khóa học',
+  `amount` decimal(10,2) NOT NULL,
+  `enrolled` tinyint(1) DEFAULT 0,
+  `created_at` datetime DEFAULT current_timestamp()
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- --------------------------------------------------------
+
 --
 -- Cấu trúc bảng cho bảng `payments`
 --
@@ -302,9 +543,141 @@ CREATE TABLE `payments` (
   `course_id` varchar(36) NOT NULL,
   `order_id` varchar(100) NOT NULL,
   `amount` decimal(10,2) NOT NULL,
+  `original_amount` decimal(10,2) DEFAULT NULL COMMENT 'Giá gốc trước khi áp dụng mã giảm giá',
+  `discount_amount` decimal(10,2) DEFAULT 0.00,
+  `coupon_id` varchar(36) DEFAULT NULL,
   `currency` varchar(3) DEFAULT 'VND',
   `payment_method` varchar(50) DEFAULT 'vnpay',
-  `payment_status` enum('pending','completed','failed','cancelled','refunded') DEFAULT 'pending',
+  `payment_status` enum('pending','completed','failed','cancelled','refunded','completed_enrollment_failed') DEFAULT 'pending',
+  `transaction_id` varchar(100) DEFAULT NULL,
+  `payment_date` datetime DEFAULT NULL,
+  `vnpay_response_code` varchar(10) DEFAULT NULL,
+  `refunded_amount` decimal(10,2) DEFAULT 0.00,
+  `reconcile_attempts` int(11) NOT NULL DEFAULT 0 COMMENT 'Số lần đối soát mà cổng thanh toán không trả lời được',
+  `next_reconcile_at` datetime DEFAULT NULL COMMENT 'Không đối soát lại trước thời điểm này (lùi dần sau mỗi lần lỗi)',
+  `created_at` datetime DEFAULT current_timestamp(),
+  `updated_at` datetime DEFAULT current_timestamp() ON UPDATE current_timestamp()
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- --------------------------------------------------------
+
+--
+-- Cấu trúc bảng cho bảng `quiz_answers`
+--
+
+CREATE TABLE `quiz_answers` (
+  `id` varchar(36) NOT NULL DEFAULT uuid(),
+  `attempt_id` varchar(36) NOT NULL,
+  `item_id` varchar(36) NOT NULL,
+  `question_id` varchar(36) NOT NULL,
+  `selected_option_index` int(11) DEFAULT NULL COMMENT 'Vị trí trong options gốc của câu hỏi, NULL là bỏ trống',
+  `is_correct` tinyint(1) DEFAULT NULL COMMENT 'Chỉ có sau khi nộp bài',
+  `points_awarded` decimal(6,2) DEFAULT NULL,
+  `answered_at` timestamp NULL DEFAULT NULL
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- --------------------------------------------------------
+
+--
+-- Cấu trúc bảng cho bảng `quiz_attempts`
+--
+
+CREATE TABLE `quiz_attempts` (
+  `id` varchar(36) NOT NULL DEFAULT uuid(),
+  `user_id` varchar(36) NOT NULL,
+  `assignment_id` varchar(36) DEFAULT NULL,
+  `lecture_id` varchar(36) DEFAULT NULL,
+  `submission_id` varchar(36) DEFAULT NULL COMMENT 'Lần nộp tương ứng khi quiz là bài tập',
+  `layout` longtext CHARACTER SET utf8mb4 COLLATE utf8mb4_bin NOT NULL COMMENT 'Thứ tự câu hỏi và đáp án đã xáo cho lần làm này' CHECK (json_valid(`layout`)),
+  `status` enum('in_progress','submitted','expired') DEFAULT 'in_progress',
+  `score` decimal(6,2) DEFAULT NULL,
+  `max_score` int(11) NOT NULL,
+  `started_at` timestamp NOT NULL DEFAULT current_timestamp(),
+  `expires_at` timestamp NULL DEFAULT NULL,
+  `submitted_at` timestamp NULL DEFAULT NULL,
+  CONSTRAINT `chk_quiz_attempts_target` CHECK ((`assignment_id` IS NULL) <> (`lecture_id` IS NULL))
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- --------------------------------------------------------
+
+--
+-- Cấu trúc bảng cho bảng `quiz_items`
+--
+
+CREATE TABLE `quiz_items` (
+  `id` varchar(36) NOT NULL DEFAULT uuid(),
+  `question_id` varchar(36) NOT NULL,
+  `assignment_id` varchar(36) DEFAULT NULL,
+  `lecture_id` varchar(36) DEFAULT NULL,
+  `points` int(11) NOT NULL DEFAULT 1,
+  `position` int(11) NOT NULL,
+  `created_at` timestamp NOT NULL DEFAULT current_timestamp(),
+  CONSTRAINT `chk_quiz_items_target` CHECK ((`assignment_id` IS NULL) <> (`lecture_id` IS NULL))
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- --------------------------------------------------------
+
+--
+-- Cấu trúc bảng cho bảng `quiz_questions`
+--
+
+CREATE TABLE `quiz_questions` (
+  `id` varchar(36) NOT NULL DEFAULT uuid(),
+  `course_id` varchar(36) NOT NULL,
+  `question` text NOT NULL,
+  `options` longtext CHARACTER SET utf8mb4 COLLATE utf8mb4_bin NOT NULL CHECK (json_valid(`options`)),
+  `correct_option_index` int(11) NOT NULL COMMENT 'Vị trí đáp án đúng trong options',
+  `explanation` text DEFAULT NULL,
+  `source` enum('manual','ai') DEFAULT 'manual',
+  `source_lecture_id` varchar(36) DEFAULT NULL COMMENT 'Bài giảng dùng để sinh câu hỏi bằng AI',
+  `created_by` varchar(36) NOT NULL,
+  `created_at` timestamp NOT NULL DEFAULT current_timestamp(),
+  `updated_at` timestamp NOT NULL DEFAULT current_timestamp() ON UPDATE current_timestamp()
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- --------------------------------------------------------
+
+--
+-- Cấu trúc bảng cho bảng `reconciliation_reports`
+--
+
+CREATE TABLE `reconciliation_reports` (
+  `id` varchar(36) NOT NULL,
+  `trigger_type` enum('scheduled','manual') NOT NULL DEFAULT 'scheduled',
+  `triggered_by` varchar(36) DEFAULT NULL,
+  `started_at` datetime NOT NULL,
+  `finished_at` datetime DEFAULT NULL,
+  `checked_count` int(11) DEFAULT 0,
+  `completed_count` int(11) DEFAULT 0,
+  `failed_count` int(11) DEFAULT 0,
+  `cancelled_count` int(11) DEFAULT 0,
+  `unchanged_count` int(11) DEFAULT 0,
+  `error_count` int(11) DEFAULT 0,
+  `entries` longtext CHARACTER SET utf8mb4 COLLATE utf8mb4_bin DEFAULT NULL CHECK (json_valid(`entries`)) COMMENT 'Kết quả đối soát từng giao dịch',
+  `created_at` datetime DEFAULT current_timestamp()
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- --------------------------------------------------------
+
+--
+-- Cấu trúc bảng cho bảng `refunds`
+--
+
+CREATE TABLE `refunds` (
+  `id` varchar(36) NOT NULL,
+  `payment_id` varchar(36) DEFAULT NULL,
+  `order_id` varchar(36) DEFAULT NULL COMMENT 'Đơn hàng giỏ hàng (orders.id)',
+  `course_ids` longtext CHARACTER SET utf8mb4 COLLATE utf8mb4_bin DEFAULT NULL CHECK (json_valid(`course_ids`)) COMMENT 'Các khóa học bị ảnh hưởng bởi lần hoàn tiền',
+  `amount` decimal(10,2) NOT NULL,
+  `refund_type` enum('full','partial') NOT NULL,
+  `enrollment_action` enum('revoke','downgrade','keep') NOT NULL DEFAULT 'revoke',
+  `reason` text DEFAULT NULL,
+  `status` enum('pending','completed','failed') DEFAULT 'pending',
+  `gateway_response_code` varchar(50) DEFAULT NULL,
+  `gateway_message` varchar(255) DEFAULT NULL,
+  `gateway_transaction_no` varchar(100) DEFAULT NULL,
+  `gateway_response` longtext CHARACTER SET utf8mb4 COLLATE utf8mb4_bin DEFAULT NULL CHECK (json_valid(`gateway_response`)),
+  `requested_by` varchar(36) DEFAULT NULL,
   `created_at` datetime DEFAULT current_timestamp(),
   `updated_at` datetime DEFAULT current_timestamp() ON UPDATE current_timestamp()
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
@@ -329,6 +702,46 @@ CREATE TABLE `reviews` (
 
 -- --------------------------------------------------------
 
+--
+-- Cấu trúc bảng cho bảng `teacher_earnings`
+--
+
+CREATE TABLE `teacher_earnings` (
+  `id` varchar(36) NOT NULL,
+  `teacher_id` varchar(36) NOT NULL,
+  `course_id` varchar(36) NOT NULL,
+  `entry_type` enum('sale','refund') NOT NULL,
+  `reference_id` varchar(36) NOT NULL COMMENT 'payments.id / orders.id với sale, refunds.id với refund',
+  `payment_id` varchar(36) DEFAULT NULL,
+  `order_id` varchar(36) DEFAULT NULL,
+  `gross_amount` decimal(10,2) NOT NULL COMMENT 'Số tiền người mua trả cho khóa học, âm khi hoàn tiền',
+  `commission_rate` decimal(5,2) NOT NULL COMMENT 'Phần trăm hoa hồng của nền tảng lúc bán',
+  `commission_amount` decimal(10,2) NOT NULL,
+  `net_amount` decimal(10,2) NOT NULL COMMENT 'Phần giảng viên nhận',
+  `currency` varchar(3) DEFAULT 'VND',
+  `created_at` datetime DEFAULT current_timestamp()
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- --------------------------------------------------------
+
+--
+-- Cấu trúc bảng cho bảng `teacher_payouts`
+--
+
+CREATE TABLE `teacher_payouts` (
+  `id` varchar(36) NOT NULL,
+  `teacher_id` varchar(36) NOT NULL,
+  `period` char(7) NOT NULL COMMENT 'Tháng của bảng kê, dạng YYYY-MM',
+  `amount` decimal(10,2) NOT NULL,
+  `currency` varchar(3) DEFAULT 'VND',
+  `reference` varchar(100) DEFAULT NULL COMMENT 'Mã giao dịch chuyển khoản',
+  `note` text DEFAULT NULL,
+  `paid_by` varchar(36) DEFAULT NULL,
+  `paid_at` datetime DEFAULT current_timestamp()
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+-- --------------------------------------------------------
+
 --
 -- Cấu trúc bảng cho bảng `users`
 --
@@ -348,6 +761,8 @@ CREATE TABLE `users` (
   `language` varchar(5) DEFAULT 'en',
   `is_active` tinyint(1) DEFAULT 1,
   `email_verified` tinyint(1) DEFAULT 0,
+  `two_factor_enabled` tinyint(1) DEFAULT 0,
+  `two_factor_secret` varchar(64) DEFAULT NULL,
   `created_at` timestamp NOT NULL DEFAULT current_timestamp(),
   `updated_at` timestamp NOT NULL DEFAULT current_timestamp() ON UPDATE current_timestamp()
 ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
@@ -360,6 +775,42 @@ INSERT INTO `users` (`id`, `email`, `password`, `role`, `first_name`, `last_name
 ('admin-user-id', 'admin@elearning.com', '$2a$12$hashedpassword', 'admin', 'Admin', 'User', NULL, NULL, NULL, NULL, 'UTC', 'en', 1, 0, '2025-06-04 12:59:30', '2025-06-04 12:59:30'),
 ('user-001-sample', 'user001@example.com', '$2a$12$hashedpassword', 'student', 'John', 'Doe', NULL, NULL, NULL, NULL, 'UTC', 'en', 1, 0, '2025-06-04 12:56:30', '2025-06-04 12:56:30');
 
+-- --------------------------------------------------------
+
+--
+-- Cấu trúc bảng cho bảng `two_factor_policies`
+--
+
+CREATE TABLE `two_factor_policies` (
+  `role` enum('student','teacher','admin') NOT NULL,
+  `is_required` tinyint(1) DEFAULT 0,
+  `updated_by` varchar(36) DEFAULT NULL,
+  `updated_at` timestamp NOT NULL DEFAULT current_timestamp() ON UPDATE current_timestamp()
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
+--
+-- Đang đổ dữ liệu cho bảng `two_factor_policies`
+--
+
+INSERT INTO `two_factor_policies` (`role`, `is_required`, `updated_by`, `updated_at`) VALUES
+('student', 0, NULL, '2025-06-04 12:59:30'),
+('teacher', 0, NULL, '2025-06-04 12:59:30'),
+('admin', 0, NULL, '2025-06-04 12:59:30');
+
+-- --------------------------------------------------------
+
+--
+-- Cấu trúc bảng cho bảng `user_recovery_codes`
+--
+
+CREATE TABLE `user_recovery_codes` (
+  `id` varchar(36) NOT NULL DEFAULT uuid(),
+  `user_id` varchar(36) NOT NULL,
+  `code_hash` varchar(64) NOT NULL,
+  `used_at` timestamp NULL DEFAULT NULL,
+  `created_at` timestamp NOT NULL DEFAULT current_timestamp()
+) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_general_ci;
+
 --
 -- Chỉ mục cho các bảng đã đổ
 --
@@ -374,6 +825,14 @@ ALTER TABLE `ai_chat_history`
   ADD KEY `idx_ai_chat_session` (`session_id`),
   ADD KEY `idx_ai_chat_created_at` (`created_at`);
 
+--
+-- Chỉ mục cho bảng `ai_chat_sessions`
+--
+ALTER TABLE `ai_chat_sessions`
+  ADD PRIMARY KEY (`id`),
+  ADD KEY `idx_ai_chat_sessions_user` (`user_id`,`updated_at`),
+  ADD KEY `idx_ai_chat_sessions_course` (`course_id`);
+
 --
 -- Chỉ mục cho bảng `assignments`
 --
@@ -388,11 +847,34 @@ ALTER TABLE `assignments`
 --
 ALTER TABLE `assignment_submissions`
   ADD PRIMARY KEY (`id`),
+  ADD UNIQUE KEY `uq_submissions_attempt` (`assignment_id`,`user_id`,`attempt_number`),
   ADD KEY `graded_by` (`graded_by`),
   ADD KEY `idx_submissions_assignment` (`assignment_id`),
   ADD KEY `idx_submissions_user` (`user_id`),
   ADD KEY `idx_submissions_submitted_at` (`submitted_at`),
-  ADD KEY `idx_submissions_status` (`submission_status`);
+  ADD KEY `idx_submissions_status` (`submission_status`),
+  ADD KEY `idx_submissions_auto_grade` (`auto_grade_status`);
+
+--
+-- Chỉ mục cho bảng `assignment_test_cases`
+--
+ALTER TABLE `assignment_test_cases`
+  ADD PRIMARY KEY (`id`),
+  ADD KEY `idx_test_cases_assignment` (`assignment_id`,`position`);
+
+--
+-- Chỉ mục cho bảng `billing_profiles`
+--
+ALTER TABLE `billing_profiles`
+  ADD PRIMARY KEY (`user_id`);
+
+--
+-- Chỉ mục cho bảng `cart_items`
+--
+ALTER TABLE `cart_items`
+  ADD PRIMARY KEY (`id`),
+  ADD UNIQUE KEY `unique_cart_user_course` (`user_id`,`course_id`),
+  ADD KEY `idx_cart_items_course` (`course_id`);
 
 --
 -- Chỉ mục cho bảng `categories`
@@ -404,6 +886,14 @@ ALTER TABLE `categories`
   ADD KEY `idx_categories_parent` (`parent_id`),
   ADD KEY `idx_categories_active` (`is_active`);
 
+--
+-- Chỉ mục cho bảng `coupon_campaigns`
+--
+ALTER TABLE `coupon_campaigns`
+  ADD PRIMARY KEY (`id`),
+  ADD KEY `idx_coupon_campaigns_active` (`is_active`),
+  ADD KEY `idx_coupon_campaigns_created_by` (`created_by`);
+
 --
 -- Chỉ mục cho bảng `coupons`
 --
@@ -418,6 +908,8 @@ ALTER TABLE `coupons`
   ADD KEY `idx_coupons_usage` (`used_count`,`usage_limit`),
   ADD KEY `idx_coupons_type` (`discount_type`),
   ADD KEY `idx_coupons_priority` (`priority`),
+  ADD KEY `idx_coupons_auto_apply` (`auto_apply`,`is_public`),
+  ADD KEY `idx_coupons_campaign` (`campaign_id`),
   ADD KEY `idx_coupons_deleted` (`deleted_at`);
 
 --
@@ -457,6 +949,22 @@ ALTER TABLE `enrollments`
   ADD KEY `idx_enrollments_progress` (`progress`),
   ADD KEY `idx_enrollments_enrolled_at` (`enrolled_at`);
 
+--
+-- Chỉ mục cho bảng `invoice_sequences`
+--
+ALTER TABLE `invoice_sequences`
+  ADD PRIMARY KEY (`year`);
+
+--
+-- Chỉ mục cho bảng `invoices`
+--
+ALTER TABLE `invoices`
+  ADD PRIMARY KEY (`id`),
+  ADD UNIQUE KEY `unique_invoice_number` (`invoice_number`),
+  ADD UNIQUE KEY `unique_invoice_payment` (`payment_id`),
+  ADD UNIQUE KEY `unique_invoice_order` (`order_id`),
+  ADD KEY `idx_invoices_user` (`user_id`);
+
 --
 -- Chỉ mục cho bảng `lectures`
 --
@@ -467,6 +975,14 @@ ALTER TABLE `lectures`
   ADD KEY `idx_lectures_order` (`course_id`,`order_index`),
   ADD KEY `idx_lectures_published` (`is_published`);
 
+--
+-- Chỉ mục cho bảng `lecture_chunks`
+--
+ALTER TABLE `lecture_chunks`
+  ADD PRIMARY KEY (`id`),
+  ADD KEY `idx_lecture_chunks_course` (`course_id`),
+  ADD KEY `idx_lecture_chunks_lecture` (`lecture_id`,`chunk_index`);
+
 --
 -- Chỉ mục cho bảng `lecture_progress`
 --
@@ -487,15 +1003,99 @@ ALTER TABLE `messages`
   ADD KEY `idx_messages_recipient` (`recipient_id`),
   ADD KEY `idx_messages_course` (`course_id`),
   ADD KEY `idx_messages_created_at` (`created_at`),
-  ADD KEY `idx_messages_read` (`is_read`);
+  ADD KEY `idx_messages_read` (`is_read`),
+  ADD KEY `idx_messages_participants` (`sender_id`,`recipient_id`,`created_at`);
 ALTER TABLE `messages` ADD FULLTEXT KEY `idx_messages_search` (`subject`,`content`);
 
+--
+-- Chỉ mục cho bảng `notifications`
+--
+ALTER TABLE `notifications`
+  ADD PRIMARY KEY (`id`),
+  ADD KEY `idx_notifications_user` (`user_id`),
+  ADD KEY `idx_notifications_user_read` (`user_id`,`is_read`),
+  ADD KEY `idx_notifications_created_at` (`created_at`);
+
+--
+-- Chỉ mục cho bảng `orders`
+--
+ALTER TABLE `orders`
+  ADD PRIMARY KEY (`id`),
+  ADD UNIQUE KEY `order_code` (`order_code`),
+  ADD KEY `idx_orders_user` (`user_id`,`created_at`),
+  ADD KEY `idx_orders_status` (`status`);
+
+--
+-- Chỉ mục cho bảng `order_items`
+--
+ALTER TABLE `order_items`
+  ADD PRIMARY KEY (`id`),
+  ADD UNIQUE KEY `unique_order_course` (`order_id`,`course_id`),
+  ADD KEY `idx_order_items_course` (`course_id`);
+
 --
 -- Chỉ mục cho bảng `payments`
 --
 ALTER TABLE `payments`
   ADD PRIMARY KEY (`id`),
-  ADD UNIQUE KEY `order_id` (`order_id`);
+  ADD UNIQUE KEY `order_id` (`order_id`),
+  ADD KEY `idx_payments_coupon` (`coupon_id`);
+
+--
+-- Chỉ mục cho bảng `quiz_answers`
+--
+ALTER TABLE `quiz_answers`
+  ADD PRIMARY KEY (`id`),
+  ADD UNIQUE KEY `uq_quiz_answers_item` (`attempt_id`,`item_id`),
+  ADD KEY `idx_quiz_answers_item` (`item_id`),
+  ADD KEY `idx_quiz_answers_question` (`question_id`);
+
+--
+-- Chỉ mục cho bảng `quiz_attempts`
+--
+ALTER TABLE `quiz_attempts`
+  ADD PRIMARY KEY (`id`),
+  ADD KEY `idx_quiz_attempts_user` (`user_id`),
+  ADD KEY `idx_quiz_attempts_assignment` (`assignment_id`),
+  ADD KEY `idx_quiz_attempts_lecture` (`lecture_id`),
+  ADD KEY `idx_quiz_attempts_status` (`status`),
+  ADD KEY `submission_id` (`submission_id`);
+
+--
+-- Chỉ mục cho bảng `quiz_items`
+--
+ALTER TABLE `quiz_items`
+  ADD PRIMARY KEY (`id`),
+  ADD UNIQUE KEY `uq_quiz_items_assignment` (`assignment_id`,`question_id`),
+  ADD UNIQUE KEY `uq_quiz_items_lecture` (`lecture_id`,`question_id`),
+  ADD KEY `idx_quiz_items_question` (`question_id`);
+
+--
+-- Chỉ mục cho bảng `quiz_questions`
+--
+ALTER TABLE `quiz_questions`
+  ADD PRIMARY KEY (`id`),
+  ADD KEY `idx_quiz_questions_course` (`course_id`),
+  ADD KEY `created_by` (`created_by`),
+  ADD KEY `source_lecture_id` (`source_lecture_id`);
+
+--
+-- Chỉ mục cho bảng `reconciliation_reports`
+--
+ALTER TABLE `reconciliation_reports`
+  ADD PRIMARY KEY (`id`),
+  ADD KEY `idx_reconciliation_started` (`started_at`),
+  ADD KEY `triggered_by` (`triggered_by`);
+
+--
+-- Chỉ mục cho bảng `refunds`
+--
+ALTER TABLE `refunds`
+  ADD PRIMARY KEY (`id`),
+  ADD KEY `idx_refunds_payment` (`payment_id`),
+  ADD KEY `idx_refunds_order` (`order_id`),
+  ADD KEY `idx_refunds_status` (`status`),
+  ADD KEY `requested_by` (`requested_by`);
 
 --
 -- Chỉ mục cho bảng `reviews`
@@ -508,6 +1108,23 @@ ALTER TABLE `reviews`
   ADD KEY `idx_reviews_rating` (`rating`),
   ADD KEY `idx_reviews_created_at` (`created_at`);
 
+--
+-- Chỉ mục cho bảng `teacher_earnings`
+--
+ALTER TABLE `teacher_earnings`
+  ADD PRIMARY KEY (`id`),
+  ADD UNIQUE KEY `unique_teacher_earning` (`entry_type`,`reference_id`,`course_id`),
+  ADD KEY `idx_teacher_earnings_teacher` (`teacher_id`,`created_at`),
+  ADD KEY `idx_teacher_earnings_course` (`course_id`);
+
+--
+-- Chỉ mục cho bảng `teacher_payouts`
+--
+ALTER TABLE `teacher_payouts`
+  ADD PRIMARY KEY (`id`),
+  ADD UNIQUE KEY `unique_teacher_payout_period` (`teacher_id`,`period`),
+  ADD KEY `idx_teacher_payouts_paid_by` (`paid_by`);
+
 --
 -- Chỉ mục cho bảng `users`
 --
@@ -518,6 +1135,21 @@ ALTER TABLE `users`
   ADD KEY `idx_users_role` (`role`),
   ADD KEY `idx_users_created_at` (`created_at`);
 
+--
+-- Chỉ mục cho bảng `two_factor_policies`
+--
+ALTER TABLE `two_factor_policies`
+  ADD PRIMARY KEY (`role`),
+  ADD KEY `updated_by` (`updated_by`);
+
+--
+-- Chỉ mục cho bảng `user_recovery_codes`
+--
+ALTER TABLE `user_recovery_codes`
+  ADD PRIMARY KEY (`id`),
+  ADD KEY `idx_recovery_codes_user` (`user_id`),
+  ADD UNIQUE KEY `unique_recovery_code` (`user_id`,`code_hash`);
+
 --
 -- Các ràng buộc cho các bảng đã đổ
 --
@@ -527,7 +1159,15 @@ ALTER TABLE `users`
 --
 ALTER TABLE `ai_chat_history`
   ADD CONSTRAINT `ai_chat_history_ibfk_1` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE,
-  ADD CONSTRAINT `ai_chat_history_ibfk_2` FOREIGN KEY (`course_id`) REFERENCES `courses` (`id`) ON DELETE SET NULL;
+  ADD CONSTRAINT `ai_chat_history_ibfk_2` FOREIGN KEY (`course_id`) REFERENCES `courses` (`id`) ON DELETE SET NULL,
+  ADD CONSTRAINT `ai_chat_history_ibfk_3` FOREIGN KEY (`session_id`) REFERENCES `ai_chat_sessions` (`id`) ON DELETE CASCADE;
+
+--
+-- Các ràng buộc cho bảng `ai_chat_sessions`
+--
+ALTER TABLE `ai_chat_sessions`
+  ADD CONSTRAINT `ai_chat_sessions_ibfk_1` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE,
+  ADD CONSTRAINT `ai_chat_sessions_ibfk_2` FOREIGN KEY (`course_id`) REFERENCES `courses` (`id`) ON DELETE SET NULL;
 
 --
 -- Các ràng buộc cho bảng `assignments`
@@ -543,17 +1183,43 @@ ALTER TABLE `assignment_submissions`
   ADD CONSTRAINT `assignment_submissions_ibfk_2` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE,
   ADD CONSTRAINT `assignment_submissions_ibfk_3` FOREIGN KEY (`graded_by`) REFERENCES `users` (`id`) ON DELETE SET NULL;
 
+--
+-- Các ràng buộc cho bảng `assignment_test_cases`
+--
+ALTER TABLE `assignment_test_cases`
+  ADD CONSTRAINT `assignment_test_cases_ibfk_1` FOREIGN KEY (`assignment_id`) REFERENCES `assignments` (`id`) ON DELETE CASCADE;
+
+--
+-- Các ràng buộc cho bảng `billing_profiles`
+--
+ALTER TABLE `billing_profiles`
+  ADD CONSTRAINT `billing_profiles_ibfk_1` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE;
+
+--
+-- Các ràng buộc cho bảng `cart_items`
+--
+ALTER TABLE `cart_items`
+  ADD CONSTRAINT `cart_items_ibfk_1` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE,
+  ADD CONSTRAINT `cart_items_ibfk_2` FOREIGN KEY (`course_id`) REFERENCES `courses` (`id`) ON DELETE CASCADE;
+
 --
 -- Các ràng buộc cho bảng `categories`
 --
 ALTER TABLE `categories`
   ADD CONSTRAINT `categories_ibfk_1` FOREIGN KEY (`parent_id`) REFERENCES `categories` (`id`) ON DELETE SET NULL;
 
+--
+-- Các ràng buộc cho bảng `coupon_campaigns`
+--
+ALTER TABLE `coupon_campaigns`
+  ADD CONSTRAINT `fk_coupon_campaigns_created_by` FOREIGN KEY (`created_by`) REFERENCES `users` (`id`) ON DELETE CASCADE;
+
 --
 -- Các ràng buộc cho bảng `coupons`
 --
 ALTER TABLE `coupons`
-  ADD CONSTRAINT `coupons_ibfk_1` FOREIGN KEY (`created_by`) REFERENCES `users` (`id`) ON DELETE CASCADE;
+  ADD CONSTRAINT `coupons_ibfk_1` FOREIGN KEY (`created_by`) REFERENCES `users` (`id`) ON DELETE CASCADE,
+  ADD CONSTRAINT `fk_coupons_campaign` FOREIGN KEY (`campaign_id`) REFERENCES `coupon_campaigns` (`id`) ON DELETE SET NULL;
 
 --
 -- Các ràng buộc cho bảng `coupon_usage`
@@ -577,12 +1243,27 @@ ALTER TABLE `enrollments`
   ADD CONSTRAINT `enrollments_ibfk_1` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE,
   ADD CONSTRAINT `enrollments_ibfk_2` FOREIGN KEY (`course_id`) REFERENCES `courses` (`id`) ON DELETE CASCADE;
 
+--
+-- Các ràng buộc cho bảng `invoices`
+--
+ALTER TABLE `invoices`
+  ADD CONSTRAINT `invoices_ibfk_1` FOREIGN KEY (`payment_id`) REFERENCES `payments` (`id`),
+  ADD CONSTRAINT `invoices_ibfk_2` FOREIGN KEY (`order_id`) REFERENCES `orders` (`id`),
+  ADD CONSTRAINT `invoices_ibfk_3` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`);
+
 --
 -- Các ràng buộc cho bảng `lectures`
 --
 ALTER TABLE `lectures`
   ADD CONSTRAINT `lectures_ibfk_1` FOREIGN KEY (`course_id`) REFERENCES `courses` (`id`) ON DELETE CASCADE;
 
+--
+-- Các ràng buộc cho bảng `lecture_chunks`
+--
+ALTER TABLE `lecture_chunks`
+  ADD CONSTRAINT `lecture_chunks_ibfk_1` FOREIGN KEY (`course_id`) REFERENCES `courses` (`id`) ON DELETE CASCADE,
+  ADD CONSTRAINT `lecture_chunks_ibfk_2` FOREIGN KEY (`lecture_id`) REFERENCES `lectures` (`id`) ON DELETE CASCADE;
+
 --
 -- Các ràng buộc cho bảng `lecture_progress`
 --
@@ -599,12 +1280,104 @@ ALTER TABLE `messages`
   ADD CONSTRAINT `messages_ibfk_3` FOREIGN KEY (`course_id`) REFERENCES `courses` (`id`) ON DELETE SET NULL,
   ADD CONSTRAINT `messages_ibfk_4` FOREIGN KEY (`parent_message_id`) REFERENCES `messages` (`id`) ON DELETE SET NULL;
 
+--
+-- Các ràng buộc cho bảng `notifications`
+--
+ALTER TABLE `notifications`
+  ADD CONSTRAINT `notifications_ibfk_1` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE;
+
+--
+-- Các ràng buộc cho bảng `orders`
+--
+ALTER TABLE `orders`
+  ADD CONSTRAINT `orders_ibfk_1` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE;
+
+--
+-- Các ràng buộc cho bảng `order_items`
+--
+ALTER TABLE `order_items`
+  ADD CONSTRAINT `order_items_ibfk_1` FOREIGN KEY (`order_id`) REFERENCES `orders` (`id`) ON DELETE CASCADE,
+  ADD CONSTRAINT `order_items_ibfk_2` FOREIGN KEY (`course_id`) REFERENCES `courses` (`id`);
+
+--
+-- Các ràng buộc cho bảng `quiz_answers`
+--
+ALTER TABLE `quiz_answers`
+  ADD CONSTRAINT `quiz_answers_ibfk_1` FOREIGN KEY (`attempt_id`) REFERENCES `quiz_attempts` (`id`) ON DELETE CASCADE,
+  ADD CONSTRAINT `quiz_answers_ibfk_2` FOREIGN KEY (`item_id`) REFERENCES `quiz_items` (`id`) ON DELETE CASCADE,
+  ADD CONSTRAINT `quiz_answers_ibfk_3` FOREIGN KEY (`question_id`) REFERENCES `quiz_questions` (`id`) ON DELETE CASCADE;
+
+--
+-- Các ràng buộc cho bảng `quiz_attempts`
+--
+ALTER TABLE `quiz_attempts`
+  ADD CONSTRAINT `quiz_attempts_ibfk_1` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE,
+  ADD CONSTRAINT `quiz_attempts_ibfk_2` FOREIGN KEY (`assignment_id`) REFERENCES `assignments` (`id`) ON DELETE CASCADE,
+  ADD CONSTRAINT `quiz_attempts_ibfk_3` FOREIGN KEY (`lecture_id`) REFERENCES `lectures` (`id`) ON DELETE CASCADE,
+  ADD CONSTRAINT `quiz_attempts_ibfk_4` FOREIGN KEY (`submission_id`) REFERENCES `assignment_submissions` (`id`) ON DELETE CASCADE;
+
+--
+-- Các ràng buộc cho bảng `quiz_items`
+--
+ALTER TABLE `quiz_items`
+  ADD CONSTRAINT `quiz_items_ibfk_1` FOREIGN KEY (`question_id`) REFERENCES `quiz_questions` (`id`) ON DELETE CASCADE,
+  ADD CONSTRAINT `quiz_items_ibfk_2` FOREIGN KEY (`assignment_id`) REFERENCES `assignments` (`id`) ON DELETE CASCADE,
+  ADD CONSTRAINT `quiz_items_ibfk_3` FOREIGN KEY (`lecture_id`) REFERENCES `lectures` (`id`) ON DELETE CASCADE;
+
+--
+-- Các ràng buộc cho bảng `quiz_questions`
+--
+ALTER TABLE `quiz_questions`
+  ADD CONSTRAINT `quiz_questions_ibfk_1` FOREIGN KEY (`course_id`) REFERENCES `courses` (`id`) ON DELETE CASCADE,
+  ADD CONSTRAINT `quiz_questions_ibfk_2` FOREIGN KEY (`created_by`) REFERENCES `users` (`id`) ON DELETE CASCADE,
+  ADD CONSTRAINT `quiz_questions_ibfk_3` FOREIGN KEY (`source_lecture_id`) REFERENCES `lectures` (`id`) ON DELETE SET NULL;
+
+--
+-- Các ràng buộc cho bảng `reconciliation_reports`
+--
+ALTER TABLE `reconciliation_reports`
+  ADD CONSTRAINT `reconciliation_reports_ibfk_1` FOREIGN KEY (`triggered_by`) REFERENCES `users` (`id`) ON DELETE SET NULL;
+
+--
+-- Các ràng buộc cho bảng `refunds`
+--
+ALTER TABLE `refunds`
+  ADD CONSTRAINT `refunds_ibfk_1` FOREIGN KEY (`payment_id`) REFERENCES `payments` (`id`),
+  ADD CONSTRAINT `refunds_ibfk_2` FOREIGN KEY (`order_id`) REFERENCES `orders` (`id`),
+  ADD CONSTRAINT `refunds_ibfk_3` FOREIGN KEY (`requested_by`) REFERENCES `users` (`id`) ON DELETE SET NULL;
+
 --
 -- Các ràng buộc cho bảng `reviews`
 --
 ALTER TABLE `reviews`
   ADD CONSTRAINT `reviews_ibfk_1` FOREIGN KEY (`course_id`) REFERENCES `courses` (`id`) ON DELETE CASCADE,
   ADD CONSTRAINT `reviews_ibfk_2` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE;
+
+--
+-- Các ràng buộc cho bảng `teacher_earnings`
+--
+ALTER TABLE `teacher_earnings`
+  ADD CONSTRAINT `teacher_earnings_ibfk_1` FOREIGN KEY (`teacher_id`) REFERENCES `users` (`id`),
+  ADD CONSTRAINT `teacher_earnings_ibfk_2` FOREIGN KEY (`course_id`) REFERENCES `courses` (`id`);
+
+--
+-- Các ràng buộc cho bảng `teacher_payouts`
+--
+ALTER TABLE `teacher_payouts`
+  ADD CONSTRAINT `teacher_payouts_ibfk_1` FOREIGN KEY (`teacher_id`) REFERENCES `users` (`id`),
+  ADD CONSTRAINT `teacher_payouts_ibfk_2` FOREIGN KEY (`paid_by`) REFERENCES `users` (`id`) ON DELETE SET NULL;
+
+--
+-- Các ràng buộc cho bảng `two_factor_policies`
+--
+ALTER TABLE `two_factor_policies`
+  ADD CONSTRAINT `two_factor_policies_ibfk_1` FOREIGN KEY (`updated_by`) REFERENCES `users` (`id`) ON DELETE SET NULL;
+
+--
+-- Các ràng buộc cho bảng `user_recovery_codes`
+--
+ALTER TABLE `user_recovery_codes`
+  ADD CONSTRAINT `user_recovery_codes_ibfk_1` FOREIGN KEY (`user_id`) REFERENCES `users` (`id`) ON DELETE CASCADE;
 COMMIT;
 
 /*!40101 SET CHARACTER_SET_CLIENT=@OLD_CHARACTER_SET_CLIENT */;
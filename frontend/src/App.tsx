@@ -15,7 +15,9 @@ import LoginPage from './pages/LoginPage';
 import RegisterPage from './pages/RegisterPage';
 import ForgotPasswordPage from './pages/ForgotPasswordPage';
 import ResetPasswordPage from './pages/ResetPasswordPage';
+import VerifyEmailPage from './pages/VerifyEmailPage';
 import NotFoundPage from './pages/NotFoundPage';
+import PaymentReturnPage from './pages/PaymentReturnPage';
 
 // Dashboard Pages - Student
 import StudentDashboardPage from './pages/dashboard/student/DashboardPage';
@@ -35,6 +37,7 @@ import TeacherStudentsPage from './pages/dashboard/teacher/StudentsPage';
 import TeacherStudentDetailPage from './pages/dashboard/teacher/StudentDetailPage';
 import TeacherAssignmentsPage from './pages/dashboard/teacher/AssignmentsPage';
 import TeacherGradebookPage from './pages/dashboard/teacher/GradebookPage';
+import TeacherEarningsPage from './pages/dashboard/teacher/EarningsPage';
 import TeacherMessagesPage from './pages/dashboard/teacher/MessagesPage';
 import TeacherSettingsPage from './pages/dashboard/teacher/SettingsPage';
 
@@ -43,6 +46,7 @@ import AdminDashboardPage from './pages/dashboard/admin/DashboardPage';
 import AdminUsersPage from './pages/dashboard/admin/UsersPage';
 import AdminCoursesPage from './pages/dashboard/admin/CoursesPage';
 import AdminReportsPage from './pages/dashboard/admin/ReportsPage';
+import AdminPaymentsPage from './pages/dashboard/admin/PaymentsPage';
 import AdminSettingsPage from './pages/dashboard/admin/SettingsPage';
 import CourseDetailPage from './pages/dashboard/student/CourseDetailPage';
 import { JSX } from 'react';
@@ -99,9 +103,14 @@ const App = () => {
           <Route path="register" element={redirectAuthorized(<RegisterPage />)} />
           <Route path="forgot-password" element={redirectAuthorized(<ForgotPasswordPage />)} />
           <Route path="reset-password/:token" element={redirectAuthorized(<ResetPasswordPage />)} />
+          <Route path="verify-email/:token" element={<VerifyEmailPage />} />
           <Route path="*" element={<NotFoundPage />} />
         </Route>
 
+        {/* Payment gateways send the buyer back here */}
+        <Route path="/payment/vnpay-return" element={<PaymentReturnPage />} />
+        <Route path="/payment/return/:gateway" element={<PaymentReturnPage />} />
+
         {/* Student Dashboard Routes */}
         <Route 
           path="/dashboard/student" 
@@ -137,6 +146,7 @@ const App = () => {
           <Route path="students/:id" element={<TeacherStudentDetailPage />} />
           <Route path="assignments" element={<TeacherAssignmentsPage />} />
           <Route path="gradebook" element={<TeacherGradebookPage />} />
+          <Route path="earnings" element={<TeacherEarningsPage />} />
           <Route path="messages" element={<TeacherMessagesPage />} />
           <Route path="settings" element={<TeacherSettingsPage />} />
         </Route>
@@ -153,6 +163,7 @@ const App = () => {
           <Route index element={<AdminDashboardPage />} />
           <Route path="users" element={<AdminUsersPage />} />
           <Route path="courses" element={<AdminCoursesPage />} />
+          <Route path="payments" element={<AdminPaymentsPage />} />
           <Route path="reports" element={<AdminReportsPage />} />
           <Route path="settings" element={<AdminSettingsPage />} />
         </Route>
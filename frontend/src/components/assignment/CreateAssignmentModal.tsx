@@ -0,0 +1,263 @@
+// src/components/assignment/CreateAssignmentModal.tsx
+import React, { useEffect, useState } from 'react';
+import Button from '../ui/Button';
+import Alert from '../ui/Alert';
+import RubricBuilder, { emptyCriterion, rubricMaxPoints } from './RubricBuilder';
+import { courseService, CreateAssignmentData, GradingRubric, GradingPolicy } from '../../services/apiServices';
+
+interface CreateAssignmentModalProps {
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+interface AssignmentForm {
+  courseId: string;
+  title: string;
+  description: string;
+  dueDate: string;
+  maxPoints: number;
+  maxAttempts: number;
+  gradingPolicy: GradingPolicy;
+  allowLateSubmission: boolean;
+  latePenaltyPercent: number;
+  isPublished: boolean;
+}
+
+const emptyForm: AssignmentForm = {
+  courseId: '',
+  title: '',
+  description: '',
+  dueDate: '',
+  maxPoints: 100,
+  maxAttempts: 1,
+  gradingPolicy: 'last',
+  allowLateSubmission: false,
+  latePenaltyPercent: 0,
+  isPublished: false
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const CreateAssignmentModal: React.FC<CreateAssignmentModalProps> = ({ onClose, onCreated }) => {
+  const [courses, setCourses] = useState<{ id: string; title: string }[]>([]);
+  const [form, setForm] = useState<AssignmentForm>(emptyForm);
+  const [useRubric, setUseRubric] = useState(false);
+  const [rubric, setRubric] = useState<GradingRubric>({ criteria: [emptyCriterion()] });
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadCourses = async () => {
+      try {
+        const response = await courseService.getMyCourses({ limit: 100 });
+        const myCourses = response.data.courses;
+        setCourses(myCourses);
+        if (myCourses.length > 0) {
+          setForm(prev => ({ ...prev, courseId: myCourses[0].id }));
+        }
+      } catch (err: any) {
+        setError(err.response?.data?.message || 'Failed to load your courses');
+      }
+    };
+    loadCourses();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const data: CreateAssignmentData = {
+      title: form.title,
+      description: form.description,
+      dueDate: form.dueDate ? new Date(form.dueDate).toISOString() : undefined,
+      isPublished: form.isPublished,
+      allowLateSubmission: form.allowLateSubmission,
+      latePenaltyPercent: form.allowLateSubmission ? form.latePenaltyPercent : 0,
+      maxAttempts: form.maxAttempts,
+      gradingPolicy: form.gradingPolicy,
+      // The server sets the maximum points from the rubric
+      ...(useRubric ? { gradingRubric: rubric } : { maxPoints: form.maxPoints })
+    };
+
+    try {
+      setIsSaving(true);
+      await courseService.createAssignment(form.courseId, data);
+      onCreated();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to create assignment');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <h3 className="text-lg font-semibold mb-4">Create Assignment</h3>
+
+        {error && (
+          <div className="mb-4">
+            <Alert type="error" message={error} onClose={() => setError('')} />
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Course *</label>
+            <select
+              value={form.courseId}
+              onChange={(e) => setForm(prev => ({ ...prev, courseId: e.target.value }))}
+              className={inputClass}
+              required
+            >
+              {courses.map(course => (
+                <option key={course.id} value={course.id}>{course.title}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Title *</label>
+            <input
+              type="text"
+              minLength={3}
+              maxLength={255}
+              value={form.title}
+              onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+              className={inputClass}
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Description *</label>
+            <textarea
+              rows={4}
+              minLength={10}
+              maxLength={5000}
+              value={form.description}
+              onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+              className={inputClass}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Due Date</label>
+              <input
+                type="datetime-local"
+                value={form.dueDate}
+                onChange={(e) => setForm(prev => ({ ...prev, dueDate: e.target.value }))}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Attempts</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                value={form.maxAttempts}
+                onChange={(e) => setForm(prev => ({ ...prev, maxAttempts: Number(e.target.value) }))}
+                className={inputClass}
+                title="0 allows unlimited attempts"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Grading Policy</label>
+              <select
+                value={form.gradingPolicy}
+                onChange={(e) => setForm(prev => ({ ...prev, gradingPolicy: e.target.value as GradingPolicy }))}
+                className={inputClass}
+              >
+                <option value="last">Last attempt</option>
+                <option value="best">Best attempt</option>
+                <option value="average">Average</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-6">
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.allowLateSubmission}
+                onChange={(e) => setForm(prev => ({ ...prev, allowLateSubmission: e.target.checked }))}
+                className="mr-2"
+              />
+              Accept late submissions
+            </label>
+            {form.allowLateSubmission && (
+              <label className="flex items-center text-sm text-gray-700">
+                Penalty
+                <input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={form.latePenaltyPercent}
+                  onChange={(e) => setForm(prev => ({ ...prev, latePenaltyPercent: Number(e.target.value) }))}
+                  className="mx-2 w-20 px-2 py-1 border border-gray-300 rounded-md"
+                />
+                %
+              </label>
+            )}
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.isPublished}
+                onChange={(e) => setForm(prev => ({ ...prev, isPublished: e.target.checked }))}
+                className="mr-2"
+              />
+              Publish now
+            </label>
+          </div>
+
+          <div className="border-t border-gray-200 pt-4">
+            <label className="flex items-center text-sm font-medium text-gray-700 mb-3">
+              <input
+                type="checkbox"
+                checked={useRubric}
+                onChange={(e) => setUseRubric(e.target.checked)}
+                className="mr-2"
+              />
+              Grade with a rubric
+            </label>
+
+            {useRubric ? (
+              <RubricBuilder rubric={rubric} onChange={setRubric} />
+            ) : (
+              <div className="w-40">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Max Points *</label>
+                <input
+                  type="number"
+                  min="1"
+                  max="1000"
+                  value={form.maxPoints}
+                  onChange={(e) => setForm(prev => ({ ...prev, maxPoints: Number(e.target.value) }))}
+                  className={inputClass}
+                  required
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              variant="primary"
+              isLoading={isSaving}
+              disabled={!form.courseId || (useRubric && (rubric.criteria.length === 0 || rubricMaxPoints(rubric) === 0))}
+            >
+              Create Assignment
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CreateAssignmentModal;
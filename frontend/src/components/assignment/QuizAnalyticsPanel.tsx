@@ -0,0 +1,107 @@
+// src/components/assignment/QuizAnalyticsPanel.tsx
+import React, { useEffect, useState } from 'react';
+import Alert from '../ui/Alert';
+import Spinner from '../ui/Spinner';
+import { quizService, QuizAnalytics, QuizTargetType } from '../../services/apiServices';
+
+interface QuizAnalyticsPanelProps {
+  targetType: QuizTargetType;
+  targetId: string;
+}
+
+const formatDuration = (seconds: number | null) =>
+  seconds === null ? '-' : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+
+const QuizAnalyticsPanel: React.FC<QuizAnalyticsPanelProps> = ({ targetType, targetId }) => {
+  const [analytics, setAnalytics] = useState<QuizAnalytics | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadAnalytics = async () => {
+      try {
+        const response = await quizService.getAnalytics(targetType, targetId);
+        setAnalytics(response.data.analytics);
+      } catch (err: any) {
+        setError(err.response?.data?.message || 'Failed to load quiz analytics');
+      }
+    };
+    loadAnalytics();
+  }, [targetType, targetId]);
+
+  if (error) {
+    return <Alert type="error" message={error} />;
+  }
+
+  if (!analytics) {
+    return (
+      <div className="flex justify-center py-6">
+        <Spinner size="lg" />
+      </div>
+    );
+  }
+
+  if (analytics.attempts === 0) {
+    return <p className="text-sm text-gray-500">No scored attempts yet.</p>;
+  }
+
+  const stats = [
+    { label: 'Attempts', value: `${analytics.attempts} by ${analytics.students} students` },
+    { label: 'Average', value: `${analytics.averageScore ?? '-'} / ${analytics.maxScore}` },
+    { label: 'Highest / Lowest', value: `${analytics.highestScore ?? '-'} / ${analytics.lowestScore ?? '-'}` },
+    { label: 'Average Time', value: formatDuration(analytics.averageSeconds) }
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {stats.map((stat) => (
+          <div key={stat.label} className="rounded-lg bg-gray-50 p-3">
+            <p className="text-xs text-gray-500">{stat.label}</p>
+            <p className="text-sm font-medium text-gray-900">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <ol className="space-y-3">
+        {analytics.questions.map((q) => {
+          const total = q.answered + q.skipped;
+          return (
+            <li key={q.itemId} className="rounded-lg border border-gray-200 p-4">
+              <div className="flex items-start justify-between">
+                <p className="font-medium text-gray-900">
+                  {q.position}. {q.question}
+                </p>
+                <span
+                  className={`ml-4 whitespace-nowrap text-sm font-medium ${
+                    q.correctRate !== null && q.correctRate < 50 ? 'text-danger-600' : 'text-success-700'
+                  }`}
+                >
+                  {q.correctRate === null ? '-' : `${q.correctRate}% correct`}
+                </span>
+              </div>
+              <div className="mt-2 space-y-1">
+                {q.options.map((option, index) => (
+                  <div key={index} className="flex items-center text-sm">
+                    <span className={`w-1/2 truncate ${index === q.correctOptionIndex ? 'font-medium text-success-700' : 'text-gray-700'}`}>
+                      {option}
+                    </span>
+                    <div className="mx-3 flex-1 bg-gray-200 rounded-full h-1.5">
+                      <div
+                        className={`h-1.5 rounded-full ${index === q.correctOptionIndex ? 'bg-success-500' : 'bg-gray-400'}`}
+                        style={{ width: `${total > 0 ? (q.optionCounts[index] / total) * 100 : 0}%` }}
+                      ></div>
+                    </div>
+                    <span className="w-8 text-right text-gray-500">{q.optionCounts[index]}</span>
+                  </div>
+                ))}
+              </div>
+              {q.skipped > 0 && <p className="mt-1 text-xs text-gray-500">Skipped by {q.skipped}</p>}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default QuizAnalyticsPanel;
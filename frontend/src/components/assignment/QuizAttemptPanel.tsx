@@ -0,0 +1,240 @@
+// src/components/assignment/QuizAttemptPanel.tsx
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { CheckCircleIcon, ClockIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import Button from '../ui/Button';
+import Alert from '../ui/Alert';
+import Spinner from '../ui/Spinner';
+import { quizService, QuizAttempt, QuizAnswer, QuizTargetType } from '../../services/apiServices';
+
+interface QuizAttemptPanelProps {
+  targetType: QuizTargetType;
+  targetId: string;
+  // The page refreshes its grades on close, after the score was seen
+  onClose: () => void;
+}
+
+// Wait this long after the last pick before autosaving the answers
+const AUTOSAVE_DELAY_MS = 1500;
+
+const formatClock = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const QuizAttemptPanel: React.FC<QuizAttemptPanelProps> = ({ targetType, targetId, onClose }) => {
+  const [attempt, setAttempt] = useState<QuizAttempt | null>(null);
+  const [answers, setAnswers] = useState<Record<string, number | null>>({});
+  const [remainingSeconds, setRemainingSeconds] = useState<number | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const autosaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const answersRef = useRef(answers);
+  answersRef.current = answers;
+
+  // Starts a new attempt, or resumes the one in progress
+  useEffect(() => {
+    const start = async () => {
+      try {
+        const response = await quizService.startAttempt(targetType, targetId);
+        const started: QuizAttempt = response.data.attempt;
+        setAttempt(started);
+        setAnswers(Object.fromEntries(started.questions.map((q) => [q.itemId, q.selectedOptionIndex])));
+        setRemainingSeconds(started.remainingSeconds);
+      } catch (err: any) {
+        setError(err.response?.data?.message || 'Failed to start the quiz');
+      }
+    };
+    start();
+  }, [targetType, targetId]);
+
+  const toAnswerList = (values: Record<string, number | null>): QuizAnswer[] =>
+    Object.entries(values).map(([itemId, optionIndex]) => ({ itemId, optionIndex }));
+
+  const saveAnswers = useCallback(async (attemptId: string, values: Record<string, number | null>) => {
+    try {
+      setIsSaving(true);
+      await quizService.saveAnswers(attemptId, toAnswerList(values));
+      if (answersRef.current === values) {
+        setIsDirty(false);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to save your answers');
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!attempt || attempt.status !== 'in_progress' || !isDirty) return;
+
+    autosaveTimer.current = setTimeout(() => saveAnswers(attempt.id, answers), AUTOSAVE_DELAY_MS);
+    return () => {
+      if (autosaveTimer.current) clearTimeout(autosaveTimer.current);
+    };
+  }, [attempt, answers, isDirty, saveAnswers]);
+
+  const handleSubmit = useCallback(async () => {
+    if (!attempt) return;
+    if (autosaveTimer.current) clearTimeout(autosaveTimer.current);
+
+    try {
+      setIsSubmitting(true);
+      setError('');
+      const response = await quizService.submitAttempt(attempt.id, toAnswerList(answersRef.current));
+      setAttempt(response.data.attempt);
+      setMessage(response.message);
+      setIsDirty(false);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to submit the quiz');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [attempt]);
+
+  const isOpen = attempt?.status === 'in_progress';
+
+  // Count down locally; the server enforces the limit either way
+  useEffect(() => {
+    if (!isOpen || remainingSeconds === null) return;
+    if (remainingSeconds <= 0) {
+      handleSubmit();
+      return;
+    }
+
+    const timer = setTimeout(() => setRemainingSeconds(remainingSeconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [isOpen, remainingSeconds, handleSubmit]);
+
+  // Unsaved picks are saved before closing; the attempt stays open to resume later
+  const handleClose = async () => {
+    if (attempt?.status === 'in_progress' && isDirty) {
+      if (autosaveTimer.current) clearTimeout(autosaveTimer.current);
+      await saveAnswers(attempt.id, answers);
+    }
+    onClose();
+  };
+
+  const selectOption = (itemId: string, optionIndex: number) => {
+    setAnswers(prev => ({ ...prev, [itemId]: optionIndex }));
+    setIsDirty(true);
+  };
+
+  if (!attempt) {
+    return (
+      <div className="mt-4 border-t border-gray-100 pt-4">
+        {error ? (
+          <div className="space-y-3">
+            <Alert type="error" message={error} />
+            <Button variant="outline" size="sm" onClick={onClose}>
+              Close
+            </Button>
+          </div>
+        ) : (
+          <div className="flex justify-center py-6">
+            <Spinner size="lg" />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const answeredCount = Object.values(answers).filter((value) => value !== null).length;
+
+  return (
+    <div className="mt-4 space-y-4 border-t border-gray-100 pt-4">
+      {error && <Alert type="error" message={error} onClose={() => setError('')} />}
+      {message && <Alert type={attempt.status === 'expired' ? 'warning' : 'success'} message={message} />}
+
+      <div className="flex items-center justify-between text-sm">
+        {isOpen ? (
+          <span className="text-gray-600">
+            {answeredCount} of {attempt.questions.length} answered
+          </span>
+        ) : (
+          <span className="font-medium text-gray-900">
+            Score: {attempt.score}/{attempt.maxScore}
+          </span>
+        )}
+        {isOpen && remainingSeconds !== null && (
+          <span className={`flex items-center font-medium ${remainingSeconds < 60 ? 'text-danger-600' : 'text-gray-700'}`}>
+            <ClockIcon className="h-4 w-4 mr-1" />
+            {formatClock(remainingSeconds)}
+          </span>
+        )}
+      </div>
+
+      <ol className="space-y-4">
+        {attempt.questions.map((q) => (
+          <li key={q.itemId} className="rounded-lg border border-gray-200 p-4">
+            <div className="flex items-start justify-between mb-2">
+              <p className="font-medium text-gray-900">
+                {q.position}. {q.question}
+              </p>
+              <span className="ml-4 flex items-center whitespace-nowrap text-xs text-gray-500">
+                {!isOpen && (q.isCorrect
+                  ? <CheckCircleIcon className="h-4 w-4 mr-1 text-success-600" />
+                  : <XCircleIcon className="h-4 w-4 mr-1 text-danger-600" />)}
+                {isOpen ? `${q.points} pts` : `${q.pointsAwarded}/${q.points} pts`}
+              </span>
+            </div>
+            <div className="space-y-1">
+              {q.options.map((option, index) => {
+                const isSelected = (isOpen ? answers[q.itemId] : q.selectedOptionIndex) === index;
+                // A scored pick shows whether it was right even when the correct option stays hidden
+                const isCorrectOption = q.correctOptionIndex === index || (isSelected && !isOpen && q.isCorrect);
+                return (
+                  <label
+                    key={index}
+                    className={`flex items-center rounded-md px-3 py-2 text-sm ${
+                      isCorrectOption ? 'bg-success-50' : isSelected && !isOpen ? 'bg-danger-50' : ''
+                    } ${isOpen ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+                  >
+                    <input
+                      type="radio"
+                      name={q.itemId}
+                      checked={isSelected}
+                      disabled={!isOpen}
+                      onChange={() => selectOption(q.itemId, index)}
+                      className="mr-2"
+                    />
+                    {option}
+                  </label>
+                );
+              })}
+            </div>
+            {q.explanation && (
+              <p className="mt-2 rounded bg-gray-100 p-2 text-sm text-gray-600">{q.explanation}</p>
+            )}
+          </li>
+        ))}
+      </ol>
+
+      {!isOpen && !attempt.answersRevealed && (
+        <p className="text-xs text-gray-500">
+          Correct answers are shown once you have used all your attempts or the due date has passed.
+        </p>
+      )}
+
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-500">
+          {isOpen && (isSaving ? 'Saving...' : isDirty ? 'Unsaved answers' : 'Your answers are saved as you go')}
+        </span>
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" onClick={handleClose} disabled={isSubmitting}>
+            Close
+          </Button>
+          {isOpen && (
+            <Button variant="primary" size="sm" isLoading={isSubmitting} onClick={handleSubmit}>
+              Submit Quiz
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuizAttemptPanel;
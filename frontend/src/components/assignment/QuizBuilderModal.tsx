@@ -0,0 +1,451 @@
+// src/components/assignment/QuizBuilderModal.tsx
+import React, { useEffect, useState } from 'react';
+import { PlusIcon, SparklesIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import Button from '../ui/Button';
+import Alert from '../ui/Alert';
+import Spinner from '../ui/Spinner';
+import QuizAnalyticsPanel from './QuizAnalyticsPanel';
+import {
+  aiService,
+  courseService,
+  quizService,
+  QuizBankQuestion,
+  QuizItem,
+  QuizQuestionData,
+  TeacherQuiz
+} from '../../services/apiServices';
+
+interface QuizBuilderModalProps {
+  assignment: { id: string; title: string; courseId: string };
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+interface SelectedItem {
+  questionId: string;
+  points: number;
+}
+
+const emptyQuestion = (): QuizQuestionData => ({
+  question: '',
+  options: ['', ''],
+  correctAnswerIndex: 0,
+  explanation: ''
+});
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const QuizBuilderModal: React.FC<QuizBuilderModalProps> = ({ assignment, onClose, onSaved }) => {
+  const [tab, setTab] = useState<'questions' | 'analytics'>('questions');
+  const [quiz, setQuiz] = useState<TeacherQuiz | null>(null);
+  const [bank, setBank] = useState<QuizBankQuestion[]>([]);
+  const [lectures, setLectures] = useState<{ id: string; title: string }[]>([]);
+  const [selected, setSelected] = useState<SelectedItem[]>([]);
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState(0);
+  const [shuffleQuestions, setShuffleQuestions] = useState(true);
+  const [shuffleOptions, setShuffleOptions] = useState(true);
+  const [draft, setDraft] = useState<QuizQuestionData | null>(null);
+  const [aiLectureId, setAiLectureId] = useState('');
+  const [aiCount, setAiCount] = useState(5);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [quizResponse, bankResponse, lectureResponse] = await Promise.all([
+          quizService.getQuiz('assignments', assignment.id),
+          quizService.getQuestions(assignment.courseId),
+          courseService.getCourseLectures(assignment.courseId)
+        ]);
+        const current: TeacherQuiz = quizResponse.data.quiz;
+        setQuiz(current);
+        setSelected(current.items.map((item: QuizItem) => ({ questionId: item.question_id, points: Number(item.points) })));
+        setTimeLimitMinutes(current.timeLimitMinutes ?? 0);
+        setShuffleQuestions(Boolean(current.shuffleQuestions));
+        setShuffleOptions(Boolean(current.shuffleOptions));
+        setBank(bankResponse.data.questions);
+        setLectures(lectureResponse.data.lectures);
+        if (lectureResponse.data.lectures.length > 0) {
+          setAiLectureId(lectureResponse.data.lectures[0].id);
+        }
+      } catch (err: any) {
+        setError(err.response?.data?.message || 'Failed to load the quiz');
+      }
+    };
+    load();
+  }, [assignment.id, assignment.courseId]);
+
+  // Questions already answered by students are scored as they were, so the quiz is frozen
+  const isLocked = Boolean(quiz && quiz.attemptCount > 0);
+  const isSelected = (questionId: string) => selected.some((item) => item.questionId === questionId);
+  const totalPoints = selected.reduce((sum, item) => sum + item.points, 0);
+
+  const addToBank = async (questions: QuizQuestionData[], source: 'manual' | 'ai', sourceLectureId?: string) => {
+    const response = await quizService.createQuestions({ courseId: assignment.courseId, questions, source, sourceLectureId });
+    const created: QuizBankQuestion[] = response.data.questions;
+    setBank(prev => [...created, ...prev]);
+    if (!isLocked) {
+      setSelected(prev => [...prev, ...created.map((question) => ({ questionId: question.id, points: 1 }))]);
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    if (!draft) return;
+
+    try {
+      setError('');
+      await addToBank([{ ...draft, explanation: draft.explanation?.trim() || undefined }], 'manual');
+      setDraft(null);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to add the question');
+    }
+  };
+
+  const handleGenerate = async () => {
+    try {
+      setIsGenerating(true);
+      setError('');
+      const response = await aiService.generateQuiz({ lectureId: aiLectureId, numQuestions: aiCount });
+      await addToBank(response.data.questions, 'ai', aiLectureId);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to generate questions');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleDeleteQuestion = async (questionId: string) => {
+    try {
+      await quizService.deleteQuestion(questionId);
+      setBank(prev => prev.filter((question) => question.id !== questionId));
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to delete the question');
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      setError('');
+      await quizService.setQuizQuestions('assignments', assignment.id, {
+        items: selected,
+        timeLimitMinutes,
+        shuffleQuestions,
+        shuffleOptions
+      });
+      onSaved();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to save the quiz');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const updateDraftOption = (index: number, value: string) => {
+    setDraft(prev => prev && { ...prev, options: prev.options.map((option, i) => (i === index ? value : option)) });
+  };
+
+  const removeDraftOption = (index: number) => {
+    setDraft(prev => prev && {
+      ...prev,
+      options: prev.options.filter((_, i) => i !== index),
+      correctAnswerIndex: prev.correctAnswerIndex === index ? 0 : prev.correctAnswerIndex - (prev.correctAnswerIndex > index ? 1 : 0)
+    });
+  };
+
+  const questionText = (questionId: string) => bank.find((question) => question.id === questionId)?.question ?? '';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold">Quiz: {assignment.title}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex space-x-2 mb-4">
+          {(['questions', 'analytics'] as const).map((value) => (
+            <button
+              key={value}
+              className={`px-4 py-2 rounded-md text-sm font-medium ${
+                tab === value ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+              onClick={() => setTab(value)}
+            >
+              {value === 'questions' ? 'Questions' : 'Analytics'}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="mb-4">
+            <Alert type="error" message={error} onClose={() => setError('')} />
+          </div>
+        )}
+
+        {tab === 'analytics' ? (
+          <QuizAnalyticsPanel targetType="assignments" targetId={assignment.id} />
+        ) : !quiz ? (
+          <div className="flex justify-center py-6">
+            <Spinner size="lg" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {isLocked && (
+              <Alert
+                type="info"
+                message={`Students have made ${quiz.attemptCount} attempts, so the questions and settings can no longer change.`}
+              />
+            )}
+
+            <div className="grid grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Time Limit (minutes)</label>
+                <input
+                  type="number"
+                  min="0"
+                  max="600"
+                  value={timeLimitMinutes}
+                  onChange={(e) => setTimeLimitMinutes(Number(e.target.value))}
+                  className={inputClass}
+                  title="0 means no time limit"
+                  disabled={isLocked}
+                />
+              </div>
+              <label className="flex items-center text-sm text-gray-700 pt-6">
+                <input
+                  type="checkbox"
+                  checked={shuffleQuestions}
+                  onChange={(e) => setShuffleQuestions(e.target.checked)}
+                  className="mr-2"
+                  disabled={isLocked}
+                />
+                Shuffle questions
+              </label>
+              <label className="flex items-center text-sm text-gray-700 pt-6">
+                <input
+                  type="checkbox"
+                  checked={shuffleOptions}
+                  onChange={(e) => setShuffleOptions(e.target.checked)}
+                  className="mr-2"
+                  disabled={isLocked}
+                />
+                Shuffle options
+              </label>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-semibold text-gray-900 mb-2">
+                In this quiz ({selected.length} questions, {totalPoints} points)
+              </h4>
+              {selected.length === 0 ? (
+                <p className="text-sm text-gray-500">Add questions from the bank below.</p>
+              ) : (
+                <ol className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+                  {selected.map((item, index) => (
+                    <li key={item.questionId} className="flex items-center justify-between px-3 py-2 text-sm">
+                      <span className="flex-1 truncate">
+                        {index + 1}. {questionText(item.questionId)}
+                      </span>
+                      <input
+                        type="number"
+                        min="1"
+                        max="100"
+                        value={item.points}
+                        onChange={(e) => setSelected(prev => prev.map((entry) =>
+                          entry.questionId === item.questionId ? { ...entry, points: Number(e.target.value) } : entry
+                        ))}
+                        className="mx-3 w-16 px-2 py-1 border border-gray-300 rounded-md"
+                        title="Points"
+                        disabled={isLocked}
+                      />
+                      {!isLocked && (
+                        <button
+                          onClick={() => setSelected(prev => prev.filter((entry) => entry.questionId !== item.questionId))}
+                          className="text-danger-600 hover:text-danger-900"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+
+            <div className="border-t border-gray-200 pt-4">
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                <h4 className="text-sm font-semibold text-gray-900">Question Bank</h4>
+                <div className="flex items-center space-x-2">
+                  <select
+                    value={aiLectureId}
+                    onChange={(e) => setAiLectureId(e.target.value)}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm max-w-[12rem]"
+                  >
+                    {lectures.map((lecture) => (
+                      <option key={lecture.id} value={lecture.id}>{lecture.title}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    min="1"
+                    max="20"
+                    value={aiCount}
+                    onChange={(e) => setAiCount(Number(e.target.value))}
+                    className="w-16 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                    title="Number of questions"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    leftIcon={<SparklesIcon className="h-4 w-4" />}
+                    isLoading={isGenerating}
+                    disabled={!aiLectureId}
+                    onClick={handleGenerate}
+                  >
+                    Generate from Lecture
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    leftIcon={<PlusIcon className="h-4 w-4" />}
+                    onClick={() => setDraft(emptyQuestion())}
+                  >
+                    Write Question
+                  </Button>
+                </div>
+              </div>
+
+              {draft && (
+                <div className="mb-4 space-y-2 rounded-md border border-primary-200 bg-primary-50 p-4">
+                  <textarea
+                    rows={2}
+                    placeholder="Question"
+                    value={draft.question}
+                    onChange={(e) => setDraft({ ...draft, question: e.target.value })}
+                    className={inputClass}
+                  />
+                  {draft.options.map((option, index) => (
+                    <div key={index} className="flex items-center space-x-2">
+                      <input
+                        type="radio"
+                        name="correct-option"
+                        checked={draft.correctAnswerIndex === index}
+                        onChange={() => setDraft({ ...draft, correctAnswerIndex: index })}
+                        title="Correct answer"
+                      />
+                      <input
+                        type="text"
+                        placeholder={`Option ${index + 1}`}
+                        value={option}
+                        onChange={(e) => updateDraftOption(index, e.target.value)}
+                        className={inputClass}
+                      />
+                      {draft.options.length > 2 && (
+                        <button onClick={() => removeDraftOption(index)} className="text-gray-400 hover:text-danger-600">
+                          <TrashIcon className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  {draft.options.length < 6 && (
+                    <button
+                      onClick={() => setDraft({ ...draft, options: [...draft.options, ''] })}
+                      className="text-sm text-primary-600 hover:text-primary-800"
+                    >
+                      + Add option
+                    </button>
+                  )}
+                  <input
+                    type="text"
+                    placeholder="Explanation shown with the results (optional)"
+                    value={draft.explanation}
+                    onChange={(e) => setDraft({ ...draft, explanation: e.target.value })}
+                    className={inputClass}
+                  />
+                  <div className="flex justify-end space-x-2">
+                    <Button variant="outline" size="sm" onClick={() => setDraft(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      variant="primary"
+                      size="sm"
+                      disabled={!draft.question.trim() || draft.options.some((option) => !option.trim())}
+                      onClick={handleSaveDraft}
+                    >
+                      Add to Bank
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {bank.length === 0 ? (
+                <p className="text-sm text-gray-500">This course has no questions yet.</p>
+              ) : (
+                <ul className="divide-y divide-gray-200 border border-gray-200 rounded-md max-h-80 overflow-y-auto">
+                  {bank.map((question) => (
+                    <li key={question.id} className="px-3 py-2 text-sm">
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <p className="font-medium text-gray-900">
+                            {question.question}
+                            {question.source === 'ai' && (
+                              <span className="ml-2 px-1.5 py-0.5 rounded text-xs bg-accent-100 text-accent-800">AI</span>
+                            )}
+                          </p>
+                          <p className="text-gray-500">
+                            {question.options.map((option, index) => (
+                              <span key={index} className={index === question.correct_option_index ? 'text-success-700 font-medium' : ''}>
+                                {index > 0 && ' · '}
+                                {option}
+                              </span>
+                            ))}
+                          </p>
+                        </div>
+                        <div className="ml-3 flex items-center space-x-2">
+                          {!isLocked && !isSelected(question.id) && (
+                            <button
+                              onClick={() => setSelected(prev => [...prev, { questionId: question.id, points: 1 }])}
+                              className="text-primary-600 hover:text-primary-900"
+                            >
+                              Add
+                            </button>
+                          )}
+                          {!question.usage_count && !isSelected(question.id) && (
+                            <button onClick={() => handleDeleteQuestion(question.id)} className="text-gray-400 hover:text-danger-600">
+                              <TrashIcon className="h-4 w-4" />
+                            </button>
+                          )}
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                isLoading={isSaving}
+                disabled={isLocked || selected.length === 0 || selected.some((item) => item.points < 1)}
+                onClick={handleSave}
+              >
+                Save Quiz
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuizBuilderModal;
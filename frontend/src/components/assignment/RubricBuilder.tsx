@@ -0,0 +1,151 @@
+// src/components/assignment/RubricBuilder.tsx
+import React from 'react';
+import Button from '../ui/Button';
+import { PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { GradingRubric, RubricCriterion, RubricLevel } from '../../services/apiServices';
+
+interface RubricBuilderProps {
+  rubric: GradingRubric;
+  onChange: (rubric: GradingRubric) => void;
+}
+
+const emptyLevel = (): RubricLevel => ({ title: '', points: 0, descriptor: '' });
+
+export const emptyCriterion = (): RubricCriterion => ({
+  title: '',
+  description: '',
+  levels: [
+    { title: 'Excellent', points: 10, descriptor: '' },
+    { title: 'Satisfactory', points: 5, descriptor: '' },
+    { title: 'Needs work', points: 0, descriptor: '' }
+  ]
+});
+
+// The most a submission can score: the best level of every criterion
+export const rubricMaxPoints = (rubric: GradingRubric): number =>
+  rubric.criteria.reduce(
+    (sum, criterion) => sum + (criterion.levels.length ? Math.max(...criterion.levels.map((level) => level.points)) : 0),
+    0
+  );
+
+const RubricBuilder: React.FC<RubricBuilderProps> = ({ rubric, onChange }) => {
+  const updateCriterion = (index: number, changes: Partial<RubricCriterion>) => {
+    onChange({
+      criteria: rubric.criteria.map((criterion, i) => (i === index ? { ...criterion, ...changes } : criterion))
+    });
+  };
+
+  const updateLevel = (criterionIndex: number, levelIndex: number, changes: Partial<RubricLevel>) => {
+    const levels = rubric.criteria[criterionIndex].levels.map((level, i) =>
+      i === levelIndex ? { ...level, ...changes } : level
+    );
+    updateCriterion(criterionIndex, { levels });
+  };
+
+  const removeCriterion = (index: number) => {
+    onChange({ criteria: rubric.criteria.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-4">
+      {rubric.criteria.map((criterion, criterionIndex) => (
+        <div key={criterionIndex} className="border border-gray-200 rounded-md p-4">
+          <div className="flex items-start gap-2 mb-3">
+            <div className="flex-1 space-y-2">
+              <input
+                type="text"
+                value={criterion.title}
+                onChange={(e) => updateCriterion(criterionIndex, { title: e.target.value })}
+                placeholder="Criterion, e.g. Code quality"
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+              <input
+                type="text"
+                value={criterion.description ?? ''}
+                onChange={(e) => updateCriterion(criterionIndex, { description: e.target.value })}
+                placeholder="What this criterion looks at (optional)"
+                className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={() => removeCriterion(criterionIndex)}
+              className="p-2 text-gray-400 hover:text-danger-600"
+              title="Remove criterion"
+            >
+              <TrashIcon className="h-5 w-5" />
+            </button>
+          </div>
+
+          <div className="space-y-2">
+            {criterion.levels.map((level, levelIndex) => (
+              <div key={levelIndex} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  value={level.title}
+                  onChange={(e) => updateLevel(criterionIndex, levelIndex, { title: e.target.value })}
+                  placeholder="Level"
+                  className="w-36 border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={level.points}
+                  onChange={(e) => updateLevel(criterionIndex, levelIndex, { points: Math.max(0, parseInt(e.target.value) || 0) })}
+                  className="w-20 border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  title="Points"
+                />
+                <input
+                  type="text"
+                  value={level.descriptor}
+                  onChange={(e) => updateLevel(criterionIndex, levelIndex, { descriptor: e.target.value })}
+                  placeholder="What work at this level looks like"
+                  className="flex-1 border border-gray-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <button
+                  type="button"
+                  onClick={() => updateCriterion(criterionIndex, {
+                    levels: criterion.levels.filter((_, i) => i !== levelIndex)
+                  })}
+                  disabled={criterion.levels.length === 1}
+                  className="p-1 text-gray-400 hover:text-danger-600 disabled:opacity-30"
+                  title="Remove level"
+                >
+                  <TrashIcon className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <button
+            type="button"
+            onClick={() => updateCriterion(criterionIndex, { levels: [...criterion.levels, emptyLevel()] })}
+            className="mt-2 text-sm text-primary-600 hover:text-primary-800"
+          >
+            + Add level
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          leftIcon={<PlusIcon className="h-4 w-4" />}
+          onClick={() => onChange({ criteria: [...rubric.criteria, emptyCriterion()] })}
+        >
+          Add Criterion
+        </Button>
+        {rubric.criteria.length > 0 && (
+          <span className="text-sm text-gray-600">
+            Total: <span className="font-medium">{rubricMaxPoints(rubric)}</span> points
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RubricBuilder;
@@ -0,0 +1,60 @@
+// src/components/assignment/RubricTable.tsx
+import React from 'react';
+import { GradingRubric, RubricCriterionScore } from '../../services/apiServices';
+
+interface RubricTableProps {
+  rubric: GradingRubric;
+  // The level picked for each criterion; missing criteria show as not scored yet
+  scores?: Pick<RubricCriterionScore, 'criterionId' | 'levelId' | 'comment'>[] | null;
+  // Makes the levels clickable, for grading
+  onSelect?: (criterionId: string, levelId: string) => void;
+}
+
+const RubricTable: React.FC<RubricTableProps> = ({ rubric, scores, onSelect }) => {
+  const selectedLevel = (criterionId?: string) => scores?.find((score) => score.criterionId === criterionId);
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full border border-gray-200 text-sm">
+        <tbody>
+          {rubric.criteria.map((criterion) => {
+            const selected = selectedLevel(criterion.id);
+            return (
+              <tr key={criterion.id} className="border-b border-gray-200 align-top">
+                <th className="w-48 bg-gray-50 px-3 py-2 text-left font-medium text-gray-900">
+                  {criterion.title}
+                  {criterion.description && (
+                    <p className="mt-1 text-xs font-normal text-gray-500">{criterion.description}</p>
+                  )}
+                  {selected?.comment && (
+                    <p className="mt-2 text-xs font-normal italic text-gray-700">{selected.comment}</p>
+                  )}
+                </th>
+                {criterion.levels.map((level) => {
+                  const isSelected = selected?.levelId === level.id;
+                  return (
+                    <td
+                      key={level.id}
+                      onClick={onSelect && criterion.id && level.id ? () => onSelect(criterion.id!, level.id!) : undefined}
+                      className={`px-3 py-2 border-l border-gray-200 ${
+                        isSelected ? 'bg-primary-50 ring-2 ring-inset ring-primary-500' : ''
+                      } ${onSelect ? 'cursor-pointer hover:bg-gray-50' : ''}`}
+                    >
+                      <div className="flex justify-between gap-2">
+                        <span className="font-medium text-gray-900">{level.title}</span>
+                        <span className="text-gray-600">{level.points} pts</span>
+                      </div>
+                      {level.descriptor && <p className="mt-1 text-xs text-gray-600">{level.descriptor}</p>}
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default RubricTable;
@@ -0,0 +1,271 @@
+// src/components/assignment/TestCasesModal.tsx
+import React, { useEffect, useState } from 'react';
+import { EyeSlashIcon, PlayIcon, PlusIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import Button from '../ui/Button';
+import Alert from '../ui/Alert';
+import Spinner from '../ui/Spinner';
+import TestResultsList from './TestResultsList';
+import {
+  assignmentService,
+  CodeGradingReport,
+  CodeLanguage,
+  CodeTestCase
+} from '../../services/apiServices';
+
+interface TestCasesModalProps {
+  assignment: { id: string; title: string };
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const emptyTestCase = (kind: CodeTestCase['kind'], position: number): CodeTestCase => ({
+  name: `Test ${position}`,
+  kind,
+  stdin: kind === 'io' ? '' : null,
+  expectedOutput: kind === 'io' ? '' : null,
+  testCode: kind === 'test_file'
+    ? "const { solve } = require('./solution');\n\ntest('solves the example', () => {\n  assert.strictEqual(solve(1, 2), 3);\n});\n"
+    : null,
+  points: 1,
+  isHidden: true
+});
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500';
+const codeClass = `${inputClass} font-mono text-xs`;
+
+const TestCasesModal: React.FC<TestCasesModalProps> = ({ assignment, onClose, onSaved }) => {
+  const [testCases, setTestCases] = useState<CodeTestCase[] | null>(null);
+  const [language, setLanguage] = useState<CodeLanguage>('javascript');
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [code, setCode] = useState('');
+  const [report, setReport] = useState<CodeGradingReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await assignmentService.getTestCases(assignment.id);
+        setTestCases(response.data.testCases);
+        setLanguage(response.data.language);
+      } catch (err: any) {
+        setError(err.response?.data?.message || 'Failed to load the test cases');
+      }
+    };
+    load();
+  }, [assignment.id]);
+
+  const updateTestCase = (index: number, changes: Partial<CodeTestCase>) => {
+    setTestCases(prev => prev && prev.map((testCase, i) => (i === index ? { ...testCase, ...changes } : testCase)));
+    setIsDirty(true);
+  };
+
+  const addTestCase = (kind: CodeTestCase['kind']) => {
+    setTestCases(prev => prev && [...prev, emptyTestCase(kind, prev.length + 1)]);
+    setIsDirty(true);
+  };
+
+  const removeTestCase = (index: number) => {
+    setTestCases(prev => prev && prev.filter((_, i) => i !== index));
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    if (!testCases) return;
+
+    try {
+      setIsSaving(true);
+      setError('');
+      const response = await assignmentService.setTestCases(assignment.id, { language, testCases });
+      setTestCases(response.data.testCases);
+      setIsDirty(false);
+      onSaved();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to save the test cases');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRun = async () => {
+    try {
+      setIsRunning(true);
+      setError('');
+      setReport(null);
+      const response = await assignmentService.runTestCases(assignment.id, { code, language });
+      setReport(response.data.report);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to run the tests');
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const totalPoints = (testCases ?? []).reduce((sum, testCase) => sum + testCase.points, 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold">Tests: {assignment.title}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4">
+            <Alert type="error" message={error} onClose={() => setError('')} />
+          </div>
+        )}
+
+        {!testCases ? (
+          <div className="flex justify-center py-6">
+            <Spinner size="lg" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <p className="text-sm text-gray-600">
+              Submissions are run against these tests when students submit, and the share of points they pass becomes
+              their grade. Hidden tests show students only their name and result.
+            </p>
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <label className="text-sm font-medium text-gray-700">Language</label>
+                <select
+                  value={language}
+                  onChange={(e) => {
+                    setLanguage(e.target.value as CodeLanguage);
+                    setIsDirty(true);
+                  }}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="javascript">JavaScript</option>
+                  <option value="typescript">TypeScript</option>
+                </select>
+              </div>
+              <span className="text-sm text-gray-500">
+                {testCases.length} tests, {totalPoints} points
+              </span>
+            </div>
+
+            <ol className="space-y-4">
+              {testCases.map((testCase, index) => (
+                <li key={testCase.id ?? `new-${index}`} className="rounded-lg border border-gray-200 p-4 space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="text"
+                      value={testCase.name}
+                      onChange={(e) => updateTestCase(index, { name: e.target.value })}
+                      className={inputClass}
+                      placeholder="Test name"
+                    />
+                    <span className="whitespace-nowrap rounded bg-gray-100 px-2 py-1 text-xs text-gray-600">
+                      {testCase.kind === 'io' ? 'Input / output' : 'Test file'}
+                    </span>
+                    <input
+                      type="number"
+                      min="1"
+                      max="100"
+                      value={testCase.points}
+                      onChange={(e) => updateTestCase(index, { points: Number(e.target.value) })}
+                      className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+                      title="Points"
+                    />
+                    <label className="flex items-center whitespace-nowrap text-sm text-gray-700" title="Students only see the name and result">
+                      <input
+                        type="checkbox"
+                        checked={testCase.isHidden}
+                        onChange={(e) => updateTestCase(index, { isHidden: e.target.checked })}
+                        className="mr-1"
+                      />
+                      <EyeSlashIcon className="h-4 w-4 mr-1" />
+                      Hidden
+                    </label>
+                    <button onClick={() => removeTestCase(index)} className="text-gray-400 hover:text-danger-600">
+                      <TrashIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+
+                  {testCase.kind === 'io' ? (
+                    <div className="grid grid-cols-2 gap-2">
+                      <textarea
+                        rows={3}
+                        placeholder="Input (stdin)"
+                        value={testCase.stdin ?? ''}
+                        onChange={(e) => updateTestCase(index, { stdin: e.target.value })}
+                        className={codeClass}
+                      />
+                      <textarea
+                        rows={3}
+                        placeholder="Expected output (stdout)"
+                        value={testCase.expectedOutput ?? ''}
+                        onChange={(e) => updateTestCase(index, { expectedOutput: e.target.value })}
+                        className={codeClass}
+                      />
+                    </div>
+                  ) : (
+                    <textarea
+                      rows={6}
+                      placeholder="Test file: require('./solution'), then test(name, fn) with assert"
+                      value={testCase.testCode ?? ''}
+                      onChange={(e) => updateTestCase(index, { testCode: e.target.value })}
+                      className={codeClass}
+                    />
+                  )}
+                </li>
+              ))}
+            </ol>
+
+            <div className="flex space-x-2">
+              <Button variant="outline" size="sm" leftIcon={<PlusIcon className="h-4 w-4" />} onClick={() => addTestCase('io')}>
+                Input / Output Test
+              </Button>
+              <Button variant="outline" size="sm" leftIcon={<PlusIcon className="h-4 w-4" />} onClick={() => addTestCase('test_file')}>
+                Test File
+              </Button>
+            </div>
+
+            <div className="border-t border-gray-200 pt-4 space-y-3">
+              <h4 className="text-sm font-semibold text-gray-900">Try the Saved Tests</h4>
+              <textarea
+                rows={8}
+                placeholder="Paste a reference solution to check the tests"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className={codeClass}
+              />
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-gray-500">{isDirty && 'Save your changes to run the new tests'}</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  leftIcon={<PlayIcon className="h-4 w-4" />}
+                  isLoading={isRunning}
+                  disabled={!code.trim()}
+                  onClick={handleRun}
+                >
+                  Run Tests
+                </Button>
+              </div>
+              <TestResultsList report={report} />
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <Button variant="outline" onClick={onClose}>
+                Close
+              </Button>
+              <Button variant="primary" isLoading={isSaving} disabled={!isDirty} onClick={handleSave}>
+                Save Tests
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TestCasesModal;
@@ -0,0 +1,89 @@
+// src/components/assignment/TestResultsList.tsx
+import React from 'react';
+import { CheckCircleIcon, EyeSlashIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import { AutoGradeStatus, CodeGradingReport, TestOutcome } from '../../services/apiServices';
+
+interface TestResultsListProps {
+  report: CodeGradingReport | null;
+  status?: AutoGradeStatus | null;
+}
+
+const outcomeLabels: Record<TestOutcome, string> = {
+  passed: 'Passed',
+  failed: 'Failed',
+  error: 'Error',
+  timeout: 'Time limit',
+  memory_limit: 'Memory limit',
+  output_limit: 'Output limit'
+};
+
+const TestResultsList: React.FC<TestResultsListProps> = ({ report, status }) => {
+  if (status === 'pending' || status === 'running') {
+    return <p className="text-sm text-gray-500">{status === 'pending' ? 'Waiting to run the tests...' : 'Running the tests...'}</p>;
+  }
+
+  if (status === 'failed') {
+    return <p className="text-sm text-danger-600">The tests could not be run. Ask your teacher to run them again.</p>;
+  }
+
+  if (!report) {
+    return null;
+  }
+
+  if (report.compileError) {
+    return (
+      <div>
+        <p className="text-sm font-medium text-danger-600">The code does not compile</p>
+        <pre className="mt-1 whitespace-pre-wrap rounded bg-gray-100 p-2 text-xs text-gray-700">{report.compileError}</pre>
+      </div>
+    );
+  }
+
+  const passedCount = report.tests.filter((test) => test.outcome === 'passed').length;
+
+  return (
+    <div>
+      <p className="text-sm font-medium text-gray-900">
+        {passedCount} of {report.tests.length} tests passed ({report.score}/{report.maxScore} points)
+      </p>
+      <ul className="mt-2 divide-y divide-gray-200 rounded-md border border-gray-200">
+        {report.tests.map((test) => (
+          <li key={test.testCaseId || test.name} className="px-3 py-2 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="flex items-center">
+                {test.outcome === 'passed'
+                  ? <CheckCircleIcon className="h-4 w-4 mr-2 text-success-600" />
+                  : <XCircleIcon className="h-4 w-4 mr-2 text-danger-600" />}
+                {test.name}
+                {test.isHidden && <EyeSlashIcon className="h-4 w-4 ml-2 text-gray-400" title="Hidden test" />}
+              </span>
+              <span className="text-xs text-gray-500">
+                {outcomeLabels[test.outcome]} · {test.pointsAwarded}/{test.points} pts · {test.durationMs} ms
+              </span>
+            </div>
+            {test.message && (
+              <pre className="mt-1 whitespace-pre-wrap rounded bg-gray-100 p-2 text-xs text-gray-700">{test.message}</pre>
+            )}
+            {test.outcome !== 'passed' && test.actualOutput !== undefined && (
+              <pre className="mt-1 whitespace-pre-wrap rounded bg-gray-50 p-2 text-xs text-gray-600">
+                Output: {test.actualOutput || '(nothing)'}
+              </pre>
+            )}
+            {test.checks && test.checks.length > 1 && (
+              <ul className="mt-1 ml-6 space-y-0.5 text-xs">
+                {test.checks.map((check, index) => (
+                  <li key={index} className={check.passed ? 'text-success-700' : 'text-danger-600'}>
+                    {check.passed ? '✓' : '✗'} {check.name}
+                    {check.message && <span className="text-gray-500"> - {check.message}</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TestResultsList;
@@ -1,13 +1,16 @@
 import React, { useState } from 'react';
-import { useAppSelector } from '../../redux/hooks';
+import { useAppSelector, useAppDispatch } from '../../redux/hooks';
+import { addToCart } from '../../redux/slices/cartSlice';
 import { useEnrollmentOperations } from '../../hooks/useEnrollments';
 import { Course } from '../../services/apiServices';
 import PaymentModal from '../payment/PaymentModal';
+import CartModal from '../payment/CartModal';
 import Button from '../ui/Button';
 import { 
   CurrencyDollarIcon, 
   AcademicCapIcon,
-  LockClosedIcon 
+  LockClosedIcon,
+  ShoppingCartIcon
 } from '@heroicons/react/24/outline';
 
 interface CourseEnrollmentProps {
@@ -23,8 +26,12 @@ const CourseEnrollment: React.FC<CourseEnrollmentProps> = ({
 }) => {
   const { user, isAuthenticated } = useAppSelector((state) => state.auth);
   const { enrollInCourse, loading } = useEnrollmentOperations();
+  const dispatch = useAppDispatch();
+  const inCart = useAppSelector((state) => state.cart.items.some((item) => item.courseId === course.id));
   
   const [showPaymentModal, setShowPaymentModal] = useState(false);
+  const [showCartModal, setShowCartModal] = useState(false);
+  const [addingToCart, setAddingToCart] = useState(false);
 
   const handleEnrollment = async () => {
     if (!isAuthenticated) {
@@ -47,6 +54,20 @@ const CourseEnrollment: React.FC<CourseEnrollmentProps> = ({
     }
   };
 
+  const handleAddToCart = async () => {
+    if (!isAuthenticated) {
+      window.location.href = '/login';
+      return;
+    }
+
+    if (!inCart) {
+      setAddingToCart(true);
+      await dispatch(addToCart(course.id));
+      setAddingToCart(false);
+    }
+    setShowCartModal(true);
+  };
+
   const handlePaymentSuccess = () => {
     setShowPaymentModal(false);
     onEnrollmentChange?.();
@@ -121,6 +142,20 @@ const CourseEnrollment: React.FC<CourseEnrollmentProps> = ({
           {course.price === 0 ? 'Enroll for Free' : 'Buy Now'}
         </Button>
 
+        {course.price > 0 && (
+          <Button
+            onClick={handleAddToCart}
+            isLoading={addingToCart}
+            disabled={addingToCart}
+            variant="outline"
+            className="w-full mb-4"
+            size="lg"
+          >
+            <ShoppingCartIcon className="h-5 w-5 inline mr-2" />
+            {inCart ? 'View Cart' : 'Add to Cart'}
+          </Button>
+        )}
+
         <div className="text-sm text-gray-600 space-y-2">
           <div className="flex items-center justify-between">
             <span>Full lifetime access</span>
@@ -149,6 +184,12 @@ const CourseEnrollment: React.FC<CourseEnrollmentProps> = ({
         onClose={() => setShowPaymentModal(false)}
         onSuccess={handlePaymentSuccess}
       />
+
+      <CartModal
+        isOpen={showCartModal}
+        onClose={() => setShowCartModal(false)}
+        onSuccess={() => onEnrollmentChange?.()}
+      />
     </>
   );
 };
@@ -0,0 +1,187 @@
+// src/components/navigation/NotificationBell.tsx
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  BellIcon,
+  DocumentTextIcon,
+  ChatBubbleLeftRightIcon,
+  CreditCardIcon,
+  AcademicCapIcon,
+  InformationCircleIcon
+} from '@heroicons/react/24/outline';
+import { notificationService, AppNotification } from '../../services/apiServices';
+
+// How often the unread badge is refreshed while the dropdown is closed
+const POLL_INTERVAL_MS = 60000;
+
+const typeIcons: Record<string, React.ElementType> = {
+  assignment: DocumentTextIcon,
+  grade: AcademicCapIcon,
+  message: ChatBubbleLeftRightIcon,
+  payment: CreditCardIcon
+};
+
+const NotificationBell: React.FC = () => {
+  const navigate = useNavigate();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refreshUnreadCount = useCallback(async () => {
+    try {
+      setUnreadCount(await notificationService.getUnreadCount());
+    } catch {
+      // Keep the last known count; the next poll will retry
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshUnreadCount();
+    const timer = setInterval(refreshUnreadCount, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [refreshUnreadCount]);
+
+  // Close the dropdown when clicking outside of it
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const loadNotifications = async () => {
+    try {
+      setIsLoading(true);
+      const response = await notificationService.getNotifications({ limit: 10 });
+      setNotifications(response.data.notifications);
+      setUnreadCount(response.data.unreadCount);
+    } catch {
+      setNotifications([]);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggle = () => {
+    if (!isOpen) {
+      loadNotifications();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleSelect = async (notification: AppNotification) => {
+    if (!notification.isRead) {
+      try {
+        const response = await notificationService.markAsRead(notification.id);
+        setUnreadCount(response.data.unreadCount);
+        setNotifications((current) =>
+          current.map((item) => (item.id === notification.id ? { ...item, isRead: true } : item))
+        );
+      } catch {
+        // Navigation should still work if marking as read fails
+      }
+    }
+
+    if (notification.link) {
+      setIsOpen(false);
+      navigate(notification.link);
+    }
+  };
+
+  const handleMarkAllAsRead = async () => {
+    try {
+      await notificationService.markAllAsRead();
+      setUnreadCount(0);
+      setNotifications((current) => current.map((item) => ({ ...item, isRead: true })));
+    } catch {
+      // Leave the list untouched; the user can retry
+    }
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        type="button"
+        className="relative p-1 rounded-full text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2"
+        onClick={handleToggle}
+      >
+        <span className="sr-only">View notifications</span>
+        <BellIcon className="h-6 w-6" aria-hidden="true" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 flex items-center justify-center min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-xs font-medium text-white">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="origin-top-right absolute right-0 mt-2 w-80 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 z-50">
+          <div className="py-1 divide-y divide-gray-200">
+            <div className="px-4 py-3 flex items-center justify-between">
+              <h3 className="text-sm font-medium text-gray-900">Notifications</h3>
+              {unreadCount > 0 && (
+                <button
+                  type="button"
+                  onClick={handleMarkAllAsRead}
+                  className="text-xs font-medium text-primary-600 hover:text-primary-700"
+                >
+                  Mark all as read
+                </button>
+              )}
+            </div>
+            <div className="max-h-80 overflow-y-auto">
+              {isLoading ? (
+                <div className="flex justify-center py-6">
+                  <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-primary-600"></div>
+                </div>
+              ) : notifications.length === 0 ? (
+                <p className="px-4 py-6 text-sm text-center text-gray-500">You have no notifications.</p>
+              ) : (
+                notifications.map((notification) => {
+                  const Icon = typeIcons[notification.type] || InformationCircleIcon;
+
+                  return (
+                    <button
+                      key={notification.id}
+                      type="button"
+                      onClick={() => handleSelect(notification)}
+                      className={`block w-full text-left px-4 py-3 hover:bg-gray-100 ${
+                        notification.isRead ? '' : 'bg-primary-50'
+                      }`}
+                    >
+                      <div className="flex">
+                        <div className="flex-shrink-0">
+                          <Icon className="h-5 w-5 text-gray-400" />
+                        </div>
+                        <div className="ml-3">
+                          <p className={`text-sm ${notification.isRead ? 'text-gray-700' : 'font-medium text-gray-900'}`}>
+                            {notification.title}
+                          </p>
+                          <p className="text-sm text-gray-600">{notification.message}</p>
+                          <p className="text-xs text-gray-500">
+                            {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                          </p>
+                        </div>
+                      </div>
+                    </button>
+                  );
+                })
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
@@ -6,6 +6,7 @@ import { logout } from '../../redux/slices/authSlice';
 import { Disclosure, Menu, Transition } from '@headlessui/react';
 import { Bars3Icon, XMarkIcon, UserCircleIcon } from '@heroicons/react/24/outline';
 import Button from '../ui/Button';
+import NotificationBell from './NotificationBell';
 
 const navigation = [
   { name: 'Home', href: '/' },
@@ -75,6 +76,7 @@ const Navbar: React.FC = () => {
                     >
                       Dashboard
                     </Link>
+                    <NotificationBell />
                     <Menu as="div" className="relative ml-3">
                       <div>
                         <Menu.Button className="flex rounded-full bg-white text-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2">
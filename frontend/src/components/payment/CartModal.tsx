@@ -0,0 +1,284 @@
+// frontend/src/components/payment/CartModal.tsx
+import React, { useState, useEffect } from 'react';
+import { useCart } from '../../redux/hooks';
+import { fetchCart, removeFromCart, checkoutCart, clearCartError } from '../../redux/slices/cartSlice';
+import { usePaymentMethods } from '../../hooks/usePayments';
+import { CouponExplanation } from '../../services/apiServices';
+import Button from '../ui/Button';
+import Spinner from '../ui/Spinner';
+import {
+  ShoppingCartIcon,
+  TagIcon,
+  TrashIcon,
+  XMarkIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon
+} from '@heroicons/react/24/outline';
+
+// The first rule that kept a coupon from applying
+const failedRule = (coupon: CouponExplanation): string | undefined =>
+  coupon.rules.find((rule) => !rule.passed)?.message;
+
+interface CartModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+const CartModal: React.FC<CartModalProps> = ({ isOpen, onClose, onSuccess }) => {
+  const { items, coupons, subtotal, discountAmount, total, loading, checkingOut, error, dispatch } = useCart();
+
+  const [couponCode, setCouponCode] = useState('');
+  const [couponError, setCouponError] = useState('');
+  const { data: paymentMethodsData } = usePaymentMethods();
+  const [paymentMethod, setPaymentMethod] = useState('');
+
+  const gateways = paymentMethodsData?.methods.filter((method) => method.enabled) ?? [];
+  const coupon = coupons.find((explanation) => !explanation.autoApplied && explanation.applied);
+  const autoApplied = coupons.filter((explanation) => explanation.autoApplied && explanation.applied);
+  const missedOffers = coupons.filter((explanation) => explanation.autoApplied && !explanation.applied);
+
+  useEffect(() => {
+    if (isOpen) {
+      dispatch(clearCartError());
+      dispatch(fetchCart(undefined));
+    }
+  }, [isOpen, dispatch]);
+
+  const handleApplyCoupon = async () => {
+    if (!couponCode.trim()) return;
+
+    setCouponError('');
+    // The server splits the discount across the courses the coupon applies to
+    const result = await dispatch(fetchCart(couponCode));
+    if (fetchCart.fulfilled.match(result)) {
+      const entered = result.payload.coupons.find((explanation) => !explanation.autoApplied);
+      if (entered && !entered.applied) {
+        setCouponError(failedRule(entered) || 'This coupon does not apply to your cart');
+      }
+    } else {
+      setCouponError(result.payload as string);
+      dispatch(clearCartError());
+      dispatch(fetchCart(undefined));
+    }
+  };
+
+  const handleRemoveCoupon = () => {
+    setCouponCode('');
+    setCouponError('');
+    dispatch(fetchCart(undefined));
+  };
+
+  const handleRemoveItem = async (courseId: string) => {
+    await dispatch(removeFromCart(courseId));
+    dispatch(fetchCart(coupon ? coupon.code : undefined));
+  };
+
+  const handleCheckout = async () => {
+    try {
+      const order = await dispatch(checkoutCart({
+        couponCode: coupon ? coupon.code : undefined,
+        paymentMethod: paymentMethod || paymentMethodsData?.defaultMethod
+      })).unwrap();
+
+      // Redirect to payment gateway
+      if (order.paymentUrl) {
+        window.location.href = order.paymentUrl;
+      } else {
+        // Fully discounted by the coupon: already enrolled
+        onSuccess?.();
+        onClose();
+      }
+    } catch (checkoutError) {
+      console.error('Checkout failed:', checkoutError);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const hasUnavailable = items.some((item) => !item.available);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <h3 className="text-lg font-semibold text-gray-900">
+            <ShoppingCartIcon className="h-5 w-5 inline mr-2" />
+            Your Cart ({items.length})
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <XMarkIcon className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {loading && items.length === 0 ? (
+            <div className="flex justify-center py-8">
+              <Spinner />
+            </div>
+          ) : items.length === 0 ? (
+            <p className="text-center text-gray-600 py-8">Your cart is empty.</p>
+          ) : (
+            <>
+              {/* Items */}
+              <ul className="divide-y divide-gray-200">
+                {items.map((item) => (
+                  <li key={item.id} className="flex items-center justify-between py-3">
+                    <div className="flex-1 pr-4">
+                      <p className="font-medium text-gray-900">{item.title}</p>
+                      {!item.available && (
+                        <p className="text-xs text-red-600">No longer available - remove it to check out</p>
+                      )}
+                      {item.discountAmount > 0 && (
+                        <p className="text-xs text-green-600">-${item.discountAmount.toFixed(2)} coupon</p>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <span className="font-medium">${item.amount.toFixed(2)}</span>
+                      <button
+                        onClick={() => handleRemoveItem(item.courseId)}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Remove from cart"
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+
+              {/* Coupon Section */}
+              <div className="space-y-3">
+                <label className="block text-sm font-medium text-gray-700">
+                  Coupon Code (Optional)
+                </label>
+                {!coupon ? (
+                  <div className="flex space-x-2">
+                    <input
+                      type="text"
+                      value={couponCode}
+                      onChange={(e) => setCouponCode(e.target.value.toUpperCase())}
+                      placeholder="Enter coupon code"
+                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <Button
+                      onClick={handleApplyCoupon}
+                      isLoading={loading}
+                      disabled={!couponCode.trim()}
+                      size="sm"
+                    >
+                      <TagIcon className="h-4 w-4 inline mr-1" />
+                      Apply
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex items-center justify-between p-3 bg-green-50 border border-green-200 rounded-md">
+                    <div className="flex items-center space-x-2">
+                      <CheckCircleIcon className="h-5 w-5 text-green-600" />
+                      <span className="text-sm font-medium text-green-800">
+                        Coupon "{coupon.code}" applied
+                      </span>
+                    </div>
+                    <button
+                      onClick={handleRemoveCoupon}
+                      className="text-green-600 hover:text-green-800"
+                    >
+                      <XMarkIcon className="h-4 w-4" />
+                    </button>
+                  </div>
+                )}
+
+                {couponError && (
+                  <div className="flex items-center space-x-2 text-red-600">
+                    <ExclamationTriangleIcon className="h-4 w-4" />
+                    <span className="text-sm">{couponError}</span>
+                  </div>
+                )}
+
+                {/* Public offers apply without a code */}
+                {autoApplied.map((offer) => (
+                  <div key={offer.code} className="flex items-center justify-between text-sm text-green-700">
+                    <span className="flex items-center">
+                      <CheckCircleIcon className="h-4 w-4 mr-1" />
+                      {offer.name || offer.code} (automatic)
+                    </span>
+                    <span>-${offer.discountAmount.toFixed(2)}</span>
+                  </div>
+                ))}
+                {missedOffers.map((offer) => (
+                  <p key={offer.code} className="text-xs text-gray-500">
+                    {offer.name || offer.code}: {failedRule(offer)}
+                  </p>
+                ))}
+              </div>
+
+              {/* Price Summary */}
+              <div className="space-y-3 pt-4 border-t">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Subtotal:</span>
+                  <span className="font-medium">${subtotal.toFixed(2)}</span>
+                </div>
+
+                {discountAmount > 0 && (
+                  <div className="flex justify-between text-green-600">
+                    <span>Discount:</span>
+                    <span>-${discountAmount.toFixed(2)}</span>
+                  </div>
+                )}
+
+                <div className="flex justify-between text-lg font-semibold border-t pt-3">
+                  <span>Total:</span>
+                  <span>${total.toFixed(2)}</span>
+                </div>
+              </div>
+
+              {total > 0 && gateways.length > 1 && (
+                <div className="space-y-2">
+                  <label htmlFor="cart-payment-method" className="block text-sm font-medium text-gray-700">
+                    Payment Method
+                  </label>
+                  <select
+                    id="cart-payment-method"
+                    value={paymentMethod || paymentMethodsData?.defaultMethod}
+                    onChange={(e) => setPaymentMethod(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {gateways.map((method) => (
+                      <option key={method.id} value={method.id}>{method.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {error && (
+                <div className="flex items-center space-x-2 text-red-600">
+                  <ExclamationTriangleIcon className="h-4 w-4" />
+                  <span className="text-sm">{error}</span>
+                </div>
+              )}
+
+              {/* Checkout Button */}
+              <Button
+                onClick={handleCheckout}
+                isLoading={checkingOut}
+                disabled={checkingOut || hasUnavailable}
+                className="w-full"
+                size="lg"
+              >
+                {total === 0 ? 'Enroll for Free' : `Pay ${total.toFixed(2)} for ${items.length} courses`}
+              </Button>
+
+              <p className="text-xs text-gray-500 text-center">
+                All courses in your cart are paid in a single transaction.
+                You will be redirected to our payment partner to complete it.
+              </p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CartModal;
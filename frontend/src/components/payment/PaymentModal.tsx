@@ -4,7 +4,7 @@ import { useAppDispatch } from '../../redux/hooks';
 import { createPayment } from '../../redux/slices/paymentSlice';
 import { usePaymentMethods } from '../../hooks/usePayments';
 import { useCouponOperations } from '../../hooks/useCoupons';
-import { Course } from '../../services/apiServices';
+import { Course, CouponExplanation, couponService } from '../../services/apiServices';
 import Button from '../ui/Button';
 import Spinner from '../ui/Spinner';
 import { 
@@ -33,17 +33,31 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ course, isOpen, onClose, on
   const [couponError, setCouponError] = useState('');
   const [processing, setProcessing] = useState(false);
   const [finalPrice, setFinalPrice] = useState(course.price);
+  const [autoOffers, setAutoOffers] = useState<{ coupons: CouponExplanation[]; finalAmount: number } | null>(null);
 
   useEffect(() => {
-    if (validatedCoupon) {
-      const discount = validatedCoupon.discountType === 'percentage' 
-        ? (course.price * validatedCoupon.discountValue / 100)
-        : validatedCoupon.discountValue;
-      setFinalPrice(Math.max(0, course.price - discount));
-    } else {
-      setFinalPrice(course.price);
+    // Preselect the gateway the server uses by default
+    if (paymentMethodsData?.defaultMethod) {
+      setSelectedMethod(paymentMethodsData.defaultMethod);
     }
-  }, [validatedCoupon, course.price]);
+  }, [paymentMethodsData?.defaultMethod]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    // Public coupons apply themselves at checkout, so price them before a code is entered
+    couponService.validateCoupon('', course.id)
+      .then((result) => setAutoOffers({ coupons: result.data.coupons, finalAmount: result.data.calculation.finalAmount }))
+      .catch(() => setAutoOffers(null));
+  }, [isOpen, course.id]);
+
+  useEffect(() => {
+    // The server applies the coupon's course, category and cap rules, so use its calculation
+    setFinalPrice(validatedCoupon ? validatedCoupon.calculation.finalAmount : autoOffers?.finalAmount ?? course.price);
+  }, [validatedCoupon, autoOffers, course.price]);
+
+  const appliedOffers = (validatedCoupon?.coupons ?? autoOffers?.coupons ?? [])
+    .filter((offer: CouponExplanation) => offer.autoApplied && offer.applied);
 
   const handleValidateCoupon = async () => {
     if (!couponCode.trim()) return;
@@ -51,9 +65,9 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ course, isOpen, onClose, on
     try {
       setCouponError('');
       const result = await validateCoupon(couponCode, course.id);
-      setValidatedCoupon(result.coupon);
+      setValidatedCoupon({ ...result.data.coupon, calculation: result.data.calculation, coupons: result.data.coupons });
     } catch (error: any) {
-      setCouponError(error.message || 'Invalid coupon code');
+      setCouponError(error.response?.data?.message || error.message || 'Invalid coupon code');
       setValidatedCoupon(null);
     }
   };
@@ -78,10 +92,10 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ course, isOpen, onClose, on
       const result = await dispatch(createPayment(paymentData)).unwrap();
       
       // Redirect to payment gateway
-      if (result.paymentUrl) {
-        window.location.href = result.paymentUrl;
+      if (result.payment.paymentUrl) {
+        window.location.href = result.payment.paymentUrl;
       } else {
-        // Handle direct payment success
+        // Fully discounted by the coupon: already enrolled
         onSuccess();
       }
     } catch (error) {
@@ -164,6 +178,16 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ course, isOpen, onClose, on
                 <span className="text-sm">{couponError}</span>
               </div>
             )}
+
+            {appliedOffers.map((offer: CouponExplanation) => (
+              <div key={offer.code} className="flex items-center justify-between text-sm text-green-700">
+                <span className="flex items-center">
+                  <CheckCircleIcon className="h-4 w-4 mr-1" />
+                  {offer.name || offer.code} (automatic)
+                </span>
+                <span>-${offer.discountAmount.toFixed(2)}</span>
+              </div>
+            ))}
           </div>
 
           {/* Payment Methods */}
@@ -199,9 +223,9 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ course, isOpen, onClose, on
               <span className="font-medium">${course.price.toFixed(2)}</span>
             </div>
             
-            {validatedCoupon && (
+            {finalPrice < course.price && (
               <div className="flex justify-between text-green-600">
-                <span>Discount ({validatedCoupon.discountType === 'percentage' ? `${validatedCoupon.discountValue}%` : `${validatedCoupon.discountValue}`}):</span>
+                <span>Discount:</span>
                 <span>-${(course.price - finalPrice).toFixed(2)}</span>
               </div>
             )}
@@ -0,0 +1,163 @@
+// src/components/settings/BillingSettings.tsx
+import React, { useState, useEffect } from 'react';
+import { userService, BillingProfile } from '../../services/apiServices';
+import Button from '../ui/Button';
+import Alert from '../ui/Alert';
+
+interface BillingForm {
+  companyName: string;
+  taxCode: string;
+  address: string;
+  invoiceEmail: string;
+}
+
+const toForm = (profile: BillingProfile | null): BillingForm => ({
+  companyName: profile?.company_name ?? '',
+  taxCode: profile?.tax_code ?? '',
+  address: profile?.address ?? '',
+  invoiceEmail: profile?.invoice_email ?? ''
+});
+
+const BillingSettings: React.FC = () => {
+  const [form, setForm] = useState<BillingForm | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const loadProfile = async () => {
+      try {
+        const response = await userService.getBillingProfile();
+        setForm(toForm(response.data.billingProfile));
+      } catch (err: any) {
+        setForm(toForm(null));
+        setErrorMessage(err?.response?.data?.message || 'Failed to load billing details.');
+      }
+    };
+
+    loadProfile();
+  }, []);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setForm((current) => current && { ...current, [name]: value });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    try {
+      setIsLoading(true);
+      setErrorMessage(null);
+      setSuccessMessage(null);
+      // Empty fields clear the saved value
+      const response = await userService.updateBillingProfile({
+        companyName: form.companyName.trim() || null,
+        taxCode: form.taxCode.trim() || null,
+        address: form.address.trim() || null,
+        invoiceEmail: form.invoiceEmail.trim() || null
+      });
+      setForm(toForm(response.data.billingProfile));
+      setSuccessMessage('Billing details saved. They will appear on your next invoices.');
+    } catch (err: any) {
+      setErrorMessage(err?.response?.data?.message || 'Failed to save billing details.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!form) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-xl">
+      <h2 className="text-xl font-semibold text-gray-900 mb-2">Billing Details</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Buying for a company? Add its name and tax code to receive VAT invoices issued to the company.
+        Invoices already issued are not changed.
+      </p>
+
+      {successMessage && (
+        <div className="mb-4">
+          <Alert type="success" message={successMessage} onClose={() => setSuccessMessage(null)} />
+        </div>
+      )}
+
+      {errorMessage && (
+        <div className="mb-4">
+          <Alert type="error" message={errorMessage} onClose={() => setErrorMessage(null)} />
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="companyName" className="block text-sm font-medium text-gray-700 mb-1">
+            Company name
+          </label>
+          <input
+            id="companyName"
+            name="companyName"
+            type="text"
+            className="form-input rounded-md w-full"
+            value={form.companyName}
+            onChange={handleChange}
+            maxLength={255}
+          />
+        </div>
+        <div>
+          <label htmlFor="taxCode" className="block text-sm font-medium text-gray-700 mb-1">
+            Tax code
+          </label>
+          <input
+            id="taxCode"
+            name="taxCode"
+            type="text"
+            className="form-input rounded-md w-full"
+            value={form.taxCode}
+            onChange={handleChange}
+            placeholder="0101234567"
+          />
+        </div>
+        <div>
+          <label htmlFor="address" className="block text-sm font-medium text-gray-700 mb-1">
+            Address
+          </label>
+          <textarea
+            id="address"
+            name="address"
+            rows={3}
+            className="form-input rounded-md w-full"
+            value={form.address}
+            onChange={handleChange}
+            maxLength={500}
+          />
+        </div>
+        <div>
+          <label htmlFor="invoiceEmail" className="block text-sm font-medium text-gray-700 mb-1">
+            Invoice email
+          </label>
+          <input
+            id="invoiceEmail"
+            name="invoiceEmail"
+            type="email"
+            className="form-input rounded-md w-full"
+            value={form.invoiceEmail}
+            onChange={handleChange}
+            placeholder="Defaults to your account email"
+          />
+        </div>
+        <Button type="submit" variant="primary" isLoading={isLoading}>
+          Save billing details
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default BillingSettings;
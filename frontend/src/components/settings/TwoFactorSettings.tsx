@@ -0,0 +1,256 @@
+// src/components/settings/TwoFactorSettings.tsx
+import React, { useState, useEffect } from 'react';
+import { useDispatch } from 'react-redux';
+import { AppDispatch } from '../../redux/store';
+import { updateUser } from '../../redux/slices/authSlice';
+import authService from '../../services/authService';
+import Button from '../ui/Button';
+import Alert from '../ui/Alert';
+import { ShieldCheckIcon, KeyIcon } from '@heroicons/react/24/outline';
+
+interface TwoFactorStatus {
+  available: boolean;
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+const TwoFactorSettings: React.FC = () => {
+  const dispatch = useDispatch<AppDispatch>();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await authService.getTwoFactorStatus());
+    } catch (err: any) {
+      setErrorMessage(err?.response?.data?.message || 'Failed to load two-factor settings.');
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  // Wrap each action with shared loading and message handling
+  const runAction = async (action: () => Promise<void>, fallbackError: string) => {
+    try {
+      setIsLoading(true);
+      setErrorMessage(null);
+      setSuccessMessage(null);
+      await action();
+    } catch (err: any) {
+      setErrorMessage(err?.response?.data?.message || fallbackError);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStartSetup = () => runAction(async () => {
+    setRecoveryCodes(null);
+    setSetup(await authService.setupTwoFactor());
+  }, 'Failed to start two-factor setup.');
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    return runAction(async () => {
+      const result = await authService.enableTwoFactor(code.trim());
+      setRecoveryCodes(result.recoveryCodes);
+      setSetup(null);
+      setCode('');
+      setSuccessMessage('Two-factor authentication is now enabled.');
+      dispatch(updateUser({ twoFactorEnabled: true, twoFactorSetupRequired: false }));
+      await loadStatus();
+    }, 'Invalid authentication code.');
+  };
+
+  const handleDisable = (e: React.FormEvent) => {
+    e.preventDefault();
+    return runAction(async () => {
+      await authService.disableTwoFactor(password, code.trim());
+      setRecoveryCodes(null);
+      setPassword('');
+      setCode('');
+      setSuccessMessage('Two-factor authentication has been disabled.');
+      dispatch(updateUser({ twoFactorEnabled: false }));
+      await loadStatus();
+    }, 'Failed to disable two-factor authentication.');
+  };
+
+  const handleRegenerate = () => runAction(async () => {
+    const result = await authService.regenerateRecoveryCodes(code.trim());
+    setRecoveryCodes(result.recoveryCodes);
+    setCode('');
+    setSuccessMessage('New recovery codes generated. Your previous codes no longer work.');
+    await loadStatus();
+  }, 'Invalid authentication code.');
+
+  if (!status) {
+    return (
+      <div className="flex justify-center py-6">
+        <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-xl">
+      <h2 className="text-xl font-semibold text-gray-900 mb-2">Two-Factor Authentication</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        Protect your account with a one-time code from an authenticator app (Google Authenticator, Authy, 1Password, ...)
+        in addition to your password.
+      </p>
+
+      {successMessage && (
+        <div className="mb-4">
+          <Alert type="success" message={successMessage} onClose={() => setSuccessMessage(null)} />
+        </div>
+      )}
+
+      {errorMessage && (
+        <div className="mb-4">
+          <Alert type="error" message={errorMessage} onClose={() => setErrorMessage(null)} />
+        </div>
+      )}
+
+      {!status.available ? (
+        <p className="text-sm text-gray-500">Two-factor authentication is not available on this platform yet.</p>
+      ) : (
+        <>
+          <div className="flex items-center mb-6">
+            <ShieldCheckIcon className={`h-6 w-6 mr-2 ${status.enabled ? 'text-green-500' : 'text-gray-400'}`} />
+            <span className="text-sm font-medium text-gray-900">
+              {status.enabled ? 'Enabled' : 'Disabled'}
+            </span>
+            {status.required && (
+              <span className="ml-3 px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800">
+                Required for your role
+              </span>
+            )}
+          </div>
+
+          {/* Recovery codes are only shown once, right after they are generated */}
+          {recoveryCodes && (
+            <div className="mb-6 p-4 bg-gray-50 border border-gray-200 rounded-md">
+              <div className="flex items-center mb-2">
+                <KeyIcon className="h-5 w-5 mr-2 text-gray-500" />
+                <h3 className="text-sm font-medium text-gray-900">Recovery codes</h3>
+              </div>
+              <p className="text-sm text-gray-600 mb-3">
+                Save these codes somewhere safe. Each code can be used once to sign in if you lose access to your authenticator app.
+              </p>
+              <div className="grid grid-cols-2 gap-2 font-mono text-sm text-gray-800">
+                {recoveryCodes.map((recoveryCode) => (
+                  <span key={recoveryCode}>{recoveryCode}</span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {!status.enabled && !setup && (
+            <Button variant="primary" onClick={handleStartSetup} isLoading={isLoading}>
+              Set up two-factor authentication
+            </Button>
+          )}
+
+          {!status.enabled && setup && (
+            <form onSubmit={handleEnable}>
+              <ol className="list-decimal list-inside space-y-2 text-sm text-gray-700 mb-4">
+                <li>
+                  Open your authenticator app and add a new account using this key:
+                  <div className="mt-2 p-2 bg-gray-100 rounded font-mono text-sm break-all">{setup.secret}</div>
+                  <a href={setup.otpauthUrl} className="mt-1 inline-block text-primary-600 hover:text-primary-500">
+                    Or open it directly in an authenticator app on this device
+                  </a>
+                </li>
+                <li>Enter the 6-digit code shown by the app to finish.</li>
+              </ol>
+              <div className="mb-4">
+                <label htmlFor="enableCode" className="block text-sm font-medium text-gray-700 mb-1">
+                  Authentication code
+                </label>
+                <input
+                  id="enableCode"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  className="form-input rounded-md w-full"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="flex space-x-3">
+                <Button type="submit" variant="primary" isLoading={isLoading}>
+                  Enable
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setSetup(null)}>
+                  Cancel
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {status.enabled && (
+            <form onSubmit={handleDisable}>
+              <p className="text-sm text-gray-600 mb-4">
+                {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? '' : 's'} remaining.
+              </p>
+              <div className="mb-4">
+                <label htmlFor="twoFactorCode" className="block text-sm font-medium text-gray-700 mb-1">
+                  Authentication code
+                </label>
+                <input
+                  id="twoFactorCode"
+                  type="text"
+                  autoComplete="one-time-code"
+                  className="form-input rounded-md w-full"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                />
+              </div>
+              {!status.required && (
+                <div className="mb-4">
+                  <label htmlFor="twoFactorPassword" className="block text-sm font-medium text-gray-700 mb-1">
+                    Current password (required to disable)
+                  </label>
+                  <input
+                    id="twoFactorPassword"
+                    type="password"
+                    autoComplete="current-password"
+                    className="form-input rounded-md w-full"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                  />
+                </div>
+              )}
+              <div className="flex space-x-3">
+                <Button type="button" variant="outline" onClick={handleRegenerate} isLoading={isLoading} disabled={!code}>
+                  Generate new recovery codes
+                </Button>
+                {!status.required && (
+                  <Button type="submit" variant="danger" isLoading={isLoading} disabled={!code || !password}>
+                    Disable
+                  </Button>
+                )}
+              </div>
+            </form>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSettings;
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { assignmentService, Assignment, AssignmentSubmission } from '../services/apiServices';
+import { assignmentService, Assignment, SubmissionContent } from '../services/apiServices';
 import { useApi } from './useApi';
 
 export const useAssignment = (id: string) => {
@@ -42,7 +42,7 @@ export const useAssignmentOperations = () => {
     }
   };
 
-  const submitAssignment = async (id: string, data: { content?: string; attachmentUrl?: string }) => {
+  const submitAssignment = async (id: string, data: SubmissionContent) => {
     try {
       setLoading(true);
       setError(null);
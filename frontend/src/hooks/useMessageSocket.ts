@@ -0,0 +1,101 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../redux/store';
+import socketService from '../services/socketService';
+import { Message } from '../services/apiServices';
+import {
+  socketConnectionChanged,
+  messageReceived,
+  messagesRead,
+  presenceUpdated,
+  typingUpdated
+} from '../redux/slices/messageSlice';
+
+interface ReadReceipt {
+  messageIds: string[];
+  readerId: string;
+  readAt: string;
+}
+
+interface UseMessageSocketOptions {
+  onMessage?: (message: Message) => void;
+  onRead?: (receipt: ReadReceipt) => void;
+}
+
+// Live messaging over WebSocket: new messages, read receipts, typing indicators and presence
+export const useMessageSocket = (options: UseMessageSocketOptions = {}) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { token, user } = useSelector((state: RootState) => state.auth);
+  const { socketConnected, onlineUsers, typingUsers } = useSelector((state: RootState) => state.messages);
+  const userId = user?.id;
+
+  // Keep the latest callbacks without re-subscribing on every render
+  const handlersRef = useRef(options);
+  handlersRef.current = options;
+
+  useEffect(() => {
+    if (!token || !userId) {
+      socketService.disconnect();
+      dispatch(socketConnectionChanged(false));
+      return;
+    }
+
+    const socket = socketService.connect(token);
+
+    const handleConnect = () => dispatch(socketConnectionChanged(true));
+    const handleDisconnect = () => dispatch(socketConnectionChanged(false));
+    const handleNewMessage = (message: Message) => {
+      dispatch(messageReceived({ message, isIncoming: message.recipientId === userId }));
+      handlersRef.current.onMessage?.(message);
+    };
+    const handleRead = (receipt: ReadReceipt) => {
+      dispatch(messagesRead({ messageIds: receipt.messageIds }));
+      handlersRef.current.onRead?.(receipt);
+    };
+    const handlePresence = ({ userId: presenceUserId, online }: { userId: string; online: boolean }) => {
+      dispatch(presenceUpdated({ [presenceUserId]: online }));
+    };
+    const handleTyping = (payload: { userId: string; isTyping: boolean }) => {
+      dispatch(typingUpdated(payload));
+    };
+
+    socket.on('connect', handleConnect);
+    socket.on('disconnect', handleDisconnect);
+    socket.on('message:new', handleNewMessage);
+    socket.on('message:read', handleRead);
+    socket.on('presence:update', handlePresence);
+    socket.on('typing', handleTyping);
+
+    if (socket.connected) {
+      handleConnect();
+    }
+
+    return () => {
+      socket.off('connect', handleConnect);
+      socket.off('disconnect', handleDisconnect);
+      socket.off('message:new', handleNewMessage);
+      socket.off('message:read', handleRead);
+      socket.off('presence:update', handlePresence);
+      socket.off('typing', handleTyping);
+    };
+  }, [token, userId, dispatch]);
+
+  const sendTyping = useCallback((recipientId: string, isTyping: boolean) => {
+    socketService.getSocket()?.emit(isTyping ? 'typing:start' : 'typing:stop', { recipientId });
+  }, []);
+
+  const queryPresence = useCallback((userIds: string[]) => {
+    if (userIds.length === 0) return;
+    socketService.getSocket()?.emit('presence:query', userIds, (presence: Record<string, boolean>) => {
+      dispatch(presenceUpdated(presence));
+    });
+  }, [dispatch]);
+
+  return {
+    connected: socketConnected,
+    onlineUsers,
+    typingUsers,
+    sendTyping,
+    queryPresence
+  };
+};
@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { paymentService, Payment } from '../services/apiServices';
+import { useCallback, useState } from 'react';
+import { paymentService, Payment, PaymentGatewayOption } from '../services/apiServices';
 import { useApi } from './useApi';
 
 interface UsePaymentsParams {
@@ -43,12 +43,8 @@ export const usePaymentStats = () => {
 
 export const usePaymentMethods = () => {
   return useApi<{
-    methods: Array<{
-      id: string;
-      name: string;
-      enabled: boolean;
-      description: string;
-    }>;
+    methods: PaymentGatewayOption[];
+    defaultMethod: string;
   }>(
     () => paymentService.getPaymentMethods(),
     []
@@ -74,11 +70,12 @@ export const usePaymentOperations = () => {
     }
   };
 
-  const handleVNPayReturn = async (params: Record<string, string>) => {
+  // Stable, so the return page does not settle the same result again on every render
+  const handleGatewayReturn = useCallback(async (gateway: string, params: Record<string, string>) => {
     try {
       setLoading(true);
       setError(null);
-      const response = await paymentService.handleVNPayReturn(params);
+      const response = await paymentService.handleGatewayReturn(gateway, params);
       return response;
     } catch (err: any) {
       setError(err.response?.data?.message || 'Failed to process payment return');
@@ -86,11 +83,11 @@ export const usePaymentOperations = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, []);
 
   return {
     createPayment,
-    handleVNPayReturn,
+    handleGatewayReturn,
     loading,
     error
   };
@@ -2,7 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Outlet, useLocation, useNavigate } from 'react-router-dom';
 import { useSelector, useDispatch } from 'react-redux';
 import { RootState, AppDispatch } from '../redux/store';
-import { clearMessage } from '../redux/slices/uiSlice';
+import { clearMessage, setMessage } from '../redux/slices/uiSlice';
 import { logout } from '../redux/slices/authSlice';
 import { 
   Bars3Icon, 
@@ -17,9 +17,12 @@ import {
   ChartBarIcon,
   UserGroupIcon,
   DocumentTextIcon,
-  BellIcon
+  BanknotesIcon
 } from '@heroicons/react/24/outline';
 import Alert from '../components/ui/Alert';
+import NotificationBell from '../components/navigation/NotificationBell';
+import TwoFactorSettings from '../components/settings/TwoFactorSettings';
+import authService from '../services/authService';
 
 interface DashboardLayoutProps {
   userRole: 'student' | 'teacher' | 'admin';
@@ -34,7 +37,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ userRole }) => {
   const [showMessage, setShowMessage] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [profileMenuOpen, setProfileMenuOpen] = useState(false);
-  const [notificationsOpen, setNotificationsOpen] = useState(false);
+  const [resendingVerification, setResendingVerification] = useState(false);
 
   // Clear message on location change
   useEffect(() => {
@@ -55,6 +58,18 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ userRole }) => {
     }
   }, [message, dispatch]);
 
+  const handleResendVerification = async () => {
+    try {
+      setResendingVerification(true);
+      await authService.resendVerificationEmail();
+      dispatch(setMessage({ type: 'success', text: 'Verification email sent. Please check your inbox.' }));
+    } catch (err: any) {
+      dispatch(setMessage({ type: 'error', text: err?.response?.data?.message || 'Failed to send verification email.' }));
+    } finally {
+      setResendingVerification(false);
+    }
+  };
+
   const handleLogout = () => {
     dispatch(logout());
     navigate('/login');
@@ -80,6 +95,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ userRole }) => {
           { name: 'Students', path: '/dashboard/teacher/students', icon: <UserGroupIcon className="w-5 h-5" /> },
           { name: 'Assignments', path: '/dashboard/teacher/assignments', icon: <ClipboardDocumentListIcon className="w-5 h-5" /> },
           { name: 'Gradebook', path: '/dashboard/teacher/gradebook', icon: <DocumentTextIcon className="w-5 h-5" /> },
+          { name: 'Earnings', path: '/dashboard/teacher/earnings', icon: <BanknotesIcon className="w-5 h-5" /> },
           { name: 'Messages', path: '/dashboard/teacher/messages', icon: <ChatBubbleLeftRightIcon className="w-5 h-5" /> },
           { name: 'Settings', path: '/dashboard/teacher/settings', icon: <Cog6ToothIcon className="w-5 h-5" /> },
         ];
@@ -88,6 +104,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ userRole }) => {
           { name: 'Dashboard', path: '/dashboard/admin', icon: <ChartBarIcon className="w-5 h-5" /> },
           { name: 'Users', path: '/dashboard/admin/users', icon: <UserGroupIcon className="w-5 h-5" /> },
           { name: 'Courses', path: '/dashboard/admin/courses', icon: <BookOpenIcon className="w-5 h-5" /> },
+          { name: 'Payments', path: '/dashboard/admin/payments', icon: <BanknotesIcon className="w-5 h-5" /> },
           { name: 'Reports', path: '/dashboard/admin/reports', icon: <DocumentTextIcon className="w-5 h-5" /> },
           { name: 'Settings', path: '/dashboard/admin/settings', icon: <Cog6ToothIcon className="w-5 h-5" /> },
         ];
@@ -182,56 +199,7 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ userRole }) => {
               </h1>
             </div>
             <div className="flex items-center">
-              {/* Notifications dropdown */}
-              <div className="relative">
-                <button
-                  type="button"
-                  className="p-1 rounded-full text-gray-400 hover:text-gray-500 focus:outline-none"
-                  onClick={() => setNotificationsOpen(!notificationsOpen)}
-                >
-                  <span className="sr-only">View notifications</span>
-                  <BellIcon className="h-6 w-6" aria-hidden="true" />
-                  <span className="absolute top-0 right-0 block h-2 w-2 rounded-full bg-red-500"></span>
-                </button>
-                {notificationsOpen && (
-                  <div className="origin-top-right absolute right-0 mt-2 w-80 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5">
-                    <div className="py-1 divide-y divide-gray-200">
-                      <div className="px-4 py-3">
-                        <h3 className="text-sm font-medium text-gray-900">Notifications</h3>
-                      </div>
-                      <div className="max-h-64 overflow-y-auto">
-                        <a href="#" className="block px-4 py-3 hover:bg-gray-100">
-                          <div className="flex">
-                            <div className="flex-shrink-0">
-                              <DocumentTextIcon className="h-5 w-5 text-gray-400" />
-                            </div>
-                            <div className="ml-3">
-                              <p className="text-sm text-gray-700">New assignment posted: React Fundamentals</p>
-                              <p className="text-xs text-gray-500">1 hour ago</p>
-                            </div>
-                          </div>
-                        </a>
-                        <a href="#" className="block px-4 py-3 hover:bg-gray-100">
-                          <div className="flex">
-                            <div className="flex-shrink-0">
-                              <ChatBubbleLeftRightIcon className="h-5 w-5 text-gray-400" />
-                            </div>
-                            <div className="ml-3">
-                              <p className="text-sm text-gray-700">New message from Jane Smith</p>
-                              <p className="text-xs text-gray-500">3 hours ago</p>
-                            </div>
-                          </div>
-                        </a>
-                      </div>
-                      <div className="px-4 py-2 text-center">
-                        <a href="#" className="text-sm font-medium text-primary-600 hover:text-primary-700">
-                          View all notifications
-                        </a>
-                      </div>
-                    </div>
-                  </div>
-                )}
-              </div>
+              <NotificationBell />
 
               {/* Profile dropdown */}
               <div className="relative ml-4">
@@ -282,7 +250,35 @@ const DashboardLayout: React.FC<DashboardLayoutProps> = ({ userRole }) => {
 
         {/* Main content area */}
         <main className="flex-1 overflow-y-auto bg-gray-50 p-6">
-          <Outlet />
+          {/* Email verification reminder */}
+          {user && user.isEmailVerified === false && (
+            <div className="mb-6 rounded-md bg-yellow-50 border border-yellow-200 p-4 flex items-center justify-between">
+              <p className="text-sm text-yellow-800">
+                Please verify your email address. Some features, such as enrolling in courses and payments, may be unavailable until you do.
+              </p>
+              <button
+                type="button"
+                onClick={handleResendVerification}
+                disabled={resendingVerification}
+                className="ml-4 flex-shrink-0 text-sm font-medium text-yellow-800 hover:text-yellow-900 underline disabled:opacity-50"
+              >
+                {resendingVerification ? 'Sending...' : 'Resend email'}
+              </button>
+            </div>
+          )}
+          {/* When an admin requires 2FA for this role, the server refuses everything else until it is set up */}
+          {user && user.twoFactorSetupRequired && !user.twoFactorEnabled ? (
+            <div className="max-w-2xl space-y-6">
+              <div className="rounded-md bg-yellow-50 border border-yellow-200 p-4">
+                <p className="text-sm text-yellow-800">
+                  Two-factor authentication is required for your account. Set it up below to continue.
+                </p>
+              </div>
+              <TwoFactorSettings />
+            </div>
+          ) : (
+            <Outlet />
+          )}
         </main>
       </div>
     </div>
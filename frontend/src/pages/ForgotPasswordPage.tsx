@@ -34,12 +34,7 @@ const ForgotPasswordPage: React.FC = () => {
       setIsLoading(true);
       setError(null);
       
-      // In a real application, this would call an API endpoint
-      // For now, we'll simulate a successful password reset request
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      // Uncomment this when you implement the actual API call
-      // await authService.forgotPassword(data.email);
+      await authService.forgotPassword(data.email);
       
       setSuccess(true);
     } catch (err: any) {
@@ -3,7 +3,8 @@ import React, { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { useDispatch, useSelector } from 'react-redux';
 import { Link, useNavigate, useLocation } from 'react-router-dom';
-import { login } from '../redux/slices/authSlice';
+import { login, verifyTwoFactorLogin, cancelTwoFactor } from '../redux/slices/authSlice';
+import { User } from '../services/apiServices';
 import { AppDispatch, RootState } from '../redux/store';
 import Button from '../components/ui/Button';
 import { 
@@ -11,7 +12,8 @@ import {
   EyeSlashIcon,
   LockClosedIcon,
   EnvelopeIcon,
-  ExclamationCircleIcon 
+  ExclamationCircleIcon,
+  ShieldCheckIcon
 } from '@heroicons/react/24/outline';
 
 interface LoginFormData {
@@ -24,8 +26,9 @@ const LoginPage: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
   const navigate = useNavigate();
   const location = useLocation();
-  const { loading, error } = useSelector((state: RootState) => state.auth);
+  const { loading, error, twoFactorChallenge } = useSelector((state: RootState) => state.auth);
   const [showPassword, setShowPassword] = useState(false);
+  const [twoFactorCode, setTwoFactorCode] = useState('');
   
   // Get return URL from location state or default to dashboard
   const from = location.state?.from?.pathname || "/";
@@ -42,6 +45,24 @@ const LoginPage: React.FC = () => {
     }
   });
 
+  // Redirect to the page they were trying to access or dashboard
+  const redirectAfterLogin = (user: User) => {
+    let redirectPath = from;
+
+    // If no specific path was being accessed, redirect to appropriate dashboard
+    if (redirectPath === "/") {
+      if (user.role === 'student') {
+        redirectPath = '/dashboard/student';
+      } else if (user.role === 'teacher') {
+        redirectPath = '/dashboard/teacher';
+      } else if (user.role === 'admin') {
+        redirectPath = '/dashboard/admin';
+      }
+    }
+
+    navigate(redirectPath, { replace: true });
+  };
+
   const onSubmit = async (data: LoginFormData) => {
     try {
       const resultAction = await dispatch(login({ 
@@ -57,27 +78,32 @@ const LoginPage: React.FC = () => {
           localStorage.removeItem('rememberEmail');
         }
         
-        // Redirect to the page they were trying to access or dashboard
-        const user = resultAction.payload.user;
-        let redirectPath = from;
-        
-        // If no specific path was being accessed, redirect to appropriate dashboard
-        if (redirectPath === "/") {
-          if (user.role === 'student') {
-            redirectPath = '/dashboard/student';
-          } else if (user.role === 'teacher') {
-            redirectPath = '/dashboard/teacher';
-          } else if (user.role === 'admin') {
-            redirectPath = '/dashboard/admin';
-          }
+        // Accounts with 2FA continue on the code form below
+        if ('twoFactorRequired' in resultAction.payload) {
+          return;
         }
-        
-        navigate(redirectPath, { replace: true });
+
+        redirectAfterLogin(resultAction.payload.user);
       }
     } catch (err) {
       console.error('Login failed:', err);
     }
   };
+
+  const onSubmitTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const resultAction = await dispatch(verifyTwoFactorLogin(twoFactorCode.trim()));
+    if (verifyTwoFactorLogin.fulfilled.match(resultAction)) {
+      setTwoFactorCode('');
+      redirectAfterLogin(resultAction.payload.user);
+    }
+  };
+
+  const handleCancelTwoFactor = () => {
+    setTwoFactorCode('');
+    dispatch(cancelTwoFactor());
+  };
   
   // Check for remembered email
   useEffect(() => {
@@ -123,124 +149,173 @@ const LoginPage: React.FC = () => {
             </div>
           )}
           
-          <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
-            {/* Email field */}
-            <div>
-              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
-                Email address
-              </label>
-              <div className="mt-1 relative rounded-md shadow-sm">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <EnvelopeIcon className="h-5 w-5 text-gray-400" aria-hidden="true" />
-                </div>
-                <input
-                  id="email"
-                  type="email"
-                  autoComplete="email"
-                  className={`block w-full pl-10 pr-3 py-2 sm:text-sm border rounded-md focus:ring-primary-500 focus:border-primary-500 ${
-                    errors.email ? 'border-red-300' : 'border-gray-300'
-                  }`}
-                  placeholder="you@example.com"
-                  {...register('email', { 
-                    required: 'Email is required',
-                    pattern: {
-                      value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
-                      message: 'Invalid email address'
-                    }
-                  })}
-                />
-                {errors.email && (
-                  <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
-                    <ExclamationCircleIcon className="h-5 w-5 text-red-500" aria-hidden="true" />
+          {twoFactorChallenge ? (
+            <form className="space-y-6" onSubmit={onSubmitTwoFactor}>
+              <div>
+                <label htmlFor="twoFactorCode" className="block text-sm font-medium text-gray-700">
+                  Authentication code
+                </label>
+                <p className="mt-1 text-sm text-gray-500">
+                  Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+                </p>
+                <div className="mt-2 relative rounded-md shadow-sm">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <ShieldCheckIcon className="h-5 w-5 text-gray-400" aria-hidden="true" />
                   </div>
-                )}
+                  <input
+                    id="twoFactorCode"
+                    type="text"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    autoFocus
+                    className="block w-full pl-10 pr-3 py-2 sm:text-sm border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                    placeholder="123456"
+                    value={twoFactorCode}
+                    onChange={(e) => setTwoFactorCode(e.target.value)}
+                    required
+                  />
+                </div>
               </div>
-              {errors.email && (
-                <p className="mt-2 text-sm text-red-600" id="email-error">
-                  {errors.email.message}
-                </p>
-              )}
-            </div>
 
-            {/* Password field */}
-            <div>
-              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
-                Password
-              </label>
-              <div className="mt-1 relative rounded-md shadow-sm">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <LockClosedIcon className="h-5 w-5 text-gray-400" aria-hidden="true" />
-                </div>
-                <input
-                  id="password"
-                  type={showPassword ? 'text' : 'password'}
-                  autoComplete="current-password"
-                  className={`block w-full pl-10 pr-10 py-2 sm:text-sm border rounded-md focus:ring-primary-500 focus:border-primary-500 ${
-                    errors.password ? 'border-red-300' : 'border-gray-300'
-                  }`}
-                  {...register('password', { 
-                    required: 'Password is required',
-                    minLength: {
-                      value: 6,
-                      message: 'Password must be at least 6 characters'
-                    }
-                  })}
-                />
-                <div className="absolute inset-y-0 right-0 pr-3 flex items-center">
-                  <button
-                    type="button"
-                    className="text-gray-400 hover:text-gray-500 focus:outline-none"
-                    onClick={() => setShowPassword(!showPassword)}
-                  >
-                    <span className="sr-only">{showPassword ? 'Hide password' : 'Show password'}</span>
-                    {showPassword ? (
-                      <EyeSlashIcon className="h-5 w-5" aria-hidden="true" />
-                    ) : (
-                      <EyeIcon className="h-5 w-5" aria-hidden="true" />
-                    )}
-                  </button>
+              <div className="space-y-3">
+                <Button
+                  type="submit"
+                  variant="primary"
+                  fullWidth
+                  isLoading={loading}
+                >
+                  Verify
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  fullWidth
+                  onClick={handleCancelTwoFactor}
+                >
+                  Back to sign in
+                </Button>
+              </div>
+            </form>
+          ) : (
+            <form className="space-y-6" onSubmit={handleSubmit(onSubmit)}>
+              {/* Email field */}
+              <div>
+                <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                  Email address
+                </label>
+                <div className="mt-1 relative rounded-md shadow-sm">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <EnvelopeIcon className="h-5 w-5 text-gray-400" aria-hidden="true" />
+                  </div>
+                  <input
+                    id="email"
+                    type="email"
+                    autoComplete="email"
+                    className={`block w-full pl-10 pr-3 py-2 sm:text-sm border rounded-md focus:ring-primary-500 focus:border-primary-500 ${
+                      errors.email ? 'border-red-300' : 'border-gray-300'
+                    }`}
+                    placeholder="you@example.com"
+                    {...register('email', { 
+                      required: 'Email is required',
+                      pattern: {
+                        value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
+                        message: 'Invalid email address'
+                      }
+                    })}
+                  />
+                  {errors.email && (
+                    <div className="absolute inset-y-0 right-0 pr-3 flex items-center pointer-events-none">
+                      <ExclamationCircleIcon className="h-5 w-5 text-red-500" aria-hidden="true" />
+                    </div>
+                  )}
                 </div>
+                {errors.email && (
+                  <p className="mt-2 text-sm text-red-600" id="email-error">
+                    {errors.email.message}
+                  </p>
+                )}
               </div>
-              {errors.password && (
-                <p className="mt-2 text-sm text-red-600" id="password-error">
-                  {errors.password.message}
-                </p>
-              )}
-            </div>
 
-            {/* Remember me checkbox and forgot password */}
-            <div className="flex items-center justify-between">
-              <div className="flex items-center">
-                <input
-                  id="rememberMe"
-                  type="checkbox"
-                  className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
-                  {...register('rememberMe')}
-                />
-                <label htmlFor="rememberMe" className="ml-2 block text-sm text-gray-900">
-                  Remember me
+              {/* Password field */}
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  Password
                 </label>
+                <div className="mt-1 relative rounded-md shadow-sm">
+                  <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                    <LockClosedIcon className="h-5 w-5 text-gray-400" aria-hidden="true" />
+                  </div>
+                  <input
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    autoComplete="current-password"
+                    className={`block w-full pl-10 pr-10 py-2 sm:text-sm border rounded-md focus:ring-primary-500 focus:border-primary-500 ${
+                      errors.password ? 'border-red-300' : 'border-gray-300'
+                    }`}
+                    {...register('password', { 
+                      required: 'Password is required',
+                      minLength: {
+                        value: 6,
+                        message: 'Password must be at least 6 characters'
+                      }
+                    })}
+                  />
+                  <div className="absolute inset-y-0 right-0 pr-3 flex items-center">
+                    <button
+                      type="button"
+                      className="text-gray-400 hover:text-gray-500 focus:outline-none"
+                      onClick={() => setShowPassword(!showPassword)}
+                    >
+                      <span className="sr-only">{showPassword ? 'Hide password' : 'Show password'}</span>
+                      {showPassword ? (
+                        <EyeSlashIcon className="h-5 w-5" aria-hidden="true" />
+                      ) : (
+                        <EyeIcon className="h-5 w-5" aria-hidden="true" />
+                      )}
+                    </button>
+                  </div>
+                </div>
+                {errors.password && (
+                  <p className="mt-2 text-sm text-red-600" id="password-error">
+                    {errors.password.message}
+                  </p>
+                )}
               </div>
 
-              <div className="text-sm">
-                <Link to="/forgot-password" className="font-medium text-primary-600 hover:text-primary-500">
-                  Forgot your password?
-                </Link>
+              {/* Remember me checkbox and forgot password */}
+              <div className="flex items-center justify-between">
+                <div className="flex items-center">
+                  <input
+                    id="rememberMe"
+                    type="checkbox"
+                    className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                    {...register('rememberMe')}
+                  />
+                  <label htmlFor="rememberMe" className="ml-2 block text-sm text-gray-900">
+                    Remember me
+                  </label>
+                </div>
+
+                <div className="text-sm">
+                  <Link to="/forgot-password" className="font-medium text-primary-600 hover:text-primary-500">
+                    Forgot your password?
+                  </Link>
+                </div>
               </div>
-            </div>
 
-            {/* Submit button */}
-            <div>
-              <Button
-                type="submit"
-                variant="primary"
-                fullWidth
-                isLoading={loading}
-              >
-                Sign in
-              </Button>
-            </div>
-          </form>
+              {/* Submit button */}
+              <div>
+                <Button
+                  type="submit"
+                  variant="primary"
+                  fullWidth
+                  isLoading={loading}
+                >
+                  Sign in
+                </Button>
+              </div>
+            </form>
+          )}
 
           <div className="mt-6">
             <div className="relative">
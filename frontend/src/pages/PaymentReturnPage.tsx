@@ -1,24 +1,27 @@
 import React, { useEffect, useState } from 'react';
-import { useSearchParams, useNavigate } from 'react-router-dom';
+import { useSearchParams, useNavigate, useParams } from 'react-router-dom';
 import { usePaymentOperations } from '../hooks/usePayments';
-import { useAppDispatch } from '../redux/hooks';
-import { enrollInCourse } from '../redux/slices/enrollmentSlice';
+import { paymentService, cartService } from '../services/apiServices';
 import Spinner from '../components/ui/Spinner';
 import Button from '../components/ui/Button';
 import { 
   CheckCircleIcon, 
   XCircleIcon, 
-  ArrowRightIcon 
+  ArrowRightIcon,
+  ArrowDownTrayIcon
 } from '@heroicons/react/24/outline';
 
 const PaymentReturnPage: React.FC = () => {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
-  const dispatch = useAppDispatch();
-  const { handleVNPayReturn } = usePaymentOperations();
+  // VNPay keeps its original /payment/vnpay-return URL
+  const { gateway = 'vnpay' } = useParams<{ gateway: string }>();
+  const { handleGatewayReturn } = usePaymentOperations();
   
   const [status, setStatus] = useState<'processing' | 'success' | 'failed'>('processing');
   const [paymentDetails, setPaymentDetails] = useState<any>(null);
+  const [transactionType, setTransactionType] = useState<'payment' | 'order'>('payment');
+  const [invoiceError, setInvoiceError] = useState<string>('');
   const [error, setError] = useState<string>('');
 
   useEffect(() => {
@@ -30,19 +33,18 @@ const PaymentReturnPage: React.FC = () => {
           params[key] = value;
         });
 
-        const result = await handleVNPayReturn(params);
-        
-        if (result.status === 'success' && result.data.paymentStatus === 'success') {
+        const result = await handleGatewayReturn(gateway, params);
+        // Single-course payments and cart orders settle through the same return URL
+        const details = result.data.payment ?? result.data.order;
+
+        // The server enrolls on success ('completed_enrollment_failed' is paid, enrollment pending)
+        if (result.status === 'success' && details?.status?.startsWith('completed')) {
           setStatus('success');
-          setPaymentDetails(result.data);
-          
-          // Auto-enroll user in the course
-          if (result.data.courseId) {
-            await dispatch(enrollInCourse(result.data.courseId));
-          }
+          setPaymentDetails(details);
+          setTransactionType(result.data.payment ? 'payment' : 'order');
         } else {
           setStatus('failed');
-          setError(result.data.message || 'Payment failed');
+          setError(details?.message || 'Payment failed');
         }
       } catch (err: any) {
         setStatus('failed');
@@ -51,16 +53,33 @@ const PaymentReturnPage: React.FC = () => {
     };
 
     processPayment();
-  }, [searchParams, handleVNPayReturn, dispatch]);
+  }, [searchParams, gateway, handleGatewayReturn]);
 
   const handleContinue = () => {
-    if (status === 'success' && paymentDetails?.courseId) {
-      navigate(`/courses/${paymentDetails.courseId}`);
+    if (status === 'success' && paymentDetails?.courseIds?.length === 1) {
+      navigate(`/courses/${paymentDetails.courseIds[0]}`);
     } else {
       navigate('/dashboard/student/courses');
     }
   };
 
+  const handleDownloadInvoice = async () => {
+    try {
+      setInvoiceError('');
+      const blob = transactionType === 'payment'
+        ? await paymentService.downloadInvoice(paymentDetails.id)
+        : await cartService.downloadOrderInvoice(paymentDetails.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `invoice-${paymentDetails.orderId}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setInvoiceError('The invoice is not available yet. Please try again later.');
+    }
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 flex items-center justify-center">
       <div className="max-w-md w-full bg-white rounded-lg shadow-lg p-8 text-center">
@@ -85,7 +104,9 @@ const PaymentReturnPage: React.FC = () => {
               Payment Successful!
             </h2>
             <p className="text-gray-600 mb-6">
-              Thank you for your purchase. You have been successfully enrolled in the course.
+              {paymentDetails?.courseIds?.length > 1
+                ? `Thank you for your purchase. You have been successfully enrolled in ${paymentDetails.courseIds.length} courses.`
+                : 'Thank you for your purchase. You have been successfully enrolled in the course.'}
             </p>
             
             {paymentDetails && (
@@ -101,13 +122,27 @@ const PaymentReturnPage: React.FC = () => {
                     <span>${paymentDetails.amount}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span>Payment Method:</span>
-                    <span>{paymentDetails.paymentMethod}</span>
+                    <span>Order:</span>
+                    <span className="font-mono">{paymentDetails.orderId}</span>
                   </div>
                 </div>
               </div>
             )}
 
+            {Number(paymentDetails?.amount) > 0 && (
+              <div className="mb-3">
+                <Button
+                  onClick={handleDownloadInvoice}
+                  variant="outline"
+                  className="w-full flex items-center justify-center gap-2"
+                >
+                  <ArrowDownTrayIcon className="h-5 w-5" />
+                  Download Invoice
+                </Button>
+                {invoiceError && <p className="mt-2 text-sm text-red-600">{invoiceError}</p>}
+              </div>
+            )}
+
             <Button
               onClick={handleContinue}
               className="w-full flex items-center justify-center gap-2"
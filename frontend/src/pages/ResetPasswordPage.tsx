@@ -49,16 +49,7 @@ const ResetPasswordPage: React.FC = () => {
     const verifyToken = async () => {
       try {
         setTokenLoading(true);
-        // In a real application, this would call an API endpoint
-        // For now, we'll simulate token verification
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        // For demo purposes, consider token valid if it's at least 10 chars
-        const isValid = typeof token === 'string' && token.length >= 10;
-        
-        // Uncomment this when you implement the actual API call
-        // const isValid = await authService.verifyResetToken(token);
-        
+        const isValid = await authService.verifyResetToken(token as string);
         setTokenValid(isValid);
       } catch (err) {
         setTokenValid(false);
@@ -83,12 +74,7 @@ const ResetPasswordPage: React.FC = () => {
       setIsLoading(true);
       setError(null);
       
-      // In a real application, this would call an API endpoint
-      // For now, we'll simulate a successful password reset
-      await new Promise(resolve => setTimeout(resolve, 1500));
-      
-      // Uncomment this when you implement the actual API call
-      // await authService.resetPassword(token, data.password);
+      await authService.resetPassword(token, data.password);
       
       setSuccess(true);
       
@@ -209,11 +195,11 @@ const ResetPasswordPage: React.FC = () => {
                       {...register('password', { 
                         required: 'Password is required',
                         minLength: {
-                          value: 6,
-                          message: 'Password must be at least 6 characters'
+                          value: 8,
+                          message: 'Password must be at least 8 characters'
                         },
                         pattern: {
-                          value: /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]{6,}$/,
+                          value: /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]{8,}$/,
                           message: 'Password must include uppercase, lowercase, number and special character'
                         }
                       })}
@@ -239,7 +225,7 @@ const ResetPasswordPage: React.FC = () => {
                     </p>
                   ) : (
                     <p className="mt-2 text-xs text-gray-500">
-                      Password must be at least 6 characters and include uppercase, lowercase, number and special character
+                      Password must be at least 8 characters and include uppercase, lowercase, number and special character
                     </p>
                   )}
                 </div>
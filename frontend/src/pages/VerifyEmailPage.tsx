@@ -0,0 +1,118 @@
+// src/pages/VerifyEmailPage.tsx
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import { useAppDispatch, useAppSelector } from '../redux/hooks';
+import { updateUser } from '../redux/slices/authSlice';
+import authService from '../services/authService';
+
+const VerifyEmailPage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const dispatch = useAppDispatch();
+  const { isAuthenticated, user } = useAppSelector((state) => state.auth);
+  const [isLoading, setIsLoading] = useState(true);
+  const [success, setSuccess] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Verify token when component mounts
+  useEffect(() => {
+    const verifyToken = async () => {
+      try {
+        setIsLoading(true);
+        await authService.verifyEmail(token as string);
+        setSuccess(true);
+        dispatch(updateUser({ isEmailVerified: true }));
+      } catch (err: any) {
+        setError(err?.response?.data?.message || 'The verification link is invalid or has expired.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    if (token) {
+      verifyToken();
+    } else {
+      setError('The verification link is invalid or has expired.');
+      setIsLoading(false);
+    }
+  }, [token, dispatch]);
+
+  const continuePath = isAuthenticated && user ? `/dashboard/${user.role}` : '/login';
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center py-12 sm:px-6 lg:px-8">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <Link to="/" className="flex justify-center">
+          <img
+            className="h-12 w-auto"
+            src="/logo.svg"
+            alt="E-Learning Platform Logo"
+          />
+        </Link>
+        <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+          Verify your email
+        </h2>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="bg-white py-8 px-4 shadow sm:rounded-lg sm:px-10">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <div className="animate-spin rounded-full h-10 w-10 border-t-2 border-b-2 border-primary-600"></div>
+            </div>
+          ) : success ? (
+            <div className="rounded-md bg-green-50 p-4">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <CheckCircleIcon className="h-5 w-5 text-green-400" aria-hidden="true" />
+                </div>
+                <div className="ml-3">
+                  <h3 className="text-sm font-medium text-green-800">Email verified</h3>
+                  <div className="mt-2 text-sm text-green-700">
+                    <p>Your email address has been verified. You now have full access to your account.</p>
+                  </div>
+                  <div className="mt-4">
+                    <div className="-mx-2 -my-1.5 flex">
+                      <Link
+                        to={continuePath}
+                        className="bg-green-50 px-2 py-1.5 rounded-md text-sm font-medium text-green-800 hover:bg-green-100"
+                      >
+                        {isAuthenticated ? 'Go to dashboard' : 'Go to login'}
+                      </Link>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="rounded-md bg-red-50 p-4">
+              <div className="flex">
+                <div className="flex-shrink-0">
+                  <XCircleIcon className="h-5 w-5 text-red-400" aria-hidden="true" />
+                </div>
+                <div className="ml-3">
+                  <h3 className="text-sm font-medium text-red-800">Invalid or expired link</h3>
+                  <div className="mt-2 text-sm text-red-700">
+                    <p>{error} Sign in and request a new verification email from your dashboard.</p>
+                  </div>
+                  <div className="mt-4">
+                    <div className="-mx-2 -my-1.5 flex">
+                      <Link
+                        to={continuePath}
+                        className="bg-red-50 px-2 py-1.5 rounded-md text-sm font-medium text-red-800 hover:bg-red-100"
+                      >
+                        {isAuthenticated ? 'Go to dashboard' : 'Go to login'}
+                      </Link>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmailPage;
@@ -4,15 +4,31 @@ import { fetchCoupons, createCoupon, updateCoupon, deleteCoupon } from '../../..
 import Button from '../../../components/ui/Button';
 import Spinner from '../../../components/ui/Spinner';
 import Alert from '../../../components/ui/Alert';
+import { couponService, CouponCampaign, CreateCampaignData } from '../../../services/apiServices';
 import { 
   PlusIcon, 
   PencilIcon, 
   TrashIcon, 
   TagIcon,
   EyeIcon,
-  EyeSlashIcon 
+  EyeSlashIcon,
+  ArrowDownTrayIcon,
+  NoSymbolIcon,
+  QueueListIcon
 } from '@heroicons/react/24/outline';
 
+const emptyCampaignForm: CreateCampaignData = {
+  name: '',
+  prefix: '',
+  codeLength: 8,
+  count: 1000,
+  discountType: 'percentage',
+  discountValue: 10,
+  minimumAmount: 0,
+  validFrom: '',
+  validUntil: ''
+};
+
 // Define Coupon type based on your backend or redux slice
 interface Coupon {
   id: string;
@@ -48,10 +64,67 @@ const CouponManagement: React.FC = () => {
     isPublic: true
   });
 
+  const [campaigns, setCampaigns] = useState<CouponCampaign[]>([]);
+  const [campaignError, setCampaignError] = useState<string | null>(null);
+  const [showCampaignModal, setShowCampaignModal] = useState(false);
+  const [campaignForm, setCampaignForm] = useState<CreateCampaignData>(emptyCampaignForm);
+  const [generating, setGenerating] = useState(false);
+
+  const loadCampaigns = async () => {
+    try {
+      const result = await couponService.getCampaigns();
+      setCampaigns(result.data.campaigns);
+    } catch (err: any) {
+      setCampaignError(err.response?.data?.message || 'Failed to load campaigns');
+    }
+  };
+
   useEffect(() => {
     dispatch(fetchCoupons({})); // Pass an empty object or the appropriate argument as required by fetchCoupons
+    loadCampaigns();
   }, [dispatch]);
 
+  const handleCreateCampaign = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setGenerating(true);
+      setCampaignError(null);
+      await couponService.createCampaign(campaignForm);
+      setCampaignForm(emptyCampaignForm);
+      setShowCampaignModal(false);
+      await loadCampaigns();
+    } catch (err: any) {
+      setCampaignError(err.response?.data?.message || 'Failed to generate codes');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleExportCampaign = async (campaign: CouponCampaign) => {
+    try {
+      const blob = await couponService.exportCampaign(campaign.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `campaign-${(campaign.prefix || campaign.id.slice(0, 8)).toLowerCase()}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setCampaignError(err.response?.data?.message || 'Failed to export codes');
+    }
+  };
+
+  const handleDeactivateCampaign = async (campaign: CouponCampaign) => {
+    if (!window.confirm(`Deactivate all ${campaign.codeCount} codes of "${campaign.name}"?`)) return;
+
+    try {
+      await couponService.deactivateCampaign(campaign.id);
+      await loadCampaigns();
+    } catch (err: any) {
+      setCampaignError(err.response?.data?.message || 'Failed to deactivate campaign');
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     try {
@@ -120,12 +193,21 @@ const CouponManagement: React.FC = () => {
           <h2 className="text-2xl font-bold text-gray-900">Coupon Management</h2>
           <p className="text-gray-600">Create and manage discount coupons</p>
         </div>
-        <Button
-          onClick={() => setShowCreateModal(true)}
-        >
-          <PlusIcon className="h-5 w-5 inline-block mr-2" />
-          Create Coupon
-        </Button>
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            onClick={() => setShowCampaignModal(true)}
+          >
+            <QueueListIcon className="h-5 w-5 inline-block mr-2" />
+            Generate Codes
+          </Button>
+          <Button
+            onClick={() => setShowCreateModal(true)}
+          >
+            <PlusIcon className="h-5 w-5 inline-block mr-2" />
+            Create Coupon
+          </Button>
+        </div>
       </div>
 
       {/* Error */}
@@ -239,6 +321,231 @@ const CouponManagement: React.FC = () => {
         </div>
       </div>
 
+      {/* Campaigns */}
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold text-gray-900">Campaigns</h3>
+
+        {campaignError && (
+          <Alert type="error" message={campaignError} />
+        )}
+
+        {campaigns.length === 0 ? (
+          <p className="text-sm text-gray-500">No campaigns yet. Generate a batch of single-use codes to start one.</p>
+        ) : (
+          <div className="bg-white rounded-lg border overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Campaign</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Codes</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Redeemed</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Discount Given</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {campaigns.map((campaign) => (
+                  <tr key={campaign.id}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{campaign.name}</div>
+                      <div className="text-sm text-gray-500">
+                        {campaign.prefix}{'•'.repeat(campaign.codeLength)}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{campaign.codeCount}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {campaign.redeemedCodes} ({campaign.redemptionRate}%)
+                      {campaign.pendingCodes > 0 && (
+                        <div className="text-xs text-gray-500">{campaign.pendingCodes} in checkout</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {campaign.totalDiscount.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                        campaign.isActive ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                      }`}>
+                        {campaign.isActive ? 'Active' : 'Inactive'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => handleExportCampaign(campaign)}>
+                        <ArrowDownTrayIcon className="h-4 w-4 inline-block mr-1" />
+                        CSV
+                      </Button>
+                      {campaign.isActive && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleDeactivateCampaign(campaign)}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <NoSymbolIcon className="h-4 w-4 inline-block mr-1" />
+                          Deactivate
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Generate Campaign Modal */}
+      {showCampaignModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
+            <h3 className="text-lg font-semibold mb-4">Generate Campaign Codes</h3>
+
+            <form onSubmit={handleCreateCampaign} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Campaign Name *
+                </label>
+                <input
+                  type="text"
+                  value={campaignForm.name}
+                  onChange={(e) => setCampaignForm(prev => ({ ...prev, name: e.target.value }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Prefix</label>
+                  <input
+                    type="text"
+                    maxLength={20}
+                    value={campaignForm.prefix}
+                    onChange={(e) => setCampaignForm(prev => ({ ...prev, prefix: e.target.value.toUpperCase() }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Length *</label>
+                  <input
+                    type="number"
+                    min="4"
+                    max="30"
+                    value={campaignForm.codeLength}
+                    onChange={(e) => setCampaignForm(prev => ({ ...prev, codeLength: Number(e.target.value) }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Codes *</label>
+                  <input
+                    type="number"
+                    min="1"
+                    max="10000"
+                    value={campaignForm.count}
+                    onChange={(e) => setCampaignForm(prev => ({ ...prev, count: Number(e.target.value) }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Alphabet
+                </label>
+                <input
+                  type="text"
+                  value={campaignForm.alphabet ?? ''}
+                  onChange={(e) => setCampaignForm(prev => ({ ...prev, alphabet: e.target.value.toUpperCase() || undefined }))}
+                  placeholder="Letters and digits without 0, O, 1, I, L"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Discount Type *
+                  </label>
+                  <select
+                    value={campaignForm.discountType}
+                    onChange={(e) => setCampaignForm(prev => ({ ...prev, discountType: e.target.value as CreateCampaignData['discountType'] }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="percentage">Percentage</option>
+                    <option value="fixed">Fixed Amount</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Discount Value *
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    max={campaignForm.discountType === 'percentage' ? '100' : undefined}
+                    value={campaignForm.discountValue}
+                    onChange={(e) => setCampaignForm(prev => ({ ...prev, discountValue: Number(e.target.value) }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Valid From *
+                  </label>
+                  <input
+                    type="date"
+                    value={campaignForm.validFrom}
+                    onChange={(e) => setCampaignForm(prev => ({ ...prev, validFrom: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Valid Until *
+                  </label>
+                  <input
+                    type="date"
+                    value={campaignForm.validUntil}
+                    onChange={(e) => setCampaignForm(prev => ({ ...prev, validUntil: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    required
+                  />
+                </div>
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Every code can be used once. Export them as CSV once the campaign is generated.
+              </p>
+
+              <div className="flex justify-end space-x-2 pt-4">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setShowCampaignModal(false)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  isLoading={generating}
+                >
+                  Generate
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
       {/* Create/Edit Modal */}
       {showCreateModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -0,0 +1,615 @@
+// src/pages/dashboard/admin/PaymentsPage.tsx
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowUturnLeftIcon, ArrowDownTrayIcon, ArrowPathIcon, DocumentTextIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import Button from '../../../components/ui/Button';
+import Spinner from '../../../components/ui/Spinner';
+import Alert from '../../../components/ui/Alert';
+import {
+  paymentService,
+  cartService,
+  earningService,
+  Transaction,
+  RefundData,
+  Refund,
+  ReconciliationReport,
+  TeacherStatementSummary
+} from '../../../services/apiServices';
+
+interface OrderItem {
+  course_id: string;
+  course_title: string;
+  amount: number;
+  enrolled: boolean;
+}
+
+const REFUNDABLE_STATUSES = ['completed', 'completed_enrollment_failed'];
+const INVOICED_STATUSES = [...REFUNDABLE_STATUSES, 'refunded'];
+
+const statusStyles: Record<string, string> = {
+  completed: 'bg-green-100 text-green-800',
+  completed_enrollment_failed: 'bg-yellow-100 text-yellow-800',
+  pending: 'bg-blue-100 text-blue-800',
+  failed: 'bg-red-100 text-red-800',
+  cancelled: 'bg-gray-100 text-gray-800',
+  refunded: 'bg-purple-100 text-purple-800'
+};
+
+const formatVND = (amount: number) => `${Number(amount).toLocaleString()} VNĐ`;
+
+// Payouts are made for closed months, so default to the previous one
+const previousPeriod = () => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() - 1);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const PaymentsPage: React.FC = () => {
+  const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [statusFilter, setStatusFilter] = useState('');
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const [refunding, setRefunding] = useState<Transaction | null>(null);
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
+  const [selectedCourses, setSelectedCourses] = useState<string[]>([]);
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [enrollmentAction, setEnrollmentAction] = useState<'' | 'revoke' | 'downgrade' | 'keep'>('');
+  const [refundError, setRefundError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const [reports, setReports] = useState<ReconciliationReport[]>([]);
+  const [reconciling, setReconciling] = useState(false);
+
+  const [payoutPeriod, setPayoutPeriod] = useState(previousPeriod());
+  const [statements, setStatements] = useState<TeacherStatementSummary[]>([]);
+  const [payingTeacher, setPayingTeacher] = useState<string | null>(null);
+
+  const loadTransactions = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await paymentService.getAllTransactions({
+        page,
+        limit: 20,
+        status: statusFilter || undefined
+      });
+      setTransactions(response.data.transactions);
+      setTotalPages(response.totalPages || 1);
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to load transactions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, statusFilter]);
+
+  useEffect(() => {
+    loadTransactions();
+  }, [loadTransactions]);
+
+  const loadReports = useCallback(async () => {
+    try {
+      const response = await paymentService.getReconciliationReports({ limit: 10 });
+      setReports(response.data.reports);
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to load reconciliation reports');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReports();
+  }, [loadReports]);
+
+  const loadStatements = useCallback(async () => {
+    try {
+      const response = await earningService.getStatements(payoutPeriod);
+      setStatements(response.data.statements);
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to load teacher statements');
+    }
+  }, [payoutPeriod]);
+
+  useEffect(() => {
+    loadStatements();
+  }, [loadStatements]);
+
+  const handlePayout = async (statement: TeacherStatementSummary) => {
+    const reference = window.prompt(
+      `Transfer reference for the ${formatVND(statement.netAmount)} payout to ${statement.teacherName}`
+    );
+    if (reference === null) return;
+
+    setPayingTeacher(statement.teacherId);
+    try {
+      await earningService.createPayout({
+        teacherId: statement.teacherId,
+        period: payoutPeriod,
+        reference: reference.trim() || undefined
+      });
+      setSuccess(`Payout to ${statement.teacherName} for ${payoutPeriod} recorded`);
+      loadStatements();
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to record payout');
+    } finally {
+      setPayingTeacher(null);
+    }
+  };
+
+  const handleReconcile = async () => {
+    setReconciling(true);
+    try {
+      const response = await paymentService.runReconciliation();
+      const report: ReconciliationReport = response.data.report;
+      setSuccess(`Reconciliation checked ${report.checked_count} pending transactions`);
+      loadReports();
+      loadTransactions();
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Reconciliation failed');
+    } finally {
+      setReconciling(false);
+    }
+  };
+
+  const handleDownload = async (report: ReconciliationReport) => {
+    try {
+      const blob = await paymentService.downloadReconciliationReport(report.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `reconciliation-${report.started_at.replace(/\D/g, '').slice(0, 14)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to download report');
+    }
+  };
+
+  const handleDownloadInvoice = async (transaction: Transaction) => {
+    try {
+      const blob = transaction.type === 'payment'
+        ? await paymentService.downloadInvoice(transaction.id)
+        : await cartService.downloadOrderInvoice(transaction.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `invoice-${transaction.reference}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.response?.status === 404 ? 'Invoices are disabled' : 'Failed to download invoice');
+    }
+  };
+
+  const openRefund = async (transaction: Transaction) => {
+    setRefunding(transaction);
+    setRefunds([]);
+    setOrderItems([]);
+    setSelectedCourses([]);
+    setAmount('');
+    setReason('');
+    setEnrollmentAction('');
+    setRefundError('');
+
+    try {
+      if (transaction.type === 'order') {
+        const [orderResponse, refundsResponse] = await Promise.all([
+          cartService.getOrderById(transaction.id),
+          cartService.getOrderRefunds(transaction.id)
+        ]);
+        setOrderItems(orderResponse.data.items);
+        setRefunds(refundsResponse.data.refunds);
+      } else {
+        const response = await paymentService.getPaymentRefunds(transaction.id);
+        setRefunds(response.data.refunds);
+      }
+    } catch (err: any) {
+      setRefundError(err.response?.data?.message || err.message || 'Failed to load refund history');
+    }
+  };
+
+  const closeRefund = () => {
+    setRefunding(null);
+  };
+
+  const toggleCourse = (courseId: string) => {
+    setSelectedCourses((current) =>
+      current.includes(courseId) ? current.filter((id) => id !== courseId) : [...current, courseId]
+    );
+  };
+
+  const handleRefund = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!refunding) return;
+
+    const data: RefundData = {
+      amount: amount ? parseInt(amount, 10) : undefined,
+      courseIds: selectedCourses.length > 0 ? selectedCourses : undefined,
+      reason: reason || undefined,
+      enrollmentAction: enrollmentAction || undefined
+    };
+
+    setSubmitting(true);
+    setRefundError('');
+    try {
+      const response = refunding.type === 'order'
+        ? await cartService.refundOrder(refunding.id, data)
+        : await paymentService.refundPayment(refunding.id, data);
+
+      setSuccess(`Refunded ${formatVND(response.data.refund.amount)} for ${refunding.reference}`);
+      setRefunding(null);
+      loadTransactions();
+    } catch (err: any) {
+      // Failed VNPay refunds are recorded too, so refresh the history
+      setRefundError(err.response?.data?.message || err.message || 'Refund failed');
+      if (refunding.type === 'order') {
+        cartService.getOrderRefunds(refunding.id).then((response) => setRefunds(response.data.refunds));
+      } else {
+        paymentService.getPaymentRefunds(refunding.id).then((response) => setRefunds(response.data.refunds));
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const refundable = refunding ? Number(refunding.amount) - Number(refunding.refunded_amount) : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">Payments</h1>
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setStatusFilter(e.target.value);
+              setPage(1);
+            }}
+            className="mt-4 sm:mt-0 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            <option value="">All statuses</option>
+            <option value="completed">Completed</option>
+            <option value="completed_enrollment_failed">Enrollment failed</option>
+            <option value="pending">Pending</option>
+            <option value="failed">Failed</option>
+            <option value="cancelled">Cancelled</option>
+            <option value="refunded">Refunded</option>
+          </select>
+        </div>
+
+        {error && (
+          <div className="mb-4">
+            <Alert type="error" message={error} onClose={() => setError('')} />
+          </div>
+        )}
+        {success && (
+          <div className="mb-4">
+            <Alert type="success" message={success} onClose={() => setSuccess('')} />
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center items-center h-64">
+            <Spinner />
+          </div>
+        ) : transactions.length === 0 ? (
+          <p className="text-center text-gray-600 py-12">No transactions found.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Reference
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Customer
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Amount
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Date
+                  </th>
+                  <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {transactions.map((transaction) => (
+                  <tr key={`${transaction.type}-${transaction.id}`}>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{transaction.reference}</div>
+                      <div className="text-sm text-gray-500">{transaction.description}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {transaction.email}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm text-gray-900">{formatVND(transaction.amount)}</div>
+                      {Number(transaction.refunded_amount) > 0 && (
+                        <div className="text-xs text-purple-600">-{formatVND(transaction.refunded_amount)} refunded</div>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${statusStyles[transaction.status] || 'bg-gray-100 text-gray-800'}`}>
+                        {transaction.status.replace(/_/g, ' ')}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(transaction.payment_date || transaction.created_at).toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-4">
+                      {INVOICED_STATUSES.includes(transaction.status) && Number(transaction.amount) > 0 && (
+                        <button
+                          onClick={() => handleDownloadInvoice(transaction)}
+                          className="inline-flex items-center text-primary-600 hover:text-primary-900"
+                        >
+                          <DocumentTextIcon className="h-4 w-4 mr-1" />
+                          Invoice
+                        </button>
+                      )}
+                      {REFUNDABLE_STATUSES.includes(transaction.status) && Number(transaction.amount) > 0 && (
+                        <button
+                          onClick={() => openRefund(transaction)}
+                          className="inline-flex items-center text-red-600 hover:text-red-900"
+                        >
+                          <ArrowUturnLeftIcon className="h-4 w-4 mr-1" />
+                          Refund
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {totalPages > 1 && (
+          <div className="flex justify-between items-center mt-6">
+            <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+              Previous
+            </Button>
+            <span className="text-sm text-gray-600">Page {page} of {totalPages}</span>
+            <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+              Next
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Reconciliation Reports */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Reconciliation</h2>
+            <p className="text-sm text-gray-500">
+              Pending payments past their expiry are checked against VNPay on a schedule.
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleReconcile}
+            isLoading={reconciling}
+            leftIcon={<ArrowPathIcon className="h-5 w-5" />}
+          >
+            Run Now
+          </Button>
+        </div>
+
+        {reports.length === 0 ? (
+          <p className="text-sm text-gray-600">No reconciliation reports yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {reports.map((report) => (
+              <li key={report.id} className="py-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {new Date(report.started_at).toLocaleString()}
+                    <span className="ml-2 text-xs text-gray-500">{report.trigger_type}</span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {report.checked_count} checked · {report.completed_count} completed · {report.failed_count} failed
+                    · {report.cancelled_count} cancelled · {report.error_count} errors
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleDownload(report)}
+                  className="inline-flex items-center text-sm text-primary-600 hover:text-primary-800"
+                >
+                  <ArrowDownTrayIcon className="h-4 w-4 mr-1" />
+                  CSV
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Teacher Payouts */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Teacher Payouts</h2>
+            <p className="text-sm text-gray-500">
+              Each teacher's share of the month's sales after commission and refunds.
+            </p>
+          </div>
+          <input
+            type="month"
+            value={payoutPeriod}
+            onChange={(e) => setPayoutPeriod(e.target.value)}
+            className="mt-4 sm:mt-0 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+          />
+        </div>
+
+        {statements.length === 0 ? (
+          <p className="text-sm text-gray-600">No teacher earnings in this month.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {statements.map((statement) => (
+              <li key={statement.teacherId} className="py-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {statement.teacherName}
+                    <span className="ml-2 text-xs text-gray-500">{statement.teacherEmail}</span>
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {statement.sales} sales · {statement.refunds} refunds · gross {formatVND(statement.grossAmount)}
+                    · commission {formatVND(statement.commissionAmount)}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-4">
+                  <span className="text-sm font-medium text-gray-900">{formatVND(statement.netAmount)}</span>
+                  {statement.payout ? (
+                    <span className="text-sm text-green-600">
+                      Paid {new Date(statement.payout.paid_at).toLocaleDateString()}
+                    </span>
+                  ) : (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handlePayout(statement)}
+                      isLoading={payingTeacher === statement.teacherId}
+                      disabled={statement.netAmount <= 0}
+                    >
+                      Mark Paid
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Refund Modal */}
+      {refunding && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h3 className="text-lg font-semibold text-gray-900">Refund {refunding.reference}</h3>
+              <button onClick={closeRefund} className="text-gray-400 hover:text-gray-600">
+                <XMarkIcon className="h-6 w-6" />
+              </button>
+            </div>
+
+            <form onSubmit={handleRefund} className="p-6 space-y-4">
+              <p className="text-sm text-gray-600">
+                Paid {formatVND(refunding.amount)} by {refunding.email}. Up to {formatVND(refundable)} can be refunded.
+              </p>
+
+              {orderItems.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Courses (leave empty to refund the whole order)
+                  </label>
+                  <div className="space-y-2">
+                    {orderItems.map((item) => (
+                      <label key={item.course_id} className="flex items-center justify-between text-sm">
+                        <span className="flex items-center">
+                          <input
+                            type="checkbox"
+                            checked={selectedCourses.includes(item.course_id)}
+                            onChange={() => toggleCourse(item.course_id)}
+                            className="mr-2"
+                          />
+                          {item.course_title}
+                        </span>
+                        <span className="text-gray-500">{formatVND(item.amount)}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Amount (VNĐ)
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  max={refundable}
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder={selectedCourses.length > 0 ? 'Amount paid for the selected courses' : `Full refund (${refundable.toLocaleString()})`}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Enrollment
+                </label>
+                <select
+                  value={enrollmentAction}
+                  onChange={(e) => setEnrollmentAction(e.target.value as typeof enrollmentAction)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                >
+                  <option value="">Default (revoke on full or per-course refund, otherwise downgrade)</option>
+                  <option value="revoke">Revoke access</option>
+                  <option value="downgrade">Downgrade to a time-limited trial</option>
+                  <option value="keep">Keep access</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Reason
+                </label>
+                <textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  maxLength={500}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+              </div>
+
+              {refundError && <Alert type="error" message={refundError} />}
+
+              {refunds.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-700 mb-2">Refund history</h4>
+                  <ul className="divide-y divide-gray-200 text-sm">
+                    {refunds.map((refund) => (
+                      <li key={refund.id} className="py-2 flex justify-between">
+                        <span>
+                          {formatVND(refund.amount)} · {refund.refund_type} · {refund.enrollment_action}
+                          {refund.gateway_message && <span className="block text-xs text-gray-500">{refund.gateway_message}</span>}
+                        </span>
+                        <span className={`px-2 h-5 inline-flex text-xs leading-5 font-semibold rounded-full ${refund.status === 'completed' ? 'bg-green-100 text-green-800' : refund.status === 'failed' ? 'bg-red-100 text-red-800' : 'bg-blue-100 text-blue-800'}`}>
+                          {refund.status}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex justify-end space-x-3 pt-2">
+                <Button type="button" variant="outline" onClick={closeRefund}>
+                  Cancel
+                </Button>
+                <Button type="submit" variant="danger" isLoading={submitting} disabled={submitting || refundable <= 0}>
+                  Refund
+                </Button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaymentsPage;
@@ -1,6 +1,7 @@
 // src/pages/dashboard/admin/SettingsPage.tsx
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import Button from '../../../components/ui/Button';
+import { userService, TwoFactorPolicies, User } from '../../../services/apiServices';
 
 const SettingsPage: React.FC = () => {
   const [generalSettings, setGeneralSettings] = useState({
@@ -28,6 +29,24 @@ const SettingsPage: React.FC = () => {
     paypalClientId: '••••••••••••••••••••••••'
   });
 
+  const [twoFactorPolicies, setTwoFactorPolicies] = useState<TwoFactorPolicies | null>(null);
+
+  useEffect(() => {
+    userService.getTwoFactorPolicies()
+      .then((response) => setTwoFactorPolicies(response.data))
+      .catch((error) => console.error('Failed to load two-factor policies:', error));
+  }, []);
+
+  const handleTwoFactorPolicyChange = async (role: User['role'], required: boolean) => {
+    try {
+      const response = await userService.updateTwoFactorPolicy(role, required);
+      setTwoFactorPolicies((prev) => prev && { ...prev, policies: response.data.policies });
+    } catch (error) {
+      console.error('Failed to update two-factor policy:', error);
+      alert('Failed to update two-factor policy');
+    }
+  };
+
   // Handle form submissions
   const handleGeneralSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -140,6 +159,39 @@ const SettingsPage: React.FC = () => {
       
       {/* Other setting sections would go here but are not shown in the current tab */}
       
+      {/* Two-factor authentication policy */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Two-Factor Authentication</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Require users with these roles to set up an authenticator app before using their account.
+        </p>
+        
+        {!twoFactorPolicies ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : !twoFactorPolicies.twoFactorAvailable ? (
+          <p className="text-sm text-gray-500">
+            Two-factor authentication is disabled on the server (ENABLE_TWO_FACTOR_AUTH).
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {(['student', 'teacher', 'admin'] as User['role'][]).map((role) => (
+              <div key={role} className="flex items-center">
+                <input
+                  id={`twoFactor-${role}`}
+                  type="checkbox"
+                  className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                  checked={twoFactorPolicies.policies[role]}
+                  onChange={(e) => handleTwoFactorPolicyChange(role, e.target.checked)}
+                />
+                <label htmlFor={`twoFactor-${role}`} className="ml-2 block text-sm text-gray-900 capitalize">
+                  {role}s
+                </label>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+      
       {/* System Information */}
       <div className="bg-white rounded-lg shadow-md p-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">System Information</h2>
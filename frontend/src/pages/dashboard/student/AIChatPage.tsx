@@ -1,52 +1,43 @@
 // src/pages/dashboard/student/AIChatPage.tsx
 import React, { useState, useEffect, useRef } from 'react';
-import { useSelector } from 'react-redux';
+import { Link } from 'react-router-dom';
+import { useDispatch, useSelector } from 'react-redux';
 // Update the import path below to the correct relative path to your store file
-import { RootState } from '../../../redux/store';
-import aiChatService from '../../../services/aiChatService';
+import { AppDispatch, RootState } from '../../../redux/store';
+import aiChatService, { ChatCitation, ChatSession } from '../../../services/aiChatService';
+import {
+  ChatMessage,
+  clearMessages,
+  sessionLoaded,
+  streamMessage
+} from '../../../redux/slices/aiChatSlice';
+import { enrollmentService } from '../../../services/apiServices';
 import Button from '../../../components/ui/Button';
 import { 
   PaperAirplaneIcon, 
   ArrowPathIcon,
   ArchiveBoxIcon,
   LightBulbIcon,
-  BookOpenIcon
+  BookOpenIcon,
+  PencilIcon,
+  TrashIcon,
+  StopIcon
 } from '@heroicons/react/24/outline';
 
-interface Message {
-  id?: string;
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: Date;
-}
-
-interface ChatHistoryItem {
-  id: string;
-  query: string;
-  response: string;
-  created_at: string;
-}
-
 interface Course {
   id: string;
   title: string;
 }
 
 const AIChatPage: React.FC = () => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      role: 'assistant',
-      content: 'Hello! I\'m your AI learning assistant. How can I help with your studies today?',
-      timestamp: new Date()
-    }
-  ]);
+  const dispatch = useDispatch<AppDispatch>();
+  const { messages, activeSessionId, isStreaming, error: chatError } = useSelector((state: RootState) => state.aiChat);
   const [input, setInput] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedCourse, setSelectedCourse] = useState<string>('');
   const [courses, setCourses] = useState<Course[]>([]);
   const [showChatHistory, setShowChatHistory] = useState(false);
-  const [chatHistory, setChatHistory] = useState<ChatHistoryItem[]>([]);
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
   const [historyLoading, setHistoryLoading] = useState(false);
   const [suggestedPrompts, setSuggestedPrompts] = useState<string[]>([
     "Can you explain the concept of React component lifecycle?",
@@ -57,19 +48,19 @@ const AIChatPage: React.FC = () => {
   ]);
   
   const messagesEndRef = useRef<null | HTMLDivElement>(null);
+  const streamRef = useRef<{ abort: () => void } | null>(null);
   const { user } = useSelector((state: RootState) => state.auth);
   
   // Fetch enrolled courses for context
   useEffect(() => {
     const fetchCourses = async () => {
       try {
-        // This would normally come from a courseService API call
-        // For now, we'll use placeholder data
-        setCourses([
-          { id: '11111111-2222-3333-4444-555555555555', title: 'React Fundamentals' },
-          { id: '22222222-3333-4444-5555-666666666666', title: 'Node.js Backend Development' },
-          { id: '33333333-4444-5555-6666-777777777777', title: 'Python for Data Science' }
-        ]);
+        // Course context is only available for courses the student is enrolled in
+        const response = await enrollmentService.getAllEnrollments({ limit: 100 });
+        setCourses(response.data.enrollments.map((enrollment: any) => ({
+          id: enrollment.course_id,
+          title: enrollment.course_title
+        })));
       } catch (err) {
         console.error('Failed to fetch courses', err);
       }
@@ -78,6 +69,9 @@ const AIChatPage: React.FC = () => {
     fetchCourses();
   }, []);
   
+  // Stop a running answer when leaving the page
+  useEffect(() => () => streamRef.current?.abort(), []);
+  
   // Scroll to bottom when messages update
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -92,89 +86,119 @@ const AIChatPage: React.FC = () => {
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!input.trim()) return;
+    if (!input.trim() || isStreaming) return;
     
-    const userMessage: Message = {
-      role: 'user',
-      content: input,
-      timestamp: new Date()
-    };
-    
-    setMessages(prev => [...prev, userMessage]);
     setInput('');
-    setIsLoading(true);
     setError(null);
     
+    // Stream the answer into the conversation, continuing the current session so follow-up
+    // questions keep their context
+    const request = dispatch(streamMessage({ query: input, courseId: selectedCourse || undefined }));
+    streamRef.current = request;
+    
     try {
-      // Prepare request data
-      const requestData: { query: string; courseId?: string } = {
-        query: input
-      };
-      
-      // Add courseId if selected
-      if (selectedCourse) {
-        requestData.courseId = selectedCourse;
-      }
-      
-      // Send request to AI
-      const response = await aiChatService.sendMessage(requestData.query, requestData.courseId);
-      
-      // Add AI response to messages
-      const assistantMessage: Message = {
-        role: 'assistant',
-        content: response.response,
-        timestamp: new Date()
-      };
-      
-      setMessages(prev => [...prev, assistantMessage]);
-    } catch (err) {
-      console.error('Error sending message to AI', err);
-      setError('Failed to get a response. Please try again later.');
+      await request;
     } finally {
-      setIsLoading(false);
+      streamRef.current = null;
     }
   };
   
-  // Fetch chat history
+  // Stop the answer being generated
+  const handleStopStreaming = () => {
+    streamRef.current?.abort();
+  };
+  
+  // Fetch chat sessions
   const handleFetchChatHistory = async () => {
     setHistoryLoading(true);
+    setShowChatHistory(true);
     try {
-      const history = await aiChatService.getChatHistory();
-      setChatHistory(history.chatHistory);
-      setShowChatHistory(true);
+      const data = await aiChatService.getSessions();
+      setSessions(data.sessions);
     } catch (err) {
-      console.error('Failed to fetch chat history', err);
+      console.error('Failed to fetch chat sessions', err);
     } finally {
       setHistoryLoading(false);
     }
   };
   
-  // Load a conversation from history
-  const loadConversation = (item: ChatHistoryItem) => {
-    setMessages([
-      {
-        role: 'user',
-        content: item.query,
-        timestamp: new Date(item.created_at)
-      },
-      {
-        role: 'assistant',
-        content: item.response,
-        timestamp: new Date(item.created_at)
+  // Load a session with all of its turns
+  const loadSession = async (session: ChatSession) => {
+    streamRef.current?.abort();
+    setHistoryLoading(true);
+    try {
+      const data = await aiChatService.getSession(session.id);
+      dispatch(sessionLoaded({
+        sessionId: session.id,
+        messages: data.turns.flatMap((turn): ChatMessage[] => [
+          {
+            id: `${turn.id}-query`,
+            role: 'user',
+            content: turn.query,
+            timestamp: turn.createdAt
+          },
+          {
+            id: turn.id,
+            role: 'assistant',
+            content: turn.response,
+            timestamp: turn.createdAt,
+            courseId: session.courseId,
+            citations: turn.citations
+          }
+        ])
+      }));
+      setSelectedCourse(session.courseId ?? '');
+      setShowChatHistory(false);
+    } catch (err) {
+      console.error('Failed to load chat session', err);
+      setError('Failed to load the conversation. Please try again later.');
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+  
+  // Rename a session
+  const handleRenameSession = async (session: ChatSession) => {
+    const title = window.prompt('Rename conversation', session.title)?.trim();
+    if (!title || title === session.title) return;
+    
+    try {
+      const data = await aiChatService.renameSession(session.id, title);
+      setSessions(prev => prev.map(item => (item.id === session.id ? data.session : item)));
+    } catch (err) {
+      console.error('Failed to rename chat session', err);
+    }
+  };
+  
+  // Delete a session
+  const handleDeleteSession = async (session: ChatSession) => {
+    if (!window.confirm(`Delete "${session.title}"?`)) return;
+    
+    try {
+      await aiChatService.deleteSession(session.id);
+      setSessions(prev => prev.filter(item => item.id !== session.id));
+      if (session.id === activeSessionId) {
+        startNewConversation();
       }
-    ]);
-    setShowChatHistory(false);
+    } catch (err) {
+      console.error('Failed to delete chat session', err);
+    }
   };
   
   // Start a new conversation
   const startNewConversation = () => {
-    setMessages([
-      {
-        role: 'assistant',
-        content: 'Hello! I\'m your AI learning assistant. How can I help with your studies today?',
-        timestamp: new Date()
-      }
-    ]);
+    streamRef.current?.abort();
+    setError(null);
+    dispatch(clearMessages());
+  };
+  
+  // Link a citation to the lecture, starting playback at the cited timestamp
+  const getCitationLink = (courseId: string, citation: ChatCitation): string => {
+    const params = new URLSearchParams({ lecture: citation.lectureId });
+    if (citation.startSeconds !== undefined) {
+      params.set('t', String(citation.startSeconds));
+    }
+    return `/dashboard/student/courses/${courseId}?${params.toString()}`;
   };
   
   // Use a suggested prompt
@@ -245,23 +269,52 @@ const AIChatPage: React.FC = () => {
             <div className="flex justify-center items-center py-8">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
             </div>
-          ) : chatHistory.length === 0 ? (
+          ) : sessions.length === 0 ? (
             <p className="text-gray-500 py-4 text-center">No chat history found</p>
           ) : (
             <ul className="space-y-2">
-              {chatHistory.map((item) => (
+              {sessions.map((session) => (
                 <li
-                  key={item.id}
-                  className="border border-gray-200 rounded-lg p-3 hover:bg-gray-50 cursor-pointer"
-                  onClick={() => loadConversation(item)}
+                  key={session.id}
+                  className={`border rounded-lg p-3 hover:bg-gray-50 cursor-pointer ${
+                    session.id === activeSessionId ? 'border-primary-300' : 'border-gray-200'
+                  }`}
+                  onClick={() => loadSession(session)}
                 >
-                  <div className="flex justify-between">
-                    <p className="font-medium text-gray-800 truncate">{item.query}</p>
-                    <span className="text-xs text-gray-500">
-                      {new Date(item.created_at).toLocaleDateString()}
-                    </span>
+                  <div className="flex justify-between items-start">
+                    <p className="font-medium text-gray-800 truncate">{session.title}</p>
+                    <div className="flex items-center space-x-2 ml-2">
+                      <span className="text-xs text-gray-500">
+                        {new Date(session.lastMessageAt ?? session.updatedAt).toLocaleDateString()}
+                      </span>
+                      <button
+                        type="button"
+                        className="text-gray-400 hover:text-gray-600"
+                        title="Rename"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleRenameSession(session);
+                        }}
+                      >
+                        <PencilIcon className="h-4 w-4" />
+                      </button>
+                      <button
+                        type="button"
+                        className="text-gray-400 hover:text-red-600"
+                        title="Delete"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          handleDeleteSession(session);
+                        }}
+                      >
+                        <TrashIcon className="h-4 w-4" />
+                      </button>
+                    </div>
                   </div>
-                  <p className="text-sm text-gray-600 truncate">{item.response}</p>
+                  <p className="text-sm text-gray-600 truncate">
+                    {session.turnCount} {session.turnCount === 1 ? 'question' : 'questions'}
+                    {session.courseTitle && ` · ${session.courseTitle}`}
+                  </p>
                 </li>
               ))}
             </ul>
@@ -309,36 +362,63 @@ const AIChatPage: React.FC = () => {
                         <span className="text-xs font-medium">AI Assistant</span>
                       </div>
                     )}
-                    <div className="whitespace-pre-wrap">{message.content}</div>
+                    {message.isStreaming && !message.content ? (
+                      <div className="flex items-center space-x-1 my-2">
+                        <div className="h-2 w-2 bg-gray-400 rounded-full animate-bounce"></div>
+                        <div className="h-2 w-2 bg-gray-400 rounded-full animate-bounce delay-100"></div>
+                        <div className="h-2 w-2 bg-gray-400 rounded-full animate-bounce delay-200"></div>
+                      </div>
+                    ) : (
+                      <div className="whitespace-pre-wrap">
+                        {message.content}
+                        {message.isStreaming && <span className="inline-block w-2 h-4 ml-0.5 bg-gray-500 animate-pulse align-text-bottom"></span>}
+                      </div>
+                    )}
+                    {message.citations && message.citations.length > 0 && message.courseId && (
+                      <div className="mt-2 pt-2 border-t border-gray-200">
+                        <p className="text-xs font-medium mb-1">Sources</p>
+                        <ul className="space-y-1">
+                          {message.citations.map((citation) => (
+                            <li key={citation.index} className="text-xs" title={citation.excerpt}>
+                              <span className="font-medium">[{citation.index}]</span>{' '}
+                              <Link
+                                to={getCitationLink(message.courseId as string, citation)}
+                                className="text-primary-600 hover:text-primary-700 hover:underline"
+                              >
+                                {citation.lectureTitle}
+                                {citation.timestamp && ` @ ${citation.timestamp}`}
+                              </Link>
+                              {citation.resourceTitle && (
+                                citation.resourceUrl ? (
+                                  <a
+                                    href={citation.resourceUrl}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="ml-1 text-gray-600 hover:underline"
+                                  >
+                                    ({citation.resourceTitle})
+                                  </a>
+                                ) : (
+                                  <span className="ml-1 text-gray-600">({citation.resourceTitle})</span>
+                                )
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                     <div className="text-xs opacity-70 text-right mt-1">
-                      {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      {new Date(message.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                     </div>
                   </div>
                 </div>
               ))}
               
-              {/* Loading indicator */}
-              {isLoading && (
-                <div className="flex justify-start">
-                  <div className="max-w-3/4 bg-gray-100 rounded-lg px-4 py-2 text-gray-800">
-                    <div className="flex items-center">
-                      <BookOpenIcon className="h-4 w-4 mr-1" />
-                      <span className="text-xs font-medium">AI Assistant</span>
-                    </div>
-                    <div className="flex items-center space-x-1 my-2">
-                      <div className="h-2 w-2 bg-gray-400 rounded-full animate-bounce"></div>
-                      <div className="h-2 w-2 bg-gray-400 rounded-full animate-bounce delay-100"></div>
-                      <div className="h-2 w-2 bg-gray-400 rounded-full animate-bounce delay-200"></div>
-                    </div>
-                  </div>
-                </div>
-              )}
-              
               {/* Error message */}
-              {error && (
+              {(error || chatError) && (
                 <div className="flex justify-center">
                   <div className="max-w-3/4 bg-red-100 text-red-800 rounded-lg px-4 py-2">
-                    <p>{error}</p>
+                    <p>{error || chatError}</p>
                   </div>
                 </div>
               )}
@@ -358,17 +438,29 @@ const AIChatPage: React.FC = () => {
             placeholder="Type your question here..."
             value={input}
             onChange={handleInputChange}
-            disabled={isLoading}
+            disabled={isStreaming}
           ></textarea>
         </div>
-        <Button
-          type="submit"
-          variant="primary"
-          className="h-12 w-12 rounded-full flex items-center justify-center"
-          disabled={isLoading || !input.trim()}
-        >
-          <PaperAirplaneIcon className="h-6 w-6" />
-        </Button>
+        {isStreaming ? (
+          <Button
+            type="button"
+            variant="outline"
+            className="h-12 w-12 rounded-full flex items-center justify-center"
+            title="Stop generating"
+            onClick={handleStopStreaming}
+          >
+            <StopIcon className="h-6 w-6" />
+          </Button>
+        ) : (
+          <Button
+            type="submit"
+            variant="primary"
+            className="h-12 w-12 rounded-full flex items-center justify-center"
+            disabled={!input.trim()}
+          >
+            <PaperAirplaneIcon className="h-6 w-6" />
+          </Button>
+        )}
       </form>
       
       <p className="mt-2 text-xs text-gray-500">
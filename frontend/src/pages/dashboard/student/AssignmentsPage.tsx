@@ -1,123 +1,201 @@
 // src/pages/dashboard/student/AssignmentsPage.tsx
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Link } from 'react-router-dom';
-import { useSelector } from 'react-redux';
-import { RootState } from '../../../redux/store';
 import Button from '../../../components/ui/Button';
-import { 
-  ClipboardDocumentListIcon, 
-  ClockIcon, 
-  CheckCircleIcon, 
+import Alert from '../../../components/ui/Alert';
+import QuizAttemptPanel from '../../../components/assignment/QuizAttemptPanel';
+import TestResultsList from '../../../components/assignment/TestResultsList';
+import { assignmentService, StudentAssignment } from '../../../services/apiServices';
+import {
+  ClockIcon,
+  CheckCircleIcon,
   ExclamationCircleIcon,
   ArrowUpOnSquareIcon,
-  DocumentTextIcon,
+  ArrowUturnLeftIcon,
+  PencilSquareIcon,
+  PlayIcon,
   ChevronRightIcon
 } from '@heroicons/react/24/outline';
 
-interface Assignment {
-  id: string;
-  title: string;
-  courseId: string;
-  courseName: string;
-  dueDate: string;
-  status: 'pending' | 'submitted' | 'late' | 'graded';
-  grade?: number;
-  feedback?: string;
-  submissionDate?: string;
+type StatusFilter = 'all' | StudentAssignment['status'];
+
+const FILTERS: { value: StatusFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'pending', label: 'Pending' },
+  { value: 'draft', label: 'Drafts' },
+  { value: 'submitted', label: 'Submitted' },
+  { value: 'returned', label: 'Returned' },
+  { value: 'graded', label: 'Graded' }
+];
+
+// Wait this long after the last keystroke before autosaving a draft
+const AUTOSAVE_DELAY_MS = 2000;
+
+interface EditorState {
+  assignmentId: string;
+  submissionText: string;
+  submissionUrl: string;
 }
 
 const StudentAssignmentsPage: React.FC = () => {
-  const { user } = useSelector((state: RootState) => state.auth);
-  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [assignments, setAssignments] = useState<StudentAssignment[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
-  const [filter, setFilter] = useState<'all' | 'pending' | 'submitted' | 'graded'>('all');
+  const [filter, setFilter] = useState<StatusFilter>('all');
   const [searchTerm, setSearchTerm] = useState<string>('');
-  
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  const [editor, setEditor] = useState<EditorState | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const autosaveTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const editorRef = useRef<EditorState | null>(null);
+  editorRef.current = editor;
+  // Multiple-choice assignments are taken as quiz attempts instead of in the editor
+  const [quizAssignmentId, setQuizAssignmentId] = useState<string | null>(null);
+
+  const fetchAssignments = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await assignmentService.getMyAssignments(filter === 'all' ? undefined : filter);
+      setAssignments(response.data.assignments);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to load assignments');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filter]);
+
   useEffect(() => {
-    // In a real app, this would be an API call
-    const fetchAssignments = async () => {
+    fetchAssignments();
+  }, [fetchAssignments]);
+
+  // Refresh quietly until submitted code has been tested
+  const isAutoGrading = assignments.some(
+    (assignment) => assignment.auto_grade_status === 'pending' || assignment.auto_grade_status === 'running'
+  );
+  useEffect(() => {
+    if (!isAutoGrading) return;
+
+    const timer = setTimeout(async () => {
       try {
-        setIsLoading(true);
-        
-        // Simulate API delay
-        setTimeout(() => {
-          // Mock data
-          const mockAssignments: Assignment[] = [
-            {
-              id: '1',
-              title: 'Create a Simple React App',
-              courseId: '1',
-              courseName: 'React Fundamentals',
-              dueDate: '2025-05-25T23:59:59Z',
-              status: 'graded',
-              grade: 92,
-              feedback: 'Excellent work! Your components are well-structured and the application works as expected. Good job implementing state management with hooks.',
-              submissionDate: '2025-05-22T14:30:00Z'
-            },
-            {
-              id: '2',
-              title: 'State Management with Hooks',
-              courseId: '1',
-              courseName: 'React Fundamentals',
-              dueDate: '2025-05-30T23:59:59Z',
-              status: 'pending'
-            },
-            {
-              id: '3',
-              title: 'Build a RESTful API',
-              courseId: '2',
-              courseName: 'Node.js Backend Development',
-              dueDate: '2025-05-18T23:59:59Z',
-              status: 'late',
-              submissionDate: '2025-05-19T10:15:00Z'
-            },
-            {
-              id: '4',
-              title: 'Database Integration',
-              courseId: '2',
-              courseName: 'Node.js Backend Development',
-              dueDate: '2025-06-05T23:59:59Z',
-              status: 'submitted',
-              submissionDate: '2025-05-20T16:45:00Z'
-            },
-            {
-              id: '5',
-              title: 'Data Visualization Project',
-              courseId: '3',
-              courseName: 'Python for Data Science',
-              dueDate: '2025-06-10T23:59:59Z',
-              status: 'pending'
-            }
-          ];
-          
-          setAssignments(mockAssignments);
-          setIsLoading(false);
-        }, 1000);
-      } catch (err) {
-        console.error('Error fetching assignments:', err);
-        setIsLoading(false);
+        const response = await assignmentService.getMyAssignments(filter === 'all' ? undefined : filter);
+        setAssignments(response.data.assignments);
+      } catch {
+        // The next full load shows the error
       }
+    }, 3000);
+    return () => clearTimeout(timer);
+  }, [isAutoGrading, assignments, filter]);
+
+  const saveDraft = useCallback(async (state: EditorState) => {
+    try {
+      setIsSaving(true);
+      const response = await assignmentService.saveDraft(state.assignmentId, {
+        submissionText: state.submissionText,
+        submissionUrl: state.submissionUrl
+      });
+      setSavedAt(response.data.submission.draft_saved_at);
+      // Edits made while the request was in flight still need saving
+      if (editorRef.current === state) {
+        setIsDirty(false);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to save draft');
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  // Autosave the open editor once typing pauses
+  useEffect(() => {
+    if (!editor || !isDirty) return;
+
+    autosaveTimer.current = setTimeout(() => saveDraft(editor), AUTOSAVE_DELAY_MS);
+    return () => {
+      if (autosaveTimer.current) clearTimeout(autosaveTimer.current);
     };
-    
+  }, [editor, isDirty, saveDraft]);
+
+  const openEditor = (assignment: StudentAssignment, startNewAttempt = false) => {
+    setEditor({
+      assignmentId: assignment.id,
+      submissionText: startNewAttempt ? '' : assignment.submission_text ?? '',
+      submissionUrl: startNewAttempt ? '' : assignment.submission_url ?? ''
+    });
+    setSavedAt(startNewAttempt ? null : assignment.draft_saved_at);
+    setIsDirty(false);
+    setNotice('');
+  };
+
+  const openQuiz = (assignment: StudentAssignment) => {
+    setEditor(null);
+    setQuizAssignmentId(assignment.id);
+    setNotice('');
+  };
+
+  const closeQuiz = () => {
+    setQuizAssignmentId(null);
     fetchAssignments();
-  }, []);
-  
-  // Filter and search assignments
-  const filteredAssignments = assignments.filter(assignment => {
-    const matchesFilter = filter === 'all' || assignment.status === filter;
-    const matchesSearch = assignment.title.toLowerCase().includes(searchTerm.toLowerCase()) || 
-                         assignment.courseName.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    return matchesFilter && matchesSearch;
-  });
-  
+  };
+
+  const updateEditor = (changes: Partial<EditorState>) => {
+    setEditor(prev => (prev ? { ...prev, ...changes } : prev));
+    setIsDirty(true);
+  };
+
+  const closeEditor = async () => {
+    if (editor && isDirty) {
+      await saveDraft(editor);
+    }
+    setEditor(null);
+    fetchAssignments();
+  };
+
+  const handleSubmit = async () => {
+    if (!editor) return;
+    if (!editor.submissionText.trim() && !editor.submissionUrl.trim()) {
+      setError('Add some text or a link before submitting');
+      return;
+    }
+
+    if (autosaveTimer.current) clearTimeout(autosaveTimer.current);
+
+    try {
+      setIsSubmitting(true);
+      setError('');
+      const response = await assignmentService.submitAssignment(editor.assignmentId, {
+        submissionText: editor.submissionText.trim() || undefined,
+        submissionUrl: editor.submissionUrl.trim() || undefined
+      });
+      setNotice(response.message);
+      setEditor(null);
+      setIsDirty(false);
+      fetchAssignments();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to submit assignment');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Search within the loaded assignments
+  const filteredAssignments = assignments.filter(assignment =>
+    assignment.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    assignment.course_title.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
   // Format date for better display
-  const formatDueDate = (dateString: string): string => {
+  const formatDueDate = (dateString: string | null): string => {
+    if (!dateString) return 'No due date';
+
     const date = new Date(dateString);
     const now = new Date();
     const diffTime = date.getTime() - now.getTime();
     const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    
+
     if (diffDays === 0) {
       return 'Due Today';
     } else if (diffDays === 1) {
@@ -128,9 +206,19 @@ const StudentAssignmentsPage: React.FC = () => {
       return `${Math.abs(diffDays)} days overdue`;
     }
   };
-  
+
+  const isPastDue = (assignment: StudentAssignment): boolean =>
+    Boolean(assignment.due_date && new Date() > new Date(assignment.due_date));
+
+  const hasAttemptsLeft = (assignment: StudentAssignment): boolean =>
+    assignment.max_attempts === null || assignment.attempts_used < assignment.max_attempts;
+
+  // New work past the due date is only accepted when the assignment allows late submissions
+  const canStartWork = (assignment: StudentAssignment): boolean =>
+    hasAttemptsLeft(assignment) && (!isPastDue(assignment) || Boolean(assignment.allow_late_submission));
+
   // Get status badge color
-  const getStatusBadge = (status: string) => {
+  const getStatusBadge = (status: StudentAssignment['status']) => {
     switch (status) {
       case 'pending':
         return (
@@ -139,6 +227,13 @@ const StudentAssignmentsPage: React.FC = () => {
             Pending
           </span>
         );
+      case 'draft':
+        return (
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+            <PencilSquareIcon className="h-3 w-3 mr-1" />
+            Draft
+          </span>
+        );
       case 'submitted':
         return (
           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary-100 text-primary-800">
@@ -146,11 +241,11 @@ const StudentAssignmentsPage: React.FC = () => {
             Submitted
           </span>
         );
-      case 'late':
+      case 'returned':
         return (
-          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-danger-100 text-danger-800">
-            <ExclamationCircleIcon className="h-3 w-3 mr-1" />
-            Late
+          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-accent-100 text-accent-800">
+            <ArrowUturnLeftIcon className="h-3 w-3 mr-1" />
+            Returned for revision
           </span>
         );
       case 'graded':
@@ -164,19 +259,59 @@ const StudentAssignmentsPage: React.FC = () => {
         return null;
     }
   };
-  
-  // Get percentage of time remaining
-  const getTimeRemainingPercentage = (dueDate: string): number => {
-    const now = new Date();
-    const due = new Date(dueDate);
-    
-    if (now > due) return 0;
-    
-    const total = 7 * 24 * 60 * 60 * 1000; // Assuming assignments are typically due within a week
-    const remaining = due.getTime() - now.getTime();
-    const percentage = Math.min(100, Math.round((remaining / total) * 100));
-    
-    return percentage;
+
+  const renderEditor = (assignment: StudentAssignment) => {
+    if (!editor || editor.assignmentId !== assignment.id) return null;
+
+    return (
+      <div className="mt-4 space-y-3 border-t border-gray-100 pt-4">
+        {assignment.status === 'returned' && assignment.feedback && (
+          <div className="rounded-md bg-accent-50 p-3 text-sm text-accent-800">
+            <span className="font-medium">Teacher's comments: </span>
+            {assignment.feedback}
+          </div>
+        )}
+        <textarea
+          rows={assignment.assignment_type === 'coding' ? 12 : 6}
+          className={`form-textarea block w-full sm:text-sm border-gray-300 rounded-md ${assignment.assignment_type === 'coding' ? 'font-mono' : ''}`}
+          placeholder={assignment.assignment_type === 'coding' ? 'Paste your code...' : 'Write your answer...'}
+          value={editor.submissionText}
+          onChange={(e) => updateEditor({ submissionText: e.target.value })}
+        />
+        <input
+          type="url"
+          className="form-input block w-full sm:text-sm border-gray-300 rounded-md"
+          placeholder="Link to your work (optional)"
+          value={editor.submissionUrl}
+          onChange={(e) => updateEditor({ submissionUrl: e.target.value })}
+        />
+        <div className="flex items-center justify-between">
+          <span className="text-xs text-gray-500">
+            {isSaving
+              ? 'Saving...'
+              : isDirty
+                ? 'Unsaved changes'
+                : savedAt
+                  ? `Draft saved at ${new Date(savedAt).toLocaleTimeString()}`
+                  : 'Your work is saved as a draft while you type'}
+          </span>
+          <div className="flex space-x-2">
+            <Button variant="outline" size="sm" onClick={closeEditor} disabled={isSubmitting}>
+              Close
+            </Button>
+            <Button
+              variant="primary"
+              size="sm"
+              isLoading={isSubmitting}
+              leftIcon={<ArrowUpOnSquareIcon className="h-5 w-5" />}
+              onClick={handleSubmit}
+            >
+              {assignment.status === 'returned' ? 'Resubmit' : 'Submit'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
   };
 
   return (
@@ -186,45 +321,27 @@ const StudentAssignmentsPage: React.FC = () => {
         <h1 className="text-2xl font-bold text-gray-900">My Assignments</h1>
         <p className="mt-1 text-gray-600">View and manage your assignments across all courses</p>
       </div>
-      
+
+      {error && <Alert type="error" message={error} onClose={() => setError('')} />}
+      {notice && <Alert type="success" message={notice} onClose={() => setNotice('')} />}
+
       {/* Filters and search */}
       <div className="bg-white rounded-lg shadow-md p-6">
         <div className="sm:flex sm:justify-between sm:items-center">
-          <div className="flex space-x-2 mb-4 sm:mb-0">
-            <button
-              className={`px-4 py-2 rounded-md text-sm font-medium ${
-                filter === 'all' ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-              }`}
-              onClick={() => setFilter('all')}
-            >
-              All
-            </button>
-            <button
-              className={`px-4 py-2 rounded-md text-sm font-medium ${
-                filter === 'pending' ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-              }`}
-              onClick={() => setFilter('pending')}
-            >
-              Pending
-            </button>
-            <button
-              className={`px-4 py-2 rounded-md text-sm font-medium ${
-                filter === 'submitted' ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-              }`}
-              onClick={() => setFilter('submitted')}
-            >
-              Submitted
-            </button>
-            <button
-              className={`px-4 py-2 rounded-md text-sm font-medium ${
-                filter === 'graded' ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-              }`}
-              onClick={() => setFilter('graded')}
-            >
-              Graded
-            </button>
+          <div className="flex flex-wrap gap-2 mb-4 sm:mb-0">
+            {FILTERS.map(({ value, label }) => (
+              <button
+                key={value}
+                className={`px-4 py-2 rounded-md text-sm font-medium ${
+                  filter === value ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+                onClick={() => setFilter(value)}
+              >
+                {label}
+              </button>
+            ))}
           </div>
-          
+
           <div className="max-w-xs">
             <div className="relative">
               <input
@@ -243,7 +360,7 @@ const StudentAssignmentsPage: React.FC = () => {
           </div>
         </div>
       </div>
-      
+
       {/* Assignments list */}
       {isLoading ? (
         <div className="flex justify-center items-center h-64">
@@ -253,9 +370,9 @@ const StudentAssignmentsPage: React.FC = () => {
         <div className="bg-white rounded-lg shadow-md p-8 text-center">
           <h3 className="text-lg font-medium text-gray-900 mb-2">No assignments found</h3>
           <p className="text-gray-600 mb-6">
-            {filter === 'all' 
-              ? "You don't have any assignments at the moment." 
-              : `You don't have any ${filter} assignments.`}
+            {filter === 'all'
+              ? "You don't have any assignments at the moment."
+              : `You don't have any ${FILTERS.find(f => f.value === filter)?.label.toLowerCase()} assignments.`}
           </p>
           {filter !== 'all' && (
             <Button variant="outline" onClick={() => setFilter('all')}>
@@ -272,78 +389,141 @@ const StudentAssignmentsPage: React.FC = () => {
                   <div className="mb-4 sm:mb-0">
                     <div className="flex items-center mb-1">
                       {getStatusBadge(assignment.status)}
-                      <Link to={`/dashboard/student/courses/${assignment.courseId}`} className="ml-3 text-sm text-primary-600 hover:text-primary-800">
-                        {assignment.courseName}
+                      {Boolean(assignment.is_late) && (
+                        <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-danger-100 text-danger-800">
+                          <ExclamationCircleIcon className="h-3 w-3 mr-1" />
+                          Late
+                        </span>
+                      )}
+                      <Link to={`/dashboard/student/courses/${assignment.course_id}`} className="ml-3 text-sm text-primary-600 hover:text-primary-800">
+                        {assignment.course_title}
                       </Link>
                     </div>
-                    <Link to={`/dashboard/student/assignments/${assignment.id}`} className="text-lg font-medium text-gray-900 hover:text-primary-600">
+                    <span className="text-lg font-medium text-gray-900">
                       {assignment.title}
-                    </Link>
-                    
+                    </span>
+
                     <div className="mt-2 sm:flex sm:items-center text-sm text-gray-500">
                       <div className="flex items-center">
                         <ClockIcon className="h-4 w-4 mr-1" />
-                        <span>{formatDueDate(assignment.dueDate)}</span>
+                        <span>{formatDueDate(assignment.due_date)}</span>
                       </div>
-                      {assignment.status === 'graded' && (
+                      {assignment.attempt_number !== null && (
+                        <div className="mt-1 sm:mt-0 sm:ml-4">
+                          Attempt {assignment.attempt_number}
+                          {assignment.max_attempts !== null && ` of ${assignment.max_attempts}`}
+                        </div>
+                      )}
+                      {assignment.final_grade !== null && (
                         <div className="mt-1 sm:mt-0 sm:ml-4 flex items-center">
-                          <span className="font-medium text-success-700">Grade: {assignment.grade}%</span>
+                          <span className="font-medium text-success-700">
+                            Grade: {assignment.final_grade}/{assignment.max_points}
+                          </span>
                         </div>
                       )}
                     </div>
                   </div>
-                  
-                  <div>
-                    {assignment.status === 'pending' && (
-                      <Link to={`/dashboard/student/assignments/${assignment.id}`}>
+
+                  {assignment.assignment_type === 'multiple_choice' && quizAssignmentId !== assignment.id && (
+                    <div>
+                      {assignment.status === 'draft' && (
                         <Button
                           variant="primary"
                           size="sm"
-                          leftIcon={<ArrowUpOnSquareIcon className="h-5 w-5" />}
+                          leftIcon={<PlayIcon className="h-5 w-5" />}
+                          onClick={() => openQuiz(assignment)}
                         >
-                          Submit
+                          Resume Quiz
                         </Button>
-                      </Link>
-                    )}
-                    
-                    {(assignment.status === 'submitted' || assignment.status === 'late') && (
-                      <Link to={`/dashboard/student/assignments/${assignment.id}`}>
-                        <Button variant="outline" size="sm">
-                          View Submission
+                      )}
+
+                      {assignment.status === 'pending' && canStartWork(assignment) && (
+                        <Button
+                          variant="primary"
+                          size="sm"
+                          leftIcon={<PlayIcon className="h-5 w-5" />}
+                          onClick={() => openQuiz(assignment)}
+                        >
+                          Start Quiz
                         </Button>
-                      </Link>
-                    )}
-                    
-                    {assignment.status === 'graded' && (
-                      <Link to={`/dashboard/student/assignments/${assignment.id}`}>
-                        <Button variant="outline" size="sm">
-                          View Feedback
+                      )}
+
+                      {assignment.status === 'graded' && canStartWork(assignment) && (
+                        <Button variant="outline" size="sm" onClick={() => openQuiz(assignment)}>
+                          Retake Quiz
                         </Button>
-                      </Link>
-                    )}
-                  </div>
-                </div>
-                
-                {assignment.status === 'pending' && (
-                  <div className="mt-4">
-                    <div className="flex justify-between text-xs text-gray-500 mb-1">
-                      <span>Time remaining</span>
-                      <span>{new Date(assignment.dueDate).toLocaleDateString()}</span>
+                      )}
                     </div>
-                    <div className="w-full bg-gray-200 rounded-full h-1.5">
-                      <div
-                        className="bg-primary-600 h-1.5 rounded-full"
-                        style={{ width: `${getTimeRemainingPercentage(assignment.dueDate)}%` }}
-                      ></div>
+                  )}
+
+                  {assignment.assignment_type !== 'multiple_choice' && editor?.assignmentId !== assignment.id && (
+                    <div>
+                      {(assignment.status === 'draft' || assignment.status === 'returned') && (
+                        <Button
+                          variant="primary"
+                          size="sm"
+                          leftIcon={<PencilSquareIcon className="h-5 w-5" />}
+                          onClick={() => openEditor(assignment)}
+                        >
+                          {assignment.status === 'returned' ? 'Revise' : 'Continue Draft'}
+                        </Button>
+                      )}
+
+                      {assignment.status === 'pending' && canStartWork(assignment) && (
+                        <Button
+                          variant="primary"
+                          size="sm"
+                          leftIcon={<ArrowUpOnSquareIcon className="h-5 w-5" />}
+                          onClick={() => openEditor(assignment)}
+                        >
+                          Start
+                        </Button>
+                      )}
+
+                      {(assignment.status === 'submitted' || assignment.status === 'graded') && canStartWork(assignment) && (
+                        <Button variant="outline" size="sm" onClick={() => openEditor(assignment, true)}>
+                          New Attempt
+                        </Button>
+                      )}
                     </div>
+                  )}
+                </div>
+
+                {assignment.status === 'graded' && assignment.feedback && editor?.assignmentId !== assignment.id && (
+                  <p className="mt-3 text-sm text-gray-600">
+                    <span className="font-medium">Feedback: </span>
+                    {assignment.feedback}
+                  </p>
+                )}
+
+                {assignment.status === 'returned' && assignment.feedback && editor?.assignmentId !== assignment.id && (
+                  <p className="mt-3 text-sm text-accent-700">
+                    <span className="font-medium">Returned for revision: </span>
+                    {assignment.feedback}
+                  </p>
+                )}
+
+                {assignment.auto_grade_status && assignment.status !== 'returned' && editor?.assignmentId !== assignment.id && (
+                  <div className="mt-3">
+                    <TestResultsList report={assignment.test_results} status={assignment.auto_grade_status} />
                   </div>
                 )}
+
+                {renderEditor(assignment)}
+
+                {quizAssignmentId === assignment.id && (
+                  <QuizAttemptPanel
+                    targetType="assignments"
+                    targetId={assignment.id}
+                    onClose={closeQuiz}
+                  />
+                )}
               </li>
             ))}
           </ul>
         </div>
       )}
-      
+
       {/* Calendar view link */}
       <div className="bg-white rounded-lg shadow-md p-6">
         <div className="flex items-center justify-between">
@@ -367,4 +547,4 @@ const StudentAssignmentsPage: React.FC = () => {
   );
 };
 
-export default StudentAssignmentsPage;
\ No newline at end of file
+export default StudentAssignmentsPage;
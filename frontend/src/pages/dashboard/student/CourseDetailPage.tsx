@@ -1,6 +1,6 @@
 // src/pages/dashboard/student/CourseDetailPage.tsx
 import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { 
   BookOpenIcon, 
   ClockIcon, 
@@ -39,6 +39,7 @@ interface Course {
 const CourseDetailPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [course, setCourse] = useState<Course | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
@@ -106,10 +107,12 @@ const CourseDetailPage: React.FC = () => {
       };
 
       setCourse(mockCourse);
-      setCurrentLectureId(mockCourse.lectures[0].id);
+      // Open the lecture linked from elsewhere (e.g. an AI chat citation), otherwise the first one
+      const linkedLecture = mockCourse.lectures.find(lecture => lecture.id === searchParams.get('lecture'));
+      setCurrentLectureId((linkedLecture ?? mockCourse.lectures[0]).id);
       setIsLoading(false);
     }, 1000);
-  }, [id]);
+  }, [id, searchParams]);
 
   const goBack = () => {
     navigate('/dashboard/student/courses');
@@ -1,7 +1,5 @@
 import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { useSelector } from 'react-redux';
-import { RootState } from '../../../redux/store';
 import { 
   AcademicCapIcon, 
   BookOpenIcon, 
@@ -9,183 +7,90 @@ import {
   DocumentTextIcon,
   ChartBarIcon
 } from '@heroicons/react/24/outline';
+import Alert from '../../../components/ui/Alert';
+import RubricTable from '../../../components/assignment/RubricTable';
+import { assignmentService, StudentAssignment } from '../../../services/apiServices';
 
 interface CourseGrade {
   courseId: string;
   courseName: string;
   grade: number | null;
   status: 'in-progress' | 'completed';
-  assignments: {
-    id: string;
-    title: string;
-    grade: number | null;
-    weight: number;
-    dueDate: string;
-    submissionDate?: string;
-  }[];
+  assignments: StudentAssignment[];
 }
 
+// Percentage of the assignment's points, from the grade that counts under its grading policy
+const assignmentPercent = (assignment: StudentAssignment): number | null =>
+  assignment.final_grade !== null && Number(assignment.max_points) > 0
+    ? Math.round((Number(assignment.final_grade) / Number(assignment.max_points)) * 1000) / 10
+    : null;
+
+// One entry per course; the course grade weighs graded assignments by their points
+const toCourseGrades = (assignments: StudentAssignment[]): CourseGrade[] => {
+  const courses = new Map<string, CourseGrade>();
+  assignments.forEach((assignment) => {
+    const course = courses.get(assignment.course_id) ?? {
+      courseId: assignment.course_id,
+      courseName: assignment.course_title,
+      grade: null,
+      status: 'in-progress',
+      assignments: []
+    };
+    course.assignments.push(assignment);
+    courses.set(assignment.course_id, course);
+  });
+
+  return Array.from(courses.values()).map((course) => {
+    const graded = course.assignments.filter((assignment) => assignment.final_grade !== null);
+    const maxPoints = graded.reduce((acc, assignment) => acc + Number(assignment.max_points), 0);
+    const points = graded.reduce((acc, assignment) => acc + Number(assignment.final_grade), 0);
+    return {
+      ...course,
+      grade: maxPoints > 0 ? Math.round((points / maxPoints) * 1000) / 10 : null,
+      status: graded.length === course.assignments.length ? 'completed' : 'in-progress'
+    };
+  });
+};
+
 const StudentGradesPage: React.FC = () => {
-  const { user } = useSelector((state: RootState) => state.auth);
   const [grades, setGrades] = useState<CourseGrade[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState('');
   const [overallGPA, setOverallGPA] = useState<number | null>(null);
   const [expandedCourses, setExpandedCourses] = useState<Record<string, boolean>>({});
+  const [openRubricId, setOpenRubricId] = useState<string | null>(null);
   
   useEffect(() => {
-    // In a real app, this would be an API call
     const fetchGrades = async () => {
       try {
         setIsLoading(true);
+        const response = await assignmentService.getMyAssignments();
+        const courseGrades = toCourseGrades(response.data.assignments);
+
+        setGrades(courseGrades);
         
-        // Simulate API delay
-        setTimeout(() => {
-          // Mock data
-          const mockGrades: CourseGrade[] = [
-            {
-              courseId: '1',
-              courseName: 'React Fundamentals',
-              grade: 92,
-              status: 'in-progress',
-              assignments: [
-                {
-                  id: '1',
-                  title: 'Create a Simple React App',
-                  grade: 94,
-                  weight: 0.2,
-                  dueDate: '2025-05-10T23:59:59Z',
-                  submissionDate: '2025-05-09T14:30:00Z'
-                },
-                {
-                  id: '2',
-                  title: 'Component Lifecycle',
-                  grade: 88,
-                  weight: 0.15,
-                  dueDate: '2025-05-20T23:59:59Z',
-                  submissionDate: '2025-05-19T16:45:00Z'
-                },
-                {
-                  id: '3',
-                  title: 'State Management with Hooks',
-                  grade: null,
-                  weight: 0.25,
-                  dueDate: '2025-05-30T23:59:59Z'
-                },
-                {
-                  id: '4',
-                  title: 'Final Project',
-                  grade: null,
-                  weight: 0.4,
-                  dueDate: '2025-06-10T23:59:59Z'
-                }
-              ]
-            },
-            {
-              courseId: '2',
-              courseName: 'Node.js Backend Development',
-              grade: 87,
-              status: 'in-progress',
-              assignments: [
-                {
-                  id: '5',
-                  title: 'RESTful API Basics',
-                  grade: 90,
-                  weight: 0.15,
-                  dueDate: '2025-05-08T23:59:59Z',
-                  submissionDate: '2025-05-07T11:20:00Z'
-                },
-                {
-                  id: '6',
-                  title: 'Authentication Implementation',
-                  grade: 85,
-                  weight: 0.2,
-                  dueDate: '2025-05-18T23:59:59Z',
-                  submissionDate: '2025-05-17T09:15:00Z'
-                },
-                {
-                  id: '7',
-                  title: 'Database Integration',
-                  grade: null,
-                  weight: 0.25,
-                  dueDate: '2025-05-28T23:59:59Z'
-                },
-                {
-                  id: '8',
-                  title: 'Final Backend Project',
-                  grade: null,
-                  weight: 0.4,
-                  dueDate: '2025-06-15T23:59:59Z'
-                }
-              ]
-            },
-            {
-              courseId: '3',
-              courseName: 'Python for Data Science',
-              grade: 95,
-              status: 'completed',
-              assignments: [
-                {
-                  id: '9',
-                  title: 'Data Manipulation with Pandas',
-                  grade: 92,
-                  weight: 0.2,
-                  dueDate: '2025-04-10T23:59:59Z',
-                  submissionDate: '2025-04-09T15:30:00Z'
-                },
-                {
-                  id: '10',
-                  title: 'Data Visualization',
-                  grade: 96,
-                  weight: 0.2,
-                  dueDate: '2025-04-20T23:59:59Z',
-                  submissionDate: '2025-04-19T14:00:00Z'
-                },
-                {
-                  id: '11',
-                  title: 'Machine Learning Basics',
-                  grade: 94,
-                  weight: 0.25,
-                  dueDate: '2025-04-30T23:59:59Z',
-                  submissionDate: '2025-04-28T10:15:00Z'
-                },
-                {
-                  id: '12',
-                  title: 'Final Data Science Project',
-                  grade: 97,
-                  weight: 0.35,
-                  dueDate: '2025-05-15T23:59:59Z',
-                  submissionDate: '2025-05-13T16:20:00Z'
-                }
-              ]
-            }
-          ];
-          
-          setGrades(mockGrades);
-          
-          // Calculate overall GPA (on a 4.0 scale for demonstration)
-          const completedCourses = mockGrades.filter(course => course.grade !== null);
-          if (completedCourses.length > 0) {
-            const totalGrade = completedCourses.reduce((acc, course) => acc + (course.grade || 0), 0);
-            const gpa = (totalGrade / completedCourses.length) / 25; // Convert from 100 scale to 4.0 scale (simplified)
-            setOverallGPA(parseFloat(gpa.toFixed(2)));
-          }
-          
-          // Expand first course by default
-          if (mockGrades.length > 0) {
-            setExpandedCourses({ [mockGrades[0].courseId]: true });
-          }
-          
-          setIsLoading(false);
-        }, 1000);
-      } catch (err) {
-        console.error('Error fetching grades:', err);
+        // Calculate overall GPA (on a 4.0 scale for demonstration)
+        const gradedCourses = courseGrades.filter(course => course.grade !== null);
+        if (gradedCourses.length > 0) {
+          const totalGrade = gradedCourses.reduce((acc, course) => acc + (course.grade || 0), 0);
+          const gpa = (totalGrade / gradedCourses.length) / 25; // Convert from 100 scale to 4.0 scale (simplified)
+          setOverallGPA(parseFloat(gpa.toFixed(2)));
+        }
+        
+        // Expand first course by default
+        if (courseGrades.length > 0) {
+          setExpandedCourses({ [courseGrades[0].courseId]: true });
+        }
+      } catch (err: any) {
+        setError(err.response?.data?.message || 'Failed to load grades');
+      } finally {
         setIsLoading(false);
       }
     };
-    
+
     fetchGrades();
   }, []);
-  
+
   const toggleCourse = (courseId: string) => {
     setExpandedCourses(prev => ({
       ...prev,
@@ -219,6 +124,8 @@ const StudentGradesPage: React.FC = () => {
         <h1 className="text-2xl font-bold text-gray-900">My Grades</h1>
         <p className="mt-1 text-gray-600">View your academic performance across all courses</p>
       </div>
+
+      {error && <Alert type="error" message={error} onClose={() => setError('')} />}
       
       {/* Overall performance */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -258,7 +165,7 @@ const StudentGradesPage: React.FC = () => {
               <div className="mt-1 flex items-baseline">
                 <p className="text-3xl font-semibold text-success-600">
                   {grades.reduce((acc, course) => 
-                    acc + course.assignments.filter(a => a.grade !== null).length, 0)}
+                    acc + course.assignments.filter(a => a.final_grade !== null).length, 0)}
                 </p>
                 <p className="ml-2 text-sm text-gray-500">/ {grades.reduce((acc, course) => 
                   acc + course.assignments.length, 0)}</p>
@@ -350,7 +257,7 @@ const StudentGradesPage: React.FC = () => {
                               Due Date
                             </th>
                             <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                              Weight
+                              Points
                             </th>
                             <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                               Grade
@@ -358,8 +265,12 @@ const StudentGradesPage: React.FC = () => {
                           </tr>
                         </thead>
                         <tbody className="bg-white divide-y divide-gray-200">
-                          {course.assignments.map((assignment) => (
-                            <tr key={assignment.id} className="hover:bg-gray-50">
+                          {course.assignments.map((assignment) => {
+                            const percent = assignmentPercent(assignment);
+                            const hasFilledRubric = Boolean(assignment.grading_rubric && assignment.rubric_scores);
+                            return (
+                            <React.Fragment key={assignment.id}>
+                            <tr className="hover:bg-gray-50">
                               <td className="px-6 py-4 whitespace-nowrap">
                                 <Link 
                                   to={`/dashboard/student/assignments/${assignment.id}`}
@@ -369,27 +280,49 @@ const StudentGradesPage: React.FC = () => {
                                 </Link>
                               </td>
                               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                                {new Date(assignment.dueDate).toLocaleDateString()}
+                                {assignment.due_date ? new Date(assignment.due_date).toLocaleDateString() : 'No due date'}
                               </td>
                               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                                {Math.round(assignment.weight * 100)}%
+                                {assignment.final_grade !== null ? `${Number(assignment.final_grade)} / ` : ''}{assignment.max_points}
                               </td>
                               <td className="px-6 py-4 whitespace-nowrap">
-                                {assignment.grade !== null ? (
+                                {percent !== null ? (
                                   <div className="flex items-center">
-                                    <span className={`text-sm font-medium ${getGradeColorClass(assignment.grade)}`}>
-                                      {assignment.grade}%
+                                    <span className={`text-sm font-medium ${getGradeColorClass(percent)}`}>
+                                      {percent}%
                                     </span>
                                     <span className="ml-2 text-xs text-gray-500">
-                                      ({getLetterGrade(assignment.grade)})
+                                      ({getLetterGrade(percent)})
                                     </span>
+                                    {hasFilledRubric && (
+                                      <button
+                                        onClick={() => setOpenRubricId(prev => (prev === assignment.id ? null : assignment.id))}
+                                        className="ml-3 text-xs text-primary-600 hover:text-primary-800"
+                                      >
+                                        {openRubricId === assignment.id ? 'Hide rubric' : 'View rubric'}
+                                      </button>
+                                    )}
                                   </div>
                                 ) : (
                                   <span className="text-sm text-gray-500">Pending</span>
                                 )}
                               </td>
                             </tr>
-                          ))}
+
+                            {/* The rubric with the level the teacher picked for each criterion */}
+                            {hasFilledRubric && openRubricId === assignment.id && (
+                              <tr>
+                                <td colSpan={4} className="px-6 py-4 bg-gray-50">
+                                  <RubricTable rubric={assignment.grading_rubric!} scores={assignment.rubric_scores} />
+                                  {assignment.feedback && (
+                                    <p className="mt-3 text-sm text-gray-700 whitespace-pre-line">{assignment.feedback}</p>
+                                  )}
+                                </td>
+                              </tr>
+                            )}
+                            </React.Fragment>
+                            );
+                          })}
                         </tbody>
                       </table>
                     </div>
@@ -3,7 +3,11 @@ import React, { useState, useEffect } from 'react';
 import { useLocation } from 'react-router-dom';
 import { useSelector } from 'react-redux';
 import { RootState } from '../../../redux/store';
+import messageService from '../../../services/messageService';
+import { enrollmentService } from '../../../services/apiServices';
+import { useMessageSocket } from '../../../hooks/useMessageSocket';
 import Button from '../../../components/ui/Button';
+import Alert from '../../../components/ui/Alert';
 import { 
   ChatBubbleLeftRightIcon,
   UserCircleIcon, 
@@ -18,25 +22,27 @@ interface Message {
   senderId: string;
   recipientId: string;
   senderName: string;
-  senderAvatar: string;
+  subject: string;
   content: string;
-  timestamp: string;
+  createdAt: string;
   isRead: boolean;
 }
 
 interface Conversation {
   id: string;
-  participantId: string;
-  participantName: string;
-  participantAvatar: string;
-  participantRole: 'student' | 'instructor' | 'admin';
-  lastMessage: {
-    content: string;
-    timestamp: string;
-    isFromUser: boolean;
-    isRead: boolean;
-  };
-  messages: Message[];
+  userId: string;
+  userName: string;
+  userRole: 'student' | 'teacher' | 'admin';
+  profilePicture?: string | null;
+  lastMessage: string;
+  lastMessageFromUser: boolean;
+  lastMessageDate: string;
+  unreadCount: number;
+}
+
+interface Instructor {
+  id: string;
+  name: string;
 }
 
 const StudentMessagesPage: React.FC = () => {
@@ -47,298 +53,206 @@ const StudentMessagesPage: React.FC = () => {
   const { user } = useSelector((state: RootState) => state.auth);
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [activeConversation, setActiveConversation] = useState<string | null>(null);
+  const [participant, setParticipant] = useState<{ name: string; role: string; profilePicture?: string | null } | null>(null);
+  const [messages, setMessages] = useState<Message[]>([]);
   const [messageInput, setMessageInput] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isLoadingMessages, setIsLoadingMessages] = useState<boolean>(false);
+  const [isSending, setIsSending] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [showNewMessageForm, setShowNewMessageForm] = useState<boolean>(false);
+  const [instructors, setInstructors] = useState<Instructor[]>([]);
   const [newMessageRecipient, setNewMessageRecipient] = useState<string>('');
+  const [newMessageSubject, setNewMessageSubject] = useState<string>('');
   const [newMessageContent, setNewMessageContent] = useState<string>('');
   
   const messagesEndRef = React.useRef<HTMLDivElement>(null);
+  const typingTimeoutRef = React.useRef<ReturnType<typeof setTimeout> | null>(null);
+  
+  // Messages can arrive both from the API response and the socket, so skip duplicates
+  const appendMessage = (message: Message) => {
+    setMessages(prev => (prev.some(existing => existing.id === message.id) ? prev : [...prev, message]));
+  };
+  
+  const { onlineUsers, typingUsers, sendTyping, queryPresence } = useMessageSocket({
+    onMessage: (message) => {
+      const partnerId = message.senderId === user?.id ? message.recipientId : message.senderId;
+      if (partnerId === activeConversation) {
+        appendMessage({ ...message, senderName: message.senderName ?? '' });
+        // The conversation is open, so the message is read right away (sends a read receipt)
+        if (message.recipientId === user?.id) {
+          messageService.markMessageAsRead(message.id).catch(() => undefined);
+        }
+      }
+      fetchConversations();
+    },
+    onRead: ({ messageIds }) => {
+      setMessages(prev => prev.map(message => (messageIds.includes(message.id) ? { ...message, isRead: true } : message)));
+    }
+  });
+  
+  const fetchConversations = async (): Promise<Conversation[]> => {
+    try {
+      const data = await messageService.getConversations();
+      setConversations(data.conversations);
+      queryPresence(data.conversations.map((conversation: Conversation) => conversation.userId));
+      return data.conversations;
+    } catch (err) {
+      console.error('Error fetching conversations:', err);
+      setError('Failed to load conversations. Please try again later.');
+      return [];
+    }
+  };
+  
+  useEffect(() => {
+    const loadInitialData = async () => {
+      setIsLoading(true);
+      const loadedConversations = await fetchConversations();
+      
+      // Open the conversation requested in the URL, otherwise the most recent one
+      if (initialInstructorId) {
+        setActiveConversation(initialInstructorId);
+      } else if (loadedConversations.length > 0) {
+        setActiveConversation(loadedConversations[0].userId);
+      }
+      
+      setIsLoading(false);
+    };
+    
+    loadInitialData();
+  }, [initialInstructorId]);
   
+  // Instructors of enrolled courses can be messaged without an existing conversation
   useEffect(() => {
-    // In a real app, this would be an API call
-    const fetchConversations = async () => {
+    const fetchInstructors = async () => {
       try {
-        setIsLoading(true);
-        
-        // Simulate API delay
-        setTimeout(() => {
-          // Mock data
-          const mockConversations: Conversation[] = [
-            {
-              id: 'conv-1',
-              participantId: 'inst-1',
-              participantName: 'Jane Smith',
-              participantAvatar: '/images/instructor-1.jpg',
-              participantRole: 'instructor',
-              lastMessage: {
-                content: 'Great work on your last assignment! Let me know if you have any questions about the feedback.',
-                timestamp: '2025-05-19T10:30:00Z',
-                isFromUser: false,
-                isRead: true
-              },
-              messages: [
-                {
-                  id: 'msg-1-1',
-                  senderId: 'user-1',
-                  recipientId: 'inst-1',
-                  senderName: user?.firstName + ' ' + user?.lastName,
-                  senderAvatar: '/images/user-avatar.jpg',
-                  content: 'Hi Professor Smith, I have a question about the React Hooks assignment.',
-                  timestamp: '2025-05-19T09:15:00Z',
-                  isRead: true
-                },
-                {
-                  id: 'msg-1-2',
-                  senderId: 'inst-1',
-                  recipientId: 'user-1',
-                  senderName: 'Jane Smith',
-                  senderAvatar: '/images/instructor-1.jpg',
-                  content: 'Of course! What specific question do you have about the hooks assignment?',
-                  timestamp: '2025-05-19T09:30:00Z',
-                  isRead: true
-                },
-                {
-                  id: 'msg-1-3',
-                  senderId: 'user-1',
-                  recipientId: 'inst-1',
-                  senderName: user?.firstName + ' ' + user?.lastName,
-                  senderAvatar: '/images/user-avatar.jpg',
-                  content: 'I\'m having trouble understanding the useContext hook. Can you provide an example of when we would use it?',
-                  timestamp: '2025-05-19T09:45:00Z',
-                  isRead: true
-                },
-                {
-                  id: 'msg-1-4',
-                  senderId: 'inst-1',
-                  recipientId: 'user-1',
-                  senderName: 'Jane Smith',
-                  senderAvatar: '/images/instructor-1.jpg',
-                  content: 'Great question! The useContext hook is perfect for cases where you have data that needs to be accessible by many components at different nesting levels. Instead of passing props down through multiple levels (prop drilling), you can use Context to make the data available throughout your component tree. A common example is theme data (light/dark mode) or user authentication state.',
-                  timestamp: '2025-05-19T10:15:00Z',
-                  isRead: true
-                },
-                {
-                  id: 'msg-1-5',
-                  senderId: 'inst-1',
-                  recipientId: 'user-1',
-                  senderName: 'Jane Smith',
-                  senderAvatar: '/images/instructor-1.jpg',
-                  content: 'Great work on your last assignment! Let me know if you have any questions about the feedback.',
-                  timestamp: '2025-05-19T10:30:00Z',
-                  isRead: true
-                }
-              ]
-            },
-            {
-              id: 'conv-2',
-              participantId: 'inst-2',
-              participantName: 'John Doe',
-              participantAvatar: '/images/instructor-2.jpg',
-              participantRole: 'instructor',
-              lastMessage: {
-                content: 'The next Node.js assignment will be posted tomorrow. Make sure to review the authentication materials.',
-                timestamp: '2025-05-18T15:45:00Z',
-                isFromUser: false,
-                isRead: false
-              },
-              messages: [
-                {
-                  id: 'msg-2-1',
-                  senderId: 'inst-2',
-                  recipientId: 'user-1',
-                  senderName: 'John Doe',
-                  senderAvatar: '/images/instructor-2.jpg',
-                  content: 'Hello! I wanted to inform everyone that we\'ll be covering authentication in next week\'s lecture.',
-                  timestamp: '2025-05-17T11:30:00Z',
-                  isRead: true
-                },
-                {
-                  id: 'msg-2-2',
-                  senderId: 'user-1',
-                  recipientId: 'inst-2',
-                  senderName: user?.firstName + ' ' + user?.lastName,
-                  senderAvatar: '/images/user-avatar.jpg',
-                  content: 'Thanks for letting me know. Will we be using JWT or session-based authentication?',
-                  timestamp: '2025-05-17T14:20:00Z',
-                  isRead: true
-                },
-                {
-                  id: 'msg-2-3',
-                  senderId: 'inst-2',
-                  recipientId: 'user-1',
-                  senderName: 'John Doe',
-                  senderAvatar: '/images/instructor-2.jpg',
-                  content: 'We\'ll be covering both approaches, but the assignment will focus on JWT implementation.',
-                  timestamp: '2025-05-18T09:10:00Z',
-                  isRead: true
-                },
-                {
-                  id: 'msg-2-4',
-                  senderId: 'inst-2',
-                  recipientId: 'user-1',
-                  senderName: 'John Doe',
-                  senderAvatar: '/images/instructor-2.jpg',
-                  content: 'The next Node.js assignment will be posted tomorrow. Make sure to review the authentication materials.',
-                  timestamp: '2025-05-18T15:45:00Z',
-                  isRead: false
-                }
-              ]
-            },
-            {
-              id: 'conv-3',
-              participantId: 'student-1',
-              participantName: 'Michael Brown',
-              participantAvatar: '/images/student-3.jpg',
-              participantRole: 'student',
-              lastMessage: {
-                content: 'Yes, I\'ll be at the study group this weekend.',
-                timestamp: '2025-05-15T17:20:00Z',
-                isFromUser: false,
-                isRead: true
-              },
-              messages: [
-                {
-                  id: 'msg-3-1',
-                  senderId: 'user-1',
-                  recipientId: 'student-1',
-                  senderName: user?.firstName + ' ' + user?.lastName,
-                  senderAvatar: '/images/user-avatar.jpg',
-                  content: 'Hey Michael, are you planning to join the React study group this weekend?',
-                  timestamp: '2025-05-15T16:30:00Z',
-                  isRead: true
-                },
-                {
-                  id: 'msg-3-2',
-                  senderId: 'student-1',
-                  recipientId: 'user-1',
-                  senderName: 'Michael Brown',
-                  senderAvatar: '/images/student-3.jpg',
-                  content: 'Yes, I\'ll be at the study group this weekend.',
-                  timestamp: '2025-05-15T17:20:00Z',
-                  isRead: true
-                }
-              ]
-            }
-          ];
-          
-          setConversations(mockConversations);
-          
-          // Set initial active conversation if instructorId is provided
-          if (initialInstructorId) {
-            const conversation = mockConversations.find(c => c.participantId === initialInstructorId);
-            if (conversation) {
-              setActiveConversation(conversation.id);
-            }
-          } else if (mockConversations.length > 0) {
-            // Otherwise, set the first conversation as active
-            setActiveConversation(mockConversations[0].id);
+        const response = await enrollmentService.getAllEnrollments({ limit: 100 });
+        const byId = new Map<string, Instructor>();
+        response.data.enrollments.forEach((enrollment: any) => {
+          if (enrollment.teacher_id) {
+            byId.set(enrollment.teacher_id, {
+              id: enrollment.teacher_id,
+              name: `${enrollment.teacher_first_name} ${enrollment.teacher_last_name}`
+            });
           }
-          
-          setIsLoading(false);
-        }, 1000);
+        });
+        setInstructors(Array.from(byId.values()));
       } catch (err) {
-        console.error('Error fetching conversations:', err);
-        setIsLoading(false);
+        console.error('Error fetching instructors:', err);
       }
     };
     
-    fetchConversations();
-  }, [initialInstructorId, user]);
+    fetchInstructors();
+  }, []);
   
-  // Scroll to bottom when messages change or active conversation changes
+  // Load the messages of the active conversation; the API marks them as read
   useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [activeConversation, conversations]);
-  
-  const handleSendMessage = (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (!messageInput.trim() || !activeConversation) return;
+    if (!activeConversation) return;
     
-    // In a real app, this would be an API call
-    const conversation = conversations.find(c => c.id === activeConversation);
-    if (!conversation) return;
-    
-    // Create a new message
-    const newMessage: Message = {
-      id: `msg-${conversation.id}-${conversation.messages.length + 1}`,
-      senderId: 'user-1',
-      recipientId: conversation.participantId,
-      senderName: user?.firstName + ' ' + user?.lastName || 'Me',
-      senderAvatar: '/images/user-avatar.jpg',
-      content: messageInput,
-      timestamp: new Date().toISOString(),
-      isRead: false
+    const fetchMessages = async () => {
+      setIsLoadingMessages(true);
+      setError(null);
+      try {
+        const data = await messageService.getConversationMessages(activeConversation);
+        setMessages(data.messages);
+        setParticipant(data.participant);
+        setConversations(prev =>
+          prev.map(c => (c.userId === activeConversation ? { ...c, unreadCount: 0 } : c))
+        );
+      } catch (err) {
+        console.error('Error fetching messages:', err);
+        setError('Failed to load messages. Please try again later.');
+      } finally {
+        setIsLoadingMessages(false);
+      }
     };
     
-    // Update the messages array and last message for the conversation
-    const updatedConversations = conversations.map(c => {
-      if (c.id === activeConversation) {
-        return {
-          ...c,
-          messages: [...c.messages, newMessage],
-          lastMessage: {
-            content: messageInput,
-            timestamp: new Date().toISOString(),
-            isFromUser: true,
-            isRead: false
-          }
-        };
-      }
-      return c;
-    });
+    fetchMessages();
+  }, [activeConversation]);
+  
+  // Scroll to bottom when messages change
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+  
+  const handleTypingStopped = () => {
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+      typingTimeoutRef.current = null;
+      if (activeConversation) sendTyping(activeConversation, false);
+    }
+  };
+  
+  // Announce typing once, then stop after a few seconds without input
+  const handleMessageInputChange = (value: string) => {
+    setMessageInput(value);
+    if (!activeConversation) return;
     
-    setConversations(updatedConversations);
-    setMessageInput('');
+    if (!typingTimeoutRef.current) {
+      sendTyping(activeConversation, true);
+    } else {
+      clearTimeout(typingTimeoutRef.current);
+    }
+    typingTimeoutRef.current = setTimeout(handleTypingStopped, 3000);
   };
   
-  const handleStartNewConversation = (e: React.FormEvent) => {
+  const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!newMessageRecipient.trim() || !newMessageContent.trim()) return;
-    
-    // In a real app, this would validate the recipient and create a new conversation via API
-    const recipientName = newMessageRecipient.split(' ');
-    const firstName = recipientName[0] || '';
-    const lastName = recipientName.slice(1).join(' ') || '';
-    
-    // Create a new conversation with the first message
-    const newConversationId = `conv-${conversations.length + 1}`;
-    const newParticipantId = `new-${conversations.length + 1}`;
+    if (!messageInput.trim() || !activeConversation) return;
     
-    const newMessage: Message = {
-      id: `msg-${newConversationId}-1`,
-      senderId: 'user-1',
-      recipientId: newParticipantId,
-      senderName: user?.firstName + ' ' + user?.lastName || 'Me',
-      senderAvatar: '/images/user-avatar.jpg',
-      content: newMessageContent,
-      timestamp: new Date().toISOString(),
-      isRead: false
-    };
+    setIsSending(true);
+    setError(null);
+    try {
+      // Reply to the latest message so the conversation stays threaded
+      const lastMessage = messages[messages.length - 1];
+      const data = lastMessage
+        ? await messageService.replyToMessage(lastMessage.id, messageInput)
+        : await messageService.sendMessage({
+            recipientId: activeConversation,
+            subject: 'Question',
+            content: messageInput
+          });
+      
+      appendMessage(data.message);
+      setMessageInput('');
+      handleTypingStopped();
+      await fetchConversations();
+    } catch (err: any) {
+      console.error('Error sending message:', err);
+      setError(err?.response?.data?.message || 'Failed to send message. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
+  };
+  
+  const handleStartNewConversation = async (e: React.FormEvent) => {
+    e.preventDefault();
     
-    const newConversation: Conversation = {
-      id: newConversationId,
-      participantId: newParticipantId,
-      participantName: `${firstName} ${lastName}`,
-      participantAvatar: '/images/default-avatar.jpg',
-      participantRole: 'instructor', // Default to instructor for demonstration
-      lastMessage: {
-        content: newMessageContent,
-        timestamp: new Date().toISOString(),
-        isFromUser: true,
-        isRead: false
-      },
-      messages: [newMessage]
-    };
+    if (!newMessageRecipient || !newMessageContent.trim()) return;
     
-    setConversations([newConversation, ...conversations]);
-    setActiveConversation(newConversationId);
-    setShowNewMessageForm(false);
-    setNewMessageRecipient('');
-    setNewMessageContent('');
+    setIsSending(true);
+    setError(null);
+    try {
+      await messageService.sendMessage({
+        recipientId: newMessageRecipient,
+        subject: newMessageSubject.trim() || 'Question',
+        content: newMessageContent
+      });
+      
+      await fetchConversations();
+      setActiveConversation(newMessageRecipient);
+      setShowNewMessageForm(false);
+      setNewMessageRecipient('');
+      setNewMessageSubject('');
+      setNewMessageContent('');
+    } catch (err: any) {
+      console.error('Error sending message:', err);
+      setError(err?.response?.data?.message || 'Failed to send message. Please try again.');
+    } finally {
+      setIsSending(false);
+    }
   };
   
   // Format timestamp for better display
@@ -361,12 +275,18 @@ const StudentMessagesPage: React.FC = () => {
   
   // Filter conversations by search term
   const filteredConversations = conversations.filter(conversation => 
-    conversation.participantName.toLowerCase().includes(searchTerm.toLowerCase())
+    conversation.userName.toLowerCase().includes(searchTerm.toLowerCase())
   );
   
-  const activeConversationData = activeConversation 
-    ? conversations.find(c => c.id === activeConversation) 
-    : null;
+  const formatRole = (role: string): string =>
+    role === 'teacher' ? 'Instructor' : role.charAt(0).toUpperCase() + role.slice(1);
+  
+  const renderAvatar = (profilePicture: string | null | undefined, name: string, className: string) =>
+    profilePicture ? (
+      <img src={profilePicture} alt={name} className={`${className} rounded-full flex-shrink-0`} />
+    ) : (
+      <UserCircleIcon className={`${className} text-gray-400 flex-shrink-0`} />
+    );
 
   return (
     <div className="space-y-6">
@@ -376,6 +296,10 @@ const StudentMessagesPage: React.FC = () => {
         <p className="mt-1 text-gray-600">Communicate with your instructors and classmates</p>
       </div>
       
+      {error && (
+        <Alert type="error" message={error} onClose={() => setError(null)} />
+      )}
+      
       {/* Messages container */}
       <div className="bg-white rounded-lg shadow-md overflow-hidden">
         <div className="h-[600px] flex">
@@ -418,35 +342,31 @@ const StudentMessagesPage: React.FC = () => {
               <div className="flex-1 overflow-y-auto">
                 {filteredConversations.map((conversation) => (
                   <button
-                    key={conversation.id}
+                    key={conversation.userId}
                     className={`w-full text-left p-4 border-b border-gray-200 hover:bg-gray-50 transition-colors ${
-                      activeConversation === conversation.id ? 'bg-gray-100' : ''
+                      activeConversation === conversation.userId ? 'bg-gray-100' : ''
                     }`}
-                    onClick={() => setActiveConversation(conversation.id)}
+                    onClick={() => setActiveConversation(conversation.userId)}
                   >
                     <div className="flex items-start">
-                      <img
-                        src={conversation.participantAvatar}
-                        alt={conversation.participantName}
-                        className="h-10 w-10 rounded-full flex-shrink-0"
-                      />
+                      {renderAvatar(conversation.profilePicture, conversation.userName, 'h-10 w-10')}
                       <div className="ml-3 flex-1 min-w-0">
                         <div className="flex items-center justify-between">
                           <h4 className="text-sm font-medium text-gray-900 truncate">
-                            {conversation.participantName}
+                            {conversation.userName}
                           </h4>
                           <span className="text-xs text-gray-500">
-                            {formatTimestamp(conversation.lastMessage.timestamp)}
+                            {formatTimestamp(conversation.lastMessageDate)}
                           </span>
                         </div>
                         <div className="flex items-center justify-between">
                           <p className={`text-sm truncate ${
-                            conversation.lastMessage.isRead ? 'text-gray-500' : 'font-medium text-gray-900'
+                            conversation.unreadCount === 0 ? 'text-gray-500' : 'font-medium text-gray-900'
                           }`}>
-                            {conversation.lastMessage.isFromUser ? 'You: ' : ''}
-                            {conversation.lastMessage.content}
+                            {conversation.lastMessageFromUser ? 'You: ' : ''}
+                            {conversation.lastMessage}
                           </p>
-                          {!conversation.lastMessage.isRead && !conversation.lastMessage.isFromUser && (
+                          {conversation.unreadCount > 0 && (
                             <span className="inline-block h-2 w-2 rounded-full bg-primary-600"></span>
                           )}
                         </div>
@@ -460,67 +380,75 @@ const StudentMessagesPage: React.FC = () => {
           
           {/* Message content */}
           <div className="w-2/3 flex flex-col">
-            {activeConversationData ? (
+            {activeConversation && participant ? (
               <>
                 {/* Conversation header */}
                 <div className="p-4 border-b border-gray-200 flex items-center">
-                  <img
-                    src={activeConversationData.participantAvatar}
-                    alt={activeConversationData.participantName}
-                    className="h-10 w-10 rounded-full"
-                  />
+                  {renderAvatar(participant.profilePicture, participant.name, 'h-10 w-10')}
                   <div className="ml-3">
                     <h3 className="text-sm font-medium text-gray-900">
-                      {activeConversationData.participantName}
+                      {participant.name}
                     </h3>
                     <p className="text-xs text-gray-500">
-                      {activeConversationData.participantRole.charAt(0).toUpperCase() + 
-                        activeConversationData.participantRole.slice(1)}
+                      {formatRole(participant.role)}
+                      {onlineUsers[activeConversation] && (
+                        <span className="ml-2 inline-flex items-center text-green-600">
+                          <span className="h-2 w-2 rounded-full bg-green-500 mr-1"></span>
+                          Online
+                        </span>
+                      )}
                     </p>
                   </div>
                 </div>
                 
                 {/* Messages */}
                 <div className="flex-1 p-4 overflow-y-auto">
-                  <div className="space-y-4">
-                    {activeConversationData.messages.map((message) => (
-                      <div
-                        key={message.id}
-                        className={`flex ${message.senderId === 'user-1' ? 'justify-end' : 'justify-start'}`}
-                      >
-                        {message.senderId !== 'user-1' && (
-                          <img
-                            src={message.senderAvatar}
-                            alt={message.senderName}
-                            className="h-8 w-8 rounded-full mr-2"
-                          />
-                        )}
-                        <div>
+                  {isLoadingMessages ? (
+                    <div className="flex justify-center items-center h-full">
+                      <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-primary-600"></div>
+                    </div>
+                  ) : messages.length === 0 ? (
+                    <div className="flex flex-col justify-center items-center h-full text-gray-500">
+                      <ChatBubbleLeftRightIcon className="h-12 w-12 mb-2" />
+                      <p>No messages yet</p>
+                    </div>
+                  ) : (
+                    <div className="space-y-4">
+                      {messages.map((message) => {
+                        const isFromUser = message.senderId === user?.id;
+                        return (
                           <div
-                            className={`rounded-lg px-4 py-2 max-w-xs md:max-w-md ${
-                              message.senderId === 'user-1'
-                                ? 'bg-primary-600 text-white'
-                                : 'bg-gray-100 text-gray-900'
-                            }`}
+                            key={message.id}
+                            className={`flex ${isFromUser ? 'justify-end' : 'justify-start'}`}
                           >
-                            <p>{message.content}</p>
-                          </div>
-                          <div className="mt-1 text-xs text-gray-500 flex items-center">
-                            <ClockIcon className="h-3 w-3 mr-1" />
-                            <span>{formatTimestamp(message.timestamp)}</span>
+                            <div>
+                              <div
+                                className={`rounded-lg px-4 py-2 max-w-xs md:max-w-md ${
+                                  isFromUser
+                                    ? 'bg-primary-600 text-white'
+                                    : 'bg-gray-100 text-gray-900'
+                                }`}
+                              >
+                                <p className={`text-xs font-medium mb-1 ${isFromUser ? 'text-primary-100' : 'text-gray-500'}`}>
+                                  {message.subject}
+                                </p>
+                                <p className="whitespace-pre-wrap">{message.content}</p>
+                              </div>
+                              <div className="mt-1 text-xs text-gray-500 flex items-center">
+                                <ClockIcon className="h-3 w-3 mr-1" />
+                                <span>{formatTimestamp(message.createdAt)}</span>
+                                {isFromUser && message.isRead && <span className="ml-2">Seen</span>}
+                              </div>
+                            </div>
                           </div>
-                        </div>
-                        {message.senderId === 'user-1' && (
-                          <img
-                            src={message.senderAvatar}
-                            alt={message.senderName}
-                            className="h-8 w-8 rounded-full ml-2"
-                          />
-                        )}
-                      </div>
-                    ))}
-                    <div ref={messagesEndRef} />
-                  </div>
+                        );
+                      })}
+                      {typingUsers[activeConversation] && (
+                        <p className="text-xs italic text-gray-500">{participant.name} is typing...</p>
+                      )}
+                      <div ref={messagesEndRef} />
+                    </div>
+                  )}
                 </div>
                 
                 {/* Message input */}
@@ -532,14 +460,15 @@ const StudentMessagesPage: React.FC = () => {
                         rows={3}
                         placeholder="Type your message..."
                         value={messageInput}
-                        onChange={(e) => setMessageInput(e.target.value)}
+                        onChange={(e) => handleMessageInputChange(e.target.value)}
                       ></textarea>
                     </div>
                     <Button
                       type="submit"
                       variant="primary"
                       className="h-10 w-10 rounded-full flex items-center justify-center"
-                      disabled={!messageInput.trim()}
+                      disabled={!messageInput.trim() || isSending}
+                      isLoading={isSending}
                     >
                       <PaperAirplaneIcon className="h-5 w-5" />
                     </Button>
@@ -569,14 +498,33 @@ const StudentMessagesPage: React.FC = () => {
                 <label htmlFor="recipient" className="block text-sm font-medium text-gray-700 mb-1">
                   Recipient
                 </label>
-                <input
-                  type="text"
+                <select
                   id="recipient"
-                  className="form-input w-full rounded-md border-gray-300 focus:border-primary-500 focus:ring-primary-500"
-                  placeholder="Enter recipient name"
+                  className="form-select w-full rounded-md border-gray-300 focus:border-primary-500 focus:ring-primary-500"
                   value={newMessageRecipient}
                   onChange={(e) => setNewMessageRecipient(e.target.value)}
                   required
+                >
+                  <option value="">Select an instructor</option>
+                  {instructors.map((instructor) => (
+                    <option key={instructor.id} value={instructor.id}>
+                      {instructor.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              
+              <div className="mb-4">
+                <label htmlFor="subject" className="block text-sm font-medium text-gray-700 mb-1">
+                  Subject
+                </label>
+                <input
+                  type="text"
+                  id="subject"
+                  className="form-input w-full rounded-md border-gray-300 focus:border-primary-500 focus:ring-primary-500"
+                  placeholder="Subject (optional)"
+                  value={newMessageSubject}
+                  onChange={(e) => setNewMessageSubject(e.target.value)}
                 />
               </div>
               
@@ -597,6 +545,7 @@ const StudentMessagesPage: React.FC = () => {
               
               <div className="flex justify-end space-x-3">
                 <Button
+                  type="button"
                   variant="outline"
                   onClick={() => setShowNewMessageForm(false)}
                 >
@@ -605,7 +554,8 @@ const StudentMessagesPage: React.FC = () => {
                 <Button
                   type="submit"
                   variant="primary"
-                  disabled={!newMessageRecipient.trim() || !newMessageContent.trim()}
+                  isLoading={isSending}
+                  disabled={!newMessageRecipient || !newMessageContent.trim() || isSending}
                 >
                   Send Message
                 </Button>
@@ -4,6 +4,8 @@ import { useSelector, useDispatch } from 'react-redux';
 import { RootState, AppDispatch } from '../../../redux/store';
 import Button from '../../../components/ui/Button';
 import Alert from '../../../components/ui/Alert';
+import TwoFactorSettings from '../../../components/settings/TwoFactorSettings';
+import BillingSettings from '../../../components/settings/BillingSettings';
 import { 
   UserCircleIcon, 
   EnvelopeIcon, 
@@ -13,7 +15,9 @@ import {
   UserIcon,
   PencilIcon,
   CheckIcon,
-  XMarkIcon
+  XMarkIcon,
+  ShieldCheckIcon,
+  DocumentTextIcon
 } from '@heroicons/react/24/outline';
 
 interface ProfileSettings {
@@ -43,7 +47,7 @@ const StudentSettingsPage: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
   const { user } = useSelector((state: RootState) => state.auth);
   
-  const [activeTab, setActiveTab] = useState<'profile' | 'password' | 'notifications' | 'privacy'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'password' | 'security' | 'billing' | 'notifications' | 'privacy'>('profile');
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -294,6 +298,28 @@ const StudentSettingsPage: React.FC = () => {
                 <LockClosedIcon className="h-5 w-5 mr-3" />
                 Password
               </button>
+              <button
+                className={`flex items-center px-3 py-2 w-full text-sm font-medium rounded-md ${
+                  activeTab === 'security' 
+                    ? 'bg-primary-50 text-primary-600' 
+                    : 'text-gray-700 hover:bg-gray-100'
+                }`}
+                onClick={() => setActiveTab('security')}
+              >
+                <ShieldCheckIcon className="h-5 w-5 mr-3" />
+                Security
+              </button>
+              <button
+                className={`flex items-center px-3 py-2 w-full text-sm font-medium rounded-md ${
+                  activeTab === 'billing' 
+                    ? 'bg-primary-50 text-primary-600' 
+                    : 'text-gray-700 hover:bg-gray-100'
+                }`}
+                onClick={() => setActiveTab('billing')}
+              >
+                <DocumentTextIcon className="h-5 w-5 mr-3" />
+                Billing
+              </button>
               <button
                 className={`flex items-center px-3 py-2 w-full text-sm font-medium rounded-md ${
                   activeTab === 'notifications' 
@@ -567,6 +593,11 @@ const StudentSettingsPage: React.FC = () => {
               </div>
             )}
             
+            {/* Two-factor authentication */}
+            {activeTab === 'security' && <TwoFactorSettings />}
+
+            {activeTab === 'billing' && <BillingSettings />}
+            
             {/* Notification settings */}
             {activeTab === 'notifications' && (
               <div>
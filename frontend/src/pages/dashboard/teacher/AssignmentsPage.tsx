@@ -1,15 +1,30 @@
 // src/pages/dashboard/teacher/AssignmentsPage.tsx
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Link } from 'react-router-dom';
 import { 
   PlusIcon,
   ClipboardDocumentListIcon,
   FunnelIcon,
   MagnifyingGlassIcon,
-  ArrowPathIcon
+  ArrowPathIcon,
+  ArrowUturnLeftIcon
 } from '@heroicons/react/24/outline';
 import Button from '../../../components/ui/Button';
 import Select from '../../../components/ui/Select';
+import Alert from '../../../components/ui/Alert';
+import CreateAssignmentModal from '../../../components/assignment/CreateAssignmentModal';
+import RubricTable from '../../../components/assignment/RubricTable';
+import QuizBuilderModal from '../../../components/assignment/QuizBuilderModal';
+import TestCasesModal from '../../../components/assignment/TestCasesModal';
+import TestResultsList from '../../../components/assignment/TestResultsList';
+import {
+  assignmentService,
+  TeacherAssignmentSummary,
+  SubmissionRecord,
+  SubmissionStatus,
+  GradingRubric,
+  RubricCriterionScore
+} from '../../../services/apiServices';
 
 interface Assignment {
   id: string;
@@ -18,84 +33,194 @@ interface Assignment {
     id: string;
     title: string;
   };
-  dueDate: string;
+  dueDate: string | null;
   totalStudents: number;
   submissionCount: number;
+  awaitingGrading: number;
+  returnedCount: number;
   status: 'draft' | 'published' | 'closed';
-  type: 'quiz' | 'assignment' | 'project' | 'exam';
+  type: TeacherAssignmentSummary['assignment_type'];
 }
 
+const toAssignment = (row: TeacherAssignmentSummary): Assignment => {
+  const isClosed = Boolean(row.due_date && new Date(row.due_date) < new Date());
+  return {
+    id: row.id,
+    title: row.title,
+    course: { id: row.course_id, title: row.course_title },
+    dueDate: row.due_date,
+    totalStudents: Number(row.student_count),
+    submissionCount: Number(row.submitted_count) + Number(row.graded_count) + Number(row.returned_count),
+    awaitingGrading: Number(row.submitted_count),
+    returnedCount: Number(row.returned_count),
+    status: !row.is_published ? 'draft' : isClosed ? 'closed' : 'published',
+    type: row.assignment_type
+  };
+};
+
 const AssignmentsPage: React.FC = () => {
   const [assignments, setAssignments] = useState<Assignment[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [error, setError] = useState('');
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [courseFilter, setCourseFilter] = useState<string>('all');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [typeFilter, setTypeFilter] = useState<string>('all');
+  const [submissionFilter, setSubmissionFilter] = useState<'all' | SubmissionStatus>('all');
 
-  // Fetch assignments data
-  useEffect(() => {
-    setIsLoading(true);
-    
-    // Mock API call
-    setTimeout(() => {
-      const mockAssignments: Assignment[] = [
-        {
-          id: 'a1',
-          title: 'React Components Assignment',
-          course: { id: 'c1', title: 'React Fundamentals' },
-          dueDate: '2025-05-25',
-          totalStudents: 42,
-          submissionCount: 28,
-          status: 'published',
-          type: 'assignment'
-        },
-        {
-          id: 'a2',
-          title: 'Node.js API Project',
-          course: { id: 'c2', title: 'Node.js Backend Development' },
-          dueDate: '2025-06-10',
-          totalStudents: 37,
-          submissionCount: 12,
-          status: 'published',
-          type: 'project'
-        },
-        {
-          id: 'a3',
-          title: 'JavaScript Midterm Exam',
-          course: { id: 'c3', title: 'JavaScript Masterclass' },
-          dueDate: '2025-05-30',
-          totalStudents: 45,
-          submissionCount: 0,
-          status: 'draft',
-          type: 'exam'
-        },
-        {
-          id: 'a4',
-          title: 'React Hooks Quiz',
-          course: { id: 'c1', title: 'React Fundamentals' },
-          dueDate: '2025-05-20',
-          totalStudents: 42,
-          submissionCount: 39,
-          status: 'published',
-          type: 'quiz'
-        },
-        {
-          id: 'a5',
-          title: 'CSS Layouts Assignment',
-          course: { id: 'c4', title: 'Advanced CSS Techniques' },
-          dueDate: '2025-05-15',
-          totalStudents: 32,
-          submissionCount: 31,
-          status: 'closed',
-          type: 'assignment'
-        }
-      ];
-      
-      setAssignments(mockAssignments);
+  // Submissions of the expanded assignment
+  const [openAssignmentId, setOpenAssignmentId] = useState<string | null>(null);
+  const [submissions, setSubmissions] = useState<SubmissionRecord[]>([]);
+  const [isSubmissionsLoading, setIsSubmissionsLoading] = useState(false);
+  const [returningId, setReturningId] = useState<string | null>(null);
+  const [returnComments, setReturnComments] = useState('');
+  const [isReturning, setIsReturning] = useState(false);
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [quizAssignment, setQuizAssignment] = useState<Assignment | null>(null);
+  const [testsAssignment, setTestsAssignment] = useState<Assignment | null>(null);
+  const [testResultsId, setTestResultsId] = useState<string | null>(null);
+  const [rerunningId, setRerunningId] = useState<string | null>(null);
+
+  // Grading of one submission, per criterion when the assignment has a rubric
+  const [openRubric, setOpenRubric] = useState<GradingRubric | null>(null);
+  const [openMaxPoints, setOpenMaxPoints] = useState(0);
+  const [gradingId, setGradingId] = useState<string | null>(null);
+  const [gradeValue, setGradeValue] = useState('');
+  const [rubricSelection, setRubricSelection] = useState<Omit<RubricCriterionScore, 'points'>[]>([]);
+  const [gradeFeedback, setGradeFeedback] = useState('');
+  const [isGrading, setIsGrading] = useState(false);
+
+  // Fetch assignments data; the submission status filter is applied by the API
+  const fetchAssignments = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const response = await assignmentService.getMyAssignments(submissionFilter === 'all' ? undefined : submissionFilter);
+      setAssignments(response.data.assignments.map(toAssignment));
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to load assignments');
+    } finally {
       setIsLoading(false);
-    }, 1000);
-  }, []);
+    }
+  }, [submissionFilter]);
+
+  useEffect(() => {
+    fetchAssignments();
+  }, [fetchAssignments]);
+
+  const loadSubmissions = useCallback(async (assignmentId: string) => {
+    try {
+      setIsSubmissionsLoading(true);
+      const response = await assignmentService.getAssignmentById(
+        assignmentId,
+        submissionFilter === 'all' ? undefined : { status: submissionFilter }
+      );
+      setSubmissions(response.data.assignment.submissions);
+      setOpenRubric(response.data.assignment.grading_rubric);
+      setOpenMaxPoints(response.data.assignment.max_points);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to load submissions');
+    } finally {
+      setIsSubmissionsLoading(false);
+    }
+  }, [submissionFilter]);
+
+  useEffect(() => {
+    if (openAssignmentId) {
+      loadSubmissions(openAssignmentId);
+    }
+  }, [openAssignmentId, loadSubmissions]);
+
+  // Poll while submissions are waiting for their tests to run
+  const isAutoGrading = submissions.some(
+    (submission) => submission.auto_grade_status === 'pending' || submission.auto_grade_status === 'running'
+  );
+  useEffect(() => {
+    if (!openAssignmentId || !isAutoGrading) return;
+
+    const timer = setTimeout(() => loadSubmissions(openAssignmentId), 3000);
+    return () => clearTimeout(timer);
+  }, [openAssignmentId, isAutoGrading, submissions, loadSubmissions]);
+
+  const toggleSubmissions = (assignmentId: string) => {
+    setOpenAssignmentId(prev => (prev === assignmentId ? null : assignmentId));
+    setReturningId(null);
+    setGradingId(null);
+  };
+
+  const startGrading = (submission: SubmissionRecord) => {
+    setGradingId(submission.id);
+    setReturningId(null);
+    setGradeValue(submission.raw_grade !== null ? String(submission.raw_grade) : '');
+    setRubricSelection(submission.rubric_scores ?? []);
+    setGradeFeedback(submission.feedback ?? '');
+  };
+
+  const selectRubricLevel = (criterionId: string, levelId: string) => {
+    setRubricSelection(prev => [
+      ...prev.filter(score => score.criterionId !== criterionId),
+      { criterionId, levelId }
+    ]);
+  };
+
+  const handleGrade = async (submissionId: string) => {
+    try {
+      setIsGrading(true);
+      await assignmentService.gradeSubmission(submissionId, {
+        ...(openRubric ? { rubricScores: rubricSelection } : { grade: Number(gradeValue) }),
+        feedback: gradeFeedback.trim() || undefined
+      });
+      setGradingId(null);
+      if (openAssignmentId) {
+        await loadSubmissions(openAssignmentId);
+      }
+      fetchAssignments();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to grade submission');
+    } finally {
+      setIsGrading(false);
+    }
+  };
+
+  // The total the server will compute from the picked levels
+  const rubricTotal = openRubric
+    ? rubricSelection.reduce((sum, score) => {
+        const criterion = openRubric.criteria.find(c => c.id === score.criterionId);
+        return sum + (criterion?.levels.find(level => level.id === score.levelId)?.points ?? 0);
+      }, 0)
+    : 0;
+
+  const handleReturn = async (submissionId: string) => {
+    if (!returnComments.trim()) return;
+
+    try {
+      setIsReturning(true);
+      await assignmentService.returnSubmission(submissionId, returnComments.trim());
+      setReturningId(null);
+      setReturnComments('');
+      if (openAssignmentId) {
+        await loadSubmissions(openAssignmentId);
+      }
+      fetchAssignments();
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to return submission');
+    } finally {
+      setIsReturning(false);
+    }
+  };
+
+  const handleRerunTests = async (submissionId: string) => {
+    try {
+      setRerunningId(submissionId);
+      await assignmentService.rerunAutoGrade(submissionId);
+      if (openAssignmentId) {
+        await loadSubmissions(openAssignmentId);
+      }
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Failed to run the tests again');
+    } finally {
+      setRerunningId(null);
+    }
+  };
 
   // Filter assignments based on search and filters
   const filteredAssignments = assignments.filter((assignment) => {
@@ -111,7 +236,9 @@ const AssignmentsPage: React.FC = () => {
   });
 
   // Format date
-  const formatDate = (dateString: string): string => {
+  const formatDate = (dateString: string | null): string => {
+    if (!dateString) return 'No due date';
+
     const date = new Date(dateString);
     return date.toLocaleDateString(undefined, {
       year: 'numeric',
@@ -136,6 +263,7 @@ const AssignmentsPage: React.FC = () => {
     setCourseFilter('all');
     setStatusFilter('all');
     setTypeFilter('all');
+    setSubmissionFilter('all');
   };
 
   // Status badge colors
@@ -155,34 +283,56 @@ const AssignmentsPage: React.FC = () => {
   // Type badge colors
   const getTypeBadge = (type: string) => {
     switch (type) {
-      case 'quiz':
+      case 'multiple_choice':
         return 'bg-primary-100 text-primary-800';
-      case 'assignment':
+      case 'essay':
         return 'bg-success-100 text-success-800';
       case 'project':
         return 'bg-warning-100 text-warning-800';
-      case 'exam':
+      case 'coding':
         return 'bg-danger-100 text-danger-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
   };
 
+  // Submission status badge colors
+  const getSubmissionBadge = (status: SubmissionStatus) => {
+    switch (status) {
+      case 'submitted':
+        return 'bg-primary-100 text-primary-800';
+      case 'graded':
+        return 'bg-success-100 text-success-800';
+      case 'returned':
+        return 'bg-accent-100 text-accent-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const formatType = (type: string) =>
+    type.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
   return (
     <div className="space-y-6">
       <div className="bg-white rounded-lg shadow-md p-6">
         <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6">
           <h1 className="text-2xl font-bold text-gray-900">Assignments</h1>
-          <Link to="/dashboard/teacher/assignments/create">
-            <Button 
-              variant="primary" 
-              leftIcon={<PlusIcon className="h-5 w-5" />}
-            >
-              Create Assignment
-            </Button>
-          </Link>
+          <Button 
+            variant="primary" 
+            leftIcon={<PlusIcon className="h-5 w-5" />}
+            onClick={() => setShowCreateModal(true)}
+          >
+            Create Assignment
+          </Button>
         </div>
         
+        {error && (
+          <div className="mb-4">
+            <Alert type="error" message={error} onClose={() => setError('')} />
+          </div>
+        )}
+
         <div className="mb-6">
           <div className="flex flex-col md:flex-row space-y-3 md:space-y-0 md:space-x-4">
             {/* Search box */}
@@ -225,16 +375,30 @@ const AssignmentsPage: React.FC = () => {
               <Select
                 options={[
                   { value: 'all', label: 'All Types' },
-                  { value: 'quiz', label: 'Quiz' },
-                  { value: 'assignment', label: 'Assignment' },
-                  { value: 'project', label: 'Project' },
-                  { value: 'exam', label: 'Exam' }
+                  { value: 'essay', label: 'Essay' },
+                  { value: 'multiple_choice', label: 'Multiple Choice' },
+                  { value: 'file_upload', label: 'File Upload' },
+                  { value: 'coding', label: 'Coding' },
+                  { value: 'project', label: 'Project' }
                 ]}
                 value={typeFilter}
                 onChange={(e) => setTypeFilter(e.target.value)}
                 fullWidth={false}
                 className="w-40"
               />
+
+              <Select
+                options={[
+                  { value: 'all', label: 'All Submissions' },
+                  { value: 'submitted', label: 'Awaiting Grading' },
+                  { value: 'returned', label: 'Returned' },
+                  { value: 'graded', label: 'Graded' }
+                ]}
+                value={submissionFilter}
+                onChange={(e) => setSubmissionFilter(e.target.value as 'all' | SubmissionStatus)}
+                fullWidth={false}
+                className="w-44"
+              />
               
               <Button
                 variant="outline"
@@ -248,7 +412,7 @@ const AssignmentsPage: React.FC = () => {
           </div>
           
           {/* Filter summary */}
-          {(searchTerm || courseFilter !== 'all' || statusFilter !== 'all' || typeFilter !== 'all') && (
+          {(searchTerm || courseFilter !== 'all' || statusFilter !== 'all' || typeFilter !== 'all' || submissionFilter !== 'all') && (
             <div className="mt-3 flex items-center">
               <FunnelIcon className="h-4 w-4 text-gray-500 mr-1" />
               <span className="text-sm text-gray-500">
@@ -293,7 +457,8 @@ const AssignmentsPage: React.FC = () => {
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {filteredAssignments.map((assignment) => (
-                  <tr key={assignment.id}>
+                  <React.Fragment key={assignment.id}>
+                  <tr>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex items-center">
                         <div className="flex-shrink-0 h-10 w-10 rounded-md bg-primary-100 flex items-center justify-center text-primary-700">
@@ -317,9 +482,19 @@ const AssignmentsPage: React.FC = () => {
                       <div className="w-24 bg-gray-200 rounded-full h-1.5 mt-1">
                         <div 
                           className="bg-primary-600 h-1.5 rounded-full" 
-                          style={{ width: `${(assignment.submissionCount / assignment.totalStudents) * 100}%` }}
+                          style={{ width: `${assignment.totalStudents > 0 ? Math.min(100, (assignment.submissionCount / assignment.totalStudents) * 100) : 0}%` }}
                         ></div>
                       </div>
+                      {(assignment.awaitingGrading > 0 || assignment.returnedCount > 0) && (
+                        <div className="mt-1 text-xs">
+                          {assignment.awaitingGrading > 0 && (
+                            <span className="text-primary-700 mr-2">{assignment.awaitingGrading} to grade</span>
+                          )}
+                          {assignment.returnedCount > 0 && (
+                            <span className="text-accent-700">{assignment.returnedCount} in revision</span>
+                          )}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusBadge(assignment.status)}`}>
@@ -328,16 +503,32 @@ const AssignmentsPage: React.FC = () => {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getTypeBadge(assignment.type)}`}>
-                        {assignment.type.charAt(0).toUpperCase() + assignment.type.slice(1)}
+                        {formatType(assignment.type)}
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                      <Link 
-                        to={`/dashboard/teacher/assignments/${assignment.id}`}
+                      <button
+                        onClick={() => toggleSubmissions(assignment.id)}
                         className="text-primary-600 hover:text-primary-900 mr-3"
                       >
-                        View
-                      </Link>
+                        {openAssignmentId === assignment.id ? 'Hide' : 'Submissions'}
+                      </button>
+                      <button
+                        onClick={() => setQuizAssignment(assignment)}
+                        className="text-primary-600 hover:text-primary-900 mr-3"
+                        title={assignment.type === 'multiple_choice' ? 'Edit questions and see analytics' : 'Turn into a quiz'}
+                      >
+                        Quiz
+                      </button>
+                      {assignment.type !== 'multiple_choice' && (
+                        <button
+                          onClick={() => setTestsAssignment(assignment)}
+                          className="text-primary-600 hover:text-primary-900 mr-3"
+                          title={assignment.type === 'coding' ? 'Edit the tests submissions are graded with' : 'Auto-grade code with tests'}
+                        >
+                          Tests
+                        </button>
+                      )}
                       <Link 
                         to={`/dashboard/teacher/assignments/${assignment.id}/edit`}
                         className="text-accent-600 hover:text-accent-900 mr-3"
@@ -349,6 +540,172 @@ const AssignmentsPage: React.FC = () => {
                       </button>
                     </td>
                   </tr>
+
+                  {openAssignmentId === assignment.id && (
+                    <tr>
+                      <td colSpan={7} className="px-6 py-4 bg-gray-50">
+                        {isSubmissionsLoading ? (
+                          <div className="text-sm text-gray-500">Loading submissions...</div>
+                        ) : submissions.length === 0 ? (
+                          <div className="text-sm text-gray-500">No submissions match this filter.</div>
+                        ) : (
+                          <ul className="divide-y divide-gray-200">
+                            {submissions.map((submission) => (
+                              <li key={submission.id} className="py-3">
+                                <div className="flex items-start justify-between">
+                                  <div className="text-sm">
+                                    <div className="font-medium text-gray-900">
+                                      {submission.first_name} {submission.last_name}
+                                      <span className="ml-2 text-gray-500 font-normal">Attempt {submission.attempt_number}</span>
+                                    </div>
+                                    <div className="text-gray-500">
+                                      {formatDate(submission.submitted_at)}
+                                      {Boolean(submission.is_late) && <span className="ml-2 text-danger-600">Late</span>}
+                                      {submission.grade !== null && <span className="ml-2">Grade: {submission.grade}</span>}
+                                      {submission.auto_grade_status && (
+                                        <button
+                                          onClick={() => setTestResultsId(prev => (prev === submission.id ? null : submission.id))}
+                                          className="ml-2 text-primary-600 hover:text-primary-800"
+                                        >
+                                          {submission.auto_grade_status === 'completed' && submission.test_results
+                                            ? `Tests: ${submission.test_results.score}/${submission.test_results.maxScore}`
+                                            : `Tests: ${submission.auto_grade_status}`}
+                                        </button>
+                                      )}
+                                    </div>
+                                    {submission.submission_text && (
+                                      <p className="mt-1 text-gray-700 whitespace-pre-line line-clamp-3">{submission.submission_text}</p>
+                                    )}
+                                    {submission.submission_url && (
+                                      <a href={submission.submission_url} target="_blank" rel="noreferrer" className="text-primary-600 hover:text-primary-800">
+                                        {submission.submission_url}
+                                      </a>
+                                    )}
+                                  </div>
+                                  <div className="flex items-center space-x-3">
+                                    <span className={`px-2 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getSubmissionBadge(submission.submission_status)}`}>
+                                      {submission.submission_status.charAt(0).toUpperCase() + submission.submission_status.slice(1)}
+                                    </span>
+                                    {(submission.submission_status === 'submitted' || submission.submission_status === 'graded') && gradingId !== submission.id && (
+                                      <Button variant="primary" size="sm" onClick={() => startGrading(submission)}>
+                                        {submission.submission_status === 'graded' ? 'Regrade' : 'Grade'}
+                                      </Button>
+                                    )}
+                                    {/* Quiz attempts are scored by the server, so there is nothing to revise */}
+                                    {assignment.type !== 'multiple_choice' && (submission.submission_status === 'submitted' || submission.submission_status === 'graded') && returningId !== submission.id && (
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        leftIcon={<ArrowUturnLeftIcon className="h-4 w-4" />}
+                                        onClick={() => {
+                                          setReturningId(submission.id);
+                                          setReturnComments('');
+                                          setGradingId(null);
+                                        }}
+                                      >
+                                        Return for Revision
+                                      </Button>
+                                    )}
+                                  </div>
+                                </div>
+
+                                {testResultsId === submission.id && (
+                                  <div className="mt-3 space-y-2">
+                                    <TestResultsList report={submission.test_results} status={submission.auto_grade_status} />
+                                    {(submission.submission_status === 'submitted' || submission.submission_status === 'graded') && (
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        leftIcon={<ArrowPathIcon className="h-4 w-4" />}
+                                        isLoading={rerunningId === submission.id}
+                                        onClick={() => handleRerunTests(submission.id)}
+                                      >
+                                        Run Tests Again
+                                      </Button>
+                                    )}
+                                  </div>
+                                )}
+
+                                {returningId === submission.id && (
+                                  <div className="mt-3 space-y-2">
+                                    <textarea
+                                      rows={3}
+                                      className="form-textarea block w-full sm:text-sm border-gray-300 rounded-md"
+                                      placeholder="What should the student revise?"
+                                      value={returnComments}
+                                      onChange={(e) => setReturnComments(e.target.value)}
+                                    />
+                                    <div className="flex justify-end space-x-2">
+                                      <Button variant="outline" size="sm" onClick={() => setReturningId(null)}>
+                                        Cancel
+                                      </Button>
+                                      <Button
+                                        variant="primary"
+                                        size="sm"
+                                        isLoading={isReturning}
+                                        disabled={!returnComments.trim()}
+                                        onClick={() => handleReturn(submission.id)}
+                                      >
+                                        Return to Student
+                                      </Button>
+                                    </div>
+                                  </div>
+                                )}
+
+                                {gradingId === submission.id && (
+                                  <div className="mt-3 space-y-2">
+                                    {openRubric ? (
+                                      <>
+                                        <RubricTable rubric={openRubric} scores={rubricSelection} onSelect={selectRubricLevel} />
+                                        <div className="text-sm text-gray-700">
+                                          Total: <span className="font-medium">{rubricTotal}</span> / {openMaxPoints}
+                                          {Boolean(submission.is_late) && <span className="ml-2 text-danger-600">before the late penalty</span>}
+                                        </div>
+                                      </>
+                                    ) : (
+                                      <div className="flex items-center space-x-2 text-sm">
+                                        <input
+                                          type="number"
+                                          min="0"
+                                          max={openMaxPoints}
+                                          className="form-input w-24 rounded-md border-gray-300 sm:text-sm"
+                                          value={gradeValue}
+                                          onChange={(e) => setGradeValue(e.target.value)}
+                                        />
+                                        <span className="text-gray-500">/ {openMaxPoints}</span>
+                                      </div>
+                                    )}
+                                    <textarea
+                                      rows={2}
+                                      className="form-textarea block w-full sm:text-sm border-gray-300 rounded-md"
+                                      placeholder="Feedback for the student (optional)"
+                                      value={gradeFeedback}
+                                      onChange={(e) => setGradeFeedback(e.target.value)}
+                                    />
+                                    <div className="flex justify-end space-x-2">
+                                      <Button variant="outline" size="sm" onClick={() => setGradingId(null)}>
+                                        Cancel
+                                      </Button>
+                                      <Button
+                                        variant="primary"
+                                        size="sm"
+                                        isLoading={isGrading}
+                                        disabled={openRubric ? rubricSelection.length !== openRubric.criteria.length : gradeValue === ''}
+                                        onClick={() => handleGrade(submission.id)}
+                                      >
+                                        Save Grade
+                                      </Button>
+                                    </div>
+                                  </div>
+                                )}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                  </React.Fragment>
                 ))}
                 
                 {filteredAssignments.length === 0 && (
@@ -363,6 +720,35 @@ const AssignmentsPage: React.FC = () => {
           </div>
         )}
       </div>
+
+      {quizAssignment && (
+        <QuizBuilderModal
+          assignment={{ id: quizAssignment.id, title: quizAssignment.title, courseId: quizAssignment.course.id }}
+          onClose={() => setQuizAssignment(null)}
+          onSaved={() => {
+            setQuizAssignment(null);
+            fetchAssignments();
+          }}
+        />
+      )}
+
+      {testsAssignment && (
+        <TestCasesModal
+          assignment={{ id: testsAssignment.id, title: testsAssignment.title }}
+          onClose={() => setTestsAssignment(null)}
+          onSaved={fetchAssignments}
+        />
+      )}
+
+      {showCreateModal && (
+        <CreateAssignmentModal
+          onClose={() => setShowCreateModal(false)}
+          onCreated={() => {
+            setShowCreateModal(false);
+            fetchAssignments();
+          }}
+        />
+      )}
     </div>
   );
 };
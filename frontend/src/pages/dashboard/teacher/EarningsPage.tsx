@@ -0,0 +1,302 @@
+// src/pages/dashboard/teacher/EarningsPage.tsx
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  BanknotesIcon,
+  WalletIcon,
+  ArrowDownTrayIcon,
+  ReceiptPercentIcon,
+  CheckCircleIcon
+} from '@heroicons/react/24/outline';
+import Button from '../../../components/ui/Button';
+import Spinner from '../../../components/ui/Spinner';
+import Alert from '../../../components/ui/Alert';
+import { earningService, EarningsSummary, EarningStatement } from '../../../services/apiServices';
+
+const formatVND = (amount: number) => `${Number(amount).toLocaleString()} VNĐ`;
+
+// Statement periods are calendar months, YYYY-MM
+const currentPeriod = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const EarningsPage: React.FC = () => {
+  const [summary, setSummary] = useState<EarningsSummary | null>(null);
+  const [period, setPeriod] = useState<string>(currentPeriod());
+  const [statement, setStatement] = useState<EarningStatement | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [isStatementLoading, setIsStatementLoading] = useState<boolean>(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const loadSummary = async () => {
+      try {
+        const response = await earningService.getSummary();
+        setSummary(response.data.summary);
+      } catch (err: any) {
+        setError(err.response?.data?.message || err.message || 'Failed to load earnings');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadSummary();
+  }, []);
+
+  const loadStatement = useCallback(async () => {
+    if (!period) return;
+
+    setIsStatementLoading(true);
+    try {
+      const response = await earningService.getStatement(period);
+      setStatement(response.data.statement);
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to load statement');
+    } finally {
+      setIsStatementLoading(false);
+    }
+  }, [period]);
+
+  useEffect(() => {
+    loadStatement();
+  }, [loadStatement]);
+
+  const handleDownload = async () => {
+    try {
+      const blob = await earningService.downloadStatement(period);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `earnings-${period.replace('-', '')}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(err.response?.data?.message || err.message || 'Failed to download statement');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Spinner />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h1 className="text-2xl font-bold text-gray-900">Earnings</h1>
+        <p className="text-gray-600">
+          You receive each course sale minus the platform commission of {summary?.commissionRate ?? 0}%.
+          Refunds are deducted from your earnings.
+        </p>
+      </div>
+
+      {error && (
+        <Alert type="error" message={error} onClose={() => setError('')} />
+      )}
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center">
+            <div className="p-3 rounded-full bg-primary-100 text-primary-600">
+              <BanknotesIcon className="h-7 w-7" />
+            </div>
+            <div className="ml-4">
+              <h2 className="text-sm font-medium text-gray-500">Total Earned</h2>
+              <p className="text-2xl font-bold text-primary-600">{formatVND(summary?.totals.netAmount ?? 0)}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center">
+            <div className="p-3 rounded-full bg-success-100 text-success-600">
+              <CheckCircleIcon className="h-7 w-7" />
+            </div>
+            <div className="ml-4">
+              <h2 className="text-sm font-medium text-gray-500">Paid Out</h2>
+              <p className="text-2xl font-bold text-success-600">{formatVND(summary?.paidOut ?? 0)}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center">
+            <div className="p-3 rounded-full bg-accent-100 text-accent-600">
+              <WalletIcon className="h-7 w-7" />
+            </div>
+            <div className="ml-4">
+              <h2 className="text-sm font-medium text-gray-500">Balance</h2>
+              <p className="text-2xl font-bold text-accent-600">{formatVND(summary?.balance ?? 0)}</p>
+            </div>
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <div className="flex items-center">
+            <div className="p-3 rounded-full bg-warning-100 text-warning-600">
+              <ReceiptPercentIcon className="h-7 w-7" />
+            </div>
+            <div className="ml-4">
+              <h2 className="text-sm font-medium text-gray-500">Platform Commission</h2>
+              <p className="text-2xl font-bold text-warning-600">{formatVND(summary?.totals.commissionAmount ?? 0)}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Monthly earnings */}
+        <div className="lg:col-span-2 bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Monthly Earnings</h2>
+          {!summary || summary.periods.length === 0 ? (
+            <p className="text-sm text-gray-600">No sales yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Month</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Sales</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Gross</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Net</th>
+                    <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Payout</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {summary.periods.map((row) => (
+                    <tr
+                      key={row.period}
+                      onClick={() => setPeriod(row.period)}
+                      className={`cursor-pointer hover:bg-gray-50 ${row.period === period ? 'bg-primary-50' : ''}`}
+                    >
+                      <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{row.period}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500 text-right">
+                        {row.sales}
+                        {row.refunds > 0 && <span className="text-xs text-purple-600"> ({row.refunds} refunded)</span>}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500 text-right">{formatVND(row.grossAmount)}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900 text-right">{formatVND(row.netAmount)}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-right">
+                        {row.payout ? (
+                          <span className="text-green-600">Paid {new Date(row.payout.paid_at).toLocaleDateString()}</span>
+                        ) : (
+                          <span className="text-gray-500">Unpaid</span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Earnings per course */}
+        <div className="bg-white rounded-lg shadow-md p-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">By Course</h2>
+          {!summary || summary.courses.length === 0 ? (
+            <p className="text-sm text-gray-600">No sales yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {summary.courses.map((course) => (
+                <li key={course.courseId} className="py-3 flex justify-between">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{course.title}</p>
+                    <p className="text-xs text-gray-500">{course.sales} sales</p>
+                  </div>
+                  <p className="text-sm text-gray-900">{formatVND(course.netAmount)}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Monthly statement */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Payout Statement</h2>
+            {statement && (
+              <p className="text-sm text-gray-500">
+                {statement.payout
+                  ? `Paid out ${formatVND(statement.payout.amount)} on ${new Date(statement.payout.paid_at).toLocaleDateString()}${statement.payout.reference ? ` (ref. ${statement.payout.reference})` : ''}`
+                  : statement.closed ? 'Awaiting payout' : 'This month is still open'}
+              </p>
+            )}
+          </div>
+          <div className="mt-4 sm:mt-0 flex items-center space-x-3">
+            <input
+              type="month"
+              value={period}
+              max={currentPeriod()}
+              onChange={(e) => setPeriod(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+            />
+            <Button
+              variant="outline"
+              onClick={handleDownload}
+              disabled={!statement || statement.entries.length === 0}
+              leftIcon={<ArrowDownTrayIcon className="h-5 w-5" />}
+            >
+              CSV
+            </Button>
+          </div>
+        </div>
+
+        {isStatementLoading ? (
+          <div className="flex justify-center py-6">
+            <Spinner />
+          </div>
+        ) : !statement || statement.entries.length === 0 ? (
+          <p className="text-sm text-gray-600">No sales or refunds in this month.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Course</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reference</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Gross</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Commission</th>
+                  <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Net</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {statement.entries.map((entry) => (
+                  <tr key={entry.id}>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
+                      {new Date(entry.created_at).toLocaleDateString()}
+                      {entry.entry_type === 'refund' && (
+                        <span className="ml-2 px-2 text-xs font-semibold rounded-full bg-purple-100 text-purple-800">refund</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-900">{entry.course_title}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500 font-mono">{entry.txn_ref}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500 text-right">{formatVND(entry.gross_amount)}</td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500 text-right">
+                      {formatVND(entry.commission_amount)} ({Number(entry.commission_rate)}%)
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900 text-right">{formatVND(entry.net_amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-gray-50">
+                <tr>
+                  <td colSpan={3} className="px-4 py-3 text-sm font-semibold text-gray-900">Total</td>
+                  <td className="px-4 py-3 text-sm font-semibold text-gray-900 text-right">{formatVND(statement.totals.grossAmount)}</td>
+                  <td className="px-4 py-3 text-sm font-semibold text-gray-900 text-right">{formatVND(statement.totals.commissionAmount)}</td>
+                  <td className="px-4 py-3 text-sm font-semibold text-gray-900 text-right">{formatVND(statement.totals.netAmount)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EarningsPage;
@@ -1,8 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useSelector } from 'react-redux';
 import { Link } from 'react-router-dom';
 import { RootState } from '../../../redux/store';
 import messageService from '../../../services/messageService';
+import { useMessageSocket } from '../../../hooks/useMessageSocket';
 import Button from '../../../components/ui/Button';
 import Alert from '../../../components/ui/Alert';
 import Spinner from '../../../components/ui/Spinner';
@@ -49,6 +50,49 @@ const TeacherMessagesPage: React.FC = () => {
   const [newMessageSubject, setNewMessageSubject] = useState('');
   const [newMessageContent, setNewMessageContent] = useState('');
   const [students, setStudents] = useState<Array<{id: string, name: string}>>([]);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Messages can arrive both from the API response and the socket, so skip duplicates
+  const appendMessage = (message: Message) => {
+    setMessages(prev => (prev.some(existing => existing.id === message.id) ? prev : [...prev, message]));
+  };
+
+  const { onlineUsers, typingUsers, sendTyping, queryPresence } = useMessageSocket({
+    onMessage: (message) => {
+      const partnerId = message.senderId === user?.id ? message.recipientId : message.senderId;
+      const isOpen = partnerId === activeConversation;
+      const isIncoming = message.recipientId === user?.id;
+
+      if (isOpen) {
+        appendMessage({ ...message, senderName: message.senderName ?? '' });
+        // The conversation is open, so the message is read right away (sends a read receipt)
+        if (isIncoming) {
+          messageService.markMessageAsRead(message.id).catch(() => undefined);
+        }
+      }
+
+      if (!conversations.some(conv => conv.userId === partnerId)) {
+        fetchConversations();
+        return;
+      }
+
+      setConversations(prev =>
+        prev.map(conv =>
+          conv.userId === partnerId
+            ? {
+                ...conv,
+                lastMessage: message.content,
+                lastMessageDate: message.createdAt,
+                unreadCount: isIncoming && !isOpen ? conv.unreadCount + 1 : conv.unreadCount
+              }
+            : conv
+        )
+      );
+    },
+    onRead: ({ messageIds }) => {
+      setMessages(prev => prev.map(message => (messageIds.includes(message.id) ? { ...message, isRead: true } : message)));
+    }
+  });
 
   // Fetch conversations on component mount
   useEffect(() => {
@@ -90,6 +134,7 @@ const TeacherMessagesPage: React.FC = () => {
     try {
       const data = await messageService.getConversations();
       setConversations(data.conversations);
+      queryPresence(data.conversations.map((conv: Conversation) => conv.userId));
       
       // If there are conversations and none is selected, select the first one
       if (data.conversations.length > 0 && !activeConversation) {
@@ -125,6 +170,27 @@ const TeacherMessagesPage: React.FC = () => {
     }
   };
 
+  const handleTypingStopped = () => {
+    if (typingTimeoutRef.current) {
+      clearTimeout(typingTimeoutRef.current);
+      typingTimeoutRef.current = null;
+      if (activeConversation) sendTyping(activeConversation, false);
+    }
+  };
+
+  // Announce typing once, then stop after a few seconds without input
+  const handleMessageInputChange = (value: string) => {
+    setMessageInput(value);
+    if (!activeConversation) return;
+
+    if (!typingTimeoutRef.current) {
+      sendTyping(activeConversation, true);
+    } else {
+      clearTimeout(typingTimeoutRef.current);
+    }
+    typingTimeoutRef.current = setTimeout(handleTypingStopped, 3000);
+  };
+
   // Send message
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -135,16 +201,18 @@ const TeacherMessagesPage: React.FC = () => {
     setError(null);
     
     try {
-      const messageData = {
-        recipientId: activeConversation,
-        subject: 'Re: Course Discussion',
-        content: messageInput
-      };
-      
-      const sentMessage = await messageService.sendMessage(messageData);
+      // Continue the thread of the latest message, or start a new one
+      const lastMessage = messages[messages.length - 1];
+      const data = lastMessage
+        ? await messageService.replyToMessage(lastMessage.id, messageInput)
+        : await messageService.sendMessage({
+            recipientId: activeConversation,
+            subject: 'Course Discussion',
+            content: messageInput
+          });
       
       // Add new message to the messages list
-      setMessages(prev => [...prev, sentMessage]);
+      appendMessage(data.message);
       
       // Update conversation last message
       setConversations(prev => 
@@ -161,6 +229,7 @@ const TeacherMessagesPage: React.FC = () => {
       
       // Clear input
       setMessageInput('');
+      handleTypingStopped();
     } catch (err) {
       console.error('Error sending message:', err);
       setError('Failed to send message. Please try again.');
@@ -203,6 +272,23 @@ const TeacherMessagesPage: React.FC = () => {
     }
   };
 
+  // Delete every message of the active conversation (only for the current user)
+  const handleDeleteConversation = async () => {
+    if (!activeConversation || messages.length === 0) return;
+    if (!window.confirm('Delete this conversation? The other participant will still see it.')) return;
+    
+    setError(null);
+    try {
+      await messageService.deleteMessages(messages.map(message => message.id));
+      setConversations(prev => prev.filter(conv => conv.userId !== activeConversation));
+      setMessages([]);
+      setActiveConversation(null);
+    } catch (err) {
+      console.error('Error deleting conversation:', err);
+      setError('Failed to delete conversation. Please try again.');
+    }
+  };
+
   // Format date
   const formatDate = (dateString: string): string => {
     const date = new Date(dateString);
@@ -349,7 +435,11 @@ const TeacherMessagesPage: React.FC = () => {
                       {conversations.find(c => c.userId === activeConversation)?.userName || 'Student'}
                     </p>
                     <p className="text-xs text-gray-500">
-                      {conversations.find(c => c.userId === activeConversation)?.userRole || 'Student'}
+                      {typingUsers[activeConversation]
+                        ? 'typing...'
+                        : onlineUsers[activeConversation]
+                          ? 'Online'
+                          : conversations.find(c => c.userId === activeConversation)?.userRole || 'Student'}
                     </p>
                   </div>
                 </div>
@@ -357,6 +447,7 @@ const TeacherMessagesPage: React.FC = () => {
                   <button 
                     className="text-gray-500 hover:text-gray-700"
                     title="Delete Conversation"
+                    onClick={handleDeleteConversation}
                   >
                     <TrashIcon className="h-5 w-5" />
                   </button>
@@ -398,6 +489,9 @@ const TeacherMessagesPage: React.FC = () => {
                               </p>
                             </div>
                             <p className="whitespace-pre-wrap">{message.content}</p>
+                            {isCurrentUser && message.isRead && (
+                              <p className="text-xs text-right text-primary-200 mt-1">Seen</p>
+                            )}
                           </div>
                         </div>
                       );
@@ -415,7 +509,7 @@ const TeacherMessagesPage: React.FC = () => {
                       rows={3}
                       placeholder="Type your message here..."
                       value={messageInput}
-                      onChange={(e) => setMessageInput(e.target.value)}
+                      onChange={(e) => handleMessageInputChange(e.target.value)}
                       disabled={sendingMessage}
                     ></textarea>
                   </div>
@@ -2,11 +2,13 @@ import React, { useState } from 'react';
 import { useSelector } from 'react-redux';
 import { RootState } from '../../../redux/store';
 import Button from '../../../components/ui/Button';
+import TwoFactorSettings from '../../../components/settings/TwoFactorSettings';
 import { 
   UserCircleIcon, 
   KeyIcon,
   BellIcon,
-  Cog6ToothIcon
+  Cog6ToothIcon,
+  ShieldCheckIcon
 } from '@heroicons/react/24/outline';
 
 const TeacherSettingsPage: React.FC = () => {
@@ -18,6 +20,7 @@ const TeacherSettingsPage: React.FC = () => {
     const tabs = [
       { id: 'profile', label: 'Profile', icon: <UserCircleIcon className="h-5 w-5" /> },
       { id: 'password', label: 'Password', icon: <KeyIcon className="h-5 w-5" /> },
+      { id: 'security', label: 'Security', icon: <ShieldCheckIcon className="h-5 w-5" /> },
       { id: 'notifications', label: 'Notifications', icon: <BellIcon className="h-5 w-5" /> },
       { id: 'appearance', label: 'Appearance', icon: <Cog6ToothIcon className="h-5 w-5" /> }
     ];
@@ -77,6 +80,12 @@ const TeacherSettingsPage: React.FC = () => {
             </div>
           </div>
         );
+      case 'security':
+        return (
+          <div className="mt-6 p-4 bg-white rounded-lg shadow">
+            <TwoFactorSettings />
+          </div>
+        );
       case 'notifications':
         return (
           <div className="mt-6 p-4 bg-white rounded-lg shadow">
@@ -74,4 +74,13 @@ export const useCoupons = () => {
     ...coupons,
     dispatch
   };
-};
\ No newline at end of file
+};
+export const useCart = () => {
+  const cart = useAppSelector((state) => state.cart);
+  const dispatch = useAppDispatch();
+  
+  return {
+    ...cart,
+    dispatch
+  };
+};
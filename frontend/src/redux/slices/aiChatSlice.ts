@@ -1,5 +1,5 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
-import aiChatService from '../../services/aiChatService';
+import aiChatService, { ChatCitation, ChatResponse } from '../../services/aiChatService';
 import { setMessage } from './uiSlice';
 
 // Types
@@ -7,7 +7,10 @@ export interface ChatMessage {
   id?: string;
   role: 'user' | 'assistant';
   content: string;
-  timestamp: Date;
+  timestamp: string;
+  courseId?: string;
+  citations?: ChatCitation[];
+  isStreaming?: boolean;
 }
 
 export interface ChatHistory {
@@ -21,21 +24,25 @@ export interface ChatHistory {
 interface AIChatState {
   messages: ChatMessage[];
   chatHistory: ChatHistory[];
+  activeSessionId: string | null;
   isLoading: boolean;
+  isStreaming: boolean;
   error: string | null;
 }
 
+const welcomeMessage = (): ChatMessage => ({
+  role: 'assistant',
+  content: 'Hello! I\'m your AI learning assistant. How can I help with your studies today?',
+  timestamp: new Date().toISOString()
+});
+
 // Initial state
 const initialState: AIChatState = {
-  messages: [
-    {
-      role: 'assistant',
-      content: 'Hello! I\'m your AI learning assistant. How can I help with your studies today?',
-      timestamp: new Date()
-    }
-  ],
+  messages: [welcomeMessage()],
   chatHistory: [],
+  activeSessionId: null,
   isLoading: false,
+  isStreaming: false,
   error: null,
 };
 
@@ -54,6 +61,29 @@ export const sendMessage = createAsyncThunk(
   }
 );
 
+// Streams the answer into the last message; abort the returned promise to stop generation
+export const streamMessage = createAsyncThunk<ChatResponse, { query: string; courseId?: string }, { rejectValue: string }>(
+  'aiChat/streamMessage',
+  async ({ query, courseId }, { dispatch, getState, signal, rejectWithValue }) => {
+    const { activeSessionId } = (getState() as { aiChat: AIChatState }).aiChat;
+
+    try {
+      return await aiChatService.streamMessage(query, courseId, activeSessionId ?? undefined, {
+        onStart: ({ sessionId }) => dispatch(streamStarted(sessionId)),
+        onToken: (content) => dispatch(streamDelta(content)),
+        signal
+      });
+    } catch (err: any) {
+      if (signal.aborted) {
+        return rejectWithValue('Response stopped');
+      }
+      const message = err.message || 'Failed to send message';
+      dispatch(setMessage({ type: 'error', text: message }));
+      return rejectWithValue(message);
+    }
+  }
+);
+
 export const fetchChatHistory = createAsyncThunk(
   'aiChat/fetchChatHistory',
   async (_, { dispatch, rejectWithValue }) => {
@@ -105,13 +135,23 @@ const aiChatSlice = createSlice({
       state.messages.push(action.payload);
     },
     clearMessages: (state) => {
-      state.messages = [
-        {
-          role: 'assistant',
-          content: 'Hello! I\'m your AI learning assistant. How can I help with your studies today?',
-          timestamp: new Date()
-        }
-      ];
+      state.messages = [welcomeMessage()];
+      state.activeSessionId = null;
+      state.error = null;
+    },
+    sessionLoaded: (state, action: PayloadAction<{ sessionId: string; messages: ChatMessage[] }>) => {
+      state.messages = action.payload.messages;
+      state.activeSessionId = action.payload.sessionId;
+      state.error = null;
+    },
+    streamStarted: (state, action: PayloadAction<string>) => {
+      state.activeSessionId = action.payload;
+    },
+    streamDelta: (state, action: PayloadAction<string>) => {
+      const message = state.messages[state.messages.length - 1];
+      if (message?.isStreaming) {
+        message.content += action.payload;
+      }
     },
     clearError: (state) => {
       state.error = null;
@@ -129,13 +169,50 @@ const aiChatSlice = createSlice({
         state.messages.push({
           role: 'assistant',
           content: action.payload.response,
-          timestamp: new Date()
+          timestamp: new Date().toISOString()
         });
       })
       .addCase(sendMessage.rejected, (state, action) => {
         state.isLoading = false;
         state.error = action.payload as string;
       })
+
+      // Stream Message
+      .addCase(streamMessage.pending, (state, action) => {
+        const { query, courseId } = action.meta.arg;
+        const timestamp = new Date().toISOString();
+        state.isStreaming = true;
+        state.error = null;
+        state.messages.push(
+          { role: 'user', content: query, timestamp },
+          { role: 'assistant', content: '', timestamp, courseId, isStreaming: true }
+        );
+      })
+      .addCase(streamMessage.fulfilled, (state, action) => {
+        const message = state.messages[state.messages.length - 1];
+        state.isStreaming = false;
+        state.activeSessionId = action.payload.sessionId;
+        if (message?.isStreaming) {
+          message.content = action.payload.response;
+          message.citations = action.payload.citations;
+          message.isStreaming = false;
+        }
+      })
+      .addCase(streamMessage.rejected, (state, action) => {
+        const message = state.messages[state.messages.length - 1];
+        state.isStreaming = false;
+        if (message?.isStreaming) {
+          // Keep what was already shown when the user stopped the answer
+          if (action.meta.aborted && message.content) {
+            message.isStreaming = false;
+          } else {
+            state.messages.pop();
+          }
+        }
+        if (!action.meta.aborted) {
+          state.error = action.payload ?? 'Failed to get a response. Please try again later.';
+        }
+      })
       
       // Fetch Chat History
       .addCase(fetchChatHistory.pending, (state) => {
@@ -153,5 +230,12 @@ const aiChatSlice = createSlice({
   },
 });
 
-export const { addMessage, clearMessages, clearError } = aiChatSlice.actions;
+export const {
+  addMessage,
+  clearMessages,
+  clearError,
+  sessionLoaded,
+  streamStarted,
+  streamDelta
+} = aiChatSlice.actions;
 export default aiChatSlice.reducer;
\ No newline at end of file
@@ -8,6 +8,7 @@ export interface AuthState {
   isAuthenticated: boolean;
   loading: boolean;
   error: string | null;
+  twoFactorChallenge: string | null;
 }
 
 const initialState: AuthState = {
@@ -17,6 +18,7 @@ const initialState: AuthState = {
   isAuthenticated: false,
   loading: false,
   error: null,
+  twoFactorChallenge: null,
 };
 
 // Async thunks
@@ -28,6 +30,18 @@ export const login = createAsyncThunk(
   }
 );
 
+export const verifyTwoFactorLogin = createAsyncThunk(
+  'auth/verifyTwoFactorLogin',
+  async (code: string, { getState }) => {
+    const state = getState() as { auth: AuthState };
+    if (!state.auth.twoFactorChallenge) {
+      throw new Error('Login session expired, please sign in again');
+    }
+    const response = await authService.verifyTwoFactor(state.auth.twoFactorChallenge, code);
+    return response.data;
+  }
+);
+
 export const register = createAsyncThunk(
   'auth/register',
   async (userData: any) => {
@@ -78,6 +92,10 @@ const authSlice = createSlice({
     clearError: (state) => {
       state.error = null;
     },
+    cancelTwoFactor: (state) => {
+      state.twoFactorChallenge = null;
+      state.error = null;
+    },
     setCredentials: (state, action: PayloadAction<{ user: User; token: string; refreshToken: string }>) => {
       state.user = action.payload.user;
       state.token = action.payload.token;
@@ -105,6 +123,12 @@ const authSlice = createSlice({
       })
       .addCase(login.fulfilled, (state, action) => {
         state.loading = false;
+        if ('twoFactorRequired' in action.payload) {
+          // Password accepted; wait for the authenticator code
+          state.twoFactorChallenge = action.payload.challengeToken;
+          return;
+        }
+        state.twoFactorChallenge = null;
         state.user = action.payload.user;
         state.token = action.payload.token;
         state.refreshToken = action.payload.refreshToken;
@@ -114,6 +138,23 @@ const authSlice = createSlice({
         state.loading = false;
         state.error = action.error.message || 'Login failed';
       })
+      // Two-factor verification
+      .addCase(verifyTwoFactorLogin.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(verifyTwoFactorLogin.fulfilled, (state, action) => {
+        state.loading = false;
+        state.twoFactorChallenge = null;
+        state.user = action.payload.user;
+        state.token = action.payload.token;
+        state.refreshToken = action.payload.refreshToken;
+        state.isAuthenticated = true;
+      })
+      .addCase(verifyTwoFactorLogin.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.error.message || 'Verification failed';
+      })
       // Register
       .addCase(register.pending, (state) => {
         state.loading = true;
@@ -170,5 +211,5 @@ const authSlice = createSlice({
   }
 });
 
-export const { clearError, setCredentials, clearCredentials, updateUser } = authSlice.actions;
+export const { clearError, cancelTwoFactor, setCredentials, clearCredentials, updateUser } = authSlice.actions;
 export default authSlice.reducer;
\ No newline at end of file
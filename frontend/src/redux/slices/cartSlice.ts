@@ -0,0 +1,137 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { cartService, Cart, CartItem, CheckoutData } from '../../services/apiServices';
+
+export interface CartState {
+  items: CartItem[];
+  coupons: Cart['coupons'];
+  subtotal: number;
+  discountAmount: number;
+  total: number;
+  loading: boolean;
+  checkingOut: boolean;
+  error: string | null;
+}
+
+const initialState: CartState = {
+  items: [],
+  coupons: [],
+  subtotal: 0,
+  discountAmount: 0,
+  total: 0,
+  loading: false,
+  checkingOut: false,
+  error: null
+};
+
+const errorMessage = (err: any, fallback: string): string =>
+  err.response?.data?.message || err.message || fallback;
+
+// Async thunks
+export const fetchCart = createAsyncThunk(
+  'cart/fetchCart',
+  async (couponCode: string | undefined, { rejectWithValue }) => {
+    try {
+      const response = await cartService.getCart(couponCode);
+      return response.data as Cart;
+    } catch (err: any) {
+      return rejectWithValue(errorMessage(err, 'Failed to load cart'));
+    }
+  }
+);
+
+export const addToCart = createAsyncThunk(
+  'cart/addToCart',
+  async (courseId: string, { dispatch, rejectWithValue }) => {
+    try {
+      await cartService.addToCart(courseId);
+      await dispatch(fetchCart(undefined));
+      return courseId;
+    } catch (err: any) {
+      return rejectWithValue(errorMessage(err, 'Failed to add course to cart'));
+    }
+  }
+);
+
+export const removeFromCart = createAsyncThunk(
+  'cart/removeFromCart',
+  async (courseId: string, { rejectWithValue }) => {
+    try {
+      await cartService.removeFromCart(courseId);
+      return courseId;
+    } catch (err: any) {
+      return rejectWithValue(errorMessage(err, 'Failed to remove course from cart'));
+    }
+  }
+);
+
+export const checkoutCart = createAsyncThunk(
+  'cart/checkout',
+  async (data: CheckoutData, { rejectWithValue }) => {
+    try {
+      const response = await cartService.checkout(data);
+      return response.data.order;
+    } catch (err: any) {
+      return rejectWithValue(errorMessage(err, 'Checkout failed'));
+    }
+  }
+);
+
+const cartSlice = createSlice({
+  name: 'cart',
+  initialState,
+  reducers: {
+    clearCartError: (state) => {
+      state.error = null;
+    }
+  },
+  extraReducers: (builder) => {
+    builder
+      // Fetch cart
+      .addCase(fetchCart.pending, (state) => {
+        state.loading = true;
+        state.error = null;
+      })
+      .addCase(fetchCart.fulfilled, (state, action) => {
+        state.loading = false;
+        state.items = action.payload.items;
+        state.coupons = action.payload.coupons;
+        state.subtotal = action.payload.subtotal;
+        state.discountAmount = action.payload.discountAmount;
+        state.total = action.payload.total;
+      })
+      .addCase(fetchCart.rejected, (state, action) => {
+        state.loading = false;
+        state.error = action.payload as string;
+      })
+      // Add to cart
+      .addCase(addToCart.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      // Remove from cart (prices are refreshed with the next fetch)
+      .addCase(removeFromCart.fulfilled, (state, action) => {
+        state.items = state.items.filter((item) => item.courseId !== action.payload);
+        state.subtotal = state.items.reduce((total, item) => total + item.price, 0);
+        state.coupons = [];
+        state.discountAmount = 0;
+        state.total = state.subtotal;
+      })
+      .addCase(removeFromCart.rejected, (state, action) => {
+        state.error = action.payload as string;
+      })
+      // Checkout
+      .addCase(checkoutCart.pending, (state) => {
+        state.checkingOut = true;
+        state.error = null;
+      })
+      .addCase(checkoutCart.fulfilled, (state) => {
+        state.checkingOut = false;
+      })
+      .addCase(checkoutCart.rejected, (state, action) => {
+        state.checkingOut = false;
+        state.error = action.payload as string;
+      });
+  }
+});
+
+export const { clearCartError } = cartSlice.actions;
+export default cartSlice.reducer;
@@ -1,4 +1,4 @@
-import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import { messageService, Message } from '../../services/apiServices';
 
 export interface MessageState {
@@ -10,6 +10,10 @@ export interface MessageState {
   unreadCount: number;
   currentPage: number;
   totalPages: number;
+  // Real-time state pushed over the WebSocket connection
+  socketConnected: boolean;
+  onlineUsers: Record<string, boolean>;
+  typingUsers: Record<string, boolean>;
 }
 
 const initialState: MessageState = {
@@ -20,7 +24,10 @@ const initialState: MessageState = {
   totalCount: 0,
   unreadCount: 0,
   currentPage: 1,
-  totalPages: 0
+  totalPages: 0,
+  socketConnected: false,
+  onlineUsers: {},
+  typingUsers: {}
 };
 
 // Async thunks
@@ -73,6 +80,42 @@ const messageSlice = createSlice({
     },
     clearCurrentMessage: (state) => {
       state.currentMessage = null;
+    },
+    socketConnectionChanged: (state, action: PayloadAction<boolean>) => {
+      state.socketConnected = action.payload;
+      if (!action.payload) {
+        state.typingUsers = {};
+      }
+    },
+    messageReceived: (state, action: PayloadAction<{ message: Message; isIncoming: boolean }>) => {
+      const { message, isIncoming } = action.payload;
+      if (!state.messages.some(existing => existing.id === message.id)) {
+        state.messages.unshift(message);
+        if (isIncoming && !message.isRead) {
+          state.unreadCount += 1;
+        }
+      }
+      // A new message ends the sender's typing indicator
+      delete state.typingUsers[message.senderId];
+    },
+    messagesRead: (state, action: PayloadAction<{ messageIds: string[] }>) => {
+      const readIds = new Set(action.payload.messageIds);
+      state.messages = state.messages.map(message =>
+        readIds.has(message.id) ? { ...message, isRead: true } : message
+      );
+      if (state.currentMessage && readIds.has(state.currentMessage.id)) {
+        state.currentMessage.isRead = true;
+      }
+    },
+    presenceUpdated: (state, action: PayloadAction<Record<string, boolean>>) => {
+      state.onlineUsers = { ...state.onlineUsers, ...action.payload };
+    },
+    typingUpdated: (state, action: PayloadAction<{ userId: string; isTyping: boolean }>) => {
+      if (action.payload.isTyping) {
+        state.typingUsers[action.payload.userId] = true;
+      } else {
+        delete state.typingUsers[action.payload.userId];
+      }
     }
   },
   extraReducers: (builder) => {
@@ -128,5 +171,13 @@ const messageSlice = createSlice({
   }
 });
 
-export const { clearError, clearCurrentMessage } = messageSlice.actions;
+export const {
+  clearError,
+  clearCurrentMessage,
+  socketConnectionChanged,
+  messageReceived,
+  messagesRead,
+  presenceUpdated,
+  typingUpdated
+} = messageSlice.actions;
 export default messageSlice.reducer;
\ No newline at end of file
@@ -11,6 +11,8 @@ import messageReducer from './slices/messageSlice';
 import categoryReducer from './slices/categorySlice';
 import paymentReducer from './slices/paymentSlice';
 import couponReducer from './slices/couponSlice';
+import cartReducer from './slices/cartSlice';
+import aiChatReducer from './slices/aiChatSlice';
 import uiReducer from './slices/uiSlice';
 
 // Configure persistence
@@ -29,6 +31,8 @@ const rootReducer = combineReducers({
   categories: categoryReducer,
   payments: paymentReducer,
   coupons: couponReducer,
+  cart: cartReducer,
+  aiChat: aiChatReducer,
   ui: uiReducer,
 });
 
@@ -1,5 +1,53 @@
 // src/services/aiChatService.ts
 import api from './api';
+import { store } from '../redux/store';
+
+export interface ChatCitation {
+  index: number;
+  lectureId: string;
+  lectureTitle: string;
+  sourceType: 'description' | 'transcript' | 'resource';
+  startSeconds?: number;
+  timestamp?: string;
+  resourceTitle?: string;
+  resourceUrl?: string;
+  excerpt: string;
+}
+
+export interface ChatResponse {
+  sessionId: string;
+  response: string;
+  citations: ChatCitation[];
+  tokensUsed: number;
+  responseTimeMs: number;
+}
+
+export interface ChatSession {
+  id: string;
+  courseId?: string;
+  courseTitle?: string;
+  title: string;
+  turnCount: number;
+  lastMessageAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChatTurn {
+  id: string;
+  query: string;
+  response: string;
+  citations: ChatCitation[];
+  tokensUsed: number;
+  responseTimeMs: number;
+  createdAt: string;
+}
+
+export interface StreamHandlers {
+  onStart?: (data: { sessionId: string }) => void;
+  onToken?: (content: string) => void;
+  signal?: AbortSignal;
+}
 
 /**
  * Service for AI chat-related API calls
@@ -9,19 +57,88 @@ const aiChatService = {
    * Send a message to the AI chat assistant
    * @param query - User's question or message
    * @param courseId - Optional course ID for context
-   * @returns AI response
+   * @param sessionId - Optional session to continue (a new one is started otherwise)
+   * @returns AI response with the lecture sources it cites
    */
-  async sendMessage(query: string, courseId?: string) {
-    const body: { query: string; courseId?: string } = { query };
+  async sendMessage(query: string, courseId?: string, sessionId?: string): Promise<ChatResponse> {
+    const body: { query: string; courseId?: string; sessionId?: string } = { query };
     
     if (courseId) {
       body.courseId = courseId;
     }
     
+    if (sessionId) {
+      body.sessionId = sessionId;
+    }
+    
     const response = await api.post('/ai/chat', body);
     return response.data.data;
   },
 
+  /**
+   * Send a message to the AI chat assistant and receive the answer as it is generated.
+   * Aborting the signal closes the connection, which stops generation on the server.
+   * @param query - User's question or message
+   * @param courseId - Optional course ID for context
+   * @param sessionId - Optional session to continue (a new one is started otherwise)
+   * @param handlers - Callbacks for the session and each piece of text, and an abort signal
+   * @returns The complete AI response with the lecture sources it cites
+   */
+  async streamMessage(
+    query: string,
+    courseId?: string,
+    sessionId?: string,
+    handlers: StreamHandlers = {}
+  ): Promise<ChatResponse> {
+    // Server-Sent Events over POST are not supported by axios or EventSource, so read the body with fetch
+    const response = await fetch(`${api.defaults.baseURL}/ai/chat/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+        Authorization: `Bearer ${store.getState().auth.token}`
+      },
+      body: JSON.stringify({ query, courseId: courseId || undefined, sessionId: sessionId || undefined }),
+      signal: handlers.signal
+    });
+
+    if (!response.ok || !response.body) {
+      const error = await response.json().catch(() => null);
+      throw new Error(error?.message || 'Failed to send message');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() ?? '';
+
+      for (const block of events) {
+        let event = 'message';
+        let data = '';
+        for (const line of block.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) data += line.slice(5).trim();
+        }
+        if (!data) continue;
+
+        const payload = JSON.parse(data);
+        if (event === 'start') handlers.onStart?.(payload);
+        else if (event === 'token') handlers.onToken?.(payload.content);
+        else if (event === 'done') return payload as ChatResponse;
+        else if (event === 'error') throw new Error(payload.message || 'Failed to get a response');
+      }
+    }
+
+    throw new Error('The response ended unexpectedly');
+  },
+
   /**
    * Get chat history for the current user
    * @param limit - Number of chat messages to retrieve
@@ -35,6 +152,60 @@ const aiChatService = {
     return response.data.data;
   },
 
+  /**
+   * Get the chat sessions of the current user, most recent first
+   * @param limit - Number of sessions to retrieve
+   * @param offset - Offset for pagination
+   * @returns Sessions and total count
+   */
+  async getSessions(limit: number = 20, offset: number = 0): Promise<{ sessions: ChatSession[]; total: number }> {
+    const response = await api.get('/ai/sessions', {
+      params: { limit, offset }
+    });
+    return response.data.data;
+  },
+
+  /**
+   * Get a chat session with all of its turns
+   * @param sessionId - Session ID
+   * @returns Session and turns
+   */
+  async getSession(sessionId: string): Promise<{ session: ChatSession; turns: ChatTurn[] }> {
+    const response = await api.get(`/ai/sessions/${sessionId}`);
+    return response.data.data;
+  },
+
+  /**
+   * Start a new chat session
+   * @param title - Optional title
+   * @param courseId - Optional course ID for context
+   * @returns Created session
+   */
+  async createSession(title?: string, courseId?: string): Promise<{ session: ChatSession }> {
+    const response = await api.post('/ai/sessions', { title, courseId });
+    return response.data.data;
+  },
+
+  /**
+   * Rename a chat session
+   * @param sessionId - Session ID
+   * @param title - New title
+   * @returns Updated session
+   */
+  async renameSession(sessionId: string, title: string): Promise<{ session: ChatSession }> {
+    const response = await api.patch(`/ai/sessions/${sessionId}`, { title });
+    return response.data.data;
+  },
+
+  /**
+   * Delete a chat session and its messages
+   * @param sessionId - Session ID
+   */
+  async deleteSession(sessionId: string) {
+    const response = await api.delete(`/ai/sessions/${sessionId}`);
+    return response.data;
+  },
+
   /**
    * Generate quiz questions for a lecture
    * @param lectureId - Lecture ID
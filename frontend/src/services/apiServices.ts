@@ -26,6 +26,16 @@ export interface AuthResponse {
   };
 }
 
+// Returned by login instead of tokens when the account has 2FA enabled
+export interface TwoFactorChallengeResponse {
+  status: string;
+  data: {
+    twoFactorRequired: true;
+    challengeToken: string;
+    expiresIn: number;
+  };
+}
+
 // User Interfaces
 export interface User {
   id: string;
@@ -35,11 +45,18 @@ export interface User {
   role: 'student' | 'teacher' | 'admin';
   profilePicture?: string;
   isEmailVerified: boolean;
+  twoFactorEnabled?: boolean;
+  twoFactorSetupRequired?: boolean;
   lastLoginAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface TwoFactorPolicies {
+  twoFactorAvailable: boolean;
+  policies: Record<User['role'], boolean>;
+}
+
 export interface UserStats {
   summary: {
     totalUsers: number;
@@ -124,6 +141,35 @@ export interface CreateLectureData {
 }
 
 // Assignment Interfaces
+export type GradingPolicy = 'best' | 'last' | 'average';
+export type SubmissionStatus = 'draft' | 'submitted' | 'graded' | 'returned';
+
+// Rubric levels are ordered best first; ids are assigned by the server
+export interface RubricLevel {
+  id?: string;
+  title: string;
+  points: number;
+  descriptor: string;
+}
+
+export interface RubricCriterion {
+  id?: string;
+  title: string;
+  description?: string;
+  levels: RubricLevel[];
+}
+
+export interface GradingRubric {
+  criteria: RubricCriterion[];
+}
+
+export interface RubricCriterionScore {
+  criterionId: string;
+  levelId: string;
+  points: number;
+  comment?: string;
+}
+
 export interface Assignment {
   id: string;
   title: string;
@@ -133,6 +179,10 @@ export interface Assignment {
   maxPoints?: number;
   attachmentUrl?: string;
   instructions?: string;
+  allowLateSubmission?: boolean;
+  latePenaltyPercent?: number;
+  maxAttempts?: number | null;
+  gradingPolicy?: GradingPolicy;
   isPublished: boolean;
   createdAt: string;
   updatedAt: string;
@@ -144,14 +194,131 @@ export interface AssignmentSubmission {
   userId: string;
   content?: string;
   attachmentUrl?: string;
-  submissionStatus: 'pending' | 'submitted' | 'late' | 'graded';
+  submissionStatus: SubmissionStatus;
+  isLate?: boolean;
+  attemptNumber?: number;
   grade?: number;
+  rawGrade?: number;
   feedback?: string;
   submittedAt?: string;
   gradedAt?: string;
   gradedBy?: string;
 }
 
+export type CodeLanguage = 'javascript' | 'typescript';
+export type AutoGradeStatus = 'pending' | 'running' | 'completed' | 'failed';
+export type TestOutcome = 'passed' | 'failed' | 'error' | 'timeout' | 'memory_limit' | 'output_limit';
+
+// A hidden (or sample) test of a coding assignment: stdin/expected output, or a JS/TS test file
+export interface CodeTestCase {
+  id?: string;
+  name: string;
+  kind: 'io' | 'test_file';
+  stdin: string | null;
+  expectedOutput: string | null;
+  testCode: string | null;
+  points: number;
+  isHidden: boolean;
+}
+
+export interface TestCaseResult {
+  testCaseId: string;
+  name: string;
+  kind: 'io' | 'test_file';
+  isHidden: boolean;
+  outcome: TestOutcome;
+  points: number;
+  pointsAwarded: number;
+  durationMs: number;
+  // Withheld from students on hidden tests
+  message?: string;
+  actualOutput?: string;
+  checks?: { name: string; passed: boolean; message?: string }[];
+}
+
+export interface CodeGradingReport {
+  language: CodeLanguage;
+  compileError: string | null;
+  score: number;
+  maxScore: number;
+  tests: TestCaseResult[];
+}
+
+// An assignment in one of the student's courses with their latest attempt; "pending" until they start it
+export interface StudentAssignment {
+  id: string;
+  course_id: string;
+  course_title: string;
+  title: string;
+  description: string;
+  due_date: string | null;
+  max_points: number;
+  allow_late_submission: number;
+  max_attempts: number | null;
+  user_submission_id: string | null;
+  submission_text: string | null;
+  submission_url: string | null;
+  submitted_at: string | null;
+  draft_saved_at: string | null;
+  returned_at: string | null;
+  grade: number | null;
+  feedback: string | null;
+  is_late: number | null;
+  attempt_number: number | null;
+  assignment_type: TeacherAssignmentSummary['assignment_type'];
+  status: 'pending' | SubmissionStatus;
+  attempts_used: number;
+  final_grade: number | null;
+  grading_rubric: GradingRubric | null;
+  // Filled rubric of the most recently graded attempt
+  rubric_scores: RubricCriterionScore[] | null;
+  // Auto-grading of the latest attempt of a coding assignment
+  auto_grade_status: AutoGradeStatus | null;
+  auto_score: number | null;
+  test_results: CodeGradingReport | null;
+}
+
+// An assignment in one of the teacher's courses with submission counts per status
+export interface TeacherAssignmentSummary {
+  id: string;
+  course_id: string;
+  course_title: string;
+  title: string;
+  due_date: string | null;
+  assignment_type: 'essay' | 'multiple_choice' | 'file_upload' | 'coding' | 'project';
+  is_published: number;
+  student_count: number;
+  submitted_count: number;
+  graded_count: number;
+  returned_count: number;
+}
+
+export interface SubmissionRecord {
+  id: string;
+  user_id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  submission_text: string | null;
+  submission_url: string | null;
+  submitted_at: string;
+  submission_status: SubmissionStatus;
+  grade: number | null;
+  raw_grade: number | null;
+  rubric_scores: RubricCriterionScore[] | null;
+  feedback: string | null;
+  is_late: number;
+  attempt_number: number;
+  auto_grade_status: AutoGradeStatus | null;
+  auto_score: number | null;
+  test_results: CodeGradingReport | null;
+}
+
+export interface SubmissionContent {
+  submissionText?: string;
+  submissionUrl?: string;
+}
+
 export interface CreateAssignmentData {
   title: string;
   description: string;
@@ -159,6 +326,154 @@ export interface CreateAssignmentData {
   maxPoints?: number;
   instructions?: string;
   isPublished?: boolean;
+  allowLateSubmission?: boolean;
+  latePenaltyPercent?: number;
+  // 0 allows unlimited attempts
+  maxAttempts?: number;
+  gradingPolicy?: GradingPolicy;
+  // Sets maxPoints to the sum of each criterion's best level; an empty list of criteria removes it
+  gradingRubric?: GradingRubric;
+}
+
+// Quiz Interfaces
+export type QuizTargetType = 'assignments' | 'lectures';
+
+export interface QuizQuestionData {
+  question: string;
+  options: string[];
+  correctAnswerIndex: number;
+  explanation?: string;
+}
+
+// A question in a course's bank
+export interface QuizBankQuestion {
+  id: string;
+  course_id: string;
+  question: string;
+  options: string[];
+  correct_option_index: number;
+  explanation: string | null;
+  source: 'manual' | 'ai';
+  source_lecture_id: string | null;
+  usage_count?: number;
+  created_at: string;
+}
+
+// A bank question attached to a quiz
+export interface QuizItem {
+  id: string;
+  question_id: string;
+  points: number;
+  position: number;
+  question: string;
+  options: string[];
+  correct_option_index: number;
+  explanation: string | null;
+  source: 'manual' | 'ai';
+}
+
+export interface QuizTargetInfo {
+  type: 'assignment' | 'lecture';
+  id: string;
+  title: string;
+}
+
+export interface TeacherQuiz {
+  target: QuizTargetInfo;
+  timeLimitMinutes: number | null;
+  shuffleQuestions: boolean;
+  shuffleOptions: boolean;
+  maxScore: number;
+  attemptCount: number;
+  items: QuizItem[];
+}
+
+export type QuizAttemptStatus = 'in_progress' | 'submitted' | 'expired';
+
+export interface StudentQuiz {
+  target: QuizTargetInfo;
+  timeLimitMinutes: number | null;
+  questionCount: number;
+  maxScore: number;
+  maxAttempts: number | null;
+  dueDate: string | null;
+  attempts: {
+    id: string;
+    status: QuizAttemptStatus;
+    score: number | null;
+    max_score: number;
+    started_at: string;
+    expires_at: string | null;
+    submitted_at: string | null;
+  }[];
+}
+
+// Option indexes are in the order this attempt shows them
+export interface QuizAttemptQuestion {
+  itemId: string;
+  position: number;
+  question: string;
+  options: string[];
+  points: number;
+  selectedOptionIndex: number | null;
+  isCorrect?: boolean;
+  pointsAwarded?: number;
+  correctOptionIndex?: number;
+  explanation?: string | null;
+}
+
+export interface QuizAttempt {
+  id: string;
+  target: QuizTargetInfo;
+  status: QuizAttemptStatus;
+  score: number | null;
+  maxScore: number;
+  startedAt: string;
+  expiresAt: string | null;
+  submittedAt: string | null;
+  remainingSeconds: number | null;
+  answersRevealed: boolean;
+  questions: QuizAttemptQuestion[];
+}
+
+export interface QuizAnswer {
+  itemId: string;
+  optionIndex: number | null;
+}
+
+export interface QuizQuestionAnalytics {
+  itemId: string;
+  questionId: string;
+  position: number;
+  question: string;
+  options: string[];
+  correctOptionIndex: number;
+  points: number;
+  answered: number;
+  skipped: number;
+  correct: number;
+  correctRate: number | null;
+  optionCounts: number[];
+}
+
+export interface QuizAnalytics {
+  target: QuizTargetInfo;
+  attempts: number;
+  students: number;
+  maxScore: number;
+  averageScore: number | null;
+  highestScore: number | null;
+  lowestScore: number | null;
+  averageSeconds: number | null;
+  questions: QuizQuestionAnalytics[];
+}
+
+export interface QuizSettingsData {
+  items: { questionId: string; points?: number }[];
+  // 0 removes the time limit
+  timeLimitMinutes?: number;
+  shuffleQuestions?: boolean;
+  shuffleOptions?: boolean;
 }
 
 // Enrollment Interfaces
@@ -188,13 +503,201 @@ export interface Payment {
   course?: Course;
 }
 
+export interface PaymentGatewayOption {
+  id: string;
+  name: string;
+  description: string;
+  enabled: boolean;
+  // Banks or methods the gateway can preselect, sent as bankCode
+  options: Array<{ code: string; name: string }>;
+}
+
 export interface CreatePaymentData {
   courseId: string;
-  paymentMethod: 'vnpay' | 'momo' | 'zalopay';
+  // Gateway id from getPaymentMethods; the server's default when omitted
+  paymentMethod?: string;
+  bankCode?: string;
   returnUrl?: string;
   couponCode?: string;
 }
 
+export interface Transaction {
+  type: 'payment' | 'order';
+  id: string;
+  reference: string;
+  user_id: string;
+  email: string;
+  description: string;
+  amount: number;
+  refunded_amount: number;
+  status: string;
+  transaction_id?: string | null;
+  payment_date?: string | null;
+  created_at: string;
+}
+
+export interface RefundData {
+  amount?: number;
+  courseIds?: string[];
+  reason?: string;
+  enrollmentAction?: 'revoke' | 'downgrade' | 'keep';
+}
+
+export interface Refund {
+  id: string;
+  amount: number;
+  refund_type: 'full' | 'partial';
+  enrollment_action: 'revoke' | 'downgrade' | 'keep';
+  reason?: string | null;
+  status: 'pending' | 'completed' | 'failed';
+  gateway_response_code?: string | null;
+  gateway_message?: string | null;
+  requested_by_email?: string | null;
+  created_at: string;
+}
+
+export interface ReconciliationReport {
+  id: string;
+  trigger_type: 'scheduled' | 'manual';
+  started_at: string;
+  finished_at: string | null;
+  checked_count: number;
+  completed_count: number;
+  failed_count: number;
+  cancelled_count: number;
+  unchanged_count: number;
+  error_count: number;
+}
+
+// Company details printed on VAT invoices
+export interface BillingProfile {
+  company_name: string | null;
+  tax_code: string | null;
+  address: string | null;
+  invoice_email: string | null;
+}
+
+export interface BillingProfileData {
+  companyName?: string | null;
+  taxCode?: string | null;
+  address?: string | null;
+  invoiceEmail?: string | null;
+}
+
+// Cart Interfaces
+export interface CartItem {
+  id: string;
+  courseId: string;
+  title: string;
+  thumbnail?: string | null;
+  price: number;
+  discountAmount: number;
+  amount: number;
+  available: boolean;
+  addedAt: string;
+}
+
+// One coupon rule and whether it held for the checkout
+export interface CouponRuleResult {
+  rule: string;
+  passed: boolean;
+  message: string;
+}
+
+// A coupon considered at checkout (entered or auto-applied) and why it did or didn't apply
+export interface CouponExplanation {
+  code: string;
+  couponId: string | null;
+  name: string | null;
+  discountType: string | null;
+  autoApplied: boolean;
+  applied: boolean;
+  discountAmount: number;
+  rules: CouponRuleResult[];
+}
+
+export interface Cart {
+  items: CartItem[];
+  coupons: CouponExplanation[];
+  subtotal: number;
+  discountAmount: number;
+  total: number;
+  currency: string;
+}
+
+export interface CheckoutData {
+  paymentMethod?: string;
+  bankCode?: string;
+  couponCode?: string;
+}
+
+// Earnings Interfaces
+export interface EarningTotals {
+  grossAmount: number;
+  commissionAmount: number;
+  netAmount: number;
+  sales: number;
+  refunds: number;
+}
+
+export interface TeacherPayout {
+  id: string;
+  teacher_id: string;
+  period: string;
+  amount: number;
+  currency: string;
+  reference?: string | null;
+  note?: string | null;
+  paid_at: string;
+}
+
+export interface EarningsSummary {
+  commissionRate: number;
+  totals: EarningTotals;
+  paidOut: number;
+  balance: number;
+  periods: Array<EarningTotals & { period: string; payout: TeacherPayout | null }>;
+  courses: Array<EarningTotals & { courseId: string; title: string }>;
+}
+
+export interface EarningEntry {
+  id: string;
+  course_id: string;
+  course_title: string;
+  entry_type: 'sale' | 'refund';
+  txn_ref: string | null;
+  gross_amount: number;
+  commission_rate: number;
+  commission_amount: number;
+  net_amount: number;
+  created_at: string;
+}
+
+export interface EarningStatement {
+  teacherId: string;
+  teacherName: string;
+  teacherEmail: string;
+  period: string;
+  closed: boolean;
+  totals: EarningTotals;
+  entries: EarningEntry[];
+  payout: TeacherPayout | null;
+}
+
+export interface TeacherStatementSummary extends EarningTotals {
+  teacherId: string;
+  teacherName: string;
+  teacherEmail: string;
+  payout: TeacherPayout | null;
+}
+
+export interface PayoutData {
+  teacherId: string;
+  period: string;
+  reference?: string;
+  note?: string;
+}
+
 // Message Interfaces
 export interface Message {
   id: string;
@@ -206,6 +709,8 @@ export interface Message {
   parentMessageId?: string;
   isRead: boolean;
   createdAt: string;
+  senderName?: string;
+  recipientName?: string;
   sender?: User;
   recipient?: User;
   course?: Course;
@@ -219,6 +724,22 @@ export interface CreateMessageData {
   parentMessageId?: string;
 }
 
+// Notification Interfaces
+export interface AppNotification {
+  id: string;
+  userId: string;
+  type: string;
+  title: string;
+  message: string;
+  priority: 'low' | 'normal' | 'high' | 'urgent';
+  isRead: boolean;
+  referenceType?: string;
+  referenceId?: string;
+  link?: string;
+  readAt?: string;
+  createdAt: string;
+}
+
 // Category Interfaces
 export interface Category {
   id: string;
@@ -292,6 +813,37 @@ export interface CreateCouponData {
   isPublic?: boolean;
 }
 
+// A batch of single-use codes generated together, with its redemption
+export interface CouponCampaign {
+  id: string;
+  name: string;
+  description: string | null;
+  prefix: string;
+  codeLength: number;
+  codeCount: number;
+  isActive: boolean;
+  createdAt: string;
+  deactivatedAt: string | null;
+  redeemedCodes: number;
+  pendingCodes: number;
+  totalDiscount: number;
+  redemptionRate: number;
+}
+
+export interface CreateCampaignData {
+  name: string;
+  description?: string;
+  prefix?: string;
+  codeLength?: number;
+  alphabet?: string;
+  count: number;
+  discountType: 'percentage' | 'fixed';
+  discountValue: number;
+  minimumAmount?: number;
+  validFrom: string;
+  validUntil: string;
+}
+
 // Upload Interfaces
 export interface UploadResponse {
   status: string;
@@ -307,11 +859,16 @@ export interface UploadResponse {
 
 // Auth Service
 export const authService = {
-  login: async (credentials: LoginCredentials): Promise<AuthResponse> => {
+  login: async (credentials: LoginCredentials): Promise<AuthResponse | TwoFactorChallengeResponse> => {
     const response = await api.post('/auth/login', credentials);
     return response.data;
   },
 
+  verifyTwoFactor: async (challengeToken: string, code: string): Promise<AuthResponse> => {
+    const response = await api.post('/auth/2fa/verify', { challengeToken, code });
+    return response.data;
+  },
+
   register: async (data: RegisterData): Promise<AuthResponse> => {
     const response = await api.post('/auth/register', data);
     return response.data;
@@ -369,6 +926,26 @@ export const userService = {
   getUserStats: async (): Promise<{ status: string; data: UserStats }> => {
     const response = await api.get('/users/stats');
     return response.data;
+  },
+
+  getTwoFactorPolicies: async (): Promise<{ status: string; data: TwoFactorPolicies }> => {
+    const response = await api.get('/users/two-factor-policies');
+    return response.data;
+  },
+
+  updateTwoFactorPolicy: async (role: User['role'], required: boolean) => {
+    const response = await api.put(`/users/two-factor-policies/${role}`, { required });
+    return response.data;
+  },
+
+  getBillingProfile: async (): Promise<{ status: string; data: { billingProfile: BillingProfile | null } }> => {
+    const response = await api.get('/users/profile/billing');
+    return response.data;
+  },
+
+  updateBillingProfile: async (data: BillingProfileData): Promise<{ status: string; data: { billingProfile: BillingProfile } }> => {
+    const response = await api.put('/users/profile/billing', data);
+    return response.data;
   }
 };
 
@@ -490,8 +1067,13 @@ export const lectureService = {
 
 // Assignment Service
 export const assignmentService = {
-  getAssignmentById: async (id: string) => {
-    const response = await api.get(`/assignments/${id}`);
+  getMyAssignments: async (status?: string) => {
+    const response = await api.get('/assignments', { params: status ? { status } : undefined });
+    return response.data;
+  },
+
+  getAssignmentById: async (id: string, params?: { status?: SubmissionStatus }) => {
+    const response = await api.get(`/assignments/${id}`, { params });
     return response.data;
   },
 
@@ -505,14 +1087,110 @@ export const assignmentService = {
     return response.data;
   },
 
-  submitAssignment: async (id: string, data: { content?: string; attachmentUrl?: string }) => {
+  saveDraft: async (id: string, data: SubmissionContent) => {
+    const response = await api.put(`/assignments/${id}/draft`, data);
+    return response.data;
+  },
+
+  submitAssignment: async (id: string, data: SubmissionContent = {}) => {
     const response = await api.post(`/assignments/${id}/submit`, data);
     return response.data;
   },
 
-  gradeSubmission: async (submissionId: string, data: { grade: number; feedback?: string }) => {
+  returnSubmission: async (submissionId: string, comments: string) => {
+    const response = await api.patch(`/assignments/submissions/${submissionId}/return`, { comments });
+    return response.data;
+  },
+
+  gradeSubmission: async (
+    submissionId: string,
+    data: { grade?: number; rubricScores?: Omit<RubricCriterionScore, 'points'>[]; feedback?: string }
+  ) => {
     const response = await api.patch(`/assignments/submissions/${submissionId}/grade`, data);
     return response.data;
+  },
+
+  getTestCases: async (id: string) => {
+    const response = await api.get(`/assignments/${id}/test-cases`);
+    return response.data;
+  },
+
+  setTestCases: async (id: string, data: { language: CodeLanguage; testCases: CodeTestCase[] }) => {
+    const response = await api.put(`/assignments/${id}/test-cases`, data);
+    return response.data;
+  },
+
+  runTestCases: async (id: string, data: { code: string; language?: CodeLanguage }) => {
+    const response = await api.post(`/assignments/${id}/test-cases/run`, data);
+    return response.data;
+  },
+
+  rerunAutoGrade: async (submissionId: string) => {
+    const response = await api.post(`/assignments/submissions/${submissionId}/autograde`);
+    return response.data;
+  }
+};
+
+// Quiz Service
+export const quizService = {
+  getQuestions: async (courseId: string) => {
+    const response = await api.get('/quizzes/questions', { params: { courseId } });
+    return response.data;
+  },
+
+  createQuestions: async (data: {
+    courseId: string;
+    questions: QuizQuestionData[];
+    source?: 'manual' | 'ai';
+    sourceLectureId?: string;
+  }) => {
+    const response = await api.post('/quizzes/questions', data);
+    return response.data;
+  },
+
+  updateQuestion: async (questionId: string, data: Partial<QuizQuestionData>) => {
+    const response = await api.patch(`/quizzes/questions/${questionId}`, data);
+    return response.data;
+  },
+
+  deleteQuestion: async (questionId: string) => {
+    const response = await api.delete(`/quizzes/questions/${questionId}`);
+    return response.data;
+  },
+
+  getQuiz: async (targetType: QuizTargetType, targetId: string) => {
+    const response = await api.get(`/quizzes/${targetType}/${targetId}`);
+    return response.data;
+  },
+
+  setQuizQuestions: async (targetType: QuizTargetType, targetId: string, data: QuizSettingsData) => {
+    const response = await api.put(`/quizzes/${targetType}/${targetId}`, data);
+    return response.data;
+  },
+
+  getAnalytics: async (targetType: QuizTargetType, targetId: string) => {
+    const response = await api.get(`/quizzes/${targetType}/${targetId}/analytics`);
+    return response.data;
+  },
+
+  startAttempt: async (targetType: QuizTargetType, targetId: string) => {
+    const response = await api.post(`/quizzes/${targetType}/${targetId}/attempts`);
+    return response.data;
+  },
+
+  getAttempt: async (attemptId: string) => {
+    const response = await api.get(`/quizzes/attempts/${attemptId}`);
+    return response.data;
+  },
+
+  saveAnswers: async (attemptId: string, answers: QuizAnswer[]) => {
+    const response = await api.put(`/quizzes/attempts/${attemptId}/answers`, { answers });
+    return response.data;
+  },
+
+  submitAttempt: async (attemptId: string, answers?: QuizAnswer[]) => {
+    const response = await api.post(`/quizzes/attempts/${attemptId}/submit`, { answers });
+    return response.data;
   }
 };
 
@@ -571,8 +1249,8 @@ export const paymentService = {
     return response.data;
   },
 
-  handleVNPayReturn: async (params: Record<string, string>) => {
-    const response = await api.get('/payments/vnpay-return', { params });
+  handleGatewayReturn: async (gateway: string, params: Record<string, string>) => {
+    const response = await api.get(`/payments/return/${gateway}`, { params });
     return response.data;
   },
 
@@ -584,6 +1262,122 @@ export const paymentService = {
   getPaymentMethods: async () => {
     const response = await api.get('/payments/methods');
     return response.data;
+  },
+
+  getAllTransactions: async (params?: { page?: number; limit?: number; status?: string }) => {
+    const response = await api.get('/payments/admin/transactions', { params });
+    return response.data;
+  },
+
+  refundPayment: async (id: string, data: RefundData) => {
+    const response = await api.post(`/payments/${id}/refund`, data);
+    return response.data;
+  },
+
+  getPaymentRefunds: async (id: string) => {
+    const response = await api.get(`/payments/${id}/refunds`);
+    return response.data;
+  },
+
+  downloadInvoice: async (id: string): Promise<Blob> => {
+    const response = await api.get(`/payments/${id}/invoice`, { responseType: 'blob' });
+    return response.data;
+  },
+
+  runReconciliation: async () => {
+    const response = await api.post('/payments/admin/reconciliation');
+    return response.data;
+  },
+
+  getReconciliationReports: async (params?: { page?: number; limit?: number }) => {
+    const response = await api.get('/payments/admin/reconciliation', { params });
+    return response.data;
+  },
+
+  downloadReconciliationReport: async (id: string): Promise<Blob> => {
+    const response = await api.get(`/payments/admin/reconciliation/${id}/download`, { responseType: 'blob' });
+    return response.data;
+  }
+};
+
+// Cart Service
+export const cartService = {
+  getCart: async (couponCode?: string) => {
+    const response = await api.get('/cart', { params: couponCode ? { couponCode } : undefined });
+    return response.data;
+  },
+
+  addToCart: async (courseId: string) => {
+    const response = await api.post('/cart/items', { courseId });
+    return response.data;
+  },
+
+  removeFromCart: async (courseId: string) => {
+    const response = await api.delete(`/cart/items/${courseId}`);
+    return response.data;
+  },
+
+  clearCart: async () => {
+    const response = await api.delete('/cart');
+    return response.data;
+  },
+
+  checkout: async (data: CheckoutData) => {
+    const response = await api.post('/cart/checkout', data);
+    return response.data;
+  },
+
+  getOrders: async (params?: { page?: number; limit?: number; status?: string }) => {
+    const response = await api.get('/orders', { params });
+    return response.data;
+  },
+
+  getOrderById: async (id: string) => {
+    const response = await api.get(`/orders/${id}`);
+    return response.data;
+  },
+
+  refundOrder: async (id: string, data: RefundData) => {
+    const response = await api.post(`/orders/${id}/refund`, data);
+    return response.data;
+  },
+
+  getOrderRefunds: async (id: string) => {
+    const response = await api.get(`/orders/${id}/refunds`);
+    return response.data;
+  },
+
+  downloadOrderInvoice: async (id: string): Promise<Blob> => {
+    const response = await api.get(`/orders/${id}/invoice`, { responseType: 'blob' });
+    return response.data;
+  }
+};
+
+// Earnings Service
+export const earningService = {
+  getSummary: async (): Promise<{ status: string; data: { summary: EarningsSummary } }> => {
+    const response = await api.get('/earnings/summary');
+    return response.data;
+  },
+
+  getStatement: async (period: string): Promise<{ status: string; data: { statement: EarningStatement } }> => {
+    const response = await api.get(`/earnings/statements/${period}`);
+    return response.data;
+  },
+
+  downloadStatement: async (period: string): Promise<Blob> => {
+    const response = await api.get(`/earnings/statements/${period}/download`, { responseType: 'blob' });
+    return response.data;
+  },
+
+  getStatements: async (period?: string): Promise<{ status: string; data: { period: string; statements: TeacherStatementSummary[] } }> => {
+    const response = await api.get('/earnings/admin/statements', { params: period ? { period } : undefined });
+    return response.data;
+  },
+
+  createPayout: async (data: PayoutData) => {
+    const response = await api.post('/earnings/admin/payouts', data);
+    return response.data;
   }
 };
 
@@ -620,6 +1414,39 @@ export const messageService = {
   }
 };
 
+// Notification Service
+export const notificationService = {
+  getNotifications: async (params?: {
+    page?: number;
+    limit?: number;
+    unreadOnly?: boolean;
+    type?: string;
+  }) => {
+    const response = await api.get('/notifications', { params });
+    return response.data;
+  },
+
+  getUnreadCount: async (): Promise<number> => {
+    const response = await api.get('/notifications/unread-count');
+    return response.data.data.unreadCount;
+  },
+
+  markAsRead: async (id: string) => {
+    const response = await api.patch(`/notifications/${id}/read`);
+    return response.data;
+  },
+
+  markAllAsRead: async () => {
+    const response = await api.patch('/notifications/read-all');
+    return response.data;
+  },
+
+  deleteNotification: async (id: string) => {
+    const response = await api.delete(`/notifications/${id}`);
+    return response.data;
+  }
+};
+
 // Category Service
 export const categoryService = {
   getAllCategories: async (params?: {
@@ -723,6 +1550,7 @@ export const couponService = {
     return response.data;
   },
 
+  // Without a code only the auto-apply coupons are priced
   validateCoupon: async (code: string, courseId?: string) => {
     const response = await api.post('/coupons/validate', { code, courseId });
     return response.data;
@@ -731,6 +1559,26 @@ export const couponService = {
   getCouponStats: async () => {
     const response = await api.get('/coupons/stats');
     return response.data;
+  },
+
+  getCampaigns: async (): Promise<{ status: string; data: { campaigns: CouponCampaign[] } }> => {
+    const response = await api.get('/coupons/campaigns');
+    return response.data;
+  },
+
+  createCampaign: async (data: CreateCampaignData) => {
+    const response = await api.post('/coupons/campaigns', data);
+    return response.data;
+  },
+
+  exportCampaign: async (id: string): Promise<Blob> => {
+    const response = await api.get(`/coupons/campaigns/${id}/export`, { responseType: 'blob' });
+    return response.data;
+  },
+
+  deactivateCampaign: async (id: string) => {
+    const response = await api.patch(`/coupons/campaigns/${id}/deactivate`);
+    return response.data;
   }
 };
 
@@ -791,7 +1639,10 @@ export default {
   assignment: assignmentService,
   enrollment: enrollmentService,
   payment: paymentService,
+  cart: cartService,
+  earning: earningService,
   message: messageService,
+  notification: notificationService,
   category: categoryService,
   ai: aiService,
   coupon: couponService,
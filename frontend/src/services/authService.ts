@@ -81,6 +81,113 @@ const authService = {
     });
     return response.data;
   },
+
+  /**
+   * Request a password reset email
+   * @param email - Account email
+   * @returns Success message
+   */
+  async forgotPassword(email: string) {
+    const response = await api.post('/auth/forgot-password', { email });
+    return response.data;
+  },
+
+  /**
+   * Check whether a password reset token is still valid
+   * @param token - Token from the reset email
+   * @returns True if the token can be used
+   */
+  async verifyResetToken(token: string) {
+    try {
+      await api.get(`/auth/reset-password/${token}`);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  /**
+   * Reset password using a token from the reset email
+   * @param token - Token from the reset email
+   * @param password - New password
+   * @returns Success message
+   */
+  async resetPassword(token: string, password: string) {
+    const response = await api.post('/auth/reset-password', {
+      token,
+      password,
+      confirmPassword: password,
+    });
+    return response.data;
+  },
+
+  /**
+   * Verify email address using a token from the verification email
+   * @param token - Token from the verification email
+   * @returns Success message
+   */
+  async verifyEmail(token: string) {
+    const response = await api.get(`/auth/verify-email/${token}`);
+    return response.data;
+  },
+
+  /**
+   * Send a new verification email to the current user
+   * @returns Success message
+   */
+  async resendVerificationEmail() {
+    const response = await api.post('/auth/resend-verification');
+    return response.data;
+  },
+
+  /**
+   * Get two-factor authentication status for the current user
+   * @returns Whether 2FA is available, enabled and required
+   */
+  async getTwoFactorStatus() {
+    const response = await api.get('/auth/2fa');
+    return response.data.data;
+  },
+
+  /**
+   * Start two-factor enrollment
+   * @returns Secret and otpauth URI to add to an authenticator app
+   */
+  async setupTwoFactor() {
+    const response = await api.post('/auth/2fa/setup');
+    return response.data.data;
+  },
+
+  /**
+   * Confirm two-factor enrollment with a code from the authenticator app
+   * @param code - 6-digit code
+   * @returns One-time recovery codes
+   */
+  async enableTwoFactor(code: string) {
+    const response = await api.post('/auth/2fa/enable', { code });
+    return response.data.data;
+  },
+
+  /**
+   * Turn off two-factor authentication
+   * @param password - Current password
+   * @param code - Authenticator or recovery code
+   * @returns Success message
+   */
+  async disableTwoFactor(password: string, code: string) {
+    const response = await api.post('/auth/2fa/disable', { password, code });
+    return response.data;
+  },
+
+  /**
+   * Replace all recovery codes
+   * @param code - 6-digit code from the authenticator app
+   * @returns New recovery codes
+   */
+  async regenerateRecoveryCodes(code: string) {
+    const response = await api.post('/auth/2fa/recovery-codes', { code });
+    return response.data.data;
+  },
 };
 
 export default authService;
\ No newline at end of file
@@ -48,13 +48,66 @@ const messageService = {
     return response.data.data;
   },
 
+  /**
+   * Reply to a message; the reply is threaded under the original
+   * @param messageId - ID of the message being replied to
+   * @param content - Reply content
+   * @param includeOriginal - Quote the original message below the reply
+   * @returns Reply message
+   */
+  async replyToMessage(messageId: string, content: string, includeOriginal = false) {
+    const response = await api.post(`/messages/${messageId}/reply`, { content, includeOriginal });
+    return response.data.data;
+  },
+
+  /**
+   * Forward a message (and its attachments) to other users
+   * @param messageId - Message ID
+   * @param recipientIds - Users to forward to
+   * @param additionalMessage - Optional note shown above the forwarded message
+   * @returns Forwarded messages
+   */
+  async forwardMessage(messageId: string, recipientIds: string[], additionalMessage?: string) {
+    const response = await api.post(`/messages/${messageId}/forward`, { recipientIds, additionalMessage });
+    return response.data.data;
+  },
+
   /**
    * Mark a message as read
    * @param messageId - Message ID
    * @returns Updated message
    */
   async markMessageAsRead(messageId: string) {
-    const response = await api.put(`/messages/${messageId}/read`);
+    const response = await api.patch(`/messages/${messageId}/read`);
+    return response.data.data;
+  },
+
+  /**
+   * Delete messages for the current user
+   * @param messageIds - Message IDs
+   * @returns Number of deleted messages
+   */
+  async deleteMessages(messageIds: string[]) {
+    const response = await api.delete('/messages/bulk/delete', { data: { messageIds } });
+    return response.data.data;
+  },
+
+  /**
+   * Full-text search over subject and content
+   * @param q - Search query
+   * @returns Matching messages
+   */
+  async searchMessages(q: string) {
+    const response = await api.get('/messages/search', { params: { q } });
+    return response.data.data;
+  },
+
+  /**
+   * Get message statistics (including unread count)
+   * @returns Message statistics
+   */
+  async getStats() {
+    const response = await api.get('/messages/stats');
     return response.data.data;
   },
 
@@ -62,9 +115,9 @@ const messageService = {
    * Get unread message count
    * @returns Unread message count
    */
-  async getUnreadCount() {
-    const response = await api.get('/messages/unread/count');
-    return response.data.data;
+  async getUnreadCount(): Promise<number> {
+    const stats = await this.getStats();
+    return stats.unreadMessages;
   }
 };
 
@@ -0,0 +1,53 @@
+// src/services/socketService.ts
+import { io, Socket } from 'socket.io-client';
+import api from './api';
+
+let socket: Socket | null = null;
+let socketToken: string | null = null;
+
+// The Socket.IO server shares the API host, without the /api prefix
+const getSocketUrl = (): string => (api.defaults.baseURL || '').replace(/\/api\/?$/, '');
+
+/**
+ * Service managing the single real-time connection of the app
+ */
+const socketService = {
+  /**
+   * Connect with the given access token, reusing the connection if the token did not change
+   * @param token - JWT access token
+   * @returns Socket instance
+   */
+  connect(token: string): Socket {
+    if (socket && socketToken === token) {
+      return socket;
+    }
+
+    socket?.disconnect();
+    socketToken = token;
+    socket = io(getSocketUrl(), {
+      auth: { token },
+      transports: ['websocket', 'polling']
+    });
+
+    return socket;
+  },
+
+  /**
+   * Close the connection (e.g. on logout)
+   */
+  disconnect() {
+    socket?.disconnect();
+    socket = null;
+    socketToken = null;
+  },
+
+  /**
+   * Get the current socket, if connected
+   * @returns Socket instance or null
+   */
+  getSocket(): Socket | null {
+    return socket;
+  }
+};
+
+export default socketService;